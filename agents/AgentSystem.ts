@@ -7,13 +7,34 @@
 import { EventBus } from './core/EventBus';
 import { AgentRegistry } from './core/AgentRegistry';
 import { AgentOrchestrator } from './core/AgentOrchestrator';
+import {
+  ApiWorkflowExecutionStore,
+  ApiWorkflowExecutionStoreConfig,
+  InMemoryWorkflowExecutionStore,
+  WorkflowExecutionStore
+} from './core/WorkflowExecutionStore';
 import { Logger, LogLevel } from './core/infrastructure/logging/Logger';
+import { WebhookEventForwarder, WebhookForwardingConfig } from './integration/WebhookEventForwarder';
 
 // Import all agents
 import { IslamicAnalysisAgent } from './islamic-analysis/IslamicAnalysisAgent';
+import {
+  ApiCertificationBodyDirectory,
+  ApiCertificationBodyDirectoryConfig,
+  CertificationBodyDirectory,
+  InMemoryCertificationBodyDirectory
+} from './islamic-analysis/services/CertificationBodyDirectory';
 import { DocumentProcessingAgent } from './document-processing/DocumentProcessingAgent';
+import { ApiDocumentIntake, ApiDocumentIntakeConfig, DocumentIntake } from './document-processing/services/DocumentIntake';
 import { OrganizationWorkflowAgent } from './organization-workflow/OrganizationWorkflowAgent';
+import { ApiTaskInbox, ApiTaskInboxConfig, InMemoryTaskInbox, TaskInbox } from './organization-workflow/services/TaskInbox';
 import { CertificateGenerationAgent } from './certificate-generation/CertificateGenerationAgent';
+import {
+  ApiCertificateRegistry,
+  ApiCertificateRegistryConfig,
+  CertificateRegistry,
+  InMemoryCertificateRegistry
+} from './certificate-generation/services/CertificateRegistry';
 
 export interface AgentSystemConfig {
   logLevel?: LogLevel;
@@ -23,6 +44,18 @@ export interface AgentSystemConfig {
   eventBusConfig?: {
     maxHistorySize?: number;
   };
+  /** Defaults to HALALCHECK_API_URL / HALALCHECK_API_KEY when both are set */
+  webhookForwarding?: WebhookForwardingConfig;
+  /** Defaults to HALALCHECK_API_URL / HALALCHECK_API_KEY; without either, certificates are kept in memory */
+  certificateRegistry?: ApiCertificateRegistryConfig;
+  /** Defaults to HALALCHECK_API_URL / HALALCHECK_API_KEY; without either, workflow executions are kept in memory */
+  workflowStore?: ApiWorkflowExecutionStoreConfig;
+  /** Defaults to HALALCHECK_API_URL / HALALCHECK_API_KEY; without either, workflow tasks are kept in memory */
+  taskInbox?: ApiTaskInboxConfig;
+  /** Defaults to HALALCHECK_API_URL / HALALCHECK_API_KEY; without either, uploaded pipeline documents are not processed */
+  documentIntake?: ApiDocumentIntakeConfig;
+  /** Defaults to HALALCHECK_API_URL / HALALCHECK_API_KEY; without either, a small built-in list of bodies is used */
+  certificationBodyDirectory?: ApiCertificationBodyDirectoryConfig;
 }
 
 export class AgentSystem {
@@ -33,6 +66,7 @@ export class AgentSystem {
   private agents: Map<string, any>;
   private isInitialized: boolean = false;
   private config: AgentSystemConfig;
+  private webhookForwarder?: WebhookEventForwarder;
 
   constructor(config: AgentSystemConfig = {}) {
     this.config = {
@@ -46,7 +80,7 @@ export class AgentSystem {
     this.logger = new Logger('AgentSystem', { level: this.config.logLevel });
     this.eventBus = new EventBus(this.config.eventBusConfig?.maxHistorySize || 1000);
     this.registry = new AgentRegistry(this.logger);
-    this.orchestrator = new AgentOrchestrator(this.registry, this.eventBus, this.logger);
+    this.orchestrator = new AgentOrchestrator(this.registry, this.eventBus, this.logger, this.createWorkflowExecutionStore());
     this.agents = new Map();
   }
 
@@ -65,6 +99,11 @@ export class AgentSystem {
       // Set up system-level event handlers
       this.setupSystemEventHandlers();
 
+      this.setupWebhookForwarding();
+
+      // Resume workflow executions interrupted by the last shutdown
+      await this.orchestrator.start();
+
       // Start health checks if enabled
       if (this.config.enableHealthChecks) {
         this.startHealthChecks();
@@ -93,22 +132,38 @@ export class AgentSystem {
     this.logger.info('Initializing agents...');
 
     // Islamic Analysis Agent
-    const islamicAnalysisAgent = new IslamicAnalysisAgent(this.eventBus, this.logger.createChildLogger('IslamicAnalysis'));
+    const islamicAnalysisAgent = new IslamicAnalysisAgent(
+      this.eventBus,
+      this.logger.createChildLogger('IslamicAnalysis'),
+      this.createCertificationBodyDirectory()
+    );
     this.registry.register(islamicAnalysisAgent);
     this.agents.set('islamic-analysis', islamicAnalysisAgent);
 
     // Document Processing Agent
-    const documentProcessingAgent = new DocumentProcessingAgent(this.eventBus, this.logger.createChildLogger('DocumentProcessing'));
+    const documentProcessingAgent = new DocumentProcessingAgent(
+      this.eventBus,
+      this.logger.createChildLogger('DocumentProcessing'),
+      this.createDocumentIntake()
+    );
     this.registry.register(documentProcessingAgent);
     this.agents.set('document-processing', documentProcessingAgent);
 
     // Organization Workflow Agent
-    const organizationWorkflowAgent = new OrganizationWorkflowAgent(this.eventBus, this.logger.createChildLogger('OrganizationWorkflow'));
+    const organizationWorkflowAgent = new OrganizationWorkflowAgent(
+      this.eventBus,
+      this.logger.createChildLogger('OrganizationWorkflow'),
+      this.createTaskInbox()
+    );
     this.registry.register(organizationWorkflowAgent);
     this.agents.set('organization-workflow', organizationWorkflowAgent);
 
     // Certificate Generation Agent
-    const certificateGenerationAgent = new CertificateGenerationAgent(this.eventBus, this.logger.createChildLogger('CertificateGeneration'));
+    const certificateGenerationAgent = new CertificateGenerationAgent(
+      this.eventBus,
+      this.logger.createChildLogger('CertificateGeneration'),
+      this.createCertificateRegistry()
+    );
     this.registry.register(certificateGenerationAgent);
     this.agents.set('certificate-generation', certificateGenerationAgent);
 
@@ -193,6 +248,89 @@ export class AgentSystem {
     });
   }
 
+  private createCertificateRegistry(): CertificateRegistry {
+    const config = this.config.certificateRegistry || (
+      process.env.HALALCHECK_API_URL && process.env.HALALCHECK_API_KEY
+        ? { apiUrl: process.env.HALALCHECK_API_URL, apiKey: process.env.HALALCHECK_API_KEY }
+        : undefined
+    );
+    if (!config) {
+      this.logger.warn('No HalalCheck API configured; issued certificates are kept in memory and cannot be verified publicly');
+      return new InMemoryCertificateRegistry();
+    }
+    return new ApiCertificateRegistry(config);
+  }
+
+  private createWorkflowExecutionStore(): WorkflowExecutionStore {
+    const config = this.config.workflowStore || (
+      process.env.HALALCHECK_API_URL && process.env.HALALCHECK_API_KEY
+        ? { apiUrl: process.env.HALALCHECK_API_URL, apiKey: process.env.HALALCHECK_API_KEY }
+        : undefined
+    );
+    if (!config) {
+      this.logger.warn('No HalalCheck API configured; workflow executions are kept in memory and not resumed after a restart');
+      return new InMemoryWorkflowExecutionStore();
+    }
+    return new ApiWorkflowExecutionStore(config);
+  }
+
+  private createTaskInbox(): TaskInbox {
+    const config = this.config.taskInbox || (
+      process.env.HALALCHECK_API_URL && process.env.HALALCHECK_API_KEY
+        ? { apiUrl: process.env.HALALCHECK_API_URL, apiKey: process.env.HALALCHECK_API_KEY }
+        : undefined
+    );
+    if (!config) {
+      this.logger.warn('No HalalCheck API configured; workflow tasks are kept in memory and not visible in the task inbox');
+      return new InMemoryTaskInbox();
+    }
+    return new ApiTaskInbox(config);
+  }
+
+  private createCertificationBodyDirectory(): CertificationBodyDirectory {
+    const config = this.config.certificationBodyDirectory || (
+      process.env.HALALCHECK_API_URL && process.env.HALALCHECK_API_KEY
+        ? { apiUrl: process.env.HALALCHECK_API_URL, apiKey: process.env.HALALCHECK_API_KEY }
+        : undefined
+    );
+    if (!config) {
+      this.logger.warn('No HalalCheck API configured; certification bodies come from a built-in list without recognitions');
+      return new InMemoryCertificationBodyDirectory();
+    }
+    return new ApiCertificationBodyDirectory(config);
+  }
+
+  private createDocumentIntake(): DocumentIntake | undefined {
+    const config = this.config.documentIntake || (
+      process.env.HALALCHECK_API_URL && process.env.HALALCHECK_API_KEY
+        ? { apiUrl: process.env.HALALCHECK_API_URL, apiKey: process.env.HALALCHECK_API_KEY }
+        : undefined
+    );
+    if (!config) {
+      this.logger.warn('No HalalCheck API configured; documents uploaded to pipeline applications are not processed');
+      return undefined;
+    }
+    return new ApiDocumentIntake(config);
+  }
+
+  private setupWebhookForwarding(): void {
+    const config = this.config.webhookForwarding || (
+      process.env.HALALCHECK_API_URL && process.env.HALALCHECK_API_KEY
+        ? { apiUrl: process.env.HALALCHECK_API_URL, apiKey: process.env.HALALCHECK_API_KEY }
+        : undefined
+    );
+    if (!config) {
+      return;
+    }
+
+    this.webhookForwarder = new WebhookEventForwarder(
+      this.eventBus,
+      config,
+      this.logger.createChildLogger('WebhookForwarder')
+    );
+    this.webhookForwarder.start();
+  }
+
   private startHealthChecks(): void {
     const healthCheckInterval = 60000; // 1 minute
     
@@ -285,11 +423,10 @@ export class AgentSystem {
     this.logger.info('Shutting down agent system...');
     
     try {
-      // Cancel active executions
-      const activeExecutions = this.orchestrator.getActiveExecutions();
-      for (const execution of activeExecutions) {
-        await this.orchestrator.cancelExecution(execution.id);
-      }
+      // Release active executions to be resumed by the next agent process
+      await this.orchestrator.stop();
+
+      this.webhookForwarder?.stop();
 
       // Shutdown all agents
       await this.registry.shutdownAll();
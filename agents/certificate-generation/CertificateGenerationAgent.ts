@@ -4,9 +4,17 @@
  * Handles generation of halal certificates, PDFs, and digital verification
  */
 
+import * as crypto from 'crypto';
 import { IAgent, AgentInput, AgentOutput, AgentCapability } from '../core/IAgent';
 import { EventBus } from '../core/EventBus';
 import { Logger } from '../core/infrastructure/logging/Logger';
+import { CertificateRenderer } from './services/CertificateRenderer';
+import {
+  CertificateRecord,
+  CertificateRegistry,
+  CertificateSignature,
+  InMemoryCertificateRegistry
+} from './services/CertificateRegistry';
 
 export interface CertificateGenerationInput extends AgentInput {
   certificateType: 'halal' | 'organic' | 'kosher' | 'quality';
@@ -67,11 +75,7 @@ export interface CertificateGenerationOutput extends AgentOutput {
     filename: string;
     mimeType: string;
   }>;
-  digitalSignature?: {
-    hash: string;
-    signature: string;
-    publicKey: string;
-  };
+  digitalSignature?: CertificateSignature;
   qrCodeData?: {
     verificationUrl: string;
     qrCodeImage: Buffer;
@@ -106,6 +110,7 @@ export interface TemplateElement {
   content: string | Record<string, any>;
   styles?: Record<string, any>;
   conditions?: Array<{ field: string; operator: string; value: any; }>;
+  translations?: Record<string, string | Record<string, any>>; // Keyed by language, e.g. 'ar'
 }
 
 export class CertificateGenerationAgent implements IAgent {
@@ -142,15 +147,19 @@ export class CertificateGenerationAgent implements IAgent {
   private logger: Logger;
   private eventBus: EventBus;
   private templates: Map<string, CertificateTemplate>;
-  private certificateRegistry: Map<string, CertificateRecord>;
+  private certificateRegistry: CertificateRegistry;
   private nextCertificateNumber: number;
+  private renderer: CertificateRenderer;
+  private verificationBaseUrl: string;
 
-  constructor(eventBus: EventBus, logger: Logger) {
+  constructor(eventBus: EventBus, logger: Logger, certificateRegistry?: CertificateRegistry) {
     this.eventBus = eventBus;
     this.logger = logger;
     this.templates = new Map();
-    this.certificateRegistry = new Map();
+    this.certificateRegistry = certificateRegistry || new InMemoryCertificateRegistry();
     this.nextCertificateNumber = 100001;
+    this.renderer = new CertificateRenderer();
+    this.verificationBaseUrl = (process.env.CERTIFICATE_VERIFICATION_BASE_URL || 'https://halalcheck.eu/verify').replace(/\/$/, '');
     
     this.initialize();
   }
@@ -185,6 +194,7 @@ export class CertificateGenerationAgent implements IAgent {
           type: 'text',
           position: { x: 250, y: 50, width: 300 },
           content: 'HALAL CERTIFICATE',
+          translations: { ar: 'شهادة حلال' },
           styles: { fontSize: 24, fontWeight: 'bold', textAlign: 'center', color: '#2D5A27' }
         },
         {
@@ -192,6 +202,7 @@ export class CertificateGenerationAgent implements IAgent {
           type: 'text',
           position: { x: 400, y: 100 },
           content: 'Certificate No: {{certificateNumber}}',
+          translations: { ar: 'رقم الشهادة: {{certificateNumber}}' },
           styles: { fontSize: 12, fontWeight: 'bold' }
         },
         {
@@ -206,6 +217,9 @@ export class CertificateGenerationAgent implements IAgent {
           type: 'text',
           position: { x: 50, y: 250, width: 500 },
           content: `This is to certify that the product described below has been inspected and found to comply with the requirements of {{certificationDetails.standard}} and is hereby certified as HALAL.`,
+          translations: {
+            ar: 'نشهد بأن المنتج الموصوف أدناه قد تم فحصه ووجد مطابقاً لمتطلبات {{certificationDetails.standard}} وهو بموجب هذا معتمد حلال.'
+          },
           styles: { fontSize: 12, lineHeight: 1.8, textAlign: 'justify' }
         },
         {
@@ -224,6 +238,12 @@ export class CertificateGenerationAgent implements IAgent {
               ['Valid Until', '{{certificationDetails.validUntil}}']
             ]
           },
+          translations: {
+            ar: {
+              headers: ['البيان', 'التفاصيل'],
+              rows: [['اسم المنتج'], ['الشركة المصنعة'], ['الفئة'], ['الوصف'], ['المعايير'], ['صالحة من'], ['صالحة حتى']]
+            }
+          },
           styles: { fontSize: 10, cellPadding: 5, borderWidth: 1 }
         },
         {
@@ -231,6 +251,7 @@ export class CertificateGenerationAgent implements IAgent {
           type: 'text',
           position: { x: 50, y: 500, width: 500 },
           content: `INGREDIENTS:\n{{productDetails.ingredients}}`,
+          translations: { ar: `المكونات:\n{{productDetails.ingredients}}` },
           styles: { fontSize: 10, lineHeight: 1.5 }
         },
         {
@@ -238,19 +259,22 @@ export class CertificateGenerationAgent implements IAgent {
           type: 'text',
           position: { x: 50, y: 580, width: 500 },
           content: `CONDITIONS:\n• This certificate is valid only for the product and premises specified above\n• Any changes in ingredients, processing, or location must be reported immediately\n• This certificate may be revoked if conditions are not maintained`,
+          translations: {
+            ar: `الشروط:\n• هذه الشهادة صالحة فقط للمنتج والمنشأة المحددين أعلاه\n• يجب الإبلاغ فوراً عن أي تغيير في المكونات أو التصنيع أو الموقع\n• يجوز إلغاء هذه الشهادة في حال عدم الالتزام بالشروط`
+          },
           styles: { fontSize: 9, lineHeight: 1.4 }
         },
         {
           id: 'signatures',
           type: 'signature',
-          position: { x: 50, y: 680, width: 500 },
+          position: { x: 50, y: 680, width: 380 },
           content: '{{signatories}}',
           styles: { fontSize: 10 }
         },
         {
           id: 'qr-code',
           type: 'qr-code',
-          position: { x: 450, y: 720, width: 80, height: 80 },
+          position: { x: 450, y: 700, width: 80, height: 80 },
           content: '{{verificationUrl}}',
           styles: { border: 'none' }
         },
@@ -259,6 +283,7 @@ export class CertificateGenerationAgent implements IAgent {
           type: 'watermark',
           position: { x: 200, y: 400 },
           content: 'HALAL CERTIFIED',
+          translations: { ar: 'حلال معتمد' },
           styles: { fontSize: 48, opacity: 0.1, rotation: -45, color: '#2D5A27' }
         }
       ],
@@ -301,24 +326,18 @@ export class CertificateGenerationAgent implements IAgent {
       const certificateData = this.prepareCertificateData(input, certificateId, certificateNumber);
 
       // Generate PDF
-      const pdfBuffer = await this.generatePDF(template, certificateData, input.generateOptions);
+      const { buffer: pdfBuffer, pages } = await this.generatePDF(template, certificateData, input.generateOptions);
 
       // Generate PNG if requested
       let pngBuffer: Buffer | undefined;
       if (input.generateOptions?.format === 'png' || input.generateOptions?.format === 'both') {
-        pngBuffer = await this.generatePNG(pdfBuffer);
+        pngBuffer = await this.generatePNG(template, certificateData, input.generateOptions);
       }
 
       // Generate QR code if requested
       let qrCodeData: CertificateGenerationOutput['qrCodeData'];
       if (input.generateOptions?.includeQRCode !== false) {
-        qrCodeData = await this.generateQRCode(certificateId);
-      }
-
-      // Apply digital signature if configured
-      let digitalSignature: CertificateGenerationOutput['digitalSignature'];
-      if (this.shouldApplyDigitalSignature()) {
-        digitalSignature = await this.applyDigitalSignature(pdfBuffer);
+        qrCodeData = await this.generateQRCode(certificateData.verificationUrl);
       }
 
       // Prepare file outputs
@@ -342,13 +361,16 @@ export class CertificateGenerationAgent implements IAgent {
         });
       }
 
-      // Store certificate record
+      // Record the certificate before handing it out, so its QR code verifies
       const certificateRecord: CertificateRecord = {
         id: certificateId,
         number: certificateNumber,
         type: input.certificateType,
         clientId: input.clientId,
         productName: input.productName,
+        standard: input.certificationDetails.standard,
+        scope: input.certificationDetails.scope,
+        issuingAuthority: input.issuingAuthority.name,
         issuedAt: new Date(),
         validFrom: input.certificationDetails.validFrom,
         validUntil: input.certificationDetails.validUntil,
@@ -356,7 +378,13 @@ export class CertificateGenerationAgent implements IAgent {
         data: certificateData
       };
       
-      this.certificateRegistry.set(certificateId, certificateRecord);
+      await this.certificateRegistry.save(certificateRecord);
+
+      // Sign the PDF so importers can tell an altered copy from the issued one
+      let digitalSignature: CertificateGenerationOutput['digitalSignature'];
+      if (this.shouldApplyDigitalSignature()) {
+        digitalSignature = await this.applyDigitalSignature(certificateId, pdfBuffer);
+      }
 
       const processingTime = Date.now() - startTime;
 
@@ -373,7 +401,7 @@ export class CertificateGenerationAgent implements IAgent {
           generatedAt: new Date(),
           template: templateId,
           fileSize: pdfBuffer?.length || 0,
-          pages: 1,
+          pages,
           securityFeatures: this.getSecurityFeatures(input.generateOptions)
         }
       };
@@ -412,8 +440,9 @@ export class CertificateGenerationAgent implements IAgent {
     }
   }
 
+  // The ID is the public lookup key in the verification URL, so it must not be guessable
   private generateCertificateId(): string {
-    return `cert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return `cert_${crypto.randomBytes(16).toString('hex')}`;
   }
 
   private generateCertificateNumber(type: string): string {
@@ -441,7 +470,7 @@ export class CertificateGenerationAgent implements IAgent {
       },
       issuingAuthority: input.issuingAuthority,
       signatories: input.signatories,
-      verificationUrl: `https://halalcheck.eu/verify/${certificateId}`,
+      verificationUrl: `${this.verificationBaseUrl}/${certificateId}`,
       generatedAt: new Date().toLocaleDateString()
     };
   }
@@ -450,66 +479,53 @@ export class CertificateGenerationAgent implements IAgent {
     template: CertificateTemplate, 
     data: Record<string, any>,
     options?: CertificateGenerationInput['generateOptions']
-  ): Promise<Buffer> {
-    // Simulated PDF generation - in real implementation would use libraries like PDFKit, jsPDF, or Puppeteer
+  ): Promise<{ buffer: Buffer; pages: number }> {
     this.logger.debug('Generating PDF certificate');
-    
-    // Create a simple PDF representation as buffer
-    const pdfContent = this.renderTemplate(template, data);
-    
-    // In real implementation, this would return actual PDF buffer
-    return Buffer.from(pdfContent, 'utf8');
+    return this.renderer.renderPDF(template, data, this.renderOptions(data, options));
   }
 
-  private renderTemplate(template: CertificateTemplate, data: Record<string, any>): string {
-    // Simple template rendering - replace placeholders with actual data
-    let content = `CERTIFICATE: ${data.certificateNumber}\n\n`;
-    content += `Product: ${data.productName}\n`;
-    content += `Client: ${data.clientName}\n`;
-    content += `Valid From: ${data.certificationDetails.validFrom}\n`;
-    content += `Valid Until: ${data.certificationDetails.validUntil}\n\n`;
-    content += `Ingredients: ${data.productDetails.ingredients.join(', ')}\n\n`;
-    content += `Issued by: ${data.issuingAuthority.name}\n`;
-    content += `Generated: ${data.generatedAt}\n`;
-    
-    return content;
+  private async generatePNG(
+    template: CertificateTemplate,
+    data: Record<string, any>,
+    options?: CertificateGenerationInput['generateOptions']
+  ): Promise<Buffer> {
+    this.logger.debug('Generating PNG certificate');
+    const { buffer } = await this.renderer.renderPNG(template, data, this.renderOptions(data, options));
+    return buffer;
   }
 
-  private async generatePNG(pdfBuffer: Buffer): Promise<Buffer> {
-    this.logger.debug('Converting PDF to PNG');
-    
-    // Simulated PNG generation - in real implementation would convert PDF to image
-    return Buffer.from('PNG_IMAGE_DATA', 'utf8');
+  private renderOptions(data: Record<string, any>, options?: CertificateGenerationInput['generateOptions']) {
+    return {
+      language: options?.language || 'en',
+      includeQRCode: options?.includeQRCode !== false,
+      includeWatermark: options?.includeWatermark !== false,
+      verificationUrl: data.verificationUrl,
+      title: `${data.certificateNumber} - ${data.productName}`
+    };
   }
 
-  private async generateQRCode(certificateId: string): Promise<{ verificationUrl: string; qrCodeImage: Buffer }> {
-    const verificationUrl = `https://halalcheck.eu/verify/${certificateId}`;
-    
-    // Simulated QR code generation - in real implementation would use qrcode library
-    const qrCodeImage = Buffer.from('QR_CODE_IMAGE_DATA', 'utf8');
-    
+  private async generateQRCode(verificationUrl: string): Promise<{ verificationUrl: string; qrCodeImage: Buffer }> {
+    const qrCodeImage = await this.renderer.renderQRCode(verificationUrl);
     return { verificationUrl, qrCodeImage };
   }
 
   private shouldApplyDigitalSignature(): boolean {
-    // Check if digital signature is configured and required
-    return false; // Simplified for now
+    // Signing is on unless explicitly disabled (e.g. for draft previews)
+    return process.env.CERTIFICATE_SIGNING !== 'false';
   }
 
-  private async applyDigitalSignature(pdfBuffer: Buffer): Promise<{ hash: string; signature: string; publicKey: string }> {
-    // Simulated digital signature - in real implementation would use crypto libraries
-    return {
-      hash: 'document_hash',
-      signature: 'digital_signature',
-      publicKey: 'public_key'
-    };
+  private async applyDigitalSignature(certificateId: string, pdfBuffer: Buffer): Promise<CertificateSignature> {
+    const signature = await this.certificateRegistry.sign(certificateId, pdfBuffer);
+    this.logger.debug(`Certificate ${certificateId} signed with key ${signature.keyId}`);
+    return signature;
   }
 
   private getSecurityFeatures(options?: CertificateGenerationInput['generateOptions']): string[] {
     const features: string[] = [];
     
-    if (options?.includeQRCode) features.push('QR Code Verification');
-    if (options?.includeWatermark) features.push('Security Watermark');
+    if (options?.includeQRCode !== false) features.push('QR Code Verification');
+    if (options?.includeWatermark !== false) features.push('Security Watermark');
+    if (this.shouldApplyDigitalSignature()) features.push('Digital Signature (Ed25519)');
     features.push('Unique Certificate Number');
     features.push('Digital Registry');
     
@@ -521,7 +537,7 @@ export class CertificateGenerationAgent implements IAgent {
     certificate?: CertificateRecord;
     errors?: string[];
   }> {
-    const certificate = this.certificateRegistry.get(certificateId);
+    const certificate = await this.certificateRegistry.get(certificateId);
     
     if (!certificate) {
       return {
@@ -537,10 +553,13 @@ export class CertificateGenerationAgent implements IAgent {
       errors.push('Certificate has expired');
     }
 
-    // Check if certificate is revoked
+    // Check if certificate is revoked or suspended
     if (certificate.status === 'revoked') {
       errors.push('Certificate has been revoked');
     }
+    if (certificate.status === 'suspended') {
+      errors.push('Certificate has been suspended');
+    }
 
     return {
       isValid: errors.length === 0,
@@ -578,26 +597,12 @@ export class CertificateGenerationAgent implements IAgent {
     });
   }
 
-  public getCertificateRegistry(): CertificateRecord[] {
-    return Array.from(this.certificateRegistry.values());
+  public async getCertificateRegistry(): Promise<CertificateRecord[]> {
+    return this.certificateRegistry.list();
   }
 
   public async shutdown(): Promise<void> {
     this.logger.info(`Shutting down ${this.name}`);
-    // Save certificate registry if needed
-    // Cleanup resources
+    // Certificates are saved as they are issued; nothing to flush
   }
 }
-
-interface CertificateRecord {
-  id: string;
-  number: string;
-  type: string;
-  clientId: string;
-  productName: string;
-  issuedAt: Date;
-  validFrom: Date;
-  validUntil: Date;
-  status: 'active' | 'revoked' | 'expired';
-  data: Record<string, any>;
-}
\ No newline at end of file
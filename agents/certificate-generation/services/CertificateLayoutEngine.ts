@@ -0,0 +1,547 @@
+/**
+ * Certificate Layout Engine
+ *
+ * Turns a CertificateTemplate and certificate data into positioned drawing
+ * primitives, independent of the output format. Elements keep their template
+ * position unless content above them grows (wrapped text, a second language),
+ * in which case they are pushed down and, when needed, onto a new page.
+ * Arabic output mirrors the page horizontally and lays text out right-to-left.
+ */
+
+import { CertificateTemplate, TemplateElement } from '../CertificateGenerationAgent';
+import { TextDirection, containsRTL, paragraphDirection, visualRuns } from './BidiText';
+
+export type CertificateLanguage = 'en' | 'ar' | 'both';
+
+export type FontFace = 'regular' | 'bold' | 'arabic' | 'arabicBold';
+
+export interface TextMeasurer {
+  widthOf(text: string, face: FontFace, fontSize: number): number;
+}
+
+export interface PlacedRun {
+  text: string;
+  x: number;
+  width: number;
+  direction: TextDirection;
+  face: FontFace;
+}
+
+export type Drawable =
+  | { kind: 'text'; baseline: number; fontSize: number; color: string; opacity?: number; runs: PlacedRun[] }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; stroke?: string; fill?: string; lineWidth: number }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; color: string; lineWidth: number }
+  | { kind: 'image'; x: number; y: number; width: number; height: number; data: Buffer; mimeType: string }
+  | { kind: 'qr'; x: number; y: number; size: number; modules: boolean[][]; color: string }
+  | { kind: 'watermark'; cx: number; cy: number; rotation: number; opacity: number; color: string; fontSize: number; lines: PlacedRun[][] };
+
+export interface CertificateDocument {
+  width: number;
+  height: number;
+  language: CertificateLanguage;
+  pages: Drawable[][];
+}
+
+export interface LayoutOptions {
+  language: CertificateLanguage;
+  includeQRCode: boolean;
+  includeWatermark: boolean;
+  qrModules?: boolean[][];
+}
+
+interface Row {
+  height: number;
+  drawables: Drawable[]; // Relative to the row's top-left corner
+}
+
+interface Box {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+const PAGE_SIZES: Record<CertificateTemplate['layout']['pageSize'], [number, number]> = {
+  A4: [595.28, 841.89],
+  Letter: [612, 792]
+};
+
+const ELEMENT_GAP = 8;
+const DEFAULT_LINE_HEIGHT = 1.3;
+const SIGNATURE_IMAGE_HEIGHT = 36;
+const MAX_SIGNATURES_PER_ROW = 3;
+
+export class CertificateLayoutEngine {
+  constructor(private measurer: TextMeasurer) {}
+
+  layout(template: CertificateTemplate, data: Record<string, any>, options: LayoutOptions): CertificateDocument {
+    const [portraitWidth, portraitHeight] = PAGE_SIZES[template.layout.pageSize];
+    const landscape = template.layout.orientation === 'landscape';
+    const width = landscape ? portraitHeight : portraitWidth;
+    const height = landscape ? portraitWidth : portraitHeight;
+    const { margins } = template.layout;
+
+    const pages: Drawable[][] = [[]];
+    const placed: Box[] = [];
+    let shift = 0;
+
+    const elements = template.elements
+      .filter(element => this.isVisible(element, data, options))
+      .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x);
+
+    for (const element of elements.filter(element => element.type !== 'watermark')) {
+      const elementWidth = element.position.width
+        ?? Math.max(0, width - margins.right - element.position.x);
+      // Arabic pages are mirrored so content starts from the right
+      const x = options.language === 'ar'
+        ? width - element.position.x - elementWidth
+        : element.position.x;
+      const rows = this.layoutElement(element, template, data, options, elementWidth);
+      if (rows.length === 0) {
+        continue;
+      }
+
+      // Content carried onto later pages continues below what is already there
+      let y = Math.max(element.position.y + shift, pages.length > 1 ? margins.top : 0);
+      for (let moved = true; moved;) {
+        moved = false;
+        for (const box of placed) {
+          const overlaps = box.left < x + elementWidth && x < box.right;
+          if (overlaps && box.top <= y && box.bottom + ELEMENT_GAP > y) {
+            y = box.bottom + ELEMENT_GAP;
+            moved = true;
+          }
+        }
+      }
+
+      const pageBottom = height - margins.bottom;
+      let top = y;
+      for (const row of rows) {
+        // Start a new page when a row doesn't fit, unless it wouldn't fit on any page
+        if (y + row.height > pageBottom && y > margins.top) {
+          placed.length = 0;
+          pages.push([]);
+          shift += margins.top - y;
+          y = margins.top;
+          top = y;
+        }
+        pages[pages.length - 1]!.push(...row.drawables.map(drawable => translate(drawable, x, y)));
+        y += row.height;
+      }
+
+      placed.push({ left: x, right: x + elementWidth, top, bottom: y });
+    }
+
+    const watermark = elements.find(element => element.type === 'watermark');
+    if (watermark) {
+      for (const page of pages) {
+        page.unshift(this.layoutWatermark(watermark, template, data, options, width, height));
+      }
+    }
+
+    return { width, height, language: options.language, pages };
+  }
+
+  private isVisible(element: TemplateElement, data: Record<string, any>, options: LayoutOptions): boolean {
+    if (element.type === 'qr-code' && (!options.includeQRCode || !options.qrModules)) return false;
+    if (element.type === 'watermark' && !options.includeWatermark) return false;
+
+    return (element.conditions || []).every(condition => {
+      const value = lookup(data, condition.field);
+      switch (condition.operator) {
+        case 'exists': return value !== undefined && value !== null && value !== '';
+        case 'equals': return value === condition.value;
+        case 'notEquals': return value !== condition.value;
+        case 'in': return Array.isArray(condition.value) && condition.value.includes(value);
+        default: return true;
+      }
+    });
+  }
+
+  private layoutElement(
+    element: TemplateElement,
+    template: CertificateTemplate,
+    data: Record<string, any>,
+    options: LayoutOptions,
+    width: number
+  ): Row[] {
+    switch (element.type) {
+      case 'text':
+        return this.layoutText(element, template, data, options.language, width);
+      case 'table':
+        return this.layoutTable(element, template, data, options.language, width);
+      case 'signature':
+        return this.layoutSignatures(element, template, data, options.language, width);
+      case 'image':
+        return this.layoutImage(element, data, width);
+      case 'qr-code': {
+        const size = Math.min(element.position.width || 80, element.position.height || 80);
+        const offset = options.language === 'ar' ? 0 : width - size;
+        return [{
+          height: size,
+          drawables: [{
+            kind: 'qr',
+            x: Math.max(0, offset),
+            y: 0,
+            size,
+            modules: options.qrModules!,
+            color: element.styles?.color || '#000000'
+          }]
+        }];
+      }
+      default:
+        return [];
+    }
+  }
+
+  private layoutText(
+    element: TemplateElement,
+    template: CertificateTemplate,
+    data: Record<string, any>,
+    language: CertificateLanguage,
+    width: number
+  ): Row[] {
+    const styles = element.styles || {};
+    const fontSize = styles.fontSize || template.styles.defaultFontSize || 12;
+    const lineHeight = fontSize * (styles.lineHeight || DEFAULT_LINE_HEIGHT);
+    const bold = styles.fontWeight === 'bold';
+    const color = styles.color || '#000000';
+
+    const rows: Row[] = [];
+    for (const { content, lang } of this.localized(element, language)) {
+      if (typeof content !== 'string') continue;
+      const text = interpolate(content, data);
+
+      for (const paragraph of text.split('\n')) {
+        // Untranslated values inside Arabic blocks keep their own direction but follow Arabic alignment
+        const base: TextDirection = lang === 'ar' && containsRTL(paragraph) ? 'rtl' : paragraphDirection(paragraph);
+        const align = resolveAlign(styles.textAlign, lang === 'ar' ? 'rtl' : base);
+
+        for (const line of this.wrap(paragraph, width, fontSize, bold)) {
+          rows.push({
+            height: lineHeight,
+            drawables: [this.textLine(line, base, align, 0, width, (lineHeight - fontSize) / 2, fontSize, bold, color)]
+          });
+        }
+      }
+    }
+    return rows;
+  }
+
+  private layoutTable(
+    element: TemplateElement,
+    template: CertificateTemplate,
+    data: Record<string, any>,
+    language: CertificateLanguage,
+    width: number
+  ): Row[] {
+    const styles = element.styles || {};
+    const fontSize = styles.fontSize || 10;
+    const padding = styles.cellPadding ?? 5;
+    const borderWidth = styles.borderWidth ?? 1;
+    const lineHeight = fontSize * (styles.lineHeight || DEFAULT_LINE_HEIGHT);
+    const primary = template.styles.primaryColor || '#000000';
+
+    const english = element.content as { headers: string[]; rows: string[][] };
+    const arabic = element.translations?.ar as { headers: string[]; rows: string[][] } | undefined;
+
+    // Label columns per language; values are shared
+    let headers: string[];
+    let rows: string[][];
+    let fractions: number[];
+    if (language === 'both' && arabic) {
+      headers = [english.headers[0] || '', english.headers[1] || '', arabic.headers[0] || ''];
+      rows = english.rows.map((row, index) => [row[0] || '', row[1] || '', arabic.rows[index]?.[0] || '']);
+      fractions = [0.28, 0.44, 0.28];
+    } else if (language === 'ar' && arabic) {
+      headers = [...arabic.headers].reverse();
+      rows = english.rows.map((row, index) => [row[1] || '', arabic.rows[index]?.[0] || row[0] || '']);
+      fractions = [0.65, 0.35];
+    } else {
+      headers = english.headers;
+      rows = english.rows;
+      fractions = [0.35, 0.65];
+    }
+
+    const columnWidths = fractions.map(fraction => fraction * width);
+    const arabicColumn = (column: number) =>
+      (language === 'both' && column === 2) || (language === 'ar' && column === 1);
+
+    const layoutRow = (cells: string[], header: boolean): Row => {
+      const cellLines = cells.map((cell, column) =>
+        this.wrap(interpolate(cell, data), columnWidths[column]! - 2 * padding, fontSize, header)
+      );
+      const height = Math.max(1, ...cellLines.map(lines => lines.length)) * lineHeight + 2 * padding;
+      const drawables: Drawable[] = [];
+
+      let x = 0;
+      cellLines.forEach((lines, column) => {
+        const columnWidth = columnWidths[column]!;
+        drawables.push({
+          kind: 'rect',
+          x,
+          y: 0,
+          width: columnWidth,
+          height,
+          lineWidth: borderWidth,
+          stroke: '#999999',
+          ...(header && { fill: tint(primary) })
+        });
+
+        lines.forEach((line, index) => {
+          const base: TextDirection = arabicColumn(column) ? 'rtl' : paragraphDirection(line);
+          const align = base === 'rtl' ? 'right' : 'left';
+          drawables.push(this.textLine(
+            line, base, align, x + padding, columnWidth - 2 * padding,
+            padding + index * lineHeight + (lineHeight - fontSize) / 2, fontSize, header, '#000000'
+          ));
+        });
+        x += columnWidth;
+      });
+
+      return { height, drawables };
+    };
+
+    return [layoutRow(headers, true), ...rows.map(row => layoutRow(row, false))];
+  }
+
+  private layoutSignatures(
+    element: TemplateElement,
+    template: CertificateTemplate,
+    data: Record<string, any>,
+    language: CertificateLanguage,
+    width: number
+  ): Row[] {
+    const signatories = resolveRaw(element.content, data);
+    if (!Array.isArray(signatories) || signatories.length === 0) {
+      return [];
+    }
+
+    const fontSize = element.styles?.fontSize || 10;
+    const lineHeight = fontSize * DEFAULT_LINE_HEIGHT;
+    const perRow = Math.min(MAX_SIGNATURES_PER_ROW, signatories.length);
+    const columnWidth = width / perRow;
+    const lineWidth = columnWidth - 20;
+    const color = template.styles.secondaryColor || '#333333';
+
+    const rows: Row[] = [];
+    for (let start = 0; start < signatories.length; start += perRow) {
+      const drawables: Drawable[] = [];
+      const group = signatories.slice(start, start + perRow);
+      const ordered = language === 'ar' ? [...group].reverse() : group;
+
+      ordered.forEach((signatory: { name: string; title: string; signature?: string }, column: number) => {
+        const x = column * columnWidth;
+        const image = decodeImage(signatory.signature);
+        if (image) {
+          drawables.push({ kind: 'image', x, y: 0, width: lineWidth, height: SIGNATURE_IMAGE_HEIGHT, ...image });
+        }
+
+        const lineY = SIGNATURE_IMAGE_HEIGHT + 4;
+        drawables.push({ kind: 'line', x1: x, y1: lineY, x2: x + lineWidth, y2: lineY, color, lineWidth: 0.75 });
+
+        [signatory.name || '', signatory.title || ''].forEach((text, index) => {
+          const base = language === 'ar' ? 'rtl' : paragraphDirection(text);
+          const [line] = this.wrap(text, lineWidth, fontSize, index === 0);
+          if (line) {
+            drawables.push(this.textLine(
+              line, base, 'center', x, lineWidth, lineY + 4 + index * lineHeight, fontSize, index === 0, '#000000'
+            ));
+          }
+        });
+      });
+
+      rows.push({ height: SIGNATURE_IMAGE_HEIGHT + 8 + 2 * lineHeight, drawables });
+    }
+    return rows;
+  }
+
+  private layoutImage(element: TemplateElement, data: Record<string, any>, width: number): Row[] {
+    const image = decodeImage(resolveRaw(element.content, data));
+    if (!image) {
+      return [];
+    }
+    const height = element.position.height || width;
+    return [{ height, drawables: [{ kind: 'image', x: 0, y: 0, width, height, ...image }] }];
+  }
+
+  private layoutWatermark(
+    element: TemplateElement,
+    template: CertificateTemplate,
+    data: Record<string, any>,
+    options: LayoutOptions,
+    pageWidth: number,
+    pageHeight: number
+  ): Drawable {
+    const styles = element.styles || {};
+    const fontSize = styles.fontSize || 48;
+    const lines = this.localized(element, options.language)
+      .filter(({ content }) => typeof content === 'string')
+      .map(({ content, lang }) => {
+        const text = interpolate(content as string, data);
+        const base: TextDirection = lang === 'ar' ? 'rtl' : paragraphDirection(text);
+        const faceFor = (direction: TextDirection): FontFace => direction === 'rtl' ? 'arabicBold' : 'bold';
+        const runs = visualRuns(text, base).map(run => ({
+          ...run,
+          face: faceFor(run.direction),
+          width: this.measurer.widthOf(run.text, faceFor(run.direction), fontSize)
+        }));
+        // Centered on the origin; the renderer rotates around the page center
+        let x = -runs.reduce((sum, run) => sum + run.width, 0) / 2;
+        return runs.map(run => {
+          const placedRun = { ...run, x };
+          x += run.width;
+          return placedRun;
+        });
+      });
+
+    return {
+      kind: 'watermark',
+      cx: pageWidth / 2,
+      cy: pageHeight / 2,
+      rotation: styles.rotation ?? -45,
+      opacity: styles.opacity ?? 0.1,
+      color: styles.color || template.styles.primaryColor || '#000000',
+      fontSize,
+      lines
+    };
+  }
+
+  /**
+   * Content blocks to render for the requested language
+   */
+  private localized(element: TemplateElement, language: CertificateLanguage): { content: TemplateElement['content']; lang: 'en' | 'ar' }[] {
+    const arabic = element.translations?.ar;
+    if (language === 'ar') {
+      return [{ content: arabic ?? element.content, lang: arabic ? 'ar' : 'en' }];
+    }
+    if (language === 'both' && arabic) {
+      return [{ content: element.content, lang: 'en' }, { content: arabic, lang: 'ar' }];
+    }
+    return [{ content: element.content, lang: 'en' }];
+  }
+
+  /**
+   * Greedy word wrap using the measured width of each line
+   */
+  private wrap(text: string, width: number, fontSize: number, bold: boolean): string[] {
+    const words = text.split(/\s+/).filter(Boolean);
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && this.lineWidth(candidate, fontSize, bold) > width) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current) {
+      lines.push(current);
+    }
+    return lines;
+  }
+
+  private lineWidth(text: string, fontSize: number, bold: boolean): number {
+    return visualRuns(text, paragraphDirection(text))
+      .reduce((sum, run) => sum + this.measurer.widthOf(run.text, faceOf(run.direction, bold), fontSize), 0);
+  }
+
+  private textLine(
+    line: string,
+    base: TextDirection,
+    align: 'left' | 'center' | 'right',
+    x: number,
+    width: number,
+    top: number,
+    fontSize: number,
+    bold: boolean,
+    color: string
+  ): Drawable {
+    const runs = visualRuns(line, base).map(run => {
+      const face = faceOf(run.direction, bold);
+      return { ...run, face, width: this.measurer.widthOf(run.text, face, fontSize) };
+    });
+    const total = runs.reduce((sum, run) => sum + run.width, 0);
+
+    let cursor = align === 'left' ? x : align === 'right' ? x + width - total : x + (width - total) / 2;
+    const placedRuns = runs.map(run => {
+      const placedRun: PlacedRun = { ...run, x: cursor };
+      cursor += run.width;
+      return placedRun;
+    });
+
+    return { kind: 'text', baseline: top + fontSize * 0.8, fontSize, color, runs: placedRuns };
+  }
+}
+
+function faceOf(direction: TextDirection, bold: boolean): FontFace {
+  if (direction === 'rtl') return bold ? 'arabicBold' : 'arabic';
+  return bold ? 'bold' : 'regular';
+}
+
+function resolveAlign(textAlign: string | undefined, base: TextDirection): 'left' | 'center' | 'right' {
+  if (textAlign === 'center') return 'center';
+  if (base === 'rtl') return textAlign === 'right' ? 'left' : 'right';
+  return textAlign === 'right' ? 'right' : 'left';
+}
+
+function translate(drawable: Drawable, dx: number, dy: number): Drawable {
+  switch (drawable.kind) {
+    case 'text':
+      return { ...drawable, baseline: drawable.baseline + dy, runs: drawable.runs.map(run => ({ ...run, x: run.x + dx })) };
+    case 'line':
+      return { ...drawable, x1: drawable.x1 + dx, x2: drawable.x2 + dx, y1: drawable.y1 + dy, y2: drawable.y2 + dy };
+    case 'watermark':
+      return drawable;
+    default:
+      return { ...drawable, x: drawable.x + dx, y: drawable.y + dy };
+  }
+}
+
+function lookup(data: Record<string, any>, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data as any);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (value instanceof Date) return value.toLocaleDateString();
+  return String(value);
+}
+
+/**
+ * Replace {{path}} placeholders with values from the certificate data
+ */
+export function interpolate(content: string, data: Record<string, any>): string {
+  return content.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => formatValue(lookup(data, path)));
+}
+
+/**
+ * Value of content that is a single placeholder, e.g. the signatories list
+ */
+function resolveRaw(content: TemplateElement['content'], data: Record<string, any>): any {
+  if (typeof content !== 'string') return content;
+  const match = content.match(/^\{\{\s*([\w.]+)\s*\}\}$/);
+  return match ? lookup(data, match[1]!) : content;
+}
+
+function decodeImage(source: unknown): { data: Buffer; mimeType: string } | undefined {
+  if (typeof source !== 'string' || !source) return undefined;
+  const base64 = source.replace(/^data:[^;]+;base64,/, '');
+  const data = Buffer.from(base64, 'base64');
+  if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47) return { data, mimeType: 'image/png' };
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return { data, mimeType: 'image/jpeg' };
+  return undefined;
+}
+
+// Light tint of a hex color for table headers
+function tint(hex: string): string {
+  const match = hex.match(/^#([0-9a-f]{6})$/i);
+  if (!match) return '#EEEEEE';
+  const value = parseInt(match[1]!, 16);
+  const channel = (shift: number) => Math.round(((value >> shift) & 0xff) * 0.15 + 255 * 0.85);
+  return `#${[16, 8, 0].map(shift => channel(shift).toString(16).padStart(2, '0')).join('')}`;
+}
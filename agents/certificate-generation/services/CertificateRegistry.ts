@@ -0,0 +1,277 @@
+/**
+ * Certificate Registry
+ *
+ * Where issued certificates are recorded for later verification, and who
+ * signs their PDFs. The API registry persists them in the HalalCheck API
+ * (Postgres), which signs with the issuing organization's key and serves the
+ * public verification routes behind certificate QR codes; the in-memory
+ * registry is for development and tests, signs with a throwaway key and is
+ * lost on restart.
+ */
+
+import * as crypto from 'crypto';
+import { isArrayOf, isRecord, isString, readApiData, readApiErrorMessage } from '../../core/ApiResponse';
+
+export type CertificateRecordStatus = 'active' | 'suspended' | 'revoked' | 'expired';
+
+export interface CertificateRecord {
+  id: string;
+  number: string;
+  type: string;
+  clientId: string;
+  productName: string;
+  standard: string;
+  scope: string;
+  issuingAuthority: string;
+  issuedAt: Date;
+  validFrom: Date;
+  validUntil: Date;
+  status: CertificateRecordStatus;
+  data: Record<string, any>;
+  signature?: CertificateSignature;
+}
+
+/**
+ * Ed25519 signature over the SHA-256 digest of the certificate PDF
+ */
+export interface CertificateSignature {
+  algorithm: 'EdDSA';
+  keyId: string;
+  hash: string; // SHA-256 of the PDF, hex
+  signature: string; // base64url
+  signedAt: Date;
+  jwksUrl?: string; // Published keys that verify the signature
+}
+
+export interface CertificateRegistry {
+  save(record: CertificateRecord): Promise<void>;
+  /** Sign the issued PDF of a saved certificate */
+  sign(certificateId: string, document: Buffer): Promise<CertificateSignature>;
+  get(certificateId: string): Promise<CertificateRecord | null>;
+  list(): Promise<CertificateRecord[]>;
+}
+
+function hashDocument(document: Buffer): string {
+  return crypto.createHash('sha256').update(document).digest('hex');
+}
+
+export class InMemoryCertificateRegistry implements CertificateRegistry {
+  private records = new Map<string, CertificateRecord>();
+  private signingKey = crypto.generateKeyPairSync('ed25519');
+  private keyId = `local_${crypto.randomBytes(8).toString('hex')}`;
+
+  async save(record: CertificateRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async sign(certificateId: string, document: Buffer): Promise<CertificateSignature> {
+    const record = this.records.get(certificateId);
+    if (!record) {
+      throw new Error(`Certificate ${certificateId} is not registered`);
+    }
+
+    const hash = hashDocument(document);
+    record.signature = {
+      algorithm: 'EdDSA',
+      keyId: this.keyId,
+      hash,
+      signature: crypto.sign(null, Buffer.from(hash, 'hex'), this.signingKey.privateKey).toString('base64url'),
+      signedAt: new Date()
+    };
+    return record.signature;
+  }
+
+  /**
+   * Check a PDF against the certificate's signature with the local key
+   */
+  async verifyDocument(certificateId: string, document: Buffer): Promise<boolean> {
+    const signature = this.records.get(certificateId)?.signature;
+    if (!signature || signature.hash !== hashDocument(document)) {
+      return false;
+    }
+    return crypto.verify(
+      null,
+      Buffer.from(signature.hash, 'hex'),
+      this.signingKey.publicKey,
+      Buffer.from(signature.signature, 'base64url')
+    );
+  }
+
+  async get(certificateId: string): Promise<CertificateRecord | null> {
+    return this.records.get(certificateId) || null;
+  }
+
+  async list(): Promise<CertificateRecord[]> {
+    return Array.from(this.records.values());
+  }
+}
+
+export interface ApiCertificateRegistryConfig {
+  apiUrl: string;
+  /** Organization API key with certificate permission */
+  apiKey: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const LIST_LIMIT = 200;
+
+/**
+ * Certificate as the API returns it, dates serialized
+ */
+interface ApiCertificate {
+  id: string;
+  certificateNumber: string;
+  type: string;
+  clientId: string;
+  productName: string;
+  standard: string;
+  scope: string;
+  issuingAuthority: string;
+  issuedAt: string;
+  validFrom: string;
+  validUntil: string;
+  status: string;
+  data?: Record<string, any> | null;
+  signature?: ApiSignature | null;
+}
+
+interface ApiSignature extends Omit<CertificateSignature, 'signedAt' | 'jwksUrl'> {
+  signedAt: string;
+}
+
+function isApiSignature(value: unknown): value is ApiSignature {
+  return isRecord(value) && value.algorithm === 'EdDSA' &&
+    isString(value.keyId) && isString(value.hash) && isString(value.signature) && isString(value.signedAt);
+}
+
+function isApiCertificate(value: unknown): value is ApiCertificate {
+  return isRecord(value) &&
+    ['id', 'certificateNumber', 'issuedAt', 'validFrom', 'validUntil', 'status'].every(key => isString(value[key])) &&
+    (value.signature === undefined || value.signature === null || isApiSignature(value.signature));
+}
+
+function isCertificateData(value: unknown): value is { certificate: ApiCertificate } {
+  return isRecord(value) && isApiCertificate(value.certificate);
+}
+
+function isSignedCertificateData(value: unknown): value is { certificate: ApiCertificate & { signature: ApiSignature }; jwksUrl?: string } {
+  return isRecord(value) && isApiCertificate(value.certificate) && isApiSignature(value.certificate.signature) &&
+    (value.jwksUrl === undefined || isString(value.jwksUrl));
+}
+
+function isCertificateListData(value: unknown): value is { certificates: ApiCertificate[] } {
+  return isRecord(value) && isArrayOf(value.certificates, isApiCertificate);
+}
+
+export class ApiCertificateRegistry implements CertificateRegistry {
+  private config: ApiCertificateRegistryConfig;
+
+  constructor(config: ApiCertificateRegistryConfig) {
+    this.config = config;
+  }
+
+  async save(record: CertificateRecord): Promise<void> {
+    const response = await this.send('/api/certificates', {
+      method: 'POST',
+      body: JSON.stringify({
+        id: record.id,
+        certificateNumber: record.number,
+        type: record.type,
+        clientId: record.clientId,
+        productName: record.productName,
+        standard: record.standard,
+        scope: record.scope,
+        issuingAuthority: record.issuingAuthority,
+        validFrom: record.validFrom,
+        validUntil: record.validUntil,
+        issuedAt: record.issuedAt,
+        data: record.data
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Certificate registration was rejected (${response.status}): ${await readApiErrorMessage(response)}`);
+    }
+  }
+
+  /**
+   * The API signs the digest with the organization's key; the PDF itself is not sent
+   */
+  async sign(certificateId: string, document: Buffer): Promise<CertificateSignature> {
+    const response = await this.send(`/api/certificates/${encodeURIComponent(certificateId)}/signature`, {
+      method: 'POST',
+      body: JSON.stringify({ documentHash: hashDocument(document) })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Certificate signing was rejected (${response.status}): ${await readApiErrorMessage(response)}`);
+    }
+
+    const { certificate, jwksUrl } = await readApiData(response, isSignedCertificateData, 'certificate signature');
+    return {
+      ...this.toSignature(certificate.signature),
+      ...(jwksUrl && { jwksUrl })
+    };
+  }
+
+  async get(certificateId: string): Promise<CertificateRecord | null> {
+    const response = await this.send(`/api/certificates/${encodeURIComponent(certificateId)}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Certificate lookup failed with status ${response.status}`);
+    }
+
+    const { certificate } = await readApiData(response, isCertificateData, 'certificate');
+    return this.toRecord(certificate);
+  }
+
+  /**
+   * Most recently issued certificates of the organization
+   */
+  async list(): Promise<CertificateRecord[]> {
+    const response = await this.send(`/api/certificates?limit=${LIST_LIMIT}`);
+    if (!response.ok) {
+      throw new Error(`Certificate listing failed with status ${response.status}`);
+    }
+
+    const { certificates } = await readApiData(response, isCertificateListData, 'certificate list');
+    return certificates.map(certificate => this.toRecord(certificate));
+  }
+
+  private send(path: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(`${this.config.apiUrl.replace(/\/+$/, '')}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': this.config.apiKey
+      },
+      signal: AbortSignal.timeout(this.config.timeoutMs || DEFAULT_TIMEOUT_MS)
+    });
+  }
+
+  private toRecord(certificate: ApiCertificate): CertificateRecord {
+    return {
+      id: certificate.id,
+      number: certificate.certificateNumber,
+      type: certificate.type,
+      clientId: certificate.clientId,
+      productName: certificate.productName,
+      standard: certificate.standard,
+      scope: certificate.scope,
+      issuingAuthority: certificate.issuingAuthority,
+      issuedAt: new Date(certificate.issuedAt),
+      validFrom: new Date(certificate.validFrom),
+      validUntil: new Date(certificate.validUntil),
+      status: certificate.status.toLowerCase() as CertificateRecordStatus,
+      data: certificate.data || {},
+      ...(certificate.signature && { signature: this.toSignature(certificate.signature) })
+    };
+  }
+
+  private toSignature(signature: ApiSignature): CertificateSignature {
+    return { ...signature, signedAt: new Date(signature.signedAt) };
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * Certificate Renderer
+ *
+ * Renders laid-out certificates to PDF (pdfkit) and PNG (SVG rasterized with
+ * sharp), and encodes verification URLs as QR codes. Both outputs use the same
+ * TrueType fonts: PNG text is drawn as glyph outlines so it matches the PDF
+ * exactly. Fonts are configured through CERTIFICATE_FONT, CERTIFICATE_BOLD_FONT
+ * and CERTIFICATE_ARABIC_FONT, falling back to common system fonts.
+ */
+
+import * as fs from 'fs';
+import * as fontkit from 'fontkit';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import sharp from 'sharp';
+import { CertificateTemplate } from '../CertificateGenerationAgent';
+import {
+  CertificateDocument,
+  CertificateLanguage,
+  CertificateLayoutEngine,
+  Drawable,
+  FontFace,
+  PlacedRun,
+  TextMeasurer
+} from './CertificateLayoutEngine';
+
+export interface RenderOptions {
+  language: CertificateLanguage;
+  includeQRCode: boolean;
+  includeWatermark: boolean;
+  verificationUrl?: string;
+  title?: string;
+}
+
+export interface RenderedCertificate {
+  buffer: Buffer;
+  pages: number;
+}
+
+export interface CertificateRendererConfig {
+  fonts?: Partial<Record<FontFace, string>>;
+  pngScale?: number;
+}
+
+const FONT_CANDIDATES: Record<FontFace, string[]> = {
+  regular: [
+    '/usr/share/fonts/truetype/liberation/LiberationSans-Regular.ttf',
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+    '/Library/Fonts/Arial.ttf',
+    'C:\\Windows\\Fonts\\arial.ttf'
+  ],
+  bold: [
+    '/usr/share/fonts/truetype/liberation/LiberationSans-Bold.ttf',
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf',
+    '/Library/Fonts/Arial Bold.ttf',
+    'C:\\Windows\\Fonts\\arialbd.ttf'
+  ],
+  arabic: [
+    '/usr/share/fonts/truetype/noto/NotoNaskhArabic-Regular.ttf',
+    '/usr/share/fonts/truetype/noto/NotoSansArabic-Regular.ttf',
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+    'C:\\Windows\\Fonts\\arial.ttf'
+  ],
+  arabicBold: [
+    '/usr/share/fonts/truetype/noto/NotoNaskhArabic-Bold.ttf',
+    '/usr/share/fonts/truetype/noto/NotoSansArabic-Bold.ttf',
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf',
+    'C:\\Windows\\Fonts\\arialbd.ttf'
+  ]
+};
+
+// Used for the PDF when no TrueType Latin font is available
+const STANDARD_FONTS: Partial<Record<FontFace, string>> = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold'
+};
+
+const FONT_ENV: Record<FontFace, string> = {
+  regular: 'CERTIFICATE_FONT',
+  bold: 'CERTIFICATE_BOLD_FONT',
+  arabic: 'CERTIFICATE_ARABIC_FONT',
+  arabicBold: 'CERTIFICATE_ARABIC_BOLD_FONT'
+};
+
+export class CertificateRenderer {
+  private fonts: Partial<Record<FontFace, string>>;
+  private outlines: Partial<Record<FontFace, fontkit.Font>> = {};
+  private pngScale: number;
+  private measureDocument: PDFKit.PDFDocument;
+
+  constructor(config: CertificateRendererConfig = {}) {
+    this.fonts = {};
+    for (const face of Object.keys(FONT_CANDIDATES) as FontFace[]) {
+      const font = config.fonts?.[face]
+        || process.env[FONT_ENV[face]]
+        || FONT_CANDIDATES[face].find(candidate => fs.existsSync(candidate));
+      if (font) {
+        this.fonts[face] = font;
+      }
+    }
+    // Fall back to the regular weight rather than failing on bold text
+    this.fonts.bold = this.fonts.bold || this.fonts.regular;
+    this.fonts.arabicBold = this.fonts.arabicBold || this.fonts.arabic;
+    this.pngScale = config.pngScale || 2;
+
+    this.measureDocument = new PDFDocument({ autoFirstPage: false });
+    this.registerFonts(this.measureDocument);
+  }
+
+  async renderPDF(template: CertificateTemplate, data: Record<string, any>, options: RenderOptions): Promise<RenderedCertificate> {
+    const layout = this.layout(template, data, options);
+    const doc = new PDFDocument({
+      size: [layout.width, layout.height],
+      margin: 0,
+      autoFirstPage: false,
+      info: {
+        Title: options.title || template.name,
+        Subject: template.name,
+        Producer: 'HalalCheck EU Certificate Generation Agent'
+      }
+    });
+    this.registerFonts(doc);
+
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    for (const page of layout.pages) {
+      doc.addPage({ size: [layout.width, layout.height], margin: 0 });
+      for (const drawable of page) {
+        this.drawPDF(doc, drawable);
+      }
+    }
+    doc.end();
+
+    return { buffer: await finished, pages: layout.pages.length };
+  }
+
+  async renderPNG(template: CertificateTemplate, data: Record<string, any>, options: RenderOptions): Promise<RenderedCertificate> {
+    const layout = this.layout(template, data, options);
+    // Pages are stacked vertically in a single image
+    const height = layout.height * layout.pages.length;
+    const pages = layout.pages.map((page, index) =>
+      `<g transform="translate(0 ${index * layout.height})">` +
+      `<rect width="${layout.width}" height="${layout.height}" fill="#FFFFFF"/>` +
+      page.map(drawable => this.drawSVG(drawable)).join('') +
+      '</g>'
+    );
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+      `width="${layout.width}" height="${height}" viewBox="0 0 ${layout.width} ${height}">${pages.join('')}</svg>`;
+
+    const buffer = await sharp(Buffer.from(svg), { density: 72 * this.pngScale }).png().toBuffer();
+    return { buffer, pages: layout.pages.length };
+  }
+
+  async renderQRCode(verificationUrl: string): Promise<Buffer> {
+    return QRCode.toBuffer(verificationUrl, { type: 'png', errorCorrectionLevel: 'M', margin: 2, width: 300 });
+  }
+
+  private layout(template: CertificateTemplate, data: Record<string, any>, options: RenderOptions): CertificateDocument {
+    const engine = new CertificateLayoutEngine(this.measurer());
+    return engine.layout(template, data, {
+      language: options.language,
+      includeQRCode: options.includeQRCode,
+      includeWatermark: options.includeWatermark,
+      ...(options.verificationUrl && { qrModules: qrModules(options.verificationUrl) })
+    });
+  }
+
+  private measurer(): TextMeasurer {
+    return {
+      widthOf: (text: string, face: FontFace, fontSize: number) => {
+        this.requireFont(face);
+        return this.measureDocument.font(face).fontSize(fontSize).widthOfString(text);
+      }
+    };
+  }
+
+  private registerFonts(doc: PDFKit.PDFDocument): void {
+    for (const face of Object.keys(FONT_ENV) as FontFace[]) {
+      const font = this.fonts[face] || STANDARD_FONTS[face];
+      if (font) {
+        doc.registerFont(face, font);
+      }
+    }
+  }
+
+  private requireFont(face: FontFace): void {
+    if (!this.fonts[face] && !STANDARD_FONTS[face]) {
+      throw new Error(`Certificate text requires a TrueType font with Arabic glyphs; set ${FONT_ENV[face]}`);
+    }
+  }
+
+  /**
+   * Parsed font for drawing glyph outlines; PNG output needs TrueType fonts for every face
+   */
+  private outlineFont(face: FontFace): fontkit.Font {
+    const cached = this.outlines[face];
+    if (cached) {
+      return cached;
+    }
+    const file = this.fonts[face];
+    if (!file) {
+      throw new Error(`PNG certificates require a TrueType font; set ${FONT_ENV[face]}`);
+    }
+    const font = fontkit.openSync(file) as fontkit.Font;
+    this.outlines[face] = font;
+    return font;
+  }
+
+  private drawPDF(doc: PDFKit.PDFDocument, drawable: Drawable): void {
+    switch (drawable.kind) {
+      case 'text':
+        doc.save().fillColor(drawable.color).fillOpacity(drawable.opacity ?? 1);
+        this.drawRunsPDF(doc, drawable.runs, drawable.baseline, drawable.fontSize);
+        doc.restore();
+        break;
+      case 'rect':
+        doc.save().lineWidth(drawable.lineWidth).rect(drawable.x, drawable.y, drawable.width, drawable.height);
+        if (drawable.fill && drawable.stroke) doc.fillAndStroke(drawable.fill, drawable.stroke);
+        else if (drawable.fill) doc.fill(drawable.fill);
+        else if (drawable.stroke) doc.stroke(drawable.stroke);
+        doc.restore();
+        break;
+      case 'line':
+        doc.save()
+          .lineWidth(drawable.lineWidth)
+          .moveTo(drawable.x1, drawable.y1)
+          .lineTo(drawable.x2, drawable.y2)
+          .stroke(drawable.color)
+          .restore();
+        break;
+      case 'image':
+        doc.image(drawable.data, drawable.x, drawable.y, {
+          fit: [drawable.width, drawable.height],
+          align: 'center',
+          valign: 'center'
+        });
+        break;
+      case 'qr': {
+        const cell = drawable.size / drawable.modules.length;
+        doc.save().fillColor(drawable.color);
+        drawable.modules.forEach((row, rowIndex) => row.forEach((dark, column) => {
+          if (dark) doc.rect(drawable.x + column * cell, drawable.y + rowIndex * cell, cell, cell);
+        }));
+        doc.fill().restore();
+        break;
+      }
+      case 'watermark':
+        doc.save()
+          .rotate(drawable.rotation, { origin: [drawable.cx, drawable.cy] })
+          .fillColor(drawable.color)
+          .fillOpacity(drawable.opacity);
+        watermarkLines(drawable).forEach(({ runs, baseline }) => {
+          this.drawRunsPDF(doc, runs.map(run => ({ ...run, x: drawable.cx + run.x })), drawable.cy + baseline, drawable.fontSize);
+        });
+        doc.restore();
+        break;
+    }
+  }
+
+  private drawRunsPDF(doc: PDFKit.PDFDocument, runs: PlacedRun[], baseline: number, fontSize: number): void {
+    for (const run of runs) {
+      doc.font(run.face).fontSize(fontSize).text(run.text, run.x, baseline, {
+        lineBreak: false,
+        baseline: 'alphabetic',
+        ...(run.direction === 'rtl' && { features: ['rlig', 'calt'] })
+      });
+    }
+  }
+
+  private drawSVG(drawable: Drawable): string {
+    switch (drawable.kind) {
+      case 'text':
+        return `<g fill="${drawable.color}" fill-opacity="${drawable.opacity ?? 1}">` +
+          this.runsSVG(drawable.runs, drawable.baseline, drawable.fontSize) + '</g>';
+      case 'rect':
+        return `<rect x="${drawable.x}" y="${drawable.y}" width="${drawable.width}" height="${drawable.height}" ` +
+          `fill="${drawable.fill || 'none'}" stroke="${drawable.stroke || 'none'}" stroke-width="${drawable.lineWidth}"/>`;
+      case 'line':
+        return `<line x1="${drawable.x1}" y1="${drawable.y1}" x2="${drawable.x2}" y2="${drawable.y2}" ` +
+          `stroke="${drawable.color}" stroke-width="${drawable.lineWidth}"/>`;
+      case 'image':
+        return `<image x="${drawable.x}" y="${drawable.y}" width="${drawable.width}" height="${drawable.height}" ` +
+          `preserveAspectRatio="xMidYMid meet" xlink:href="data:${drawable.mimeType};base64,${drawable.data.toString('base64')}"/>`;
+      case 'qr': {
+        const cell = drawable.size / drawable.modules.length;
+        const path = drawable.modules
+          .flatMap((row, rowIndex) => row.map((dark, column) =>
+            dark ? `M${drawable.x + column * cell} ${drawable.y + rowIndex * cell}h${cell}v${cell}h-${cell}z` : ''
+          ))
+          .join('');
+        return `<path d="${path}" fill="${drawable.color}" shape-rendering="crispEdges"/>`;
+      }
+      case 'watermark':
+        return `<g transform="rotate(${drawable.rotation} ${drawable.cx} ${drawable.cy})" ` +
+          `fill="${drawable.color}" fill-opacity="${drawable.opacity}">` +
+          watermarkLines(drawable)
+            .map(({ runs, baseline }) => this.runsSVG(
+              runs.map(run => ({ ...run, x: drawable.cx + run.x })), drawable.cy + baseline, drawable.fontSize
+            ))
+            .join('') +
+          '</g>';
+    }
+  }
+
+  private runsSVG(runs: PlacedRun[], baseline: number, fontSize: number): string {
+    return runs
+      .filter(run => run.text.trim())
+      .map(run => {
+        const font = this.outlineFont(run.face);
+        const scale = fontSize / font.unitsPerEm;
+        const glyphRun = font.layout(run.text);
+        let pen = 0;
+        const paths = glyphRun.glyphs.map((glyph, index) => {
+          const position = glyphRun.positions[index]!;
+          const x = run.x + (pen + position.xOffset) * scale;
+          const y = baseline - position.yOffset * scale;
+          pen += position.xAdvance;
+          const d = glyph.path.toSVG();
+          return d ? `<path transform="translate(${x} ${y}) scale(${scale} ${-scale})" d="${d}"/>` : '';
+        });
+        return paths.join('');
+      })
+      .join('');
+  }
+}
+
+/**
+ * Dark/light matrix of the QR code for a verification URL
+ */
+function qrModules(url: string): boolean[][] {
+  const { modules } = QRCode.create(url, { errorCorrectionLevel: 'M' });
+  const rows: boolean[][] = [];
+  for (let row = 0; row < modules.size; row++) {
+    const cells: boolean[] = [];
+    for (let column = 0; column < modules.size; column++) {
+      cells.push(Boolean(modules.get(row, column)));
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+/**
+ * Watermark lines stacked around the rotation center
+ */
+function watermarkLines(drawable: Extract<Drawable, { kind: 'watermark' }>): { runs: PlacedRun[]; baseline: number }[] {
+  const lineHeight = drawable.fontSize * 1.2;
+  const first = -((drawable.lines.length - 1) * lineHeight) / 2 + drawable.fontSize * 0.35;
+  return drawable.lines.map((runs, index) => ({ runs, baseline: first + index * lineHeight }));
+}
@@ -8,6 +8,16 @@ import { IAgent, AgentInput, AgentOutput, AgentOrchestrator as IAgentOrchestrato
 import { AgentRegistry } from './AgentRegistry';
 import { EventBus, Event } from './EventBus';
 import { Logger } from './infrastructure/logging/Logger';
+import { InMemoryWorkflowExecutionStore, WorkflowExecutionFilter, WorkflowExecutionStore } from './WorkflowExecutionStore';
+
+// Executions taken over per poll, and how often claims are made and leases renewed
+const MAX_RESUMED_PER_POLL = 5;
+const RESUME_POLL_INTERVAL_MS = 30000;
+const LEASE_RENEWAL_INTERVAL_MS = 60000;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
 
 export interface WorkflowDefinition {
   id: string;
@@ -80,11 +90,15 @@ export class AgentOrchestrator implements IAgentOrchestrator {
   private activeExecutions: Map<string, WorkflowExecution>;
   private completedExecutions: Map<string, WorkflowExecution>;
   private maxCompletedExecutions: number;
+  private store: WorkflowExecutionStore;
+  private resumeTimer?: NodeJS.Timeout;
+  private leaseTimer?: NodeJS.Timeout;
 
-  constructor(registry: AgentRegistry, eventBus: EventBus, logger?: Logger) {
+  constructor(registry: AgentRegistry, eventBus: EventBus, logger?: Logger, store?: WorkflowExecutionStore) {
     this.registry = registry;
     this.eventBus = eventBus;
     this.logger = logger || new Logger('AgentOrchestrator');
+    this.store = store || new InMemoryWorkflowExecutionStore();
     this.workflows = new Map();
     this.activeExecutions = new Map();
     this.completedExecutions = new Map();
@@ -270,18 +284,19 @@ export class AgentOrchestrator implements IAgentOrchestrator {
       progress: 0
     };
 
+    await this.store.create(execution);
     this.activeExecutions.set(executionId, execution);
 
+    return await this.runExecution(execution, workflow);
+  }
+
+  private async runExecution(execution: WorkflowExecution, workflow: WorkflowDefinition): Promise<WorkflowExecution> {
     try {
       await this.executeWorkflowSteps(execution, workflow);
       return execution;
     } catch (error) {
-      this.logger.error(`Workflow execution failed: ${workflowId}`, { executionId, error: error.message });
-      execution.status = 'failed';
-      execution.endTime = new Date();
-      execution.duration = execution.endTime.getTime() - execution.startTime.getTime();
-      
-      this.moveToCompleted(execution);
+      this.logger.error(`Workflow execution failed: ${workflow.id}`, { executionId: execution.id, error: errorMessage(error) });
+      await this.finishExecution(execution, 'failed');
       throw error;
     }
   }
@@ -290,6 +305,11 @@ export class AgentOrchestrator implements IAgentOrchestrator {
     let currentStepIndex = execution.currentStepIndex;
 
     while (currentStepIndex < workflow.steps.length) {
+      // Cancelled, or released by stop(), while the previous step ran
+      if (execution.status !== 'running') {
+        return;
+      }
+
       const step = workflow.steps[currentStepIndex];
       execution.context.currentStep = step.id;
       execution.currentStepIndex = currentStepIndex;
@@ -306,6 +326,9 @@ export class AgentOrchestrator implements IAgentOrchestrator {
         }
 
         const stepResult = await this.executeStep(step, execution.context);
+        if (execution.status !== 'running') {
+          return;
+        }
         execution.context.results[step.id] = stepResult;
 
         // Determine next step
@@ -323,6 +346,10 @@ export class AgentOrchestrator implements IAgentOrchestrator {
         }
 
       } catch (error) {
+        if (execution.status !== 'running') {
+          return;
+        }
+
         this.logger.error(`Step execution failed: ${step.id}`, { 
           executionId: execution.id, 
           error: error.message 
@@ -339,6 +366,15 @@ export class AgentOrchestrator implements IAgentOrchestrator {
           throw error;
         }
 
+        if (workflow.errorHandling.type === 'retry') {
+          // Run the same step again; its retry counter is checkpointed, so the limit holds across restarts
+          if (!(await this.saveCheckpoint(execution))) {
+            return;
+          }
+          await this.sleep(step.retryPolicy?.baseDelay || 1000);
+          continue;
+        }
+
         // Move to error handling step if specified
         if (step.onError) {
           const errorStepIndex = workflow.steps.findIndex(s => s.id === step.onError);
@@ -351,19 +387,68 @@ export class AgentOrchestrator implements IAgentOrchestrator {
           currentStepIndex++;
         }
       }
+
+      // Checkpoint with the next step, where a resumed execution picks up
+      if (currentStepIndex < workflow.steps.length) {
+        execution.currentStepIndex = currentStepIndex;
+        execution.context.currentStep = workflow.steps[currentStepIndex].id;
+        execution.progress = Math.round((currentStepIndex / workflow.steps.length) * 100);
+      }
+      if (!(await this.saveCheckpoint(execution))) {
+        return;
+      }
     }
 
-    // Mark as completed
-    execution.status = 'completed';
-    execution.endTime = new Date();
-    execution.duration = execution.endTime.getTime() - execution.startTime.getTime();
-    execution.progress = 100;
+    await this.finishExecution(execution, 'completed');
 
     this.logger.info(`Workflow completed successfully: ${workflow.id}`, { 
       executionId: execution.id,
       duration: execution.duration
     });
+  }
 
+  /**
+   * Persist progress of a running execution. Resolves false when the store no
+   * longer has it running here (cancelled through the API, or taken over after
+   * a lapsed lease); the execution is then dropped as cancelled.
+   */
+  private async saveCheckpoint(execution: WorkflowExecution): Promise<boolean> {
+    let held: boolean;
+    try {
+      held = await this.store.checkpoint(execution);
+    } catch (error) {
+      // The next checkpoint carries the full state again
+      this.logger.warn('Failed to checkpoint workflow execution', { executionId: execution.id, error: errorMessage(error) });
+      return true;
+    }
+
+    if (!held && execution.status === 'running') {
+      this.logger.info(`Workflow execution no longer held, stopping: ${execution.id}`);
+      this.markCancelled(execution);
+    }
+    return held;
+  }
+
+  private async finishExecution(execution: WorkflowExecution, status: 'completed' | 'failed'): Promise<void> {
+    execution.status = status;
+    execution.endTime = new Date();
+    execution.duration = execution.endTime.getTime() - execution.startTime.getTime();
+    if (status === 'completed') {
+      execution.progress = 100;
+    }
+
+    try {
+      await this.store.checkpoint(execution);
+    } catch (error) {
+      this.logger.warn('Failed to record workflow execution result', { executionId: execution.id, error: errorMessage(error) });
+    }
+    this.moveToCompleted(execution);
+  }
+
+  private markCancelled(execution: WorkflowExecution): void {
+    execution.status = 'cancelled';
+    execution.endTime = new Date();
+    execution.duration = execution.endTime.getTime() - execution.startTime.getTime();
     this.moveToCompleted(execution);
   }
 
@@ -573,19 +658,152 @@ export class AgentOrchestrator implements IAgentOrchestrator {
   }
 
   public async cancelExecution(executionId: string): Promise<boolean> {
+    const cancelled = await this.store.cancel(executionId);
+
+    // Stops at the end of the running step
     const execution = this.activeExecutions.get(executionId);
     if (execution) {
-      execution.status = 'cancelled';
-      execution.endTime = new Date();
-      execution.duration = execution.endTime.getTime() - execution.startTime.getTime();
-      
-      this.moveToCompleted(execution);
+      this.markCancelled(execution);
+    }
+
+    if (cancelled || execution) {
       this.logger.info(`Workflow execution cancelled: ${executionId}`);
       return true;
     }
     return false;
   }
 
+  /**
+   * Run a failed execution again from a step (by default the one that failed),
+   * keeping the outputs of the steps before it
+   */
+  public async retryExecution(executionId: string, stepId?: string): Promise<WorkflowExecution> {
+    const execution = await this.store.get(executionId);
+    if (!execution) {
+      throw new Error(`Workflow execution not found: ${executionId}`);
+    }
+    const workflow = this.workflows.get(execution.workflowId);
+    if (stepId && !workflow?.steps.some(step => step.id === stepId)) {
+      throw new Error(`Step ${stepId} is not part of workflow ${execution.workflowId}`);
+    }
+
+    const queued = await this.store.retry(executionId, stepId);
+    this.logger.info(`Workflow execution queued for retry: ${executionId}`, { step: queued.context.currentStep });
+
+    if (this.resumeTimer) {
+      await this.resumeExecutions();
+    }
+    return queued;
+  }
+
+  public async getExecution(executionId: string): Promise<WorkflowExecution | null> {
+    return this.activeExecutions.get(executionId) || await this.store.get(executionId);
+  }
+
+  public async listExecutions(filter?: WorkflowExecutionFilter): Promise<WorkflowExecution[]> {
+    return await this.store.list(filter);
+  }
+
+  /**
+   * Resume executions interrupted by a restart, then keep claiming queued
+   * retries and renewing the leases on running executions
+   */
+  public async start(): Promise<void> {
+    if (this.resumeTimer) {
+      return;
+    }
+
+    this.resumeTimer = setInterval(() => { void this.resumeExecutions(); }, RESUME_POLL_INTERVAL_MS);
+    this.resumeTimer.unref();
+    this.leaseTimer = setInterval(() => { void this.renewLeases(); }, LEASE_RENEWAL_INTERVAL_MS);
+    this.leaseTimer.unref();
+
+    await this.resumeExecutions();
+  }
+
+  /**
+   * Stop claiming work and release running executions, which continue from
+   * their last completed step in the next agent process
+   */
+  public async stop(): Promise<void> {
+    if (this.resumeTimer) {
+      clearInterval(this.resumeTimer);
+      this.resumeTimer = undefined;
+    }
+    if (this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+      this.leaseTimer = undefined;
+    }
+
+    for (const execution of Array.from(this.activeExecutions.values())) {
+      execution.status = 'pending';
+      this.activeExecutions.delete(execution.id);
+      try {
+        await this.store.checkpoint(execution);
+      } catch (error) {
+        // The lease lapses instead and the execution is resumed after that
+        this.logger.warn('Failed to release workflow execution', { executionId: execution.id, error: errorMessage(error) });
+      }
+    }
+  }
+
+  private async resumeExecutions(): Promise<void> {
+    let claimed: WorkflowExecution[];
+    try {
+      claimed = await this.store.claim(MAX_RESUMED_PER_POLL);
+    } catch (error) {
+      this.logger.warn('Failed to claim workflow executions', { error: errorMessage(error) });
+      return;
+    }
+
+    for (const execution of claimed) {
+      const workflow = this.workflows.get(execution.workflowId);
+      const stepIndex = workflow ? workflow.steps.findIndex(step => step.id === execution.context.currentStep) : -1;
+      if (!workflow || stepIndex === -1) {
+        execution.context.errors.push({
+          step: execution.context.currentStep,
+          error: 'Cannot resume: unknown workflow or step',
+          timestamp: new Date()
+        });
+        await this.finishExecution(execution, 'failed');
+        continue;
+      }
+
+      this.logger.info(`Resuming workflow execution: ${execution.id}`, { workflowId: workflow.id, step: execution.context.currentStep });
+      execution.status = 'running';
+      execution.currentStepIndex = stepIndex;
+      this.activeExecutions.set(execution.id, execution);
+      this.eventBus.emit('workflow-resumed', {
+        executionId: execution.id,
+        workflowId: workflow.id,
+        currentStep: execution.context.currentStep
+      });
+
+      // Failures are logged and recorded by runExecution
+      this.runExecution(execution, workflow).catch(() => undefined);
+    }
+  }
+
+  private async renewLeases(): Promise<void> {
+    const executionIds = Array.from(this.activeExecutions.keys());
+    if (executionIds.length === 0) {
+      return;
+    }
+
+    try {
+      const held = new Set(await this.store.renewLeases(executionIds));
+      for (const executionId of executionIds) {
+        const execution = this.activeExecutions.get(executionId);
+        if (execution && !held.has(executionId)) {
+          this.logger.info(`Workflow execution no longer held, stopping: ${executionId}`);
+          this.markCancelled(execution);
+        }
+      }
+    } catch (error) {
+      this.logger.warn('Failed to renew workflow execution leases', { error: errorMessage(error) });
+    }
+  }
+
   private async handleWorkflowExecutionRequest(event: Event): Promise<void> {
     try {
       const { workflowId, input } = event.data;
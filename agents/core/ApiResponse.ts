@@ -0,0 +1,42 @@
+/**
+ * HalalCheck API Responses
+ *
+ * Readers for the `{ success, data, message }` envelope the HalalCheck API
+ * answers with. Bodies are checked against the shape the caller expects
+ * instead of being trusted, so a proxy error page or an API change fails
+ * with a clear error rather than deep inside an agent.
+ */
+
+export type Guard<T> = (value: unknown) => value is T;
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+export function isArrayOf<T>(value: unknown, guard: Guard<T>): value is T[] {
+  return Array.isArray(value) && value.every(guard);
+}
+
+/**
+ * `data` of a response body, once it passes the guard
+ */
+export async function readApiData<T>(response: Response, guard: Guard<T>, description: string): Promise<T> {
+  const body: unknown = await response.json().catch(() => undefined);
+  const data = isRecord(body) ? body.data : undefined;
+  if (!guard(data)) {
+    throw new Error(`Unexpected ${description} response from the HalalCheck API`);
+  }
+  return data;
+}
+
+/**
+ * Message of an error response, falling back to the HTTP status text
+ */
+export async function readApiErrorMessage(response: Response): Promise<string> {
+  const body: unknown = await response.json().catch(() => undefined);
+  return isRecord(body) && isString(body.message) ? body.message : response.statusText;
+}
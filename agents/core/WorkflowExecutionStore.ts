@@ -0,0 +1,363 @@
+/**
+ * Workflow Execution Store
+ *
+ * Where the orchestrator keeps its workflow executions between steps. The API
+ * store persists them in the HalalCheck API (Postgres) under a lease held by
+ * this process, so executions interrupted by a restart are resumed by the
+ * next agent process, and users can cancel them or retry failed steps from
+ * the API; the in-memory store is for development and tests and is lost on
+ * restart.
+ */
+
+import * as crypto from 'crypto';
+import * as os from 'os';
+import { WorkflowExecution } from './AgentOrchestrator';
+import { isArrayOf, isRecord, isString, readApiData, readApiErrorMessage } from './ApiResponse';
+
+export type WorkflowExecutionStatus = WorkflowExecution['status'];
+
+export interface WorkflowExecutionFilter {
+  status?: WorkflowExecutionStatus;
+  workflowId?: string;
+  limit?: number;
+}
+
+export interface WorkflowExecutionStore {
+  create(execution: WorkflowExecution): Promise<void>;
+  /**
+   * Save progress; a pending execution is released for any process to resume.
+   * Resolves false once the execution was cancelled or taken over elsewhere.
+   */
+  checkpoint(execution: WorkflowExecution): Promise<boolean>;
+  /** Take over executions queued for retry or abandoned by a stopped process */
+  claim(limit: number): Promise<WorkflowExecution[]>;
+  /** Keep holding running executions; resolves the IDs still held */
+  renewLeases(executionIds: string[]): Promise<string[]>;
+  get(executionId: string): Promise<WorkflowExecution | null>;
+  list(filter?: WorkflowExecutionFilter): Promise<WorkflowExecution[]>;
+  /** Resolves false when the execution is not pending or running */
+  cancel(executionId: string): Promise<boolean>;
+  /** Queue a failed execution to run again from a step, by default the one that failed */
+  retry(executionId: string, stepId?: string): Promise<WorkflowExecution>;
+}
+
+function snapshot(execution: WorkflowExecution): WorkflowExecution {
+  return {
+    ...execution,
+    context: {
+      ...execution.context,
+      results: { ...execution.context.results },
+      errors: [...execution.context.errors],
+      retryCount: { ...execution.context.retryCount }
+    }
+  };
+}
+
+export class InMemoryWorkflowExecutionStore implements WorkflowExecutionStore {
+  private executions = new Map<string, WorkflowExecution>();
+
+  async create(execution: WorkflowExecution): Promise<void> {
+    this.executions.set(execution.id, snapshot(execution));
+  }
+
+  async checkpoint(execution: WorkflowExecution): Promise<boolean> {
+    const stored = this.executions.get(execution.id);
+    if (!stored || stored.status !== 'running') {
+      return false;
+    }
+    this.executions.set(execution.id, snapshot(execution));
+    return true;
+  }
+
+  async claim(limit: number): Promise<WorkflowExecution[]> {
+    const pending = Array.from(this.executions.values())
+      .filter(execution => execution.status === 'pending')
+      .slice(0, limit);
+
+    pending.forEach(execution => { execution.status = 'running'; });
+    return pending.map(snapshot);
+  }
+
+  async renewLeases(executionIds: string[]): Promise<string[]> {
+    return executionIds.filter(id => this.executions.get(id)?.status === 'running');
+  }
+
+  async get(executionId: string): Promise<WorkflowExecution | null> {
+    const execution = this.executions.get(executionId);
+    return execution ? snapshot(execution) : null;
+  }
+
+  async list(filter: WorkflowExecutionFilter = {}): Promise<WorkflowExecution[]> {
+    return Array.from(this.executions.values())
+      .filter(execution => !filter.status || execution.status === filter.status)
+      .filter(execution => !filter.workflowId || execution.workflowId === filter.workflowId)
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+      .slice(0, filter.limit || 50)
+      .map(snapshot);
+  }
+
+  async cancel(executionId: string): Promise<boolean> {
+    const execution = this.executions.get(executionId);
+    if (!execution || (execution.status !== 'pending' && execution.status !== 'running')) {
+      return false;
+    }
+    execution.status = 'cancelled';
+    execution.endTime = new Date();
+    return true;
+  }
+
+  async retry(executionId: string, stepId?: string): Promise<WorkflowExecution> {
+    const execution = this.executions.get(executionId);
+    if (!execution || execution.status !== 'failed') {
+      throw new Error(`Workflow execution ${executionId} is not a failed execution`);
+    }
+
+    const step = stepId || execution.context.currentStep;
+    execution.status = 'pending';
+    execution.context.currentStep = step;
+    delete execution.context.retryCount[step];
+    delete execution.endTime;
+    delete execution.duration;
+    return snapshot(execution);
+  }
+}
+
+export interface ApiWorkflowExecutionStoreConfig {
+  apiUrl: string;
+  /** Organization API key with workflow permission */
+  apiKey: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const API_STATUSES = ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED'];
+
+/**
+ * Execution as the API returns it, dates serialized and status upper case
+ */
+interface ApiWorkflowExecution {
+  id: string;
+  workflowId: string;
+  status: string;
+  currentStep: string;
+  currentStepIndex: number;
+  progress: number;
+  data?: Record<string, any> | null;
+  results?: Record<string, any> | null;
+  errors?: ApiStepError[] | null;
+  retryCount?: Record<string, number> | null;
+  startedAt: string;
+  endedAt?: string | null;
+}
+
+interface ApiStepError {
+  step: string;
+  error: string;
+  timestamp: string;
+}
+
+function isApiStepError(value: unknown): value is ApiStepError {
+  return isRecord(value) && isString(value.step) && isString(value.error) && isString(value.timestamp);
+}
+
+function isApiWorkflowExecution(value: unknown): value is ApiWorkflowExecution {
+  return isRecord(value) &&
+    ['id', 'workflowId', 'currentStep', 'startedAt'].every(key => isString(value[key])) &&
+    isString(value.status) && API_STATUSES.includes(value.status) &&
+    typeof value.currentStepIndex === 'number' && typeof value.progress === 'number' &&
+    (value.errors === undefined || value.errors === null || isArrayOf(value.errors, isApiStepError));
+}
+
+function isExecutionData(value: unknown): value is { execution: ApiWorkflowExecution } {
+  return isRecord(value) && isApiWorkflowExecution(value.execution);
+}
+
+function isExecutionListData(value: unknown): value is { executions: ApiWorkflowExecution[] } {
+  return isRecord(value) && isArrayOf(value.executions, isApiWorkflowExecution);
+}
+
+function isLeaseData(value: unknown): value is { executionIds: string[] } {
+  return isRecord(value) && isArrayOf(value.executionIds, isString);
+}
+
+/**
+ * Step outputs can carry rendered documents; those are recorded by size only
+ */
+function serialize(value: unknown): string {
+  return JSON.stringify(value, function (this: any, key: string, serialized: unknown) {
+    const original = this[key];
+    return Buffer.isBuffer(original) ? { type: 'Buffer', byteLength: original.length } : serialized;
+  });
+}
+
+export class ApiWorkflowExecutionStore implements WorkflowExecutionStore {
+  private config: ApiWorkflowExecutionStoreConfig;
+  /** Identifies this process as the lease holder */
+  readonly workerId: string;
+
+  constructor(config: ApiWorkflowExecutionStoreConfig) {
+    this.config = config;
+    this.workerId = `${os.hostname().slice(0, 60)}-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+  }
+
+  async create(execution: WorkflowExecution): Promise<void> {
+    const response = await this.send('/api/workflow-executions', {
+      method: 'POST',
+      body: serialize({
+        id: execution.id,
+        workflowId: execution.workflowId,
+        workerId: this.workerId,
+        currentStep: execution.context.currentStep,
+        data: execution.context.data
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Workflow execution was rejected (${response.status}): ${await readApiErrorMessage(response)}`);
+    }
+  }
+
+  async checkpoint(execution: WorkflowExecution): Promise<boolean> {
+    const response = await this.send(`/api/workflow-executions/${encodeURIComponent(execution.id)}/checkpoint`, {
+      method: 'PUT',
+      body: serialize({
+        workerId: this.workerId,
+        status: execution.status.toUpperCase(),
+        currentStep: execution.context.currentStep,
+        currentStepIndex: execution.currentStepIndex,
+        progress: execution.progress,
+        results: execution.context.results,
+        errors: execution.context.errors,
+        retryCount: execution.context.retryCount
+      })
+    });
+
+    if (response.status === 404 || response.status === 409) {
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(`Workflow checkpoint failed with status ${response.status}`);
+    }
+    return true;
+  }
+
+  async claim(limit: number): Promise<WorkflowExecution[]> {
+    const response = await this.send('/api/workflow-executions/claim', {
+      method: 'POST',
+      body: JSON.stringify({ workerId: this.workerId, limit })
+    });
+    if (!response.ok) {
+      throw new Error(`Workflow claim failed with status ${response.status}`);
+    }
+
+    const { executions } = await readApiData(response, isExecutionListData, 'workflow claim');
+    return executions.map(execution => this.toExecution(execution));
+  }
+
+  async renewLeases(executionIds: string[]): Promise<string[]> {
+    const response = await this.send('/api/workflow-executions/leases', {
+      method: 'POST',
+      body: JSON.stringify({ workerId: this.workerId, executionIds })
+    });
+    if (!response.ok) {
+      throw new Error(`Workflow lease renewal failed with status ${response.status}`);
+    }
+
+    const renewed = await readApiData(response, isLeaseData, 'workflow lease renewal');
+    return renewed.executionIds;
+  }
+
+  async get(executionId: string): Promise<WorkflowExecution | null> {
+    const response = await this.send(`/api/workflow-executions/${encodeURIComponent(executionId)}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Workflow execution lookup failed with status ${response.status}`);
+    }
+
+    const { execution } = await readApiData(response, isExecutionData, 'workflow execution');
+    return this.toExecution(execution);
+  }
+
+  async list(filter: WorkflowExecutionFilter = {}): Promise<WorkflowExecution[]> {
+    const query = new URLSearchParams({ limit: String(filter.limit || 50) });
+    if (filter.status) {
+      query.set('status', filter.status.toUpperCase());
+    }
+    if (filter.workflowId) {
+      query.set('workflowId', filter.workflowId);
+    }
+
+    const response = await this.send(`/api/workflow-executions?${query}`);
+    if (!response.ok) {
+      throw new Error(`Workflow execution listing failed with status ${response.status}`);
+    }
+
+    const { executions } = await readApiData(response, isExecutionListData, 'workflow execution list');
+    return executions.map(execution => this.toExecution(execution));
+  }
+
+  async cancel(executionId: string): Promise<boolean> {
+    const response = await this.send(`/api/workflow-executions/${encodeURIComponent(executionId)}/cancel`, {
+      method: 'POST'
+    });
+    if (response.status === 404 || response.status === 409) {
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(`Workflow cancellation failed with status ${response.status}`);
+    }
+    return true;
+  }
+
+  async retry(executionId: string, stepId?: string): Promise<WorkflowExecution> {
+    const response = await this.send(`/api/workflow-executions/${encodeURIComponent(executionId)}/retry`, {
+      method: 'POST',
+      body: JSON.stringify(stepId ? { stepId } : {})
+    });
+
+    if (!response.ok) {
+      throw new Error(`Workflow retry was rejected (${response.status}): ${await readApiErrorMessage(response)}`);
+    }
+
+    const { execution } = await readApiData(response, isExecutionData, 'workflow retry');
+    return this.toExecution(execution);
+  }
+
+  private send(path: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(`${this.config.apiUrl.replace(/\/+$/, '')}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': this.config.apiKey
+      },
+      signal: AbortSignal.timeout(this.config.timeoutMs || DEFAULT_TIMEOUT_MS)
+    });
+  }
+
+  private toExecution(execution: ApiWorkflowExecution): WorkflowExecution {
+    const startTime = new Date(execution.startedAt);
+    const endTime = execution.endedAt ? new Date(execution.endedAt) : undefined;
+
+    return {
+      id: execution.id,
+      workflowId: execution.workflowId,
+      status: execution.status.toLowerCase() as WorkflowExecutionStatus,
+      context: {
+        workflowId: execution.workflowId,
+        executionId: execution.id,
+        currentStep: execution.currentStep,
+        data: execution.data || {},
+        results: execution.results || {},
+        startTime,
+        errors: (execution.errors || []).map(error => ({ ...error, timestamp: new Date(error.timestamp) })),
+        retryCount: execution.retryCount || {}
+      },
+      startTime,
+      ...(endTime && { endTime, duration: endTime.getTime() - startTime.getTime() }),
+      currentStepIndex: execution.currentStepIndex,
+      progress: execution.progress
+    };
+  }
+}
@@ -1,12 +1,29 @@
 /**
  * Document Processing Agent
  * 
- * Handles OCR, PDF processing, Excel parsing, and intelligent data extraction
+ * Handles OCR, PDF processing, Excel parsing, and intelligent data extraction.
+ * With a document intake it also processes the files uploaded to pipeline
+ * applications, so supplier certificates are matched to the application's
+ * checklist and their expiry dates tracked.
  */
 
+import * as zlib from 'zlib';
 import { IAgent, AgentInput, AgentOutput, AgentCapability } from '../core/IAgent';
 import { EventBus } from '../core/EventBus';
 import { Logger } from '../core/infrastructure/logging/Logger';
+import { DocumentIntake, IntakeDocument, IntakeExtraction } from './services/DocumentIntake';
+
+const INTAKE_POLL_INTERVAL_MS = 30000;
+const INTAKE_BATCH_SIZE = 5;
+
+// Content stream operators that show text: a string with Tj, ' or ", an
+// array of strings and kerning with TJ, and those that start a new line
+const PDF_STRING = String.raw`\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>`;
+const PDF_TEXT_TOKEN = new RegExp(
+  String.raw`(${PDF_STRING})\s*(?:Tj|'|")|\[((?:${PDF_STRING}|[^\]])*)\]\s*TJ|T\*|\b(?:Td|TD|ET)\b`,
+  'g'
+);
+const PDF_ARRAY_PART = new RegExp(String.raw`(${PDF_STRING})|(-?\d+(?:\.\d+)?)`, 'g');
 
 export interface DocumentProcessingInput extends AgentInput {
   documentType: 'pdf' | 'image' | 'excel' | 'text';
@@ -84,10 +101,14 @@ export class DocumentProcessingAgent implements IAgent {
 
   private logger: Logger;
   private eventBus: EventBus;
+  private documentIntake?: DocumentIntake;
+  private intakeTimer?: NodeJS.Timeout;
+  private intakeRunning = false;
 
-  constructor(eventBus: EventBus, logger: Logger) {
+  constructor(eventBus: EventBus, logger: Logger, documentIntake?: DocumentIntake) {
     this.eventBus = eventBus;
     this.logger = logger;
+    this.documentIntake = documentIntake;
     
     this.initialize();
   }
@@ -95,6 +116,11 @@ export class DocumentProcessingAgent implements IAgent {
   private async initialize(): Promise<void> {
     this.logger.info(`Initializing ${this.name} v${this.version}`);
     this.subscribeToEvents();
+
+    if (this.documentIntake) {
+      this.intakeTimer = setInterval(() => { void this.processIntake(); }, INTAKE_POLL_INTERVAL_MS);
+      this.intakeTimer.unref();
+    }
   }
 
   private subscribeToEvents(): void {
@@ -176,6 +202,15 @@ export class DocumentProcessingAgent implements IAgent {
 
   private async processPDF(input: DocumentProcessingInput): Promise<{ extractedData: ExtractedData; originalText: string }> {
     this.logger.debug('Processing PDF document');
+
+    if (input.fileBuffer) {
+      const originalText = this.extractPdfText(input.fileBuffer);
+      if (!originalText.trim()) {
+        throw new Error('The PDF has no text layer (scanned document); enter the certificate details by hand');
+      }
+      const extractedData = await this.extractDataFromText(originalText, input.extractionOptions);
+      return { extractedData, originalText };
+    }
     
     // Simulated PDF processing - in real implementation would use libraries like pdf-parse
     const originalText = `
@@ -212,6 +247,15 @@ export class DocumentProcessingAgent implements IAgent {
 
   private async processExcel(input: DocumentProcessingInput): Promise<{ extractedData: ExtractedData; originalText: string }> {
     this.logger.debug('Processing Excel document');
+
+    if (input.fileBuffer) {
+      // CSV exports can be read as text; workbooks need a spreadsheet library
+      if (input.fileBuffer.includes(0)) {
+        throw new Error('Excel workbooks cannot be read yet; upload the sheet as CSV');
+      }
+      const originalText = input.fileBuffer.toString('utf8');
+      return { extractedData: await this.extractDataFromSpreadsheet(originalText), originalText };
+    }
     
     // Simulated Excel processing - in real implementation would use xlsx library
     const originalText = `
@@ -230,7 +274,7 @@ export class DocumentProcessingAgent implements IAgent {
     this.logger.debug('Processing text document');
     
     // For text input, assume the text is provided in the input
-    const originalText = input.context?.text || '';
+    const originalText = input.fileBuffer ? input.fileBuffer.toString('utf8') : input.context?.text || '';
     const extractedData = await this.extractDataFromText(originalText, input.extractionOptions);
     
     return { extractedData, originalText };
@@ -239,6 +283,10 @@ export class DocumentProcessingAgent implements IAgent {
   private async performOCR(input: DocumentProcessingInput): Promise<string> {
     // Simulated OCR - in real implementation would integrate with Tesseract.js
     this.logger.debug('Performing OCR on image');
+
+    if (input.fileBuffer) {
+      throw new Error('Text cannot be read from images yet; enter the certificate details by hand');
+    }
     
     // Return simulated extracted text
     return `
@@ -349,12 +397,14 @@ export class DocumentProcessingAgent implements IAgent {
       }
     }
 
-    // Look for validity dates
-    const datePattern = /(?:VALID\s+UNTIL|EXPIRES?)\s*:?\s*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{4})/i;
+    // Look for validity dates, day first or ISO
+    const datePattern = /(?:VALID\s+(?:UNTIL|TILL|THROUGH|TO)|EXPIR(?:ES|E|Y|ATION)(?:\s+DATE)?)\s*:?\s*(\d{1,2}[\/\-.]\d{1,2}[\/\-.]\d{4}|\d{4}-\d{2}-\d{2})/i;
     const dateMatch = text.match(datePattern);
     if (dateMatch && certificates.length > 0) {
-      const dateParts = dateMatch[1].split(/[\/\-]/);
-      certificates[0].validUntil = new Date(parseInt(dateParts[2]), parseInt(dateParts[1]) - 1, parseInt(dateParts[0]));
+      const dateParts = dateMatch[1].split(/[\/\-.]/).map(part => parseInt(part, 10));
+      certificates[0].validUntil = dateParts[0] > 31
+        ? new Date(dateParts[0], dateParts[1] - 1, dateParts[2])
+        : new Date(dateParts[2], dateParts[1] - 1, dateParts[0]);
     }
 
     return certificates;
@@ -456,8 +506,185 @@ export class DocumentProcessingAgent implements IAgent {
     });
   }
 
+  /**
+   * Process documents uploaded to pipeline applications and report what was
+   * extracted to the intake; resolves the number processed
+   */
+  public async processIntake(): Promise<number> {
+    if (!this.documentIntake || this.intakeRunning) {
+      return 0;
+    }
+    this.intakeRunning = true;
+
+    try {
+      let documents: IntakeDocument[];
+      try {
+        documents = await this.documentIntake.claim(INTAKE_BATCH_SIZE);
+      } catch (error) {
+        this.logger.warn('Failed to claim uploaded documents', { error: error instanceof Error ? error.message : String(error) });
+        return 0;
+      }
+
+      let processed = 0;
+      for (const document of documents) {
+        try {
+          const extraction = await this.extractIntakeDocument(this.documentIntake, document);
+          await this.documentIntake.recordExtraction(document.id, extraction);
+          if (extraction.success) {
+            processed++;
+          }
+        } catch (error) {
+          this.logger.error(`Failed to process uploaded document ${document.id}`, undefined, error instanceof Error ? error : undefined);
+        }
+      }
+      return processed;
+    } finally {
+      this.intakeRunning = false;
+    }
+  }
+
+  private async extractIntakeDocument(intake: DocumentIntake, document: IntakeDocument): Promise<IntakeExtraction> {
+    const documentType = this.documentTypeOf(document.contentType);
+    if (!documentType) {
+      return { success: false, error: `Unsupported file type: ${document.contentType}` };
+    }
+
+    let fileBuffer: Buffer;
+    try {
+      fileBuffer = await intake.download(document.id);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const output = await this.process({
+      requestId: `document_${document.id}`,
+      documentType,
+      fileBuffer,
+      extractionOptions: { extractIngredients: true, extractCertificates: true }
+    });
+    if (!output.success) {
+      return { success: false, error: output.error || 'Processing failed' };
+    }
+
+    const { ingredients, certificates, metadata } = output.extractedData;
+    return {
+      success: true,
+      extractedData: {
+        ...(ingredients && { ingredients }),
+        ...(certificates && {
+          certificates: certificates.map(certificate => ({
+            type: certificate.type,
+            issuer: certificate.issuer,
+            certificateNumber: certificate.certificateNumber,
+            validUntil: certificate.validUntil ? this.formatDate(certificate.validUntil) : undefined
+          }))
+        }),
+        ...(metadata && { metadata })
+      },
+      confidence: output.processingMetadata.confidence
+    };
+  }
+
+  private documentTypeOf(contentType: string): DocumentProcessingInput['documentType'] | undefined {
+    if (contentType === 'application/pdf') {
+      return 'pdf';
+    }
+    if (contentType.startsWith('image/')) {
+      return 'image';
+    }
+    if (contentType === 'text/csv' || contentType.includes('excel') || contentType.includes('spreadsheetml')) {
+      return 'excel';
+    }
+    if (contentType.startsWith('text/')) {
+      return 'text';
+    }
+    return undefined;
+  }
+
+  /**
+   * Calendar date of a local-midnight Date, e.g. 2025-03-31
+   */
+  private formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Text shown by a PDF's content streams. Covers text drawn with Tj/TJ in
+   * uncompressed and Flate-compressed streams, which is what office tools and
+   * certificate generators produce; fonts with custom encodings come out
+   * unreadable and scans have no text at all.
+   */
+  private extractPdfText(buffer: Buffer): string {
+    const pdf = buffer.toString('latin1');
+    const lines: string[] = [];
+    // Each stream with the dictionary of its own object
+    const streamPattern = /\bobj\b((?:(?!\bobj\b)[\s\S])*?)\bstream\r?\n([\s\S]*?)endstream/g;
+
+    for (const match of pdf.matchAll(streamPattern)) {
+      const dictionary = match[1];
+      let content = match[2];
+      if (/\/Subtype\s*\/Image|\/Type\s*\/(?:XRef|ObjStm)/.test(dictionary)) {
+        continue;
+      }
+      if (dictionary.includes('/FlateDecode')) {
+        try {
+          content = zlib.inflateSync(Buffer.from(content, 'latin1')).toString('latin1');
+        } catch {
+          continue;
+        }
+      }
+
+      let line = '';
+      for (const token of content.matchAll(PDF_TEXT_TOKEN)) {
+        if (token[1] !== undefined) {
+          line += this.decodePdfString(token[1]);
+        } else if (token[2] !== undefined) {
+          for (const part of token[2].matchAll(PDF_ARRAY_PART)) {
+            // Large negative kerning between strings is a word gap
+            line += part[1] !== undefined ? this.decodePdfString(part[1]) : Number(part[2]) < -200 ? ' ' : '';
+          }
+        } else if (line.trim()) {
+          lines.push(line.trim());
+          line = '';
+        }
+      }
+      if (line.trim()) {
+        lines.push(line.trim());
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * A literal (escaped) or hex PDF string, delimiters included
+   */
+  private decodePdfString(value: string): string {
+    if (value.startsWith('<')) {
+      const hex = value.slice(1, -1).replace(/\s/g, '');
+      return Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex').toString('latin1');
+    }
+
+    const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+    return value.slice(1, -1).replace(/\\([0-7]{1,3}|[\s\S])/g, (_match, escaped: string) => {
+      if (/^[0-7]+$/.test(escaped)) {
+        return String.fromCharCode(parseInt(escaped, 8));
+      }
+      if (escaped === '\r' || escaped === '\n') {
+        return '';
+      }
+      return escapes[escaped] ?? escaped;
+    });
+  }
+
   public async shutdown(): Promise<void> {
     this.logger.info(`Shutting down ${this.name}`);
+    if (this.intakeTimer) {
+      clearInterval(this.intakeTimer);
+      this.intakeTimer = undefined;
+    }
     // Cleanup resources
   }
 }
\ No newline at end of file
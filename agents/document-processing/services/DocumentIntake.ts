@@ -0,0 +1,119 @@
+/**
+ * Document Intake
+ *
+ * Where the document processing agent picks up files uploaded to pipeline
+ * applications. The HalalCheck API queues uploads; the agent claims a batch,
+ * downloads each file, parses it and reports what it extracted, which the API
+ * matches to the organization's document checklist. Claims not answered in
+ * time are handed to the next agent process.
+ */
+
+import { isArrayOf, isRecord, isString, readApiData, readApiErrorMessage } from '../../core/ApiResponse';
+
+export interface IntakeDocument {
+  id: string;
+  applicationId: string;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+}
+
+export interface IntakeExtraction {
+  success: boolean;
+  extractedData?: {
+    ingredients?: string[];
+    certificates?: Array<{
+      type: string;
+      issuer: string;
+      validUntil?: string; // YYYY-MM-DD
+      certificateNumber?: string;
+    }>;
+    metadata?: Record<string, any>;
+  };
+  confidence?: number;
+  error?: string;
+}
+
+export interface DocumentIntake {
+  /** Claim uploaded documents waiting to be processed */
+  claim(limit: number): Promise<IntakeDocument[]>;
+  download(documentId: string): Promise<Buffer>;
+  /** Report the result of a claimed document; failures are retried by the API */
+  recordExtraction(documentId: string, extraction: IntakeExtraction): Promise<void>;
+}
+
+export interface ApiDocumentIntakeConfig {
+  apiUrl: string;
+  /** Organization API key with pipeline permission */
+  apiKey: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+function isIntakeDocument(value: unknown): value is IntakeDocument {
+  return isRecord(value) &&
+    ['id', 'applicationId', 'fileName', 'contentType'].every(key => isString(value[key])) &&
+    typeof value.fileSize === 'number';
+}
+
+function isClaimData(value: unknown): value is { documents: IntakeDocument[] } {
+  return isRecord(value) && isArrayOf(value.documents, isIntakeDocument);
+}
+
+export class ApiDocumentIntake implements DocumentIntake {
+  private config: ApiDocumentIntakeConfig;
+
+  constructor(config: ApiDocumentIntakeConfig) {
+    this.config = config;
+  }
+
+  async claim(limit: number): Promise<IntakeDocument[]> {
+    const response = await this.send('/api/pipeline/documents/claim', {
+      method: 'POST',
+      body: JSON.stringify({ limit })
+    });
+    if (!response.ok) {
+      throw new Error(`Document claim failed with status ${response.status}`);
+    }
+
+    const { documents } = await readApiData(response, isClaimData, 'document claim');
+    return documents.map(document => ({
+      id: document.id,
+      applicationId: document.applicationId,
+      fileName: document.fileName,
+      contentType: document.contentType,
+      fileSize: document.fileSize
+    }));
+  }
+
+  async download(documentId: string): Promise<Buffer> {
+    const response = await this.send(`/api/pipeline/documents/${encodeURIComponent(documentId)}/content`);
+    if (!response.ok) {
+      throw new Error(`Document download failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async recordExtraction(documentId: string, extraction: IntakeExtraction): Promise<void> {
+    const response = await this.send(`/api/pipeline/documents/${encodeURIComponent(documentId)}/extraction`, {
+      method: 'POST',
+      body: JSON.stringify(extraction)
+    });
+    // 404: deleted meanwhile; 409: no longer claimed, e.g. given up after timing out
+    if (!response.ok && response.status !== 404 && response.status !== 409) {
+      throw new Error(`Document extraction was rejected (${response.status}): ${await readApiErrorMessage(response)}`);
+    }
+  }
+
+  private send(path: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(`${this.config.apiUrl.replace(/\/+$/, '')}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': this.config.apiKey
+      },
+      signal: AbortSignal.timeout(this.config.timeoutMs || DEFAULT_TIMEOUT_MS)
+    });
+  }
+}
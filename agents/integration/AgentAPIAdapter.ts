@@ -32,6 +32,20 @@ export interface LegacyCertificateRequest {
   organizationId: string;
 }
 
+export interface BulkAnalysisProgress {
+  index: number;
+  completed: number;
+  total: number;
+  result: any;
+}
+
+export interface BulkAnalysisOptions {
+  concurrency?: number;
+  onProgress?: (progress: BulkAnalysisProgress) => void;
+}
+
+const DEFAULT_BULK_CONCURRENCY = 4;
+
 export class AgentAPIAdapter {
   private agentSystem: AgentSystem;
   private logger: Logger;
@@ -350,14 +364,41 @@ export class AgentAPIAdapter {
   }
 
   /**
-   * Legacy bulk analysis support
+   * Legacy bulk analysis support. Products are analyzed a few at a time so
+   * large spreadsheets don't flood the agent system; a failing product is
+   * reported in its slot instead of failing the whole batch.
    */
-  public async analyzeBulkIngredients(requests: LegacyAnalysisRequest[]): Promise<any[]> {
-    this.logger.info(`Processing bulk analysis request with ${requests.length} items`);
+  public async analyzeBulkIngredients(
+    requests: LegacyAnalysisRequest[],
+    options: BulkAnalysisOptions = {}
+  ): Promise<any[]> {
+    const concurrency = Math.max(1, options.concurrency || DEFAULT_BULK_CONCURRENCY);
+    this.logger.info(`Processing bulk analysis request with ${requests.length} items`, { concurrency });
+
+    const results: any[] = new Array(requests.length);
+    let next = 0;
+    let completed = 0;
+
+    const worker = async () => {
+      while (next < requests.length) {
+        const index = next++;
+        const request = requests[index];
+
+        try {
+          results[index] = await this.analyzeIngredients(request);
+        } catch (error) {
+          results[index] = {
+            productName: request.productName,
+            error: error instanceof Error ? error.message : String(error)
+          };
+        }
 
-    const results = await Promise.all(
-      requests.map(request => this.analyzeIngredients(request))
-    );
+        completed++;
+        options.onProgress?.({ index, completed, total: requests.length, result: results[index] });
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, requests.length) }, worker));
 
     return results;
   }
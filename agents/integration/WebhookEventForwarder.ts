@@ -0,0 +1,93 @@
+/**
+ * Webhook Event Forwarder
+ *
+ * Relays agent system events to the HalalCheck API, which signs and delivers
+ * them to the organization's registered webhook endpoints
+ */
+
+import { EventBus, Event } from '../core/EventBus';
+import { Logger } from '../core/infrastructure/logging/Logger';
+
+export const FORWARDED_EVENT_TYPES = [
+  'islamic-analysis-completed',
+  'document-processing-completed',
+  'workflow-updated',
+  'certificate-generated'
+];
+
+export interface WebhookForwardingConfig {
+  apiUrl: string;
+  /** Organization API key with webhook permission */
+  apiKey: string;
+  eventTypes?: string[];
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export class WebhookEventForwarder {
+  private eventBus: EventBus;
+  private logger: Logger;
+  private config: WebhookForwardingConfig;
+  private subscriptionIds: string[] = [];
+
+  constructor(eventBus: EventBus, config: WebhookForwardingConfig, logger?: Logger) {
+    this.eventBus = eventBus;
+    this.config = config;
+    this.logger = logger || new Logger('WebhookEventForwarder');
+  }
+
+  public start(): void {
+    if (this.subscriptionIds.length > 0) {
+      return;
+    }
+
+    const eventTypes = (this.config.eventTypes || FORWARDED_EVENT_TYPES)
+      .filter(type => FORWARDED_EVENT_TYPES.includes(type));
+
+    for (const eventType of eventTypes) {
+      // Handlers are awaited by the bus, so forwarding must not hold up other subscribers
+      this.subscriptionIds.push(this.eventBus.subscribe(eventType, (event) => {
+        void this.forward(event);
+      }));
+    }
+
+    this.logger.info('Forwarding agent events to webhooks', { eventTypes });
+  }
+
+  public stop(): void {
+    for (const subscriptionId of this.subscriptionIds) {
+      this.eventBus.unsubscribe(subscriptionId);
+    }
+    this.subscriptionIds = [];
+  }
+
+  private async forward(event: Event): Promise<void> {
+    const url = `${this.config.apiUrl.replace(/\/+$/, '')}/api/webhooks/events`;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-API-Key': this.config.apiKey
+        },
+        body: JSON.stringify({ type: event.type, data: event.data }),
+        signal: AbortSignal.timeout(this.config.timeoutMs || DEFAULT_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        this.logger.warn('Webhook event was rejected by the API', {
+          eventId: event.id,
+          eventType: event.type,
+          status: response.status
+        });
+      }
+    } catch (error) {
+      this.logger.error('Failed to forward event to webhooks', {
+        eventId: event.id,
+        eventType: event.type
+      }, error as Error);
+    }
+  }
+}
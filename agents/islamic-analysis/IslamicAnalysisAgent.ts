@@ -10,6 +10,7 @@ import { EventBus } from '../../core/EventBus';
 import { IslamicKnowledgeBase } from './domain/IslamicKnowledgeBase';
 import { IngredientAnalyzer } from './services/IngredientAnalyzer';
 import { HalalVerificationService } from './services/HalalVerificationService';
+import { CertificationBodyDirectory } from './services/CertificationBodyDirectory';
 import { ScholarlyConsensusService } from './services/ScholarlyConsensusService';
 import { Logger } from '../../core/infrastructure/logging/Logger';
 
@@ -77,12 +78,12 @@ export class IslamicAnalysisAgent implements IAgent {
   private logger: Logger;
   private eventBus: EventBus;
 
-  constructor(eventBus: EventBus, logger: Logger) {
+  constructor(eventBus: EventBus, logger: Logger, certificationBodies?: CertificationBodyDirectory) {
     this.eventBus = eventBus;
     this.logger = logger;
     this.knowledgeBase = new IslamicKnowledgeBase();
     this.ingredientAnalyzer = new IngredientAnalyzer(this.knowledgeBase, this.logger);
-    this.verificationService = new HalalVerificationService(this.logger);
+    this.verificationService = new HalalVerificationService(this.logger, certificationBodies);
     this.consensusService = new ScholarlyConsensusService(this.logger);
     
     this.initialize();
@@ -0,0 +1,207 @@
+/**
+ * Certification Body Directory
+ *
+ * Which halal certification bodies exist and which export-market
+ * authorities (JAKIM, BPJPH, the GCC Accreditation Center, ...) recognize
+ * their certificates. The API directory reads the directory maintained in
+ * the HalalCheck API, including its recognition matrix; the in-memory
+ * directory is for development and tests and lists a few well-known bodies
+ * without recognitions.
+ */
+
+import { isArrayOf, isRecord, isString, readApiData } from '../../core/ApiResponse';
+
+export type CertificationBodyStatus = 'active' | 'suspended' | 'withdrawn';
+
+export interface CertificationBody {
+  id: string;
+  name: string;
+  aliases: string[];
+  country: string;
+  standards: string[];
+  accreditation: string;
+  status: CertificationBodyStatus;
+  recognizedBy: string[]; // Authorities currently recognizing the body's certificates
+  website?: string;
+  logoUrl?: string;
+}
+
+export interface CertificationBodyDirectory {
+  list(): Promise<CertificationBody[]>;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * The directory entry a certificate issuer name refers to, by name or alias
+ */
+export function findCertificationBody(bodies: CertificationBody[], issuer: string): CertificationBody | undefined {
+  const name = normalizeName(issuer);
+  return bodies.find(body =>
+    normalizeName(body.name) === name || body.aliases.some(alias => normalizeName(alias) === name)
+  );
+}
+
+const DEVELOPMENT_BODIES: CertificationBody[] = [
+  {
+    id: 'hfa',
+    name: 'Halal Food Authority (HFA)',
+    aliases: ['Halal Food Authority', 'HFA'],
+    country: 'UK',
+    standards: ['HFA Standard', 'EU 993:2015'],
+    accreditation: '',
+    status: 'active',
+    recognizedBy: [],
+    website: 'https://halalfoodauthority.com'
+  },
+  {
+    id: 'isna',
+    name: 'Islamic Society of North America (ISNA)',
+    aliases: ['Islamic Society of North America', 'ISNA'],
+    country: 'USA',
+    standards: ['ISNA Standard'],
+    accreditation: '',
+    status: 'active',
+    recognizedBy: [],
+    website: 'https://www.isnacanada.com'
+  },
+  {
+    id: 'jakim',
+    name: 'JAKIM (Department of Islamic Development Malaysia)',
+    aliases: ['JAKIM'],
+    country: 'Malaysia',
+    standards: ['MS 1500:2019', 'OIC/SMIIC 1:2019'],
+    accreditation: '',
+    status: 'active',
+    recognizedBy: [],
+    website: 'https://www.halal.gov.my'
+  },
+  {
+    id: 'hce',
+    name: 'Halal Certification Europe (HCE)',
+    aliases: ['Halal Certification Europe', 'HCE'],
+    country: 'Netherlands',
+    standards: ['GSO 993:2015', 'HCE Standard'],
+    accreditation: '',
+    status: 'active',
+    recognizedBy: [],
+    website: 'https://halalcertificationeurope.com'
+  }
+];
+
+export class InMemoryCertificationBodyDirectory implements CertificationBodyDirectory {
+  private bodies: CertificationBody[];
+
+  constructor(bodies: CertificationBody[] = DEVELOPMENT_BODIES) {
+    this.bodies = bodies;
+  }
+
+  async list(): Promise<CertificationBody[]> {
+    return [...this.bodies];
+  }
+}
+
+export interface ApiCertificationBodyDirectoryConfig {
+  apiUrl: string;
+  /** Organization API key */
+  apiKey: string;
+  timeoutMs?: number;
+  /** How long a fetched directory is reused */
+  cacheTtlMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000;
+const BODY_STATUSES: string[] = ['active', 'suspended', 'withdrawn'];
+
+/**
+ * Directory entry as the API returns it, with every recognition of the body
+ */
+interface ApiCertificationBody {
+  id: string;
+  name: string;
+  aliases?: string[] | null;
+  country: string;
+  standards?: string[] | null;
+  accreditation: string;
+  status: CertificationBodyStatus;
+  recognitions?: ApiRecognition[] | null;
+  website?: string | null;
+  logoUrl?: string | null;
+}
+
+interface ApiRecognition {
+  authority: string;
+  current: boolean;
+}
+
+function isOptionalStringArray(value: unknown): boolean {
+  return value === undefined || value === null || isArrayOf(value, isString);
+}
+
+function isApiRecognition(value: unknown): value is ApiRecognition {
+  return isRecord(value) && isString(value.authority) && typeof value.current === 'boolean';
+}
+
+function isApiCertificationBody(value: unknown): value is ApiCertificationBody {
+  return isRecord(value) &&
+    ['id', 'name', 'country', 'accreditation'].every(key => isString(value[key])) &&
+    isString(value.status) && BODY_STATUSES.includes(value.status) &&
+    isOptionalStringArray(value.aliases) && isOptionalStringArray(value.standards) &&
+    (value.recognitions === undefined || value.recognitions === null || isArrayOf(value.recognitions, isApiRecognition));
+}
+
+function isCertificationBodyListData(value: unknown): value is { bodies: ApiCertificationBody[] } {
+  return isRecord(value) && isArrayOf(value.bodies, isApiCertificationBody);
+}
+
+export class ApiCertificationBodyDirectory implements CertificationBodyDirectory {
+  private config: ApiCertificationBodyDirectoryConfig;
+  private cache?: { bodies: CertificationBody[]; fetchedAt: number };
+
+  constructor(config: ApiCertificationBodyDirectoryConfig) {
+    this.config = config;
+  }
+
+  async list(): Promise<CertificationBody[]> {
+    const ttl = this.config.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    if (this.cache && Date.now() - this.cache.fetchedAt < ttl) {
+      return [...this.cache.bodies];
+    }
+
+    const response = await fetch(`${this.config.apiUrl.replace(/\/+$/, '')}/api/certification-bodies`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': this.config.apiKey
+      },
+      signal: AbortSignal.timeout(this.config.timeoutMs || DEFAULT_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Certification body directory lookup failed with status ${response.status}`);
+    }
+
+    const data = await readApiData(response, isCertificationBodyListData, 'certification body directory');
+    const bodies = data.bodies.map(entry => this.toBody(entry));
+    this.cache = { bodies, fetchedAt: Date.now() };
+    return [...bodies];
+  }
+
+  private toBody(entry: ApiCertificationBody): CertificationBody {
+    return {
+      id: entry.id,
+      name: entry.name,
+      aliases: entry.aliases || [],
+      country: entry.country,
+      standards: entry.standards || [],
+      accreditation: entry.accreditation,
+      status: entry.status,
+      recognizedBy: (entry.recognitions || [])
+        .filter(recognition => recognition.current)
+        .map(recognition => recognition.authority),
+      ...(entry.website && { website: entry.website }),
+      ...(entry.logoUrl && { logoUrl: entry.logoUrl })
+    };
+  }
+}
@@ -6,6 +6,12 @@
 
 import { IslamicReference } from '../domain/IslamicKnowledgeBase';
 import { Logger } from '../../../core/infrastructure/logging/Logger';
+import {
+  CertificationBody,
+  CertificationBodyDirectory,
+  InMemoryCertificationBodyDirectory,
+  findCertificationBody
+} from './CertificationBodyDirectory';
 
 export interface VerificationResult {
   confidence: number;
@@ -15,63 +21,15 @@ export interface VerificationResult {
   notes?: string[];
 }
 
-export interface CertificationBody {
-  name: string;
-  country: string;
-  standards: string[];
-  credibility: number;
-  website?: string;
-}
-
 export class HalalVerificationService {
   private logger: Logger;
-  private certificationBodies: CertificationBody[];
+  private certificationBodies: CertificationBodyDirectory;
   private verificationCache: Map<string, VerificationResult>;
 
-  constructor(logger?: Logger) {
+  constructor(logger?: Logger, certificationBodies?: CertificationBodyDirectory) {
     this.logger = logger || new Logger('HalalVerificationService');
+    this.certificationBodies = certificationBodies || new InMemoryCertificationBodyDirectory();
     this.verificationCache = new Map();
-    this.initializeCertificationBodies();
-  }
-
-  private initializeCertificationBodies(): void {
-    this.certificationBodies = [
-      {
-        name: 'Halal Food Authority (HFA)',
-        country: 'UK',
-        standards: ['HFA Standard', 'EU 993:2015'],
-        credibility: 95,
-        website: 'https://halalfoodauthority.com'
-      },
-      {
-        name: 'Islamic Society of North America (ISNA)',
-        country: 'USA',
-        standards: ['ISNA Standard'],
-        credibility: 90,
-        website: 'https://www.isnacanada.com'
-      },
-      {
-        name: 'JAKIM (Department of Islamic Development Malaysia)',
-        country: 'Malaysia',
-        standards: ['MS 1500:2019', 'OIC/SMIIC 1:2019'],
-        credibility: 98,
-        website: 'https://www.halal.gov.my'
-      },
-      {
-        name: 'Halal Certification Europe (HCE)',
-        country: 'Netherlands',
-        standards: ['GSO 993:2015', 'HCE Standard'],
-        credibility: 85,
-        website: 'https://halalcertificationeurope.com'
-      },
-      {
-        name: 'Emirates Authority for Standardization and Metrology (ESMA)',
-        country: 'UAE',
-        standards: ['UAE.S GSO 993:2015', 'ESMA Standard'],
-        credibility: 92,
-        website: 'https://www.esma.gov.ae'
-      }
-    ];
   }
 
   async verifyIngredient(ingredientName: string): Promise<VerificationResult | null> {
@@ -211,8 +169,15 @@ export class HalalVerificationService {
     return (now - resultTime) < cacheValidityPeriod;
   }
 
-  getCertificationBodies(): CertificationBody[] {
-    return [...this.certificationBodies].sort((a, b) => b.credibility - a.credibility);
+  /**
+   * Active certification bodies, those recognized by the most export-market
+   * authorities first
+   */
+  async getCertificationBodies(): Promise<CertificationBody[]> {
+    const bodies = await this.certificationBodies.list();
+    return bodies
+      .filter(body => body.status === 'active')
+      .sort((a, b) => b.recognizedBy.length - a.recognizedBy.length || a.name.localeCompare(b.name));
   }
 
   async requestCertificationBodyVerification(
@@ -222,17 +187,21 @@ export class HalalVerificationService {
     // This would make actual API calls to certification bodies
     // For now, return a simulated response
     
-    const body = this.certificationBodies.find(cb => cb.name === certificationBody);
+    const body = findCertificationBody(await this.certificationBodies.list(), certificationBody);
     if (!body) {
       this.logger.warn(`Unknown certification body: ${certificationBody}`);
       return null;
     }
+    if (body.status !== 'active') {
+      this.logger.warn(`Certification body ${body.name} is ${body.status}`);
+      return null;
+    }
 
-    this.logger.info(`Requesting verification from ${certificationBody} for ${ingredientName}`);
+    this.logger.info(`Requesting verification from ${body.name} for ${ingredientName}`);
     
-    // Simulated verification result
+    // Simulated verification result; bodies no export-market authority recognizes carry less weight
     return {
-      confidence: Math.min(body.credibility, 85),
+      confidence: body.recognizedBy.length > 0 ? 85 : 60,
       references: [
         {
           source: 'Contemporary_Fatwa',
@@ -243,7 +212,13 @@ export class HalalVerificationService {
       ],
       verificationMethod: 'certification_body',
       lastVerified: new Date(),
-      notes: [`Verified by ${body.name}`, `Standards: ${body.standards.join(', ')}`]
+      notes: [
+        `Verified by ${body.name}`,
+        `Standards: ${body.standards.join(', ')}`,
+        body.recognizedBy.length > 0
+          ? `Recognized by: ${body.recognizedBy.join(', ')}`
+          : 'Not recognized by any export-market authority in the directory'
+      ]
     };
   }
 
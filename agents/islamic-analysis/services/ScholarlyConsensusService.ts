@@ -1,11 +1,13 @@
 /**
  * Scholarly Consensus Service
  * 
- * Provides madhab-specific rulings and scholarly consensus on ingredient permissibility
+ * Provides madhab-specific rulings and scholarly consensus on ingredient permissibility.
+ * The rulings are a copy of those the HalalCheck API applies during analysis.
  */
 
 import { IslamicReference } from '../domain/IslamicKnowledgeBase';
 import { Logger } from '../../../core/infrastructure/logging/Logger';
+import madhabRulingData from '../data/madhab-rulings.json';
 
 export interface MadhabRuling {
   madhab: 'Hanafi' | 'Maliki' | 'Shafi' | 'Hanbali';
@@ -24,6 +26,11 @@ export interface ConsensusAnalysis {
   alternativeOpinions?: string[];
 }
 
+const MADHAB_RULINGS = madhabRulingData.rulings as Record<string, MadhabRuling[]>;
+
+// Checked in order; the first category whose keywords match wins
+const CATEGORY_KEYWORDS: Record<string, string[]> = madhabRulingData.categoryKeywords;
+
 export class ScholarlyConsensusService {
   private logger: Logger;
   private madhabRulings: Map<string, MadhabRuling[]>;
@@ -35,188 +42,7 @@ export class ScholarlyConsensusService {
   }
 
   private initializeMadhabRulings(): void {
-    // Initialize with known madhab-specific rulings
-    this.addMadhabRulings('insects', [
-      {
-        madhab: 'Hanafi',
-        ruling: 'HARAM',
-        confidence: 90,
-        reasoning: 'Hanafi school generally prohibits consumption of insects.',
-        references: [
-          {
-            source: 'Scholarly_Consensus',
-            reference: 'Al-Hidayah by Al-Marghinani',
-            translation: 'Insects are considered impure and their consumption is prohibited.',
-            school: 'Hanafi'
-          }
-        ],
-        scholars: ['Al-Marghinani', 'Ibn Abidin']
-      },
-      {
-        madhab: 'Maliki',
-        ruling: 'MASHBOOH',
-        confidence: 70,
-        reasoning: 'Maliki school permits certain insects if they are not harmful.',
-        references: [
-          {
-            source: 'Scholarly_Consensus',
-            reference: 'Al-Mudawwana by Imam Malik',
-            translation: 'Some insects may be permissible if they are not considered harmful.',
-            school: 'Maliki'
-          }
-        ],
-        scholars: ['Imam Malik', 'Al-Qurtubi']
-      },
-      {
-        madhab: 'Shafi',
-        ruling: 'HALAL',
-        confidence: 80,
-        reasoning: 'Shafi school permits consumption of certain insects like locusts.',
-        references: [
-          {
-            source: 'Hadith',
-            reference: 'Sunan Ibn Majah 3218',
-            arabic: 'أُحِلَّتْ لَنَا مَيْتَتَانِ وَدَمَانِ السَّمَكُ وَالْجَرَادُ وَالْكَبِدُ وَالطِّحَالُ',
-            translation: 'Two types of dead animals and two types of blood have been made lawful for us: fish and locusts, liver and spleen.',
-            school: 'Shafi'
-          }
-        ],
-        scholars: ['Imam Al-Shafi', 'Al-Nawawi']
-      },
-      {
-        madhab: 'Hanbali',
-        ruling: 'MASHBOOH',
-        confidence: 75,
-        reasoning: 'Hanbali school has mixed opinions on insects.',
-        references: [
-          {
-            source: 'Scholarly_Consensus',
-            reference: 'Al-Mughni by Ibn Qudamah',
-            translation: 'Different opinions exist within the Hanbali school regarding insect consumption.',
-            school: 'Hanbali'
-          }
-        ],
-        scholars: ['Ibn Qudamah', 'Ibn Taymiyyah']
-      }
-    ]);
-
-    this.addMadhabRulings('alcohol in food processing', [
-      {
-        madhab: 'Hanafi',
-        ruling: 'HARAM',
-        confidence: 95,
-        reasoning: 'Hanafi school strictly prohibits alcohol in any form.',
-        references: [
-          {
-            source: 'Scholarly_Consensus',
-            reference: 'Contemporary Hanafi Rulings',
-            translation: 'Any amount of alcohol renders the entire product impermissible.',
-            school: 'Hanafi'
-          }
-        ]
-      },
-      {
-        madhab: 'Maliki',
-        ruling: 'MASHBOOH',
-        confidence: 70,
-        reasoning: 'Maliki school may allow trace amounts if transformed.',
-        references: [
-          {
-            source: 'Scholarly_Consensus',
-            reference: 'Maliki Contemporary Fatawa',
-            translation: 'Alcohol used in processing may be permissible if it undergoes transformation.',
-            school: 'Maliki'
-          }
-        ]
-      },
-      {
-        madhab: 'Shafi',
-        ruling: 'MASHBOOH',
-        confidence: 65,
-        reasoning: 'Shafi school considers intent and final alcohol content.',
-        references: [
-          {
-            source: 'Scholarly_Consensus',
-            reference: 'Contemporary Shafi Rulings',
-            translation: 'Alcohol for processing purposes may be permissible if it does not intoxicate.',
-            school: 'Shafi'
-          }
-        ]
-      },
-      {
-        madhab: 'Hanbali',
-        ruling: 'HARAM',
-        confidence: 90,
-        reasoning: 'Hanbali school generally prohibits alcohol in food.',
-        references: [
-          {
-            source: 'Scholarly_Consensus',
-            reference: 'Hanbali Contemporary Opinions',
-            translation: 'Alcohol in food processing is generally not permissible.',
-            school: 'Hanbali'
-          }
-        ]
-      }
-    ]);
-
-    this.addMadhabRulings('non-muslim slaughter', [
-      {
-        madhab: 'Hanafi',
-        ruling: 'MASHBOOH',
-        confidence: 60,
-        reasoning: 'Hanafi school permits meat of People of the Book with conditions.',
-        references: [
-          {
-            source: 'Quran',
-            reference: 'Q5:5',
-            translation: 'The food of those who were given the Scripture is lawful for you.',
-            school: 'Hanafi'
-          }
-        ]
-      },
-      {
-        madhab: 'Maliki',
-        ruling: 'MASHBOOH',
-        confidence: 65,
-        reasoning: 'Maliki school allows meat of People of the Book with proper slaughter.',
-        references: [
-          {
-            source: 'Scholarly_Consensus',
-            reference: 'Maliki Fiqh Rulings',
-            translation: 'Meat from People of the Book is permissible if slaughtered properly.',
-            school: 'Maliki'
-          }
-        ]
-      },
-      {
-        madhab: 'Shafi',
-        ruling: 'MASHBOOH',
-        confidence: 70,
-        reasoning: 'Shafi school permits with verification of proper slaughter.',
-        references: [
-          {
-            source: 'Scholarly_Consensus',
-            reference: 'Shafi Contemporary Rulings',
-            translation: 'Meat from Christians and Jews is permissible with proper slaughter verification.',
-            school: 'Shafi'
-          }
-        ]
-      },
-      {
-        madhab: 'Hanbali',
-        ruling: 'HARAM',
-        confidence: 85,
-        reasoning: 'Hanbali school requires Muslim slaughter for certainty.',
-        references: [
-          {
-            source: 'Scholarly_Consensus',
-            reference: 'Hanbali Strict Interpretation',
-            translation: 'Preference for Muslim slaughter to ensure proper Islamic requirements.',
-            school: 'Hanbali'
-          }
-        ]
-      }
-    ]);
+    Object.entries(MADHAB_RULINGS).forEach(([ingredient, rulings]) => this.addMadhabRulings(ingredient, rulings));
   }
 
   private addMadhabRulings(ingredient: string, rulings: MadhabRuling[]): void {
@@ -291,34 +117,10 @@ export class ScholarlyConsensusService {
   }
 
   private findCategoryMatch(ingredient: string): string | null {
-    const categories = [
-      'insects',
-      'alcohol in food processing',
-      'non-muslim slaughter',
-      'marine animals',
-      'synthetic compounds'
-    ];
-
-    for (const category of categories) {
-      if (this.isIngredientInCategory(ingredient, category)) {
-        return category;
-      }
-    }
-
-    return null;
-  }
-
-  private isIngredientInCategory(ingredient: string, category: string): boolean {
-    const categoryKeywords = {
-      'insects': ['cochineal', 'carmine', 'shellac', 'insect', 'bug'],
-      'alcohol in food processing': ['ethanol', 'alcohol', 'vanilla extract', 'wine'],
-      'non-muslim slaughter': ['beef', 'chicken', 'lamb', 'meat', 'poultry'],
-      'marine animals': ['fish', 'seafood', 'shrimp', 'crab', 'lobster'],
-      'synthetic compounds': ['artificial', 'synthetic', 'manufactured']
-    };
-
-    const keywords = categoryKeywords[category] || [];
-    return keywords.some(keyword => ingredient.includes(keyword));
+    const category = Object.entries(CATEGORY_KEYWORDS).find(([, keywords]) =>
+      keywords.some(keyword => ingredient.includes(keyword))
+    );
+    return category ? category[0] : null;
   }
 
   private determineConsensusLevel(rulings: MadhabRuling[]): ConsensusAnalysis['consensusLevel'] {
@@ -0,0 +1,27 @@
+/**
+ * HalalCheck Agents - Jest Configuration
+ *
+ * Test configuration for the agent system
+ */
+
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: [
+    '**/?(*.)+(spec|test).ts'
+  ],
+  transform: {
+    // Transpile only; type errors are reported by tsc, not by failing suites
+    '^.+\\.ts$': ['ts-jest', { isolatedModules: true }],
+  },
+  testTimeout: 30000,
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1'
+  },
+  testPathIgnorePatterns: [
+    '/node_modules/',
+    '/dist/'
+  ],
+  verbose: true
+}
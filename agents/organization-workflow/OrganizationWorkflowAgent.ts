@@ -7,6 +7,10 @@
 import { IAgent, AgentInput, AgentOutput, AgentCapability } from '../core/IAgent';
 import { EventBus } from '../core/EventBus';
 import { Logger } from '../core/infrastructure/logging/Logger';
+import { InMemoryTaskInbox, TaskInbox, WorkflowTask } from './services/TaskInbox';
+
+// How often decided tasks are picked up from the inbox
+const DECISION_POLL_INTERVAL_MS = 30000;
 
 export interface OrganizationConfig {
   id: string;
@@ -47,7 +51,8 @@ export interface WorkflowStage {
   validationRules?: ValidationRule[];
   assignees?: string[]; // roles that can handle this stage
   estimatedDuration?: number; // in hours
-  nextStages: string[]; // possible next stages
+  nextStages: string[]; // possible next stages; the first is taken on approval
+  rejectionStage?: string; // where a rejected task sends the workflow
 }
 
 export interface WorkflowTrigger {
@@ -141,12 +146,15 @@ export class OrganizationWorkflowAgent implements IAgent {
   private eventBus: EventBus;
   private organizationConfigs: Map<string, OrganizationConfig>;
   private workflowInstances: Map<string, WorkflowInstance>;
+  private taskInbox: TaskInbox;
+  private decisionTimer?: NodeJS.Timeout;
 
-  constructor(eventBus: EventBus, logger: Logger) {
+  constructor(eventBus: EventBus, logger: Logger, taskInbox?: TaskInbox) {
     this.eventBus = eventBus;
     this.logger = logger;
     this.organizationConfigs = new Map();
     this.workflowInstances = new Map();
+    this.taskInbox = taskInbox || new InMemoryTaskInbox();
     
     this.initialize();
   }
@@ -155,6 +163,9 @@ export class OrganizationWorkflowAgent implements IAgent {
     this.logger.info(`Initializing ${this.name} v${this.version}`);
     this.initializeDefaultConfigurations();
     this.subscribeToEvents();
+
+    this.decisionTimer = setInterval(() => { void this.applyTaskDecisions(); }, DECISION_POLL_INTERVAL_MS);
+    this.decisionTimer.unref();
   }
 
   private initializeDefaultConfigurations(): void {
@@ -259,7 +270,8 @@ export class OrganizationWorkflowAgent implements IAgent {
           type: 'manual',
           assignees: ['reviewer', 'manager'],
           estimatedDuration: 24,
-          nextStages: ['islamic-analysis', 'request-additional-docs']
+          nextStages: ['islamic-analysis', 'request-additional-docs'],
+          rejectionStage: 'request-additional-docs'
         },
         {
           id: 'request-additional-docs',
@@ -283,7 +295,8 @@ export class OrganizationWorkflowAgent implements IAgent {
           type: 'approval',
           assignees: ['islamic-scholar', 'senior-reviewer'],
           estimatedDuration: 8,
-          nextStages: ['facility-inspection', 'request-clarification']
+          nextStages: ['facility-inspection', 'request-additional-docs'],
+          rejectionStage: 'request-additional-docs'
         },
         {
           id: 'facility-inspection',
@@ -301,7 +314,8 @@ export class OrganizationWorkflowAgent implements IAgent {
           type: 'approval',
           assignees: ['manager', 'director'],
           estimatedDuration: 16,
-          nextStages: ['certificate-generation', 'application-rejected']
+          nextStages: ['certificate-generation', 'application-rejected'],
+          rejectionStage: 'application-rejected'
         },
         {
           id: 'certificate-generation',
@@ -390,7 +404,8 @@ export class OrganizationWorkflowAgent implements IAgent {
           type: 'approval',
           assignees: ['qa-manager', 'halal-coordinator'],
           estimatedDuration: 8,
-          nextStages: ['prototype-testing', 'recipe-revision']
+          nextStages: ['prototype-testing', 'recipe-revision'],
+          rejectionStage: 'recipe-revision'
         },
         {
           id: 'recipe-revision',
@@ -484,6 +499,7 @@ export class OrganizationWorkflowAgent implements IAgent {
       switch (input.action) {
         case 'create':
           workflowInstance = this.createWorkflowInstance(input, workflow);
+          await this.openStageTask(workflowInstance, workflow);
           break;
         case 'advance':
           workflowInstance = await this.advanceWorkflow(workflowInstance, input);
@@ -492,9 +508,11 @@ export class OrganizationWorkflowAgent implements IAgent {
           return await this.validateWorkflowData(workflowInstance, input);
         case 'complete':
           workflowInstance = this.completeWorkflow(workflowInstance);
+          await this.taskInbox.cancelInstance(workflowInstance.id);
           break;
         case 'cancel':
           workflowInstance = this.cancelWorkflow(workflowInstance);
+          await this.taskInbox.cancelInstance(workflowInstance.id);
           break;
       }
 
@@ -592,15 +610,129 @@ export class OrganizationWorkflowAgent implements IAgent {
       action: 'advanced'
     });
 
+    // Tasks of the stage that was left are moot, whoever advanced the workflow
+    if (this.needsTask(currentStage)) {
+      await this.taskInbox.cancelInstance(instance.id);
+    }
+
     // Trigger automated actions if the new stage is automated
     const newStage = workflow.stages.find(s => s.id === targetStage)!;
     if (newStage.type === 'automated') {
       await this.executeAutomatedStage(instance, newStage);
     }
+    await this.openStageTask(instance, workflow);
 
     return instance;
   }
 
+  /**
+   * Manual and approval stages that name assignee roles are handed to people
+   */
+  private needsTask(stage: WorkflowStage): boolean {
+    return (stage.type === 'manual' || stage.type === 'approval') && !!stage.assignees?.length;
+  }
+
+  private async openStageTask(instance: WorkflowInstance, workflow: WorkflowDefinition): Promise<void> {
+    const stage = workflow.stages.find(s => s.id === instance.currentStage);
+    if (!stage || !this.needsTask(stage)) {
+      return;
+    }
+
+    const task = await this.taskInbox.open({
+      workflowInstanceId: instance.id,
+      workflowId: workflow.id,
+      stageId: stage.id,
+      type: stage.type === 'approval' ? 'approval' : 'manual',
+      title: [stage.name, instance.data.productName].filter(Boolean).join(': '),
+      description: stage.description,
+      data: instance.data,
+      assigneeRoles: stage.assignees || [],
+      ...(stage.nextStages[0] && { approveStage: stage.nextStages[0] }),
+      ...(stage.rejectionStage && { rejectStage: stage.rejectionStage }),
+      ...(stage.estimatedDuration && { durationHours: Math.ceil(stage.estimatedDuration) })
+    });
+
+    this.logger.info(`Opened task for stage: ${stage.id}`, { instanceId: instance.id, taskId: task.id });
+    this.eventBus.emit('workflow-task-opened', {
+      organizationId: instance.organizationId,
+      workflowInstanceId: instance.id,
+      taskId: task.id,
+      stageId: stage.id,
+      assigneeRoles: task.assigneeRoles
+    });
+  }
+
+  /**
+   * Advance workflows on decided tasks. Decisions for instances this process
+   * does not hold, or that moved on in the meantime, are acknowledged with
+   * the reason so they are not retried forever.
+   */
+  public async applyTaskDecisions(): Promise<number> {
+    let decided: WorkflowTask[];
+    try {
+      decided = await this.taskInbox.pendingDecisions();
+    } catch (error) {
+      this.logger.warn('Failed to fetch workflow task decisions', { error: error instanceof Error ? error.message : String(error) });
+      return 0;
+    }
+
+    let applied = 0;
+    for (const task of decided) {
+      try {
+        const failure = await this.applyTaskDecision(task);
+        await this.taskInbox.acknowledge(task.id, failure);
+        if (!failure) {
+          applied++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to apply decision of task ${task.id}`, undefined, error instanceof Error ? error : undefined);
+      }
+    }
+    return applied;
+  }
+
+  private async applyTaskDecision(task: WorkflowTask): Promise<string | undefined> {
+    const instance = this.workflowInstances.get(task.workflowInstanceId);
+    if (!instance) {
+      return 'Workflow instance not found';
+    }
+    if (instance.currentStage !== task.stageId) {
+      return `Workflow moved on to ${instance.currentStage}`;
+    }
+
+    const targetStage = task.status === 'approved' ? task.approveStage : task.rejectStage;
+    const decisions = Array.isArray(instance.data.decisions) ? instance.data.decisions : [];
+    await this.advanceWorkflow(instance, {
+      agentId: this.id,
+      requestId: `task_${task.id}`,
+      timestamp: new Date(),
+      context: { instanceId: instance.id },
+      organizationId: instance.organizationId,
+      workflowId: instance.workflowId,
+      action: 'advance',
+      targetStage,
+      userId: task.decidedBy,
+      data: {
+        decisions: [...decisions, {
+          stage: task.stageId,
+          decision: task.status,
+          reason: task.decisionReason,
+          decidedBy: task.decidedBy,
+          decidedAt: task.decidedAt
+        }]
+      }
+    });
+
+    this.logger.info(`Applied ${task.status} decision for stage: ${task.stageId}`, { instanceId: instance.id, taskId: task.id });
+    this.eventBus.emit('workflow-updated', {
+      organizationId: instance.organizationId,
+      workflowInstanceId: instance.id,
+      currentStage: instance.currentStage,
+      data: instance.data
+    });
+    return undefined;
+  }
+
   private async executeAutomatedStage(instance: WorkflowInstance, stage: WorkflowStage): Promise<void> {
     this.logger.info(`Executing automated stage: ${stage.id}`);
     
@@ -778,6 +910,10 @@ export class OrganizationWorkflowAgent implements IAgent {
 
   public async shutdown(): Promise<void> {
     this.logger.info(`Shutting down ${this.name}`);
+    if (this.decisionTimer) {
+      clearInterval(this.decisionTimer);
+      this.decisionTimer = undefined;
+    }
     // Save workflow instances if needed
     // Cleanup resources
   }
@@ -0,0 +1,278 @@
+/**
+ * Task Inbox
+ *
+ * Where the workflow agent hands manual and approval stages to people. The
+ * API inbox opens tasks in the HalalCheck API, which routes them to users by
+ * workflow role, records claims, comments and decisions, and escalates tasks
+ * left open past the stage's estimated duration; the agent polls it for
+ * decisions to apply. The in-memory inbox is for development and tests:
+ * tasks are decided through the agent and do not escalate.
+ */
+
+import * as crypto from 'crypto';
+import { isArrayOf, isRecord, isString, readApiData, readApiErrorMessage } from '../../core/ApiResponse';
+
+export type WorkflowTaskStatus = 'open' | 'claimed' | 'approved' | 'rejected' | 'cancelled';
+
+export type WorkflowTaskDecision = 'approved' | 'rejected';
+
+export interface WorkflowTaskRequest {
+  workflowInstanceId: string;
+  workflowId: string;
+  stageId: string;
+  type: 'manual' | 'approval';
+  title: string;
+  description?: string;
+  data: Record<string, any>;
+  assigneeRoles: string[];
+  approveStage?: string;
+  rejectStage?: string;
+  durationHours?: number;
+}
+
+export interface WorkflowTask extends WorkflowTaskRequest {
+  id: string;
+  status: WorkflowTaskStatus;
+  claimedBy?: string;
+  decidedBy?: string;
+  decidedAt?: Date;
+  decisionReason?: string;
+  createdAt: Date;
+}
+
+export interface TaskInbox {
+  /** Open a task for a stage; an open task for the same stage is returned instead */
+  open(request: WorkflowTaskRequest): Promise<WorkflowTask>;
+  /** Decided tasks whose workflow has not advanced yet */
+  pendingDecisions(): Promise<WorkflowTask[]>;
+  /** Record that the decision was applied, or why it could not be */
+  acknowledge(taskId: string, error?: string): Promise<void>;
+  /** Close the open tasks of a workflow instance */
+  cancelInstance(workflowInstanceId: string): Promise<void>;
+}
+
+interface InMemoryTask extends WorkflowTask {
+  acknowledged: boolean;
+  comments: Array<{ userId: string; body: string; createdAt: Date }>;
+}
+
+export class InMemoryTaskInbox implements TaskInbox {
+  private tasks = new Map<string, InMemoryTask>();
+
+  async open(request: WorkflowTaskRequest): Promise<WorkflowTask> {
+    const existing = Array.from(this.tasks.values()).find(task =>
+      task.workflowInstanceId === request.workflowInstanceId &&
+      task.stageId === request.stageId &&
+      (task.status === 'open' || task.status === 'claimed')
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const task: InMemoryTask = {
+      ...request,
+      id: crypto.randomUUID(),
+      status: 'open',
+      createdAt: new Date(),
+      acknowledged: false,
+      comments: []
+    };
+    this.tasks.set(task.id, task);
+    return task;
+  }
+
+  async pendingDecisions(): Promise<WorkflowTask[]> {
+    return Array.from(this.tasks.values())
+      .filter(task => (task.status === 'approved' || task.status === 'rejected') && !task.acknowledged);
+  }
+
+  async acknowledge(taskId: string): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (task) {
+      task.acknowledged = true;
+    }
+  }
+
+  async cancelInstance(workflowInstanceId: string): Promise<void> {
+    for (const task of this.tasks.values()) {
+      if (task.workflowInstanceId === workflowInstanceId && (task.status === 'open' || task.status === 'claimed')) {
+        task.status = 'cancelled';
+      }
+    }
+  }
+
+  /**
+   * Tasks routed to any of the roles, or to anyone when the stage names none
+   */
+  async list(roles?: string[]): Promise<WorkflowTask[]> {
+    return Array.from(this.tasks.values()).filter(task =>
+      !roles || task.assigneeRoles.length === 0 || task.assigneeRoles.some(role => roles.includes(role))
+    );
+  }
+
+  async claim(taskId: string, userId: string): Promise<WorkflowTask> {
+    const task = this.requireTask(taskId);
+    if (task.status === 'claimed' && task.claimedBy === userId) {
+      return task;
+    }
+    if (task.status !== 'open') {
+      throw new Error(`Task ${taskId} is ${task.status}`);
+    }
+    task.status = 'claimed';
+    task.claimedBy = userId;
+    return task;
+  }
+
+  async comment(taskId: string, userId: string, body: string): Promise<void> {
+    this.requireTask(taskId).comments.push({ userId, body, createdAt: new Date() });
+  }
+
+  async decide(taskId: string, userId: string, decision: WorkflowTaskDecision, reason?: string): Promise<WorkflowTask> {
+    const task = this.requireTask(taskId);
+    if (task.status !== 'claimed' || task.claimedBy !== userId) {
+      throw new Error(`Task ${taskId} must be claimed by ${userId} before it is decided`);
+    }
+    if (decision === 'rejected' && !reason) {
+      throw new Error('A reason is required to reject a task');
+    }
+    if (decision === 'rejected' && !task.rejectStage) {
+      throw new Error(`Stage ${task.stageId} has no rejection path`);
+    }
+
+    task.status = decision;
+    task.decidedBy = userId;
+    task.decidedAt = new Date();
+    task.decisionReason = reason;
+    return task;
+  }
+
+  private requireTask(taskId: string): InMemoryTask {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+    return task;
+  }
+}
+
+export interface ApiTaskInboxConfig {
+  apiUrl: string;
+  /** Organization API key with workflow permission */
+  apiKey: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Task as the API returns it: upper-case type and status, dates serialized,
+ * unset optional fields omitted
+ */
+interface ApiWorkflowTask extends Omit<WorkflowTask, 'type' | 'status' | 'decidedAt' | 'createdAt'> {
+  type: string;
+  status: string;
+  decidedAt?: string;
+  createdAt: string;
+}
+
+function isApiWorkflowTask(value: unknown): value is ApiWorkflowTask {
+  return isRecord(value) &&
+    ['id', 'workflowInstanceId', 'workflowId', 'stageId', 'type', 'title', 'status', 'createdAt'].every(key => isString(value[key])) &&
+    isArrayOf(value.assigneeRoles, isString) &&
+    (value.decidedAt === undefined || isString(value.decidedAt));
+}
+
+function isTaskData(value: unknown): value is { task: ApiWorkflowTask } {
+  return isRecord(value) && isApiWorkflowTask(value.task);
+}
+
+function isTaskListData(value: unknown): value is { tasks: ApiWorkflowTask[] } {
+  return isRecord(value) && isArrayOf(value.tasks, isApiWorkflowTask);
+}
+
+export class ApiTaskInbox implements TaskInbox {
+  private config: ApiTaskInboxConfig;
+
+  constructor(config: ApiTaskInboxConfig) {
+    this.config = config;
+  }
+
+  async open(request: WorkflowTaskRequest): Promise<WorkflowTask> {
+    const response = await this.send('/api/workflow-tasks', {
+      method: 'POST',
+      body: JSON.stringify({ ...request, type: request.type.toUpperCase() })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Workflow task was rejected (${response.status}): ${await readApiErrorMessage(response)}`);
+    }
+
+    const { task } = await readApiData(response, isTaskData, 'workflow task');
+    return this.toTask(task);
+  }
+
+  async pendingDecisions(): Promise<WorkflowTask[]> {
+    const response = await this.send('/api/workflow-tasks/decisions');
+    if (!response.ok) {
+      throw new Error(`Workflow task decisions lookup failed with status ${response.status}`);
+    }
+
+    const { tasks } = await readApiData(response, isTaskListData, 'workflow task decisions');
+    return tasks.map(task => this.toTask(task));
+  }
+
+  async acknowledge(taskId: string, error?: string): Promise<void> {
+    const response = await this.send(`/api/workflow-tasks/${encodeURIComponent(taskId)}/decision/ack`, {
+      method: 'POST',
+      body: JSON.stringify(error ? { error } : {})
+    });
+    // 409: already acknowledged by another agent process
+    if (!response.ok && response.status !== 409) {
+      throw new Error(`Workflow task acknowledgement failed with status ${response.status}`);
+    }
+  }
+
+  async cancelInstance(workflowInstanceId: string): Promise<void> {
+    const response = await this.send('/api/workflow-tasks/cancel', {
+      method: 'POST',
+      body: JSON.stringify({ workflowInstanceId })
+    });
+    if (!response.ok) {
+      throw new Error(`Workflow task cancellation failed with status ${response.status}`);
+    }
+  }
+
+  private send(path: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(`${this.config.apiUrl.replace(/\/+$/, '')}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': this.config.apiKey
+      },
+      signal: AbortSignal.timeout(this.config.timeoutMs || DEFAULT_TIMEOUT_MS)
+    });
+  }
+
+  private toTask(task: ApiWorkflowTask): WorkflowTask {
+    return {
+      id: task.id,
+      workflowInstanceId: task.workflowInstanceId,
+      workflowId: task.workflowId,
+      stageId: task.stageId,
+      type: task.type.toLowerCase() as WorkflowTask['type'],
+      title: task.title,
+      description: task.description,
+      data: task.data || {},
+      assigneeRoles: task.assigneeRoles,
+      approveStage: task.approveStage,
+      rejectStage: task.rejectStage,
+      durationHours: task.durationHours,
+      status: task.status.toLowerCase() as WorkflowTaskStatus,
+      claimedBy: task.claimedBy,
+      decidedBy: task.decidedBy,
+      decidedAt: task.decidedAt ? new Date(task.decidedAt) : undefined,
+      decisionReason: task.decisionReason,
+      createdAt: new Date(task.createdAt)
+    };
+  }
+}
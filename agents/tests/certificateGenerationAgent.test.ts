@@ -0,0 +1,133 @@
+/**
+ * HalalCheck Agents - Certificate Generation Tests
+ *
+ * Unit tests for generating certificates: verification URLs, the payload of
+ * the QR code, signing and verification against the registry
+ */
+
+import crypto from 'crypto'
+import sharp from 'sharp'
+import QRCode from 'qrcode'
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import { CertificateGenerationAgent, CertificateGenerationInput } from '../certificate-generation/CertificateGenerationAgent'
+import { EventBus } from '../core/EventBus'
+import { Logger, LogLevel } from '../core/infrastructure/logging/Logger'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const QR_MARGIN = 2
+
+function certificateInput(overrides: Partial<CertificateGenerationInput['generateOptions']> = {}): CertificateGenerationInput {
+  return {
+    certificateType: 'halal',
+    clientId: 'client-42',
+    productName: 'Gummy Bears',
+    productDetails: {
+      category: 'Confectionery',
+      description: 'Fruit gums with bovine gelatin',
+      ingredients: ['Glucose syrup', 'Sugar', 'Bovine gelatin', 'Citric acid']
+    },
+    certificationDetails: {
+      standard: 'GSO 993:2015',
+      scope: 'Confectionery produced at the Rotterdam plant',
+      validFrom: new Date(Date.now() - DAY_MS),
+      validUntil: new Date(Date.now() + 365 * DAY_MS)
+    },
+    issuingAuthority: {
+      name: 'Halal Certification Europe',
+      address: 'Keizersgracht 1, Amsterdam',
+      phone: '+31 20 000 0000',
+      email: 'certificates@halal.example.eu'
+    },
+    signatories: [{ name: 'Amina Haddad', title: 'Head of Certification' }],
+    generateOptions: {
+      format: 'pdf',
+      includeQRCode: true,
+      includeWatermark: true,
+      language: 'en',
+      ...overrides
+    }
+  }
+}
+
+/**
+ * Dark modules of a QR code PNG, sampled at the center of each module
+ */
+async function readModules(png: Buffer, size: number): Promise<boolean[][]> {
+  const { data, info } = await sharp(png).removeAlpha().greyscale().raw().toBuffer({ resolveWithObject: true })
+  const scale = info.width / (size + 2 * QR_MARGIN)
+  const dark = (row: number, column: number) => {
+    const x = Math.floor((column + QR_MARGIN + 0.5) * scale)
+    const y = Math.floor((row + QR_MARGIN + 0.5) * scale)
+    return data[(y * info.width + x) * info.channels]! < 128
+  }
+  return Array.from({ length: size }, (_, row) => Array.from({ length: size }, (_, column) => dark(row, column)))
+}
+
+function expectedModules(payload: string): { size: number; modules: boolean[][] } {
+  const { modules } = QRCode.create(payload, { errorCorrectionLevel: 'M' })
+  return {
+    size: modules.size,
+    modules: Array.from({ length: modules.size }, (_, row) =>
+      Array.from({ length: modules.size }, (_, column) => Boolean(modules.get(row, column))))
+  }
+}
+
+describe('CertificateGenerationAgent', () => {
+  const originalBaseUrl = process.env.CERTIFICATE_VERIFICATION_BASE_URL
+  let agent: CertificateGenerationAgent
+
+  beforeAll(() => {
+    // The trailing slash must not end up doubled in verification URLs
+    process.env.CERTIFICATE_VERIFICATION_BASE_URL = 'https://verify.example.eu/certificates/'
+    agent = new CertificateGenerationAgent(new EventBus(), new Logger('test', { level: LogLevel.ERROR, enableConsole: false }))
+  })
+
+  afterAll(() => {
+    if (originalBaseUrl === undefined) {
+      delete process.env.CERTIFICATE_VERIFICATION_BASE_URL
+    } else {
+      process.env.CERTIFICATE_VERIFICATION_BASE_URL = originalBaseUrl
+    }
+  })
+
+  it('should point the verification URL at an unguessable certificate ID', async () => {
+    const first = await agent.process(certificateInput())
+    const second = await agent.process(certificateInput())
+
+    expect(first.success).toBe(true)
+    expect(first.certificateId).toMatch(/^cert_[0-9a-f]{32}$/)
+    expect(second.certificateId).not.toBe(first.certificateId)
+    expect(first.qrCodeData!.verificationUrl).toBe(`https://verify.example.eu/certificates/${first.certificateId}`)
+    expect(first.metadata.securityFeatures).toContain('QR Code Verification')
+  })
+
+  it('should encode the verification URL in the QR code', async () => {
+    const output = await agent.process(certificateInput())
+    const { qrCodeImage, verificationUrl } = output.qrCodeData!
+    const expected = expectedModules(verificationUrl)
+
+    expect(qrCodeImage.subarray(0, 8).toString('hex')).toBe('89504e470d0a1a0a')
+    expect(await readModules(qrCodeImage, expected.size)).toEqual(expected.modules)
+  })
+
+  it('should leave out the QR code when it is not requested', async () => {
+    const output = await agent.process(certificateInput({ includeQRCode: false }))
+
+    expect(output.success).toBe(true)
+    expect(output.qrCodeData).toBeUndefined()
+    expect(output.metadata.securityFeatures).not.toContain('QR Code Verification')
+  })
+
+  it('should sign the issued PDF and verify the registered certificate', async () => {
+    const output = await agent.process(certificateInput({ format: 'both', language: 'both' }))
+    const [pdf, png] = output.files
+
+    expect(output.files.map(file => file.mimeType)).toEqual(['application/pdf', 'image/png'])
+    expect(pdf!.content.subarray(0, 5).toString()).toBe('%PDF-')
+    expect(png!.content.subarray(0, 8).toString('hex')).toBe('89504e470d0a1a0a')
+    expect(output.digitalSignature!.hash).toBe(crypto.createHash('sha256').update(pdf!.content).digest('hex'))
+
+    expect(await agent.verifyCertificate(output.certificateId)).toMatchObject({ isValid: true })
+    expect(await agent.verifyCertificate('cert_unknown')).toEqual({ isValid: false, errors: ['Certificate not found'] })
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * HalalCheck Agents - Certificate Layout Tests
+ *
+ * Unit tests for laying out certificate templates: word wrapping, elements
+ * pushed down or onto a new page by growing content, Arabic mirroring and
+ * bidirectional runs
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { CertificateTemplate, TemplateElement } from '../certificate-generation/CertificateGenerationAgent'
+import {
+  CertificateLayoutEngine,
+  Drawable,
+  LayoutOptions,
+  TextMeasurer,
+  interpolate
+} from '../certificate-generation/services/CertificateLayoutEngine'
+import { paragraphDirection, visualRuns } from '../certificate-generation/services/BidiText'
+
+const PAGE_WIDTH = 595.28
+
+// Every character is half the font size wide
+const measurer: TextMeasurer = {
+  widthOf: (text, _face, fontSize) => Array.from(text).length * fontSize * 0.5
+}
+
+function template(elements: TemplateElement[]): CertificateTemplate {
+  return {
+    id: 'test',
+    name: 'Test Certificate',
+    type: 'halal',
+    layout: {
+      pageSize: 'A4',
+      orientation: 'portrait',
+      margins: { top: 50, right: 50, bottom: 50, left: 50 }
+    },
+    elements,
+    styles: { defaultFontSize: 10, primaryColor: '#2D5A27' },
+    languages: ['en', 'ar']
+  }
+}
+
+function text(id: string, x: number, y: number, width: number, content: string, extra: Partial<TemplateElement> = {}): TemplateElement {
+  return { id, type: 'text', position: { x, y, width }, content, ...extra }
+}
+
+function layout(elements: TemplateElement[], data: Record<string, any> = {}, options: Partial<LayoutOptions> = {}) {
+  return new CertificateLayoutEngine(measurer).layout(template(elements), data, {
+    language: 'en',
+    includeQRCode: false,
+    includeWatermark: false,
+    ...options
+  })
+}
+
+type TextDrawable = Extract<Drawable, { kind: 'text' }>
+
+const lines = (page: Drawable[]): TextDrawable[] =>
+  page.filter((drawable): drawable is TextDrawable => drawable.kind === 'text')
+
+const contents = (page: Drawable[]) => lines(page).map(line => line.runs.map(run => run.text).join(''))
+
+describe('CertificateLayoutEngine', () => {
+  describe('wrapping', () => {
+    it('should wrap words greedily to the element width', () => {
+      const document = layout([text('scope', 50, 100, 100, 'Halal certified gelatin from bovine sources')])
+
+      expect(contents(document.pages[0]!)).toEqual(['Halal certified', 'gelatin from bovine', 'sources'])
+    })
+
+    it('should keep a word wider than the element on its own line', () => {
+      const document = layout([text('ingredient', 50, 100, 100, 'Contains E471-mono-and-diglycerides-of-fatty-acids only')])
+
+      expect(contents(document.pages[0]!)).toEqual(['Contains', 'E471-mono-and-diglycerides-of-fatty-acids', 'only'])
+    })
+
+    it('should skip blank paragraphs and elements whose placeholders are empty', () => {
+      const document = layout([
+        text('notes', 50, 100, 200, '{{notes}}'),
+        text('body', 50, 100, 200, 'Line one\n\n   \nLine two')
+      ])
+
+      expect(contents(document.pages[0]!)).toEqual(['Line one', 'Line two'])
+      // The empty element takes no space, so the next one keeps its position
+      expect(lines(document.pages[0]!)[0]!.baseline).toBe(109.5)
+    })
+  })
+
+  describe('flow', () => {
+    it('should push overlapping elements below wrapped text and leave the others in place', () => {
+      const document = layout([
+        text('scope', 50, 100, 100, 'Halal certified gelatin from bovine sources'),
+        text('below', 50, 110, 100, 'Standard'),
+        text('beside', 300, 110, 100, 'Valid')
+      ])
+
+      const [, , , below, beside] = lines(document.pages[0]!)
+      // Three lines of 13pt end at 139; the gap is 8pt and the baseline sits 9.5pt into the line
+      expect(below!.baseline).toBe(156.5)
+      expect(beside!.baseline).toBe(119.5)
+    })
+
+    it('should continue content past the bottom margin on a new page', () => {
+      const paragraphs = Array.from({ length: 10 }, (_, index) => `Line ${index + 1}`).join('\n')
+      const document = layout([
+        text('conditions', 50, 700, 200, paragraphs),
+        text('footer', 50, 760, 200, 'Issued by the certification body'),
+        { id: 'watermark', type: 'watermark', position: { x: 0, y: 0 }, content: 'VERIFIED' }
+      ], {}, { includeWatermark: true })
+
+      expect(document.pages).toHaveLength(2)
+      expect(contents(document.pages[0]!)).toHaveLength(7)
+      expect(contents(document.pages[1]!)).toEqual(['Line 8', 'Line 9', 'Line 10', 'Issued by the certification body'])
+
+      const [first, , , footer] = lines(document.pages[1]!)
+      expect(first!.baseline).toBe(59.5)
+      expect(footer!.baseline).toBe(106.5)
+      expect(document.pages.map(page => page[0]!.kind)).toEqual(['watermark', 'watermark'])
+    })
+
+    it('should lay out elements only when their conditions hold', () => {
+      const restrictions = text('restrictions', 50, 100, 300, 'Restrictions: {{certificationDetails.restrictions}}', {
+        conditions: [{ field: 'certificationDetails.restrictions', operator: 'exists', value: null }]
+      })
+
+      expect(contents(layout([restrictions]).pages[0]!)).toEqual([])
+      expect(contents(layout([restrictions], { certificationDetails: { restrictions: ['No pork', 'No alcohol'] } }).pages[0]!))
+        .toEqual(['Restrictions: No pork, No alcohol'])
+    })
+  })
+
+  describe('tables and signatures', () => {
+    it('should grow table rows to fit wrapped cells', () => {
+      const table: TemplateElement = {
+        id: 'details',
+        type: 'table',
+        position: { x: 50, y: 100, width: 400 },
+        content: {
+          headers: ['Field', 'Value'],
+          rows: [['Ingredients', 'Sugar, glucose syrup, bovine gelatin, citric acid, natural flavours']]
+        }
+      }
+
+      const rects = layout([table]).pages[0]!.filter(drawable => drawable.kind === 'rect')
+
+      // Header: one line plus padding; the 66 character value wraps onto two lines of its 250pt cell
+      expect(rects.map(rect => rect.kind === 'rect' && rect.height)).toEqual([23, 23, 36, 36])
+      expect(rects.map(rect => rect.kind === 'rect' && rect.width)).toEqual([140, 260, 140, 260])
+    })
+
+    it('should put at most three signatures on a row, ordered right-to-left in Arabic', () => {
+      const signatories = ['Amina', 'Bilal', 'Chadia', 'Dawud'].map(name => ({ name, title: 'Board member' }))
+      const element: TemplateElement = {
+        id: 'signatures',
+        type: 'signature',
+        position: { x: 50, y: 600, width: 450 },
+        content: '{{signatories}}'
+      }
+
+      const names = (language: 'en' | 'ar') => lines(layout([element], { signatories }, { language }).pages[0]!)
+        .filter(line => line.runs[0]!.face === 'bold' || line.runs[0]!.face === 'arabicBold')
+        .map(line => ({ name: line.runs[0]!.text, baseline: line.baseline }))
+
+      const english = names('en')
+      expect(english.map(signature => signature.name)).toEqual(['Amina', 'Bilal', 'Chadia', 'Dawud'])
+      expect(english[3]!.baseline - english[0]!.baseline).toBe(70)
+      expect(names('ar').map(signature => signature.name)).toEqual(['Chadia', 'Bilal', 'Amina', 'Dawud'])
+    })
+  })
+
+  describe('Arabic', () => {
+    const title = text('title', 50, 100, 200, 'HALAL CERTIFICATE', { translations: { ar: 'شهادة حلال' } })
+
+    it('should mirror the page and align Arabic text to the right', () => {
+      const [line] = lines(layout([title], {}, { language: 'ar' }).pages[0]!)
+
+      expect(line!.runs).toEqual([{ text: 'شهادة حلال', direction: 'rtl', face: 'arabic', width: 50, x: PAGE_WIDTH - 50 - 50 }])
+    })
+
+    it('should render both languages one after the other', () => {
+      expect(contents(layout([title], {}, { language: 'both' }).pages[0]!)).toEqual(['HALAL CERTIFICATE', 'شهادة حلال'])
+    })
+
+    it('should place the QR code in the outer corner of each reading direction', () => {
+      const qr: TemplateElement = { id: 'qr-code', type: 'qr-code', position: { x: 450, y: 700, width: 100, height: 80 }, content: '{{verificationUrl}}' }
+      const qrModules = [[true, false], [false, true]]
+
+      const position = (language: 'en' | 'ar') => {
+        const [drawable] = layout([qr], {}, { language, includeQRCode: true, qrModules }).pages[0]!
+        return drawable!.kind === 'qr' ? { x: drawable.x, size: drawable.size, modules: drawable.modules } : undefined
+      }
+
+      expect(position('en')).toEqual({ x: 470, size: 80, modules: qrModules })
+      expect(position('ar')!.x).toBeCloseTo(PAGE_WIDTH - 450 - 100)
+      expect(layout([qr], {}, { includeQRCode: true }).pages[0]).toEqual([])
+    })
+  })
+})
+
+describe('BidiText', () => {
+  it('should take the paragraph direction from the first strong character', () => {
+    expect(paragraphDirection('— شهادة حلال')).toBe('rtl')
+    expect(paragraphDirection('2031 شهادة')).toBe('ltr')
+    expect(paragraphDirection('...')).toBe('ltr')
+  })
+
+  it('should keep Latin certificate numbers together inside Arabic lines', () => {
+    expect(visualRuns('رقم الشهادة HAL-2031-100001', 'rtl')).toEqual([
+      { text: 'HAL-2031-100001', direction: 'ltr' },
+      { text: 'رقم الشهادة ', direction: 'rtl' }
+    ])
+  })
+
+  it('should give paired brackets the direction of the text they enclose', () => {
+    expect(visualRuns('Gelatin (جيلاتين)', 'ltr')).toEqual([
+      { text: 'Gelatin ', direction: 'ltr' },
+      { text: '(جيلاتين)', direction: 'rtl' }
+    ])
+  })
+})
+
+describe('interpolate', () => {
+  it('should fill nested placeholders, join lists and blank missing values', () => {
+    const data = { issuingAuthority: { name: 'Halal Board' }, certificationDetails: { conditions: ['Annual audit', 'Batch testing'] } }
+
+    expect(interpolate('{{ issuingAuthority.name }}: {{certificationDetails.conditions}}{{missing.value}}', data))
+      .toBe('Halal Board: Annual audit, Batch testing')
+  })
+})
@@ -0,0 +1,33 @@
+/**
+ * HalalCheck Agents - Shared Copy Tests
+ *
+ * The agents build separately from the HalalCheck API, so they keep their
+ * own copies of the bidi module and the madhab rulings. These tests fail
+ * when a copy drifts from the API's version.
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import fs from 'fs'
+import path from 'path'
+
+const AGENTS = path.join(__dirname, '..')
+const BACKEND = path.join(__dirname, '../../backend/src')
+
+// Source without its leading doc comment, which names the package it lives in
+function code(file: string): string {
+  return fs.readFileSync(file, 'utf8').replace(/^\/\*\*[\s\S]*?\*\/\s*/, '')
+}
+
+describe('Copies of API modules', () => {
+  it('should keep the bidi module in step with the API', () => {
+    expect(code(path.join(AGENTS, 'certificate-generation/services/BidiText.ts')))
+      .toBe(code(path.join(BACKEND, 'utils/bidiText.ts')))
+  })
+
+  it('should keep the madhab rulings in step with the API', () => {
+    const read = (file: string) => JSON.parse(fs.readFileSync(file, 'utf8'))
+
+    expect(read(path.join(AGENTS, 'islamic-analysis/data/madhab-rulings.json')))
+      .toEqual(read(path.join(BACKEND, 'data/scholarly/madhab-rulings.json')))
+  })
+})
@@ -29,7 +29,7 @@ module.exports = {
   maxWorkers: 1, // Run tests serially to avoid database conflicts
   forceExit: true,
   detectOpenHandles: true,
-  moduleNameMapping: {
+  moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1'
   },
   testPathIgnorePatterns: [
@@ -23,14 +23,38 @@ import organizationRoutes from '@/routes/organizations';
 import uploadRoutes from '@/routes/upload';
 import paymentRoutes from '@/routes/payments';
 import dashboardRoutes from '@/routes/dashboard';
+import standardsRoutes from '@/routes/standards';
+import knowledgeBaseRoutes from '@/routes/knowledgeBase';
+import jobRoutes from '@/routes/jobs';
+import apiKeyRoutes from '@/routes/apiKeys';
+import webhookRoutes from '@/routes/webhooks';
+import certificateRoutes from '@/routes/certificates';
+import signingKeyRoutes from '@/routes/signingKeys';
+import workflowExecutionRoutes from '@/routes/workflowExecutions';
+import workflowTaskRoutes from '@/routes/workflowTasks';
+import pipelineRoutes from '@/routes/pipeline';
+import supplierRoutes from '@/routes/suppliers';
+import certificationBodyRoutes from '@/routes/certificationBodies';
 
 // Middleware imports
 import { errorHandler, notFoundHandler } from '@/middleware/errorHandler';
 import { logger } from '@/utils/logger';
+import { AnalysisJobService } from '@/services/analysisJobService';
+import { WebhookService } from '@/services/webhookService';
+import { ReportingService } from '@/services/reportingService';
+import { CertificateService } from '@/services/certificateService';
+import { WorkflowTaskService } from '@/services/workflowTaskService';
+import { PipelineSocketService } from '@/services/pipelineSocketService';
 
 export class HalalCheckApp {
   public app: Application;
   private readonly port: number;
+  private readonly jobWorker = new AnalysisJobService();
+  private readonly webhookWorker = new WebhookService();
+  private readonly reportRetention = new ReportingService();
+  private readonly certificateReminders = new CertificateService();
+  private readonly taskEscalations = new WorkflowTaskService();
+  private readonly pipelineSocket = new PipelineSocketService();
 
   constructor() {
     this.app = express();
@@ -75,7 +99,7 @@ export class HalalCheckApp {
       origin: this.getAllowedOrigins(),
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key']
     }));
 
     // Rate limiting
@@ -181,7 +205,20 @@ export class HalalCheckApp {
           organizations: `${apiPath}/organizations`,
           uploads: `${apiPath}/upload`,
           payments: `${apiPath}/payments`,
-          dashboard: `${apiPath}/dashboard`
+          dashboard: `${apiPath}/dashboard`,
+          standards: `${apiPath}/standards`,
+          knowledgeBase: `${apiPath}/knowledge-base`,
+          jobs: `${apiPath}/jobs`,
+          apiKeys: `${apiPath}/api-keys`,
+          webhooks: `${apiPath}/webhooks`,
+          certificates: `${apiPath}/certificates`,
+          signingKeys: `${apiPath}/signing-keys`,
+          workflowExecutions: `${apiPath}/workflow-executions`,
+          workflowTasks: `${apiPath}/workflow-tasks`,
+          pipeline: `${apiPath}/pipeline`,
+          pipelineLive: `${apiPath}/pipeline/live`,
+          suppliers: `${apiPath}/suppliers`,
+          certificationBodies: `${apiPath}/certification-bodies`
         },
         support: {
           email: 'support@halalcheck.eu',
@@ -199,6 +236,18 @@ export class HalalCheckApp {
     this.app.use(`${apiPath}/upload`, uploadRoutes);
     this.app.use(`${apiPath}/payments`, paymentRoutes);
     this.app.use(`${apiPath}/dashboard`, dashboardRoutes);
+    this.app.use(`${apiPath}/standards`, standardsRoutes);
+    this.app.use(`${apiPath}/knowledge-base`, knowledgeBaseRoutes);
+    this.app.use(`${apiPath}/jobs`, jobRoutes);
+    this.app.use(`${apiPath}/api-keys`, apiKeyRoutes);
+    this.app.use(`${apiPath}/webhooks`, webhookRoutes);
+    this.app.use(`${apiPath}/certificates`, certificateRoutes);
+    this.app.use(`${apiPath}/signing-keys`, signingKeyRoutes);
+    this.app.use(`${apiPath}/workflow-executions`, workflowExecutionRoutes);
+    this.app.use(`${apiPath}/workflow-tasks`, workflowTaskRoutes);
+    this.app.use(`${apiPath}/pipeline`, pipelineRoutes);
+    this.app.use(`${apiPath}/suppliers`, supplierRoutes);
+    this.app.use(`${apiPath}/certification-bodies`, certificationBodyRoutes);
 
     // Serve frontend in production
     if (process.env.NODE_ENV === 'production') {
@@ -244,18 +293,29 @@ export class HalalCheckApp {
       process.exit(1);
     });
 
-    // Graceful shutdown
+    // Graceful shutdown; running job items and webhook deliveries finish, pending ones resume on restart
     process.on('SIGTERM', () => {
       logger.info('SIGTERM received, shutting down gracefully');
-      process.exit(0);
+      this.stopWorkers().finally(() => process.exit(0));
     });
 
     process.on('SIGINT', () => {
       logger.info('SIGINT received, shutting down gracefully');
-      process.exit(0);
+      this.stopWorkers().finally(() => process.exit(0));
     });
   }
 
+  private async stopWorkers(): Promise<void> {
+    this.reportRetention.stopRetentionSweep();
+    this.certificateReminders.stopExpiryReminders();
+    this.taskEscalations.stopEscalations();
+    await Promise.allSettled([
+      this.jobWorker.stopWorker(),
+      this.webhookWorker.stopWorker(),
+      this.pipelineSocket.close()
+    ]);
+  }
+
   /**
    * Initialize comprehensive health check
    */
@@ -319,7 +379,7 @@ export class HalalCheckApp {
    * Start the Express server
    */
   public start(): void {
-    this.app.listen(this.port, () => {
+    const server = this.app.listen(this.port, () => {
       logger.info('HalalCheck EU API Server started', {
         port: this.port,
         environment: process.env.NODE_ENV || 'development',
@@ -329,7 +389,41 @@ export class HalalCheckApp {
 
       // Log configuration status
       this.logConfigurationStatus();
+
+      // Process queued bulk analysis jobs in this process
+      if (process.env.ANALYSIS_JOB_WORKER !== 'false') {
+        this.jobWorker.startWorker().catch(error => {
+          logger.error('Failed to start analysis job worker', { error: (error as Error).message });
+        });
+      }
+
+      // Deliver queued webhook events in this process
+      if (process.env.WEBHOOK_WORKER !== 'false') {
+        this.webhookWorker.startWorker().catch(error => {
+          logger.error('Failed to start webhook delivery worker', { error: (error as Error).message });
+        });
+      }
+
+      // Purge reports past their retention period
+      if (process.env.REPORT_RETENTION_SWEEP !== 'false') {
+        this.reportRetention.startRetentionSweep();
+      }
+
+      // Email organizations about certificates nearing expiry
+      if (process.env.CERTIFICATE_EXPIRY_REMINDERS !== 'false') {
+        this.certificateReminders.startExpiryReminders();
+      }
+
+      // Escalate workflow tasks open past their stage's estimated duration
+      if (process.env.WORKFLOW_TASK_ESCALATIONS !== 'false') {
+        this.taskEscalations.startEscalations();
+      }
     });
+
+    // Push pipeline changes and presence to connected organization members
+    if (process.env.PIPELINE_SOCKET !== 'false') {
+      this.pipelineSocket.attach(server, '/api/pipeline/live');
+    }
   }
 
   /**
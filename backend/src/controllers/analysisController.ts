@@ -10,21 +10,31 @@ import { IngredientAnalysisService } from '@/services/ingredientAnalysisService'
 import { DatabaseService } from '@/services/databaseService';
 import { EmailService } from '@/services/emailService';
 import { AuditService } from '@/services/auditService';
+import { WebhookService, analysisEventData } from '@/services/webhookService';
 import { logger } from '@/utils/logger';
 import { asyncHandler } from '@/middleware/errorHandler';
-import { ProductAnalysis, AnalysisRequest } from '@/types/halal';
+import { isMadhab } from '@/services/scholarlyConsensusService';
+import { CertificationRuleEngine } from '@/services/certificationRuleEngine';
+import { diffAnalyses } from '@/services/analysisDiff';
+import { isRecognitionAuthority } from '@/services/certificationBodyService';
+import { ProductAnalysis, AnalysisRequest, CertificationStandard, MADHABS } from '@/types/halal';
+import { RECOGNITION_AUTHORITIES } from '@/types/certificationBodies';
 
 export class AnalysisController {
   private analysisService: IngredientAnalysisService;
   private db: DatabaseService;
   private emailService: EmailService;
   private auditService: AuditService;
+  private ruleEngine: CertificationRuleEngine;
+  private webhookService: WebhookService;
 
   constructor() {
     this.analysisService = new IngredientAnalysisService();
     this.db = new DatabaseService();
     this.emailService = new EmailService();
     this.auditService = new AuditService();
+    this.ruleEngine = new CertificationRuleEngine(this.db);
+    this.webhookService = new WebhookService(this.db);
   }
 
   /**
@@ -40,7 +50,17 @@ export class AnalysisController {
       return;
     }
 
-    const { productName, ingredientText, language, region, certificationStandard } = req.body;
+    const {
+      productName,
+      ingredientText,
+      language,
+      region,
+      certificationStandard,
+      customRuleSetId,
+      compareStandards,
+      madhab,
+      exportMarket
+    } = req.body;
 
     // Validate required fields
     if (!productName || !ingredientText) {
@@ -72,6 +92,76 @@ export class AnalysisController {
       return;
     }
 
+    // Validate madhab preference
+    if (madhab !== undefined && !isMadhab(madhab)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: `madhab must be one of: ${MADHABS.join(', ')}`
+      });
+      return;
+    }
+
+    // Validate certification standards
+    const standards = Object.values(CertificationStandard) as string[];
+    if (certificationStandard !== undefined && !standards.includes(certificationStandard)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: `certificationStandard must be one of: ${standards.join(', ')}`
+      });
+      return;
+    }
+
+    if (certificationStandard === CertificationStandard.CUSTOM && !customRuleSetId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'customRuleSetId is required for the CUSTOM standard'
+      });
+      return;
+    }
+
+    if (compareStandards !== undefined && (
+      !Array.isArray(compareStandards) ||
+      !compareStandards.every((standard: unknown) =>
+        typeof standard === 'string' && standards.includes(standard) && standard !== CertificationStandard.CUSTOM
+      )
+    )) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'compareStandards must be a list of built-in certification standards'
+      });
+      return;
+    }
+
+    // Validate the export market supplier certificate issuers are checked for
+    if (exportMarket !== undefined && !isRecognitionAuthority(exportMarket)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: `exportMarket must be one of: ${RECOGNITION_AUTHORITIES.map(authority => authority.code).join(', ')}`
+      });
+      return;
+    }
+
+    if (certificationStandard === CertificationStandard.CUSTOM) {
+      const ruleSet = await this.ruleEngine.resolveRuleSet(
+        certificationStandard,
+        req.user.organizationId,
+        customRuleSetId
+      );
+      if (!ruleSet) {
+        res.status(404).json({
+          success: false,
+          error: 'NOT_FOUND',
+          message: 'Custom rule set not found'
+        });
+        return;
+      }
+    }
+
     try {
       // Prepare analysis request
       const analysisRequest: AnalysisRequest = {
@@ -80,6 +170,10 @@ export class AnalysisController {
         language: language || req.user.language || 'en',
         region: region || 'EU',
         certificationStandard: certificationStandard || 'HFCE',
+        ...(customRuleSetId && { customRuleSetId }),
+        ...(compareStandards && { compareStandards }),
+        ...(madhab && { madhab }),
+        ...(exportMarket && { exportMarket }),
         userId: req.user.id,
         organizationId: req.user.organizationId
       };
@@ -94,7 +188,9 @@ export class AnalysisController {
           productName: analysisRequest.productName,
           ingredientCount: ingredientText.split(/[,;]/).length,
           language: analysisRequest.language,
-          region: analysisRequest.region
+          region: analysisRequest.region,
+          certificationStandard: analysisRequest.certificationStandard,
+          madhab: analysisRequest.madhab
         },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent')
@@ -126,6 +222,8 @@ export class AnalysisController {
         userAgent: req.get('User-Agent')
       });
 
+      await this.webhookService.publish(req.user.organizationId, 'islamic-analysis-completed', analysisEventData(analysis));
+
       // Send notification email if configured
       if (analysis.expertReviewRequired || analysis.summary.haram_count > 0) {
         try {
@@ -375,6 +473,88 @@ export class AnalysisController {
     }
   });
 
+  /**
+   * Replay an analysis against its pinned provenance snapshot and diff it
+   * against a replay with current knowledge-base data and rule sets
+   */
+  replayAnalysis = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { analysisId } = req.params;
+
+    if (!analysisId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Analysis ID is required'
+      });
+      return;
+    }
+
+    try {
+      const stored = await this.db.getProductAnalysis(analysisId);
+
+      if (!stored || stored.organizationId !== req.user.organizationId) {
+        res.status(404).json({
+          success: false,
+          error: 'NOT_FOUND',
+          message: 'Analysis not found'
+        });
+        return;
+      }
+
+      if (!stored.provenance) {
+        res.status(422).json({
+          success: false,
+          error: 'NO_PROVENANCE',
+          message: 'Analysis was stored without a provenance manifest and cannot be replayed'
+        });
+        return;
+      }
+
+      const pinned = await this.analysisService.replayAnalysis(stored);
+      const current = await this.analysisService.replayAnalysis(stored, { current: true });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          analysisId,
+          provenance: stored.provenance,
+          reproduced: pinned.overallStatus === stored.overallStatus
+            && pinned.overallRiskLevel === stored.overallRiskLevel,
+          stored: {
+            overallStatus: stored.overallStatus,
+            overallRiskLevel: stored.overallRiskLevel,
+            analyzedAt: stored.analyzedAt
+          },
+          pinned,
+          current,
+          diff: diffAnalyses(pinned, current)
+        }
+      });
+
+    } catch (error) {
+      logger.error('Failed to replay analysis', {
+        error: (error as Error).message,
+        analysisId,
+        userId: req.user.id
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'REPLAY_FAILED',
+        message: 'Failed to replay analysis'
+      });
+    }
+  });
+
   /**
    * Delete analysis (soft delete)
    */
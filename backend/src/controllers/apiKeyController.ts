@@ -0,0 +1,220 @@
+/**
+ * HalalCheck EU - API Key Controller
+ *
+ * Management of organization API keys for machine-to-machine integrations
+ */
+
+import { Request, Response } from 'express';
+import { ApiKeyService } from '@/services/apiKeyService';
+import { AuditService } from '@/services/auditService';
+import { logger } from '@/utils/logger';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
+
+export class ApiKeyController {
+  private apiKeyService: ApiKeyService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.apiKeyService = new ApiKeyService();
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * List the organization's API keys (hashes are never returned)
+   */
+  getApiKeys = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const apiKeys = await this.apiKeyService.listKeys(req.user.organizationId);
+
+      res.json({
+        success: true,
+        data: { apiKeys }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'API_KEYS_FETCH_FAILED', 'Failed to fetch API keys', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Create an API key; the full key is only included in this response
+   */
+  createApiKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { name, permissions, expiresInDays } = req.body;
+
+    try {
+      const created = await this.apiKeyService.createKey(req.user.organizationId, req.user, {
+        name,
+        permissions,
+        ...(expiresInDays !== undefined && { expiresInDays })
+      });
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'API_KEY_CREATED',
+        resource: 'api_key',
+        resourceId: created.apiKey.id,
+        details: {
+          name: created.apiKey.name,
+          keyPrefix: created.apiKey.keyPrefix,
+          permissions: created.apiKey.permissions,
+          expiresAt: created.apiKey.expiresAt
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'API key created. Store it now; it will not be shown again.',
+        data: created
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'API_KEY_CREATE_FAILED', 'Failed to create API key', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Replace a key; the old one keeps working for the grace period
+   */
+  rotateApiKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { keyId } = req.params;
+    if (!keyId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'API key ID is required'
+      });
+      return;
+    }
+
+    const { gracePeriodHours, expiresInDays } = req.body || {};
+
+    try {
+      const created = await this.apiKeyService.rotateKey(req.user.organizationId, keyId, req.user, {
+        ...(gracePeriodHours !== undefined && { gracePeriodHours }),
+        ...(expiresInDays !== undefined && { expiresInDays })
+      });
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'API_KEY_ROTATED',
+        resource: 'api_key',
+        resourceId: keyId,
+        details: {
+          newKeyId: created.apiKey.id,
+          keyPrefix: created.apiKey.keyPrefix,
+          gracePeriodHours
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'API key rotated. Store the new key now; it will not be shown again.',
+        data: created
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'API_KEY_ROTATE_FAILED', 'Failed to rotate API key', { keyId });
+    }
+  });
+
+  /**
+   * Revoke a key immediately
+   */
+  revokeApiKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { keyId } = req.params;
+    if (!keyId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'API key ID is required'
+      });
+      return;
+    }
+
+    try {
+      const apiKey = await this.apiKeyService.revokeKey(req.user.organizationId, keyId);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'API_KEY_REVOKED',
+        resource: 'api_key',
+        resourceId: keyId,
+        details: { name: apiKey.name, keyPrefix: apiKey.keyPrefix },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        message: 'API key revoked',
+        data: { apiKey }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'API_KEY_REVOKE_FAILED', 'Failed to revoke API key', { keyId });
+    }
+  });
+
+  private sendError(res: Response, error: AppError, fallbackCode: string, fallbackMessage: string, context: Record<string, string>): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message, ...context });
+
+    res.status(500).json({
+      success: false,
+      error: fallbackCode,
+      message: fallbackMessage
+    });
+  }
+}
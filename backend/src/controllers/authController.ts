@@ -7,8 +7,9 @@
 import { Request, Response } from 'express';
 import { AuthService } from '@/services/authService';
 import { AuditService } from '@/services/auditService';
+import { MfaService } from '@/services/mfaService';
 import { logger } from '@/utils/logger';
-import { asyncHandler } from '@/middleware/errorHandler';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
 import { 
   LoginRequest, 
   RegisterRequest, 
@@ -19,10 +20,12 @@ import {
 export class AuthController {
   private authService: AuthService;
   private auditService: AuditService;
+  private mfaService: MfaService;
 
   constructor() {
     this.authService = new AuthService();
     this.auditService = new AuditService();
+    this.mfaService = new MfaService();
   }
 
   /**
@@ -151,6 +154,13 @@ export class AuthController {
             accessToken: result.tokens.accessToken,
             tokenType: result.tokens.tokenType,
             expiresIn: result.tokens.expiresIn
+          },
+          mfa: {
+            enrollmentRequired: result.mfaEnrollmentRequired,
+            ...(result.mfa && { method: result.mfa.method }),
+            ...(result.mfa?.remainingBackupCodes !== undefined && {
+              remainingBackupCodes: result.mfa.remainingBackupCodes
+            })
           }
         }
       });
@@ -162,9 +172,10 @@ export class AuthController {
         ip: ipAddress 
       });
       
+      // MFA errors carry their own code so clients can prompt for a second factor
       res.status(401).json({
         success: false,
-        error: 'LOGIN_FAILED',
+        error: (error as AppError).code || 'LOGIN_FAILED',
         message: error.message
       });
     }
@@ -415,4 +426,212 @@ export class AuthController {
       }
     });
   });
+
+  /**
+   * Get MFA enrollment status
+   */
+  getMfaStatus = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const status = await this.mfaService.getStatus(req.user.id);
+      res.status(200).json({ success: true, data: { mfa: status } });
+    } catch (error) {
+      this.sendMfaError(res, error, 'Failed to load MFA status');
+    }
+  });
+
+  /**
+   * Start TOTP enrollment
+   */
+  setupMfa = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const enrollment = await this.mfaService.beginEnrollment(req.user.id);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'MFA_SETUP_STARTED',
+        resource: 'auth',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Scan the QR code or enter the secret in your authenticator app, then confirm with a code',
+        data: enrollment
+      });
+    } catch (error) {
+      this.sendMfaError(res, error, 'Failed to start MFA setup');
+    }
+  });
+
+  /**
+   * Confirm TOTP enrollment and issue backup codes
+   */
+  enableMfa = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Authenticator code is required'
+      });
+      return;
+    }
+
+    try {
+      const backupCodes = await this.mfaService.confirmEnrollment(req.user.id, code.trim());
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'MFA_ENABLED',
+        resource: 'auth',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Multi-factor authentication enabled. Store the backup codes somewhere safe; each works once.',
+        data: { backupCodes }
+      });
+    } catch (error) {
+      this.sendMfaError(res, error, 'Failed to enable MFA');
+    }
+  });
+
+  /**
+   * Disable MFA with a current code
+   */
+  disableMfa = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Authenticator or backup code is required'
+      });
+      return;
+    }
+
+    try {
+      await this.mfaService.disable(req.user.id, code);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'MFA_DISABLED',
+        resource: 'auth',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Multi-factor authentication disabled'
+      });
+    } catch (error) {
+      this.sendMfaError(res, error, 'Failed to disable MFA');
+    }
+  });
+
+  /**
+   * Replace backup codes
+   */
+  regenerateBackupCodes = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Authenticator or backup code is required'
+      });
+      return;
+    }
+
+    try {
+      const backupCodes = await this.mfaService.regenerateBackupCodes(req.user.id, code);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'MFA_BACKUP_CODES_REGENERATED',
+        resource: 'auth',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'New backup codes generated; previous codes no longer work',
+        data: { backupCodes }
+      });
+    } catch (error) {
+      this.sendMfaError(res, error, 'Failed to regenerate backup codes');
+    }
+  });
+
+  private sendMfaError(res: Response, error: any, fallbackMessage: string): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'MFA_ERROR',
+      message: fallbackMessage
+    });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,433 @@
+/**
+ * HalalCheck EU - Certificate Controller
+ *
+ * Registration and signing of agent-issued certificates, the organization's
+ * certificate list, lifecycle actions and the public verification lookups
+ * behind certificate QR codes
+ */
+
+import { Request, Response } from 'express';
+import { CertificateService } from '@/services/certificateService';
+import { AuditService } from '@/services/auditService';
+import { SigningKeyService } from '@/services/signingKeyService';
+import { logger } from '@/utils/logger';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
+import { Certificate } from '@/types/certificates';
+
+// Verification results may be cached briefly by scanners and CDNs
+const VERIFICATION_CACHE_SECONDS = 60;
+
+export class CertificateController {
+  private certificateService: CertificateService;
+  private auditService: AuditService;
+  private signingKeyService: SigningKeyService;
+
+  constructor() {
+    this.certificateService = new CertificateService();
+    this.auditService = new AuditService();
+    this.signingKeyService = new SigningKeyService();
+  }
+
+  /**
+   * Register a certificate issued by the agent system
+   */
+  registerCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const certificate = await this.certificateService.registerCertificate(req.user.organizationId, req.user.id, req.body);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'CERTIFICATE_REGISTERED',
+        resource: 'certificate',
+        resourceId: certificate.id,
+        details: {
+          certificateNumber: certificate.certificateNumber,
+          productName: certificate.productName,
+          validUntil: certificate.validUntil
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { certificate }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_REGISTRATION_FAILED', 'Failed to register certificate', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * List the organization's certificates, newest first
+   */
+  getCertificates = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 200);
+    const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+
+    try {
+      const certificates = await this.certificateService.listCertificates(req.user.organizationId, { limit, offset });
+
+      res.json({
+        success: true,
+        data: { certificates }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATES_FETCH_FAILED', 'Failed to fetch certificates', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Full certificate record for the issuing organization
+   */
+  getCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { certificateId } = req.params;
+    if (!certificateId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Certificate ID is required'
+      });
+      return;
+    }
+
+    try {
+      const certificate = await this.certificateService.getCertificate(req.user.organizationId, certificateId);
+
+      res.json({
+        success: true,
+        data: { certificate }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_FETCH_FAILED', 'Failed to fetch certificate', {
+        certificateId,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Lifecycle history of a certificate
+   */
+  getCertificateHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { certificateId } = req.params;
+    if (!certificateId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Certificate ID is required'
+      });
+      return;
+    }
+
+    try {
+      const events = await this.certificateService.getCertificateHistory(req.user.organizationId, certificateId);
+
+      res.json({
+        success: true,
+        data: { events }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_HISTORY_FAILED', 'Failed to fetch certificate history', {
+        certificateId,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Suspend an active certificate (reason required)
+   */
+  suspendCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    await this.applyLifecycleAction(req, res, 'CERTIFICATE_SUSPENDED', (organizationId, userId, certificateId) =>
+      this.certificateService.suspendCertificate(organizationId, userId, certificateId, req.body.reason)
+    );
+  });
+
+  /**
+   * Reinstate a suspended certificate
+   */
+  reinstateCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    await this.applyLifecycleAction(req, res, 'CERTIFICATE_REINSTATED', (organizationId, userId, certificateId) =>
+      this.certificateService.reinstateCertificate(organizationId, userId, certificateId, req.body.reason)
+    );
+  });
+
+  /**
+   * Revoke a certificate permanently (reason required)
+   */
+  revokeCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    await this.applyLifecycleAction(req, res, 'CERTIFICATE_REVOKED', (organizationId, userId, certificateId) =>
+      this.certificateService.revokeCertificate(organizationId, userId, certificateId, req.body.reason)
+    );
+  });
+
+  /**
+   * Renew a certificate into a new validity period
+   */
+  renewCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { validFrom, validUntil, certificateNumber, reason } = req.body;
+
+    await this.applyLifecycleAction(req, res, 'CERTIFICATE_RENEWED', (organizationId, userId, certificateId) =>
+      this.certificateService.renewCertificate(organizationId, userId, certificateId, {
+        validUntil,
+        ...(validFrom !== undefined && { validFrom }),
+        ...(certificateNumber !== undefined && { certificateNumber }),
+        ...(reason !== undefined && { reason })
+      })
+    );
+  });
+
+  /**
+   * Amend the scope of a certificate
+   */
+  amendCertificateScope = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    await this.applyLifecycleAction(req, res, 'CERTIFICATE_SCOPE_AMENDED', (organizationId, userId, certificateId) =>
+      this.certificateService.amendScope(organizationId, userId, certificateId, req.body.scope, req.body.reason)
+    );
+  });
+
+  /**
+   * Sign the issued PDF (by its SHA-256) with the organization's key
+   */
+  signCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { certificateId } = req.params;
+    if (!certificateId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Certificate ID is required'
+      });
+      return;
+    }
+
+    try {
+      const certificate = await this.certificateService.signCertificateDocument(
+        req.user.organizationId,
+        certificateId,
+        req.body.documentHash
+      );
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'CERTIFICATE_SIGNED',
+        resource: 'certificate',
+        resourceId: certificate.id,
+        details: {
+          certificateNumber: certificate.certificateNumber,
+          keyId: certificate.signature?.keyId,
+          documentHash: certificate.signature?.hash
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: {
+          certificate,
+          jwksUrl: this.signingKeyService.jwksUrl(req.user.organizationId)
+        }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_SIGNING_FAILED', 'Failed to sign certificate', {
+        certificateId,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Public verification lookup; returns only the certificate's standing and scope
+   */
+  verifyCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { certificateId } = req.params;
+    if (!certificateId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Certificate ID is required'
+      });
+      return;
+    }
+
+    try {
+      const verification = await this.certificateService.verifyCertificate(certificateId);
+
+      res.setHeader('Cache-Control', `public, max-age=${VERIFICATION_CACHE_SECONDS}`);
+      res.json({
+        success: true,
+        data: verification
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_VERIFICATION_FAILED', 'Failed to verify certificate', {
+        certificateId
+      });
+    }
+  });
+
+  /**
+   * Public check of a presented certificate PDF (raw request body) against its signature
+   */
+  verifyCertificateDocument = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { certificateId } = req.params;
+    if (!certificateId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Certificate ID is required'
+      });
+      return;
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Send the certificate PDF as the request body with Content-Type application/pdf'
+      });
+      return;
+    }
+
+    try {
+      const verification = await this.certificateService.verifyCertificateDocument(certificateId, req.body);
+
+      res.json({
+        success: true,
+        data: verification
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_VERIFICATION_FAILED', 'Failed to verify certificate', {
+        certificateId
+      });
+    }
+  });
+
+  /**
+   * Run a lifecycle action for the caller's organization, audit it and return the updated certificate
+   */
+  private async applyLifecycleAction(
+    req: Request,
+    res: Response,
+    auditAction: string,
+    operation: (organizationId: string, userId: string, certificateId: string) => Promise<Certificate>
+  ): Promise<void> {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { certificateId } = req.params;
+    if (!certificateId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Certificate ID is required'
+      });
+      return;
+    }
+
+    try {
+      const certificate = await operation(req.user.organizationId, req.user.id, certificateId);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: auditAction,
+        resource: 'certificate',
+        resourceId: certificate.id,
+        details: {
+          certificateNumber: certificate.certificateNumber,
+          status: certificate.status,
+          ...(typeof req.body.reason === 'string' && { reason: req.body.reason })
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: { certificate }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_UPDATE_FAILED', 'Failed to update certificate', {
+        certificateId,
+        action: auditAction,
+        organizationId: req.user.organizationId
+      });
+    }
+  }
+
+  private sendError(res: Response, error: AppError, fallbackCode: string, fallbackMessage: string, context: Record<string, string>): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message, ...context });
+
+    res.status(500).json({
+      success: false,
+      error: fallbackCode,
+      message: fallbackMessage
+    });
+  }
+}
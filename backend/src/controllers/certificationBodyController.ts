@@ -0,0 +1,325 @@
+/**
+ * HalalCheck EU - Certification Body Controller
+ *
+ * The certification-body directory and the recognition matrix between
+ * certification bodies and the authorities of export markets
+ */
+
+import { Request, Response } from 'express';
+import { CertificationBodyService } from '@/services/certificationBodyService';
+import { AuditService } from '@/services/auditService';
+import { logger } from '@/utils/logger';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
+
+export class CertificationBodyController {
+  private certificationBodyService: CertificationBodyService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.certificationBodyService = new CertificationBodyService();
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * Recognition authorities and the directory entries matching ?search= or
+   * currently recognized by ?authority=
+   */
+  getCertificationBodies = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const bodies = await this.certificationBodyService.listBodies({
+        ...(typeof req.query.search === 'string' && { search: req.query.search }),
+        ...(typeof req.query.authority === 'string' && { authority: req.query.authority })
+      });
+
+      res.json({
+        success: true,
+        data: {
+          authorities: this.certificationBodyService.getAuthorities(),
+          bodies
+        }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATION_BODIES_FETCH_FAILED', 'Failed to fetch certification bodies', {
+        userId: req.user.id
+      });
+    }
+  });
+
+  getCertificationBody = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { bodyId } = req.params;
+
+    try {
+      const body = await this.certificationBodyService.getBody(bodyId!);
+
+      res.json({
+        success: true,
+        data: body
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATION_BODY_FETCH_FAILED', 'Failed to fetch certification body', {
+        certificationBodyId: bodyId!
+      });
+    }
+  });
+
+  createCertificationBody = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const body = await this.certificationBodyService.createBody(req.user.id, req.body);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'CERTIFICATION_BODY_CREATED',
+        resource: 'certification_body',
+        resourceId: body.id,
+        details: { name: body.name },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: body
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATION_BODY_CREATE_FAILED', 'Failed to create certification body', {
+        userId: req.user.id
+      });
+    }
+  });
+
+  updateCertificationBody = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { bodyId } = req.params;
+
+    try {
+      const body = await this.certificationBodyService.updateBody(req.user.id, bodyId!, req.body);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'CERTIFICATION_BODY_UPDATED',
+        resource: 'certification_body',
+        resourceId: bodyId!,
+        details: { fields: Object.keys(req.body).filter(field => field !== 'version'), version: body.version },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: body
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATION_BODY_UPDATE_FAILED', 'Failed to update certification body', {
+        certificationBodyId: bodyId!
+      });
+    }
+  });
+
+  deleteCertificationBody = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { bodyId } = req.params;
+    const version = req.query.version === undefined ? undefined : Number(req.query.version);
+
+    try {
+      await this.certificationBodyService.deleteBody(bodyId!, version);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'CERTIFICATION_BODY_DELETED',
+        resource: 'certification_body',
+        resourceId: bodyId!,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        message: 'Certification body deleted'
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATION_BODY_DELETE_FAILED', 'Failed to delete certification body', {
+        certificationBodyId: bodyId!
+      });
+    }
+  });
+
+  setRecognition = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { bodyId, authority } = req.params;
+
+    try {
+      const body = await this.certificationBodyService.setRecognition(req.user.id, bodyId!, authority!, req.body);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'CERTIFICATION_BODY_RECOGNITION_SET',
+        resource: 'certification_body',
+        resourceId: bodyId!,
+        details: { authority: authority!, status: req.body.status || 'recognized', validUntil: req.body.validUntil },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: body
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'RECOGNITION_UPDATE_FAILED', 'Failed to update recognition', {
+        certificationBodyId: bodyId!,
+        authority: authority!
+      });
+    }
+  });
+
+  removeRecognition = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { bodyId, authority } = req.params;
+
+    try {
+      const body = await this.certificationBodyService.removeRecognition(req.user.id, bodyId!, authority!);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'CERTIFICATION_BODY_RECOGNITION_REMOVED',
+        resource: 'certification_body',
+        resourceId: bodyId!,
+        details: { authority: authority! },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: body
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'RECOGNITION_REMOVE_FAILED', 'Failed to remove recognition', {
+        certificationBodyId: bodyId!,
+        authority: authority!
+      });
+    }
+  });
+
+  /**
+   * Import certification bodies from CSV or JSON ({ format, content })
+   */
+  importCertificationBodies = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { format, content } = req.body;
+
+    try {
+      const result = await this.certificationBodyService.importBodies(req.user.id, format, content);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'CERTIFICATION_BODIES_IMPORTED',
+        resource: 'certification_body',
+        details: { format, created: result.created, updated: result.updated },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATION_BODY_IMPORT_FAILED', 'Failed to import certification bodies', {
+        userId: req.user.id
+      });
+    }
+  });
+
+  private sendError(res: Response, error: AppError, fallbackCode: string, fallbackMessage: string, context: Record<string, string>): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message, ...context });
+
+    res.status(500).json({
+      success: false,
+      error: fallbackCode,
+      message: fallbackMessage
+    });
+  }
+}
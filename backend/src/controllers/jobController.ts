@@ -0,0 +1,405 @@
+/**
+ * HalalCheck EU - Job Controller
+ *
+ * Background bulk analysis jobs: queueing, per-item progress over
+ * Server-Sent Events, cancellation and resuming failed items
+ */
+
+import { Request, Response } from 'express';
+import { AnalysisJobService } from '@/services/analysisJobService';
+import { AuditService } from '@/services/auditService';
+import { logger } from '@/utils/logger';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
+import { AnalysisJobEvent, AnalysisJobOptions, ProductAnalysisJobInput } from '@/types/halal';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export class JobController {
+  private jobService: AnalysisJobService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.jobService = new AnalysisJobService();
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * Queue an ingredient analysis job with one item per product
+   */
+  createAnalysisJob = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { items, language, region, certificationStandard, customRuleSetId, compareStandards, madhab, exportMarket } = req.body;
+    const options: AnalysisJobOptions = {
+      language: language || req.user.language || 'en',
+      region: region || 'EU',
+      certificationStandard: certificationStandard || 'HFCE',
+      ...(customRuleSetId && { customRuleSetId }),
+      ...(compareStandards !== undefined && { compareStandards }),
+      ...(madhab !== undefined && { madhab }),
+      ...(exportMarket !== undefined && { exportMarket })
+    };
+
+    const errors = this.jobService.validateAnalysisJob(items, options);
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: errors.join('; ')
+      });
+      return;
+    }
+
+    // Every product counts as one analysis against the monthly limit
+    const organization = req.user.organization;
+    if (organization && organization.monthlyAnalysisLimit > 0) {
+      const remaining = organization.monthlyAnalysisLimit - organization.currentMonthUsage;
+      if (items.length > remaining) {
+        res.status(429).json({
+          success: false,
+          error: 'USAGE_LIMIT_EXCEEDED',
+          message: `This job needs ${items.length} analyses but only ${Math.max(0, remaining)} remain this month`,
+          data: {
+            currentUsage: organization.currentMonthUsage,
+            limit: organization.monthlyAnalysisLimit
+          }
+        });
+        return;
+      }
+    }
+
+    try {
+      const job = await this.jobService.createJob({
+        organizationId: req.user.organizationId,
+        userId: req.user.id,
+        type: 'INGREDIENT_ANALYSIS',
+        options,
+        items: (items as ProductAnalysisJobInput[]).map(item => ({
+          label: item.productName.trim(),
+          input: { productName: item.productName.trim(), ingredientText: item.ingredientText.trim() }
+        }))
+      });
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'ANALYSIS_JOB_QUEUED',
+        resource: 'analysis_job',
+        resourceId: job.id,
+        details: {
+          type: job.type,
+          totalItems: job.totalItems,
+          certificationStandard: options.certificationStandard
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(202).json({
+        success: true,
+        message: `Queued ${job.totalItems} products for analysis`,
+        data: {
+          job,
+          eventsUrl: `${req.baseUrl}/${job.id}/events`
+        }
+      });
+
+    } catch (error) {
+      logger.error('Failed to queue analysis job', {
+        error: (error as Error).message,
+        userId: req.user.id
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'JOB_CREATION_FAILED',
+        message: 'Failed to queue analysis job'
+      });
+    }
+  });
+
+  /**
+   * Recent jobs of the organization
+   */
+  getJobs = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 20, 100);
+
+    try {
+      const jobs = await this.jobService.listJobs(req.user.organizationId, limit);
+
+      res.status(200).json({
+        success: true,
+        data: { jobs }
+      });
+
+    } catch (error) {
+      logger.error('Failed to fetch analysis jobs', { error: (error as Error).message });
+
+      res.status(500).json({
+        success: false,
+        error: 'FETCH_FAILED',
+        message: 'Failed to fetch analysis jobs'
+      });
+    }
+  });
+
+  /**
+   * Job with per-item status and results
+   */
+  getJob = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { jobId } = req.params;
+    if (!jobId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Job ID is required'
+      });
+      return;
+    }
+
+    const job = await this.jobService.getJob(jobId, req.user.organizationId);
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: 'JOB_NOT_FOUND',
+        message: 'Job not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { job }
+    });
+  });
+
+  /**
+   * Stream job progress as Server-Sent Events. The first event is a
+   * snapshot of the job and its items so clients can reconnect at any time;
+   * the stream ends once the job has finished.
+   */
+  streamJobEvents = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { jobId } = req.params;
+    if (!jobId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Job ID is required'
+      });
+      return;
+    }
+
+    // Subscribe before reading the snapshot so no progress is missed in between
+    const buffered: AnalysisJobEvent[] = [];
+    let send = (event: AnalysisJobEvent) => {
+      buffered.push(event);
+    };
+    const unsubscribe = this.jobService.subscribe(jobId, event => send(event));
+
+    const job = await this.jobService.getJob(jobId, req.user.organizationId);
+    if (!job) {
+      unsubscribe();
+      res.status(404).json({
+        success: false,
+        error: 'JOB_NOT_FOUND',
+        message: 'Job not found'
+      });
+      return;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const write = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      // Compression middleware buffers unless flushed
+      (res as Response & { flush?: () => void }).flush?.();
+    };
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+
+    write('snapshot', { job });
+    if (this.jobService.isFinished(job)) {
+      close();
+      return;
+    }
+
+    send = event => {
+      write(event.type, event);
+      if (event.type === 'job' && this.jobService.isFinished(event.job)) {
+        close();
+      }
+    };
+    buffered.forEach(event => send(event));
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  /**
+   * Cancel the pending items of a job
+   */
+  cancelJob = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { jobId } = req.params;
+    if (!jobId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Job ID is required'
+      });
+      return;
+    }
+
+    try {
+      const job = await this.jobService.cancelJob(jobId, req.user.organizationId);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'ANALYSIS_JOB_CANCELLED',
+        resource: 'analysis_job',
+        resourceId: job.id,
+        details: {
+          completedItems: job.completedItems,
+          totalItems: job.totalItems
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { job }
+      });
+
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CANCEL_FAILED', 'Failed to cancel job', { jobId });
+    }
+  });
+
+  /**
+   * Requeue the failed and cancelled items of a finished job
+   */
+  resumeJob = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { jobId } = req.params;
+    if (!jobId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Job ID is required'
+      });
+      return;
+    }
+
+    try {
+      const job = await this.jobService.resumeJob(jobId, req.user.organizationId);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'ANALYSIS_JOB_RESUMED',
+        resource: 'analysis_job',
+        resourceId: job.id,
+        details: {
+          completedItems: job.completedItems,
+          totalItems: job.totalItems
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(202).json({
+        success: true,
+        data: {
+          job,
+          eventsUrl: `${req.baseUrl}/${job.id}/events`
+        }
+      });
+
+    } catch (error) {
+      this.sendError(res, error as AppError, 'RESUME_FAILED', 'Failed to resume job', { jobId });
+    }
+  });
+
+  private sendError(res: Response, error: AppError, fallbackCode: string, fallbackMessage: string, context: Record<string, string>): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message, ...context });
+
+    res.status(500).json({
+      success: false,
+      error: fallbackCode,
+      message: fallbackMessage
+    });
+  }
+}
@@ -0,0 +1,482 @@
+/**
+ * HalalCheck EU - Knowledge Base Controller
+ *
+ * Reviewed classification changes, ingredient version history and
+ * re-evaluation of analyses affected by approved changes
+ */
+
+import { Request, Response } from 'express';
+import { KnowledgeBaseService, ChangeProposalInput } from '@/services/knowledgeBaseService';
+import { IngredientAnalysisService } from '@/services/ingredientAnalysisService';
+import { AuditService } from '@/services/auditService';
+import { WebhookService, analysisEventData } from '@/services/webhookService';
+import { logger } from '@/utils/logger';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
+import { AnalysisRequest, ChangeProposalStatus, ReevaluationFlagStatus, StandardVerdict } from '@/types/halal';
+
+const FLAG_STATUSES: ReevaluationFlagStatus[] = ['OPEN', 'REANALYZED', 'DISMISSED'];
+
+export class KnowledgeBaseController {
+  private knowledgeBase: KnowledgeBaseService;
+  private analysisService: IngredientAnalysisService;
+  private auditService: AuditService;
+  private webhookService: WebhookService;
+
+  constructor() {
+    this.knowledgeBase = new KnowledgeBaseService();
+    this.analysisService = new IngredientAnalysisService();
+    this.auditService = new AuditService();
+    this.webhookService = new WebhookService();
+  }
+
+  /**
+   * List change proposals
+   */
+  getProposals = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const status = req.query.status as string | undefined;
+
+    if (status && !(Object.values(ChangeProposalStatus) as string[]).includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: `status must be one of: ${Object.values(ChangeProposalStatus).join(', ')}`
+      });
+      return;
+    }
+
+    try {
+      const proposals = await this.knowledgeBase.listProposals({
+        ...(status && { status: status as ChangeProposalStatus }),
+        ...(typeof req.query.ingredientId === 'string' && { ingredientId: req.query.ingredientId })
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { proposals }
+      });
+
+    } catch (error) {
+      logger.error('Failed to fetch change proposals', { error: (error as Error).message });
+
+      res.status(500).json({
+        success: false,
+        error: 'FETCH_FAILED',
+        message: 'Failed to fetch change proposals'
+      });
+    }
+  });
+
+  /**
+   * Get a single change proposal
+   */
+  getProposal = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { proposalId } = req.params;
+
+    if (!proposalId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Proposal ID is required'
+      });
+      return;
+    }
+
+    const proposal = await this.knowledgeBase.getProposal(proposalId);
+
+    if (!proposal) {
+      res.status(404).json({
+        success: false,
+        error: 'PROPOSAL_NOT_FOUND',
+        message: 'Change proposal not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { proposal }
+    });
+  });
+
+  /**
+   * Propose a classification change for an ingredient
+   */
+  proposeChange = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { ingredientId } = req.params;
+    if (!ingredientId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Ingredient ID is required'
+      });
+      return;
+    }
+
+    const input: ChangeProposalInput = {
+      changes: req.body.changes,
+      rationale: req.body.rationale,
+      ...(req.body.references !== undefined && { references: req.body.references })
+    };
+    const errors = this.knowledgeBase.validateProposal(input);
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid change proposal',
+        details: errors
+      });
+      return;
+    }
+
+    try {
+      const proposal = await this.knowledgeBase.proposeChange(ingredientId, req.user.id, input);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'INGREDIENT_CHANGE_PROPOSED',
+        resource: 'ingredient',
+        resourceId: ingredientId,
+        details: {
+          proposalId: proposal.id,
+          baseVersion: proposal.baseVersion,
+          changes: proposal.changes
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { proposal }
+      });
+
+    } catch (error) {
+      this.sendError(res, error as AppError, 'PROPOSAL_FAILED', 'Failed to propose change', { ingredientId });
+    }
+  });
+
+  /**
+   * Approve a change proposal (second reviewer)
+   */
+  approveProposal = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { proposalId } = req.params;
+    if (!proposalId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Proposal ID is required'
+      });
+      return;
+    }
+
+    try {
+      const result = await this.knowledgeBase.approveProposal(proposalId, req.user.id, req.body.notes);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'INGREDIENT_CHANGE_APPROVED',
+        resource: 'ingredient',
+        resourceId: result.proposal.ingredientId,
+        details: {
+          proposalId,
+          proposedBy: result.proposal.proposedBy,
+          version: result.version,
+          flaggedAnalyses: result.flaggedAnalyses
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      this.sendError(res, error as AppError, 'APPROVAL_FAILED', 'Failed to approve change', { proposalId });
+    }
+  });
+
+  /**
+   * Reject a change proposal (second reviewer)
+   */
+  rejectProposal = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { proposalId } = req.params;
+    if (!proposalId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Proposal ID is required'
+      });
+      return;
+    }
+
+    try {
+      const proposal = await this.knowledgeBase.rejectProposal(proposalId, req.user.id, req.body.notes);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'INGREDIENT_CHANGE_REJECTED',
+        resource: 'ingredient',
+        resourceId: proposal.ingredientId,
+        details: { proposalId, proposedBy: proposal.proposedBy },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { proposal }
+      });
+
+    } catch (error) {
+      this.sendError(res, error as AppError, 'REJECTION_FAILED', 'Failed to reject change', { proposalId });
+    }
+  });
+
+  /**
+   * Version history of an ingredient
+   */
+  getIngredientHistory = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { ingredientId } = req.params;
+
+    if (!ingredientId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Ingredient ID is required'
+      });
+      return;
+    }
+
+    const [versions, proposals] = await Promise.all([
+      this.knowledgeBase.getHistory(ingredientId),
+      this.knowledgeBase.listProposals({ ingredientId })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: { versions, proposals }
+    });
+  });
+
+  /**
+   * Analyses of the organization flagged for re-evaluation
+   */
+  getReevaluations = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const status = (req.query.status as ReevaluationFlagStatus | undefined) || 'OPEN';
+    if (!FLAG_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: `status must be one of: ${FLAG_STATUSES.join(', ')}`
+      });
+      return;
+    }
+
+    const flags = await this.knowledgeBase.listFlags(req.user.organizationId, status);
+
+    res.status(200).json({
+      success: true,
+      data: { flags }
+    });
+  });
+
+  /**
+   * Re-run a flagged analysis with the current knowledge base
+   */
+  reanalyzeFlagged = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { flagId } = req.params;
+    if (!flagId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Flag ID is required'
+      });
+      return;
+    }
+
+    const found = await this.knowledgeBase.getFlagWithAnalysis(flagId, req.user.organizationId);
+    if (!found || found.flag.status !== 'OPEN') {
+      res.status(404).json({
+        success: false,
+        error: 'FLAG_NOT_FOUND',
+        message: 'Open re-evaluation flag not found'
+      });
+      return;
+    }
+
+    try {
+      const stored = found.analysis;
+      const compareStandards = ((stored.standard_verdicts || []) as StandardVerdict[]).map(verdict => verdict.standard);
+      const request: AnalysisRequest = {
+        productName: stored.product_name,
+        ingredientText: stored.ingredient_text,
+        language: stored.language,
+        region: stored.region,
+        certificationStandard: stored.certification_standard,
+        ...(stored.custom_rule_set_id && { customRuleSetId: stored.custom_rule_set_id }),
+        ...(compareStandards.length > 0 && { compareStandards }),
+        ...(stored.madhab && { madhab: stored.madhab }),
+        userId: req.user.id,
+        organizationId: req.user.organizationId
+      };
+
+      const reanalysis = await this.analysisService.analyzeIngredients(request);
+      const flag = await this.knowledgeBase.recordReanalysis(flagId, req.user.organizationId, req.user.id, reanalysis);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'ANALYSIS_REEVALUATED',
+        resource: 'analysis',
+        resourceId: found.flag.productAnalysisId,
+        details: {
+          flagId,
+          reanalysisId: reanalysis.id,
+          previousStatus: found.flag.previousOverallStatus,
+          newStatus: reanalysis.overallStatus
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      if (reanalysis.overallStatus !== found.flag.previousOverallStatus) {
+        await this.webhookService.publish(req.user.organizationId, 'halal-status-changed', {
+          ...analysisEventData(reanalysis),
+          previousAnalysisId: found.flag.productAnalysisId,
+          previousStatus: found.flag.previousOverallStatus,
+          reason: 'knowledge-base-change',
+          ingredientId: found.flag.ingredientId,
+          changeProposalId: found.flag.changeProposalId
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { flag, analysis: reanalysis }
+      });
+
+    } catch (error) {
+      this.sendError(res, error as AppError, 'REANALYSIS_FAILED', 'Failed to re-run analysis', { flagId });
+    }
+  });
+
+  /**
+   * Dismiss a re-evaluation flag after manual review
+   */
+  dismissFlag = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { flagId } = req.params;
+    if (!flagId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Flag ID is required'
+      });
+      return;
+    }
+
+    const flag = await this.knowledgeBase.dismissFlag(flagId, req.user.organizationId, req.user.id, req.body.notes);
+    if (!flag) {
+      res.status(404).json({
+        success: false,
+        error: 'FLAG_NOT_FOUND',
+        message: 'Open re-evaluation flag not found'
+      });
+      return;
+    }
+
+    await this.auditService.logAction({
+      userId: req.user.id,
+      organizationId: req.user.organizationId,
+      action: 'REEVALUATION_DISMISSED',
+      resource: 'analysis',
+      resourceId: flag.productAnalysisId,
+      details: { flagId, notes: req.body.notes },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { flag }
+    });
+  });
+
+  private sendError(res: Response, error: AppError, fallbackCode: string, fallbackMessage: string, context: Record<string, string>): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message, ...context });
+
+    res.status(500).json({
+      success: false,
+      error: fallbackCode,
+      message: fallbackMessage
+    });
+  }
+}
@@ -8,9 +8,12 @@ import { Request, Response } from 'express';
 import { DatabaseService } from '@/services/databaseService';
 import { AuditService } from '@/services/auditService';
 import { EmailService } from '@/services/emailService';
+import { LLM_PROVIDERS, isLLMProviderName } from '@/services/llmProvider';
+import { isMadhab } from '@/services/scholarlyConsensusService';
 import { logger } from '@/utils/logger';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { UserRole } from '@/types/auth';
+import { MADHABS } from '@/types/halal';
 
 export class OrganizationController {
   private db: DatabaseService;
@@ -41,7 +44,7 @@ export class OrganizationController {
         SELECT 
           id, name, type, country, address, phone, website,
           subscription_plan, monthly_analysis_limit, current_month_usage,
-          settings, created_at, updated_at
+          requires_mfa, settings, created_at, updated_at
         FROM organizations 
         WHERE id = $1
       `;
@@ -78,6 +81,7 @@ export class OrganizationController {
                 ? Math.round((org.current_month_usage / org.monthly_analysis_limit) * 100)
                 : 0
             },
+            requiresMFA: org.requires_mfa,
             settings: org.settings || {},
             createdAt: org.created_at,
             updatedAt: org.updated_at
@@ -122,7 +126,7 @@ export class OrganizationController {
       return;
     }
 
-    const { name, type, country, address, phone, website } = req.body;
+    const { name, type, country, address, phone, website, requiresMFA } = req.body;
 
     // Validate required fields
     if (!name || !type || !country) {
@@ -134,6 +138,15 @@ export class OrganizationController {
       return;
     }
 
+    if (requiresMFA !== undefined && typeof requiresMFA !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'requiresMFA must be a boolean'
+      });
+      return;
+    }
+
     try {
       const updateQuery = `
         UPDATE organizations 
@@ -144,9 +157,10 @@ export class OrganizationController {
           address = $4,
           phone = $5,
           website = $6,
+          requires_mfa = COALESCE($8, requires_mfa),
           updated_at = CURRENT_TIMESTAMP
         WHERE id = $7
-        RETURNING id, name, type, country, address, phone, website
+        RETURNING id, name, type, country, address, phone, website, requires_mfa
       `;
 
       const result = await this.db.query(updateQuery, [
@@ -156,7 +170,8 @@ export class OrganizationController {
         address,
         phone,
         website,
-        req.user.organizationId
+        req.user.organizationId,
+        requiresMFA ?? null
       ]);
 
       const updatedOrg = result.rows[0];
@@ -169,7 +184,7 @@ export class OrganizationController {
         resource: 'organization',
         resourceId: req.user.organizationId,
         details: {
-          updatedFields: { name, type, country, address, phone, website }
+          updatedFields: { name, type, country, address, phone, website, requiresMFA }
         },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent')
@@ -186,7 +201,8 @@ export class OrganizationController {
             country: updatedOrg.country,
             address: updatedOrg.address,
             phone: updatedOrg.phone,
-            website: updatedOrg.website
+            website: updatedOrg.website,
+            requiresMFA: updatedOrg.requires_mfa
           }
         }
       });
@@ -286,6 +302,24 @@ export class OrganizationController {
       return;
     }
 
+    if (settings.llmProvider !== undefined && !isLLMProviderName(settings.llmProvider)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: `llmProvider must be one of: ${LLM_PROVIDERS.join(', ')}`
+      });
+      return;
+    }
+
+    if (settings.madhab !== undefined && settings.madhab !== null && !isMadhab(settings.madhab)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: `madhab must be one of: ${MADHABS.join(', ')}`
+      });
+      return;
+    }
+
     try {
       // Get current settings first
       const currentQuery = 'SELECT settings FROM organizations WHERE id = $1';
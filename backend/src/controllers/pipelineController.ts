@@ -0,0 +1,447 @@
+/**
+ * HalalCheck EU - Pipeline Controller
+ *
+ * Applications, certificates and custom columns of the organization's shared
+ * applications pipeline
+ */
+
+import { Request, Response } from 'express';
+import { PipelineService } from '@/services/pipelineService';
+import { AuditService } from '@/services/auditService';
+import { logger } from '@/utils/logger';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
+import { PIPELINE_ORGANIZATION_TYPES, PipelineApplicationFilter, PipelineOrganizationType } from '@/types/pipeline';
+
+export class PipelineController {
+  private pipelineService: PipelineService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.pipelineService = new PipelineService();
+    this.auditService = new AuditService();
+  }
+
+  getApplications = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { organizationType, status } = req.query;
+    if (organizationType !== undefined && !PIPELINE_ORGANIZATION_TYPES.includes(organizationType as PipelineOrganizationType)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: `organizationType must be one of ${PIPELINE_ORGANIZATION_TYPES.join(', ')}`
+      });
+      return;
+    }
+
+    const filter: PipelineApplicationFilter = {
+      limit: Math.min(parseInt(req.query.limit as string, 10) || 500, 1000),
+      offset: Math.max(parseInt(req.query.offset as string, 10) || 0, 0),
+      ...(organizationType && { organizationType: organizationType as PipelineOrganizationType }),
+      ...(typeof status === 'string' && status && { status })
+    };
+
+    try {
+      const applications = await this.pipelineService.listApplications(req.user.organizationId, filter);
+
+      res.json({
+        success: true,
+        data: { applications }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'APPLICATIONS_FETCH_FAILED', 'Failed to fetch applications', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  getApplication = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { applicationId } = req.params;
+
+    try {
+      const application = await this.pipelineService.getApplication(req.user.organizationId, applicationId!);
+
+      res.json({
+        success: true,
+        data: { application }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'APPLICATION_FETCH_FAILED', 'Failed to fetch application', {
+        applicationId: applicationId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  createApplication = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const application = await this.pipelineService.createApplication(req.user.organizationId, req.user.id, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: { application }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'APPLICATION_CREATE_FAILED', 'Failed to create application', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Apply changes based on the given version; the response carries the
+   * certificate when the application reached the final stage
+   */
+  updateApplication = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { applicationId } = req.params;
+
+    try {
+      const update = await this.pipelineService.updateApplication(req.user.organizationId, req.user.id, applicationId!, req.body);
+
+      if (update.certificate) {
+        await this.auditService.logAction({
+          userId: req.user.id,
+          organizationId: req.user.organizationId,
+          action: 'PIPELINE_CERTIFICATE_ISSUED',
+          resource: 'pipeline_certificate',
+          resourceId: update.certificate.id,
+          details: { applicationId: applicationId!, certificateNumber: update.certificate.certificateNumber },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        });
+      }
+
+      res.json({
+        success: true,
+        data: update
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'APPLICATION_UPDATE_FAILED', 'Failed to update application', {
+        applicationId: applicationId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  deleteApplication = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { applicationId } = req.params;
+    const version = req.query.version === undefined ? undefined : Number(req.query.version);
+
+    try {
+      await this.pipelineService.deleteApplication(req.user.organizationId, req.user.id, applicationId!, version);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'PIPELINE_APPLICATION_DELETED',
+        resource: 'pipeline_application',
+        resourceId: applicationId!,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        message: 'Application deleted'
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'APPLICATION_DELETE_FAILED', 'Failed to delete application', {
+        applicationId: applicationId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Issue the application's certificate, or return the one it already has
+   */
+  issueCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { applicationId } = req.params;
+
+    try {
+      const certificate = await this.pipelineService.issueCertificate(
+        req.user.organizationId,
+        req.user.id,
+        applicationId!,
+        req.body.id
+      );
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'PIPELINE_CERTIFICATE_ISSUED',
+        resource: 'pipeline_certificate',
+        resourceId: certificate.id,
+        details: { applicationId: applicationId!, certificateNumber: certificate.certificateNumber },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { certificate }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_ISSUE_FAILED', 'Failed to issue certificate', {
+        applicationId: applicationId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  getCertificates = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const certificates = await this.pipelineService.listCertificates(req.user.organizationId);
+
+      res.json({
+        success: true,
+        data: { certificates }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATES_FETCH_FAILED', 'Failed to fetch certificates', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  getCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { certificateId } = req.params;
+
+    try {
+      const certificate = await this.pipelineService.getCertificate(req.user.organizationId, certificateId!);
+
+      res.json({
+        success: true,
+        data: { certificate }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_FETCH_FAILED', 'Failed to fetch certificate', {
+        certificateId: certificateId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  updateCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { certificateId } = req.params;
+
+    try {
+      const certificate = await this.pipelineService.updateCertificate(req.user.organizationId, req.user.id, certificateId!, req.body);
+
+      if (req.body.status !== undefined) {
+        await this.auditService.logAction({
+          userId: req.user.id,
+          organizationId: req.user.organizationId,
+          action: 'PIPELINE_CERTIFICATE_STATUS_CHANGED',
+          resource: 'pipeline_certificate',
+          resourceId: certificate.id,
+          details: { status: certificate.status },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { certificate }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_UPDATE_FAILED', 'Failed to update certificate', {
+        certificateId: certificateId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  deleteCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { certificateId } = req.params;
+
+    try {
+      await this.pipelineService.deleteCertificate(req.user.organizationId, req.user.id, certificateId!);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'PIPELINE_CERTIFICATE_DELETED',
+        resource: 'pipeline_certificate',
+        resourceId: certificateId!,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        message: 'Certificate deleted'
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_DELETE_FAILED', 'Failed to delete certificate', {
+        certificateId: certificateId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  getColumns = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const config = await this.pipelineService.getColumns(req.user.organizationId);
+
+      res.json({
+        success: true,
+        data: config
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'COLUMNS_FETCH_FAILED', 'Failed to fetch pipeline columns', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Replace the custom columns; applications in removed columns move back to
+   * the first stage
+   */
+  updateColumns = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const config = await this.pipelineService.updateColumns(
+        req.user.organizationId,
+        req.user.id,
+        req.body.columns,
+        req.body.version
+      );
+
+      res.json({
+        success: true,
+        data: config
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'COLUMNS_UPDATE_FAILED', 'Failed to update pipeline columns', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  private sendError(res: Response, error: AppError, fallbackCode: string, fallbackMessage: string, context: Record<string, string>): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message, ...context });
+
+    res.status(500).json({
+      success: false,
+      error: fallbackCode,
+      message: fallbackMessage
+    });
+  }
+}
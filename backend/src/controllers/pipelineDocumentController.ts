@@ -0,0 +1,425 @@
+/**
+ * HalalCheck EU - Pipeline Document Controller
+ *
+ * The organization's document checklist, the documents uploaded for pipeline
+ * applications and the endpoints the agent system uses to process them
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { DOCUMENT_CONTENT_TYPES, MAX_DOCUMENT_SIZE, PipelineDocumentService } from '@/services/pipelineDocumentService';
+import { AuditService } from '@/services/auditService';
+import { logger } from '@/utils/logger';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
+
+export class PipelineDocumentController {
+  private pipelineDocumentService: PipelineDocumentService;
+  private auditService: AuditService;
+  private upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_DOCUMENT_SIZE, files: 1 },
+    fileFilter: (_req, file, cb) => cb(null, DOCUMENT_CONTENT_TYPES.includes(file.mimetype))
+  }).single('file');
+
+  constructor() {
+    this.pipelineDocumentService = new PipelineDocumentService();
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * Read the multipart 'file' field into memory, answering 400 when the
+   * upload is too large or malformed
+   */
+  uploadFile = (req: Request, res: Response, next: NextFunction): void => {
+    this.upload(req, res, error => {
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE'
+            ? `Files must be at most ${MAX_DOCUMENT_SIZE / 1024 / 1024}MB`
+            : (error as Error).message
+        });
+        return;
+      }
+      next();
+    });
+  };
+
+  getChecklist = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const checklist = await this.pipelineDocumentService.getChecklist(req.user.organizationId);
+
+      res.json({
+        success: true,
+        data: checklist
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CHECKLIST_FETCH_FAILED', 'Failed to fetch document checklist', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  updateChecklist = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const checklist = await this.pipelineDocumentService.updateChecklist(
+        req.user.organizationId,
+        req.user.id,
+        req.body.items,
+        req.body.version
+      );
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'DOCUMENT_CHECKLIST_UPDATED',
+        resource: 'document_checklist',
+        resourceId: req.user.organizationId,
+        details: { items: checklist.items.map(item => item.key), version: checklist.version },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: checklist
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CHECKLIST_UPDATE_FAILED', 'Failed to update document checklist', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * The application's checklist with the state of each item
+   */
+  getApplicationChecklist = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { applicationId } = req.params;
+
+    try {
+      const checklist = await this.pipelineDocumentService.getApplicationChecklist(req.user.organizationId, applicationId!);
+
+      res.json({
+        success: true,
+        data: checklist
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CHECKLIST_FETCH_FAILED', 'Failed to fetch application checklist', {
+        applicationId: applicationId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  getDocuments = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { applicationId } = req.params;
+
+    try {
+      const documents = await this.pipelineDocumentService.listDocuments(req.user.organizationId, applicationId!);
+
+      res.json({
+        success: true,
+        data: { documents }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'DOCUMENTS_FETCH_FAILED', 'Failed to fetch documents', {
+        applicationId: applicationId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  uploadDocument = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Upload a PDF, image, text or spreadsheet file in the file field'
+      });
+      return;
+    }
+
+    const { applicationId } = req.params;
+    const checklistItem = typeof req.body.checklistItem === 'string' && req.body.checklistItem
+      ? req.body.checklistItem
+      : undefined;
+
+    try {
+      const document = await this.pipelineDocumentService.uploadDocument(
+        req.user.organizationId,
+        req.user.id,
+        applicationId!,
+        { originalName: req.file.originalname, contentType: req.file.mimetype, buffer: req.file.buffer },
+        checklistItem
+      );
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'PIPELINE_DOCUMENT_UPLOADED',
+        resource: 'pipeline_document',
+        resourceId: document.id,
+        details: { applicationId: applicationId!, fileName: document.fileName, checklistItem: document.checklistItem },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: document
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'DOCUMENT_UPLOAD_FAILED', 'Failed to upload document', {
+        applicationId: applicationId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  getDocumentContent = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { documentId } = req.params;
+
+    try {
+      const { document, content } = await this.pipelineDocumentService.getDocumentContent(req.user.organizationId, documentId!);
+
+      res.setHeader('Content-Type', document.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(document.fileName)}`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.status(200).send(content);
+    } catch (error) {
+      this.sendError(res, error as AppError, 'DOCUMENT_FETCH_FAILED', 'Failed to fetch document', {
+        documentId: documentId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Correct the checklist item or certificate details of a document
+   */
+  updateDocument = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { documentId } = req.params;
+
+    try {
+      const document = await this.pipelineDocumentService.updateDocument(req.user.organizationId, req.user.id, documentId!, req.body);
+
+      res.json({
+        success: true,
+        data: document
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'DOCUMENT_UPDATE_FAILED', 'Failed to update document', {
+        documentId: documentId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  deleteDocument = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { documentId } = req.params;
+
+    try {
+      await this.pipelineDocumentService.deleteDocument(req.user.organizationId, req.user.id, documentId!);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'PIPELINE_DOCUMENT_DELETED',
+        resource: 'pipeline_document',
+        resourceId: documentId!,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        message: 'Document deleted'
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'DOCUMENT_DELETE_FAILED', 'Failed to delete document', {
+        documentId: documentId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Documents of the organization's applications that expired or expire
+   * within the given number of days (default 30)
+   */
+  getExpiringDocuments = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const withinDays = req.query.withinDays === undefined ? undefined : Number(req.query.withinDays);
+
+    try {
+      const documents = await this.pipelineDocumentService.listExpiringDocuments(req.user.organizationId, withinDays);
+
+      res.json({
+        success: true,
+        data: { documents }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'DOCUMENTS_FETCH_FAILED', 'Failed to fetch expiring documents', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Claim documents waiting to be parsed (used by the agent system)
+   */
+  claimPendingDocuments = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const documents = await this.pipelineDocumentService.claimPendingDocuments(req.user.organizationId, req.body.limit);
+
+      res.json({
+        success: true,
+        data: { documents }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'DOCUMENTS_CLAIM_FAILED', 'Failed to claim pending documents', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Record what the agent system extracted from a claimed document
+   */
+  recordExtraction = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { documentId } = req.params;
+
+    try {
+      const document = await this.pipelineDocumentService.recordExtraction(req.user.organizationId, documentId!, req.body);
+
+      res.json({
+        success: true,
+        data: document
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'EXTRACTION_RECORD_FAILED', 'Failed to record document extraction', {
+        documentId: documentId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  private sendError(res: Response, error: AppError, fallbackCode: string, fallbackMessage: string, context: Record<string, string>): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message, ...context });
+
+    res.status(500).json({
+      success: false,
+      error: fallbackCode,
+      message: fallbackMessage
+    });
+  }
+}
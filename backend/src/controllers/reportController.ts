@@ -7,16 +7,20 @@
 import { Request, Response } from 'express';
 import { DatabaseService } from '@/services/databaseService';
 import { AuditService } from '@/services/auditService';
+import { ReportingService } from '@/services/reportingService';
+import { ReportBranding, ReportFormat, ReportType } from '@/types/reports';
 import { logger } from '@/utils/logger';
-import { asyncHandler } from '@/middleware/errorHandler';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
 
 export class ReportController {
   private db: DatabaseService;
   private auditService: AuditService;
+  private reportingService: ReportingService;
 
   constructor() {
     this.db = new DatabaseService();
     this.auditService = new AuditService();
+    this.reportingService = new ReportingService(this.db);
   }
 
   /**
@@ -340,6 +344,177 @@ export class ReportController {
     }
   });
 
+  /**
+   * Render an analysis report as PDF, Excel or JSON and return a signed download link
+   */
+  generateReport = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const errors = this.reportingService.validateReportRequest(req.body);
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: errors.join('; '),
+        details: errors
+      });
+      return;
+    }
+
+    const { analysisId } = req.params;
+    const type = req.body.type as ReportType;
+    const format = req.body.format as ReportFormat;
+    const customBranding = req.body.customBranding as ReportBranding | undefined;
+
+    try {
+      const { report, download, metadata } = await this.reportingService.generateReport({
+        analysisId: analysisId!,
+        type,
+        format,
+        language: req.body.language || req.user.language || 'en',
+        includeBranding: !!customBranding,
+        ...(customBranding && { customBranding }),
+        userId: req.user.id,
+        organizationId: req.user.organizationId
+      }, req.body.linkExpiresInHours);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'REPORT_GENERATED',
+        resource: 'report',
+        resourceId: report.id,
+        details: {
+          analysisId,
+          type,
+          format,
+          language: report.language,
+          fileSize: report.fileSize,
+          linkExpiresAt: download.expiresAt
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          report,
+          metadata,
+          downloadUrl: download.url,
+          downloadExpiresAt: download.expiresAt
+        }
+      });
+
+    } catch (error) {
+      this.sendError(res, error as AppError, 'REPORT_GENERATION_FAILED', 'Failed to generate report', {
+        analysisId: analysisId!,
+        userId: req.user.id
+      });
+    }
+  });
+
+  /**
+   * Issue a new signed download link for a stored report
+   */
+  createDownloadLink = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { reportId } = req.params;
+    const { expiresInHours } = req.body;
+    if (expiresInHours !== undefined && !this.reportingService.isValidLinkTtl(expiresInHours)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'expiresInHours must be a whole number of hours between 1 and 168'
+      });
+      return;
+    }
+
+    try {
+      const download = await this.reportingService.createDownloadLink(reportId!, req.user.organizationId, expiresInHours);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'REPORT_LINK_CREATED',
+        resource: 'report',
+        resourceId: reportId,
+        details: { expiresAt: download.expiresAt },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          downloadUrl: download.url,
+          downloadExpiresAt: download.expiresAt
+        }
+      });
+
+    } catch (error) {
+      this.sendError(res, error as AppError, 'REPORT_LINK_FAILED', 'Failed to create download link', {
+        reportId: reportId!,
+        userId: req.user.id
+      });
+    }
+  });
+
+  /**
+   * Download a report through a signed link; no session required so links can be shared
+   */
+  downloadReport = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { reportId } = req.params;
+
+    try {
+      const { report, buffer } = await this.reportingService.getDownload(reportId!, req.query.expires, req.query.signature);
+
+      await this.auditService.logAction({
+        organizationId: report.organizationId,
+        action: 'REPORT_DOWNLOADED',
+        resource: 'report',
+        resourceId: report.id,
+        details: {
+          analysisId: report.analysisId,
+          format: report.format,
+          linkExpiresAt: new Date(Number(req.query.expires) * 1000),
+          downloadCount: report.downloadCount
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.setHeader('Content-Type', report.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${report.fileName}"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      if (report.signature) {
+        res.setHeader('X-Document-Signature', report.signature.signature);
+        res.setHeader('X-Signing-Key-Id', report.signature.keyId);
+      }
+      res.status(200).send(buffer);
+
+    } catch (error) {
+      this.sendError(res, error as AppError, 'REPORT_DOWNLOAD_FAILED', 'Failed to download report', {
+        reportId: reportId!
+      });
+    }
+  });
+
   /**
    * Get ingredient frequency report
    */
@@ -428,4 +603,23 @@ export class ReportController {
       });
     }
   });
-}
\ No newline at end of file
+
+  private sendError(res: Response, error: AppError, fallbackCode: string, fallbackMessage: string, context: Record<string, string>): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message, ...context });
+
+    res.status(500).json({
+      success: false,
+      error: fallbackCode,
+      message: fallbackMessage
+    });
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * HalalCheck EU - Signing Key Controller
+ *
+ * The organization's document signing keys, their rotation and the public
+ * key set used to verify signed certificates and reports
+ */
+
+import { Request, Response } from 'express';
+import { SigningKeyService } from '@/services/signingKeyService';
+import { AuditService } from '@/services/auditService';
+import { logger } from '@/utils/logger';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
+
+// Key sets change only on rotation; verifiers may cache them briefly
+const JWKS_CACHE_SECONDS = 300;
+
+export class SigningKeyController {
+  private signingKeyService: SigningKeyService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.signingKeyService = new SigningKeyService();
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * List the organization's signing keys (public halves only)
+   */
+  getSigningKeys = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const signingKeys = await this.signingKeyService.listKeys(req.user.organizationId);
+
+      res.json({
+        success: true,
+        data: {
+          signingKeys,
+          jwksUrl: this.signingKeyService.jwksUrl(req.user.organizationId)
+        }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'SIGNING_KEYS_FETCH_FAILED', 'Failed to fetch signing keys', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Retire the active signing key and create a new one
+   */
+  rotateSigningKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const signingKey = await this.signingKeyService.rotateKey(req.user.organizationId);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'SIGNING_KEY_ROTATED',
+        resource: 'signing_key',
+        resourceId: signingKey.id,
+        details: { algorithm: signingKey.algorithm },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { signingKey }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'SIGNING_KEY_ROTATION_FAILED', 'Failed to rotate signing key', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Public key set of an organization in JWKS form
+   */
+  getJwks = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { organizationId } = req.params;
+
+    try {
+      const jwks = await this.signingKeyService.getJwks(organizationId || '');
+
+      res.setHeader('Cache-Control', `public, max-age=${JWKS_CACHE_SECONDS}`);
+      res.json(jwks);
+    } catch (error) {
+      this.sendError(res, error as AppError, 'SIGNING_KEYS_FETCH_FAILED', 'Failed to fetch signing keys', {
+        organizationId: organizationId || ''
+      });
+    }
+  });
+
+  private sendError(res: Response, error: AppError, fallbackCode: string, fallbackMessage: string, context: Record<string, string>): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message, ...context });
+
+    res.status(500).json({
+      success: false,
+      error: fallbackCode,
+      message: fallbackMessage
+    });
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * HalalCheck EU - Certification Standards Controller
+ *
+ * Built-in certification standard rule sets and CUSTOM rule sets
+ * defined by certification bodies
+ */
+
+import { Request, Response } from 'express';
+import { CertificationRuleEngine, CustomRuleSetInput } from '@/services/certificationRuleEngine';
+import { AuditService } from '@/services/auditService';
+import { logger } from '@/utils/logger';
+import { asyncHandler } from '@/middleware/errorHandler';
+
+export class StandardsController {
+  private ruleEngine: CertificationRuleEngine;
+  private auditService: AuditService;
+
+  constructor() {
+    this.ruleEngine = new CertificationRuleEngine();
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * List built-in certification standards and their rules
+   */
+  getStandards = asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    res.status(200).json({
+      success: true,
+      data: { standards: this.ruleEngine.getBuiltInRuleSets() }
+    });
+  });
+
+  /**
+   * List custom rule sets available to the organization
+   */
+  getCustomRuleSets = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const ruleSets = await this.ruleEngine.listCustomRuleSets(req.user.organizationId);
+
+      res.status(200).json({
+        success: true,
+        data: { ruleSets }
+      });
+
+    } catch (error) {
+      logger.error('Failed to fetch custom rule sets', {
+        error: (error as Error).message,
+        organizationId: req.user.organizationId
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'FETCH_FAILED',
+        message: 'Failed to fetch custom rule sets'
+      });
+    }
+  });
+
+  /**
+   * Create a custom rule set
+   */
+  createCustomRuleSet = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const input = this.parseRuleSetInput(req.body);
+    const errors = this.ruleEngine.validateRuleSet(input);
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid rule set',
+        details: errors
+      });
+      return;
+    }
+
+    try {
+      const ruleSet = await this.ruleEngine.createCustomRuleSet(req.user.organizationId, req.user.id, input);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'RULE_SET_CREATED',
+        resource: 'certification_rule_set',
+        resourceId: ruleSet.id,
+        details: {
+          name: ruleSet.name,
+          extends: input.extends,
+          ruleCount: input.rules.length
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { ruleSet }
+      });
+
+    } catch (error) {
+      logger.error('Failed to create custom rule set', {
+        error: (error as Error).message,
+        organizationId: req.user.organizationId
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'CREATE_FAILED',
+        message: 'Failed to create custom rule set'
+      });
+    }
+  });
+
+  /**
+   * Replace a custom rule set owned by the organization
+   */
+  updateCustomRuleSet = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { ruleSetId } = req.params;
+
+    if (!ruleSetId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Rule set ID is required'
+      });
+      return;
+    }
+
+    const input = this.parseRuleSetInput(req.body);
+    const errors = this.ruleEngine.validateRuleSet(input);
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid rule set',
+        details: errors
+      });
+      return;
+    }
+
+    try {
+      const ruleSet = await this.ruleEngine.updateCustomRuleSet(req.user.organizationId, ruleSetId, input);
+
+      if (!ruleSet) {
+        res.status(404).json({
+          success: false,
+          error: 'NOT_FOUND',
+          message: 'Rule set not found'
+        });
+        return;
+      }
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'RULE_SET_UPDATED',
+        resource: 'certification_rule_set',
+        resourceId: ruleSetId,
+        details: {
+          name: ruleSet.name,
+          version: ruleSet.version,
+          ruleCount: input.rules.length
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { ruleSet }
+      });
+
+    } catch (error) {
+      logger.error('Failed to update custom rule set', {
+        error: (error as Error).message,
+        ruleSetId,
+        organizationId: req.user.organizationId
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'UPDATE_FAILED',
+        message: 'Failed to update custom rule set'
+      });
+    }
+  });
+
+  /**
+   * Delete a custom rule set owned by the organization
+   */
+  deleteCustomRuleSet = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { ruleSetId } = req.params;
+
+    if (!ruleSetId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Rule set ID is required'
+      });
+      return;
+    }
+
+    try {
+      const deleted = await this.ruleEngine.deleteCustomRuleSet(req.user.organizationId, ruleSetId);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'NOT_FOUND',
+          message: 'Rule set not found'
+        });
+        return;
+      }
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'RULE_SET_DELETED',
+        resource: 'certification_rule_set',
+        resourceId: ruleSetId,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Rule set deleted successfully'
+      });
+
+    } catch (error) {
+      logger.error('Failed to delete custom rule set', {
+        error: (error as Error).message,
+        ruleSetId,
+        organizationId: req.user.organizationId
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'DELETE_FAILED',
+        message: 'Failed to delete custom rule set'
+      });
+    }
+  });
+
+  private parseRuleSetInput(body: any): CustomRuleSetInput {
+    return {
+      name: typeof body.name === 'string' ? body.name.trim() : body.name,
+      version: body.version,
+      extends: body.extends,
+      rules: body.rules,
+      isShared: body.isShared === true
+    };
+  }
+}
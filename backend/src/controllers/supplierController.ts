@@ -0,0 +1,463 @@
+/**
+ * HalalCheck EU - Supplier Controller
+ *
+ * The organization's supplier registry: suppliers, the raw materials they
+ * provide and their halal certificates
+ */
+
+import { Request, Response } from 'express';
+import { SupplierService } from '@/services/supplierService';
+import { AuditService } from '@/services/auditService';
+import { logger } from '@/utils/logger';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
+
+export class SupplierController {
+  private supplierService: SupplierService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.supplierService = new SupplierService();
+    this.auditService = new AuditService();
+  }
+
+  getSuppliers = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const suppliers = await this.supplierService.listSuppliers(req.user.organizationId);
+
+      res.json({
+        success: true,
+        data: { suppliers }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'SUPPLIERS_FETCH_FAILED', 'Failed to fetch suppliers', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Knowledge-base ingredients matching ?search=, for linking materials
+   */
+  searchIngredients = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const ingredients = await this.supplierService.searchIngredients(req.query.search as string);
+
+      res.json({
+        success: true,
+        data: { ingredients }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'INGREDIENT_SEARCH_FAILED', 'Failed to search ingredients', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  getSupplier = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { supplierId } = req.params;
+
+    try {
+      const supplier = await this.supplierService.getSupplier(req.user.organizationId, supplierId!);
+
+      res.json({
+        success: true,
+        data: supplier
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'SUPPLIER_FETCH_FAILED', 'Failed to fetch supplier', {
+        supplierId: supplierId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  createSupplier = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const supplier = await this.supplierService.createSupplier(req.user.organizationId, req.user.id, req.body);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'SUPPLIER_CREATED',
+        resource: 'supplier',
+        resourceId: supplier.id,
+        details: { name: supplier.name },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: supplier
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'SUPPLIER_CREATE_FAILED', 'Failed to create supplier', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  updateSupplier = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { supplierId } = req.params;
+
+    try {
+      const supplier = await this.supplierService.updateSupplier(req.user.organizationId, req.user.id, supplierId!, req.body);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'SUPPLIER_UPDATED',
+        resource: 'supplier',
+        resourceId: supplierId!,
+        details: { fields: Object.keys(req.body).filter(field => field !== 'version'), version: supplier.version },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: supplier
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'SUPPLIER_UPDATE_FAILED', 'Failed to update supplier', {
+        supplierId: supplierId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  deleteSupplier = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { supplierId } = req.params;
+    const version = req.query.version === undefined ? undefined : Number(req.query.version);
+
+    try {
+      await this.supplierService.deleteSupplier(req.user.organizationId, supplierId!, version);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'SUPPLIER_DELETED',
+        resource: 'supplier',
+        resourceId: supplierId!,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        message: 'Supplier deleted'
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'SUPPLIER_DELETE_FAILED', 'Failed to delete supplier', {
+        supplierId: supplierId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Register a raw material the supplier provides, optionally linked to a
+   * knowledge-base ingredient
+   */
+  addMaterial = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { supplierId } = req.params;
+
+    try {
+      const material = await this.supplierService.addMaterial(req.user.organizationId, supplierId!, req.body);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'SUPPLIER_MATERIAL_ADDED',
+        resource: 'supplier_material',
+        resourceId: material.id,
+        details: { supplierId: supplierId!, name: material.name, ingredientId: material.ingredientId },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: material
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'MATERIAL_CREATE_FAILED', 'Failed to add material', {
+        supplierId: supplierId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  updateMaterial = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { supplierId, materialId } = req.params;
+
+    try {
+      const material = await this.supplierService.updateMaterial(req.user.organizationId, supplierId!, materialId!, req.body);
+
+      res.json({
+        success: true,
+        data: material
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'MATERIAL_UPDATE_FAILED', 'Failed to update material', {
+        supplierId: supplierId!,
+        materialId: materialId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  removeMaterial = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { supplierId, materialId } = req.params;
+
+    try {
+      await this.supplierService.removeMaterial(req.user.organizationId, supplierId!, materialId!);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'SUPPLIER_MATERIAL_REMOVED',
+        resource: 'supplier_material',
+        resourceId: materialId!,
+        details: { supplierId: supplierId! },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        message: 'Material removed'
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'MATERIAL_DELETE_FAILED', 'Failed to remove material', {
+        supplierId: supplierId!,
+        materialId: materialId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Record a halal certificate of the supplier and the materials it covers
+   */
+  addCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { supplierId } = req.params;
+
+    try {
+      const certificate = await this.supplierService.addCertificate(req.user.organizationId, req.user.id, supplierId!, req.body);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'SUPPLIER_CERTIFICATE_ADDED',
+        resource: 'supplier_certificate',
+        resourceId: certificate.id,
+        details: {
+          supplierId: supplierId!,
+          issuer: certificate.issuer,
+          certificateNumber: certificate.certificateNumber,
+          validUntil: certificate.validUntil
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: certificate
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_CREATE_FAILED', 'Failed to add supplier certificate', {
+        supplierId: supplierId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  updateCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { supplierId, certificateId } = req.params;
+
+    try {
+      const certificate = await this.supplierService.updateCertificate(req.user.organizationId, supplierId!, certificateId!, req.body);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'SUPPLIER_CERTIFICATE_UPDATED',
+        resource: 'supplier_certificate',
+        resourceId: certificateId!,
+        details: { supplierId: supplierId!, fields: Object.keys(req.body), status: certificate.status },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: certificate
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_UPDATE_FAILED', 'Failed to update supplier certificate', {
+        supplierId: supplierId!,
+        certificateId: certificateId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  removeCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { supplierId, certificateId } = req.params;
+
+    try {
+      await this.supplierService.removeCertificate(req.user.organizationId, supplierId!, certificateId!);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'SUPPLIER_CERTIFICATE_REMOVED',
+        resource: 'supplier_certificate',
+        resourceId: certificateId!,
+        details: { supplierId: supplierId! },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        message: 'Supplier certificate removed'
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'CERTIFICATE_DELETE_FAILED', 'Failed to remove supplier certificate', {
+        supplierId: supplierId!,
+        certificateId: certificateId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  private sendError(res: Response, error: AppError, fallbackCode: string, fallbackMessage: string, context: Record<string, string>): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message, ...context });
+
+    res.status(500).json({
+      success: false,
+      error: fallbackCode,
+      message: fallbackMessage
+    });
+  }
+}
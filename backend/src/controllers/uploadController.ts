@@ -7,16 +7,19 @@
 import { Request, Response } from 'express';
 import { OCRService } from '@/services/ocrService';
 import { AuditService } from '@/services/auditService';
+import { AnalysisJobService } from '@/services/analysisJobService';
 import { logger } from '@/utils/logger';
 import { asyncHandler } from '@/middleware/errorHandler';
 
 export class UploadController {
   private ocrService: OCRService;
   private auditService: AuditService;
+  private jobService: AnalysisJobService;
 
   constructor() {
     this.ocrService = new OCRService();
     this.auditService = new AuditService();
+    this.jobService = new AnalysisJobService();
   }
 
   /**
@@ -74,7 +77,11 @@ export class UploadController {
       });
 
       // Process image with OCR
-      const ocrResult = await this.ocrService.processIngredientLabel(req.file.path, language);
+      const ocrResult = await this.ocrService.processIngredientLabel(
+        req.file.path,
+        language,
+        req.user.organizationId
+      );
 
       // Log OCR completion
       await this.auditService.logAction({
@@ -157,7 +164,8 @@ export class UploadController {
   });
 
   /**
-   * Upload multiple ingredient label images (batch processing)
+   * Upload multiple ingredient label images (batch processing).
+   * OCR runs as a background job; progress streams from /api/jobs/:jobId/events.
    */
   uploadMultipleLabels = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     if (!req.user) {
@@ -190,97 +198,88 @@ export class UploadController {
     }
 
     const language = req.body.language || 'auto';
-    const results: any[] = [];
+    const accepted: Express.Multer.File[] = [];
     const errors: any[] = [];
 
-    // Log batch upload
-    await this.auditService.logAction({
-      userId: req.user.id,
-      organizationId: req.user.organizationId,
-      action: 'BATCH_UPLOAD_STARTED',
-      resource: 'ingredient_labels',
-      details: {
-        fileCount: files.length,
-        language
-      },
-      ipAddress: req.ip,
-      userAgent: req.get('User-Agent')
-    });
-
-    // Process each file
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      
+    // Reject invalid images up front; only valid ones are queued
+    files.forEach((file, index) => {
       try {
         this.ocrService.validateUploadedImage(file);
-        const ocrResult = await this.ocrService.processIngredientLabel(file.path, language);
-
-        results.push({
-          index: i,
-          filename: file.filename,
-          originalName: file.originalname,
-          ocr: {
-            extractedText: ocrResult.extractedText,
-            confidence: Math.round(ocrResult.confidence * 100),
-            detectedLanguage: ocrResult.language,
-            processingTimeMs: ocrResult.processingTimeMs
-          }
-        });
-
-        // Clean up file
-        if (process.env.CLEANUP_UPLOADS === 'true') {
-          setTimeout(() => {
-            this.ocrService.cleanupFile(file.path);
-          }, 5000);
-        }
-
+        accepted.push(file);
       } catch (error) {
-        logger.error('Batch processing failed for file', {
-          error: error.message,
-          filename: file.filename,
-          index: i
-        });
-
         errors.push({
-          index: i,
+          index,
           filename: file.filename,
           originalName: file.originalname,
-          error: error.message
+          error: (error as Error).message
         });
-
-        // Clean up failed file
         this.ocrService.cleanupFile(file.path);
       }
+    });
+
+    if (accepted.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'None of the uploaded images can be processed',
+        data: { errors }
+      });
+      return;
     }
 
-    // Log batch completion
-    await this.auditService.logAction({
-      userId: req.user.id,
-      organizationId: req.user.organizationId,
-      action: 'BATCH_UPLOAD_COMPLETED',
-      resource: 'ingredient_labels',
-      details: {
-        totalFiles: files.length,
-        successCount: results.length,
-        errorCount: errors.length
-      },
-      ipAddress: req.ip,
-      userAgent: req.get('User-Agent')
-    });
+    try {
+      const job = await this.jobService.createJob({
+        organizationId: req.user.organizationId,
+        userId: req.user.id,
+        type: 'LABEL_OCR',
+        options: { language },
+        items: accepted.map(file => ({
+          label: file.originalname,
+          input: { filePath: file.path, filename: file.filename, originalName: file.originalname }
+        }))
+      });
 
-    res.status(200).json({
-      success: true,
-      message: `Batch processing completed: ${results.length} successful, ${errors.length} failed`,
-      data: {
-        results,
-        errors,
-        summary: {
-          totalFiles: files.length,
-          successCount: results.length,
-          errorCount: errors.length
+      // Log batch upload
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'BATCH_UPLOAD_STARTED',
+        resource: 'ingredient_labels',
+        resourceId: job.id,
+        details: {
+          fileCount: files.length,
+          queuedCount: accepted.length,
+          errorCount: errors.length,
+          language
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(202).json({
+        success: true,
+        message: `Queued ${accepted.length} images for processing`,
+        data: {
+          job,
+          eventsUrl: `/api/jobs/${job.id}/events`,
+          errors
         }
-      }
-    });
+      });
+
+    } catch (error) {
+      logger.error('Failed to queue batch upload', {
+        error: (error as Error).message,
+        userId: req.user.id
+      });
+
+      accepted.forEach(file => this.ocrService.cleanupFile(file.path));
+
+      res.status(500).json({
+        success: false,
+        error: 'PROCESSING_FAILED',
+        message: 'Failed to queue uploaded images'
+      });
+    }
   });
 
   /**
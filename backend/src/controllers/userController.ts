@@ -8,20 +8,23 @@ import { Request, Response } from 'express';
 import { DatabaseService } from '@/services/databaseService';
 import { AuditService } from '@/services/auditService';
 import { EmailService } from '@/services/emailService';
+import { MfaService } from '@/services/mfaService';
 import { logger } from '@/utils/logger';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { UserRole } from '@/types/auth';
-import bcrypt from 'bcrypt';
+import bcrypt from 'bcryptjs';
 
 export class UserController {
   private db: DatabaseService;
   private auditService: AuditService;
   private emailService: EmailService;
+  private mfaService: MfaService;
 
   constructor() {
     this.db = new DatabaseService();
     this.auditService = new AuditService();
     this.emailService = new EmailService();
+    this.mfaService = new MfaService(this.db);
   }
 
   /**
@@ -274,7 +277,7 @@ export class UserController {
 
       const usersQuery = `
         SELECT 
-          id, email, first_name, last_name, role, language, timezone,
+          id, email, first_name, last_name, role, workflow_roles, language, timezone,
           email_verified, mfa_enabled, last_login_at, created_at, updated_at
         FROM users 
         ${whereClause}
@@ -307,6 +310,7 @@ export class UserController {
             firstName: user.first_name,
             lastName: user.last_name,
             role: user.role,
+            workflowRoles: user.workflow_roles,
             language: user.language,
             timezone: user.timezone,
             emailVerified: user.email_verified,
@@ -477,6 +481,88 @@ export class UserController {
     }
   });
 
+  /**
+   * Set the workflow roles a user handles tasks for (admin only)
+   */
+  updateUserWorkflowRoles = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { userId } = req.params;
+    const { workflowRoles } = req.body;
+
+    if (!Array.isArray(workflowRoles) || workflowRoles.length > 20 ||
+        !workflowRoles.every(role => typeof role === 'string' && /^[a-z0-9-]{1,100}$/.test(role))) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'workflowRoles must be a list of at most 20 lowercase role names, e.g. "reviewer"'
+      });
+      return;
+    }
+
+    try {
+      const result = await this.db.query(
+        `UPDATE users
+         SET workflow_roles = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND organization_id = $3
+         RETURNING email, workflow_roles`,
+        [Array.from(new Set(workflowRoles)), userId, req.user.organizationId]
+      );
+
+      if (!result.rows[0]) {
+        res.status(404).json({
+          success: false,
+          error: 'USER_NOT_FOUND',
+          message: 'User not found in your organization'
+        });
+        return;
+      }
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'USER_WORKFLOW_ROLES_CHANGED',
+        resource: 'user',
+        resourceId: userId,
+        details: {
+          targetUser: result.rows[0].email,
+          workflowRoles: result.rows[0].workflow_roles
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Workflow roles updated successfully',
+        data: {
+          userId,
+          workflowRoles: result.rows[0].workflow_roles
+        }
+      });
+
+    } catch (error) {
+      logger.error('Failed to update workflow roles', {
+        error: (error as Error).message,
+        userId: req.user.id,
+        targetUserId: userId
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'WORKFLOW_ROLES_UPDATE_FAILED',
+        message: 'Failed to update workflow roles'
+      });
+    }
+  });
+
   /**
    * Deactivate user (admin only)
    */
@@ -585,4 +671,91 @@ export class UserController {
       });
     }
   });
+
+  /**
+   * Reset a user's MFA so they can enroll a new device (admin only)
+   */
+  resetUserMfa = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    // Check if user has admin role
+    if (![UserRole.SUPER_ADMIN, UserRole.ADMIN].includes(req.user.role)) {
+      res.status(403).json({
+        success: false,
+        error: 'FORBIDDEN',
+        message: 'Admin access required'
+      });
+      return;
+    }
+
+    const { userId } = req.params;
+
+    // Admins recover their own account with a backup code instead
+    if (userId === req.user.id) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Cannot reset your own MFA; use a backup code to sign in'
+      });
+      return;
+    }
+
+    try {
+      const userResult = await this.db.query(
+        'SELECT id, email FROM users WHERE id = $1 AND organization_id = $2',
+        [userId, req.user.organizationId]
+      );
+
+      if (!userResult.rows[0]) {
+        res.status(404).json({
+          success: false,
+          error: 'USER_NOT_FOUND',
+          message: 'User not found in your organization'
+        });
+        return;
+      }
+
+      const targetUser = userResult.rows[0];
+      await this.mfaService.reset(targetUser.id);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'MFA_RESET',
+        resource: 'user',
+        resourceId: userId,
+        details: {
+          targetUser: targetUser.email,
+          resetBy: req.user.email
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'MFA reset. The user must enroll again at next sign-in.'
+      });
+
+    } catch (error) {
+      logger.error('Failed to reset user MFA', {
+        error: (error as Error).message,
+        userId: req.user.id,
+        targetUserId: userId
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'MFA_RESET_FAILED',
+        message: 'Failed to reset MFA'
+      });
+    }
+  });
 }
\ No newline at end of file
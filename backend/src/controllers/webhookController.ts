@@ -0,0 +1,477 @@
+/**
+ * HalalCheck EU - Webhook Controller
+ *
+ * Endpoint registration, delivery log, dead-letter replay and ingestion of
+ * events forwarded by the agent system
+ */
+
+import { Request, Response } from 'express';
+import { WebhookService } from '@/services/webhookService';
+import { AuditService } from '@/services/auditService';
+import { logger } from '@/utils/logger';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
+import { AGENT_WEBHOOK_EVENT_TYPES, WebhookDeliveryStatus, WebhookEventType } from '@/types/webhooks';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['PENDING', 'DELIVERING', 'SUCCEEDED', 'DEAD'];
+
+export class WebhookController {
+  private webhookService: WebhookService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.webhookService = new WebhookService();
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * List the organization's webhook endpoints
+   */
+  getWebhooks = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const endpoints = await this.webhookService.listEndpoints(req.user.organizationId);
+
+      res.json({
+        success: true,
+        data: { endpoints }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'WEBHOOKS_FETCH_FAILED', 'Failed to fetch webhook endpoints', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Register an endpoint; the signing secret is only included in this response
+   */
+  createWebhook = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { url, description, eventTypes } = req.body;
+
+    try {
+      const created = await this.webhookService.createEndpoint(req.user.organizationId, req.user.id, {
+        url,
+        eventTypes,
+        ...(description !== undefined && { description })
+      });
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'WEBHOOK_CREATED',
+        resource: 'webhook_endpoint',
+        resourceId: created.endpoint.id,
+        details: { url: created.endpoint.url, eventTypes: created.endpoint.eventTypes },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Webhook endpoint registered. Store the signing secret now; it will not be shown again.',
+        data: created
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'WEBHOOK_CREATE_FAILED', 'Failed to register webhook endpoint', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Update URL, events or description, or pause/resume an endpoint
+   */
+  updateWebhook = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { endpointId } = req.params;
+    if (!endpointId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Webhook endpoint ID is required'
+      });
+      return;
+    }
+
+    const { url, description, eventTypes, isActive } = req.body;
+
+    try {
+      const endpoint = await this.webhookService.updateEndpoint(req.user.organizationId, endpointId, {
+        ...(url !== undefined && { url }),
+        ...(description !== undefined && { description }),
+        ...(eventTypes !== undefined && { eventTypes }),
+        ...(isActive !== undefined && { isActive })
+      });
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'WEBHOOK_UPDATED',
+        resource: 'webhook_endpoint',
+        resourceId: endpointId,
+        details: { url: endpoint.url, eventTypes: endpoint.eventTypes, isActive: endpoint.isActive },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: { endpoint }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'WEBHOOK_UPDATE_FAILED', 'Failed to update webhook endpoint', { endpointId });
+    }
+  });
+
+  /**
+   * Delete an endpoint and its delivery log
+   */
+  deleteWebhook = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { endpointId } = req.params;
+    if (!endpointId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Webhook endpoint ID is required'
+      });
+      return;
+    }
+
+    try {
+      await this.webhookService.deleteEndpoint(req.user.organizationId, endpointId);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'WEBHOOK_DELETED',
+        resource: 'webhook_endpoint',
+        resourceId: endpointId,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        message: 'Webhook endpoint deleted'
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'WEBHOOK_DELETE_FAILED', 'Failed to delete webhook endpoint', { endpointId });
+    }
+  });
+
+  /**
+   * Replace an endpoint's signing secret
+   */
+  rotateWebhookSecret = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { endpointId } = req.params;
+    if (!endpointId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Webhook endpoint ID is required'
+      });
+      return;
+    }
+
+    try {
+      const rotated = await this.webhookService.rotateSecret(req.user.organizationId, endpointId);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'WEBHOOK_SECRET_ROTATED',
+        resource: 'webhook_endpoint',
+        resourceId: endpointId,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        message: 'Signing secret rotated. Store it now; it will not be shown again.',
+        data: rotated
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'WEBHOOK_SECRET_ROTATE_FAILED', 'Failed to rotate signing secret', { endpointId });
+    }
+  });
+
+  /**
+   * Delivery log of an endpoint; `?status=DEAD` lists the dead letters
+   */
+  getDeliveries = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { endpointId } = req.params;
+    if (!endpointId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Webhook endpoint ID is required'
+      });
+      return;
+    }
+
+    const status = req.query.status as WebhookDeliveryStatus | undefined;
+    if (status !== undefined && !DELIVERY_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: `status must be one of: ${DELIVERY_STATUSES.join(', ')}`
+      });
+      return;
+    }
+
+    const limit = parseInt(req.query.limit as string, 10);
+
+    try {
+      const deliveries = await this.webhookService.listDeliveries(req.user.organizationId, endpointId, {
+        ...(status && { status }),
+        ...(limit > 0 && { limit })
+      });
+
+      res.json({
+        success: true,
+        data: { deliveries }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'DELIVERIES_FETCH_FAILED', 'Failed to fetch webhook deliveries', { endpointId });
+    }
+  });
+
+  /**
+   * A delivery with its payload and attempt log
+   */
+  getDelivery = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { deliveryId } = req.params;
+    if (!deliveryId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Delivery ID is required'
+      });
+      return;
+    }
+
+    try {
+      const delivery = await this.webhookService.getDelivery(req.user.organizationId, deliveryId);
+
+      res.json({
+        success: true,
+        data: { delivery }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'DELIVERY_FETCH_FAILED', 'Failed to fetch webhook delivery', { deliveryId });
+    }
+  });
+
+  /**
+   * Send a finished delivery's event again
+   */
+  replayDelivery = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { deliveryId } = req.params;
+    if (!deliveryId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Delivery ID is required'
+      });
+      return;
+    }
+
+    try {
+      const delivery = await this.webhookService.replayDelivery(req.user.organizationId, deliveryId);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'WEBHOOK_DELIVERY_REPLAYED',
+        resource: 'webhook_delivery',
+        resourceId: deliveryId,
+        details: { replayId: delivery.id, eventType: delivery.eventType },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(202).json({
+        success: true,
+        data: { delivery }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'DELIVERY_REPLAY_FAILED', 'Failed to replay webhook delivery', { deliveryId });
+    }
+  });
+
+  /**
+   * Requeue every dead-lettered delivery of an endpoint
+   */
+  replayDeadLetters = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { endpointId } = req.params;
+    if (!endpointId) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Webhook endpoint ID is required'
+      });
+      return;
+    }
+
+    try {
+      const requeued = await this.webhookService.replayDeadLetters(req.user.organizationId, endpointId);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'WEBHOOK_DEAD_LETTERS_REPLAYED',
+        resource: 'webhook_endpoint',
+        resourceId: endpointId,
+        details: { requeued },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(202).json({
+        success: true,
+        data: { requeued }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'DEAD_LETTER_REPLAY_FAILED', 'Failed to replay dead letters', { endpointId });
+    }
+  });
+
+  /**
+   * Accept an event from the agent system's event bus and fan it out to the
+   * organization's subscribed endpoints
+   */
+  ingestAgentEvent = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { type, data } = req.body;
+    if (!AGENT_WEBHOOK_EVENT_TYPES.includes(type)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: `type must be one of: ${AGENT_WEBHOOK_EVENT_TYPES.join(', ')}`
+      });
+      return;
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'data must be an object'
+      });
+      return;
+    }
+
+    const queued = await this.webhookService.publish(req.user.organizationId, type as WebhookEventType, data);
+
+    res.status(202).json({
+      success: true,
+      data: { queued }
+    });
+  });
+
+  private sendError(res: Response, error: AppError, fallbackCode: string, fallbackMessage: string, context: Record<string, string>): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message, ...context });
+
+    res.status(500).json({
+      success: false,
+      error: fallbackCode,
+      message: fallbackMessage
+    });
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * HalalCheck EU - Workflow Execution Controller
+ *
+ * Durable workflow executions of the agent system: checkpoints and claims
+ * from agent processes, and listing, inspection, cancellation and retries
+ * for users
+ */
+
+import { Request, Response } from 'express';
+import { WorkflowExecutionService, isWorkflowExecutionStatus } from '@/services/workflowExecutionService';
+import { AuditService } from '@/services/auditService';
+import { logger } from '@/utils/logger';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
+import { WorkflowExecutionFilter } from '@/types/workflows';
+
+export class WorkflowExecutionController {
+  private workflowExecutionService: WorkflowExecutionService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.workflowExecutionService = new WorkflowExecutionService();
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * List the organization's workflow executions, newest first
+   */
+  getExecutions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { status, workflowId } = req.query;
+    if (status !== undefined && !isWorkflowExecutionStatus(status)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: 'status must be one of PENDING, RUNNING, COMPLETED, FAILED, CANCELLED'
+      });
+      return;
+    }
+
+    const filter: WorkflowExecutionFilter = {
+      limit: Math.min(parseInt(req.query.limit as string, 10) || 50, 200),
+      offset: Math.max(parseInt(req.query.offset as string, 10) || 0, 0),
+      ...(status && { status }),
+      ...(typeof workflowId === 'string' && workflowId && { workflowId })
+    };
+
+    try {
+      const executions = await this.workflowExecutionService.listExecutions(req.user.organizationId, filter);
+
+      res.json({
+        success: true,
+        data: { executions }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'EXECUTIONS_FETCH_FAILED', 'Failed to fetch workflow executions', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Execution with its step outputs, errors and retry counters
+   */
+  getExecution = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { executionId } = req.params;
+
+    try {
+      const execution = await this.workflowExecutionService.getExecution(req.user.organizationId, executionId!);
+
+      res.json({
+        success: true,
+        data: { execution }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'EXECUTION_FETCH_FAILED', 'Failed to fetch workflow execution', {
+        executionId: executionId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Record an execution started by an agent process
+   */
+  createExecution = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const execution = await this.workflowExecutionService.createExecution(req.user.organizationId, req.user.id, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: { execution }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'EXECUTION_CREATE_FAILED', 'Failed to record workflow execution', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Progress from the agent process holding the execution
+   */
+  checkpointExecution = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { executionId } = req.params;
+
+    try {
+      const execution = await this.workflowExecutionService.checkpoint(req.user.organizationId, executionId!, req.body);
+
+      res.json({
+        success: true,
+        data: { execution }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'EXECUTION_CHECKPOINT_FAILED', 'Failed to save workflow execution', {
+        executionId: executionId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Claim executions to resume for the calling agent process
+   */
+  claimExecutions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const executions = await this.workflowExecutionService.claimExecutions(
+        req.user.organizationId,
+        req.body.workerId,
+        req.body.limit
+      );
+
+      res.json({
+        success: true,
+        data: { executions }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'EXECUTION_CLAIM_FAILED', 'Failed to claim workflow executions', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Extend the calling agent process's leases
+   */
+  renewLeases = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const executionIds = await this.workflowExecutionService.renewLeases(
+        req.user.organizationId,
+        req.body.workerId,
+        req.body.executionIds
+      );
+
+      res.json({
+        success: true,
+        data: { executionIds }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'EXECUTION_LEASE_FAILED', 'Failed to renew workflow execution leases', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Cancel a pending or running execution
+   */
+  cancelExecution = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { executionId } = req.params;
+
+    try {
+      const execution = await this.workflowExecutionService.cancelExecution(req.user.organizationId, req.user.id, executionId!);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'WORKFLOW_EXECUTION_CANCELLED',
+        resource: 'workflow_execution',
+        resourceId: execution.id,
+        details: { workflowId: execution.workflowId, currentStep: execution.currentStep },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: { execution }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'EXECUTION_CANCEL_FAILED', 'Failed to cancel workflow execution', {
+        executionId: executionId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Queue a failed execution to run again from a step
+   */
+  retryExecution = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { executionId } = req.params;
+
+    try {
+      const execution = await this.workflowExecutionService.retryExecution(req.user.organizationId, executionId!, req.body.stepId);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'WORKFLOW_EXECUTION_RETRIED',
+        resource: 'workflow_execution',
+        resourceId: execution.id,
+        details: { workflowId: execution.workflowId, fromStep: execution.currentStep },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: { execution }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'EXECUTION_RETRY_FAILED', 'Failed to retry workflow execution', {
+        executionId: executionId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  private sendError(res: Response, error: AppError, fallbackCode: string, fallbackMessage: string, context: Record<string, string>): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message, ...context });
+
+    res.status(500).json({
+      success: false,
+      error: fallbackCode,
+      message: fallbackMessage
+    });
+  }
+}
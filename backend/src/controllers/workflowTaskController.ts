@@ -0,0 +1,335 @@
+/**
+ * HalalCheck EU - Workflow Task Controller
+ *
+ * Task inbox for manual and approval workflow stages: claiming, comments and
+ * decisions for users, and task creation and decision pickup for the agent
+ */
+
+import { Request, Response } from 'express';
+import { WorkflowTaskService } from '@/services/workflowTaskService';
+import { AuditService } from '@/services/auditService';
+import { logger } from '@/utils/logger';
+import { AppError, asyncHandler } from '@/middleware/errorHandler';
+import { WORKFLOW_TASK_STATUSES, WorkflowTaskFilter, WorkflowTaskStatus } from '@/types/workflows';
+
+export class WorkflowTaskController {
+  private workflowTaskService: WorkflowTaskService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.workflowTaskService = new WorkflowTaskService();
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * The user's task inbox, or all of the organization's tasks with scope=all
+   */
+  getTasks = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { status, scope } = req.query;
+    if (status !== undefined && !WORKFLOW_TASK_STATUSES.includes(status as WorkflowTaskStatus)) {
+      res.status(400).json({
+        success: false,
+        error: 'VALIDATION_ERROR',
+        message: `status must be one of ${WORKFLOW_TASK_STATUSES.join(', ')}`
+      });
+      return;
+    }
+
+    const filter: WorkflowTaskFilter = {
+      scope: scope === 'all' ? 'all' : 'inbox',
+      limit: Math.min(parseInt(req.query.limit as string, 10) || 50, 200),
+      offset: Math.max(parseInt(req.query.offset as string, 10) || 0, 0),
+      ...(status && { status: status as WorkflowTaskStatus })
+    };
+
+    try {
+      const tasks = await this.workflowTaskService.listTasks(req.user.organizationId, req.user, filter);
+
+      res.json({
+        success: true,
+        data: { tasks }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'TASKS_FETCH_FAILED', 'Failed to fetch workflow tasks', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Task with its comments
+   */
+  getTask = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { taskId } = req.params;
+
+    try {
+      const task = await this.workflowTaskService.getTask(req.user.organizationId, taskId!);
+
+      res.json({
+        success: true,
+        data: { task }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'TASK_FETCH_FAILED', 'Failed to fetch workflow task', {
+        taskId: taskId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Open a task for a stage a workflow entered
+   */
+  createTask = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const task = await this.workflowTaskService.createTask(req.user.organizationId, req.user.id, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: { task }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'TASK_CREATE_FAILED', 'Failed to open workflow task', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  claimTask = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { taskId } = req.params;
+
+    try {
+      const task = await this.workflowTaskService.claimTask(req.user.organizationId, req.user, taskId!);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: 'WORKFLOW_TASK_CLAIMED',
+        resource: 'workflow_task',
+        resourceId: task.id,
+        details: { workflowInstanceId: task.workflowInstanceId, stageId: task.stageId },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: { task }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'TASK_CLAIM_FAILED', 'Failed to claim workflow task', {
+        taskId: taskId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  addComment = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { taskId } = req.params;
+
+    try {
+      const comment = await this.workflowTaskService.addComment(req.user.organizationId, req.user, taskId!, req.body.body);
+
+      res.status(201).json({
+        success: true,
+        data: { comment }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'TASK_COMMENT_FAILED', 'Failed to comment on workflow task', {
+        taskId: taskId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Approve or reject a task; the workflow agent advances the workflow
+   */
+  decideTask = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { taskId } = req.params;
+    const { decision, reason } = req.body;
+
+    try {
+      const task = await this.workflowTaskService.decideTask(req.user.organizationId, req.user, taskId!, decision, reason);
+
+      await this.auditService.logAction({
+        userId: req.user.id,
+        organizationId: req.user.organizationId,
+        action: task.status === 'APPROVED' ? 'WORKFLOW_TASK_APPROVED' : 'WORKFLOW_TASK_REJECTED',
+        resource: 'workflow_task',
+        resourceId: task.id,
+        details: {
+          workflowInstanceId: task.workflowInstanceId,
+          stageId: task.stageId,
+          ...(task.decisionReason && { reason: task.decisionReason })
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({
+        success: true,
+        data: { task }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'TASK_DECISION_FAILED', 'Failed to decide workflow task', {
+        taskId: taskId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Decisions the workflow agent still has to apply
+   */
+  getPendingDecisions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const tasks = await this.workflowTaskService.listPendingDecisions(req.user.organizationId);
+
+      res.json({
+        success: true,
+        data: { tasks }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'DECISIONS_FETCH_FAILED', 'Failed to fetch workflow task decisions', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  acknowledgeDecision = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { taskId } = req.params;
+
+    try {
+      const task = await this.workflowTaskService.acknowledgeDecision(req.user.organizationId, taskId!, req.body.error);
+
+      res.json({
+        success: true,
+        data: { task }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'DECISION_ACK_FAILED', 'Failed to acknowledge workflow task decision', {
+        taskId: taskId!,
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  /**
+   * Close the open tasks of a workflow instance
+   */
+  cancelInstanceTasks = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const cancelled = await this.workflowTaskService.cancelInstanceTasks(req.user.organizationId, req.body.workflowInstanceId);
+
+      res.json({
+        success: true,
+        data: { cancelled }
+      });
+    } catch (error) {
+      this.sendError(res, error as AppError, 'TASK_CANCEL_FAILED', 'Failed to cancel workflow tasks', {
+        organizationId: req.user.organizationId
+      });
+    }
+  });
+
+  private sendError(res: Response, error: AppError, fallbackCode: string, fallbackMessage: string, context: Record<string, string>): void {
+    if (error.isOperational && error.statusCode) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.code,
+        message: error.message
+      });
+      return;
+    }
+
+    logger.error(fallbackMessage, { error: error.message, ...context });
+
+    res.status(500).json({
+      success: false,
+      error: fallbackCode,
+      message: fallbackMessage
+    });
+  }
+}
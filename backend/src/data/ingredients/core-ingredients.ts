@@ -15,6 +15,7 @@
  */
 
 import { Ingredient, HalalStatus, IngredientCategory, RiskLevel, CertificationStandard } from '@/types/halal';
+import { IngredientSynonymIndex } from '@/services/ingredientSynonymIndex';
 
 export const CORE_INGREDIENTS: Ingredient[] = [
   // ============= CRITICAL HARAM INGREDIENTS =============
@@ -366,10 +367,18 @@ export function getIngredientByENumber(eNumber: string): Ingredient | undefined
   return CORE_INGREDIENTS.find(ing => ing.eNumber === eNumber);
 }
 
+let synonymIndex: IngredientSynonymIndex | undefined;
+
 /**
- * Get ingredient by name (fuzzy matching)
+ * Get ingredient by name in any supported label language, then fuzzy matching
  */
-export function getIngredientByName(name: string): Ingredient | undefined {
+export function getIngredientByName(name: string, language?: string): Ingredient | undefined {
+  synonymIndex = synonymIndex || new IngredientSynonymIndex(CORE_INGREDIENTS);
+  const match = synonymIndex.lookup(name, language);
+  if (match?.ingredient) {
+    return match.ingredient;
+  }
+
   const normalizedName = name.toLowerCase().trim();
   return CORE_INGREDIENTS.find(ing => {
     const mainName = ing.name.toLowerCase();
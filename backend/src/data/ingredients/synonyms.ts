@@ -0,0 +1,114 @@
+/**
+ * HalalCheck EU - Multilingual Ingredient Synonyms
+ *
+ * Label terms used on Dutch, German, French, Arabic and Turkish packaging
+ * that are not already covered by ingredient names, alternative names or
+ * translations. Each group resolves to a canonical (English) ingredient name.
+ *
+ * Sources:
+ * - EU Regulation 1169/2011 ingredient naming in member-state languages
+ * - HFCE and HQC label review findings
+ */
+
+export type SynonymLanguage = 'en' | 'nl' | 'de' | 'fr' | 'ar' | 'tr';
+
+export const SYNONYM_LANGUAGES: SynonymLanguage[] = ['en', 'nl', 'de', 'fr', 'ar', 'tr'];
+
+export interface IngredientSynonymGroup {
+  canonicalName: string;
+  eNumber?: string;
+  terms: Partial<Record<SynonymLanguage, string[]>>;
+}
+
+export const INGREDIENT_SYNONYMS: IngredientSynonymGroup[] = [
+  {
+    canonicalName: 'Pork Gelatin',
+    terms: {
+      en: ['porcine gelatine', 'pig gelatin'],
+      nl: ['varkensgelatine', 'gelatine van varkens'],
+      de: ['Schweinegelatine', 'Gelatine vom Schwein'],
+      fr: ['gélatine de porc', 'gélatine porcine'],
+      ar: ['جيلاتين الخنزير', 'جيلاتين خنزير'],
+      tr: ['domuz jelatini', 'domuz jelatin']
+    }
+  },
+  {
+    canonicalName: 'Gelatin',
+    eNumber: 'E441',
+    terms: {
+      en: ['gelatine'],
+      nl: ['gelatine'],
+      de: ['Gelatine', 'Speisegelatine'],
+      fr: ['gélatine', 'gélatine alimentaire'],
+      ar: ['جيلاتين', 'جلاتين'],
+      tr: ['jelatin']
+    }
+  },
+  {
+    canonicalName: 'Beef Gelatin',
+    terms: {
+      en: ['bovine gelatin', 'bovine gelatine'],
+      nl: ['rundergelatine', 'runder gelatine'],
+      de: ['Rindergelatine'],
+      fr: ['gélatine de bœuf', 'gélatine bovine'],
+      ar: ['جيلاتين بقري'],
+      tr: ['sığır jelatini']
+    }
+  },
+  {
+    canonicalName: 'Lard',
+    terms: {
+      en: ['pork fat', 'pig fat'],
+      nl: ['reuzel', 'varkensvet'],
+      de: ['Schweineschmalz', 'Schmalz', 'Schweinefett'],
+      fr: ['saindoux', 'graisse de porc'],
+      ar: ['شحم الخنزير', 'دهن الخنزير'],
+      tr: ['domuz yağı']
+    }
+  },
+  {
+    canonicalName: 'Ethyl Alcohol (Ethanol)',
+    terms: {
+      en: ['alcohol', 'ethanol'],
+      nl: ['alcohol', 'ethanol'],
+      de: ['Alkohol', 'Ethanol', 'Äthanol'],
+      fr: ['alcool', 'éthanol'],
+      ar: ['كحول', 'إيثانول'],
+      tr: ['alkol', 'etanol', 'etil alkol']
+    }
+  },
+  {
+    canonicalName: 'Mono- and Diglycerides',
+    eNumber: 'E471',
+    terms: {
+      en: ['mono and diglycerides of fatty acids'],
+      nl: ['mono- en diglyceriden van vetzuren'],
+      de: ['Mono- und Diglyceride von Speisefettsäuren'],
+      fr: ['mono- et diglycérides d\'acides gras'],
+      ar: ['أحادي وثنائي جليسريدات الأحماض الدهنية'],
+      tr: ['yağ asitlerinin mono ve digliseritleri', 'mono ve digliseritler']
+    }
+  },
+  {
+    canonicalName: 'Cochineal/Carmine',
+    eNumber: 'E120',
+    terms: {
+      en: ['carmine', 'cochineal', 'carminic acid'],
+      nl: ['karmijn', 'karmijnzuur', 'cochenille'],
+      de: ['Karmin', 'Karminsäure', 'Echtes Karmin', 'Cochenille'],
+      fr: ['carmin', 'acide carminique', 'cochenille'],
+      ar: ['قرمز', 'كارمين'],
+      tr: ['karmin', 'koşineal']
+    }
+  },
+  {
+    canonicalName: 'Ascorbic Acid (Vitamin C)',
+    terms: {
+      nl: ['ascorbinezuur', 'vitamine c'],
+      de: ['Ascorbinsäure', 'Vitamin C'],
+      fr: ['acide ascorbique', 'vitamine c'],
+      ar: ['حمض الأسكوربيك', 'فيتامين ج'],
+      tr: ['askorbik asit', 'c vitamini']
+    }
+  }
+];
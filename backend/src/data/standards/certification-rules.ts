@@ -0,0 +1,200 @@
+/**
+ * HalalCheck EU - Certification Standard Rule Sets
+ *
+ * CRITICAL WARNING: These rules encode how each certification standard
+ * treats specific ingredients. They are applied after the general analysis
+ * and can change an ingredient's verdict.
+ *
+ * DO NOT MODIFY without review by the relevant certification authority.
+ *
+ * Sources:
+ * - JAKIM Malaysia (MS 1500:2019) and National Fatwa Council rulings
+ * - MUI Indonesia (HAS 23000) and MUI fatwas
+ * - HFCE European Standards
+ * - GCC Standardization Organization (GSO 993:2015)
+ */
+
+import { CertificationRuleSet, CertificationStandard, HalalStatus, RiskLevel } from '@/types/halal';
+
+// Shared keyword groups
+const FLAVOURING = ['flavour', 'flavor', 'aroma', 'essence'];
+const ALCOHOL = ['alcohol', 'ethanol'];
+const ALCOHOLIC_BEVERAGES = ['wine', 'beer', 'rum', 'brandy', 'liquor', 'liqueur', 'sake', 'mirin', 'khamr'];
+const INSECT_COLOURANTS = ['e120', 'carmine', 'cochineal', 'carminic acid'];
+const ANIMAL_DERIVED = ['gelatin', 'gelatine', 'collagen', 'rennet', 'tallow', 'animal fat'];
+const MEAT = ['beef', 'chicken', 'lamb', 'mutton', 'poultry', 'meat', 'turkey'];
+
+export const CERTIFICATION_RULE_SETS: Record<string, CertificationRuleSet> = {
+  [CertificationStandard.JAKIM]: {
+    standard: CertificationStandard.JAKIM,
+    name: 'JAKIM Malaysia',
+    version: 'MS1500:2019',
+    rules: [
+      {
+        id: 'jakim-insect-colourant',
+        description: 'Cochineal-derived colourants are accepted',
+        reference: 'National Fatwa Council ruling on cochineal',
+        when: { keywordGroups: [INSECT_COLOURANTS] },
+        then: { status: HalalStatus.HALAL, riskLevel: RiskLevel.LOW }
+      },
+      {
+        id: 'jakim-alcohol-in-flavouring',
+        description: 'Non-khamr ethanol in flavourings is accepted up to 0.5% in the final product',
+        reference: 'National Fatwa Council ruling on alcohol in food',
+        when: { keywordGroups: [FLAVOURING, ALCOHOL] },
+        then: {
+          status: HalalStatus.MASHBOOH,
+          requiresExpertReview: true,
+          warning: 'JAKIM: verify ethanol is not from the liquor industry and stays at or below 0.5% in the final product'
+        }
+      },
+      {
+        id: 'jakim-alcohol-over-limit',
+        description: 'Ethanol declared above 0.5% is not accepted',
+        reference: 'National Fatwa Council ruling on alcohol in food',
+        when: { keywordGroups: [FLAVOURING, ALCOHOL], abovePercentage: 0.5 },
+        then: { status: HalalStatus.HARAM, riskLevel: RiskLevel.HIGH }
+      },
+      {
+        id: 'jakim-alcoholic-beverage',
+        description: 'Ingredients from alcoholic beverages (khamr) are prohibited',
+        when: { keywordGroups: [ALCOHOLIC_BEVERAGES], excludeKeywords: ['vinegar'] },
+        then: { status: HalalStatus.HARAM, riskLevel: RiskLevel.VERY_HIGH }
+      },
+      {
+        id: 'jakim-animal-certificate',
+        description: 'Animal-derived ingredients require a certificate from a JAKIM-recognised body',
+        when: {
+          keywordGroups: [ANIMAL_DERIVED],
+          statuses: [HalalStatus.HALAL, HalalStatus.MASHBOOH, HalalStatus.UNCERTAIN]
+        },
+        then: {
+          requiresExpertReview: true,
+          suggestion: 'Obtain a halal certificate issued by a JAKIM-recognised foreign certification body'
+        }
+      }
+    ]
+  },
+
+  [CertificationStandard.MUI]: {
+    standard: CertificationStandard.MUI,
+    name: 'MUI Indonesia',
+    version: 'HAS23000',
+    rules: [
+      {
+        id: 'mui-insect-colourant',
+        description: 'Cochineal-derived colourants are accepted',
+        reference: 'MUI Fatwa No. 33/2011',
+        when: { keywordGroups: [INSECT_COLOURANTS] },
+        then: { status: HalalStatus.HALAL, riskLevel: RiskLevel.LOW }
+      },
+      {
+        id: 'mui-alcohol-in-flavouring',
+        description: 'Non-khamr ethanol is accepted only when not detectable in the final product',
+        reference: 'MUI Fatwa No. 10/2018',
+        when: { keywordGroups: [FLAVOURING, ALCOHOL] },
+        then: {
+          status: HalalStatus.MASHBOOH,
+          requiresExpertReview: true,
+          warning: 'MUI: ethanol must come from a non-khamr source and must not be detectable in the final product'
+        }
+      },
+      {
+        id: 'mui-alcoholic-beverage',
+        description: 'Khamr and its derivatives are prohibited',
+        reference: 'MUI Fatwa No. 10/2018',
+        when: { keywordGroups: [ALCOHOLIC_BEVERAGES], excludeKeywords: ['vinegar'] },
+        then: { status: HalalStatus.HARAM, riskLevel: RiskLevel.VERY_HIGH }
+      },
+      {
+        id: 'mui-animal-certificate',
+        description: 'Animal-derived ingredients require a certificate from an MUI/BPJPH-recognised body',
+        when: {
+          keywordGroups: [ANIMAL_DERIVED],
+          statuses: [HalalStatus.HALAL, HalalStatus.MASHBOOH, HalalStatus.UNCERTAIN]
+        },
+        then: {
+          requiresExpertReview: true,
+          suggestion: 'Obtain a halal certificate from a body recognised by BPJPH'
+        }
+      }
+    ]
+  },
+
+  [CertificationStandard.HFCE]: {
+    standard: CertificationStandard.HFCE,
+    name: 'Halal Food Council of Europe',
+    version: '2024',
+    rules: [
+      {
+        id: 'hfce-insect-colourant',
+        description: 'Insect-derived colourants are treated as doubtful',
+        when: { keywordGroups: [INSECT_COLOURANTS] },
+        then: {
+          status: HalalStatus.MASHBOOH,
+          requiresExpertReview: true,
+          suggestion: 'Prefer plant-based red colourants such as beetroot red (E162) or paprika extract (E160c)'
+        }
+      },
+      {
+        id: 'hfce-alcohol-in-flavouring',
+        description: 'Alcohol used as a flavouring carrier requires review',
+        when: { keywordGroups: [FLAVOURING, ALCOHOL] },
+        then: {
+          status: HalalStatus.MASHBOOH,
+          requiresExpertReview: true,
+          warning: 'HFCE: obtain the flavouring specification and alcohol source from the supplier'
+        }
+      },
+      {
+        id: 'hfce-alcoholic-beverage',
+        description: 'Ingredients from alcoholic beverages are prohibited',
+        when: { keywordGroups: [ALCOHOLIC_BEVERAGES], excludeKeywords: ['vinegar'] },
+        then: { status: HalalStatus.HARAM, riskLevel: RiskLevel.VERY_HIGH }
+      }
+    ]
+  },
+
+  [CertificationStandard.GSO_993]: {
+    standard: CertificationStandard.GSO_993,
+    name: 'GSO 993 (Gulf)',
+    version: 'GSO993:2015',
+    rules: [
+      {
+        id: 'gso-insect-colourant',
+        description: 'Insect-derived colourants are not accepted',
+        when: { keywordGroups: [INSECT_COLOURANTS] },
+        then: { status: HalalStatus.HARAM, riskLevel: RiskLevel.HIGH }
+      },
+      {
+        id: 'gso-alcohol-in-flavouring',
+        description: 'Alcohol is not accepted as a flavouring carrier or solvent',
+        when: { keywordGroups: [FLAVOURING, ALCOHOL] },
+        then: { status: HalalStatus.HARAM, riskLevel: RiskLevel.HIGH }
+      },
+      {
+        id: 'gso-alcoholic-beverage',
+        description: 'Ingredients from alcoholic beverages are prohibited',
+        when: { keywordGroups: [ALCOHOLIC_BEVERAGES], excludeKeywords: ['vinegar'] },
+        then: { status: HalalStatus.HARAM, riskLevel: RiskLevel.VERY_HIGH }
+      },
+      {
+        id: 'gso-slaughter-certificate',
+        description: 'Meat and meat derivatives require Islamic slaughter per GSO 993',
+        reference: 'GSO 993:2015',
+        when: {
+          keywordGroups: [[...MEAT, ...ANIMAL_DERIVED]],
+          statuses: [HalalStatus.HALAL, HalalStatus.MASHBOOH, HalalStatus.UNCERTAIN]
+        },
+        then: {
+          requiresExpertReview: true,
+          warning: 'GSO 993: a halal slaughter certificate is required for each consignment'
+        }
+      }
+    ]
+  }
+};
+
+export function getBuiltInRuleSet(standard: string): CertificationRuleSet | undefined {
+  return CERTIFICATION_RULE_SETS[standard];
+}
@@ -0,0 +1,16 @@
+/**
+ * HalalCheck EU - Database Connection
+ *
+ * Shared connection pool for modules that query PostgreSQL directly
+ * rather than through the DatabaseService
+ */
+
+import { Pool } from 'pg';
+
+export const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+  ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+  max: 10,
+  idleTimeoutMillis: 30000,
+  connectionTimeoutMillis: 2000
+});
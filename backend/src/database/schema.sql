@@ -50,6 +50,9 @@ CREATE TABLE organizations (
     allowed_domains TEXT[],
     ip_whitelist INET[],
     
+    -- Preferences (e.g. {"llmProvider": "offline", "madhab": "Hanafi"})
+    settings JSONB NOT NULL DEFAULT '{}',
+    
     -- Metadata
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
@@ -79,13 +82,15 @@ CREATE TABLE users (
     -- MFA
     mfa_enabled BOOLEAN NOT NULL DEFAULT FALSE,
     mfa_secret VARCHAR(255),
-    mfa_backup_codes TEXT[],
+    mfa_backup_codes TEXT[], -- HMAC-SHA256 hashes of unused one-time codes
+    mfa_last_used_step BIGINT, -- Last accepted TOTP time step, prevents replay
     
     -- Authorization
     role VARCHAR(20) NOT NULL CHECK (role IN (
         'SUPER_ADMIN', 'ADMIN', 'CERTIFIER', 'ANALYST', 'MANUFACTURER', 'VIEWER'
     )),
     permissions TEXT[] NOT NULL DEFAULT '{}',
+    workflow_roles TEXT[] NOT NULL DEFAULT '{}', -- Workflow stage assignee roles, e.g. 'reviewer', 'islamic-scholar'
     organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
     
     -- Status
@@ -200,7 +205,7 @@ CREATE TABLE ingredient_regional_variations (
         'HALAL', 'HARAM', 'MASHBOOH', 'REQUIRES_REVIEW'
     )),
     certification_standard VARCHAR(20) NOT NULL CHECK (certification_standard IN (
-        'JAKIM', 'MUI', 'HFCE', 'HQC', 'HIC', 'ISWA', 'CUSTOM'
+        'JAKIM', 'MUI', 'HFCE', 'HQC', 'HIC', 'ISWA', 'GSO_993', 'CUSTOM'
     )),
     reasoning TEXT NOT NULL,
     last_reviewed TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
@@ -221,6 +226,60 @@ CREATE TABLE ingredient_translations (
     UNIQUE(ingredient_id, language_code)
 );
 
+-- Proposed classification changes; applied only after a second reviewer approves
+CREATE TABLE ingredient_change_proposals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    ingredient_id UUID NOT NULL REFERENCES ingredients(id) ON DELETE CASCADE,
+    base_version INTEGER NOT NULL, -- Ingredient version the change was proposed against
+    changes JSONB NOT NULL,
+    previous_values JSONB NOT NULL,
+    rationale TEXT NOT NULL,
+    source_references TEXT[] DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN (
+        'PENDING', 'APPROVED', 'REJECTED'
+    )),
+    
+    -- Review
+    proposed_by UUID NOT NULL REFERENCES users(id),
+    reviewed_by UUID REFERENCES users(id),
+    review_notes TEXT,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    
+    CHECK (reviewed_by IS NULL OR reviewed_by <> proposed_by)
+);
+
+-- Ingredient snapshot per knowledge-base version
+CREATE TABLE ingredient_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    ingredient_id UUID NOT NULL REFERENCES ingredients(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    snapshot JSONB NOT NULL,
+    change_proposal_id UUID REFERENCES ingredient_change_proposals(id), -- NULL for the version before the first reviewed change
+    approved_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    
+    UNIQUE(ingredient_id, version)
+);
+
+-- Custom certification rule sets (CUSTOM standard defined by a certification body)
+CREATE TABLE certification_rule_sets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    version VARCHAR(50) NOT NULL DEFAULT '1',
+    extends_standard VARCHAR(20), -- Built-in standard whose rules run first
+    rules JSONB NOT NULL DEFAULT '[]',
+    is_shared BOOLEAN NOT NULL DEFAULT FALSE, -- Usable by other organizations (e.g. certifier clients)
+    
+    -- Metadata
+    created_by UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
 -- Product analyses table
 CREATE TABLE product_analyses (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -255,6 +314,10 @@ CREATE TABLE product_analyses (
     language VARCHAR(5) NOT NULL DEFAULT 'en',
     region VARCHAR(20) NOT NULL DEFAULT 'EU',
     certification_standard VARCHAR(20) NOT NULL DEFAULT 'HFCE',
+    madhab VARCHAR(10) CHECK (madhab IN ('Hanafi', 'Maliki', 'Shafi', 'Hanbali')), -- NULL = no madhab preference
+    custom_rule_set_id UUID REFERENCES certification_rule_sets(id) ON DELETE SET NULL,
+    standard_verdicts JSONB, -- Verdicts under additional standards
+    provenance JSONB, -- Pinned parse tree, knowledge-base versions, provider, prompt hash and rule sets
     
     -- Ownership
     analyzed_by UUID NOT NULL REFERENCES users(id),
@@ -272,6 +335,11 @@ CREATE TABLE analysis_results (
     
     -- Detection info
     detected_name VARCHAR(255) NOT NULL,
+    node_id VARCHAR(50), -- Position in the compound ingredient tree, e.g. '2.1'
+    parent_node_id VARCHAR(50),
+    ingredient_path JSONB NOT NULL DEFAULT '[]',
+    percentage NUMERIC(5,2),
+    functional_class VARCHAR(100),
     confidence NUMERIC(4,3) NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
     match_type VARCHAR(20) NOT NULL CHECK (match_type IN (
         'EXACT', 'FUZZY', 'E_NUMBER', 'AI_SUGGESTED', 'UNKNOWN'
@@ -290,10 +358,471 @@ CREATE TABLE analysis_results (
     requires_expert_review BOOLEAN NOT NULL DEFAULT FALSE,
     warnings TEXT[] DEFAULT '{}',
     suggestions TEXT[] DEFAULT '{}',
+    consensus JSONB, -- Madhab rulings and consensus level
+    applied_rules JSONB NOT NULL DEFAULT '[]', -- Certification-standard rules that fired
+    regional_variation JSONB, -- Regional ruling (region, standard, reasoning, reviewed_by) that applied
+    tainted_by JSONB NOT NULL DEFAULT '[]', -- Sub-ingredient paths that worsened a compound's status
+    supplier_evidence JSONB NOT NULL DEFAULT '[]', -- Supplier certificates that resolved a doubtful status
     
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
 );
 
+-- Stored analyses whose verdict may be outdated by an approved knowledge-base change
+CREATE TABLE analysis_reevaluation_flags (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_analysis_id UUID NOT NULL REFERENCES product_analyses(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES organizations(id),
+    ingredient_id UUID NOT NULL REFERENCES ingredients(id) ON DELETE CASCADE,
+    change_proposal_id UUID NOT NULL REFERENCES ingredient_change_proposals(id) ON DELETE CASCADE,
+    
+    -- Verdicts at the time of flagging
+    previous_overall_status VARCHAR(20) NOT NULL,
+    previous_ingredient_status VARCHAR(20) NOT NULL,
+    new_ingredient_status VARCHAR(20) NOT NULL,
+    
+    -- Resolution
+    status VARCHAR(20) NOT NULL DEFAULT 'OPEN' CHECK (status IN (
+        'OPEN', 'REANALYZED', 'DISMISSED'
+    )),
+    reanalysis_id UUID REFERENCES product_analyses(id) ON DELETE SET NULL,
+    reanalysis_status VARCHAR(20),
+    resolved_by UUID REFERENCES users(id),
+    resolution_notes TEXT,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    
+    UNIQUE(product_analysis_id, change_proposal_id)
+);
+
+-- Background analysis jobs (bulk uploads)
+CREATE TABLE analysis_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id),
+    user_id UUID NOT NULL REFERENCES users(id),
+
+    type VARCHAR(30) NOT NULL CHECK (type IN ('INGREDIENT_ANALYSIS', 'LABEL_OCR')),
+    status VARCHAR(20) NOT NULL DEFAULT 'QUEUED' CHECK (status IN (
+        'QUEUED', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED'
+    )),
+    options JSONB NOT NULL DEFAULT '{}',
+
+    -- Progress counters, kept in step with analysis_job_items
+    total_items INTEGER NOT NULL DEFAULT 0,
+    completed_items INTEGER NOT NULL DEFAULT 0,
+    failed_items INTEGER NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE analysis_job_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_id UUID NOT NULL REFERENCES analysis_jobs(id) ON DELETE CASCADE,
+    item_index INTEGER NOT NULL,
+    label VARCHAR(255) NOT NULL,
+    input JSONB NOT NULL,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN (
+        'PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED'
+    )),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    result JSONB,
+    error TEXT,
+    product_analysis_id UUID REFERENCES product_analyses(id) ON DELETE SET NULL,
+
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+
+    UNIQUE(job_id, item_index)
+);
+
+-- Outbound webhooks
+CREATE TABLE webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    url TEXT NOT NULL, -- HTTPS only
+    description VARCHAR(255),
+    event_types TEXT[] NOT NULL,
+    secret TEXT NOT NULL, -- Signing secret, encrypted
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- One row per event and endpoint; DEAD rows form the dead-letter list
+CREATE TABLE webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN (
+        'PENDING', 'DELIVERING', 'SUCCEEDED', 'DEAD'
+    )),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_status_code INTEGER,
+    last_error TEXT,
+    replay_of_id UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    dead_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE webhook_delivery_attempts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    delivery_id UUID NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+    attempt INTEGER NOT NULL,
+    status_code INTEGER,
+    error TEXT,
+    response_body TEXT, -- Truncated
+    duration_ms INTEGER NOT NULL,
+    attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Per-organization Ed25519 keys signing certificates and reports; retired keys stay published
+CREATE TABLE signing_keys (
+    id VARCHAR(64) PRIMARY KEY, -- Key ID ("kid") referenced by signatures
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    algorithm VARCHAR(20) NOT NULL DEFAULT 'EdDSA' CHECK (algorithm IN ('EdDSA')),
+    public_key TEXT NOT NULL, -- SPKI PEM
+    private_key TEXT NOT NULL, -- PKCS#8 PEM, encrypted
+    status VARCHAR(20) NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'RETIRED')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    retired_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Certificates issued by the agent system; the public verification route reads this
+CREATE TABLE certificates (
+    id VARCHAR(64) PRIMARY KEY, -- Issued by the agent system, part of the QR verification URL
+    certificate_number VARCHAR(50) NOT NULL,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('halal', 'organic', 'kosher', 'quality')),
+    client_id VARCHAR(255) NOT NULL,
+    product_name VARCHAR(255) NOT NULL,
+    standard VARCHAR(100) NOT NULL,
+    scope TEXT NOT NULL,
+    issuing_authority VARCHAR(255) NOT NULL,
+    valid_from TIMESTAMP WITH TIME ZONE NOT NULL,
+    valid_until TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'SUSPENDED', 'REVOKED')),
+    status_reason TEXT,
+    status_changed_at TIMESTAMP WITH TIME ZONE,
+    renewal_count INTEGER NOT NULL DEFAULT 0,
+    issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    data JSONB NOT NULL DEFAULT '{}', -- Rendered certificate fields, never returned by verification
+
+    -- Signature of the issued PDF
+    document_hash VARCHAR(64), -- SHA-256, hex
+    document_signature TEXT, -- Ed25519, base64url
+    signing_key_id VARCHAR(64) REFERENCES signing_keys(id),
+    signed_at TIMESTAMP WITH TIME ZONE,
+
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    CHECK (valid_until > valid_from)
+);
+
+-- Lifecycle history; renewals keep the certificate ID, so history carries forward
+CREATE TABLE certificate_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    certificate_id VARCHAR(64) NOT NULL REFERENCES certificates(id) ON DELETE CASCADE,
+    action VARCHAR(20) NOT NULL CHECK (action IN (
+        'ISSUED', 'SUSPENDED', 'REINSTATED', 'REVOKED', 'RENEWED', 'SCOPE_AMENDED'
+    )),
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    reason TEXT,
+    details JSONB NOT NULL DEFAULT '{}', -- Previous values of changed fields
+    performed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Expiry reminders already sent, per validity period, so each goes out once
+CREATE TABLE certificate_expiry_reminders (
+    certificate_id VARCHAR(64) NOT NULL REFERENCES certificates(id) ON DELETE CASCADE,
+    valid_until TIMESTAMP WITH TIME ZONE NOT NULL,
+    days_before INTEGER NOT NULL,
+    sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    PRIMARY KEY (certificate_id, valid_until, days_before)
+);
+
+-- Agent orchestrator workflow executions, checkpointed after every step so
+-- long certification workflows survive restarts of the agent system
+CREATE TABLE workflow_executions (
+    id VARCHAR(64) PRIMARY KEY, -- Issued by the orchestrator
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    workflow_id VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'RUNNING' CHECK (status IN (
+        'PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED'
+    )),
+    current_step VARCHAR(100) NOT NULL,
+    current_step_index INTEGER NOT NULL DEFAULT 0,
+    progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+    data JSONB NOT NULL DEFAULT '{}', -- Workflow input
+    results JSONB NOT NULL DEFAULT '{}', -- Step outputs by step ID
+    errors JSONB NOT NULL DEFAULT '[]',
+    retry_count JSONB NOT NULL DEFAULT '{}', -- Retries used per step ID
+
+    -- Agent process running the execution; a lapsed lease lets another process resume it
+    worker_id VARCHAR(100),
+    lease_expires_at TIMESTAMP WITH TIME ZONE,
+
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    cancelled_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Human tasks for manual and approval stages of organization workflows,
+-- routed to users holding one of the stage's assignee roles
+CREATE TABLE workflow_tasks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    workflow_instance_id VARCHAR(200) NOT NULL,
+    workflow_id VARCHAR(100) NOT NULL,
+    stage_id VARCHAR(100) NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('MANUAL', 'APPROVAL')),
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    data JSONB NOT NULL DEFAULT '{}', -- Workflow data shown to the assignee
+    assignee_roles TEXT[] NOT NULL DEFAULT '{}',
+    approve_stage VARCHAR(100), -- Stage the workflow advances to on approval
+    reject_stage VARCHAR(100), -- NULL when the stage cannot be rejected
+    status VARCHAR(20) NOT NULL DEFAULT 'OPEN' CHECK (status IN (
+        'OPEN', 'CLAIMED', 'APPROVED', 'REJECTED', 'CANCELLED'
+    )),
+    claimed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    decision_reason TEXT,
+    decision_applied_at TIMESTAMP WITH TIME ZONE, -- Set once the workflow has advanced
+    decision_error TEXT,
+
+    -- Escalation: the stage's estimated duration, repeated at each level
+    duration_hours INTEGER CHECK (duration_hours > 0),
+    due_at TIMESTAMP WITH TIME ZONE,
+    escalation_level INTEGER NOT NULL DEFAULT 0,
+    escalated_at TIMESTAMP WITH TIME ZONE,
+
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE workflow_task_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    task_id UUID NOT NULL REFERENCES workflow_tasks(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Applications pipeline shared by an organization's reviewers. Status is a
+-- pipeline stage ID, built in or one of the organization's custom columns.
+CREATE TABLE pipeline_applications (
+    id UUID PRIMARY KEY, -- Generated by the client so optimistic updates keep their ID
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    organization_type VARCHAR(30) NOT NULL DEFAULT 'certification-body' CHECK (organization_type IN (
+        'certification-body', 'food-manufacturer'
+    )),
+    client_name VARCHAR(255) NOT NULL,
+    company VARCHAR(255) NOT NULL,
+    product_name VARCHAR(255) NOT NULL,
+    email VARCHAR(255) NOT NULL DEFAULT '',
+    phone VARCHAR(50) NOT NULL DEFAULT '',
+    submitted_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    status VARCHAR(100) NOT NULL DEFAULT 'new',
+    priority VARCHAR(10) NOT NULL DEFAULT 'normal' CHECK (priority IN ('high', 'normal', 'low')),
+    documents TEXT[] NOT NULL DEFAULT '{}',
+    analysis_result JSONB,
+    notes TEXT NOT NULL DEFAULT '',
+    version INTEGER NOT NULL DEFAULT 1, -- Incremented on every change; updates must name the version they saw
+
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Certificates (and pre-certification reports for manufacturers) issued from
+-- pipeline applications; at most one per application
+CREATE TABLE pipeline_certificates (
+    id UUID PRIMARY KEY,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    application_id UUID REFERENCES pipeline_applications(id) ON DELETE CASCADE,
+    certificate_number VARCHAR(50) NOT NULL,
+    client_name VARCHAR(255) NOT NULL,
+    company VARCHAR(255) NOT NULL,
+    product_name VARCHAR(255) NOT NULL,
+    email VARCHAR(255) NOT NULL DEFAULT '',
+    phone VARCHAR(50) NOT NULL DEFAULT '',
+    issued_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expiry_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN (
+        'active', 'expired', 'suspended', 'revoked', 'pending'
+    )),
+    certificate_type VARCHAR(20) NOT NULL DEFAULT 'standard' CHECK (certificate_type IN ('standard', 'premium', 'export')),
+    analysis_result JSONB NOT NULL DEFAULT '{}',
+    notes TEXT NOT NULL DEFAULT '',
+    pdf_url VARCHAR(500),
+    version INTEGER NOT NULL DEFAULT 1,
+
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    UNIQUE (organization_id, certificate_number)
+);
+
+-- Custom pipeline columns, shown after the organization type's built-in stages
+CREATE TABLE pipeline_column_configs (
+    organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+    columns JSONB NOT NULL DEFAULT '[]', -- [{"id": "custom-...", "title": "..."}]
+    version INTEGER NOT NULL DEFAULT 1,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Supporting documents every application needs, per organization. Until an
+-- organization saves its own list the built-in checklist applies.
+CREATE TABLE document_checklists (
+    organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+    items JSONB NOT NULL DEFAULT '[]', -- [{"key", "title", "description", "category", "required", "tracksExpiry"}]
+    version INTEGER NOT NULL DEFAULT 1,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Files uploaded to pipeline applications. The agent system claims pending
+-- files, parses them and reports what it extracted; the file is then matched
+-- to a checklist item and certificate expiry dates are tracked.
+CREATE TABLE pipeline_documents (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    application_id UUID NOT NULL REFERENCES pipeline_applications(id) ON DELETE CASCADE,
+    checklist_item VARCHAR(100), -- Checklist item key; NULL until matched
+    matched_by VARCHAR(20) CHECK (matched_by IN ('upload', 'extraction', 'manual')),
+
+    -- File (storage_key is the object storage key)
+    file_name VARCHAR(255) NOT NULL,
+    content_type VARCHAR(100) NOT NULL,
+    file_size INTEGER NOT NULL,
+    storage_key VARCHAR(500) NOT NULL,
+
+    -- Processing by the agent system
+    processing_status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (processing_status IN (
+        'pending', 'processing', 'processed', 'failed'
+    )),
+    processing_attempts INTEGER NOT NULL DEFAULT 0,
+    processing_started_at TIMESTAMP WITH TIME ZONE,
+    processing_error TEXT,
+    extracted_data JSONB,
+
+    -- Certificate found in the file, or entered by a reviewer
+    certificate_number VARCHAR(100),
+    certificate_issuer VARCHAR(255),
+    expiry_date DATE,
+
+    uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Directory of halal certification bodies and the recognition matrix: which
+-- importing-country authorities (JAKIM, BPJPH, GAC, ...) accept each body's
+-- certificates. Shared by all organizations and maintained by platform
+-- administrators.
+CREATE TABLE certification_bodies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    aliases TEXT[] NOT NULL DEFAULT '{}', -- Other names certificates are issued under
+    country VARCHAR(100) NOT NULL DEFAULT '',
+    standards TEXT[] NOT NULL DEFAULT '{}',
+    accreditation VARCHAR(255) NOT NULL DEFAULT '',
+    logo_url VARCHAR(500),
+    website VARCHAR(500),
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'suspended', 'withdrawn')),
+    version INTEGER NOT NULL DEFAULT 1,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE certification_body_recognitions (
+    certification_body_id UUID NOT NULL REFERENCES certification_bodies(id) ON DELETE CASCADE,
+    authority VARCHAR(20) NOT NULL, -- Recognizing authority code, e.g. JAKIM
+    status VARCHAR(20) NOT NULL DEFAULT 'recognized' CHECK (status IN ('recognized', 'suspended')),
+    valid_until DATE,
+    reference VARCHAR(500) NOT NULL DEFAULT '', -- Listing or decree the recognition was published in
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (certification_body_id, authority)
+);
+
+-- Supplier registry: who supplies each raw material and the supplier's halal
+-- certificates. A valid certificate covering the material an ingredient
+-- resolves to is recorded as evidence in analyses.
+CREATE TABLE suppliers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    country VARCHAR(100) NOT NULL DEFAULT '',
+    contact_name VARCHAR(255) NOT NULL DEFAULT '',
+    contact_email VARCHAR(255) NOT NULL DEFAULT '',
+    notes TEXT NOT NULL DEFAULT '',
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    version INTEGER NOT NULL DEFAULT 1,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE supplier_materials (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    product_code VARCHAR(100),
+    ingredient_id UUID REFERENCES ingredients(id) ON DELETE SET NULL, -- Knowledge-base link
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE supplier_certificates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+    issuer VARCHAR(255) NOT NULL,
+    certification_body_id UUID REFERENCES certification_bodies(id) ON DELETE SET NULL, -- Directory entry of the issuer
+    certificate_number VARCHAR(100) NOT NULL,
+    valid_from DATE,
+    valid_until DATE NOT NULL,
+    scope TEXT NOT NULL DEFAULT '',
+    material_ids UUID[] NOT NULL DEFAULT '{}', -- Registered materials of the supplier the certificate covers
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'suspended', 'withdrawn')),
+    document_id UUID REFERENCES pipeline_documents(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
 -- Reports table
 CREATE TABLE reports (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -306,20 +835,28 @@ CREATE TABLE reports (
     format VARCHAR(10) NOT NULL CHECK (format IN ('PDF', 'EXCEL', 'JSON')),
     language VARCHAR(5) NOT NULL DEFAULT 'en',
     
-    -- File information
+    -- File information (file_path is the object storage key)
     file_path VARCHAR(500),
+    file_name VARCHAR(255),
+    content_type VARCHAR(100),
     file_size_bytes INTEGER,
     download_count INTEGER NOT NULL DEFAULT 0,
+    last_downloaded_at TIMESTAMP WITH TIME ZONE,
     
     -- Branding
     includes_branding BOOLEAN NOT NULL DEFAULT FALSE,
     custom_branding JSONB,
     
+    -- Signature of the stored file
+    document_hash VARCHAR(64),
+    document_signature TEXT,
+    signing_key_id VARCHAR(64) REFERENCES signing_keys(id),
+    
     -- Metadata
     generated_by UUID NOT NULL REFERENCES users(id),
     organization_id UUID NOT NULL REFERENCES organizations(id),
     generated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
-    expires_at TIMESTAMP WITH TIME ZONE -- For temporary download links
+    expires_at TIMESTAMP WITH TIME ZONE -- End of retention; the file is purged and download links stop working
 );
 
 -- Refresh tokens for JWT management
@@ -343,13 +880,18 @@ CREATE TABLE revoked_tokens (
 -- API keys for programmatic access
 CREATE TABLE api_keys (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE, -- Creator; requests act as this user
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
     name VARCHAR(100) NOT NULL,
-    key_hash VARCHAR(255) NOT NULL UNIQUE,
+    key_prefix VARCHAR(20) NOT NULL, -- Non-secret part shown to identify the key
+    key_hash VARCHAR(255) NOT NULL UNIQUE, -- SHA-256 of the full key
     permissions TEXT[] DEFAULT '{}',
     last_used TIMESTAMP WITH TIME ZONE,
-    expires_at TIMESTAMP WITH TIME ZONE,
+    last_used_ip INET,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
     is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    rotated_from_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
 );
 
@@ -360,7 +902,7 @@ CREATE TABLE audit_logs (
     organization_id UUID REFERENCES organizations(id),
     action VARCHAR(100) NOT NULL,
     resource VARCHAR(100) NOT NULL,
-    resource_id UUID,
+    resource_id VARCHAR(64), -- UUID, or the text ID of certificates and signing keys
     details JSONB,
     ip_address INET,
     user_agent TEXT,
@@ -378,12 +920,56 @@ CREATE INDEX idx_ingredients_search ON ingredients USING gin(search_vector);
 CREATE INDEX idx_ingredient_sources_ingredient ON ingredient_sources(ingredient_id);
 CREATE INDEX idx_regional_variations_ingredient ON ingredient_regional_variations(ingredient_id);
 CREATE INDEX idx_regional_variations_region ON ingredient_regional_variations(region);
+CREATE INDEX idx_certification_rule_sets_org ON certification_rule_sets(organization_id);
+CREATE INDEX idx_change_proposals_ingredient ON ingredient_change_proposals(ingredient_id);
+CREATE INDEX idx_change_proposals_status ON ingredient_change_proposals(status);
+CREATE INDEX idx_ingredient_versions_ingredient ON ingredient_versions(ingredient_id);
 CREATE INDEX idx_product_analyses_user ON product_analyses(analyzed_by);
 CREATE INDEX idx_product_analyses_org ON product_analyses(organization_id);
 CREATE INDEX idx_product_analyses_created ON product_analyses(created_at);
 CREATE INDEX idx_analysis_results_product ON analysis_results(product_analysis_id);
+CREATE INDEX idx_analysis_results_ingredient ON analysis_results(ingredient_id) WHERE ingredient_id IS NOT NULL;
+CREATE INDEX idx_reevaluation_flags_org_status ON analysis_reevaluation_flags(organization_id, status);
+CREATE INDEX idx_analysis_jobs_org_created ON analysis_jobs(organization_id, created_at);
+CREATE INDEX idx_analysis_job_items_pending ON analysis_job_items(next_attempt_at) WHERE status = 'PENDING';
+CREATE INDEX idx_webhook_endpoints_org ON webhook_endpoints(organization_id);
+CREATE INDEX idx_webhook_deliveries_endpoint_created ON webhook_deliveries(endpoint_id, created_at);
+CREATE INDEX idx_webhook_deliveries_pending ON webhook_deliveries(next_attempt_at) WHERE status = 'PENDING';
+CREATE INDEX idx_webhook_delivery_attempts_delivery ON webhook_delivery_attempts(delivery_id);
+CREATE INDEX idx_workflow_executions_org ON workflow_executions(organization_id, created_at);
+CREATE INDEX idx_workflow_executions_resumable ON workflow_executions(organization_id, created_at)
+    WHERE status IN ('PENDING', 'RUNNING');
+CREATE UNIQUE INDEX idx_workflow_tasks_open_stage ON workflow_tasks(organization_id, workflow_instance_id, stage_id)
+    WHERE status IN ('OPEN', 'CLAIMED');
+CREATE INDEX idx_workflow_tasks_org_status ON workflow_tasks(organization_id, status, created_at);
+CREATE INDEX idx_workflow_tasks_due ON workflow_tasks(due_at) WHERE status IN ('OPEN', 'CLAIMED');
+CREATE INDEX idx_workflow_tasks_undelivered ON workflow_tasks(organization_id, decided_at)
+    WHERE status IN ('APPROVED', 'REJECTED') AND decision_applied_at IS NULL;
+CREATE INDEX idx_workflow_task_comments_task ON workflow_task_comments(task_id, created_at);
+CREATE UNIQUE INDEX idx_signing_keys_active ON signing_keys(organization_id) WHERE status = 'ACTIVE';
+CREATE INDEX idx_certificates_org_issued ON certificates(organization_id, issued_at);
+CREATE INDEX idx_certificates_expiring ON certificates(valid_until) WHERE status = 'ACTIVE';
+CREATE INDEX idx_certificate_events_certificate ON certificate_events(certificate_id, created_at);
+CREATE INDEX idx_pipeline_applications_org ON pipeline_applications(organization_id, created_at);
+CREATE UNIQUE INDEX idx_pipeline_certificates_application ON pipeline_certificates(application_id)
+    WHERE application_id IS NOT NULL;
+CREATE INDEX idx_pipeline_certificates_org ON pipeline_certificates(organization_id, created_at);
+CREATE INDEX idx_pipeline_documents_application ON pipeline_documents(application_id, created_at);
+CREATE INDEX idx_pipeline_documents_pending ON pipeline_documents(created_at)
+    WHERE processing_status IN ('pending', 'processing');
+CREATE INDEX idx_pipeline_documents_expiry ON pipeline_documents(organization_id, expiry_date)
+    WHERE expiry_date IS NOT NULL;
+CREATE UNIQUE INDEX idx_certification_bodies_name ON certification_bodies(LOWER(name));
+CREATE INDEX idx_certification_body_recognitions_authority ON certification_body_recognitions(authority);
+CREATE INDEX idx_suppliers_org ON suppliers(organization_id, name);
+CREATE INDEX idx_supplier_materials_supplier ON supplier_materials(supplier_id);
+CREATE INDEX idx_supplier_materials_ingredient ON supplier_materials(organization_id, ingredient_id);
+CREATE INDEX idx_supplier_materials_name ON supplier_materials(organization_id, LOWER(name));
+CREATE INDEX idx_supplier_certificates_supplier ON supplier_certificates(supplier_id, valid_until);
 CREATE INDEX idx_reports_analysis ON reports(product_analysis_id);
 CREATE INDEX idx_reports_user ON reports(generated_by);
+CREATE INDEX idx_reports_expires ON reports(expires_at);
+CREATE INDEX idx_api_keys_org ON api_keys(organization_id);
 CREATE INDEX idx_refresh_tokens_user ON refresh_tokens(user_id);
 CREATE INDEX idx_refresh_tokens_expires ON refresh_tokens(expires_at);
 CREATE INDEX idx_audit_logs_user ON audit_logs(user_id);
@@ -408,6 +994,57 @@ CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
 CREATE TRIGGER update_ingredients_updated_at BEFORE UPDATE ON ingredients
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_certification_rule_sets_updated_at BEFORE UPDATE ON certification_rule_sets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_ingredient_change_proposals_updated_at BEFORE UPDATE ON ingredient_change_proposals
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_analysis_jobs_updated_at BEFORE UPDATE ON analysis_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_endpoints_updated_at BEFORE UPDATE ON webhook_endpoints
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_certificates_updated_at BEFORE UPDATE ON certificates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_workflow_executions_updated_at BEFORE UPDATE ON workflow_executions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_workflow_tasks_updated_at BEFORE UPDATE ON workflow_tasks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_pipeline_applications_updated_at BEFORE UPDATE ON pipeline_applications
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_pipeline_certificates_updated_at BEFORE UPDATE ON pipeline_certificates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_pipeline_column_configs_updated_at BEFORE UPDATE ON pipeline_column_configs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_document_checklists_updated_at BEFORE UPDATE ON document_checklists
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_pipeline_documents_updated_at BEFORE UPDATE ON pipeline_documents
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_certification_bodies_updated_at BEFORE UPDATE ON certification_bodies
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_certification_body_recognitions_updated_at BEFORE UPDATE ON certification_body_recognitions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_suppliers_updated_at BEFORE UPDATE ON suppliers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_supplier_materials_updated_at BEFORE UPDATE ON supplier_materials
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_supplier_certificates_updated_at BEFORE UPDATE ON supplier_certificates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Usage reset trigger for organizations
 CREATE OR REPLACE FUNCTION reset_monthly_usage()
 RETURNS TRIGGER AS $$
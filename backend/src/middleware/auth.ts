@@ -6,6 +6,8 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '@/services/authService';
+import { MfaService } from '@/services/mfaService';
+import { ApiKeyService, ApiKeySummary, API_KEY_PREFIX } from '@/services/apiKeyService';
 import { User, UserRole, PERMISSIONS } from '@/types/auth';
 import { logger } from '@/utils/logger';
 
@@ -15,17 +17,117 @@ declare global {
     interface Request {
       user?: User;
       userOrganization?: any;
+      apiKey?: ApiKeySummary;
     }
   }
 }
 
 const authService = new AuthService();
+const mfaService = new MfaService();
+const apiKeyService = new ApiKeyService();
+
+const API_KEY_RATE_LIMIT_PER_MINUTE = parseInt(process.env.API_KEY_RATE_LIMIT_PER_MINUTE || '60', 10);
+const apiKeyRequests = new Map<string, { count: number; resetTime: number }>();
+
+/**
+ * API key from the X-API-Key header or a Bearer token with the key prefix
+ */
+const extractApiKey = (req: Request): string | null => {
+  const headerKey = req.get('X-API-Key');
+  if (headerKey) {
+    return headerKey.trim();
+  }
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return authHeader.substring(7);
+  }
+  return null;
+};
+
+/**
+ * Per-key request limit, separate from the per-IP limit applied to browser sessions
+ */
+const consumeApiKeyRequest = (keyId: string, res: Response): boolean => {
+  const now = Date.now();
+  let current = apiKeyRequests.get(keyId);
+  if (!current || now > current.resetTime) {
+    current = { count: 0, resetTime: now + 60 * 1000 };
+    apiKeyRequests.set(keyId, current);
+  }
+
+  const remainingTime = Math.ceil((current.resetTime - now) / 1000);
+  res.setHeader('X-RateLimit-Limit', API_KEY_RATE_LIMIT_PER_MINUTE);
+  res.setHeader('X-RateLimit-Reset', remainingTime);
+
+  if (current.count >= API_KEY_RATE_LIMIT_PER_MINUTE) {
+    res.setHeader('X-RateLimit-Remaining', 0);
+    res.setHeader('Retry-After', remainingTime);
+    res.status(429).json({
+      success: false,
+      error: 'RATE_LIMIT_EXCEEDED',
+      message: `API key rate limit exceeded. Try again in ${remainingTime} seconds.`,
+      retryAfter: remainingTime
+    });
+    return false;
+  }
+
+  current.count++;
+  res.setHeader('X-RateLimit-Remaining', API_KEY_RATE_LIMIT_PER_MINUTE - current.count);
+  return true;
+};
+
+/**
+ * Authenticate an organization API key. The request acts as the key's
+ * creator, limited to the key's scopes.
+ */
+const authenticateApiKey = async (key: string, req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const authentication = await apiKeyService.authenticate(key, req.ip);
+
+  if (!authentication) {
+    logger.warn('API key authentication failed', {
+      ip: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.status(401).json({
+      success: false,
+      error: 'UNAUTHORIZED',
+      message: 'Invalid, expired or revoked API key'
+    });
+    return;
+  }
+
+  const { apiKey, user } = authentication;
+  if (!consumeApiKeyRequest(apiKey.id, res)) {
+    return;
+  }
+
+  req.user = user;
+  req.apiKey = apiKey;
+
+  logger.debug('API key authenticated', {
+    apiKeyId: apiKey.id,
+    organizationId: apiKey.organizationId,
+    userId: user.id
+  });
+
+  next();
+};
 
 /**
- * Verify JWT token and attach user to request
+ * Verify JWT token or API key and attach user to request. Unless allowed,
+ * users whose organization requires MFA are blocked until they have enrolled;
+ * API keys are not subject to MFA.
  */
-export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+const authenticateUser = (allowPendingMfaEnrollment: boolean) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
+    const apiKey = extractApiKey(req);
+    if (apiKey) {
+      await authenticateApiKey(apiKey, req, res, next);
+      return;
+    }
+
     const authHeader = req.headers.authorization;
     
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -45,6 +147,15 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
     // Attach user to request
     req.user = user;
     
+    if (!allowPendingMfaEnrollment && await mfaService.isEnrollmentRequired(user.id)) {
+      res.status(403).json({
+        success: false,
+        error: 'MFA_ENROLLMENT_REQUIRED',
+        message: 'Your organization requires multi-factor authentication. Set it up to continue.'
+      });
+      return;
+    }
+    
     logger.debug('User authenticated', { 
       userId: user.id, 
       email: user.email, 
@@ -68,6 +179,30 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
   }
 };
 
+export const authenticate = authenticateUser(false);
+
+/**
+ * Authentication for MFA enrollment, profile and logout, which must stay
+ * reachable while an organization-required enrollment is pending
+ */
+export const authenticateMfaEnrollment = authenticateUser(true);
+
+/**
+ * Reject API-key requests on endpoints that need a person, such as key management
+ */
+export const requireUserSession = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.apiKey) {
+    res.status(403).json({
+      success: false,
+      error: 'FORBIDDEN',
+      message: 'This endpoint is not available to API keys'
+    });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Check if user has required role
  */
@@ -84,7 +219,8 @@ export const requireRole = (roles: UserRole | UserRole[]) => {
 
     const allowedRoles = Array.isArray(roles) ? roles : [roles];
     
-    if (!allowedRoles.includes(req.user.role)) {
+    // Role-gated endpoints are for people; keys are limited to their scopes
+    if (req.apiKey || !allowedRoles.includes(req.user.role)) {
       logger.warn('Access denied - insufficient role', {
         userId: req.user.id,
         userRole: req.user.role,
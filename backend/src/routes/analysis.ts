@@ -6,7 +6,8 @@
 
 import { Router } from 'express';
 import { AnalysisController } from '@/controllers/analysisController';
-import { authenticate, checkUsageLimit, requireAnalysisPermission } from '@/middleware/auth';
+import { authenticate, checkUsageLimit, requireAnalysisPermission, requirePermission } from '@/middleware/auth';
+import { PERMISSIONS } from '@/types/auth';
 
 const router = Router();
 const analysisController = new AnalysisController();
@@ -26,40 +27,55 @@ router.post('/analyze',
 /**
  * @route GET /api/analysis/history
  * @desc Get analysis history for organization
- * @access Private
+ * @access Private (analysis history permission)
  */
 router.get('/history', 
   authenticate, 
+  requirePermission(PERMISSIONS.VIEW_ANALYSIS_HISTORY),
   analysisController.getAnalysisHistory
 );
 
 /**
  * @route GET /api/analysis/:analysisId
  * @desc Get specific analysis by ID
- * @access Private
+ * @access Private (analysis history permission)
  */
 router.get('/:analysisId', 
   authenticate, 
+  requirePermission(PERMISSIONS.VIEW_ANALYSIS_HISTORY),
   analysisController.getAnalysisById
 );
 
+/**
+ * @route GET /api/analysis/:analysisId/replay
+ * @desc Replay an analysis against its pinned snapshot and diff it against current data
+ * @access Private (analysis history permission)
+ */
+router.get('/:analysisId/replay', 
+  authenticate, 
+  requirePermission(PERMISSIONS.VIEW_ANALYSIS_HISTORY),
+  analysisController.replayAnalysis
+);
+
 /**
  * @route DELETE /api/analysis/:analysisId
  * @desc Delete analysis (soft delete)
- * @access Private
+ * @access Private (requires analysis permission)
  */
 router.delete('/:analysisId', 
   authenticate, 
+  requireAnalysisPermission, 
   analysisController.deleteAnalysis
 );
 
 /**
  * @route GET /api/analysis/dashboard/stats
  * @desc Get dashboard statistics
- * @access Private
+ * @access Private (analysis history permission)
  */
 router.get('/dashboard/stats', 
   authenticate, 
+  requirePermission(PERMISSIONS.VIEW_ANALYSIS_HISTORY),
   analysisController.getDashboardStats
 );
 
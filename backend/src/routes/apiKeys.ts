@@ -0,0 +1,66 @@
+/**
+ * HalalCheck EU - API Key Routes
+ *
+ * Organization API keys for machine-to-machine access. Managing keys needs a
+ * signed-in user; a key cannot be used to create or rotate keys.
+ */
+
+import { Router } from 'express';
+import { ApiKeyController } from '@/controllers/apiKeyController';
+import { authenticate, requirePermission, requireUserSession } from '@/middleware/auth';
+import { PERMISSIONS } from '@/types/auth';
+
+const router = Router();
+const apiKeyController = new ApiKeyController();
+
+const requireApiAccess = requirePermission(PERMISSIONS.API_ACCESS);
+
+/**
+ * @route GET /api/api-keys
+ * @desc List the organization's API keys
+ * @access Private (API access permission)
+ */
+router.get('/',
+  authenticate,
+  requireUserSession,
+  requireApiAccess,
+  apiKeyController.getApiKeys
+);
+
+/**
+ * @route POST /api/api-keys
+ * @desc Create an API key scoped to a subset of the caller's permissions
+ * @access Private (API access permission)
+ */
+router.post('/',
+  authenticate,
+  requireUserSession,
+  requireApiAccess,
+  apiKeyController.createApiKey
+);
+
+/**
+ * @route POST /api/api-keys/:keyId/rotate
+ * @desc Issue a replacement key; the old key expires after a grace period
+ * @access Private (API access permission)
+ */
+router.post('/:keyId/rotate',
+  authenticate,
+  requireUserSession,
+  requireApiAccess,
+  apiKeyController.rotateApiKey
+);
+
+/**
+ * @route DELETE /api/api-keys/:keyId
+ * @desc Revoke an API key immediately
+ * @access Private (API access permission)
+ */
+router.delete('/:keyId',
+  authenticate,
+  requireUserSession,
+  requireApiAccess,
+  apiKeyController.revokeApiKey
+);
+
+export default router;
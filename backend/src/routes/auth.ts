@@ -6,7 +6,7 @@
 
 import { Router } from 'express';
 import { AuthController } from '@/controllers/authController';
-import { authenticate, rateLimitAuth } from '@/middleware/auth';
+import { authenticate, authenticateMfaEnrollment, rateLimitAuth, requireUserSession } from '@/middleware/auth';
 
 const router = Router();
 const authController = new AuthController();
@@ -62,13 +62,48 @@ router.post('/refresh', authController.refreshToken);
  * @desc Logout user and revoke tokens
  * @access Private
  */
-router.post('/logout', authenticate, authController.logout);
+router.post('/logout', authenticateMfaEnrollment, requireUserSession, authController.logout);
 
 /**
  * @route GET /api/auth/profile
  * @desc Get current user profile
  * @access Private
  */
-router.get('/profile', authenticate, authController.getProfile);
+router.get('/profile', authenticateMfaEnrollment, authController.getProfile);
+
+/**
+ * @route GET /api/auth/mfa
+ * @desc Get MFA enrollment status
+ * @access Private
+ */
+router.get('/mfa', authenticateMfaEnrollment, requireUserSession, authController.getMfaStatus);
+
+/**
+ * @route POST /api/auth/mfa/setup
+ * @desc Start TOTP enrollment and return the secret and provisioning URI
+ * @access Private
+ */
+router.post('/mfa/setup', authenticateMfaEnrollment, requireUserSession, authController.setupMfa);
+
+/**
+ * @route POST /api/auth/mfa/enable
+ * @desc Confirm TOTP enrollment with a code and return one-time backup codes
+ * @access Private
+ */
+router.post('/mfa/enable', authenticateMfaEnrollment, requireUserSession, authRateLimit, authController.enableMfa);
+
+/**
+ * @route POST /api/auth/mfa/disable
+ * @desc Disable MFA (not allowed when the organization requires it)
+ * @access Private
+ */
+router.post('/mfa/disable', authenticate, requireUserSession, authRateLimit, authController.disableMfa);
+
+/**
+ * @route POST /api/auth/mfa/backup-codes
+ * @desc Replace backup codes after verifying a current code
+ * @access Private
+ */
+router.post('/mfa/backup-codes', authenticate, requireUserSession, authRateLimit, authController.regenerateBackupCodes);
 
 export default router;
\ No newline at end of file
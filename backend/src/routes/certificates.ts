@@ -0,0 +1,149 @@
+/**
+ * HalalCheck EU - Certificate Routes
+ *
+ * Certificate registry, signing, lifecycle management and public QR-code verification
+ */
+
+import express, { Router } from 'express';
+import { CertificateController } from '@/controllers/certificateController';
+import { authenticate, rateLimitAuth, requirePermission } from '@/middleware/auth';
+import { PERMISSIONS } from '@/types/auth';
+
+const router = Router();
+const certificateController = new CertificateController();
+
+const requireCertificateManage = requirePermission(PERMISSIONS.MANAGE_CERTIFICATES);
+const verificationRateLimit = rateLimitAuth(30, 60 * 1000); // 30 lookups per minute per IP
+
+/**
+ * @route GET /api/certificates/verify/:certificateId
+ * @desc Machine-readable verification status (valid, expired, suspended or revoked) and scope
+ * @access Public
+ */
+router.get('/verify/:certificateId',
+  verificationRateLimit,
+  certificateController.verifyCertificate
+);
+
+/**
+ * @route POST /api/certificates/verify/:certificateId
+ * @desc Check a presented certificate PDF (request body) against its signature
+ * @access Public
+ */
+router.post('/verify/:certificateId',
+  verificationRateLimit,
+  express.raw({ type: ['application/pdf', 'application/octet-stream'], limit: '20mb' }),
+  certificateController.verifyCertificateDocument
+);
+
+/**
+ * @route POST /api/certificates
+ * @desc Register a certificate issued by the agent system
+ * @access Private (certificate permission; typically an API key)
+ */
+router.post('/',
+  authenticate,
+  requireCertificateManage,
+  certificateController.registerCertificate
+);
+
+/**
+ * @route GET /api/certificates
+ * @desc List the organization's certificates
+ * @access Private (certificate permission)
+ */
+router.get('/',
+  authenticate,
+  requireCertificateManage,
+  certificateController.getCertificates
+);
+
+/**
+ * @route GET /api/certificates/:certificateId
+ * @desc Get a certificate with its full record
+ * @access Private (certificate permission)
+ */
+router.get('/:certificateId',
+  authenticate,
+  requireCertificateManage,
+  certificateController.getCertificate
+);
+
+/**
+ * @route GET /api/certificates/:certificateId/history
+ * @desc Lifecycle history (issue, suspensions, renewals, scope amendments)
+ * @access Private (certificate permission)
+ */
+router.get('/:certificateId/history',
+  authenticate,
+  requireCertificateManage,
+  certificateController.getCertificateHistory
+);
+
+/**
+ * @route POST /api/certificates/:certificateId/signature
+ * @desc Sign the issued PDF, given its SHA-256 (documentHash), with the organization's key
+ * @access Private (certificate permission; typically an API key)
+ */
+router.post('/:certificateId/signature',
+  authenticate,
+  requireCertificateManage,
+  certificateController.signCertificate
+);
+
+/**
+ * @route POST /api/certificates/:certificateId/suspend
+ * @desc Suspend an active certificate
+ * @access Private (certificate permission)
+ */
+router.post('/:certificateId/suspend',
+  authenticate,
+  requireCertificateManage,
+  certificateController.suspendCertificate
+);
+
+/**
+ * @route POST /api/certificates/:certificateId/reinstate
+ * @desc Reinstate a suspended certificate
+ * @access Private (certificate permission)
+ */
+router.post('/:certificateId/reinstate',
+  authenticate,
+  requireCertificateManage,
+  certificateController.reinstateCertificate
+);
+
+/**
+ * @route POST /api/certificates/:certificateId/revoke
+ * @desc Revoke a certificate permanently
+ * @access Private (certificate permission)
+ */
+router.post('/:certificateId/revoke',
+  authenticate,
+  requireCertificateManage,
+  certificateController.revokeCertificate
+);
+
+/**
+ * @route POST /api/certificates/:certificateId/renew
+ * @desc Renew a certificate into a new validity period, keeping its ID and history
+ * @access Private (certificate permission)
+ */
+router.post('/:certificateId/renew',
+  authenticate,
+  requireCertificateManage,
+  certificateController.renewCertificate
+);
+
+/**
+ * @route PUT /api/certificates/:certificateId/scope
+ * @desc Amend what a certificate covers
+ * @access Private (certificate permission)
+ */
+router.put('/:certificateId/scope',
+  authenticate,
+  requireCertificateManage,
+  certificateController.amendCertificateScope
+);
+
+export default router;
@@ -0,0 +1,108 @@
+/**
+ * HalalCheck EU - Certification Body Routes
+ *
+ * Directory of halal certification bodies (country, standards,
+ * accreditation, logo, status) and the recognition matrix showing which
+ * export-market authorities accept which bodies. Readable by every user;
+ * maintained by platform administrators, by hand or through CSV and JSON
+ * imports. Entry updates carry the version they were based on and fail with
+ * 409 when it is stale.
+ */
+
+import { Router } from 'express';
+import { CertificationBodyController } from '@/controllers/certificationBodyController';
+import { authenticate, requirePermission } from '@/middleware/auth';
+import { PERMISSIONS } from '@/types/auth';
+
+const router = Router();
+const certificationBodyController = new CertificationBodyController();
+
+const requireDirectoryManage = requirePermission(PERMISSIONS.MANAGE_CERTIFICATION_BODIES);
+
+/**
+ * @route GET /api/certification-bodies
+ * @desc Recognition authorities and certification bodies with their recognitions (?search=, ?authority=)
+ * @access Private
+ */
+router.get('/',
+  authenticate,
+  certificationBodyController.getCertificationBodies
+);
+
+/**
+ * @route POST /api/certification-bodies
+ * @desc Add a certification body (name, aliases, country, standards, accreditation, logoUrl, website, status, recognitions)
+ * @access Private (Super Admin)
+ */
+router.post('/',
+  authenticate,
+  requireDirectoryManage,
+  certificationBodyController.createCertificationBody
+);
+
+/**
+ * @route POST /api/certification-bodies/import
+ * @desc Add or update certification bodies from a CSV or JSON list (format, content)
+ * @access Private (Super Admin)
+ */
+router.post('/import',
+  authenticate,
+  requireDirectoryManage,
+  certificationBodyController.importCertificationBodies
+);
+
+/**
+ * @route GET /api/certification-bodies/:bodyId
+ * @desc Get a certification body with its recognitions
+ * @access Private
+ */
+router.get('/:bodyId',
+  authenticate,
+  certificationBodyController.getCertificationBody
+);
+
+/**
+ * @route PATCH /api/certification-bodies/:bodyId
+ * @desc Update a certification body (version required); given recognitions replace its recognitions
+ * @access Private (Super Admin)
+ */
+router.patch('/:bodyId',
+  authenticate,
+  requireDirectoryManage,
+  certificationBodyController.updateCertificationBody
+);
+
+/**
+ * @route DELETE /api/certification-bodies/:bodyId
+ * @desc Remove a certification body (optional ?version=)
+ * @access Private (Super Admin)
+ */
+router.delete('/:bodyId',
+  authenticate,
+  requireDirectoryManage,
+  certificationBodyController.deleteCertificationBody
+);
+
+/**
+ * @route PUT /api/certification-bodies/:bodyId/recognitions/:authority
+ * @desc Record an authority's recognition of the body (status recognized or suspended, validUntil, reference)
+ * @access Private (Super Admin)
+ */
+router.put('/:bodyId/recognitions/:authority',
+  authenticate,
+  requireDirectoryManage,
+  certificationBodyController.setRecognition
+);
+
+/**
+ * @route DELETE /api/certification-bodies/:bodyId/recognitions/:authority
+ * @desc Remove an authority's recognition of the body
+ * @access Private (Super Admin)
+ */
+router.delete('/:bodyId/recognitions/:authority',
+  authenticate,
+  requireDirectoryManage,
+  certificationBodyController.removeRecognition
+);
+
+export default router;
@@ -0,0 +1,83 @@
+/**
+ * HalalCheck EU - Job Routes
+ *
+ * Background bulk analysis jobs with live progress
+ */
+
+import { Router } from 'express';
+import { JobController } from '@/controllers/jobController';
+import { authenticate, checkUsageLimit, requireAnalysisPermission, requirePermission } from '@/middleware/auth';
+import { PERMISSIONS } from '@/types/auth';
+
+const router = Router();
+const jobController = new JobController();
+
+/**
+ * @route POST /api/jobs
+ * @desc Queue ingredient analysis for a list of products
+ * @access Private (analysis permission)
+ */
+router.post('/',
+  authenticate,
+  checkUsageLimit,
+  requireAnalysisPermission,
+  jobController.createAnalysisJob
+);
+
+/**
+ * @route GET /api/jobs
+ * @desc List recent jobs of the organization
+ * @access Private (analysis history permission)
+ */
+router.get('/',
+  authenticate,
+  requirePermission(PERMISSIONS.VIEW_ANALYSIS_HISTORY),
+  jobController.getJobs
+);
+
+/**
+ * @route GET /api/jobs/:jobId
+ * @desc Get a job with per-item status and results
+ * @access Private (analysis history permission)
+ */
+router.get('/:jobId',
+  authenticate,
+  requirePermission(PERMISSIONS.VIEW_ANALYSIS_HISTORY),
+  jobController.getJob
+);
+
+/**
+ * @route GET /api/jobs/:jobId/events
+ * @desc Stream job progress (Server-Sent Events)
+ * @access Private (analysis history permission)
+ */
+router.get('/:jobId/events',
+  authenticate,
+  requirePermission(PERMISSIONS.VIEW_ANALYSIS_HISTORY),
+  jobController.streamJobEvents
+);
+
+/**
+ * @route POST /api/jobs/:jobId/cancel
+ * @desc Cancel the pending items of a job
+ * @access Private (analysis permission)
+ */
+router.post('/:jobId/cancel',
+  authenticate,
+  requireAnalysisPermission,
+  jobController.cancelJob
+);
+
+/**
+ * @route POST /api/jobs/:jobId/resume
+ * @desc Requeue the failed and cancelled items of a finished job
+ * @access Private (analysis permission)
+ */
+router.post('/:jobId/resume',
+  authenticate,
+  checkUsageLimit,
+  requireAnalysisPermission,
+  jobController.resumeJob
+);
+
+export default router;
@@ -0,0 +1,124 @@
+/**
+ * HalalCheck EU - Knowledge Base Routes
+ *
+ * Two-person reviewed ingredient classification changes, version history
+ * and re-evaluation of analyses affected by approved changes
+ */
+
+import { Router } from 'express';
+import { KnowledgeBaseController } from '@/controllers/knowledgeBaseController';
+import { authenticate, requirePermission, requireRole, requireUserSession } from '@/middleware/auth';
+import { PERMISSIONS, UserRole } from '@/types/auth';
+
+const router = Router();
+const knowledgeBaseController = new KnowledgeBaseController();
+
+// Classifications are shared by every organization, so reviewing them is a
+// platform-level permission that self-registration never grants
+const requireScholar = requirePermission(PERMISSIONS.MANAGE_INGREDIENTS_DB);
+const requireReevaluator = requireRole([UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.CERTIFIER]);
+
+/**
+ * @route GET /api/knowledge-base/proposals
+ * @desc List ingredient change proposals (filter by status, ingredientId)
+ * @access Private (Ingredient reviewer)
+ */
+router.get('/proposals',
+  authenticate,
+  requireUserSession,
+  requireScholar,
+  knowledgeBaseController.getProposals
+);
+
+/**
+ * @route GET /api/knowledge-base/proposals/:proposalId
+ * @desc Get a change proposal
+ * @access Private (Ingredient reviewer)
+ */
+router.get('/proposals/:proposalId',
+  authenticate,
+  requireUserSession,
+  requireScholar,
+  knowledgeBaseController.getProposal
+);
+
+/**
+ * @route POST /api/knowledge-base/ingredients/:ingredientId/proposals
+ * @desc Propose a classification change
+ * @access Private (Ingredient reviewer)
+ */
+router.post('/ingredients/:ingredientId/proposals',
+  authenticate,
+  requireUserSession,
+  requireScholar,
+  knowledgeBaseController.proposeChange
+);
+
+/**
+ * @route GET /api/knowledge-base/ingredients/:ingredientId/history
+ * @desc Version history and change proposals of an ingredient
+ * @access Private
+ */
+router.get('/ingredients/:ingredientId/history',
+  authenticate,
+  knowledgeBaseController.getIngredientHistory
+);
+
+/**
+ * @route POST /api/knowledge-base/proposals/:proposalId/approve
+ * @desc Approve a change proposal; the reviewer must differ from the proposer
+ * @access Private (Ingredient reviewer)
+ */
+router.post('/proposals/:proposalId/approve',
+  authenticate,
+  requireUserSession,
+  requireScholar,
+  knowledgeBaseController.approveProposal
+);
+
+/**
+ * @route POST /api/knowledge-base/proposals/:proposalId/reject
+ * @desc Reject a change proposal
+ * @access Private (Ingredient reviewer)
+ */
+router.post('/proposals/:proposalId/reject',
+  authenticate,
+  requireUserSession,
+  requireScholar,
+  knowledgeBaseController.rejectProposal
+);
+
+/**
+ * @route GET /api/knowledge-base/reevaluations
+ * @desc Organization analyses flagged by approved changes (filter by status)
+ * @access Private (Admin, Certifier)
+ */
+router.get('/reevaluations',
+  authenticate,
+  requireReevaluator,
+  knowledgeBaseController.getReevaluations
+);
+
+/**
+ * @route POST /api/knowledge-base/reevaluations/:flagId/reanalyze
+ * @desc Re-run a flagged analysis with the current knowledge base
+ * @access Private (Admin, Certifier)
+ */
+router.post('/reevaluations/:flagId/reanalyze',
+  authenticate,
+  requireReevaluator,
+  knowledgeBaseController.reanalyzeFlagged
+);
+
+/**
+ * @route POST /api/knowledge-base/reevaluations/:flagId/dismiss
+ * @desc Dismiss a flag after manual review
+ * @access Private (Admin, Certifier)
+ */
+router.post('/reevaluations/:flagId/dismiss',
+  authenticate,
+  requireReevaluator,
+  knowledgeBaseController.dismissFlag
+);
+
+export default router;
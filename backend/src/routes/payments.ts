@@ -6,7 +6,7 @@
 
 import { Router } from 'express';
 import { PaymentController } from '@/controllers/paymentController';
-import { authenticate, requireAdmin } from '@/middleware/auth';
+import { authenticate, requireAdmin, requireUserSession } from '@/middleware/auth';
 import express from 'express';
 
 const router = Router();
@@ -28,6 +28,7 @@ router.get('/plans',
  */
 router.post('/create-subscription-session',
   authenticate,
+  requireUserSession,
   paymentController.createSubscriptionSession
 );
 
@@ -38,6 +39,7 @@ router.post('/create-subscription-session',
  */
 router.post('/create-portal-session',
   authenticate,
+  requireUserSession,
   paymentController.createPortalSession
 );
 
@@ -0,0 +1,280 @@
+/**
+ * HalalCheck EU - Pipeline Routes
+ *
+ * Shared applications pipeline: applications, their supporting documents
+ * checked against the organization's document checklist, the certificates
+ * issued from them and the organization's custom pipeline columns. Changes carry the
+ * record version they were based on and fail with 409 when it is stale.
+ * Committed changes are pushed to members over the WebSocket at
+ * /api/pipeline/live (see PipelineSocketService).
+ */
+
+import { Router } from 'express';
+import { PipelineController } from '@/controllers/pipelineController';
+import { PipelineDocumentController } from '@/controllers/pipelineDocumentController';
+import { authenticate, requirePermission } from '@/middleware/auth';
+import { PERMISSIONS } from '@/types/auth';
+
+const router = Router();
+const pipelineController = new PipelineController();
+const pipelineDocumentController = new PipelineDocumentController();
+
+const requirePipelineView = requirePermission(PERMISSIONS.VIEW_PIPELINE);
+const requirePipelineManage = requirePermission(PERMISSIONS.MANAGE_PIPELINE);
+const requireCertificateManage = requirePermission(PERMISSIONS.MANAGE_CERTIFICATES);
+
+/**
+ * @route GET /api/pipeline/applications
+ * @desc List the organization's applications (organizationType, status, limit, offset)
+ * @access Private (pipeline view permission)
+ */
+router.get('/applications',
+  authenticate,
+  requirePipelineView,
+  pipelineController.getApplications
+);
+
+/**
+ * @route POST /api/pipeline/applications
+ * @desc Add an application (optionally with a client-generated UUID)
+ * @access Private (pipeline permission)
+ */
+router.post('/applications',
+  authenticate,
+  requirePipelineManage,
+  pipelineController.createApplication
+);
+
+/**
+ * @route GET /api/pipeline/applications/:applicationId
+ * @desc Get an application
+ * @access Private (pipeline view permission)
+ */
+router.get('/applications/:applicationId',
+  authenticate,
+  requirePipelineView,
+  pipelineController.getApplication
+);
+
+/**
+ * @route PATCH /api/pipeline/applications/:applicationId
+ * @desc Change an application (version plus the changed fields); 409 when the version is stale
+ * @access Private (pipeline permission)
+ */
+router.patch('/applications/:applicationId',
+  authenticate,
+  requirePipelineManage,
+  pipelineController.updateApplication
+);
+
+/**
+ * @route DELETE /api/pipeline/applications/:applicationId
+ * @desc Delete an application and its certificate (optional version query parameter)
+ * @access Private (pipeline permission)
+ */
+router.delete('/applications/:applicationId',
+  authenticate,
+  requirePipelineManage,
+  pipelineController.deleteApplication
+);
+
+/**
+ * @route GET /api/pipeline/checklist
+ * @desc The organization's document checklist and its version (0 while the built-in checklist applies)
+ * @access Private (pipeline view permission)
+ */
+router.get('/checklist',
+  authenticate,
+  requirePipelineView,
+  pipelineDocumentController.getChecklist
+);
+
+/**
+ * @route PUT /api/pipeline/checklist
+ * @desc Replace the document checklist (items, version)
+ * @access Private (pipeline permission)
+ */
+router.put('/checklist',
+  authenticate,
+  requirePipelineManage,
+  pipelineDocumentController.updateChecklist
+);
+
+/**
+ * @route GET /api/pipeline/applications/:applicationId/checklist
+ * @desc The application's checklist: each item's state, expiry and matched documents
+ * @access Private (pipeline view permission)
+ */
+router.get('/applications/:applicationId/checklist',
+  authenticate,
+  requirePipelineView,
+  pipelineDocumentController.getApplicationChecklist
+);
+
+/**
+ * @route GET /api/pipeline/applications/:applicationId/documents
+ * @desc List the documents uploaded for an application
+ * @access Private (pipeline view permission)
+ */
+router.get('/applications/:applicationId/documents',
+  authenticate,
+  requirePipelineView,
+  pipelineDocumentController.getDocuments
+);
+
+/**
+ * @route POST /api/pipeline/applications/:applicationId/documents
+ * @desc Upload a document (multipart file, optional checklistItem); it is queued for processing
+ * @access Private (pipeline permission)
+ */
+router.post('/applications/:applicationId/documents',
+  authenticate,
+  requirePipelineManage,
+  pipelineDocumentController.uploadFile,
+  pipelineDocumentController.uploadDocument
+);
+
+/**
+ * @route GET /api/pipeline/documents/expiring
+ * @desc Documents that expired or expire within withinDays days (default 30), soonest first
+ * @access Private (pipeline view permission)
+ */
+router.get('/documents/expiring',
+  authenticate,
+  requirePipelineView,
+  pipelineDocumentController.getExpiringDocuments
+);
+
+/**
+ * @route POST /api/pipeline/documents/claim
+ * @desc Claim documents waiting to be processed (limit); used by the agent system
+ * @access Private (pipeline permission)
+ */
+router.post('/documents/claim',
+  authenticate,
+  requirePipelineManage,
+  pipelineDocumentController.claimPendingDocuments
+);
+
+/**
+ * @route GET /api/pipeline/documents/:documentId/content
+ * @desc Download a document's file
+ * @access Private (pipeline view permission)
+ */
+router.get('/documents/:documentId/content',
+  authenticate,
+  requirePipelineView,
+  pipelineDocumentController.getDocumentContent
+);
+
+/**
+ * @route POST /api/pipeline/documents/:documentId/extraction
+ * @desc Record what was extracted from a claimed document; used by the agent system
+ * @access Private (pipeline permission)
+ */
+router.post('/documents/:documentId/extraction',
+  authenticate,
+  requirePipelineManage,
+  pipelineDocumentController.recordExtraction
+);
+
+/**
+ * @route PATCH /api/pipeline/documents/:documentId
+ * @desc Correct a document's checklist item, expiry date or certificate details
+ * @access Private (pipeline permission)
+ */
+router.patch('/documents/:documentId',
+  authenticate,
+  requirePipelineManage,
+  pipelineDocumentController.updateDocument
+);
+
+/**
+ * @route DELETE /api/pipeline/documents/:documentId
+ * @desc Delete a document and its file
+ * @access Private (pipeline permission)
+ */
+router.delete('/documents/:documentId',
+  authenticate,
+  requirePipelineManage,
+  pipelineDocumentController.deleteDocument
+);
+
+/**
+ * @route POST /api/pipeline/applications/:applicationId/certificate
+ * @desc Issue the application's certificate; returns the existing one if issued before
+ * @access Private (certificate permission)
+ */
+router.post('/applications/:applicationId/certificate',
+  authenticate,
+  requireCertificateManage,
+  pipelineController.issueCertificate
+);
+
+/**
+ * @route GET /api/pipeline/certificates
+ * @desc List the certificates issued from the organization's applications
+ * @access Private (pipeline view permission)
+ */
+router.get('/certificates',
+  authenticate,
+  requirePipelineView,
+  pipelineController.getCertificates
+);
+
+/**
+ * @route GET /api/pipeline/certificates/:certificateId
+ * @desc Get a certificate
+ * @access Private (pipeline view permission)
+ */
+router.get('/certificates/:certificateId',
+  authenticate,
+  requirePipelineView,
+  pipelineController.getCertificate
+);
+
+/**
+ * @route PATCH /api/pipeline/certificates/:certificateId
+ * @desc Change a certificate's status, expiry, notes or PDF link (with version)
+ * @access Private (certificate permission)
+ */
+router.patch('/certificates/:certificateId',
+  authenticate,
+  requireCertificateManage,
+  pipelineController.updateCertificate
+);
+
+/**
+ * @route DELETE /api/pipeline/certificates/:certificateId
+ * @desc Delete a certificate
+ * @access Private (certificate permission)
+ */
+router.delete('/certificates/:certificateId',
+  authenticate,
+  requireCertificateManage,
+  pipelineController.deleteCertificate
+);
+
+/**
+ * @route GET /api/pipeline/columns
+ * @desc The organization's custom pipeline columns and their version
+ * @access Private (pipeline view permission)
+ */
+router.get('/columns',
+  authenticate,
+  requirePipelineView,
+  pipelineController.getColumns
+);
+
+/**
+ * @route PUT /api/pipeline/columns
+ * @desc Replace the custom pipeline columns (columns, version; 0 before the first save)
+ * @access Private (pipeline permission)
+ */
+router.put('/columns',
+  authenticate,
+  requirePipelineManage,
+  pipelineController.updateColumns
+);
+
+export default router;
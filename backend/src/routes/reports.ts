@@ -6,8 +6,8 @@
 
 import { Router } from 'express';
 import { ReportController } from '@/controllers/reportController';
-import { authenticate, requireRole } from '@/middleware/auth';
-import { UserRole } from '@/types/auth';
+import { authenticate, requirePermission, requireRole } from '@/middleware/auth';
+import { PERMISSIONS, UserRole } from '@/types/auth';
 
 const router = Router();
 const reportController = new ReportController();
@@ -15,31 +15,65 @@ const reportController = new ReportController();
 /**
  * @route GET /api/reports/summary
  * @desc Get analysis summary report with filters
- * @access Private
+ * @access Private (analysis history permission)
  */
 router.get('/summary', 
   authenticate, 
+  requirePermission(PERMISSIONS.VIEW_ANALYSIS_HISTORY),
   reportController.getAnalysisSummary
 );
 
 /**
  * @route GET /api/reports/export/csv
  * @desc Export analysis data as CSV
- * @access Private
+ * @access Private (report export permission)
  */
 router.get('/export/csv', 
   authenticate, 
+  requirePermission(PERMISSIONS.EXPORT_REPORTS),
   reportController.exportAnalysesCSV
 );
 
 /**
  * @route GET /api/reports/ingredients
  * @desc Get ingredient frequency and analysis report
- * @access Private
+ * @access Private (analysis history permission)
  */
 router.get('/ingredients', 
   authenticate, 
+  requirePermission(PERMISSIONS.VIEW_ANALYSIS_HISTORY),
   reportController.getIngredientReport
 );
 
+/**
+ * @route POST /api/reports/analyses/:analysisId
+ * @desc Render and store an analysis report (PDF, Excel or JSON); returns a signed download link
+ * @access Private (report export permission)
+ */
+router.post('/analyses/:analysisId',
+  authenticate,
+  requirePermission(PERMISSIONS.EXPORT_REPORTS),
+  reportController.generateReport
+);
+
+/**
+ * @route POST /api/reports/:reportId/links
+ * @desc Issue a new signed, expiring download link for a stored report
+ * @access Private (report export permission)
+ */
+router.post('/:reportId/links',
+  authenticate,
+  requirePermission(PERMISSIONS.EXPORT_REPORTS),
+  reportController.createDownloadLink
+);
+
+/**
+ * @route GET /api/reports/:reportId/download
+ * @desc Download a stored report through a signed link
+ * @access Public (valid, unexpired signature)
+ */
+router.get('/:reportId/download',
+  reportController.downloadReport
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,52 @@
+/**
+ * HalalCheck EU - Signing Key Routes
+ *
+ * Per-organization keys that sign certificates and reports, and the public
+ * JWKS endpoint importers use to verify them
+ */
+
+import { Router } from 'express';
+import { SigningKeyController } from '@/controllers/signingKeyController';
+import { authenticate, rateLimitAuth, requirePermission, requireUserSession } from '@/middleware/auth';
+import { PERMISSIONS } from '@/types/auth';
+
+const router = Router();
+const signingKeyController = new SigningKeyController();
+
+const requireOrganizationManage = requirePermission(PERMISSIONS.MANAGE_ORGANIZATION);
+const jwksRateLimit = rateLimitAuth(60, 60 * 1000); // 60 lookups per minute per IP
+
+/**
+ * @route GET /api/signing-keys/:organizationId/jwks.json
+ * @desc Public keys (current and retired) that verify the organization's documents
+ * @access Public
+ */
+router.get('/:organizationId/jwks.json',
+  jwksRateLimit,
+  signingKeyController.getJwks
+);
+
+/**
+ * @route GET /api/signing-keys
+ * @desc List the organization's signing keys
+ * @access Private (organization management permission)
+ */
+router.get('/',
+  authenticate,
+  requireOrganizationManage,
+  signingKeyController.getSigningKeys
+);
+
+/**
+ * @route POST /api/signing-keys/rotate
+ * @desc Retire the active signing key and start signing with a new one
+ * @access Private (organization management permission, signed-in user)
+ */
+router.post('/rotate',
+  authenticate,
+  requireUserSession,
+  requireOrganizationManage,
+  signingKeyController.rotateSigningKey
+);
+
+export default router;
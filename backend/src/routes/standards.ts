@@ -0,0 +1,70 @@
+/**
+ * HalalCheck EU - Certification Standards Routes
+ *
+ * Built-in standard rule sets and certification-body defined CUSTOM rule sets
+ */
+
+import { Router } from 'express';
+import { StandardsController } from '@/controllers/standardsController';
+import { authenticate, requireRole } from '@/middleware/auth';
+import { UserRole } from '@/types/auth';
+
+const router = Router();
+const standardsController = new StandardsController();
+
+const requireRuleSetManager = requireRole([UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.CERTIFIER]);
+
+/**
+ * @route GET /api/standards
+ * @desc List built-in certification standards and their rules
+ * @access Private
+ */
+router.get('/',
+  authenticate,
+  standardsController.getStandards
+);
+
+/**
+ * @route GET /api/standards/custom
+ * @desc List custom rule sets available to the organization
+ * @access Private
+ */
+router.get('/custom',
+  authenticate,
+  standardsController.getCustomRuleSets
+);
+
+/**
+ * @route POST /api/standards/custom
+ * @desc Create a custom rule set
+ * @access Private (Admin, Certifier)
+ */
+router.post('/custom',
+  authenticate,
+  requireRuleSetManager,
+  standardsController.createCustomRuleSet
+);
+
+/**
+ * @route PUT /api/standards/custom/:ruleSetId
+ * @desc Replace a custom rule set
+ * @access Private (Admin, Certifier)
+ */
+router.put('/custom/:ruleSetId',
+  authenticate,
+  requireRuleSetManager,
+  standardsController.updateCustomRuleSet
+);
+
+/**
+ * @route DELETE /api/standards/custom/:ruleSetId
+ * @desc Delete a custom rule set
+ * @access Private (Admin, Certifier)
+ */
+router.delete('/custom/:ruleSetId',
+  authenticate,
+  requireRuleSetManager,
+  standardsController.deleteCustomRuleSet
+);
+
+export default router;
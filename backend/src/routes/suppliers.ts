@@ -0,0 +1,154 @@
+/**
+ * HalalCheck EU - Supplier Routes
+ *
+ * Supplier registry: suppliers, the raw materials they provide (linked to
+ * the ingredient knowledge base) and their halal certificates. Analyses
+ * record a valid certificate covering an ingredient's material as
+ * "certified by supplier" evidence. Supplier updates carry the version they
+ * were based on and fail with 409 when it is stale.
+ */
+
+import { Router } from 'express';
+import { SupplierController } from '@/controllers/supplierController';
+import { authenticate, requirePermission } from '@/middleware/auth';
+import { PERMISSIONS } from '@/types/auth';
+
+const router = Router();
+const supplierController = new SupplierController();
+
+const requireSupplierView = requirePermission(PERMISSIONS.VIEW_SUPPLIERS);
+const requireSupplierManage = requirePermission(PERMISSIONS.MANAGE_SUPPLIERS);
+
+/**
+ * @route GET /api/suppliers
+ * @desc List the organization's suppliers with their materials and certificates
+ * @access Private (supplier view permission)
+ */
+router.get('/',
+  authenticate,
+  requireSupplierView,
+  supplierController.getSuppliers
+);
+
+/**
+ * @route POST /api/suppliers
+ * @desc Add a supplier (name, country, contactName, contactEmail, notes, active)
+ * @access Private (supplier permission)
+ */
+router.post('/',
+  authenticate,
+  requireSupplierManage,
+  supplierController.createSupplier
+);
+
+/**
+ * @route GET /api/suppliers/ingredients
+ * @desc Search knowledge-base ingredients to link materials to (?search=)
+ * @access Private (supplier view permission)
+ */
+router.get('/ingredients',
+  authenticate,
+  requireSupplierView,
+  supplierController.searchIngredients
+);
+
+/**
+ * @route GET /api/suppliers/:supplierId
+ * @desc Get a supplier with its materials and certificates
+ * @access Private (supplier view permission)
+ */
+router.get('/:supplierId',
+  authenticate,
+  requireSupplierView,
+  supplierController.getSupplier
+);
+
+/**
+ * @route PATCH /api/suppliers/:supplierId
+ * @desc Update a supplier (version required)
+ * @access Private (supplier permission)
+ */
+router.patch('/:supplierId',
+  authenticate,
+  requireSupplierManage,
+  supplierController.updateSupplier
+);
+
+/**
+ * @route DELETE /api/suppliers/:supplierId
+ * @desc Delete a supplier with its materials and certificates (optional ?version=)
+ * @access Private (supplier permission)
+ */
+router.delete('/:supplierId',
+  authenticate,
+  requireSupplierManage,
+  supplierController.deleteSupplier
+);
+
+/**
+ * @route POST /api/suppliers/:supplierId/materials
+ * @desc Register a raw material (name, productCode, ingredientId of the knowledge-base ingredient)
+ * @access Private (supplier permission)
+ */
+router.post('/:supplierId/materials',
+  authenticate,
+  requireSupplierManage,
+  supplierController.addMaterial
+);
+
+/**
+ * @route PATCH /api/suppliers/:supplierId/materials/:materialId
+ * @desc Update a material
+ * @access Private (supplier permission)
+ */
+router.patch('/:supplierId/materials/:materialId',
+  authenticate,
+  requireSupplierManage,
+  supplierController.updateMaterial
+);
+
+/**
+ * @route DELETE /api/suppliers/:supplierId/materials/:materialId
+ * @desc Remove a material; the supplier's certificates no longer cover it
+ * @access Private (supplier permission)
+ */
+router.delete('/:supplierId/materials/:materialId',
+  authenticate,
+  requireSupplierManage,
+  supplierController.removeMaterial
+);
+
+/**
+ * @route POST /api/suppliers/:supplierId/certificates
+ * @desc Record a halal certificate (issuer, certificateNumber, validFrom, validUntil, scope, materialIds, documentId)
+ * @access Private (supplier permission)
+ */
+router.post('/:supplierId/certificates',
+  authenticate,
+  requireSupplierManage,
+  supplierController.addCertificate
+);
+
+/**
+ * @route PATCH /api/suppliers/:supplierId/certificates/:certificateId
+ * @desc Update a certificate, e.g. its validity, covered materials or status (active, suspended, withdrawn)
+ * @access Private (supplier permission)
+ */
+router.patch('/:supplierId/certificates/:certificateId',
+  authenticate,
+  requireSupplierManage,
+  supplierController.updateCertificate
+);
+
+/**
+ * @route DELETE /api/suppliers/:supplierId/certificates/:certificateId
+ * @desc Remove a certificate
+ * @access Private (supplier permission)
+ */
+router.delete('/:supplierId/certificates/:certificateId',
+  authenticate,
+  requireSupplierManage,
+  supplierController.removeCertificate
+);
+
+export default router;
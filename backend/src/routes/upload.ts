@@ -6,7 +6,7 @@
 
 import { Router } from 'express';
 import { UploadController } from '@/controllers/uploadController';
-import { authenticate, checkUsageLimit } from '@/middleware/auth';
+import { authenticate, checkUsageLimit, requireAnalysisPermission } from '@/middleware/auth';
 
 const router = Router();
 const uploadController = new UploadController();
@@ -17,23 +17,25 @@ const upload = uploadController.getMulterMiddleware();
 /**
  * @route POST /api/upload/ingredient-label
  * @desc Upload and process single ingredient label image
- * @access Private
+ * @access Private (analysis permission)
  */
 router.post('/ingredient-label',
   authenticate,
   checkUsageLimit,
+  requireAnalysisPermission,
   upload.single('image'),
   uploadController.uploadIngredientLabel
 );
 
 /**
  * @route POST /api/upload/ingredient-labels/batch
- * @desc Upload and process multiple ingredient label images
- * @access Private
+ * @desc Upload multiple ingredient label images and queue them for OCR (see /api/jobs)
+ * @access Private (analysis permission)
  */
 router.post('/ingredient-labels/batch',
   authenticate,
   checkUsageLimit,
+  requireAnalysisPermission,
   upload.array('images', 5), // Max 5 files
   uploadController.uploadMultipleLabels
 );
@@ -6,7 +6,7 @@
 
 import { Router } from 'express';
 import { UserController } from '@/controllers/userController';
-import { authenticate, requireAdmin, requireRole } from '@/middleware/auth';
+import { authenticate, requireAdmin, requireRole, requireUserSession } from '@/middleware/auth';
 import { UserRole } from '@/types/auth';
 
 const router = Router();
@@ -19,6 +19,7 @@ const userController = new UserController();
  */
 router.put('/profile', 
   authenticate, 
+  requireUserSession,
   userController.updateProfile
 );
 
@@ -29,6 +30,7 @@ router.put('/profile',
  */
 router.put('/password', 
   authenticate, 
+  requireUserSession,
   userController.changePassword
 );
 
@@ -54,6 +56,17 @@ router.put('/:userId/role',
   userController.updateUserRole
 );
 
+/**
+ * @route PUT /api/users/:userId/workflow-roles
+ * @desc Set the workflow roles a user handles tasks for (admin only)
+ * @access Private (Admin)
+ */
+router.put('/:userId/workflow-roles', 
+  authenticate, 
+  requireAdmin, 
+  userController.updateUserWorkflowRoles
+);
+
 /**
  * @route DELETE /api/users/:userId
  * @desc Deactivate user (admin only)
@@ -65,4 +78,15 @@ router.delete('/:userId',
   userController.deactivateUser
 );
 
+/**
+ * @route DELETE /api/users/:userId/mfa
+ * @desc Reset a user's MFA for device loss recovery (admin only)
+ * @access Private (Admin)
+ */
+router.delete('/:userId/mfa', 
+  authenticate, 
+  requireAdmin, 
+  userController.resetUserMfa
+);
+
 export default router;
\ No newline at end of file
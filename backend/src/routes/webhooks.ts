@@ -0,0 +1,127 @@
+/**
+ * HalalCheck EU - Webhook Routes
+ *
+ * Outbound webhook endpoints, delivery log and dead-letter replay
+ */
+
+import { Router } from 'express';
+import { WebhookController } from '@/controllers/webhookController';
+import { authenticate, requirePermission } from '@/middleware/auth';
+import { PERMISSIONS } from '@/types/auth';
+
+const router = Router();
+const webhookController = new WebhookController();
+
+const requireWebhookManage = requirePermission(PERMISSIONS.WEBHOOK_MANAGE);
+
+/**
+ * @route POST /api/webhooks/events
+ * @desc Publish an agent system event to subscribed endpoints
+ * @access Private (webhook permission; typically an API key)
+ */
+router.post('/events',
+  authenticate,
+  requireWebhookManage,
+  webhookController.ingestAgentEvent
+);
+
+/**
+ * @route GET /api/webhooks/deliveries/:deliveryId
+ * @desc Get a delivery with its payload and attempt log
+ * @access Private (webhook permission)
+ */
+router.get('/deliveries/:deliveryId',
+  authenticate,
+  requireWebhookManage,
+  webhookController.getDelivery
+);
+
+/**
+ * @route POST /api/webhooks/deliveries/:deliveryId/replay
+ * @desc Send a delivered or dead-lettered event again
+ * @access Private (webhook permission)
+ */
+router.post('/deliveries/:deliveryId/replay',
+  authenticate,
+  requireWebhookManage,
+  webhookController.replayDelivery
+);
+
+/**
+ * @route GET /api/webhooks
+ * @desc List the organization's webhook endpoints
+ * @access Private (webhook permission)
+ */
+router.get('/',
+  authenticate,
+  requireWebhookManage,
+  webhookController.getWebhooks
+);
+
+/**
+ * @route POST /api/webhooks
+ * @desc Register an HTTPS endpoint for selected event types
+ * @access Private (webhook permission)
+ */
+router.post('/',
+  authenticate,
+  requireWebhookManage,
+  webhookController.createWebhook
+);
+
+/**
+ * @route PUT /api/webhooks/:endpointId
+ * @desc Update an endpoint or pause/resume it
+ * @access Private (webhook permission)
+ */
+router.put('/:endpointId',
+  authenticate,
+  requireWebhookManage,
+  webhookController.updateWebhook
+);
+
+/**
+ * @route DELETE /api/webhooks/:endpointId
+ * @desc Delete an endpoint and its delivery log
+ * @access Private (webhook permission)
+ */
+router.delete('/:endpointId',
+  authenticate,
+  requireWebhookManage,
+  webhookController.deleteWebhook
+);
+
+/**
+ * @route POST /api/webhooks/:endpointId/rotate-secret
+ * @desc Replace the endpoint's signing secret
+ * @access Private (webhook permission)
+ */
+router.post('/:endpointId/rotate-secret',
+  authenticate,
+  requireWebhookManage,
+  webhookController.rotateWebhookSecret
+);
+
+/**
+ * @route GET /api/webhooks/:endpointId/deliveries
+ * @desc Delivery log of an endpoint (status=DEAD for the dead-letter list)
+ * @access Private (webhook permission)
+ */
+router.get('/:endpointId/deliveries',
+  authenticate,
+  requireWebhookManage,
+  webhookController.getDeliveries
+);
+
+/**
+ * @route POST /api/webhooks/:endpointId/dead-letters/replay
+ * @desc Requeue all dead-lettered deliveries of an endpoint
+ * @access Private (webhook permission)
+ */
+router.post('/:endpointId/dead-letters/replay',
+  authenticate,
+  requireWebhookManage,
+  webhookController.replayDeadLetters
+);
+
+export default router;
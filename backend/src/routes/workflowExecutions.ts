@@ -0,0 +1,106 @@
+/**
+ * HalalCheck EU - Workflow Execution Routes
+ *
+ * Persisted agent workflow executions: listing, inspection, cancellation and
+ * retries, plus the checkpoint and claim calls used by agent processes
+ */
+
+import { Router } from 'express';
+import { WorkflowExecutionController } from '@/controllers/workflowExecutionController';
+import { authenticate, requirePermission } from '@/middleware/auth';
+import { PERMISSIONS } from '@/types/auth';
+
+const router = Router();
+const workflowExecutionController = new WorkflowExecutionController();
+
+const requireWorkflowManage = requirePermission(PERMISSIONS.MANAGE_WORKFLOWS);
+
+/**
+ * @route GET /api/workflow-executions
+ * @desc List the organization's workflow executions (filter by status or workflowId)
+ * @access Private (workflow permission)
+ */
+router.get('/',
+  authenticate,
+  requireWorkflowManage,
+  workflowExecutionController.getExecutions
+);
+
+/**
+ * @route POST /api/workflow-executions
+ * @desc Record an execution started by an agent process
+ * @access Private (workflow permission; typically an API key)
+ */
+router.post('/',
+  authenticate,
+  requireWorkflowManage,
+  workflowExecutionController.createExecution
+);
+
+/**
+ * @route POST /api/workflow-executions/claim
+ * @desc Claim queued retries and executions abandoned by a stopped agent process
+ * @access Private (workflow permission; typically an API key)
+ */
+router.post('/claim',
+  authenticate,
+  requireWorkflowManage,
+  workflowExecutionController.claimExecutions
+);
+
+/**
+ * @route POST /api/workflow-executions/leases
+ * @desc Renew the leases an agent process holds on its running executions
+ * @access Private (workflow permission; typically an API key)
+ */
+router.post('/leases',
+  authenticate,
+  requireWorkflowManage,
+  workflowExecutionController.renewLeases
+);
+
+/**
+ * @route GET /api/workflow-executions/:executionId
+ * @desc Get an execution with its step outputs, errors and retry counters
+ * @access Private (workflow permission)
+ */
+router.get('/:executionId',
+  authenticate,
+  requireWorkflowManage,
+  workflowExecutionController.getExecution
+);
+
+/**
+ * @route PUT /api/workflow-executions/:executionId/checkpoint
+ * @desc Save progress of an execution held by the calling agent process
+ * @access Private (workflow permission; typically an API key)
+ */
+router.put('/:executionId/checkpoint',
+  authenticate,
+  requireWorkflowManage,
+  workflowExecutionController.checkpointExecution
+);
+
+/**
+ * @route POST /api/workflow-executions/:executionId/cancel
+ * @desc Cancel a pending or running execution
+ * @access Private (workflow permission)
+ */
+router.post('/:executionId/cancel',
+  authenticate,
+  requireWorkflowManage,
+  workflowExecutionController.cancelExecution
+);
+
+/**
+ * @route POST /api/workflow-executions/:executionId/retry
+ * @desc Run a failed execution again from a step (stepId, default the failed step)
+ * @access Private (workflow permission)
+ */
+router.post('/:executionId/retry',
+  authenticate,
+  requireWorkflowManage,
+  workflowExecutionController.retryExecution
+);
+
+export default router;
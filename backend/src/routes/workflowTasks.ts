@@ -0,0 +1,121 @@
+/**
+ * HalalCheck EU - Workflow Task Routes
+ *
+ * Task inbox for the manual and approval stages of organization workflows,
+ * plus the calls the workflow agent uses to open tasks and apply decisions
+ */
+
+import { Router } from 'express';
+import { WorkflowTaskController } from '@/controllers/workflowTaskController';
+import { authenticate, requirePermission, requireUserSession } from '@/middleware/auth';
+import { PERMISSIONS } from '@/types/auth';
+
+const router = Router();
+const workflowTaskController = new WorkflowTaskController();
+
+const requireTaskHandling = requirePermission(PERMISSIONS.HANDLE_WORKFLOW_TASKS);
+const requireWorkflowManage = requirePermission(PERMISSIONS.MANAGE_WORKFLOWS);
+
+/**
+ * @route GET /api/workflow-tasks
+ * @desc The user's task inbox (status, scope=all for every task of the organization)
+ * @access Private (task permission)
+ */
+router.get('/',
+  authenticate,
+  requireTaskHandling,
+  workflowTaskController.getTasks
+);
+
+/**
+ * @route POST /api/workflow-tasks
+ * @desc Open a task for a manual or approval stage a workflow entered
+ * @access Private (workflow permission; typically an API key)
+ */
+router.post('/',
+  authenticate,
+  requireWorkflowManage,
+  workflowTaskController.createTask
+);
+
+/**
+ * @route GET /api/workflow-tasks/decisions
+ * @desc Decided tasks whose workflow has not advanced yet
+ * @access Private (workflow permission; typically an API key)
+ */
+router.get('/decisions',
+  authenticate,
+  requireWorkflowManage,
+  workflowTaskController.getPendingDecisions
+);
+
+/**
+ * @route POST /api/workflow-tasks/cancel
+ * @desc Close the open tasks of a workflow instance (workflowInstanceId)
+ * @access Private (workflow permission; typically an API key)
+ */
+router.post('/cancel',
+  authenticate,
+  requireWorkflowManage,
+  workflowTaskController.cancelInstanceTasks
+);
+
+/**
+ * @route GET /api/workflow-tasks/:taskId
+ * @desc Get a task with its comments
+ * @access Private (task permission)
+ */
+router.get('/:taskId',
+  authenticate,
+  requireTaskHandling,
+  workflowTaskController.getTask
+);
+
+/**
+ * @route POST /api/workflow-tasks/:taskId/claim
+ * @desc Claim a task routed to one of the user's workflow roles
+ * @access Private (task permission, user session)
+ */
+router.post('/:taskId/claim',
+  authenticate,
+  requireUserSession,
+  requireTaskHandling,
+  workflowTaskController.claimTask
+);
+
+/**
+ * @route POST /api/workflow-tasks/:taskId/comments
+ * @desc Comment on a task
+ * @access Private (task permission, user session)
+ */
+router.post('/:taskId/comments',
+  authenticate,
+  requireUserSession,
+  requireTaskHandling,
+  workflowTaskController.addComment
+);
+
+/**
+ * @route POST /api/workflow-tasks/:taskId/decision
+ * @desc Approve or reject a claimed task (decision, reason; a reason is required to reject)
+ * @access Private (task permission, user session)
+ */
+router.post('/:taskId/decision',
+  authenticate,
+  requireUserSession,
+  requireTaskHandling,
+  workflowTaskController.decideTask
+);
+
+/**
+ * @route POST /api/workflow-tasks/:taskId/decision/ack
+ * @desc Record that the workflow advanced on the decision, or the error that prevented it
+ * @access Private (workflow permission; typically an API key)
+ */
+router.post('/:taskId/decision/ack',
+  authenticate,
+  requireWorkflowManage,
+  workflowTaskController.acknowledgeDecision
+);
+
+export default router;
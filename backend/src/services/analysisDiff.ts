@@ -0,0 +1,99 @@
+/**
+ * HalalCheck EU - Analysis Diff
+ *
+ * Compares two results for the same product, e.g. a replay against the
+ * pinned provenance snapshot and a replay against current data.
+ */
+
+import {
+  AnalysisDiff,
+  IngredientAnalysis,
+  IngredientVerdictChange,
+  PinnedIngredient,
+  ProductAnalysis
+} from '@/types/halal';
+
+const COMPARED_FIELDS = ['status', 'riskLevel', 'requiresExpertReview', 'source'] as const;
+
+/**
+ * Differences in overall verdict, per-standard verdicts and per-ingredient
+ * classification. Ingredients are matched by their node in the ingredient tree.
+ */
+export function diffAnalyses(before: ProductAnalysis, after: ProductAnalysis): AnalysisDiff {
+  const diff: AnalysisDiff = {
+    changed: false,
+    standardVerdicts: [],
+    ingredients: []
+  };
+
+  if (before.overallStatus !== after.overallStatus) {
+    diff.overallStatus = { before: before.overallStatus, after: after.overallStatus };
+  }
+  if (before.overallRiskLevel !== after.overallRiskLevel) {
+    diff.overallRiskLevel = { before: before.overallRiskLevel, after: after.overallRiskLevel };
+  }
+  if (before.expertReviewRequired !== after.expertReviewRequired) {
+    diff.expertReviewRequired = { before: before.expertReviewRequired, after: after.expertReviewRequired };
+  }
+
+  const beforeVerdicts = new Map((before.standardVerdicts || []).map(verdict => [verdict.standard, verdict.overallStatus]));
+  const afterVerdicts = new Map((after.standardVerdicts || []).map(verdict => [verdict.standard, verdict.overallStatus]));
+  for (const standard of new Set([...beforeVerdicts.keys(), ...afterVerdicts.keys()])) {
+    const previous = beforeVerdicts.get(standard);
+    const next = afterVerdicts.get(standard);
+    if (previous !== next) {
+      diff.standardVerdicts.push({
+        standard,
+        ...(previous && { before: previous }),
+        ...(next && { after: next })
+      });
+    }
+  }
+
+  const afterIngredients = byNode(after.ingredients);
+  const beforePins = pinsByNode(before.provenance?.ingredients);
+  const afterPins = pinsByNode(after.provenance?.ingredients);
+
+  for (const [nodeId, previous] of byNode(before.ingredients)) {
+    const next = afterIngredients.get(nodeId);
+    if (!next) {
+      continue;
+    }
+
+    for (const field of COMPARED_FIELDS) {
+      if (previous[field] !== next[field]) {
+        diff.ingredients.push(change(nodeId, previous, field, previous[field], next[field]));
+      }
+    }
+
+    const previousVersion = beforePins.get(nodeId)?.knowledgeBase?.version;
+    const nextVersion = afterPins.get(nodeId)?.knowledgeBase?.version;
+    if (previousVersion !== nextVersion) {
+      diff.ingredients.push(change(nodeId, previous, 'knowledgeBaseVersion', previousVersion ?? null, nextVersion ?? null));
+    }
+  }
+
+  diff.changed = Boolean(diff.overallStatus || diff.overallRiskLevel || diff.expertReviewRequired)
+    || diff.standardVerdicts.length > 0
+    || diff.ingredients.length > 0;
+
+  return diff;
+}
+
+function byNode(ingredients: IngredientAnalysis[]): Map<string, IngredientAnalysis> {
+  return new Map(ingredients.map((ingredient, index) => [ingredient.nodeId || String(index + 1), ingredient]));
+}
+
+function pinsByNode(pins: PinnedIngredient[] = []): Map<string, PinnedIngredient> {
+  return new Map(pins.map(pin => [pin.nodeId, pin]));
+}
+
+function change(
+  nodeId: string,
+  ingredient: IngredientAnalysis,
+  field: IngredientVerdictChange['field'],
+  before: unknown,
+  after: unknown
+): IngredientVerdictChange {
+  return { nodeId, name: ingredient.detectedName, field, before, after };
+}
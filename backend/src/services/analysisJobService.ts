@@ -0,0 +1,641 @@
+/**
+ * HalalCheck EU - Analysis Job Service
+ *
+ * Persisted background jobs for bulk uploads. A job holds one item per
+ * product (ingredient analysis) or label image (OCR). Items are claimed from
+ * Postgres by the in-process worker under a concurrency limit, retried with
+ * exponential backoff, and reported to subscribers as they progress. Items
+ * left running by a crashed process are requeued when the worker starts.
+ */
+
+import { EventEmitter } from 'events';
+import { DatabaseService } from './databaseService';
+import { IngredientAnalysisService } from './ingredientAnalysisService';
+import { OCRService } from './ocrService';
+import { WebhookService, analysisEventData } from './webhookService';
+import { isMadhab } from './scholarlyConsensusService';
+import { isRecognitionAuthority } from './certificationBodyService';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/middleware/errorHandler';
+import {
+  AnalysisJob,
+  AnalysisJobEvent,
+  AnalysisJobItem,
+  AnalysisJobOptions,
+  AnalysisJobType,
+  CertificationStandard,
+  LabelOcrJobInput,
+  MADHABS,
+  ProductAnalysisJobInput
+} from '@/types/halal';
+import { RECOGNITION_AUTHORITIES } from '@/types/certificationBodies';
+
+export interface CreateJobInput {
+  organizationId: string;
+  userId: string;
+  type: AnalysisJobType;
+  options: AnalysisJobOptions;
+  items: { label: string; input: ProductAnalysisJobInput | LabelOcrJobInput }[];
+}
+
+export interface JobItemOutcome {
+  result: Record<string, unknown>;
+  productAnalysisId?: string;
+}
+
+export interface JobItemProcessor {
+  process(input: any, job: AnalysisJob): Promise<JobItemOutcome>;
+}
+
+interface ClaimedItem {
+  item: AnalysisJobItem;
+  input: any;
+  job: AnalysisJob;
+}
+
+export const MAX_JOB_ITEMS = 1000;
+export const MAX_ITEM_ATTEMPTS = 3;
+
+const RETRY_BASE_DELAY_MS = 2000;
+const POLL_INTERVAL_MS = 1000;
+const DEFAULT_CONCURRENCY = 2;
+
+// Shared by every service instance so API handlers see progress from the worker
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+/**
+ * Delay before the next attempt of an item that failed `attempt` times
+ */
+export function retryDelayMs(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1);
+}
+
+function jobError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+export class AnalysisJobService {
+  private db: DatabaseService;
+  private webhooks: WebhookService;
+  private processors: Partial<Record<AnalysisJobType, JobItemProcessor>>;
+  private concurrency: number;
+  private running = new Set<Promise<void>>();
+  private timer: NodeJS.Timeout | undefined;
+  private filling = false;
+  private wake = () => this.fill();
+
+  constructor(db?: DatabaseService, processors: Partial<Record<AnalysisJobType, JobItemProcessor>> = {}) {
+    this.db = db || new DatabaseService();
+    this.webhooks = new WebhookService(this.db);
+    this.processors = processors;
+    this.concurrency = Math.max(1, parseInt(process.env.ANALYSIS_JOB_CONCURRENCY || '', 10) || DEFAULT_CONCURRENCY);
+  }
+
+  /**
+   * Validate the items and options of an ingredient analysis job;
+   * returns a list of problems, empty when valid
+   */
+  validateAnalysisJob(items: unknown, options: AnalysisJobOptions): string[] {
+    const errors: string[] = [];
+
+    if (!Array.isArray(items) || items.length === 0) {
+      errors.push('items must be a non-empty array');
+    } else if (items.length > MAX_JOB_ITEMS) {
+      errors.push(`A job can hold at most ${MAX_JOB_ITEMS} items`);
+    } else {
+      items.forEach((item, index) => {
+        if (!item || typeof item.productName !== 'string' || !item.productName.trim()) {
+          errors.push(`items[${index}].productName is required`);
+        } else if (item.productName.length > 255) {
+          errors.push(`items[${index}].productName is too long (max 255 characters)`);
+        }
+        if (!item || typeof item.ingredientText !== 'string' || !item.ingredientText.trim()) {
+          errors.push(`items[${index}].ingredientText is required`);
+        } else if (item.ingredientText.length > 10000) {
+          errors.push(`items[${index}].ingredientText is too long (max 10,000 characters)`);
+        }
+      });
+    }
+
+    const standards = Object.values(CertificationStandard) as string[];
+    if (options.madhab !== undefined && !isMadhab(options.madhab)) {
+      errors.push(`madhab must be one of: ${MADHABS.join(', ')}`);
+    }
+    if (options.certificationStandard !== undefined && !standards.includes(options.certificationStandard)) {
+      errors.push(`certificationStandard must be one of: ${standards.join(', ')}`);
+    }
+    if (options.certificationStandard === CertificationStandard.CUSTOM && !options.customRuleSetId) {
+      errors.push('customRuleSetId is required for the CUSTOM standard');
+    }
+    if (options.compareStandards !== undefined && (
+      !Array.isArray(options.compareStandards) ||
+      !options.compareStandards.every(standard =>
+        typeof standard === 'string' && standards.includes(standard) && standard !== CertificationStandard.CUSTOM
+      )
+    )) {
+      errors.push('compareStandards must be a list of built-in certification standards');
+    }
+    if (options.exportMarket !== undefined && !isRecognitionAuthority(options.exportMarket)) {
+      errors.push(`exportMarket must be one of: ${RECOGNITION_AUTHORITIES.map(authority => authority.code).join(', ')}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Persist a job and its items, then wake the worker
+   */
+  async createJob(input: CreateJobInput): Promise<AnalysisJob> {
+    const job = await this.db.transaction(async client => {
+      const jobResult = await this.db.queryWithClient(client, `
+        INSERT INTO analysis_jobs (organization_id, user_id, type, options, total_items)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *
+      `, [input.organizationId, input.userId, input.type, JSON.stringify(input.options), input.items.length]);
+
+      const jobRow = jobResult.rows[0];
+      await this.db.queryWithClient(client, `
+        INSERT INTO analysis_job_items (job_id, item_index, label, input)
+        SELECT $1, item.ordinality - 1, item.label, item.input
+        FROM unnest($2::text[], $3::jsonb[]) WITH ORDINALITY AS item(label, input, ordinality)
+      `, [
+        jobRow.id,
+        input.items.map(item => item.label.slice(0, 255)),
+        input.items.map(item => JSON.stringify(item.input))
+      ]);
+
+      return this.mapJobRow(jobRow);
+    });
+
+    logger.info('Analysis job queued', {
+      jobId: job.id,
+      type: job.type,
+      totalItems: job.totalItems,
+      organizationId: job.organizationId
+    });
+
+    jobEvents.emit('enqueued', job.id);
+    return job;
+  }
+
+  async listJobs(organizationId: string, limit = 20): Promise<AnalysisJob[]> {
+    const result = await this.db.query(
+      'SELECT * FROM analysis_jobs WHERE organization_id = $1 ORDER BY created_at DESC LIMIT $2',
+      [organizationId, limit]
+    );
+    return result.rows.map(row => this.mapJobRow(row));
+  }
+
+  /**
+   * Job with its items in upload order; null when not in the organization
+   */
+  async getJob(jobId: string, organizationId: string): Promise<AnalysisJob | null> {
+    const jobResult = await this.db.query(
+      'SELECT * FROM analysis_jobs WHERE id = $1 AND organization_id = $2',
+      [jobId, organizationId]
+    );
+    if (jobResult.rows.length === 0) {
+      return null;
+    }
+
+    const itemResult = await this.db.query(
+      'SELECT * FROM analysis_job_items WHERE job_id = $1 ORDER BY item_index',
+      [jobId]
+    );
+
+    return {
+      ...this.mapJobRow(jobResult.rows[0]),
+      items: itemResult.rows.map(row => this.mapItemRow(row))
+    };
+  }
+
+  /**
+   * Cancel pending items. Items already running finish and keep their results.
+   */
+  async cancelJob(jobId: string, organizationId: string): Promise<AnalysisJob> {
+    const job = await this.db.transaction(async client => {
+      const jobResult = await this.db.queryWithClient(client, `
+        UPDATE analysis_jobs SET status = 'CANCELLED', finished_at = NOW()
+        WHERE id = $1 AND organization_id = $2 AND status IN ('QUEUED', 'RUNNING')
+        RETURNING *
+      `, [jobId, organizationId]);
+
+      if (jobResult.rows.length === 0) {
+        throw await this.notActive(jobId, organizationId);
+      }
+
+      await this.db.queryWithClient(client, `
+        UPDATE analysis_job_items SET status = 'CANCELLED', finished_at = NOW()
+        WHERE job_id = $1 AND status = 'PENDING'
+      `, [jobId]);
+
+      return this.mapJobRow(jobResult.rows[0]);
+    });
+
+    this.publish({ type: 'job', job });
+    return job;
+  }
+
+  /**
+   * Requeue the failed and cancelled items of a finished job
+   */
+  async resumeJob(jobId: string, organizationId: string): Promise<AnalysisJob> {
+    const job = await this.db.transaction(async client => {
+      const jobResult = await this.db.queryWithClient(client,
+        'SELECT * FROM analysis_jobs WHERE id = $1 AND organization_id = $2 FOR UPDATE',
+        [jobId, organizationId]
+      );
+      const row = jobResult.rows[0];
+      if (!row) {
+        throw jobError(404, 'JOB_NOT_FOUND', 'Job not found');
+      }
+      if (row.status === 'QUEUED' || row.status === 'RUNNING') {
+        throw jobError(409, 'JOB_ACTIVE', 'Job is still running');
+      }
+
+      const itemResult = await this.db.queryWithClient(client, `
+        UPDATE analysis_job_items
+        SET status = 'PENDING', attempts = 0, next_attempt_at = NOW(), error = NULL, finished_at = NULL
+        WHERE job_id = $1 AND status IN ('FAILED', 'CANCELLED')
+      `, [jobId]);
+
+      if (!itemResult.rowCount) {
+        throw jobError(409, 'NOTHING_TO_RESUME', 'Job has no failed or cancelled items');
+      }
+
+      const updated = await this.db.queryWithClient(client, `
+        UPDATE analysis_jobs SET status = 'QUEUED', finished_at = NULL, failed_items = 0
+        WHERE id = $1
+        RETURNING *
+      `, [jobId]);
+
+      return this.mapJobRow(updated.rows[0]);
+    });
+
+    this.publish({ type: 'job', job });
+    jobEvents.emit('enqueued', job.id);
+    return job;
+  }
+
+  /**
+   * Listen for progress of one job; returns the unsubscribe function
+   */
+  subscribe(jobId: string, listener: (event: AnalysisJobEvent) => void): () => void {
+    jobEvents.on(`job:${jobId}`, listener);
+    return () => {
+      jobEvents.off(`job:${jobId}`, listener);
+    };
+  }
+
+  isFinished(job: AnalysisJob): boolean {
+    return job.status === 'COMPLETED' || job.status === 'FAILED' || job.status === 'CANCELLED';
+  }
+
+  /**
+   * Requeue items a crashed process left running, then poll for work.
+   * Assumes one worker per database.
+   */
+  async startWorker(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    const recovered = await this.db.query(`
+      UPDATE analysis_job_items SET status = 'PENDING', next_attempt_at = NOW()
+      WHERE status = 'RUNNING'
+    `);
+    if (recovered.rowCount) {
+      logger.warn('Requeued interrupted analysis job items', { count: recovered.rowCount });
+    }
+
+    this.timer = setInterval(this.wake, POLL_INTERVAL_MS);
+    this.timer.unref();
+    jobEvents.on('enqueued', this.wake);
+
+    logger.info('Analysis job worker started', { concurrency: this.concurrency });
+    this.fill();
+  }
+
+  /**
+   * Stop claiming new items and wait for running ones to finish
+   */
+  async stopWorker(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    jobEvents.off('enqueued', this.wake);
+    await Promise.allSettled([...this.running]);
+  }
+
+  /**
+   * Claim and process the next due item; false when there is none
+   */
+  async runNextItem(): Promise<boolean> {
+    const claimed = await this.claimNextItem();
+    if (!claimed) {
+      return false;
+    }
+    await this.processItem(claimed);
+    return true;
+  }
+
+  private fill(): void {
+    if (this.filling || !this.timer) {
+      return;
+    }
+    this.filling = true;
+
+    this.claimUntilFull()
+      .catch(error => logger.error('Analysis job worker failed to claim items', { error: (error as Error).message }))
+      .finally(() => {
+        this.filling = false;
+      });
+  }
+
+  private async claimUntilFull(): Promise<void> {
+    while (this.timer && this.running.size < this.concurrency) {
+      const claimed = await this.claimNextItem();
+      if (!claimed) {
+        return;
+      }
+
+      const run: Promise<void> = this.processItem(claimed).finally(() => {
+        this.running.delete(run);
+        this.fill();
+      });
+      this.running.add(run);
+    }
+  }
+
+  private async claimNextItem(): Promise<ClaimedItem | null> {
+    const result = await this.db.query(`
+      UPDATE analysis_job_items
+      SET status = 'RUNNING', attempts = attempts + 1, started_at = NOW(), error = NULL
+      WHERE id = (
+        SELECT i.id
+        FROM analysis_job_items i
+        JOIN analysis_jobs j ON j.id = i.job_id
+        WHERE i.status = 'PENDING' AND i.next_attempt_at <= NOW() AND j.status IN ('QUEUED', 'RUNNING')
+        ORDER BY j.created_at, i.item_index
+        LIMIT 1
+        FOR UPDATE OF i SKIP LOCKED
+      )
+      RETURNING *
+    `);
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const item = this.mapItemRow(row);
+    const job = await this.refreshJob(item.jobId);
+    this.publish({ type: 'item', job, item });
+
+    return { item, input: row.input, job };
+  }
+
+  private async processItem({ item, input, job }: ClaimedItem): Promise<void> {
+    try {
+      const outcome = await this.processorFor(job.type).process(input, job);
+
+      const result = await this.db.query(`
+        UPDATE analysis_job_items
+        SET status = 'COMPLETED', result = $2, product_analysis_id = $3, finished_at = NOW()
+        WHERE id = $1
+        RETURNING *
+      `, [item.id, JSON.stringify(outcome.result), outcome.productAnalysisId || null]);
+
+      await this.settle(result.rows[0]);
+    } catch (error) {
+      const err = error as AppError;
+      const retryable = !(err.isOperational && (err.statusCode ?? 500) < 500) && item.attempts < MAX_ITEM_ATTEMPTS;
+
+      logger.warn('Analysis job item failed', {
+        jobId: job.id,
+        itemId: item.id,
+        attempt: item.attempts,
+        retryable,
+        error: err.message
+      });
+
+      try {
+        const result = await this.db.query(`
+          UPDATE analysis_job_items
+          SET status = $2, error = $3, next_attempt_at = NOW() + ($4 * INTERVAL '1 millisecond'),
+              finished_at = CASE WHEN $2 = 'FAILED' THEN NOW() ELSE NULL END
+          WHERE id = $1
+          RETURNING *
+        `, [item.id, retryable ? 'PENDING' : 'FAILED', err.message, retryDelayMs(item.attempts)]);
+
+        await this.settle(result.rows[0]);
+      } catch (updateError) {
+        // The item stays RUNNING and is requeued on the next worker start
+        logger.error('Failed to record analysis job item failure', {
+          itemId: item.id,
+          error: (updateError as Error).message
+        });
+      }
+    }
+  }
+
+  private async settle(itemRow: any): Promise<void> {
+    const item = this.mapItemRow(itemRow);
+    const job = await this.refreshJob(item.jobId);
+
+    this.publish({ type: 'item', job, item });
+    if (this.isFinished(job)) {
+      logger.info('Analysis job finished', {
+        jobId: job.id,
+        status: job.status,
+        completedItems: job.completedItems,
+        failedItems: job.failedItems
+      });
+      this.publish({ type: 'job', job });
+      await this.webhooks.publish(job.organizationId, 'analysis-job-completed', {
+        jobId: job.id,
+        type: job.type,
+        status: job.status,
+        totalItems: job.totalItems,
+        completedItems: job.completedItems,
+        failedItems: job.failedItems
+      });
+    }
+  }
+
+  /**
+   * Recount item outcomes and derive the job status from them
+   */
+  private async refreshJob(jobId: string): Promise<AnalysisJob> {
+    const result = await this.db.query(`
+      UPDATE analysis_jobs j
+      SET completed_items = counts.completed,
+          failed_items = counts.failed,
+          status = CASE
+            WHEN j.status = 'CANCELLED' THEN j.status
+            WHEN counts.open > 0 THEN 'RUNNING'
+            WHEN counts.completed = 0 AND counts.failed > 0 THEN 'FAILED'
+            ELSE 'COMPLETED'
+          END,
+          started_at = COALESCE(j.started_at, NOW()),
+          finished_at = CASE WHEN j.status <> 'CANCELLED' AND counts.open = 0 THEN NOW() ELSE j.finished_at END
+      FROM (
+        SELECT
+          COUNT(*) FILTER (WHERE status = 'COMPLETED') AS completed,
+          COUNT(*) FILTER (WHERE status = 'FAILED') AS failed,
+          COUNT(*) FILTER (WHERE status IN ('PENDING', 'RUNNING')) AS open
+        FROM analysis_job_items
+        WHERE job_id = $1
+      ) counts
+      WHERE j.id = $1
+      RETURNING j.*
+    `, [jobId]);
+
+    return this.mapJobRow(result.rows[0]);
+  }
+
+  private async notActive(jobId: string, organizationId: string): Promise<AppError> {
+    const result = await this.db.query(
+      'SELECT status FROM analysis_jobs WHERE id = $1 AND organization_id = $2',
+      [jobId, organizationId]
+    );
+    return result.rows.length === 0
+      ? jobError(404, 'JOB_NOT_FOUND', 'Job not found')
+      : jobError(409, 'JOB_NOT_ACTIVE', `Job is already ${result.rows[0].status.toLowerCase()}`);
+  }
+
+  private publish(event: AnalysisJobEvent): void {
+    jobEvents.emit(`job:${event.job.id}`, event);
+  }
+
+  private processorFor(type: AnalysisJobType): JobItemProcessor {
+    let processor = this.processors[type];
+    if (!processor) {
+      processor = type === 'LABEL_OCR'
+        ? new LabelOcrProcessor()
+        : new ProductAnalysisProcessor(this.db, this.webhooks);
+      this.processors[type] = processor;
+    }
+    return processor;
+  }
+
+  private mapJobRow(row: any): AnalysisJob {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      userId: row.user_id,
+      type: row.type,
+      status: row.status,
+      options: row.options || {},
+      totalItems: row.total_items,
+      completedItems: row.completed_items,
+      failedItems: row.failed_items,
+      createdAt: row.created_at,
+      ...(row.started_at && { startedAt: row.started_at }),
+      ...(row.finished_at && { finishedAt: row.finished_at })
+    };
+  }
+
+  private mapItemRow(row: any): AnalysisJobItem {
+    return {
+      id: row.id,
+      jobId: row.job_id,
+      index: row.item_index,
+      label: row.label,
+      status: row.status,
+      attempts: row.attempts,
+      ...(row.result && { result: row.result }),
+      ...(row.error && { error: row.error }),
+      ...(row.product_analysis_id && { productAnalysisId: row.product_analysis_id }),
+      ...(row.started_at && { startedAt: row.started_at }),
+      ...(row.finished_at && { finishedAt: row.finished_at })
+    };
+  }
+}
+
+/**
+ * Runs a full halal analysis per product and counts it against the
+ * organization's monthly usage, like a single analysis request
+ */
+class ProductAnalysisProcessor implements JobItemProcessor {
+  private analysisService = new IngredientAnalysisService();
+
+  constructor(private db: DatabaseService, private webhooks: WebhookService) {}
+
+  async process(input: ProductAnalysisJobInput, job: AnalysisJob): Promise<JobItemOutcome> {
+    const { options } = job;
+    const analysis = await this.analysisService.analyzeIngredients({
+      productName: input.productName,
+      ingredientText: input.ingredientText,
+      language: options.language || 'en',
+      region: options.region || 'EU',
+      certificationStandard: options.certificationStandard || 'HFCE',
+      ...(options.customRuleSetId && { customRuleSetId: options.customRuleSetId }),
+      ...(options.compareStandards && { compareStandards: options.compareStandards }),
+      ...(options.madhab && { madhab: options.madhab }),
+      ...(options.exportMarket && { exportMarket: options.exportMarket }),
+      userId: job.userId,
+      organizationId: job.organizationId
+    });
+
+    await this.db.query(
+      'UPDATE organizations SET current_month_usage = current_month_usage + 1 WHERE id = $1',
+      [job.organizationId]
+    );
+
+    await this.webhooks.publish(job.organizationId, 'islamic-analysis-completed', {
+      ...analysisEventData(analysis),
+      jobId: job.id
+    });
+
+    return {
+      productAnalysisId: analysis.id,
+      result: {
+        analysisId: analysis.id,
+        productName: analysis.productName,
+        overallStatus: analysis.overallStatus,
+        overallRiskLevel: analysis.overallRiskLevel,
+        totalIngredients: analysis.summary.total_ingredients,
+        haramCount: analysis.summary.haram_count,
+        mashboohCount: analysis.summary.mashbooh_count,
+        expertReviewRequired: analysis.expertReviewRequired,
+        processingTimeMs: analysis.processingTimeMs
+      }
+    };
+  }
+}
+
+/**
+ * OCR of an uploaded ingredient label. The upload is kept until the item
+ * completes so failed items can be resumed.
+ */
+class LabelOcrProcessor implements JobItemProcessor {
+  private ocrService = new OCRService();
+
+  async process(input: LabelOcrJobInput, job: AnalysisJob): Promise<JobItemOutcome> {
+    const ocrResult = await this.ocrService.processIngredientLabel(
+      input.filePath,
+      job.options.language || 'auto',
+      job.organizationId
+    );
+
+    if (process.env.CLEANUP_UPLOADS === 'true') {
+      await this.ocrService.cleanupFile(input.filePath);
+    }
+
+    return {
+      result: {
+        filename: input.filename,
+        originalName: input.originalName,
+        ocr: {
+          extractedText: ocrResult.extractedText,
+          confidence: Math.round(ocrResult.confidence * 100),
+          detectedLanguage: ocrResult.language,
+          processingTimeMs: ocrResult.processingTimeMs
+        }
+      }
+    };
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * HalalCheck EU - API Key Service
+ *
+ * Organization API keys for machine-to-machine access. Only a SHA-256 hash of
+ * each key is stored; the full key is returned once at creation. Keys carry a
+ * subset of the creating user's permissions, always expire and can be rotated
+ * with a grace period during which the old and new key both work.
+ */
+
+import crypto from 'crypto';
+import { DatabaseService } from './databaseService';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/middleware/errorHandler';
+import { ApiKey, PERMISSIONS, User, UserStatus } from '@/types/auth';
+
+export const API_KEY_PREFIX = 'hc_live_';
+export const DEFAULT_API_KEY_EXPIRY_DAYS = 90;
+export const MAX_API_KEY_EXPIRY_DAYS = 365;
+export const DEFAULT_ROTATION_GRACE_HOURS = 24;
+export const MAX_ROTATION_GRACE_HOURS = 168;
+
+// last_used is written at most this often per key to keep hot keys off the write path
+const LAST_USED_INTERVAL = '1 minute';
+const VALID_PERMISSIONS: string[] = Object.values(PERMISSIONS);
+
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>;
+
+export interface CreatedApiKey {
+  apiKey: ApiKeySummary;
+  key: string; // Full key, only available in this response
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  permissions: string[];
+  expiresInDays?: number;
+}
+
+export interface RotateApiKeyRequest {
+  gracePeriodHours?: number;
+  expiresInDays?: number;
+}
+
+export interface ApiKeyAuthentication {
+  apiKey: ApiKeySummary;
+  user: User;
+}
+
+interface ApiKeyRow {
+  id: string;
+  user_id: string;
+  organization_id: string;
+  name: string;
+  key_prefix: string;
+  permissions: string[] | null;
+  last_used: Date | null;
+  last_used_ip: string | null;
+  expires_at: Date;
+  is_active: boolean;
+  revoked_at: Date | null;
+  rotated_from_id: string | null;
+  created_at: Date;
+}
+
+function apiKeyError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+export class ApiKeyService {
+  private db: DatabaseService;
+
+  constructor(db?: DatabaseService) {
+    this.db = db || new DatabaseService();
+  }
+
+  /**
+   * Validation errors for a new key created by the given user
+   */
+  validateCreateRequest(request: CreateApiKeyRequest, creator: User): string[] {
+    const errors: string[] = [];
+
+    if (typeof request.name !== 'string' || !request.name.trim()) {
+      errors.push('Key name is required');
+    } else if (request.name.trim().length > 100) {
+      errors.push('Key name must be at most 100 characters');
+    }
+
+    errors.push(...this.validateScopes(request.permissions, creator));
+
+    if (request.expiresInDays !== undefined && !this.isWholeNumberInRange(request.expiresInDays, 1, MAX_API_KEY_EXPIRY_DAYS)) {
+      errors.push(`expiresInDays must be a whole number between 1 and ${MAX_API_KEY_EXPIRY_DAYS}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Scopes must be known permissions the creator holds, so a key never
+   * grants more than the person who issued it
+   */
+  validateScopes(permissions: unknown, creator: User): string[] {
+    if (!Array.isArray(permissions) || permissions.length === 0) {
+      return ['At least one permission is required'];
+    }
+
+    const errors: string[] = [];
+    for (const permission of new Set(permissions)) {
+      if (typeof permission !== 'string' || !VALID_PERMISSIONS.includes(permission)) {
+        errors.push(`Unknown permission: ${String(permission)}`);
+      } else if (!(creator.permissions || []).includes(permission)) {
+        errors.push(`You cannot grant a permission you do not have: ${permission}`);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Create a key for the creator's organization
+   */
+  async createKey(organizationId: string, creator: User, request: CreateApiKeyRequest): Promise<CreatedApiKey> {
+    const errors = this.validateCreateRequest(request, creator);
+    if (errors.length > 0) {
+      throw apiKeyError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    return this.insertKey({
+      organizationId,
+      userId: creator.id,
+      name: request.name.trim(),
+      permissions: [...new Set(request.permissions)],
+      expiresInDays: request.expiresInDays ?? DEFAULT_API_KEY_EXPIRY_DAYS
+    });
+  }
+
+  /**
+   * All keys of an organization, newest first
+   */
+  async listKeys(organizationId: string): Promise<ApiKeySummary[]> {
+    const result = await this.db.query<ApiKeyRow>(
+      'SELECT * FROM api_keys WHERE organization_id = $1 ORDER BY created_at DESC',
+      [organizationId]
+    );
+    return result.rows.map(row => this.toSummary(row));
+  }
+
+  /**
+   * Revoke a key immediately
+   */
+  async revokeKey(organizationId: string, keyId: string): Promise<ApiKeySummary> {
+    const existing = await this.getKeyRow(organizationId, keyId);
+    if (existing.revoked_at) {
+      throw apiKeyError(409, 'API_KEY_REVOKED', 'API key is already revoked');
+    }
+
+    const result = await this.db.query<ApiKeyRow>(
+      `UPDATE api_keys SET is_active = FALSE, revoked_at = NOW()
+       WHERE id = $1 AND organization_id = $2 AND revoked_at IS NULL
+       RETURNING *`,
+      [keyId, organizationId]
+    );
+    if (!result.rows[0]) {
+      throw apiKeyError(409, 'API_KEY_REVOKED', 'API key is already revoked');
+    }
+
+    logger.info('API key revoked', { keyId, organizationId });
+    return this.toSummary(result.rows[0]);
+  }
+
+  /**
+   * Issue a replacement key with the same name and scopes. The old key keeps
+   * working until the grace period ends so callers can switch without downtime.
+   */
+  async rotateKey(organizationId: string, keyId: string, rotatedBy: User, request: RotateApiKeyRequest = {}): Promise<CreatedApiKey> {
+    const gracePeriodHours = request.gracePeriodHours ?? DEFAULT_ROTATION_GRACE_HOURS;
+    if (!this.isWholeNumberInRange(gracePeriodHours, 0, MAX_ROTATION_GRACE_HOURS)) {
+      throw apiKeyError(400, 'VALIDATION_ERROR', `gracePeriodHours must be a whole number between 0 and ${MAX_ROTATION_GRACE_HOURS}`);
+    }
+    if (request.expiresInDays !== undefined && !this.isWholeNumberInRange(request.expiresInDays, 1, MAX_API_KEY_EXPIRY_DAYS)) {
+      throw apiKeyError(400, 'VALIDATION_ERROR', `expiresInDays must be a whole number between 1 and ${MAX_API_KEY_EXPIRY_DAYS}`);
+    }
+
+    const existing = await this.getKeyRow(organizationId, keyId);
+    if (!this.isUsable(existing)) {
+      throw apiKeyError(409, 'API_KEY_INACTIVE', 'Only active, unexpired keys can be rotated');
+    }
+
+    const permissions = existing.permissions || [];
+    const scopeErrors = this.validateScopes(permissions, rotatedBy);
+    if (scopeErrors.length > 0) {
+      throw apiKeyError(403, 'FORBIDDEN', scopeErrors.join('; '));
+    }
+
+    const created = await this.insertKey({
+      organizationId,
+      userId: rotatedBy.id,
+      name: existing.name,
+      permissions,
+      expiresInDays: request.expiresInDays ?? DEFAULT_API_KEY_EXPIRY_DAYS,
+      rotatedFromId: existing.id
+    });
+
+    await this.db.query(
+      `UPDATE api_keys SET expires_at = LEAST(expires_at, NOW() + ($2 || ' hours')::INTERVAL)
+       WHERE id = $1`,
+      [existing.id, String(gracePeriodHours)]
+    );
+
+    logger.info('API key rotated', { keyId, newKeyId: created.apiKey.id, organizationId, gracePeriodHours });
+    return created;
+  }
+
+  /**
+   * Resolve a presented key to the acting user and their organization. The key's scopes are
+   * intersected with the user's current permissions, so demoting or
+   * deactivating the creator also limits or disables their keys.
+   */
+  async authenticate(key: string, ipAddress?: string): Promise<ApiKeyAuthentication | null> {
+    if (!isApiKey(key)) {
+      return null;
+    }
+
+    const result = await this.db.query<ApiKeyRow>(
+      'SELECT * FROM api_keys WHERE key_hash = $1',
+      [hashApiKey(key)]
+    );
+    const row = result.rows[0];
+    if (!row || !this.isUsable(row)) {
+      return null;
+    }
+
+    const user = await this.db.findUserById(row.user_id);
+    if (!user || user.status !== UserStatus.ACTIVE) {
+      return null;
+    }
+
+    this.recordUsage(row.id, ipAddress);
+
+    const organization = await this.db.findOrganizationById(row.organization_id);
+    const userPermissions = user.permissions || [];
+    const apiKey = this.toSummary(row);
+    return {
+      apiKey,
+      user: {
+        ...user,
+        permissions: apiKey.permissions.filter(permission => userPermissions.includes(permission)),
+        ...(organization && { organization })
+      }
+    };
+  }
+
+  private async insertKey(input: {
+    organizationId: string;
+    userId: string;
+    name: string;
+    permissions: string[];
+    expiresInDays: number;
+    rotatedFromId?: string;
+  }): Promise<CreatedApiKey> {
+    const keyPrefix = `${API_KEY_PREFIX}${crypto.randomBytes(4).toString('hex')}`;
+    const key = `${keyPrefix}_${crypto.randomBytes(24).toString('base64url')}`;
+
+    const result = await this.db.query<ApiKeyRow>(
+      `INSERT INTO api_keys (
+        user_id, organization_id, name, key_prefix, key_hash, permissions, expires_at, rotated_from_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, NOW() + ($7 || ' days')::INTERVAL, $8)
+      RETURNING *`,
+      [
+        input.userId,
+        input.organizationId,
+        input.name,
+        keyPrefix,
+        hashApiKey(key),
+        input.permissions,
+        String(input.expiresInDays),
+        input.rotatedFromId || null
+      ]
+    );
+
+    return { apiKey: this.toSummary(result.rows[0]!), key };
+  }
+
+  private async getKeyRow(organizationId: string, keyId: string): Promise<ApiKeyRow> {
+    const result = await this.db.query<ApiKeyRow>(
+      'SELECT * FROM api_keys WHERE id = $1 AND organization_id = $2',
+      [keyId, organizationId]
+    );
+    if (!result.rows[0]) {
+      throw apiKeyError(404, 'API_KEY_NOT_FOUND', 'API key not found');
+    }
+    return result.rows[0];
+  }
+
+  private recordUsage(keyId: string, ipAddress?: string): void {
+    this.db.query(
+      `UPDATE api_keys SET last_used = NOW(), last_used_ip = $2
+       WHERE id = $1 AND (last_used IS NULL OR last_used < NOW() - INTERVAL '${LAST_USED_INTERVAL}')`,
+      [keyId, ipAddress || null]
+    ).catch(error => {
+      logger.warn('Failed to record API key usage', { keyId, error: (error as Error).message });
+    });
+  }
+
+  private isUsable(row: ApiKeyRow): boolean {
+    return row.is_active && !row.revoked_at && new Date(row.expires_at).getTime() > Date.now();
+  }
+
+  private isWholeNumberInRange(value: unknown, min: number, max: number): boolean {
+    return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+  }
+
+  private toSummary(row: ApiKeyRow): ApiKeySummary {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      organizationId: row.organization_id,
+      name: row.name,
+      keyPrefix: row.key_prefix,
+      permissions: row.permissions || [],
+      ...(row.last_used && { lastUsed: row.last_used }),
+      ...(row.last_used_ip && { lastUsedIp: row.last_used_ip }),
+      expiresAt: row.expires_at,
+      isActive: this.isUsable(row),
+      ...(row.revoked_at && { revokedAt: row.revoked_at }),
+      ...(row.rotated_from_id && { rotatedFromId: row.rotated_from_id }),
+      createdAt: row.created_at
+    };
+  }
+}
@@ -12,10 +12,10 @@ export interface AuditLogEntry {
   organizationId?: string;
   action: string;
   resource: string;
-  resourceId?: string;
+  resourceId?: string | undefined;
   details?: Record<string, any>;
-  ipAddress?: string;
-  userAgent?: string;
+  ipAddress?: string | undefined; // req.ip / req.get() may be undefined
+  userAgent?: string | undefined;
 }
 
 export class AuditService {
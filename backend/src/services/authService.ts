@@ -24,16 +24,31 @@ import { logger } from '@/utils/logger';
 import { DatabaseService } from '@/services/databaseService';
 import { EmailService } from '@/services/emailService';
 import { AuditService } from '@/services/auditService';
+import { MfaService, MfaVerification } from '@/services/mfaService';
+import { AppError } from '@/middleware/errorHandler';
+
+export interface LoginResult {
+  user: User;
+  tokens: AuthTokens;
+  mfa?: MfaVerification;
+  mfaEnrollmentRequired: boolean;
+}
+
+function authError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
 
 export class AuthService {
   private db: DatabaseService;
   private emailService: EmailService;
   private auditService: AuditService;
+  private mfaService: MfaService;
 
   constructor() {
     this.db = new DatabaseService();
     this.emailService = new EmailService();
     this.auditService = new AuditService();
+    this.mfaService = new MfaService(this.db);
   }
 
   /**
@@ -135,7 +150,7 @@ export class AuthService {
    * Authenticate user with enhanced security
    * CRITICAL: Rate limiting and audit logging for security
    */
-  async login(request: LoginRequest, ipAddress: string, userAgent: string): Promise<{ user: User; tokens: AuthTokens }> {
+  async login(request: LoginRequest, ipAddress: string, userAgent: string): Promise<LoginResult> {
     try {
       // Find user by email
       const user = await this.db.findUserByEmail(request.email);
@@ -180,18 +195,32 @@ export class AuthService {
         throw new Error('Organization subscription is suspended');
       }
 
-      // Check MFA if enabled
+      // Check MFA if enabled; a wrong code counts towards the account lockout
+      let mfa: MfaVerification | undefined;
       if (user.mfaEnabled) {
         if (!request.mfaCode) {
-          throw new Error('MFA code required');
+          throw authError(401, 'MFA_REQUIRED', 'MFA code required');
         }
         
-        const isMfaValid = await this.verifyMfaCode(user.id, request.mfaCode);
-        if (!isMfaValid) {
-          throw new Error('Invalid MFA code');
+        mfa = await this.verifyMfaCode(user.id, request.mfaCode) || undefined;
+        if (!mfa) {
+          await this.handleFailedLogin(user);
+          await this.auditService.logAction({
+            userId: user.id,
+            organizationId: user.organizationId,
+            action: 'LOGIN_FAILED',
+            resource: 'auth',
+            details: { reason: 'Invalid MFA code' },
+            ipAddress,
+            userAgent
+          });
+          throw authError(401, 'INVALID_MFA_CODE', 'Invalid MFA code');
         }
       }
 
+      // Organizations can require MFA; unenrolled users may only complete enrollment
+      const mfaEnrollmentRequired = organization.requiresMFA && !user.mfaEnabled;
+
       // Generate tokens
       const tokens = await this.generateTokens(user);
 
@@ -208,7 +237,11 @@ export class AuthService {
         organizationId: user.organizationId,
         action: 'LOGIN_SUCCESS',
         resource: 'auth',
-        details: { mfaUsed: user.mfaEnabled },
+        details: {
+          mfaUsed: user.mfaEnabled,
+          ...(mfa && { mfaMethod: mfa.method }),
+          ...(mfaEnrollmentRequired && { mfaEnrollmentRequired })
+        },
         ipAddress,
         userAgent
       });
@@ -221,7 +254,9 @@ export class AuthService {
 
       return { 
         user: { ...user, organization }, 
-        tokens 
+        tokens,
+        ...(mfa && { mfa }),
+        mfaEnrollmentRequired
       };
 
     } catch (error) {
@@ -290,7 +325,9 @@ export class AuthService {
         throw new Error('User not found or inactive');
       }
 
-      return user;
+      // Usage limits are checked against the organization on each request
+      const organization = await this.db.findOrganizationById(user.organizationId);
+      return organization ? { ...user, organization } : user;
 
     } catch (error) {
       logger.error('Token verification failed', { error: error.message });
@@ -398,9 +435,7 @@ export class AuthService {
     return countryTimezoneMap[country.toUpperCase()] || 'Europe/Amsterdam';
   }
 
-  private async verifyMfaCode(userId: string, code: string): Promise<boolean> {
-    // This would integrate with a TOTP library like speakeasy
-    // For now, return true (implement when MFA is needed)
-    return true;
+  private async verifyMfaCode(userId: string, code: string): Promise<MfaVerification | null> {
+    return this.mfaService.verifyCode(userId, code);
   }
 }
\ No newline at end of file
@@ -0,0 +1,675 @@
+/**
+ * HalalCheck EU - Certificate Service
+ *
+ * Registry of certificates issued by the agent system. The issuing
+ * organization can read its full records and manage their lifecycle
+ * (suspend, reinstate, revoke, renew, amend scope), with every change kept
+ * in the certificate's history; anyone holding a certificate ID (from the QR
+ * code) gets only the public verification status, and can check a presented
+ * PDF against the organization's signature. A scheduler emails the
+ * organization before certificates expire.
+ */
+
+import { PoolClient } from 'pg';
+import { DatabaseService } from './databaseService';
+import { EmailService } from './emailService';
+import { SigningKeyService, hashDocument } from './signingKeyService';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/middleware/errorHandler';
+import {
+  CERTIFICATE_EXPIRY_REMINDER_DAYS,
+  CERTIFICATE_TYPES,
+  Certificate,
+  CertificateAction,
+  CertificateDocumentVerification,
+  CertificateEvent,
+  CertificateStatus,
+  CertificateType,
+  CertificateVerification,
+  CertificateVerificationStatus,
+  RegisterCertificateRequest,
+  RenewCertificateRequest
+} from '@/types/certificates';
+import { SIGNATURE_ALGORITHM } from '@/types/signing';
+
+// Agent-issued IDs, e.g. cert_3f9a...; also bounds what the public route looks up
+const CERTIFICATE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const MAX_TEXT_LENGTH = 255;
+const MAX_SCOPE_LENGTH = 2000;
+const MAX_REASON_LENGTH = 1000;
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+const REMINDER_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const REMINDER_BATCH_SIZE = 1000;
+
+// Statuses each lifecycle action may start from; revocation is final
+const ALLOWED_FROM: Record<Exclude<CertificateAction, 'ISSUED'>, CertificateStatus[]> = {
+  SUSPENDED: ['ACTIVE'],
+  REINSTATED: ['SUSPENDED'],
+  REVOKED: ['ACTIVE', 'SUSPENDED'],
+  RENEWED: ['ACTIVE'],
+  SCOPE_AMENDED: ['ACTIVE', 'SUSPENDED']
+};
+
+interface LifecycleChange {
+  toStatus: CertificateStatus;
+  columns?: Record<string, unknown>; // Column values to set besides status
+  details?: Record<string, unknown>;
+}
+
+const ACTION_VERBS: Record<Exclude<CertificateAction, 'ISSUED'>, string> = {
+  SUSPENDED: 'suspend',
+  REINSTATED: 'reinstate',
+  REVOKED: 'revoke',
+  RENEWED: 'renew',
+  SCOPE_AMENDED: 'amend the scope of'
+};
+
+interface DueReminder {
+  certificate: Certificate;
+  daysBefore: number;
+}
+
+function certificateError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+function isValidDate(value: unknown): boolean {
+  return (typeof value === 'string' || value instanceof Date) && !Number.isNaN(new Date(value).getTime());
+}
+
+export function isValidCertificateId(value: unknown): value is string {
+  return typeof value === 'string' && CERTIFICATE_ID_PATTERN.test(value);
+}
+
+export class CertificateService {
+  private db: DatabaseService;
+  private emailService: EmailService;
+  private signingKeys: SigningKeyService;
+  private reminderTimer: NodeJS.Timeout | undefined;
+
+  constructor(db?: DatabaseService, emailService?: EmailService, signingKeys?: SigningKeyService) {
+    this.db = db || new DatabaseService();
+    this.emailService = emailService || new EmailService();
+    this.signingKeys = signingKeys || new SigningKeyService(this.db);
+  }
+
+  /**
+   * Problems with a registration body, empty when it can be stored
+   */
+  validateCertificate(body: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+
+    if (!isValidCertificateId(body.id)) {
+      errors.push('id must be 8-64 letters, digits, underscores or hyphens');
+    }
+    if (!CERTIFICATE_TYPES.includes(body.type as CertificateType)) {
+      errors.push(`type must be one of: ${CERTIFICATE_TYPES.join(', ')}`);
+    }
+    for (const field of ['certificateNumber', 'clientId', 'productName', 'standard', 'issuingAuthority'] as const) {
+      const value = body[field];
+      if (typeof value !== 'string' || !value.trim() || value.length > MAX_TEXT_LENGTH) {
+        errors.push(`${field} is required and must be at most ${MAX_TEXT_LENGTH} characters`);
+      }
+    }
+    if (typeof body.scope !== 'string' || !body.scope.trim() || body.scope.length > MAX_SCOPE_LENGTH) {
+      errors.push(`scope is required and must be at most ${MAX_SCOPE_LENGTH} characters`);
+    }
+    if (!isValidDate(body.validFrom) || !isValidDate(body.validUntil)) {
+      errors.push('validFrom and validUntil must be dates');
+    } else if (new Date(body.validUntil as string) <= new Date(body.validFrom as string)) {
+      errors.push('validUntil must be after validFrom');
+    }
+    if (body.issuedAt !== undefined && !isValidDate(body.issuedAt)) {
+      errors.push('issuedAt must be a date');
+    }
+    if (body.data !== undefined && (!body.data || typeof body.data !== 'object' || Array.isArray(body.data))) {
+      errors.push('data must be an object');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Record a newly issued certificate for the organization
+   */
+  async registerCertificate(organizationId: string, userId: string, request: RegisterCertificateRequest): Promise<Certificate> {
+    const errors = this.validateCertificate(request as unknown as Record<string, unknown>);
+    if (errors.length > 0) {
+      throw certificateError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const row = await this.db.transaction(async (client) => {
+      const result = await this.db.queryWithClient(
+        client,
+        `INSERT INTO certificates (
+           id, certificate_number, organization_id, type, client_id, product_name,
+           standard, scope, issuing_authority, valid_from, valid_until, issued_at, data, created_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, COALESCE($12, NOW()), $13, $14)
+         ON CONFLICT (id) DO NOTHING
+         RETURNING *`,
+        [
+          request.id,
+          request.certificateNumber.trim(),
+          organizationId,
+          request.type,
+          request.clientId.trim(),
+          request.productName.trim(),
+          request.standard.trim(),
+          request.scope.trim(),
+          request.issuingAuthority.trim(),
+          new Date(request.validFrom),
+          new Date(request.validUntil),
+          request.issuedAt ? new Date(request.issuedAt) : null,
+          JSON.stringify(request.data || {}),
+          userId
+        ]
+      );
+
+      if (result.rows.length === 0) {
+        throw certificateError(409, 'CERTIFICATE_EXISTS', 'A certificate with this ID is already registered');
+      }
+
+      await this.insertEvent(client, result.rows[0].id, 'ISSUED', undefined, 'ACTIVE', userId, undefined, {
+        validFrom: result.rows[0].valid_from,
+        validUntil: result.rows[0].valid_until
+      });
+      return result.rows[0];
+    });
+
+    const certificate = this.mapCertificateRow(row);
+    logger.info('Certificate registered', {
+      certificateId: certificate.id,
+      certificateNumber: certificate.certificateNumber,
+      organizationId
+    });
+    return certificate;
+  }
+
+  async getCertificate(organizationId: string, certificateId: string): Promise<Certificate> {
+    const row = isValidCertificateId(certificateId) ? await this.findCertificateRow(certificateId) : null;
+    if (!row || row.organization_id !== organizationId) {
+      throw certificateError(404, 'CERTIFICATE_NOT_FOUND', 'Certificate not found');
+    }
+    return this.mapCertificateRow(row);
+  }
+
+  async listCertificates(organizationId: string, options: { limit?: number; offset?: number } = {}): Promise<Certificate[]> {
+    const limit = Math.min(Math.max(options.limit || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    const offset = Math.max(options.offset || 0, 0);
+
+    const result = await this.db.query(
+      `SELECT * FROM certificates
+       WHERE organization_id = $1
+       ORDER BY issued_at DESC
+       LIMIT $2 OFFSET $3`,
+      [organizationId, limit, offset]
+    );
+    return result.rows.map(row => this.mapCertificateRow(row));
+  }
+
+  /**
+   * Lifecycle history of one of the organization's certificates, oldest first
+   */
+  async getCertificateHistory(organizationId: string, certificateId: string): Promise<CertificateEvent[]> {
+    await this.getCertificate(organizationId, certificateId);
+
+    const result = await this.db.query(
+      'SELECT * FROM certificate_events WHERE certificate_id = $1 ORDER BY created_at, id',
+      [certificateId]
+    );
+    return result.rows.map(row => this.mapEventRow(row));
+  }
+
+  /**
+   * Temporarily withdraw an active certificate; verification reports it as suspended
+   */
+  async suspendCertificate(organizationId: string, userId: string, certificateId: string, reason: unknown): Promise<Certificate> {
+    const text = this.requireReason(reason);
+    return this.changeLifecycle(organizationId, userId, certificateId, 'SUSPENDED', text, () => ({ toStatus: 'SUSPENDED' }));
+  }
+
+  async reinstateCertificate(organizationId: string, userId: string, certificateId: string, reason?: unknown): Promise<Certificate> {
+    const text = this.optionalReason(reason);
+    return this.changeLifecycle(organizationId, userId, certificateId, 'REINSTATED', text, () => ({ toStatus: 'ACTIVE' }));
+  }
+
+  /**
+   * Permanently withdraw a certificate. Revoked certificates cannot be reinstated or renewed.
+   */
+  async revokeCertificate(organizationId: string, userId: string, certificateId: string, reason: unknown): Promise<Certificate> {
+    const text = this.requireReason(reason);
+    return this.changeLifecycle(organizationId, userId, certificateId, 'REVOKED', text, () => ({ toStatus: 'REVOKED' }));
+  }
+
+  /**
+   * Extend an active certificate into a new validity period. The certificate
+   * keeps its ID, QR code and history; the previous period is recorded in the
+   * renewal event.
+   */
+  async renewCertificate(organizationId: string, userId: string, certificateId: string, request: RenewCertificateRequest): Promise<Certificate> {
+    const errors: string[] = [];
+    if (!isValidDate(request.validUntil)) {
+      errors.push('validUntil must be a date');
+    }
+    if (request.validFrom !== undefined && !isValidDate(request.validFrom)) {
+      errors.push('validFrom must be a date');
+    }
+    if (request.certificateNumber !== undefined &&
+      (typeof request.certificateNumber !== 'string' || !request.certificateNumber.trim() || request.certificateNumber.length > MAX_TEXT_LENGTH)) {
+      errors.push(`certificateNumber must be at most ${MAX_TEXT_LENGTH} characters`);
+    }
+    if (errors.length > 0) {
+      throw certificateError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+    const reason = this.optionalReason(request.reason);
+    const certificateNumber = request.certificateNumber?.trim();
+
+    return this.changeLifecycle(organizationId, userId, certificateId, 'RENEWED', reason, (current) => {
+      const currentUntil = new Date(current.validUntil);
+      const validFrom = request.validFrom
+        ? new Date(request.validFrom)
+        : new Date(Math.max(Date.now(), currentUntil.getTime()));
+      const validUntil = new Date(request.validUntil);
+      if (validUntil <= validFrom || validUntil <= currentUntil) {
+        throw certificateError(400, 'VALIDATION_ERROR', 'validUntil must be after validFrom and the current expiry');
+      }
+
+      return {
+        toStatus: 'ACTIVE',
+        columns: {
+          valid_from: validFrom,
+          valid_until: validUntil,
+          renewal_count: current.renewalCount + 1,
+          ...(certificateNumber && { certificate_number: certificateNumber })
+        },
+        details: {
+          previousValidFrom: current.validFrom,
+          previousValidUntil: current.validUntil,
+          validFrom,
+          validUntil,
+          ...(certificateNumber && { previousCertificateNumber: current.certificateNumber, certificateNumber })
+        }
+      };
+    });
+  }
+
+  /**
+   * Change what a certificate covers, e.g. an added production line
+   */
+  async amendScope(organizationId: string, userId: string, certificateId: string, scope: unknown, reason?: unknown): Promise<Certificate> {
+    if (typeof scope !== 'string' || !scope.trim() || scope.length > MAX_SCOPE_LENGTH) {
+      throw certificateError(400, 'VALIDATION_ERROR', `scope is required and must be at most ${MAX_SCOPE_LENGTH} characters`);
+    }
+    const text = this.optionalReason(reason);
+
+    return this.changeLifecycle(organizationId, userId, certificateId, 'SCOPE_AMENDED', text, (current) => {
+      if (current.scope === scope.trim()) {
+        throw certificateError(400, 'VALIDATION_ERROR', 'scope is unchanged');
+      }
+      return {
+        toStatus: current.status,
+        columns: { scope: scope.trim() },
+        details: { previousScope: current.scope, scope: scope.trim() }
+      };
+    });
+  }
+
+  /**
+   * Email each organization about active certificates that reached an expiry
+   * threshold (90, 30 and 7 days). Only the nearest threshold is sent, once
+   * per validity period, so a renewal starts the reminders again.
+   */
+  async sendExpiryReminders(): Promise<number> {
+    const thresholds = [...CERTIFICATE_EXPIRY_REMINDER_DAYS].sort((a, b) => a - b);
+    const nearestThreshold = `CASE ${thresholds.map(days => `WHEN valid_until <= NOW() + INTERVAL '${days} days' THEN ${days}`).join(' ')} END`;
+
+    const result = await this.db.query(
+      `SELECT * FROM (
+         SELECT certificates.*, ${nearestThreshold} AS days_before
+         FROM certificates
+         WHERE status = 'ACTIVE' AND valid_until > NOW() AND valid_until <= NOW() + make_interval(days => $1)
+       ) due
+       WHERE NOT EXISTS (
+         SELECT 1 FROM certificate_expiry_reminders reminder
+         WHERE reminder.certificate_id = due.id
+           AND reminder.valid_until = due.valid_until
+           AND reminder.days_before = due.days_before
+       )
+       ORDER BY organization_id, valid_until
+       LIMIT $2`,
+      [Math.max(...thresholds), REMINDER_BATCH_SIZE]
+    );
+
+    const groups = new Map<string, DueReminder[]>();
+    for (const row of result.rows) {
+      const key = `${row.organization_id}:${row.days_before}`;
+      groups.set(key, [...(groups.get(key) || []), { certificate: this.mapCertificateRow(row), daysBefore: row.days_before }]);
+    }
+
+    let sent = 0;
+    for (const reminders of groups.values()) {
+      sent += await this.sendReminderGroup(reminders);
+    }
+
+    if (sent > 0) {
+      logger.info('Sent certificate expiry reminders', { certificates: sent });
+    }
+    return sent;
+  }
+
+  startExpiryReminders(): void {
+    if (this.reminderTimer) {
+      return;
+    }
+    const sweep = () => {
+      this.sendExpiryReminders().catch(error => {
+        logger.error('Certificate expiry reminder sweep failed', { error: (error as Error).message });
+      });
+    };
+    this.reminderTimer = setInterval(sweep, REMINDER_SWEEP_INTERVAL_MS);
+    this.reminderTimer.unref();
+    sweep();
+  }
+
+  stopExpiryReminders(): void {
+    if (this.reminderTimer) {
+      clearInterval(this.reminderTimer);
+      this.reminderTimer = undefined;
+    }
+  }
+
+  /**
+   * Sign the issued PDF, given its SHA-256, with the organization's key. A
+   * renewed certificate is signed again for its new PDF; only the latest
+   * document verifies.
+   */
+  async signCertificateDocument(organizationId: string, certificateId: string, documentHash: unknown): Promise<Certificate> {
+    const certificate = await this.getCertificate(organizationId, certificateId);
+    if (certificate.status === 'REVOKED') {
+      throw certificateError(409, 'CERTIFICATE_REVOKED', 'Revoked certificates cannot be signed');
+    }
+
+    const signature = await this.signingKeys.signHash(organizationId, String(documentHash ?? '').toLowerCase());
+    const result = await this.db.query(
+      `UPDATE certificates
+       SET document_hash = $2, document_signature = $3, signing_key_id = $4, signed_at = $5
+       WHERE id = $1
+       RETURNING *`,
+      [certificateId, signature.hash, signature.signature, signature.keyId, signature.signedAt]
+    );
+
+    logger.info('Certificate signed', { certificateId, keyId: signature.keyId });
+    return this.mapCertificateRow(result.rows[0]);
+  }
+
+  /**
+   * Public standing of a certificate, as shown to anyone scanning its QR code
+   */
+  async verifyCertificate(certificateId: string): Promise<CertificateVerification> {
+    return this.toVerification(this.mapCertificateRow(await this.findPublicCertificateRow(certificateId)));
+  }
+
+  /**
+   * Public check of a presented PDF: the certificate's standing, whether the
+   * file is byte-for-byte the signed one and whether the signature holds
+   */
+  async verifyCertificateDocument(certificateId: string, document: Buffer): Promise<CertificateDocumentVerification> {
+    const certificate = this.mapCertificateRow(await this.findPublicCertificateRow(certificateId));
+    const hash = hashDocument(document);
+    const signature = certificate.signature;
+
+    return {
+      ...this.toVerification(certificate),
+      document: signature ? {
+        signed: true,
+        hash,
+        hashMatches: hash === signature.hash,
+        signatureValid: await this.signingKeys.verifySignature(certificate.organizationId, signature),
+        keyId: signature.keyId,
+        signedAt: signature.signedAt,
+        jwksUrl: this.signingKeys.jwksUrl(certificate.organizationId)
+      } : {
+        signed: false,
+        hash,
+        hashMatches: false,
+        signatureValid: false
+      }
+    };
+  }
+
+  private toVerification(certificate: Certificate): CertificateVerification {
+    const status = this.verificationStatus(certificate);
+
+    return {
+      certificateId: certificate.id,
+      certificateNumber: certificate.certificateNumber,
+      status,
+      valid: status === 'VALID',
+      type: certificate.type,
+      productName: certificate.productName,
+      standard: certificate.standard,
+      scope: certificate.scope,
+      issuingAuthority: certificate.issuingAuthority,
+      validFrom: certificate.validFrom,
+      validUntil: certificate.validUntil,
+      ...(certificate.signature && {
+        signature: { ...certificate.signature, jwksUrl: this.signingKeys.jwksUrl(certificate.organizationId) }
+      }),
+      checkedAt: new Date()
+    };
+  }
+
+  /**
+   * Revocation and suspension take precedence over expiry
+   */
+  private verificationStatus(certificate: Certificate): CertificateVerificationStatus {
+    if (certificate.status === 'REVOKED' || certificate.status === 'SUSPENDED') {
+      return certificate.status;
+    }
+    return new Date(certificate.validUntil).getTime() <= Date.now() ? 'EXPIRED' : 'VALID';
+  }
+
+  /**
+   * Apply a lifecycle action under a row lock and record it in the history
+   */
+  private async changeLifecycle(
+    organizationId: string,
+    userId: string,
+    certificateId: string,
+    action: Exclude<CertificateAction, 'ISSUED'>,
+    reason: string | undefined,
+    change: (current: Certificate) => LifecycleChange
+  ): Promise<Certificate> {
+    if (!isValidCertificateId(certificateId)) {
+      throw certificateError(404, 'CERTIFICATE_NOT_FOUND', 'Certificate not found');
+    }
+
+    const row = await this.db.transaction(async (client) => {
+      const locked = await this.db.queryWithClient(
+        client,
+        'SELECT * FROM certificates WHERE id = $1 AND organization_id = $2 FOR UPDATE',
+        [certificateId, organizationId]
+      );
+      if (!locked.rows[0]) {
+        throw certificateError(404, 'CERTIFICATE_NOT_FOUND', 'Certificate not found');
+      }
+
+      const current = this.mapCertificateRow(locked.rows[0]);
+      if (!ALLOWED_FROM[action].includes(current.status)) {
+        throw certificateError(409, 'INVALID_STATUS_TRANSITION', `Cannot ${ACTION_VERBS[action]} a ${current.status.toLowerCase()} certificate`);
+      }
+
+      const { toStatus, columns = {}, details = {} } = change(current);
+      const values: Record<string, unknown> = {
+        ...columns,
+        ...(toStatus !== current.status && { status: toStatus, status_reason: reason || null, status_changed_at: new Date() })
+      };
+      const names = Object.keys(values);
+
+      const updated = await this.db.queryWithClient(
+        client,
+        `UPDATE certificates SET ${names.map((name, index) => `${name} = $${index + 2}`).join(', ')} WHERE id = $1 RETURNING *`,
+        [certificateId, ...names.map(name => values[name])]
+      );
+      await this.insertEvent(client, certificateId, action, current.status, toStatus, userId, reason, details);
+      return updated.rows[0];
+    });
+
+    logger.info('Certificate lifecycle changed', { certificateId, organizationId, action, userId });
+    return this.mapCertificateRow(row);
+  }
+
+  private async insertEvent(
+    client: PoolClient,
+    certificateId: string,
+    action: CertificateAction,
+    fromStatus: CertificateStatus | undefined,
+    toStatus: CertificateStatus,
+    userId: string,
+    reason: string | undefined,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await this.db.queryWithClient(
+      client,
+      `INSERT INTO certificate_events (certificate_id, action, from_status, to_status, reason, details, performed_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [certificateId, action, fromStatus || null, toStatus, reason || null, JSON.stringify(details), userId]
+    );
+  }
+
+  /**
+   * Claim and send one organization's reminders for one threshold. Claims are
+   * released when no email could be sent, so the next sweep tries again.
+   */
+  private async sendReminderGroup(reminders: DueReminder[]): Promise<number> {
+    const first = reminders[0];
+    if (!first) {
+      return 0;
+    }
+    const { organizationId } = first.certificate;
+    const { daysBefore } = first;
+    const keys = [
+      reminders.map(reminder => reminder.certificate.id),
+      reminders.map(reminder => reminder.certificate.validUntil),
+      reminders.map(reminder => reminder.daysBefore)
+    ];
+
+    const claimed = await this.db.query(
+      `INSERT INTO certificate_expiry_reminders (certificate_id, valid_until, days_before)
+       SELECT * FROM UNNEST($1::varchar[], $2::timestamptz[], $3::int[])
+       ON CONFLICT DO NOTHING
+       RETURNING certificate_id`,
+      keys
+    );
+    const claimedIds = new Set(claimed.rows.map(row => row.certificate_id));
+    const certificates = reminders.map(reminder => reminder.certificate).filter(certificate => claimedIds.has(certificate.id));
+    if (certificates.length === 0) {
+      return 0;
+    }
+
+    const recipients = await this.db.query(
+      `SELECT email FROM users
+       WHERE organization_id = $1 AND status = 'ACTIVE' AND role IN ('ADMIN', 'CERTIFIER')`,
+      [organizationId]
+    );
+    if (recipients.rows.length === 0) {
+      logger.warn('No recipients for certificate expiry reminders', { organizationId, daysBefore });
+      return 0;
+    }
+
+    const results = await Promise.allSettled(recipients.rows.map(recipient =>
+      this.emailService.sendCertificateExpiryReminder(recipient.email, daysBefore, certificates)
+    ));
+    if (results.every(outcome => outcome.status === 'rejected')) {
+      await this.db.query(
+        `DELETE FROM certificate_expiry_reminders
+         WHERE (certificate_id, valid_until, days_before) IN (
+           SELECT * FROM UNNEST($1::varchar[], $2::timestamptz[], $3::int[])
+         )`,
+        keys
+      );
+      logger.error('Failed to send certificate expiry reminders', { organizationId, daysBefore });
+      return 0;
+    }
+    return certificates.length;
+  }
+
+  private requireReason(reason: unknown): string {
+    const text = this.optionalReason(reason);
+    if (!text) {
+      throw certificateError(400, 'VALIDATION_ERROR', 'reason is required');
+    }
+    return text;
+  }
+
+  private optionalReason(reason: unknown): string | undefined {
+    if (reason === undefined || reason === null || reason === '') {
+      return undefined;
+    }
+    if (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH) {
+      throw certificateError(400, 'VALIDATION_ERROR', `reason must be at most ${MAX_REASON_LENGTH} characters`);
+    }
+    return reason.trim() || undefined;
+  }
+
+  private async findCertificateRow(certificateId: string): Promise<any | null> {
+    const result = await this.db.query('SELECT * FROM certificates WHERE id = $1', [certificateId]);
+    return result.rows[0] || null;
+  }
+
+  private async findPublicCertificateRow(certificateId: string): Promise<any> {
+    const row = isValidCertificateId(certificateId) ? await this.findCertificateRow(certificateId) : null;
+    if (!row) {
+      throw certificateError(404, 'CERTIFICATE_NOT_FOUND', 'No certificate is registered with this ID');
+    }
+    return row;
+  }
+
+  private mapCertificateRow(row: any): Certificate {
+    return {
+      id: row.id,
+      certificateNumber: row.certificate_number,
+      organizationId: row.organization_id,
+      type: row.type,
+      clientId: row.client_id,
+      productName: row.product_name,
+      standard: row.standard,
+      scope: row.scope,
+      issuingAuthority: row.issuing_authority,
+      validFrom: row.valid_from,
+      validUntil: row.valid_until,
+      status: row.status,
+      ...(row.status_reason && { statusReason: row.status_reason }),
+      ...(row.status_changed_at && { statusChangedAt: row.status_changed_at }),
+      renewalCount: row.renewal_count || 0,
+      issuedAt: row.issued_at,
+      data: row.data || {},
+      ...(row.document_signature && {
+        signature: {
+          algorithm: SIGNATURE_ALGORITHM,
+          keyId: row.signing_key_id,
+          hash: row.document_hash,
+          signature: row.document_signature,
+          signedAt: row.signed_at
+        }
+      }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapEventRow(row: any): CertificateEvent {
+    return {
+      id: row.id,
+      certificateId: row.certificate_id,
+      action: row.action,
+      ...(row.from_status && { fromStatus: row.from_status }),
+      toStatus: row.to_status,
+      ...(row.reason && { reason: row.reason }),
+      details: row.details || {},
+      ...(row.performed_by && { performedBy: row.performed_by }),
+      createdAt: row.created_at
+    };
+  }
+}
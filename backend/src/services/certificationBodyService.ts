@@ -0,0 +1,760 @@
+/**
+ * HalalCheck EU - Certification Body Service
+ *
+ * The directory of halal certification bodies and the recognition matrix
+ * between them and the authorities of export markets (JAKIM for Malaysia,
+ * BPJPH for Indonesia, the GCC Accreditation Center for the Gulf, ...).
+ * The directory is maintained by platform administrators, by hand or by
+ * importing CSV or JSON lists, and is used to check whether the issuer of a
+ * supplier certificate is accepted in the market an analysis targets.
+ */
+
+import { PoolClient } from 'pg';
+import { DatabaseService } from './databaseService';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/middleware/errorHandler';
+import { SupplierEvidence } from '@/types/halal';
+import {
+  CERTIFICATION_BODY_STATUSES,
+  CertificationBody,
+  CertificationBodyImportFormat,
+  CertificationBodyImportResult,
+  CertificationBodyRecognition,
+  CreateCertificationBodyRequest,
+  RECOGNITION_AUTHORITIES,
+  RECOGNITION_STATUSES,
+  RecognitionAuthority,
+  RecognitionRequest,
+  RecognitionStatus,
+  UpdateCertificationBodyRequest
+} from '@/types/certificationBodies';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})/;
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+const MAX_NAME_LENGTH = 255;
+const MAX_COUNTRY_LENGTH = 100;
+const MAX_STANDARD_LENGTH = 100;
+const MAX_URL_LENGTH = 500;
+const MAX_REFERENCE_LENGTH = 500;
+const MAX_LIST_ENTRIES = 20;
+const MAX_IMPORT_ROWS = 1000;
+const MAX_IMPORT_LENGTH = 1000000;
+
+// Separates aliases and standards within a CSV cell
+const CSV_LIST_SEPARATOR = '|';
+
+// Request fields stored in a column of their own
+const BODY_FIELDS: Record<string, string> = {
+  name: 'name',
+  aliases: 'aliases',
+  country: 'country',
+  standards: 'standards',
+  accreditation: 'accreditation',
+  logoUrl: 'logo_url',
+  website: 'website',
+  status: 'status'
+};
+
+const CSV_COLUMNS: Record<string, keyof CreateCertificationBodyRequest> = {
+  name: 'name',
+  aliases: 'aliases',
+  country: 'country',
+  standards: 'standards',
+  accreditation: 'accreditation',
+  logourl: 'logoUrl',
+  logo: 'logoUrl',
+  website: 'website',
+  status: 'status'
+};
+
+/**
+ * A row of an import: the body and the authorities whose recognitions the
+ * row sets (authorities it leaves out keep their recognitions)
+ */
+interface ImportRow {
+  request: CreateCertificationBodyRequest;
+  authorities: string[];
+}
+
+function directoryError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+function isText(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.length <= maxLength;
+}
+
+function isName(value: unknown): value is string {
+  return isText(value, MAX_NAME_LENGTH) && value.trim().length > 0;
+}
+
+function isVersion(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function isTextList(value: unknown, maxLength: number): value is string[] {
+  return Array.isArray(value) &&
+    value.length <= MAX_LIST_ENTRIES &&
+    value.every(entry => isText(entry, maxLength) && entry.trim().length > 0);
+}
+
+function isUrl(value: unknown): boolean {
+  return value === null || (isText(value, MAX_URL_LENGTH) && (value === '' || URL_PATTERN.test(value)));
+}
+
+/**
+ * YYYY-MM-DD of a DATE column or request value, or null when it is not a date
+ */
+function toDateOnly(value: unknown): string | null {
+  if (value instanceof Date) {
+    const year = value.getFullYear();
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+  const match = typeof value === 'string' ? DATE_PATTERN.exec(value) : null;
+  return match && !Number.isNaN(Date.parse(match[1]!)) ? match[1]! : null;
+}
+
+function today(): string {
+  return toDateOnly(new Date())!;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Rows of RFC 4180 CSV: comma separated, fields optionally in double quotes
+ * with "" for a literal quote, CRLF or LF line ends. Blank lines are skipped.
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index]!;
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') {
+        index++;
+      }
+      row.push(field);
+      if (row.some(value => value.trim() !== '')) {
+        rows.push(row);
+      }
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw directoryError(400, 'VALIDATION_ERROR', 'CSV has an unterminated quoted field');
+  }
+  row.push(field);
+  if (row.some(value => value.trim() !== '')) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Whether a code names a known recognition authority
+ */
+export function isRecognitionAuthority(value: unknown): value is string {
+  return typeof value === 'string' && RECOGNITION_AUTHORITIES.some(authority => authority.code === value);
+}
+
+/**
+ * The authority of the export market a certification standard is used for,
+ * e.g. JAKIM for the JAKIM standard and the GCC Accreditation Center for
+ * GSO 993. European and custom standards have none.
+ */
+export function authorityForStandard(standard: string): RecognitionAuthority | undefined {
+  return RECOGNITION_AUTHORITIES.find(authority => authority.standards.includes(standard));
+}
+
+export class CertificationBodyService {
+  private db: DatabaseService;
+
+  constructor(db?: DatabaseService) {
+    this.db = db || new DatabaseService();
+  }
+
+  getAuthorities(): RecognitionAuthority[] {
+    return RECOGNITION_AUTHORITIES;
+  }
+
+  /**
+   * Directory entries, optionally matching a search over names, aliases and
+   * country, or currently recognized by an authority
+   */
+  async listBodies(filter: { search?: string; authority?: string } = {}): Promise<CertificationBody[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filter.search && filter.search.trim()) {
+      params.push(`%${filter.search.trim().replace(/[\\%_]/g, match => `\\${match}`)}%`);
+      conditions.push(`(name ILIKE $${params.length} OR country ILIKE $${params.length} OR array_to_string(aliases, ' ') ILIKE $${params.length})`);
+    }
+
+    const result = await this.db.query(
+      `SELECT * FROM certification_bodies
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY LOWER(name) ASC`,
+      params
+    );
+    const bodies = await this.withRecognitions(result.rows);
+    return filter.authority
+      ? bodies.filter(body => body.recognitions.some(recognition => recognition.authority === filter.authority && recognition.current))
+      : bodies;
+  }
+
+  async getBody(bodyId: string): Promise<CertificationBody> {
+    if (!UUID_PATTERN.test(bodyId)) {
+      throw directoryError(404, 'CERTIFICATION_BODY_NOT_FOUND', 'Certification body not found');
+    }
+    const result = await this.db.query('SELECT * FROM certification_bodies WHERE id = $1', [bodyId]);
+    if (!result.rows[0]) {
+      throw directoryError(404, 'CERTIFICATION_BODY_NOT_FOUND', 'Certification body not found');
+    }
+    const [body] = await this.withRecognitions(result.rows);
+    return body!;
+  }
+
+  async createBody(userId: string, request: CreateCertificationBodyRequest): Promise<CertificationBody> {
+    const errors = this.validateBodyFields(request);
+    if (!isName(request.name)) {
+      errors.push(`name is required and must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (errors.length > 0) {
+      throw directoryError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const bodyId = await this.db.transaction(async client => {
+      await this.assertNameAvailable(client, request.name);
+      const id = await this.insertBody(client, userId, request);
+      await this.replaceRecognitions(client, id, request.recognitions || [], RECOGNITION_AUTHORITIES.map(authority => authority.code));
+      return id;
+    });
+
+    logger.info('Certification body created', { certificationBodyId: bodyId, name: request.name });
+    return this.getBody(bodyId);
+  }
+
+  /**
+   * Apply changes made to the given version of a directory entry. Given
+   * recognitions replace the body's recognitions.
+   */
+  async updateBody(userId: string, bodyId: string, request: UpdateCertificationBodyRequest): Promise<CertificationBody> {
+    const errors = this.validateBodyFields(request);
+    if (request.name !== undefined && !isName(request.name)) {
+      errors.push(`name must not be empty and at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (!isVersion(request.version)) {
+      errors.push('version is required');
+    }
+    if (errors.length > 0) {
+      throw directoryError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    await this.db.transaction(async client => {
+      const current = await this.lockBody(client, bodyId);
+      if (current.version !== request.version) {
+        throw directoryError(409, 'VERSION_CONFLICT', 'Certification body was changed by someone else; reload it and try again');
+      }
+      if (request.name !== undefined) {
+        await this.assertNameAvailable(client, request.name, bodyId);
+      }
+      await this.updateBodyFields(client, userId, bodyId, request);
+      if (request.recognitions !== undefined) {
+        await this.replaceRecognitions(client, bodyId, request.recognitions, RECOGNITION_AUTHORITIES.map(authority => authority.code));
+      }
+    });
+
+    return this.getBody(bodyId);
+  }
+
+  /**
+   * Remove a directory entry. Supplier certificates linked to it keep their
+   * issuer name. With a version, the delete is refused when the entry
+   * changed since.
+   */
+  async deleteBody(bodyId: string, version?: number): Promise<void> {
+    if (version !== undefined && !isVersion(version)) {
+      throw directoryError(400, 'VALIDATION_ERROR', 'version must be a positive whole number');
+    }
+
+    await this.db.transaction(async client => {
+      const current = await this.lockBody(client, bodyId);
+      if (version !== undefined && current.version !== version) {
+        throw directoryError(409, 'VERSION_CONFLICT', 'Certification body was changed by someone else; reload it and try again');
+      }
+      await this.db.queryWithClient(client, 'DELETE FROM certification_bodies WHERE id = $1', [bodyId]);
+    });
+    logger.info('Certification body deleted', { certificationBodyId: bodyId });
+  }
+
+  /**
+   * Set one cell of the recognition matrix
+   */
+  async setRecognition(
+    userId: string,
+    bodyId: string,
+    authority: string,
+    request: Omit<RecognitionRequest, 'authority'>
+  ): Promise<CertificationBody> {
+    const errors = this.validateRecognition({ ...request, authority });
+    if (errors.length > 0) {
+      throw directoryError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    await this.db.transaction(async client => {
+      await this.lockBody(client, bodyId);
+      await this.replaceRecognitions(client, bodyId, [{ ...request, authority }], [authority]);
+      await this.touchBody(client, userId, bodyId);
+    });
+    return this.getBody(bodyId);
+  }
+
+  async removeRecognition(userId: string, bodyId: string, authority: string): Promise<CertificationBody> {
+    await this.db.transaction(async client => {
+      await this.lockBody(client, bodyId);
+      const result = await this.db.queryWithClient(client,
+        'DELETE FROM certification_body_recognitions WHERE certification_body_id = $1 AND authority = $2 RETURNING authority',
+        [bodyId, authority]
+      );
+      if (!result.rows[0]) {
+        throw directoryError(404, 'RECOGNITION_NOT_FOUND', `${authority} has no recognition recorded for this certification body`);
+      }
+      await this.touchBody(client, userId, bodyId);
+    });
+    return this.getBody(bodyId);
+  }
+
+  /**
+   * Import a list of certification bodies, adding new ones and updating
+   * those already in the directory (matched by name). The import is
+   * all-or-nothing: any invalid row rejects it.
+   *
+   * CSV has a header row with the columns name, aliases, country, standards,
+   * accreditation, logoUrl, website and status, plus one column per
+   * authority code (JAKIM, BPJPH, GAC, ...). Aliases and standards are
+   * separated by "|". An authority cell holds "recognized", "suspended", a
+   * date up to which the body is recognized, or nothing when the authority
+   * does not recognize it. JSON is a list of bodies as accepted by
+   * createBody, optionally wrapped as { "bodies": [...] }.
+   */
+  async importBodies(
+    userId: string,
+    format: CertificationBodyImportFormat,
+    content: string
+  ): Promise<CertificationBodyImportResult> {
+    if (format !== 'csv' && format !== 'json') {
+      throw directoryError(400, 'VALIDATION_ERROR', 'format must be csv or json');
+    }
+    if (typeof content !== 'string' || !content.trim()) {
+      throw directoryError(400, 'VALIDATION_ERROR', 'content is required');
+    }
+    if (content.length > MAX_IMPORT_LENGTH) {
+      throw directoryError(413, 'IMPORT_TOO_LARGE', `Imports are limited to ${MAX_IMPORT_LENGTH} characters`);
+    }
+
+    const rows = format === 'csv' ? this.readCsv(content) : this.readJson(content);
+    if (rows.length === 0) {
+      throw directoryError(400, 'VALIDATION_ERROR', 'The import contains no certification bodies');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw directoryError(400, 'VALIDATION_ERROR', `An import can hold at most ${MAX_IMPORT_ROWS} certification bodies`);
+    }
+
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    rows.forEach((row, index) => {
+      const rowErrors = this.validateBodyFields(row.request);
+      if (!isName(row.request.name)) {
+        rowErrors.push(`name is required and must be at most ${MAX_NAME_LENGTH} characters`);
+      } else if (seen.has(normalizeName(row.request.name))) {
+        rowErrors.push(`${row.request.name} is listed more than once`);
+      } else {
+        seen.add(normalizeName(row.request.name));
+      }
+      errors.push(...rowErrors.map(error => `Row ${index + 1}: ${error}`));
+    });
+    if (errors.length > 0) {
+      throw directoryError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const outcome = await this.db.transaction(async client => {
+      let created = 0;
+      let updated = 0;
+      const bodyIds: string[] = [];
+      for (const row of rows) {
+        const existing = await this.db.queryWithClient(client,
+          'SELECT id FROM certification_bodies WHERE LOWER(name) = LOWER($1) FOR UPDATE',
+          [row.request.name.trim()]
+        );
+        const existingId: string | undefined = existing.rows[0]?.id;
+        let bodyId: string;
+        if (existingId) {
+          const { recognitions: _recognitions, ...fields } = row.request;
+          await this.updateBodyFields(client, userId, existingId, fields);
+          bodyId = existingId;
+          updated++;
+        } else {
+          bodyId = await this.insertBody(client, userId, row.request);
+          created++;
+        }
+        await this.replaceRecognitions(client, bodyId, row.request.recognitions || [], row.authorities);
+        bodyIds.push(bodyId);
+      }
+      return { created, updated, bodyIds };
+    });
+
+    logger.info('Certification bodies imported', { format, created: outcome.created, updated: outcome.updated });
+    const bodies = await this.listBodies();
+    return {
+      created: outcome.created,
+      updated: outcome.updated,
+      bodies: bodies.filter(body => outcome.bodyIds.includes(body.id))
+    };
+  }
+
+  /**
+   * Record for each supplier certificate whether the export market's
+   * authority currently recognizes its issuer. Issuers are matched to the
+   * directory by the certificate's linked entry, or by name or alias.
+   */
+  async checkIssuers(
+    evidence: Map<string, SupplierEvidence[]>,
+    authorityCode: string
+  ): Promise<Map<string, SupplierEvidence[]>> {
+    const authority = RECOGNITION_AUTHORITIES.find(entry => entry.code === authorityCode);
+    if (!authority || evidence.size === 0) {
+      return evidence;
+    }
+
+    const bodies = await this.listBodies();
+    const checked = new Map<string, SupplierEvidence[]>();
+    for (const [nodeId, entries] of evidence) {
+      checked.set(nodeId, entries.map(entry => {
+        const body = this.matchIssuer(bodies, entry.issuer, entry.certificationBodyId);
+        return {
+          ...entry,
+          issuerRecognition: {
+            authority: authority.code,
+            market: authority.market,
+            recognized: Boolean(body?.recognitions.some(recognition => recognition.authority === authority.code && recognition.current)),
+            ...(body && { certificationBodyId: body.id })
+          }
+        };
+      }));
+    }
+    return checked;
+  }
+
+  private matchIssuer(bodies: CertificationBody[], issuer: string, certificationBodyId?: string): CertificationBody | undefined {
+    if (certificationBodyId) {
+      const linked = bodies.find(body => body.id === certificationBodyId);
+      if (linked) {
+        return linked;
+      }
+    }
+    const name = normalizeName(issuer);
+    return bodies.find(body =>
+      normalizeName(body.name) === name || body.aliases.some(alias => normalizeName(alias) === name)
+    );
+  }
+
+  private readCsv(content: string): ImportRow[] {
+    const [header, ...records] = parseCsv(content.replace(/^\uFEFF/, ''));
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.map(column => column.trim());
+    const unknown = columns.filter(column =>
+      !CSV_COLUMNS[column.toLowerCase().replace(/[\s_]/g, '')] && !isRecognitionAuthority(column.toUpperCase())
+    );
+    if (unknown.length > 0) {
+      throw directoryError(400, 'VALIDATION_ERROR', `Unknown CSV columns: ${unknown.join(', ')}`);
+    }
+    if (!columns.some(column => column.toLowerCase() === 'name')) {
+      throw directoryError(400, 'VALIDATION_ERROR', 'CSV needs a name column');
+    }
+
+    const authorities = columns.map(column => column.toUpperCase()).filter(isRecognitionAuthority);
+    return records.map(record => {
+      const request: Record<string, unknown> = { name: '' };
+      const recognitions: RecognitionRequest[] = [];
+      columns.forEach((column, index) => {
+        const value = (record[index] || '').trim();
+        const field = CSV_COLUMNS[column.toLowerCase().replace(/[\s_]/g, '')];
+        if (field === 'aliases' || field === 'standards') {
+          request[field] = value ? value.split(CSV_LIST_SEPARATOR).map(entry => entry.trim()).filter(Boolean) : [];
+        } else if (field) {
+          if (value || field === 'name') {
+            request[field] = value;
+          }
+        } else if (value) {
+          const date = toDateOnly(value);
+          recognitions.push({
+            authority: column.toUpperCase(),
+            ...(date ? { status: 'recognized' as const, validUntil: date } : { status: value.toLowerCase() as RecognitionStatus })
+          });
+        }
+      });
+      return {
+        request: { ...(request as unknown as CreateCertificationBodyRequest), recognitions },
+        authorities
+      };
+    });
+  }
+
+  private readJson(content: string): ImportRow[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw directoryError(400, 'VALIDATION_ERROR', 'content is not valid JSON');
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { bodies?: unknown })?.bodies;
+    if (!Array.isArray(list) || !list.every(entry => entry && typeof entry === 'object' && !Array.isArray(entry))) {
+      throw directoryError(400, 'VALIDATION_ERROR', 'JSON must be a list of certification bodies');
+    }
+    return list.map((request: CreateCertificationBodyRequest) => ({
+      request,
+      authorities: request.recognitions !== undefined ? RECOGNITION_AUTHORITIES.map(authority => authority.code) : []
+    }));
+  }
+
+  private async insertBody(client: PoolClient, userId: string, request: CreateCertificationBodyRequest): Promise<string> {
+    const result = await this.db.queryWithClient(client,
+      `INSERT INTO certification_bodies (
+         name, aliases, country, standards, accreditation, logo_url, website, status, updated_by
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING id`,
+      [
+        request.name.trim(),
+        (request.aliases || []).map(alias => alias.trim()),
+        request.country || '',
+        (request.standards || []).map(standard => standard.trim()),
+        request.accreditation || '',
+        request.logoUrl || null,
+        request.website || null,
+        request.status || 'active',
+        userId
+      ]
+    );
+    return result.rows[0].id;
+  }
+
+  private async updateBodyFields(
+    client: PoolClient,
+    userId: string,
+    bodyId: string,
+    request: Partial<CreateCertificationBodyRequest>
+  ): Promise<void> {
+    const sets: string[] = [];
+    const params: unknown[] = [bodyId, userId];
+    for (const [field, column] of Object.entries(BODY_FIELDS)) {
+      const value = request[field as keyof CreateCertificationBodyRequest];
+      if (value === undefined) {
+        continue;
+      }
+      params.push(field === 'name'
+        ? (value as string).trim()
+        : (field === 'logoUrl' || field === 'website') && !value ? null : value);
+      sets.push(`${column} = $${params.length}`);
+    }
+
+    await this.db.queryWithClient(client,
+      `UPDATE certification_bodies
+       SET ${[...sets, 'version = version + 1', 'updated_by = $2'].join(', ')}
+       WHERE id = $1`,
+      params
+    );
+  }
+
+  /**
+   * Record a change to the body's recognitions as a new version of the body
+   */
+  private async touchBody(client: PoolClient, userId: string, bodyId: string): Promise<void> {
+    await this.db.queryWithClient(client,
+      'UPDATE certification_bodies SET version = version + 1, updated_by = $2 WHERE id = $1',
+      [bodyId, userId]
+    );
+  }
+
+  /**
+   * Replace the body's recognitions by the given authorities
+   */
+  private async replaceRecognitions(
+    client: PoolClient,
+    bodyId: string,
+    recognitions: RecognitionRequest[],
+    authorities: string[]
+  ): Promise<void> {
+    if (authorities.length === 0) {
+      return;
+    }
+    await this.db.queryWithClient(client,
+      'DELETE FROM certification_body_recognitions WHERE certification_body_id = $1 AND authority = ANY($2::text[])',
+      [bodyId, authorities]
+    );
+    for (const recognition of recognitions.filter(entry => authorities.includes(entry.authority))) {
+      await this.db.queryWithClient(client,
+        `INSERT INTO certification_body_recognitions (certification_body_id, authority, status, valid_until, reference)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [
+          bodyId,
+          recognition.authority,
+          recognition.status || 'recognized',
+          recognition.validUntil ? toDateOnly(recognition.validUntil) : null,
+          recognition.reference || ''
+        ]
+      );
+    }
+  }
+
+  private async assertNameAvailable(client: PoolClient, name: string, bodyId?: string): Promise<void> {
+    const result = await this.db.queryWithClient(client,
+      'SELECT id FROM certification_bodies WHERE LOWER(name) = LOWER($1) AND ($2::uuid IS NULL OR id <> $2)',
+      [name.trim(), bodyId || null]
+    );
+    if (result.rows[0]) {
+      throw directoryError(409, 'CERTIFICATION_BODY_EXISTS', `${name.trim()} is already in the directory`);
+    }
+  }
+
+  private async lockBody(client: PoolClient, bodyId: string): Promise<{ version: number }> {
+    if (!UUID_PATTERN.test(bodyId)) {
+      throw directoryError(404, 'CERTIFICATION_BODY_NOT_FOUND', 'Certification body not found');
+    }
+    const result = await this.db.queryWithClient(client,
+      'SELECT version FROM certification_bodies WHERE id = $1 FOR UPDATE',
+      [bodyId]
+    );
+    if (!result.rows[0]) {
+      throw directoryError(404, 'CERTIFICATION_BODY_NOT_FOUND', 'Certification body not found');
+    }
+    return result.rows[0];
+  }
+
+  private async withRecognitions(rows: any[]): Promise<CertificationBody[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+    const recognitions = await this.db.query(
+      `SELECT * FROM certification_body_recognitions
+       WHERE certification_body_id = ANY($1::uuid[])
+       ORDER BY authority ASC`,
+      [rows.map(row => row.id)]
+    );
+    return rows.map(row => this.mapBodyRow(
+      row,
+      recognitions.rows.filter(recognition => recognition.certification_body_id === row.id)
+    ));
+  }
+
+  private validateBodyFields(request: Partial<CreateCertificationBodyRequest>): string[] {
+    const errors: string[] = [];
+    if (request.aliases !== undefined && !isTextList(request.aliases, MAX_NAME_LENGTH)) {
+      errors.push(`aliases must be a list of at most ${MAX_LIST_ENTRIES} names`);
+    }
+    if (request.country !== undefined && !isText(request.country, MAX_COUNTRY_LENGTH)) {
+      errors.push(`country must be at most ${MAX_COUNTRY_LENGTH} characters`);
+    }
+    if (request.standards !== undefined && !isTextList(request.standards, MAX_STANDARD_LENGTH)) {
+      errors.push(`standards must be a list of at most ${MAX_LIST_ENTRIES} standards`);
+    }
+    if (request.accreditation !== undefined && !isText(request.accreditation, MAX_NAME_LENGTH)) {
+      errors.push(`accreditation must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (request.logoUrl !== undefined && !isUrl(request.logoUrl)) {
+      errors.push('logoUrl must be an http(s) URL');
+    }
+    if (request.website !== undefined && !isUrl(request.website)) {
+      errors.push('website must be an http(s) URL');
+    }
+    if (request.status !== undefined && !CERTIFICATION_BODY_STATUSES.includes(request.status)) {
+      errors.push(`status must be one of ${CERTIFICATION_BODY_STATUSES.join(', ')}`);
+    }
+    if (request.recognitions !== undefined) {
+      if (!Array.isArray(request.recognitions) || !request.recognitions.every(entry => entry && typeof entry === 'object')) {
+        errors.push('recognitions must be a list');
+      } else {
+        const authorities = request.recognitions.map(recognition => recognition.authority);
+        if (new Set(authorities).size !== authorities.length) {
+          errors.push('recognitions must list each authority once');
+        }
+        errors.push(...request.recognitions.flatMap(recognition => this.validateRecognition(recognition)));
+      }
+    }
+    return errors;
+  }
+
+  private validateRecognition(request: RecognitionRequest): string[] {
+    const errors: string[] = [];
+    if (!isRecognitionAuthority(request.authority)) {
+      errors.push(`authority must be one of ${RECOGNITION_AUTHORITIES.map(authority => authority.code).join(', ')}`);
+    }
+    if (request.status !== undefined && !RECOGNITION_STATUSES.includes(request.status)) {
+      errors.push(`recognition status must be one of ${RECOGNITION_STATUSES.join(', ')}`);
+    }
+    if (request.validUntil !== undefined && request.validUntil !== null && !toDateOnly(request.validUntil)) {
+      errors.push('validUntil must be a date');
+    }
+    if (request.reference !== undefined && !isText(request.reference, MAX_REFERENCE_LENGTH)) {
+      errors.push(`reference must be at most ${MAX_REFERENCE_LENGTH} characters`);
+    }
+    return errors;
+  }
+
+  private mapBodyRow(row: any, recognitions: any[]): CertificationBody {
+    return {
+      id: row.id,
+      name: row.name,
+      aliases: row.aliases || [],
+      country: row.country,
+      standards: row.standards || [],
+      accreditation: row.accreditation,
+      ...(row.logo_url && { logoUrl: row.logo_url }),
+      ...(row.website && { website: row.website }),
+      status: row.status,
+      recognitions: recognitions.map(recognition => this.mapRecognitionRow(recognition, row.status)),
+      version: row.version,
+      ...(row.updated_by && { updatedBy: row.updated_by }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapRecognitionRow(row: any, bodyStatus: string): CertificationBodyRecognition {
+    const validUntil = toDateOnly(row.valid_until);
+    return {
+      authority: row.authority,
+      status: row.status,
+      ...(validUntil && { validUntil }),
+      reference: row.reference,
+      current: bodyStatus === 'active' && row.status === 'recognized' && (!validUntil || validUntil >= today()),
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * HalalCheck EU - Certification Rule Engine
+ *
+ * Applies declarative certification-standard rule sets (JAKIM, MUI, HFCE,
+ * GSO 993 and organization-defined CUSTOM standards) to ingredient analysis
+ * results and records every rule that fired.
+ */
+
+import { DatabaseService } from './databaseService';
+import { logger } from '@/utils/logger';
+import { CERTIFICATION_RULE_SETS, getBuiltInRuleSet } from '@/data/standards/certification-rules';
+import {
+  AppliedStandardRule,
+  CertificationRuleSet,
+  CertificationStandard,
+  HalalStatus,
+  IngredientAnalysis,
+  RiskLevel,
+  StandardRule
+} from '@/types/halal';
+
+export interface CustomRuleSetInput {
+  name: string;
+  version?: string;
+  extends?: string;
+  rules: StandardRule[];
+  isShared?: boolean;
+}
+
+export class CertificationRuleEngine {
+  private db: DatabaseService;
+
+  constructor(db?: DatabaseService) {
+    this.db = db || new DatabaseService();
+  }
+
+  /**
+   * Built-in rule sets, one per supported standard
+   */
+  getBuiltInRuleSets(): CertificationRuleSet[] {
+    return Object.values(CERTIFICATION_RULE_SETS);
+  }
+
+  /**
+   * Resolve the rule set for a standard. CUSTOM standards are loaded from
+   * the organization's rule sets or rule sets shared by a certification body.
+   */
+  async resolveRuleSet(
+    standard: string,
+    organizationId: string,
+    customRuleSetId?: string
+  ): Promise<CertificationRuleSet | null> {
+    if (standard !== CertificationStandard.CUSTOM) {
+      return getBuiltInRuleSet(standard) || null;
+    }
+
+    if (!customRuleSetId) {
+      return null;
+    }
+
+    const result = await this.db.query(
+      `SELECT * FROM certification_rule_sets
+       WHERE id = $1 AND (organization_id = $2 OR is_shared = TRUE)`,
+      [customRuleSetId, organizationId]
+    );
+
+    return result.rows[0] ? this.mapRuleSetRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Apply a rule set to analyzed ingredients. Rules run in order (inherited
+   * rules first); every matching rule fires and later rules win on status.
+   */
+  applyRuleSet(ingredients: IngredientAnalysis[], ruleSet: CertificationRuleSet): IngredientAnalysis[] {
+    const rules = this.expandRules(ruleSet);
+
+    return ingredients.map(ingredient => {
+      let result: IngredientAnalysis = { ...ingredient, warnings: [...ingredient.warnings], suggestions: [...ingredient.suggestions] };
+      const fired: AppliedStandardRule[] = [];
+
+      for (const { rule, standard } of rules) {
+        if (!this.matches(rule, result)) {
+          continue;
+        }
+
+        const previousStatus = result.status;
+        result = this.applyOutcome(result, rule);
+
+        fired.push({
+          ruleId: rule.id,
+          standard,
+          description: rule.description,
+          ...(rule.reference && { reference: rule.reference }),
+          previousStatus,
+          resultingStatus: result.status
+        });
+      }
+
+      if (fired.length === 0) {
+        return result;
+      }
+
+      logger.debug('Certification rules fired', {
+        ingredient: ingredient.detectedName,
+        standard: ruleSet.standard,
+        rules: fired.map(rule => rule.ruleId)
+      });
+
+      return { ...result, appliedRules: [...(ingredient.appliedRules || []), ...fired] };
+    });
+  }
+
+  /**
+   * Validate a custom rule set definition, returning a list of problems
+   */
+  validateRuleSet(input: CustomRuleSetInput): string[] {
+    const errors: string[] = [];
+    const statuses = Object.values(HalalStatus) as string[];
+    const riskLevels = Object.values(RiskLevel) as string[];
+
+    if (!input.name || typeof input.name !== 'string') {
+      errors.push('name is required');
+    }
+
+    if (input.extends !== undefined && !getBuiltInRuleSet(input.extends)) {
+      errors.push(`extends must be one of: ${Object.keys(CERTIFICATION_RULE_SETS).join(', ')}`);
+    }
+
+    if (!Array.isArray(input.rules)) {
+      errors.push('rules must be an array');
+      return errors;
+    }
+
+    const ids = new Set<string>();
+    input.rules.forEach((rule, index) => {
+      const label = `rules[${index}]`;
+      if (!rule || typeof rule !== 'object') {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+      if (!rule.id || ids.has(rule.id)) {
+        errors.push(`${label}.id must be present and unique`);
+      }
+      ids.add(rule.id);
+      if (!rule.description) {
+        errors.push(`${label}.description is required`);
+      }
+
+      const when = rule.when || {};
+      const hasCondition = [when.eNumbers, when.keywordGroups, when.categories, when.statuses]
+        .some(condition => Array.isArray(condition) && condition.length > 0);
+      if (!hasCondition) {
+        errors.push(`${label}.when needs at least one condition`);
+      }
+      if (when.keywordGroups && !when.keywordGroups.every(group => Array.isArray(group) && group.length > 0)) {
+        errors.push(`${label}.when.keywordGroups must be non-empty arrays of keywords`);
+      }
+      if (when.statuses && !when.statuses.every(status => statuses.includes(status))) {
+        errors.push(`${label}.when.statuses contains an unknown status`);
+      }
+      if (when.abovePercentage !== undefined && (typeof when.abovePercentage !== 'number' || when.abovePercentage < 0)) {
+        errors.push(`${label}.when.abovePercentage must be a non-negative number`);
+      }
+
+      const then = rule.then || {};
+      if (then.status !== undefined && !statuses.includes(then.status)) {
+        errors.push(`${label}.then.status must be one of: ${statuses.join(', ')}`);
+      }
+      if (then.riskLevel !== undefined && !riskLevels.includes(then.riskLevel)) {
+        errors.push(`${label}.then.riskLevel must be one of: ${riskLevels.join(', ')}`);
+      }
+      if (Object.keys(then).length === 0) {
+        errors.push(`${label}.then needs at least one outcome`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * List custom rule sets available to an organization
+   */
+  async listCustomRuleSets(organizationId: string): Promise<CertificationRuleSet[]> {
+    const result = await this.db.query(
+      `SELECT * FROM certification_rule_sets
+       WHERE organization_id = $1 OR is_shared = TRUE
+       ORDER BY name`,
+      [organizationId]
+    );
+
+    return result.rows.map(row => this.mapRuleSetRow(row));
+  }
+
+  /**
+   * Create a custom rule set owned by the organization
+   */
+  async createCustomRuleSet(
+    organizationId: string,
+    userId: string,
+    input: CustomRuleSetInput
+  ): Promise<CertificationRuleSet> {
+    const result = await this.db.query(
+      `INSERT INTO certification_rule_sets (
+        organization_id, name, version, extends_standard, rules, is_shared, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        organizationId,
+        input.name,
+        input.version || '1',
+        input.extends || null,
+        JSON.stringify(input.rules),
+        input.isShared || false,
+        userId
+      ]
+    );
+
+    return this.mapRuleSetRow(result.rows[0]);
+  }
+
+  /**
+   * Replace a custom rule set owned by the organization
+   */
+  async updateCustomRuleSet(
+    organizationId: string,
+    ruleSetId: string,
+    input: CustomRuleSetInput
+  ): Promise<CertificationRuleSet | null> {
+    const result = await this.db.query(
+      `UPDATE certification_rule_sets
+       SET name = $1, version = $2, extends_standard = $3, rules = $4, is_shared = $5
+       WHERE id = $6 AND organization_id = $7
+       RETURNING *`,
+      [
+        input.name,
+        input.version || '1',
+        input.extends || null,
+        JSON.stringify(input.rules),
+        input.isShared || false,
+        ruleSetId,
+        organizationId
+      ]
+    );
+
+    return result.rows[0] ? this.mapRuleSetRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Delete a custom rule set owned by the organization
+   */
+  async deleteCustomRuleSet(organizationId: string, ruleSetId: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM certification_rule_sets WHERE id = $1 AND organization_id = $2',
+      [ruleSetId, organizationId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  private expandRules(ruleSet: CertificationRuleSet): { rule: StandardRule; standard: string }[] {
+    const base = ruleSet.extends ? getBuiltInRuleSet(ruleSet.extends) : undefined;
+    const inherited = base ? base.rules.map(rule => ({ rule, standard: base.standard })) : [];
+    return [...inherited, ...ruleSet.rules.map(rule => ({ rule, standard: ruleSet.standard }))];
+  }
+
+  /**
+   * Keywords also match the compounds an ingredient belongs to, so "natural
+   * flavouring (alcohol)" fires flavouring-and-alcohol rules on the alcohol
+   */
+  private matches(rule: StandardRule, ingredient: IngredientAnalysis): boolean {
+    const { when } = rule;
+    const own = [
+      ingredient.detectedName,
+      ingredient.standardName,
+      ...ingredient.eNumbers,
+      ...ingredient.categories
+    ].join(' | ').toLowerCase();
+    const haystack = [...(ingredient.path || []).slice(0, -1), own].join(' | ').toLowerCase();
+
+    if (when.statuses && !when.statuses.includes(ingredient.status)) {
+      return false;
+    }
+
+    if (when.abovePercentage !== undefined &&
+      (ingredient.percentage === undefined || ingredient.percentage <= when.abovePercentage)) {
+      return false;
+    }
+
+    if (when.eNumbers) {
+      const eNumbers = ingredient.eNumbers.map(eNumber => eNumber.toUpperCase());
+      if (!when.eNumbers.some(eNumber => eNumbers.includes(eNumber.toUpperCase()))) {
+        return false;
+      }
+    }
+
+    if (when.categories) {
+      const categories = ingredient.categories.map(category => category.toLowerCase());
+      if (!when.categories.some(category => categories.includes(category.toLowerCase()))) {
+        return false;
+      }
+    }
+
+    if (when.keywordGroups) {
+      const matchesGroup = (text: string) => (group: string[]) => group.some(keyword => this.containsWord(text, keyword));
+      if (!when.keywordGroups.every(matchesGroup(haystack)) || !when.keywordGroups.some(matchesGroup(own))) {
+        return false;
+      }
+    }
+
+    if (when.excludeKeywords && when.excludeKeywords.some(keyword => this.containsWord(haystack, keyword))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private applyOutcome(ingredient: IngredientAnalysis, rule: StandardRule): IngredientAnalysis {
+    const { then } = rule;
+    const result = { ...ingredient };
+
+    if (then.status) {
+      result.status = then.status;
+    }
+    if (then.riskLevel) {
+      result.riskLevel = then.riskLevel;
+    }
+    if (then.requiresExpertReview !== undefined) {
+      result.requiresExpertReview = result.requiresExpertReview || then.requiresExpertReview;
+    }
+    if (then.warning) {
+      result.warnings = [...result.warnings, then.warning];
+    }
+    if (then.suggestion) {
+      result.suggestions = [...result.suggestions, then.suggestion];
+    }
+
+    return result;
+  }
+
+  private containsWord(haystack: string, keyword: string): boolean {
+    const escaped = keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}`, 'u').test(haystack);
+  }
+
+  private mapRuleSetRow(row: any): CertificationRuleSet {
+    return {
+      id: row.id,
+      standard: CertificationStandard.CUSTOM,
+      name: row.name,
+      version: row.version,
+      ...(row.extends_standard && { extends: row.extends_standard }),
+      rules: row.rules || []
+    };
+  }
+}
@@ -17,11 +17,15 @@ import {
   OrganizationType,
   SubscriptionPlan 
 } from '@/types/auth';
-import { Ingredient } from '@/types/halal';
+import { Ingredient, IngredientMatch } from '@/types/halal';
+import { IngredientSynonymIndex } from './ingredientSynonymIndex';
+import { CORE_INGREDIENTS } from '@/data/ingredients/core-ingredients';
+import { E_NUMBERS_COMPLETE } from '@/data/ingredients/e-numbers-complete';
 
 export class DatabaseService {
   private pool: Pool;
   private static instance: DatabaseService;
+  private static synonymIndex: IngredientSynonymIndex;
 
   constructor() {
     this.pool = new Pool({
@@ -52,6 +56,16 @@ export class DatabaseService {
     return DatabaseService.instance;
   }
 
+  /**
+   * Multilingual synonym index over the built-in ingredient knowledge base
+   */
+  static getSynonymIndex(): IngredientSynonymIndex {
+    if (!DatabaseService.synonymIndex) {
+      DatabaseService.synonymIndex = new IngredientSynonymIndex([...CORE_INGREDIENTS, ...E_NUMBERS_COMPLETE]);
+    }
+    return DatabaseService.synonymIndex;
+  }
+
   /**
    * Execute a query with parameters
    */
@@ -187,8 +201,8 @@ export class DatabaseService {
    */
   async findUserByEmail(email: string): Promise<User | null> {
     const query = 'SELECT * FROM users WHERE email = $1';
-    const result = await this.query<User>(query, [email]);
-    return result.rows[0] || null;
+    const result = await this.query(query, [email]);
+    return result.rows[0] ? this.fromRow<User>(result.rows[0]) : null;
   }
 
   /**
@@ -201,8 +215,8 @@ export class DatabaseService {
       LEFT JOIN organizations o ON u.organization_id = o.id
       WHERE u.id = $1
     `;
-    const result = await this.query<User>(query, [id]);
-    return result.rows[0] || null;
+    const result = await this.query(query, [id]);
+    return result.rows[0] ? this.fromRow<User>(result.rows[0]) : null;
   }
 
   /**
@@ -210,8 +224,8 @@ export class DatabaseService {
    */
   async findUserByEmailVerificationToken(token: string): Promise<User | null> {
     const query = 'SELECT * FROM users WHERE email_verification_token = $1';
-    const result = await this.query<User>(query, [token]);
-    return result.rows[0] || null;
+    const result = await this.query(query, [token]);
+    return result.rows[0] ? this.fromRow<User>(result.rows[0]) : null;
   }
 
   /**
@@ -274,16 +288,65 @@ export class DatabaseService {
    */
   async findOrganizationById(id: string): Promise<Organization | null> {
     const query = 'SELECT * FROM organizations WHERE id = $1';
-    const result = await this.query<Organization>(query, [id]);
-    return result.rows[0] || null;
+    const result = await this.query(query, [id]);
+    return result.rows[0] ? this.fromRow<Organization>(result.rows[0]) : null;
   }
 
   // ===== INGREDIENT MANAGEMENT =====
 
   /**
-   * Find ingredient by name (fuzzy search)
+   * Find ingredient by name in any supported label language
+   */
+  async findIngredientByName(name: string, language?: string): Promise<Ingredient | null> {
+    const match = await this.matchIngredientByName(name, language);
+    return match ? match.ingredient : null;
+  }
+
+  /**
+   * Resolve a label term to a stored ingredient with a match confidence:
+   * stored names and translations first, then the synonym index, then
+   * English full-text search
    */
-  async findIngredientByName(name: string): Promise<Ingredient | null> {
+  async matchIngredientByName(name: string, language?: string): Promise<IngredientMatch | null> {
+    const searchTerm = name.trim();
+
+    const exact = await this.query<Ingredient>(`
+      SELECT i.* FROM ingredients i
+      WHERE LOWER(i.name) = LOWER($1)
+      OR $1 = ANY(i.alternative_names)
+      OR EXISTS (
+        SELECT 1 FROM ingredient_translations t
+        WHERE t.ingredient_id = i.id AND LOWER(t.name) = LOWER($1)
+      )
+      LIMIT 1
+    `, [searchTerm]);
+
+    if (exact.rows[0]) {
+      return { ingredient: exact.rows[0], matchedTerm: searchTerm, confidence: 1 };
+    }
+
+    const synonym = DatabaseService.getSynonymIndex().lookup(searchTerm, language);
+    if (synonym) {
+      const resolved = await this.query<Ingredient>(
+        'SELECT * FROM ingredients WHERE LOWER(name) = LOWER($1) OR e_number = $2 LIMIT 1',
+        [synonym.canonicalName, synonym.eNumber || null]
+      );
+
+      if (resolved.rows[0]) {
+        return {
+          ingredient: resolved.rows[0],
+          matchedTerm: synonym.matchedTerm,
+          language: synonym.language,
+          confidence: synonym.confidence
+        };
+      }
+    }
+
+    const fuzzy = await this.fuzzyFindIngredient(searchTerm);
+    return fuzzy ? { ingredient: fuzzy, matchedTerm: searchTerm, confidence: 0.6 } : null;
+  }
+
+  private async fuzzyFindIngredient(searchTerm: string): Promise<Ingredient | null> {
     const query = `
       SELECT * FROM ingredients 
       WHERE name ILIKE $1 
@@ -298,7 +361,6 @@ export class DatabaseService {
       LIMIT 1
     `;
     
-    const searchTerm = name.trim();
     const result = await this.query<Ingredient>(query, [
       `%${searchTerm}%`,
       searchTerm,
@@ -431,6 +493,12 @@ export class DatabaseService {
     return {
       id: row.id,
       productName: row.product_name,
+      ingredientText: row.ingredient_text,
+      language: row.language,
+      region: row.region,
+      certificationStandard: row.certification_standard,
+      ...(row.custom_rule_set_id && { customRuleSetId: row.custom_rule_set_id }),
+      ...(row.madhab && { madhab: row.madhab }),
       ingredients: row.ingredients.filter(i => i.ingredientId !== null),
       overallStatus: row.overall_status,
       overallRiskLevel: row.overall_risk_level,
@@ -446,6 +514,10 @@ export class DatabaseService {
       },
       recommendations: row.recommendations,
       expertReviewRequired: row.expert_review_required,
+      ...(row.standard_verdicts && { standardVerdicts: row.standard_verdicts }),
+      ...(row.provenance && { provenance: row.provenance }),
+      userId: row.analyzed_by,
+      organizationId: row.organization_id,
       analyzedAt: row.created_at,
       analyzedBy: row.analyzed_by,
       processingTimeMs: row.processing_time_ms
@@ -474,29 +546,6 @@ export class DatabaseService {
     return result.rows.length > 0;
   }
 
-  /**
-   * Store report metadata
-   */
-  async storeReport(reportId: string, reportData: any): Promise<void> {
-    const query = `
-      INSERT INTO reports (
-        id, product_analysis_id, type, format, language, 
-        generated_by, organization_id, file_path
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-    `;
-
-    await this.query(query, [
-      reportId,
-      reportData.analysisId,
-      reportData.type,
-      reportData.format,
-      reportData.language,
-      reportData.userId,
-      reportData.organizationId,
-      `reports/${reportId}.${reportData.format.toLowerCase()}`
-    ]);
-  }
-
   // ===== UTILITY METHODS =====
 
   /**
@@ -506,6 +555,15 @@ export class DatabaseService {
     return str.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
   }
 
+  /**
+   * Map a row to its model, converting snake_case columns to camelCase
+   */
+  private fromRow<T>(row: Record<string, any>): T {
+    return Object.fromEntries(
+      Object.entries(row).map(([column, value]) => [column.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase()), value])
+    ) as unknown as T;
+  }
+
   /**
    * Health check
    */
@@ -5,6 +5,12 @@
  */
 
 import { logger } from '@/utils/logger';
+import { Certificate } from '@/types/certificates';
+import { WorkflowTask } from '@/types/workflows';
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, character => `&#${character.charCodeAt(0)};`);
+}
 
 export class EmailService {
   private readonly fromEmail: string;
@@ -200,6 +206,84 @@ export class EmailService {
     await this.sendEmail(email, `Analysis Complete: ${productName}`, html);
   }
 
+  /**
+   * Send a digest of certificates approaching expiry
+   */
+  async sendCertificateExpiryReminder(email: string, daysBefore: number, certificates: Certificate[]): Promise<void> {
+    const rows = certificates.map(certificate => `
+          <tr>
+            <td style="padding: 8px; border-bottom: 1px solid #eee;">${escapeHtml(certificate.certificateNumber)}</td>
+            <td style="padding: 8px; border-bottom: 1px solid #eee;">${escapeHtml(certificate.productName)}</td>
+            <td style="padding: 8px; border-bottom: 1px solid #eee;">${new Date(certificate.validUntil).toISOString().slice(0, 10)}</td>
+          </tr>`).join('');
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #f59e0b;">Certificates Expiring Within ${daysBefore} Days</h2>
+        <p>The following ${certificates.length === 1 ? 'certificate expires' : `${certificates.length} certificates expire`} within ${daysBefore} days. Renew them to keep their QR verification valid.</p>
+
+        <table style="width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 14px;">
+          <tr style="background-color: #f9fafb; text-align: left;">
+            <th style="padding: 8px;">Certificate</th>
+            <th style="padding: 8px;">Product</th>
+            <th style="padding: 8px;">Valid until</th>
+          </tr>${rows}
+        </table>
+
+        <a href="${process.env.FRONTEND_URL}/dashboard/certificates" style="background-color: #22c55e; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; margin: 16px 0;">
+          Manage Certificates
+        </a>
+
+        <hr style="margin: 32px 0; border: none; border-top: 1px solid #eee;">
+        <p style="color: #999; font-size: 12px;">
+          HalalCheck EU - Professional Halal Certification Platform<br>
+          This is an automated message, please do not reply.
+        </p>
+      </div>
+    `;
+
+    await this.sendEmail(email, `${certificates.length} certificate(s) expiring within ${daysBefore} days`, html);
+  }
+
+  /**
+   * Send a digest of workflow tasks that are past their due time
+   */
+  async sendWorkflowTaskEscalation(email: string, tasks: WorkflowTask[]): Promise<void> {
+    const rows = tasks.map(task => `
+          <tr>
+            <td style="padding: 8px; border-bottom: 1px solid #eee;">${escapeHtml(task.title)}</td>
+            <td style="padding: 8px; border-bottom: 1px solid #eee;">${task.status === 'CLAIMED' ? 'In progress' : 'Unclaimed'}</td>
+            <td style="padding: 8px; border-bottom: 1px solid #eee;">${task.escalationLevel}</td>
+          </tr>`).join('');
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #dc2626;">Overdue Workflow Tasks</h2>
+        <p>The following ${tasks.length === 1 ? 'task has' : `${tasks.length} tasks have`} not been decided within the stage's estimated duration.</p>
+
+        <table style="width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 14px;">
+          <tr style="background-color: #f9fafb; text-align: left;">
+            <th style="padding: 8px;">Task</th>
+            <th style="padding: 8px;">Status</th>
+            <th style="padding: 8px;">Escalation</th>
+          </tr>${rows}
+        </table>
+
+        <a href="${process.env.FRONTEND_URL}/dashboard/tasks" style="background-color: #22c55e; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; margin: 16px 0;">
+          Open Task Inbox
+        </a>
+
+        <hr style="margin: 32px 0; border: none; border-top: 1px solid #eee;">
+        <p style="color: #999; font-size: 12px;">
+          HalalCheck EU - Professional Halal Certification Platform<br>
+          This is an automated message, please do not reply.
+        </p>
+      </div>
+    `;
+
+    await this.sendEmail(email, `${tasks.length} workflow task(s) overdue`, html);
+  }
+
   /**
    * Core email sending function
    */
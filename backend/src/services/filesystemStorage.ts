@@ -0,0 +1,51 @@
+/**
+ * HalalCheck EU - Filesystem Object Storage
+ *
+ * Stores objects as files under STORAGE_DIR (default ./storage). Writes go
+ * to a temporary file first so a crash never leaves a partial object.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ObjectStorage, StorageBackendName, isValidObjectKey } from './objectStorage';
+
+export class FilesystemStorage implements ObjectStorage {
+  readonly name: StorageBackendName = 'filesystem';
+  private root: string;
+
+  constructor(root?: string) {
+    this.root = path.resolve(root || process.env.STORAGE_DIR || './storage');
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    const temporary = `${file}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, file);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    if (!isValidObjectKey(key)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return path.join(this.root, ...key.split('/'));
+  }
+}
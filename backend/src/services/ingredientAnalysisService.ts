@@ -1,31 +1,86 @@
 /**
  * HalalCheck EU - Ingredient Analysis Service
  * 
- * Core AI-powered halal ingredient analysis using OpenAI GPT-4
+ * Core AI-powered halal ingredient analysis using a pluggable LLM provider
  * Religious precision with expert-verified ingredient database
  */
 
-import OpenAI from 'openai';
 import { DatabaseService } from './databaseService';
+import { LLMProvider, getLLMProviderForOrganization, hashPrompts } from './llmProvider';
+import { ScholarlyConsensusService, getMadhabForOrganization } from './scholarlyConsensusService';
+import { CertificationRuleEngine } from './certificationRuleEngine';
+import { RegionalVariationService } from './regionalVariationService';
+import { FlattenedIngredient, IngredientLabelParser } from './ingredientLabelParser';
+import { KnowledgeBaseService } from './knowledgeBaseService';
+import { SupplierService } from './supplierService';
+import { CertificationBodyService, authorityForStandard } from './certificationBodyService';
 import { logger } from '@/utils/logger';
 import { 
   AnalysisRequest, 
   ProductAnalysis, 
   IngredientAnalysis, 
+  IngredientTaint,
+  ParsedIngredient,
   HalalStatus, 
-  RiskLevel 
+  RiskLevel,
+  Madhab,
+  CertificationStandard,
+  CertificationRuleSet,
+  StandardVerdict,
+  KnowledgeBasePin,
+  PinnedIngredient,
+  ResolvedRegionalVariation,
+  SupplierEvidence,
+  PROVENANCE_MANIFEST_VERSION
 } from '@/types/halal';
 import { v4 as uuidv4 } from 'uuid';
 
+const MAX_INGREDIENT_NODES = 200;
+const MIN_SYNONYM_CONFIDENCE = 0.7;
+
+// Higher is worse; used to propagate sub-ingredient verdicts to their compound
+const STATUS_SEVERITY: Record<HalalStatus, number> = {
+  [HalalStatus.HALAL]: 0,
+  [HalalStatus.UNCERTAIN]: 1,
+  [HalalStatus.REQUIRES_REVIEW]: 2,
+  [HalalStatus.MASHBOOH]: 3,
+  [HalalStatus.HARAM]: 4
+};
+
+const RISK_ORDER: RiskLevel[] = [
+  RiskLevel.VERY_LOW,
+  RiskLevel.LOW,
+  RiskLevel.MEDIUM,
+  RiskLevel.HIGH,
+  RiskLevel.VERY_HIGH
+];
+
 export class IngredientAnalysisService {
-  private openai: OpenAI;
+  private provider?: LLMProvider;
   private db: DatabaseService;
+  private consensusService: ScholarlyConsensusService;
+  private ruleEngine: CertificationRuleEngine;
+  private regionalVariations: RegionalVariationService;
+  private labelParser: IngredientLabelParser;
+  private knowledgeBase: KnowledgeBaseService;
+  private supplierService: SupplierService;
+  private certificationBodies: CertificationBodyService;
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
+  /**
+   * @param provider Fixed LLM provider; when omitted the organization's configured provider is used
+   */
+  constructor(provider?: LLMProvider) {
+    if (provider) {
+      this.provider = provider;
+    }
     this.db = new DatabaseService();
+    this.consensusService = new ScholarlyConsensusService();
+    this.ruleEngine = new CertificationRuleEngine(this.db);
+    this.regionalVariations = new RegionalVariationService(this.db);
+    this.labelParser = new IngredientLabelParser();
+    this.knowledgeBase = new KnowledgeBaseService(this.db);
+    this.supplierService = new SupplierService(this.db);
+    this.certificationBodies = new CertificationBodyService(this.db);
   }
 
   /**
@@ -43,66 +98,67 @@ export class IngredientAnalysisService {
         organizationId: request.organizationId
       });
 
-      // Step 1: Parse ingredient list using OpenAI
-      const parsedIngredients = await this.parseIngredientList(request.ingredientText, request.language);
+      const provider = this.provider || await getLLMProviderForOrganization(request.organizationId, this.db);
+      const madhab = request.madhab || await getMadhabForOrganization(request.organizationId, this.db);
 
-      // Step 2: Analyze each ingredient for halal compliance
-      const ingredientAnalyses = await this.analyzeIndividualIngredients(
-        parsedIngredients, 
+      logger.debug('Using LLM provider', {
+        analysisId,
+        provider: provider.name,
+        model: provider.model,
+        madhab
+      });
+
+      // Step 1: Parse ingredient list into a compound ingredient tree
+      const parsedIngredients = await this.parseIngredientList(provider, request.ingredientText, request.language);
+
+      // Step 2: Analyze each ingredient, including sub-ingredients, for halal compliance
+      const { analyses, pinned: analyzed } = await this.analyzeIndividualIngredients(
+        provider,
+        parsedIngredients,
         request.language,
         request.region,
         request.certificationStandard
       );
 
-      // Step 3: Generate overall product assessment
-      const overallAssessment = this.generateOverallAssessment(ingredientAnalyses);
-
-      // Step 4: Generate recommendations
-      const recommendations = this.generateRecommendations(ingredientAnalyses, request.language);
-
-      // Step 5: Categorize critical findings
-      const criticalFindings = this.categorizeCriticalFindings(ingredientAnalyses);
+      // Step 2a: Resolve the certification standard's rule set and comparison standards
+      const ruleSet = await this.ruleEngine.resolveRuleSet(
+        request.certificationStandard,
+        request.organizationId,
+        request.customRuleSetId
+      );
+      if (!ruleSet && request.certificationStandard === CertificationStandard.CUSTOM) {
+        throw new Error('Custom certification rule set not found');
+      }
+      const comparisonRuleSets = await this.resolveComparisonRuleSets(
+        request.compareStandards || [],
+        request.organizationId
+      );
 
-      // Step 6: Create comprehensive analysis result
-      const analysis: ProductAnalysis = {
-        id: analysisId,
-        productName: request.productName,
-        ingredientText: request.ingredientText,
-        language: request.language,
-        region: request.region,
-        certificationStandard: request.certificationStandard,
-        
-        // Overall assessment
-        overallStatus: overallAssessment.status,
-        overallRiskLevel: overallAssessment.riskLevel,
-        
-        // Individual ingredient results
-        ingredients: ingredientAnalyses,
-        
-        // Summary statistics
-        summary: {
-          total_ingredients: ingredientAnalyses.length,
-          halal_count: ingredientAnalyses.filter(ing => ing.status === HalalStatus.HALAL).length,
-          haram_count: ingredientAnalyses.filter(ing => ing.status === HalalStatus.HARAM).length,
-          mashbooh_count: ingredientAnalyses.filter(ing => ing.status === HalalStatus.MASHBOOH).length,
-          uncertain_count: ingredientAnalyses.filter(ing => ing.status === HalalStatus.UNCERTAIN).length
+      // Step 2b: Supplier certificates covering the registered raw materials of each ingredient,
+      // with their issuers checked against the export market's recognized certification bodies
+      const exportMarket = request.exportMarket || authorityForStandard(request.certificationStandard)?.code;
+      const { evidence, pinned } = await this.resolveSupplierEvidence(request.organizationId, analyses, analyzed, exportMarket);
+
+      // Steps 3-6: Madhab rulings, rule sets, overall assessment and recommendations
+      const analysis = await this.buildProductAnalysis(analysisId, request, madhab, analyses, evidence, ruleSet, comparisonRuleSets);
+      analysis.provenance = {
+        manifestVersion: PROVENANCE_MANIFEST_VERSION,
+        provider: {
+          name: provider.name,
+          model: provider.model,
+          promptHash: hashPrompts(...provider.getPrompts({
+            language: request.language,
+            region: request.region,
+            certificationStandard: request.certificationStandard
+          }))
         },
-        
-        // Critical findings
-        haram_ingredients: criticalFindings.haram,
-        mashbooh_ingredients: criticalFindings.mashbooh,
-        requires_expert_review: criticalFindings.requiresReview,
-        
-        // Recommendations and expert review
-        recommendations,
-        expertReviewRequired: overallAssessment.requiresExpertReview,
-        
-        // Metadata
-        userId: request.userId,
-        organizationId: request.organizationId,
-        analyzedAt: new Date(),
-        processingTimeMs: Date.now() - startTime
+        ingredients: pinned,
+        ...(ruleSet && { ruleSet }),
+        comparisonRuleSets,
+        ...(exportMarket && { exportMarket }),
+        createdAt: new Date()
       };
+      analysis.processingTimeMs = Date.now() - startTime;
 
       // Step 7: Save analysis to database
       await this.saveAnalysisToDatabase(analysis);
@@ -129,114 +185,325 @@ export class IngredientAnalysisService {
   }
 
   /**
-   * Parse ingredient list using OpenAI GPT-4
+   * Replay a stored analysis from its provenance manifest; the result is not
+   * saved. By default the pinned knowledge-base versions, regional rulings,
+   * supplier certificates and rule sets are used, reproducing the stored
+   * verdict. With `current`, they are re-resolved from current data so the
+   * two replays can be diffed. The
+   * parsed ingredient tree and provider classifications stay pinned in both.
    */
-  private async parseIngredientList(ingredientText: string, language: string): Promise<string[]> {
-    const systemPrompt = `You are an expert ingredient parser for halal food certification. Your task is to extract and standardize ingredient names from product labels.
+  async replayAnalysis(stored: ProductAnalysis, options: { current?: boolean } = {}): Promise<ProductAnalysis> {
+    const provenance = stored.provenance;
+    if (!provenance) {
+      throw new Error('Analysis has no provenance manifest to replay');
+    }
+
+    const request: AnalysisRequest = {
+      productName: stored.productName,
+      ingredientText: stored.ingredientText,
+      language: stored.language,
+      region: stored.region,
+      certificationStandard: stored.certificationStandard,
+      ...(stored.customRuleSetId && { customRuleSetId: stored.customRuleSetId }),
+      compareStandards: provenance.comparisonRuleSets.map(ruleSet => ruleSet.standard),
+      ...(provenance.exportMarket && { exportMarket: provenance.exportMarket }),
+      userId: stored.userId,
+      organizationId: stored.organizationId
+    };
 
-INSTRUCTIONS:
-1. Parse the ingredient list and extract individual ingredient names
-2. Standardize ingredient names (e.g., "E471" not "emulsifier E471")
-3. Separate compound ingredients when possible
-4. Remove quantity indicators, percentages, and non-ingredient text
-5. Return ONLY ingredient names, one per line
-6. Use standard English names regardless of input language
-7. If you see E-numbers, keep them as "E123" format
+    const replayed = options.current
+      ? await this.replayWithCurrentData(provenance.ingredients, request)
+      : await this.replayWithPinnedData(provenance.ingredients);
+    const { analyses } = replayed;
+    const exportMarket = options.current
+      ? request.exportMarket || authorityForStandard(request.certificationStandard)?.code
+      : provenance.exportMarket;
+    const { evidence, pinned } = options.current
+      ? await this.resolveSupplierEvidence(request.organizationId, analyses, replayed.pinned, exportMarket)
+      : {
+        evidence: new Map(replayed.pinned.flatMap(pin => pin.supplierEvidence ? [[pin.nodeId, pin.supplierEvidence] as const] : [])),
+        pinned: replayed.pinned
+      };
 
-INPUT LANGUAGE: ${language}
-REGION CONTEXT: Focus on ingredients commonly found in European/Middle Eastern products
+    const ruleSet = options.current
+      ? await this.ruleEngine.resolveRuleSet(request.certificationStandard, request.organizationId, request.customRuleSetId)
+      : provenance.ruleSet || null;
+    const comparisonRuleSets = options.current
+      ? await this.resolveComparisonRuleSets(request.compareStandards || [], request.organizationId)
+      : provenance.comparisonRuleSets;
+
+    const replay = await this.buildProductAnalysis(stored.id, request, stored.madhab, analyses, evidence, ruleSet, comparisonRuleSets);
+    replay.provenance = {
+      ...provenance,
+      ingredients: pinned,
+      ...(ruleSet && { ruleSet }),
+      comparisonRuleSets,
+      ...(exportMarket && { exportMarket })
+    };
 
-Return ingredients separated by newlines, nothing else.`;
+    return replay;
+  }
+
+  /**
+   * Madhab rulings, certification rule sets, overall assessment and
+   * recommendations for analyzed ingredients
+   */
+  private async buildProductAnalysis(
+    analysisId: string,
+    request: AnalysisRequest,
+    madhab: Madhab | undefined,
+    generalAnalyses: IngredientAnalysis[],
+    supplierEvidence: Map<string, SupplierEvidence[]>,
+    ruleSet: CertificationRuleSet | null,
+    comparisonRuleSets: CertificationRuleSet[]
+  ): Promise<ProductAnalysis> {
+    // Step 3: Attach scholarly consensus and follow the selected madhab
+    const madhabAnalyses = await this.applyMadhabRulings(generalAnalyses, madhab);
+
+    // Step 3a: Apply the certification standard's rule set, then let supplier certificates
+    // resolve the remaining doubt; sub-ingredient verdicts taint their compounds
+    const ingredientAnalyses = this.propagateCompoundStatus(this.supplierService.applyEvidence(ruleSet
+      ? this.ruleEngine.applyRuleSet(madhabAnalyses, ruleSet)
+      : madhabAnalyses, supplierEvidence));
+
+    // Step 3b: Verdicts under additional standards for comparison
+    const standardVerdicts = this.evaluateStandards(madhabAnalyses, supplierEvidence, comparisonRuleSets);
+
+    // Step 4: Generate overall product assessment
+    const overallAssessment = this.generateOverallAssessment(ingredientAnalyses);
+
+    // Step 5: Generate recommendations
+    const recommendations = this.generateRecommendations(ingredientAnalyses, request.language);
+
+    // Step 6: Categorize critical findings
+    const criticalFindings = this.categorizeCriticalFindings(ingredientAnalyses);
+
+    return {
+      id: analysisId,
+      productName: request.productName,
+      ingredientText: request.ingredientText,
+      language: request.language,
+      region: request.region,
+      certificationStandard: request.certificationStandard,
+      ...(request.customRuleSetId && { customRuleSetId: request.customRuleSetId }),
+      ...(madhab && { madhab }),
+      
+      // Overall assessment
+      overallStatus: overallAssessment.status,
+      overallRiskLevel: overallAssessment.riskLevel,
+      
+      // Individual ingredient results
+      ingredients: ingredientAnalyses,
+      
+      // Summary statistics
+      summary: {
+        total_ingredients: ingredientAnalyses.length,
+        halal_count: ingredientAnalyses.filter(ing => ing.status === HalalStatus.HALAL).length,
+        haram_count: ingredientAnalyses.filter(ing => ing.status === HalalStatus.HARAM).length,
+        mashbooh_count: ingredientAnalyses.filter(ing => ing.status === HalalStatus.MASHBOOH).length,
+        uncertain_count: ingredientAnalyses.filter(ing => ing.status === HalalStatus.UNCERTAIN).length
+      },
+      
+      // Critical findings
+      haram_ingredients: criticalFindings.haram,
+      mashbooh_ingredients: criticalFindings.mashbooh,
+      requires_expert_review: criticalFindings.requiresReview,
+      
+      // Recommendations and expert review
+      recommendations,
+      expertReviewRequired: overallAssessment.requiresExpertReview,
+      ...(standardVerdicts.length > 0 && { standardVerdicts }),
+      
+      // Metadata
+      userId: request.userId,
+      organizationId: request.organizationId,
+      analyzedAt: new Date(),
+      processingTimeMs: 0
+    };
+  }
+
+  /**
+   * Parse the ingredient list into a flattened compound ingredient tree.
+   * Providers without a tree parser return entries that are expanded by the
+   * label parser; the label parser alone is the fallback.
+   */
+  private async parseIngredientList(
+    provider: LLMProvider,
+    ingredientText: string,
+    language: string
+  ): Promise<FlattenedIngredient[]> {
+    let tree: ParsedIngredient[];
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: `Parse these ingredients: ${ingredientText}` }
-        ],
-        temperature: 0.1,
-        max_tokens: 1000
-      });
+      tree = provider.parseIngredientTree
+        ? await provider.parseIngredientTree(ingredientText, language)
+        : (await provider.parseIngredients(ingredientText, language)).flatMap(entry => this.labelParser.parse(entry));
 
-      const parsedText = response.choices[0]?.message?.content?.trim();
-      if (!parsedText) {
-        throw new Error('No ingredients parsed from OpenAI response');
+      if (tree.length === 0) {
+        throw new Error(`No ingredients parsed by ${provider.name} provider`);
       }
 
-      const ingredients = parsedText
-        .split('\n')
-        .map(ing => ing.trim())
-        .filter(ing => ing.length > 0 && !ing.match(/^\d+\.?\s*$/)) // Remove numbering
-        .slice(0, 50); // Limit to 50 ingredients for safety
-
-      logger.debug('Ingredients parsed by OpenAI', {
+      logger.debug('Ingredients parsed by LLM provider', {
+        provider: provider.name,
         originalText: ingredientText.substring(0, 200),
-        parsedCount: ingredients.length,
-        parsedIngredients: ingredients
+        parsedCount: tree.length,
+        parsedIngredients: tree.map(node => node.name)
       });
 
-      return ingredients;
-
     } catch (error) {
-      logger.error('OpenAI ingredient parsing failed', {
+      logger.error('LLM ingredient parsing failed', {
+        provider: provider.name,
         error: error.message,
         ingredientText: ingredientText.substring(0, 200)
       });
       
-      // Fallback: simple splitting
-      return ingredientText
-        .split(/[,;]/)
-        .map(ing => ing.trim())
-        .filter(ing => ing.length > 0)
-        .slice(0, 50);
+      // Fallback: deterministic label grammar
+      tree = this.labelParser.parse(ingredientText);
     }
+
+    const nodes = this.labelParser.flatten(tree);
+    if (nodes.length > MAX_INGREDIENT_NODES) {
+      logger.warn('Ingredient tree truncated', {
+        nodeCount: nodes.length,
+        limit: MAX_INGREDIENT_NODES
+      });
+    }
+
+    return nodes.slice(0, MAX_INGREDIENT_NODES); // Limit for safety
+  }
+
+  /**
+   * Record each analysis' position in the compound ingredient tree
+   */
+  private attachTreePositions(analyses: IngredientAnalysis[], nodes: FlattenedIngredient[]): IngredientAnalysis[] {
+    return analyses.map((analysis, index) => {
+      const node = nodes[index];
+      if (!node) {
+        return analysis;
+      }
+
+      return {
+        ...analysis,
+        nodeId: node.nodeId,
+        ...(node.parentId && { parentId: node.parentId }),
+        path: node.path,
+        ...(node.percentage !== undefined && { percentage: node.percentage }),
+        ...(node.functionalClass && { functionalClass: node.functionalClass })
+      };
+    });
   }
 
   /**
-   * Analyze individual ingredients for halal compliance
+   * Propagate sub-ingredient verdicts to their compound ingredients, deepest first.
+   * A compound that could not be classified by name takes its sub-ingredients'
+   * verdict; otherwise the worse verdict wins and the offending paths are recorded.
+   */
+  private propagateCompoundStatus(ingredients: IngredientAnalysis[]): IngredientAnalysis[] {
+    const results = [...ingredients];
+
+    for (let index = results.length - 1; index >= 0; index--) {
+      const compound = results[index]!;
+      const children = results.filter(child => compound.nodeId && child.parentId === compound.nodeId);
+      if (children.length === 0) {
+        continue;
+      }
+
+      const worst = children.reduce((a, b) => STATUS_SEVERITY[b.status] > STATUS_SEVERITY[a.status] ? b : a);
+      const unclassified = compound.status === HalalStatus.UNCERTAIN;
+      const ownSeverity = unclassified ? -1 : STATUS_SEVERITY[compound.status];
+      if (STATUS_SEVERITY[worst.status] <= ownSeverity) {
+        continue;
+      }
+
+      const taintedBy: IngredientTaint[] = worst.status === HalalStatus.HALAL ? [] : children
+        .filter(child => child.status === worst.status)
+        .flatMap(child => child.taintedBy && child.taintedBy.length > 0
+          ? child.taintedBy.map(taint => ({ ...taint, path: [compound.detectedName, ...taint.path] }))
+          : [{ path: [compound.detectedName, child.detectedName], status: child.status }]);
+
+      const childRisk = this.highestRisk(children.map(child => child.riskLevel));
+      const childReview = children.some(child => child.requiresExpertReview);
+
+      results[index] = unclassified
+        ? {
+          ...compound,
+          status: worst.status,
+          riskLevel: childRisk,
+          confidence: Math.min(...children.map(child => child.confidence)),
+          reasoning: `Compound ingredient assessed from its ${children.length} sub-ingredients.`,
+          requiresExpertReview: childReview,
+          warnings: taintedBy.map(taint => `Contains ${taint.path.join(' > ')} (${taint.status})`),
+          ...(taintedBy.length > 0 && { taintedBy })
+        }
+        : {
+          ...compound,
+          status: worst.status,
+          riskLevel: this.highestRisk([compound.riskLevel, childRisk]),
+          requiresExpertReview: compound.requiresExpertReview || childReview,
+          warnings: [...compound.warnings, ...taintedBy.map(taint => `Contains ${taint.path.join(' > ')} (${taint.status})`)],
+          taintedBy
+        };
+    }
+
+    return results;
+  }
+
+  private highestRisk(levels: RiskLevel[]): RiskLevel {
+    return levels.reduce((a, b) => RISK_ORDER.indexOf(b) > RISK_ORDER.indexOf(a) ? b : a, RiskLevel.VERY_LOW);
+  }
+
+  /**
+   * Analyze individual ingredients for halal compliance, pinning the
+   * knowledge-base version or provider result behind each one
    */
   private async analyzeIndividualIngredients(
-    ingredients: string[], 
+    provider: LLMProvider,
+    nodes: FlattenedIngredient[],
     language: string,
     region: string,
     certificationStandard: string
-  ): Promise<IngredientAnalysis[]> {
+  ): Promise<{ analyses: IngredientAnalysis[]; pinned: PinnedIngredient[] }> {
     const analyses: IngredientAnalysis[] = [];
+    const pinned: PinnedIngredient[] = [];
+
+    for (const node of nodes) {
+      const ingredient = node.name;
+      let analysis: IngredientAnalysis;
+      let pin: PinnedIngredient;
 
-    for (const ingredient of ingredients) {
       try {
-        // First check our expert database
-        const dbResult = await this.checkIngredientDatabase(ingredient, language);
+        // First check our expert database, then retry with the canonical name of a label synonym
+        const match = await this.lookupKnowledgeBase(ingredient, language);
         
-        if (dbResult) {
-          analyses.push({
-            detectedName: ingredient,
-            standardName: dbResult.standard_name,
-            status: dbResult.halal_status as HalalStatus,
-            riskLevel: dbResult.risk_level as RiskLevel,
-            confidence: dbResult.confidence,
-            reasoning: dbResult.reasoning,
-            requiresExpertReview: dbResult.requires_expert_review,
-            warnings: dbResult.warnings || [],
-            suggestions: dbResult.suggestions || [],
-            source: 'database',
-            eNumbers: dbResult.e_numbers || [],
-            categories: dbResult.categories || []
+        if (match) {
+          // Country -> EU -> default: a regional ruling replaces the default verdict
+          const variation = await this.regionalVariations.resolveForIngredient(
+            match.record.id,
+            region,
+            certificationStandard
+          );
+
+          analysis = this.fromKnowledgeBase(ingredient, match.record, match.pin, variation);
+          pin = this.pinIngredient(node, analysis, {
+            knowledgeBase: match.pin,
+            ...(variation && { regionalVariation: variation })
           });
         } else {
           // Use AI analysis for unknown ingredients
-          const aiAnalysis = await this.analyzeIngredientWithAI(
+          analysis = await this.analyzeIngredientWithAI(
+            provider,
             ingredient, 
             language, 
             region, 
             certificationStandard
           );
-          analyses.push(aiAnalysis);
+          pin = this.pinIngredient(node, analysis, { classification: analysis });
         }
 
         // Add small delay to respect API limits
-        await new Promise(resolve => setTimeout(resolve, 100));
+        if (provider.name !== 'offline') {
+          await new Promise(resolve => setTimeout(resolve, 100));
+        }
 
       } catch (error) {
         logger.warn('Individual ingredient analysis failed', {
@@ -245,24 +512,288 @@ Return ingredients separated by newlines, nothing else.`;
         });
 
         // Add fallback analysis for failed ingredients
-        analyses.push({
-          detectedName: ingredient,
-          standardName: ingredient,
-          status: HalalStatus.UNCERTAIN,
-          riskLevel: RiskLevel.MEDIUM,
-          confidence: 0.1,
-          reasoning: `Analysis failed: ${error.message}`,
-          requiresExpertReview: true,
-          warnings: ['Analysis failed - expert review required'],
-          suggestions: ['Contact halal certification expert'],
-          source: 'fallback',
-          eNumbers: [],
-          categories: []
+        analysis = this.fallbackAnalysis(ingredient, `Analysis failed: ${error.message}`, 'Analysis failed - expert review required');
+        pin = this.pinIngredient(node, analysis, { classification: analysis });
+      }
+
+      analyses.push(analysis);
+      pinned.push(pin);
+    }
+
+    return { analyses: this.attachTreePositions(analyses, nodes), pinned };
+  }
+
+  /**
+   * Rebuild ingredient analyses from the knowledge-base versions and
+   * regional rulings pinned in a provenance manifest
+   */
+  private async replayWithPinnedData(
+    pins: PinnedIngredient[]
+  ): Promise<{ analyses: IngredientAnalysis[]; pinned: PinnedIngredient[] }> {
+    const snapshots = await this.knowledgeBase.getVersionSnapshots(
+      pins.flatMap(pin => pin.knowledgeBase ? [pin.knowledgeBase] : [])
+    );
+
+    const analyses = pins.map(pin => {
+      if (!pin.knowledgeBase) {
+        return pin.classification || this.fallbackAnalysis(pin.name, 'Pinned classification missing from provenance', 'Replay incomplete - expert review required');
+      }
+
+      const record = snapshots.get(`${pin.knowledgeBase.ingredientId}:${pin.knowledgeBase.version}`);
+      return record
+        ? this.fromKnowledgeBase(pin.name, record, pin.knowledgeBase, pin.regionalVariation || null)
+        : this.fallbackAnalysis(
+          pin.name,
+          `Knowledge-base version ${pin.knowledgeBase.version} of ${pin.knowledgeBase.lookupName} is not available`,
+          'Pinned knowledge-base version unavailable - expert review required'
+        );
+    });
+
+    return { analyses: this.attachTreePositions(analyses, pins), pinned: pins };
+  }
+
+  /**
+   * Rebuild ingredient analyses from current knowledge-base records and
+   * regional rulings. Ingredients the provider classified are looked up
+   * again, since the knowledge base may cover them now; otherwise the pinned
+   * classification is kept so no provider call is made.
+   */
+  private async replayWithCurrentData(
+    pins: PinnedIngredient[],
+    request: AnalysisRequest
+  ): Promise<{ analyses: IngredientAnalysis[]; pinned: PinnedIngredient[] }> {
+    const records = await this.knowledgeBase.getCurrentRecords(
+      pins.flatMap(pin => pin.knowledgeBase ? [pin.knowledgeBase.ingredientId] : [])
+    );
+
+    const analyses: IngredientAnalysis[] = [];
+    const pinned: PinnedIngredient[] = [];
+
+    for (const pin of pins) {
+      const pinnedRecord = pin.knowledgeBase ? records.get(pin.knowledgeBase.ingredientId) : undefined;
+      const match = pinnedRecord
+        ? { record: pinnedRecord, pin: { ...pin.knowledgeBase!, version: pinnedRecord.version } }
+        : await this.lookupKnowledgeBase(pin.name, request.language);
+
+      if (!match) {
+        const analysis = pin.classification || this.fallbackAnalysis(pin.name, 'Ingredient is no longer in the knowledge base', 'Knowledge-base record removed - expert review required');
+        analyses.push(analysis);
+        pinned.push(this.pinIngredient(pin, analysis, { classification: analysis }));
+        continue;
+      }
+
+      const variation = await this.regionalVariations.resolveForIngredient(
+        match.record.id,
+        request.region,
+        request.certificationStandard
+      );
+      const analysis = this.fromKnowledgeBase(pin.name, match.record, match.pin, variation);
+      analyses.push(analysis);
+      pinned.push(this.pinIngredient(pin, analysis, {
+        knowledgeBase: match.pin,
+        ...(variation && { regionalVariation: variation })
+      }));
+    }
+
+    return { analyses: this.attachTreePositions(analyses, pins), pinned };
+  }
+
+  /**
+   * Find an ingredient in the expert database by label name, or by the
+   * canonical name of a label synonym
+   */
+  private async lookupKnowledgeBase(
+    ingredient: string,
+    language: string
+  ): Promise<{ record: any; pin: KnowledgeBasePin } | null> {
+    let lookupName = ingredient;
+    let record = await this.checkIngredientDatabase(ingredient, language);
+    const synonym = record ? null : DatabaseService.getSynonymIndex().lookup(ingredient, language);
+    if (synonym && synonym.confidence >= MIN_SYNONYM_CONFIDENCE) {
+      lookupName = synonym.canonicalName;
+      record = await this.checkIngredientDatabase(lookupName, language);
+    }
+
+    if (!record) {
+      return null;
+    }
+
+    return {
+      record,
+      pin: {
+        ingredientId: record.id,
+        version: record.version,
+        lookupName,
+        ...(synonym && {
+          synonymMatch: { term: synonym.matchedTerm, language: synonym.language, confidence: synonym.confidence }
+        })
+      }
+    };
+  }
+
+  /**
+   * Ingredient analysis from an expert database record (current or a version snapshot)
+   */
+  private fromKnowledgeBase(
+    detectedName: string,
+    record: any,
+    pin: KnowledgeBasePin,
+    variation: ResolvedRegionalVariation | null
+  ): IngredientAnalysis {
+    const confidence = record.confidence ?? 1;
+
+    return this.regionalVariations.applyVariation({
+      detectedName,
+      standardName: record.standard_name || record.name,
+      status: (record.halal_status || record.default_status) as HalalStatus,
+      riskLevel: record.risk_level as RiskLevel,
+      confidence: pin.synonymMatch ? Math.min(confidence, pin.synonymMatch.confidence) : confidence,
+      reasoning: record.reasoning || record.description,
+      requiresExpertReview: record.requires_expert_review,
+      warnings: record.warnings || [],
+      suggestions: record.suggestions || [],
+      source: 'database',
+      eNumbers: record.e_numbers || (record.e_number ? [record.e_number] : []),
+      categories: record.categories || (record.category ? [record.category] : []),
+      ...(pin.synonymMatch && { synonymMatch: pin.synonymMatch })
+    }, variation);
+  }
+
+  /**
+   * Supplier certificates backing the analyzed ingredients, pinned with the
+   * ingredients they were found for. Without the registry the ingredients
+   * keep their own verdict. With an export market, each certificate records
+   * whether the market's authority recognizes its issuer.
+   */
+  private async resolveSupplierEvidence(
+    organizationId: string,
+    analyses: IngredientAnalysis[],
+    pins: PinnedIngredient[],
+    exportMarket?: string
+  ): Promise<{ evidence: Map<string, SupplierEvidence[]>; pinned: PinnedIngredient[] }> {
+    let evidence = new Map<string, SupplierEvidence[]>();
+    try {
+      evidence = await this.supplierService.findEvidence(organizationId, pins.map((pin, index) => ({
+        nodeId: pin.nodeId,
+        names: [pin.name, analyses[index]?.standardName || pin.name],
+        ...(pin.knowledgeBase && { ingredientId: pin.knowledgeBase.ingredientId })
+      })));
+    } catch (error) {
+      logger.warn('Supplier certificate lookup failed', {
+        organizationId,
+        error: (error as Error).message
+      });
+    }
+
+    if (exportMarket) {
+      try {
+        evidence = await this.certificationBodies.checkIssuers(evidence, exportMarket);
+      } catch (error) {
+        logger.warn('Certificate issuer recognition check failed', {
+          organizationId,
+          exportMarket,
+          error: (error as Error).message
         });
       }
     }
 
-    return analyses;
+    return {
+      evidence,
+      pinned: pins.map(({ supplierEvidence: _pinned, ...pin }) => {
+        const entries = evidence.get(pin.nodeId);
+        return entries ? { ...pin, supplierEvidence: entries } : pin;
+      })
+    };
+  }
+
+  private pinIngredient(
+    node: FlattenedIngredient | PinnedIngredient,
+    analysis: IngredientAnalysis,
+    pinned: Pick<PinnedIngredient, 'knowledgeBase' | 'regionalVariation' | 'classification'>
+  ): PinnedIngredient {
+    return {
+      name: node.name,
+      nodeId: node.nodeId,
+      ...(node.parentId && { parentId: node.parentId }),
+      path: node.path,
+      ...(node.percentage !== undefined && { percentage: node.percentage }),
+      ...(node.functionalClass && { functionalClass: node.functionalClass }),
+      hasChildren: node.hasChildren,
+      source: analysis.source,
+      ...pinned
+    };
+  }
+
+  private fallbackAnalysis(ingredient: string, reasoning: string, warning: string): IngredientAnalysis {
+    return {
+      detectedName: ingredient,
+      standardName: ingredient,
+      status: HalalStatus.UNCERTAIN,
+      riskLevel: RiskLevel.MEDIUM,
+      confidence: 0.1,
+      reasoning,
+      requiresExpertReview: true,
+      warnings: [warning],
+      suggestions: ['Contact halal certification expert'],
+      source: 'fallback',
+      eNumbers: [],
+      categories: []
+    };
+  }
+
+  /**
+   * Attach consensus analysis to each ingredient and apply the madhab's rulings
+   */
+  private async applyMadhabRulings(
+    ingredients: IngredientAnalysis[],
+    madhab?: Madhab
+  ): Promise<IngredientAnalysis[]> {
+    const results: IngredientAnalysis[] = [];
+    for (const ingredient of ingredients) {
+      results.push(await this.consensusService.applyMadhab(ingredient, madhab));
+    }
+    return results;
+  }
+
+  /**
+   * Resolve the rule sets of additional certification standards
+   */
+  private async resolveComparisonRuleSets(standards: string[], organizationId: string): Promise<CertificationRuleSet[]> {
+    const ruleSets: CertificationRuleSet[] = [];
+
+    for (const standard of standards) {
+      const ruleSet = await this.ruleEngine.resolveRuleSet(standard, organizationId);
+      if (!ruleSet) {
+        logger.warn('No rule set for comparison standard', { standard });
+        continue;
+      }
+      ruleSets.push(ruleSet);
+    }
+
+    return ruleSets;
+  }
+
+  /**
+   * Evaluate the product under additional certification standards
+   */
+  private evaluateStandards(
+    ingredients: IngredientAnalysis[],
+    supplierEvidence: Map<string, SupplierEvidence[]>,
+    ruleSets: CertificationRuleSet[]
+  ): StandardVerdict[] {
+    return ruleSets.map(ruleSet => {
+      const evaluated = this.propagateCompoundStatus(
+        this.supplierService.applyEvidence(this.ruleEngine.applyRuleSet(ingredients, ruleSet), supplierEvidence)
+      );
+      const overallStatus = this.generateOverallAssessment(evaluated).status;
+
+      return {
+        standard: ruleSet.standard,
+        overallStatus,
+        passes: overallStatus === HalalStatus.HALAL,
+        firedRules: evaluated.flatMap(ing => ing.appliedRules || [])
+      };
+    });
   }
 
   /**
@@ -322,89 +853,32 @@ Return ingredients separated by newlines, nothing else.`;
   }
 
   /**
-   * Analyze ingredient using OpenAI when not in database
+   * Analyze ingredient using the LLM provider when not in database
    */
   private async analyzeIngredientWithAI(
+    provider: LLMProvider,
     ingredient: string, 
     language: string,
     region: string,
     certificationStandard: string
   ): Promise<IngredientAnalysis> {
-    const systemPrompt = `You are a world-class halal food certification expert with deep knowledge of Islamic dietary laws and food science.
-
-CERTIFICATION STANDARD: ${certificationStandard}
-REGION: ${region}
-LANGUAGE: ${language}
-
-Your task: Analyze ingredients for halal compliance with absolute precision.
-
-HALAL STATUS DEFINITIONS:
-- HALAL: Completely permissible under Islamic law
-- HARAM: Absolutely forbidden under Islamic law  
-- MASHBOOH: Doubtful/questionable, avoid due to uncertainty
-- UNCERTAIN: Cannot determine without more information
-
-RISK LEVELS:
-- LOW: No halal concerns
-- MEDIUM: Minor concerns or sourcing dependent
-- HIGH: Major concerns or likely problematic
-
-CRITICAL RULES:
-1. When in doubt, choose MASHBOOH or UNCERTAIN - never guess
-2. Consider source, processing methods, cross-contamination
-3. E-numbers: Many are synthetic and halal, but verify each
-4. Animal-derived ingredients: Assume haram unless certified halal
-5. Alcohol/wine-based ingredients: Always haram
-6. Be extremely cautious with gelatin, enzymes, emulsifiers
-
-Respond in JSON format:
-{
-  "status": "HALAL|HARAM|MASHBOOH|UNCERTAIN",
-  "riskLevel": "LOW|MEDIUM|HIGH", 
-  "confidence": 0.95,
-  "reasoning": "Detailed Islamic ruling explanation",
-  "requiresExpertReview": false,
-  "warnings": ["warning1", "warning2"],
-  "suggestions": ["suggestion1", "suggestion2"],
-  "eNumbers": ["E123"],
-  "categories": ["emulsifier", "preservative"]
-}`;
-
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: `Analyze this ingredient for halal compliance: ${ingredient}` }
-        ],
-        temperature: 0.1,
-        max_tokens: 800
+      const classification = await provider.classifyIngredient(ingredient, {
+        language,
+        region,
+        certificationStandard
       });
 
-      const analysisText = response.choices[0]?.message?.content?.trim();
-      if (!analysisText) {
-        throw new Error('No analysis returned from OpenAI');
-      }
-
-      const analysis = JSON.parse(analysisText);
-
       return {
         detectedName: ingredient,
         standardName: ingredient,
-        status: analysis.status as HalalStatus,
-        riskLevel: analysis.riskLevel as RiskLevel,
-        confidence: analysis.confidence || 0.5,
-        reasoning: analysis.reasoning || 'AI analysis completed',
-        requiresExpertReview: analysis.requiresExpertReview || false,
-        warnings: analysis.warnings || [],
-        suggestions: analysis.suggestions || [],
-        source: 'ai',
-        eNumbers: analysis.eNumbers || [],
-        categories: analysis.categories || []
+        ...classification,
+        source: 'ai'
       };
 
     } catch (error) {
-      logger.error('OpenAI ingredient analysis failed', {
+      logger.error('LLM ingredient analysis failed', {
+        provider: provider.name,
         ingredient,
         error: error.message
       });
@@ -539,8 +1013,9 @@ Respond in JSON format:
           id, user_id, organization_id, product_name, ingredient_text,
           language, region, certification_standard, overall_status, overall_risk_level,
           total_ingredients, halal_count, haram_count, mashbooh_count,
-          expert_review_required, processing_time_ms, recommendations
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+          expert_review_required, processing_time_ms, recommendations, madhab,
+          custom_rule_set_id, standard_verdicts, provenance
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
       `;
 
       await this.db.query(analysisQuery, [
@@ -560,17 +1035,27 @@ Respond in JSON format:
         analysis.summary.mashbooh_count,
         analysis.expertReviewRequired,
         analysis.processingTimeMs,
-        JSON.stringify(analysis.recommendations)
+        JSON.stringify(analysis.recommendations),
+        analysis.madhab || null,
+        analysis.customRuleSetId || null,
+        analysis.standardVerdicts ? JSON.stringify(analysis.standardVerdicts) : null,
+        analysis.provenance ? JSON.stringify(analysis.provenance) : null
       ]);
 
+      // Keep the pinned knowledge-base versions available for replay
+      await this.knowledgeBase.recordVersionSnapshots(
+        (analysis.provenance?.ingredients || []).flatMap(pin => pin.knowledgeBase ? [pin.knowledgeBase.ingredientId] : [])
+      );
+
       // Save individual ingredient analyses
       for (const ingredient of analysis.ingredients) {
         const ingredientQuery = `
           INSERT INTO ingredient_analyses (
             analysis_id, ingredient_name, standard_name, halal_status, risk_level,
             confidence, reasoning, requires_expert_review, warnings, suggestions,
-            source, e_numbers, categories
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+            source, e_numbers, categories, consensus, applied_rules, regional_variation,
+            node_id, parent_node_id, ingredient_path, percentage, functional_class, tainted_by, supplier_evidence
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23)
         `;
 
         await this.db.query(ingredientQuery, [
@@ -586,7 +1071,17 @@ Respond in JSON format:
           JSON.stringify(ingredient.suggestions),
           ingredient.source,
           JSON.stringify(ingredient.eNumbers),
-          JSON.stringify(ingredient.categories)
+          JSON.stringify(ingredient.categories),
+          ingredient.consensus ? JSON.stringify(ingredient.consensus) : null,
+          JSON.stringify(ingredient.appliedRules || []),
+          ingredient.regionalVariation ? JSON.stringify(ingredient.regionalVariation) : null,
+          ingredient.nodeId || null,
+          ingredient.parentId || null,
+          JSON.stringify(ingredient.path || []),
+          ingredient.percentage ?? null,
+          ingredient.functionalClass || null,
+          JSON.stringify(ingredient.taintedBy || []),
+          JSON.stringify(ingredient.supplierEvidence || [])
         ]);
       }
 
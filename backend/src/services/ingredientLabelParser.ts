@@ -0,0 +1,232 @@
+/**
+ * HalalCheck EU - Ingredient Label Parser
+ *
+ * Deterministic parser for EU ingredient declarations. Builds a tree of
+ * compound ingredients with their percentages and sub-ingredients, e.g.
+ * "chocolate 20% (sugar, cocoa butter, emulsifier (E471))". No LLM involved:
+ * the same label always produces the same tree.
+ */
+
+import { ParsedIngredient } from '@/types/halal';
+
+export const LABEL_PREFIX = /^\s*(ingredients?|ingrediënten|ingrédients|zutaten|ingredienti|ingredientes|içindekiler|المكونات)\s*:\s*/i;
+
+const E_NUMBER_PATTERN = /\bE\s?-?(\d{3,4})([a-z])?\b/gi;
+const PERCENTAGE_PATTERN = /(?:min\.?|max\.?|<|>)?\s*(\d+(?:[.,]\d+)?)\s*%/i;
+const OPENING = '([';
+const CLOSING = ')]';
+const DEFAULT_MAX_DEPTH = 5;
+
+// Functional classes declared in front of the actual ingredient (Regulation (EU) No 1169/2011, Annex VII Part C)
+const FUNCTIONAL_CLASSES = [
+  'acid', 'acidity regulator', 'anti-caking agent', 'anti-foaming agent', 'antioxidant',
+  'bulking agent', 'colour', 'color', 'colouring', 'emulsifier', 'emulsifying salt',
+  'firming agent', 'flavour enhancer', 'flavor enhancer', 'flour treatment agent',
+  'gelling agent', 'glazing agent', 'humectant', 'modified starch', 'preservative',
+  'propellant gas', 'raising agent', 'sequestrant', 'stabiliser', 'stabilizer',
+  'sweetener', 'thickener'
+];
+
+interface ParserState {
+  text: string;
+  position: number;
+}
+
+export interface FlattenedIngredient {
+  name: string;
+  nodeId: string;
+  parentId?: string;
+  path: string[];
+  percentage?: number;
+  functionalClass?: string;
+  hasChildren: boolean;
+}
+
+export interface IngredientLabelParserOptions {
+  maxDepth?: number; // Deeper brackets are kept as part of the ingredient name
+}
+
+export class IngredientLabelParser {
+  private readonly maxDepth: number;
+
+  constructor(options: IngredientLabelParserOptions = {}) {
+    this.maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  }
+
+  /**
+   * Parse a full ingredient declaration into a tree
+   */
+  parse(ingredientText: string): ParsedIngredient[] {
+    const text = ingredientText
+      .replace(LABEL_PREFIX, '')
+      .replace(/[\s.]+$/, '');
+
+    return this.parseList({ text, position: 0 }, 0);
+  }
+
+  /**
+   * Number of ingredients in a tree, including sub-ingredients
+   */
+  countNodes(tree: ParsedIngredient[]): number {
+    return tree.reduce((count, node) => count + 1 + this.countNodes(node.children), 0);
+  }
+
+  /**
+   * Flatten a tree in label order (parents before their sub-ingredients)
+   */
+  flatten(tree: ParsedIngredient[], parent?: FlattenedIngredient): FlattenedIngredient[] {
+    return tree.flatMap((node, index) => {
+      const flattened: FlattenedIngredient = {
+        name: node.name,
+        nodeId: parent ? `${parent.nodeId}.${index + 1}` : `${index + 1}`,
+        ...(parent && { parentId: parent.nodeId }),
+        path: [...(parent?.path || []), node.name],
+        ...(node.percentage !== undefined && { percentage: node.percentage }),
+        ...(node.functionalClass && { functionalClass: node.functionalClass }),
+        hasChildren: node.children.length > 0
+      };
+      return [flattened, ...this.flatten(node.children, flattened)];
+    });
+  }
+
+  private parseList(state: ParserState, depth: number): ParsedIngredient[] {
+    const items: ParsedIngredient[] = [];
+
+    while (state.position < state.text.length) {
+      items.push(...this.parseItem(state, depth));
+
+      const char = state.text[state.position];
+      if (char === undefined) {
+        break;
+      }
+      state.position++;
+      if (CLOSING.includes(char)) {
+        // Closes this list; a stray closing bracket at the top level is ignored
+        if (depth > 0) {
+          break;
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Read one declaration entry up to the next separator or closing bracket
+   */
+  private parseItem(state: ParserState, depth: number): ParsedIngredient[] {
+    let name = '';
+    const groups: ParsedIngredient[][] = [];
+
+    while (state.position < state.text.length) {
+      const char = state.text[state.position]!;
+
+      if (CLOSING.includes(char) || ((char === ',' || char === ';') && !this.isDecimalComma(state))) {
+        break;
+      }
+
+      if (OPENING.includes(char)) {
+        state.position++;
+        if (depth + 1 >= this.maxDepth) {
+          name += `(${this.readBalanced(state)})`;
+        } else {
+          groups.push(this.parseList(state, depth + 1));
+        }
+        continue;
+      }
+
+      name += char;
+      state.position++;
+    }
+
+    return this.buildNodes(name, groups);
+  }
+
+  private buildNodes(rawName: string, groups: ParsedIngredient[][]): ParsedIngredient[] {
+    let name = rawName;
+    let percentage = this.extractPercentage(name);
+    if (percentage !== undefined) {
+      name = name.replace(PERCENTAGE_PATTERN, ' ');
+    }
+
+    const children: ParsedIngredient[] = [];
+    for (const group of groups) {
+      // "(12%)" carries the quantity of the ingredient rather than sub-ingredients
+      const onlyQuantity = group.length > 0 && group.every(item => !item.name && item.children.length === 0);
+      if (onlyQuantity) {
+        percentage = percentage ?? group.find(item => item.percentage !== undefined)?.percentage;
+      } else {
+        children.push(...group.filter(item => item.name || item.children.length > 0));
+      }
+    }
+
+    let functionalClass: string | undefined;
+    const colon = name.indexOf(':');
+    if (colon >= 0) {
+      functionalClass = this.clean(name.slice(0, colon)).toLowerCase();
+      name = name.slice(colon + 1);
+    }
+    name = this.clean(name);
+
+    // "emulsifier (E471, lecithin)" declares the class of its sub-ingredients
+    if (!functionalClass && children.length > 0 && this.isFunctionalClass(name)) {
+      return children.map(child => ({
+        ...child,
+        functionalClass: child.functionalClass || name.toLowerCase()
+      }));
+    }
+
+    if (!name && children.length === 0 && percentage === undefined) {
+      return [];
+    }
+
+    return [{
+      name,
+      ...(percentage !== undefined && { percentage }),
+      ...(functionalClass && { functionalClass }),
+      children
+    }];
+  }
+
+  private readBalanced(state: ParserState): string {
+    let nesting = 1;
+    let content = '';
+
+    while (state.position < state.text.length) {
+      const char = state.text[state.position]!;
+      state.position++;
+      if (OPENING.includes(char)) nesting++;
+      if (CLOSING.includes(char)) nesting--;
+      if (nesting === 0) {
+        break;
+      }
+      content += char;
+    }
+
+    return content;
+  }
+
+  private isDecimalComma(state: ParserState): boolean {
+    const previous = state.text[state.position - 1] || '';
+    const next = state.text[state.position + 1] || '';
+    return state.text[state.position] === ',' && /\d/.test(previous) && /\d/.test(next);
+  }
+
+  private extractPercentage(text: string): number | undefined {
+    const match = text.match(PERCENTAGE_PATTERN);
+    return match?.[1] ? parseFloat(match[1].replace(',', '.')) : undefined;
+  }
+
+  private isFunctionalClass(name: string): boolean {
+    const normalized = name.toLowerCase().replace(/s$/, '');
+    return FUNCTIONAL_CLASSES.includes(normalized) || FUNCTIONAL_CLASSES.includes(name.toLowerCase());
+  }
+
+  private clean(text: string): string {
+    return text
+      .replace(E_NUMBER_PATTERN, (_match, digits: string, suffix?: string) => `E${digits}${(suffix || '').toLowerCase()}`)
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s.:*-]+|[\s.:*]+$/g, '')
+      .trim();
+  }
+}
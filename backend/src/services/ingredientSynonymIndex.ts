@@ -0,0 +1,300 @@
+/**
+ * HalalCheck EU - Ingredient Synonym Index
+ *
+ * Normalized multilingual index of ingredient names, alternative names,
+ * translations and curated label synonyms. Label terms such as
+ * "varkensgelatine", "Schweineschmalz" or "domuz jelatini" resolve to the
+ * canonical ingredient with a match-confidence score.
+ *
+ * Normalization: accent folding, Arabic letter normalization, stopword and
+ * article removal, plural stemming and Turkish suffix stripping. Dutch and
+ * German compounds also match when written apart ("Schweine-Gelatine").
+ */
+
+import { Ingredient } from '@/types/halal';
+import { INGREDIENT_SYNONYMS, IngredientSynonymGroup } from '@/data/ingredients/synonyms';
+
+export type SynonymMatchType = 'EXACT' | 'NORMALIZED' | 'COMPOUND' | 'PARTIAL';
+
+export interface SynonymMatch {
+  canonicalName: string;
+  eNumber?: string;
+  ingredient?: Ingredient; // Set when the canonical ingredient is part of the indexed knowledge base
+  matchedTerm: string;
+  language: string;
+  matchType: SynonymMatchType;
+  confidence: number; // 0-1
+}
+
+interface IndexEntry {
+  canonicalName: string;
+  eNumber?: string;
+  term: string;
+  language: string;
+  exact: string;
+  key: string;
+  joinedKey: string;
+  tokens: string[];
+}
+
+const MATCH_CONFIDENCE: Record<SynonymMatchType, number> = {
+  EXACT: 1,
+  NORMALIZED: 0.9,
+  COMPOUND: 0.85,
+  PARTIAL: 0.5 // Plus up to 0.3 for the share of the label term covered
+};
+const OTHER_LANGUAGE_PENALTY = 0.05;
+const MIN_PARTIAL_TOKEN_LENGTH = 4;
+
+// Articles, prepositions and conjunctions that carry no ingredient meaning
+const STOPWORDS = new Set([
+  'the', 'of', 'and', 'from',
+  'de', 'het', 'een', 'van', 'en', 'uit',
+  'der', 'die', 'das', 'vom', 'von', 'und', 'aus',
+  'le', 'la', 'les', 'du', 'des', 'd', 'l', 'et', 'au', 'aux',
+  've', 'ile',
+  'و', 'من'
+]);
+
+const ARABIC_LETTERS = /[؀-ۿ]/;
+const TURKISH_SUFFIXES = ['leri', 'lari', 'ler', 'lar', 'si', 'su', 'i', 'u'];
+
+/**
+ * Lowercase, fold accents and normalize Arabic letter variants
+ */
+export function foldText(text: string): string {
+  return text
+    .replace(/İ/g, 'i')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .replace(/æ/g, 'ae')
+    .replace(/œ/g, 'oe')
+    .replace(/ı/g, 'i')
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/ـ/g, '') // tatweel
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/[’'`]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export class IngredientSynonymIndex {
+  private readonly entries: IndexEntry[] = [];
+  private readonly byExact = new Map<string, IndexEntry[]>();
+  private readonly byKey = new Map<string, IndexEntry[]>();
+  private readonly byJoinedKey = new Map<string, IndexEntry[]>();
+  private readonly ingredientsByName = new Map<string, Ingredient>();
+  private readonly ingredientsByENumber = new Map<string, Ingredient>();
+
+  constructor(ingredients: Ingredient[] = [], synonyms: IngredientSynonymGroup[] = INGREDIENT_SYNONYMS) {
+    for (const ingredient of ingredients) {
+      this.indexIngredient(ingredient);
+    }
+    for (const group of synonyms) {
+      for (const [language, terms] of Object.entries(group.terms)) {
+        for (const term of terms || []) {
+          this.addTerm(group.canonicalName, term, language, group.eNumber);
+        }
+      }
+    }
+  }
+
+  /**
+   * Add a label term for a canonical ingredient
+   */
+  addTerm(canonicalName: string, term: string, language: string, eNumber?: string): void {
+    const variants = [term, term.replace(/\([^)]*\)/g, ' ')];
+
+    for (const variant of new Set(variants.map(v => v.trim()).filter(Boolean))) {
+      const tokens = this.tokenize(variant, language);
+      if (tokens.length === 0) {
+        continue;
+      }
+
+      const entry: IndexEntry = {
+        canonicalName,
+        ...(eNumber && { eNumber }),
+        term,
+        language,
+        exact: foldText(variant),
+        key: this.toKey(tokens),
+        joinedKey: this.joinedKey(variant, language),
+        tokens
+      };
+
+      this.entries.push(entry);
+      this.append(this.byExact, entry.exact, entry);
+      this.append(this.byKey, entry.key, entry);
+      this.append(this.byJoinedKey, entry.joinedKey, entry);
+    }
+  }
+
+  /**
+   * Resolve a label term to its canonical ingredient. The label language,
+   * when known, enables language-specific stemming and ranks same-language
+   * terms first.
+   */
+  lookup(term: string, language?: string): SynonymMatch | null {
+    const languages = language ? [language] : ['en', 'tr'];
+    let best: SynonymMatch | null = null;
+
+    for (const candidateLanguage of languages) {
+      const tokens = this.tokenize(term, candidateLanguage);
+      if (tokens.length === 0) {
+        continue;
+      }
+
+      const candidates: [SynonymMatchType, IndexEntry[] | undefined][] = [
+        ['EXACT', this.byExact.get(foldText(term))],
+        ['NORMALIZED', this.byKey.get(this.toKey(tokens))],
+        ['COMPOUND', this.byJoinedKey.get(this.joinedKey(term, candidateLanguage))]
+      ];
+
+      for (const [matchType, entries] of candidates) {
+        for (const entry of entries || []) {
+          best = this.better(best, this.toMatch(entry, matchType, MATCH_CONFIDENCE[matchType], language));
+        }
+      }
+
+      if (!best) {
+        best = this.better(best, this.partialMatch(tokens, language));
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Normalized, stemmed tokens for a term
+   */
+  tokenize(term: string, language?: string): string[] {
+    return this.splitTokens(term)
+      .map(token => this.stem(token, language))
+      .filter(token => token.length > 0);
+  }
+
+  private indexIngredient(ingredient: Ingredient): void {
+    this.ingredientsByName.set(foldText(ingredient.name), ingredient);
+    if (ingredient.eNumber) {
+      this.ingredientsByENumber.set(ingredient.eNumber.toUpperCase(), ingredient);
+      this.addTerm(ingredient.name, ingredient.eNumber, 'en', ingredient.eNumber);
+    }
+
+    this.addTerm(ingredient.name, ingredient.name, 'en', ingredient.eNumber);
+    for (const alias of ingredient.alternativeNames || []) {
+      this.addTerm(ingredient.name, alias, 'en', ingredient.eNumber);
+    }
+    for (const [language, translation] of Object.entries(ingredient.translations || {})) {
+      this.addTerm(ingredient.name, translation.name, language, ingredient.eNumber);
+    }
+  }
+
+  /**
+   * Best indexed term whose tokens all appear in the label term, e.g. "halal rundergelatine"
+   */
+  private partialMatch(tokens: string[], language?: string): SynonymMatch | null {
+    let best: SynonymMatch | null = null;
+
+    for (const entry of this.entries) {
+      const significant = entry.tokens.every(token => token.length >= MIN_PARTIAL_TOKEN_LENGTH || /\d/.test(token));
+      if (!significant || entry.tokens.length > tokens.length) {
+        continue;
+      }
+      if (entry.tokens.every(token => tokens.includes(token))) {
+        const coverage = entry.tokens.length / tokens.length;
+        best = this.better(best, this.toMatch(entry, 'PARTIAL', MATCH_CONFIDENCE.PARTIAL + 0.3 * coverage, language));
+      }
+    }
+
+    return best;
+  }
+
+  private toMatch(entry: IndexEntry, matchType: SynonymMatchType, baseConfidence: number, language?: string): SynonymMatch {
+    const ingredient = this.ingredientsByName.get(foldText(entry.canonicalName))
+      || (entry.eNumber ? this.ingredientsByENumber.get(entry.eNumber.toUpperCase()) : undefined);
+    const penalty = language && entry.language !== language && entry.language !== 'en' ? OTHER_LANGUAGE_PENALTY : 0;
+
+    return {
+      canonicalName: ingredient ? ingredient.name : entry.canonicalName,
+      ...(entry.eNumber && { eNumber: entry.eNumber }),
+      ...(ingredient && { ingredient }),
+      matchedTerm: entry.term,
+      language: entry.language,
+      matchType,
+      confidence: Math.round((baseConfidence - penalty) * 100) / 100
+    };
+  }
+
+  private better(current: SynonymMatch | null, candidate: SynonymMatch | null): SynonymMatch | null {
+    if (!candidate) return current;
+    if (!current) return candidate;
+    return candidate.confidence > current.confidence ? candidate : current;
+  }
+
+  private splitTokens(term: string): string[] {
+    return foldText(term)
+      .split(/[^\p{L}\p{N}]+/u)
+      .map(token => ARABIC_LETTERS.test(token) ? this.stripArabicArticle(token) : token)
+      .filter(token => token.length > 0 && !STOPWORDS.has(token));
+  }
+
+  private stem(token: string, language?: string): string {
+    if (/\d/.test(token)) {
+      return token;
+    }
+    if (ARABIC_LETTERS.test(token)) {
+      return token.length > 5 && token.endsWith('ات') ? token.slice(0, -2) : token;
+    }
+    if (language === 'tr') {
+      return this.stemTurkish(token);
+    }
+
+    let stemmed = token;
+    if (stemmed.length > 4 && stemmed.endsWith('ies')) {
+      stemmed = `${stemmed.slice(0, -3)}y`;
+    } else if (stemmed.length > 5 && stemmed.endsWith('en')) {
+      stemmed = stemmed.slice(0, -2); // Dutch/German plural: diglyceriden, fettsäuren
+    } else if (stemmed.length > 3 && /[^s]s$|x$/.test(stemmed)) {
+      stemmed = stemmed.slice(0, -1);
+    }
+    if (stemmed.length > 4 && stemmed.endsWith('e')) {
+      stemmed = stemmed.slice(0, -1); // gelatine -> gelatin, diglyceride -> diglycerid
+    }
+    return stemmed;
+  }
+
+  private stemTurkish(token: string): string {
+    for (const suffix of TURKISH_SUFFIXES) {
+      if (token.length - suffix.length >= 3 && token.endsWith(suffix)) {
+        return token.slice(0, -suffix.length);
+      }
+    }
+    return token;
+  }
+
+  private stripArabicArticle(token: string): string {
+    return token.length > 3 && token.startsWith('ال') ? token.slice(2) : token;
+  }
+
+  private toKey(tokens: string[]): string {
+    return [...tokens].sort().join(' ');
+  }
+
+  /**
+   * Compound form for Dutch and German: "Schweine Gelatine" -> "schweinegelatin"
+   */
+  private joinedKey(term: string, language?: string): string {
+    return this.stem(this.splitTokens(term).join(''), language);
+  }
+
+  private append(map: Map<string, IndexEntry[]>, key: string, entry: IndexEntry): void {
+    const existing = map.get(key);
+    if (existing) {
+      existing.push(entry);
+    } else {
+      map.set(key, [entry]);
+    }
+  }
+}
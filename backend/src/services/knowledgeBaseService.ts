@@ -0,0 +1,583 @@
+/**
+ * HalalCheck EU - Knowledge Base Service
+ *
+ * Reviewed, versioned changes to ingredient classifications. A scholar
+ * proposes a change, a second reviewer approves or rejects it, and every
+ * approval stores a snapshot of the new ingredient version. Stored analyses
+ * that used the ingredient are flagged so certifiers can re-evaluate them.
+ */
+
+import { PoolClient } from 'pg';
+import { DatabaseService } from './databaseService';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/middleware/errorHandler';
+import {
+  AnalysisReevaluationFlag,
+  ChangeProposalStatus,
+  HalalStatus,
+  IngredientChangeProposal,
+  IngredientChangeSet,
+  IngredientVersion,
+  ReevaluationFlagStatus,
+  RiskLevel
+} from '@/types/halal';
+
+export interface ChangeProposalInput {
+  changes: IngredientChangeSet;
+  rationale: string;
+  references?: string[];
+}
+
+export interface ApprovalResult {
+  proposal: IngredientChangeProposal;
+  version: number;
+  flaggedAnalyses: number;
+}
+
+// Editable fields and their ingredients table columns
+const CHANGE_FIELDS: Record<keyof IngredientChangeSet, string> = {
+  defaultStatus: 'default_status',
+  riskLevel: 'risk_level',
+  requiresExpertReview: 'requires_expert_review',
+  expertReviewReason: 'expert_review_reason',
+  description: 'description',
+  alternativeNames: 'alternative_names',
+  requiresCertificate: 'requires_certificate',
+  certificateTypes: 'certificate_types',
+  islamicRulings: 'islamic_rulings',
+  sourcesReferences: 'sources_references'
+};
+
+// Changes to these fields can alter a stored verdict
+const VERDICT_FIELDS: (keyof IngredientChangeSet)[] = [
+  'defaultStatus', 'riskLevel', 'requiresExpertReview', 'requiresCertificate', 'alternativeNames'
+];
+
+// Statuses the ingredients table accepts
+const STORED_STATUSES: HalalStatus[] = [
+  HalalStatus.HALAL, HalalStatus.HARAM, HalalStatus.MASHBOOH, HalalStatus.REQUIRES_REVIEW
+];
+
+const BOOLEAN_FIELDS: (keyof IngredientChangeSet)[] = ['requiresExpertReview', 'requiresCertificate'];
+const LIST_FIELDS: (keyof IngredientChangeSet)[] = ['alternativeNames', 'certificateTypes', 'islamicRulings', 'sourcesReferences'];
+
+function reviewError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+export class KnowledgeBaseService {
+  private db: DatabaseService;
+
+  constructor(db?: DatabaseService) {
+    this.db = db || new DatabaseService();
+  }
+
+  /**
+   * Validate a proposal; returns a list of problems, empty when valid
+   */
+  validateProposal(input: ChangeProposalInput): string[] {
+    const errors: string[] = [];
+
+    if (!input.rationale || typeof input.rationale !== 'string' || !input.rationale.trim()) {
+      errors.push('rationale is required');
+    }
+    if (input.references !== undefined && !this.isStringList(input.references)) {
+      errors.push('references must be an array of strings');
+    }
+
+    const changes = input.changes;
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      errors.push('changes must be an object');
+      return errors;
+    }
+
+    const fields = Object.keys(changes);
+    if (fields.length === 0) {
+      errors.push('changes needs at least one field');
+    }
+
+    for (const field of fields) {
+      const value = (changes as Record<string, unknown>)[field];
+      if (!(field in CHANGE_FIELDS)) {
+        errors.push(`${field} cannot be changed; allowed fields: ${Object.keys(CHANGE_FIELDS).join(', ')}`);
+      } else if (field === 'defaultStatus' && !STORED_STATUSES.includes(value as HalalStatus)) {
+        errors.push(`defaultStatus must be one of: ${STORED_STATUSES.join(', ')}`);
+      } else if (field === 'riskLevel' && !(Object.values(RiskLevel) as unknown[]).includes(value)) {
+        errors.push(`riskLevel must be one of: ${Object.values(RiskLevel).join(', ')}`);
+      } else if (BOOLEAN_FIELDS.includes(field as keyof IngredientChangeSet) && typeof value !== 'boolean') {
+        errors.push(`${field} must be a boolean`);
+      } else if (LIST_FIELDS.includes(field as keyof IngredientChangeSet) && !this.isStringList(value)) {
+        errors.push(`${field} must be an array of strings`);
+      } else if ((field === 'description' || field === 'expertReviewReason') && typeof value !== 'string') {
+        errors.push(`${field} must be a string`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * A proposal can be reviewed once, and never by the scholar who proposed it
+   */
+  assertReviewable(proposal: IngredientChangeProposal, reviewerId: string): void {
+    if (proposal.status !== ChangeProposalStatus.PENDING) {
+      throw reviewError(409, 'PROPOSAL_NOT_PENDING', `Change proposal is already ${proposal.status.toLowerCase()}`);
+    }
+    if (proposal.proposedBy === reviewerId) {
+      throw reviewError(403, 'SELF_REVIEW_NOT_ALLOWED', 'A change proposal must be reviewed by a second scholar');
+    }
+  }
+
+  /**
+   * Whether a change can alter stored verdicts
+   */
+  affectsVerdicts(changes: IngredientChangeSet): boolean {
+    return VERDICT_FIELDS.some(field => changes[field] !== undefined);
+  }
+
+  /**
+   * Propose a change against the ingredient's current version
+   */
+  async proposeChange(ingredientId: string, userId: string, input: ChangeProposalInput): Promise<IngredientChangeProposal> {
+    const ingredient = await this.db.query('SELECT * FROM ingredients WHERE id = $1', [ingredientId]);
+    const row = ingredient.rows[0];
+
+    if (!row) {
+      throw reviewError(404, 'INGREDIENT_NOT_FOUND', 'Ingredient not found');
+    }
+
+    const result = await this.db.query(
+      `INSERT INTO ingredient_change_proposals (
+        ingredient_id, base_version, changes, previous_values, rationale, source_references, proposed_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        ingredientId,
+        row.version,
+        JSON.stringify(input.changes),
+        JSON.stringify(this.currentValues(row, input.changes)),
+        input.rationale.trim(),
+        input.references || [],
+        userId
+      ]
+    );
+
+    return this.mapProposalRow({ ...result.rows[0], ingredient_name: row.name });
+  }
+
+  /**
+   * List proposals, optionally filtered by status and ingredient
+   */
+  async listProposals(filters: { status?: ChangeProposalStatus; ingredientId?: string } = {}): Promise<IngredientChangeProposal[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`p.status = $${params.length}`);
+    }
+    if (filters.ingredientId) {
+      params.push(filters.ingredientId);
+      conditions.push(`p.ingredient_id = $${params.length}`);
+    }
+
+    const result = await this.db.query(
+      `SELECT p.*, i.name AS ingredient_name
+       FROM ingredient_change_proposals p
+       JOIN ingredients i ON i.id = p.ingredient_id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY p.created_at DESC`,
+      params
+    );
+
+    return result.rows.map(row => this.mapProposalRow(row));
+  }
+
+  /**
+   * Get a single proposal
+   */
+  async getProposal(proposalId: string): Promise<IngredientChangeProposal | null> {
+    const result = await this.db.query(
+      `SELECT p.*, i.name AS ingredient_name
+       FROM ingredient_change_proposals p
+       JOIN ingredients i ON i.id = p.ingredient_id
+       WHERE p.id = $1`,
+      [proposalId]
+    );
+
+    return result.rows[0] ? this.mapProposalRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Version history of an ingredient, newest first
+   */
+  async getHistory(ingredientId: string): Promise<IngredientVersion[]> {
+    const result = await this.db.query(
+      `SELECT * FROM ingredient_versions
+       WHERE ingredient_id = $1
+       ORDER BY version DESC`,
+      [ingredientId]
+    );
+
+    return result.rows.map(row => ({
+      ingredientId: row.ingredient_id,
+      version: row.version,
+      snapshot: row.snapshot,
+      ...(row.change_proposal_id && { changeProposalId: row.change_proposal_id }),
+      ...(row.approved_by && { approvedBy: row.approved_by }),
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Store a snapshot of the current version of each ingredient unless one
+   * exists, so analyses pinned to that version can be replayed later
+   */
+  async recordVersionSnapshots(ingredientIds: string[]): Promise<void> {
+    if (ingredientIds.length === 0) {
+      return;
+    }
+
+    await this.db.query(
+      `INSERT INTO ingredient_versions (ingredient_id, version, snapshot)
+       SELECT i.id, i.version, to_jsonb(i) - 'search_vector'
+       FROM ingredients i
+       WHERE i.id = ANY($1)
+       ON CONFLICT (ingredient_id, version) DO NOTHING`,
+      [[...new Set(ingredientIds)]]
+    );
+  }
+
+  /**
+   * Ingredient records as of the given versions, keyed by "ingredientId:version"
+   */
+  async getVersionSnapshots(pins: { ingredientId: string; version: number }[]): Promise<Map<string, any>> {
+    const snapshots = new Map<string, any>();
+    if (pins.length === 0) {
+      return snapshots;
+    }
+
+    const result = await this.db.query(
+      `SELECT v.ingredient_id, v.version, v.snapshot
+       FROM ingredient_versions v
+       JOIN unnest($1::uuid[], $2::int[]) AS pin(ingredient_id, version)
+         ON pin.ingredient_id = v.ingredient_id AND pin.version = v.version`,
+      [pins.map(pin => pin.ingredientId), pins.map(pin => pin.version)]
+    );
+
+    for (const row of result.rows) {
+      snapshots.set(`${row.ingredient_id}:${row.version}`, row.snapshot);
+    }
+    return snapshots;
+  }
+
+  /**
+   * Current ingredient records, keyed by id
+   */
+  async getCurrentRecords(ingredientIds: string[]): Promise<Map<string, any>> {
+    const records = new Map<string, any>();
+    if (ingredientIds.length === 0) {
+      return records;
+    }
+
+    const result = await this.db.query('SELECT * FROM ingredients WHERE id = ANY($1)', [[...new Set(ingredientIds)]]);
+    for (const row of result.rows) {
+      records.set(row.id, this.snapshot(row));
+    }
+    return records;
+  }
+
+  /**
+   * Approve a pending proposal. The reviewer must not be the proposer and
+   * the ingredient must still be at the version the change was proposed
+   * against. Applies the change, stores the version snapshots and flags
+   * stored analyses that used the ingredient.
+   */
+  async approveProposal(proposalId: string, reviewerId: string, notes?: string): Promise<ApprovalResult> {
+    const approval = await this.db.transaction(async (client) => {
+      const proposal = await this.lockPendingProposal(client, proposalId, reviewerId);
+
+      const current = await this.db.queryWithClient(client, 'SELECT * FROM ingredients WHERE id = $1 FOR UPDATE', [proposal.ingredientId]);
+      const ingredient = current.rows[0];
+      if (ingredient.version !== proposal.baseVersion) {
+        throw reviewError(
+          409,
+          'VERSION_CONFLICT',
+          `Ingredient changed since the proposal (version ${proposal.baseVersion} → ${ingredient.version}); propose the change again`
+        );
+      }
+
+      // Keep the pre-change version so the history is complete
+      await this.db.queryWithClient(
+        client,
+        `INSERT INTO ingredient_versions (ingredient_id, version, snapshot)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (ingredient_id, version) DO NOTHING`,
+        [ingredient.id, ingredient.version, JSON.stringify(this.snapshot(ingredient))]
+      );
+
+      const fields = Object.keys(proposal.changes) as (keyof IngredientChangeSet)[];
+      const assignments = fields.map((field, index) => `${CHANGE_FIELDS[field]} = $${index + 1}`);
+      const updated = await this.db.queryWithClient(
+        client,
+        `UPDATE ingredients
+         SET ${assignments.join(', ')}, version = version + 1, last_reviewed_at = NOW(), reviewed_by = $${fields.length + 1}
+         WHERE id = $${fields.length + 2}
+         RETURNING *`,
+        [...fields.map(field => proposal.changes[field]), reviewerId, ingredient.id]
+      );
+      const revised = updated.rows[0];
+
+      await this.db.queryWithClient(
+        client,
+        `INSERT INTO ingredient_versions (ingredient_id, version, snapshot, change_proposal_id, approved_by)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [revised.id, revised.version, JSON.stringify(this.snapshot(revised)), proposal.id, reviewerId]
+      );
+
+      const reviewed = await this.db.queryWithClient(
+        client,
+        `UPDATE ingredient_change_proposals
+         SET status = $1, reviewed_by = $2, review_notes = $3, reviewed_at = NOW()
+         WHERE id = $4
+         RETURNING *`,
+        [ChangeProposalStatus.APPROVED, reviewerId, notes || null, proposal.id]
+      );
+
+      const flaggedAnalyses = this.affectsVerdicts(proposal.changes)
+        ? await this.flagAffectedAnalyses(client, revised, proposal.id)
+        : 0;
+
+      return {
+        proposal: this.mapProposalRow({ ...reviewed.rows[0], ingredient_name: revised.name }),
+        version: revised.version as number,
+        flaggedAnalyses
+      };
+    });
+
+    logger.info('Knowledge base change approved', {
+      proposalId,
+      ingredientId: approval.proposal.ingredientId,
+      version: approval.version,
+      flaggedAnalyses: approval.flaggedAnalyses
+    });
+
+    return approval;
+  }
+
+  /**
+   * Reject a pending proposal; the ingredient is left unchanged
+   */
+  async rejectProposal(proposalId: string, reviewerId: string, notes?: string): Promise<IngredientChangeProposal> {
+    return this.db.transaction(async (client) => {
+      await this.lockPendingProposal(client, proposalId, reviewerId);
+
+      const result = await this.db.queryWithClient(
+        client,
+        `UPDATE ingredient_change_proposals p
+         SET status = $1, reviewed_by = $2, review_notes = $3, reviewed_at = NOW()
+         FROM ingredients i
+         WHERE p.id = $4 AND i.id = p.ingredient_id
+         RETURNING p.*, i.name AS ingredient_name`,
+        [ChangeProposalStatus.REJECTED, reviewerId, notes || null, proposalId]
+      );
+
+      return this.mapProposalRow(result.rows[0]);
+    });
+  }
+
+  /**
+   * Re-evaluation flags raised for an organization's analyses
+   */
+  async listFlags(organizationId: string, status: ReevaluationFlagStatus = 'OPEN'): Promise<AnalysisReevaluationFlag[]> {
+    const result = await this.db.query(
+      `SELECT f.*, pa.product_name, i.name AS ingredient_name
+       FROM analysis_reevaluation_flags f
+       JOIN product_analyses pa ON pa.id = f.product_analysis_id
+       JOIN ingredients i ON i.id = f.ingredient_id
+       WHERE f.organization_id = $1 AND f.status = $2
+       ORDER BY f.created_at DESC`,
+      [organizationId, status]
+    );
+
+    return result.rows.map(row => this.mapFlagRow(row));
+  }
+
+  /**
+   * Get a flag together with the stored analysis parameters needed to re-run it
+   */
+  async getFlagWithAnalysis(flagId: string, organizationId: string): Promise<{ flag: AnalysisReevaluationFlag; analysis: any } | null> {
+    const result = await this.db.query(
+      `SELECT f.*, pa.product_name, i.name AS ingredient_name,
+              row_to_json(pa) AS analysis
+       FROM analysis_reevaluation_flags f
+       JOIN product_analyses pa ON pa.id = f.product_analysis_id
+       JOIN ingredients i ON i.id = f.ingredient_id
+       WHERE f.id = $1 AND f.organization_id = $2`,
+      [flagId, organizationId]
+    );
+
+    const row = result.rows[0];
+    return row ? { flag: this.mapFlagRow(row), analysis: row.analysis } : null;
+  }
+
+  /**
+   * Resolve an open flag with the result of re-running the analysis
+   */
+  async recordReanalysis(
+    flagId: string,
+    organizationId: string,
+    userId: string,
+    reanalysis: { id: string; overallStatus: HalalStatus }
+  ): Promise<AnalysisReevaluationFlag | null> {
+    return this.resolveFlag(flagId, organizationId, userId, 'REANALYZED', {
+      reanalysisId: reanalysis.id,
+      reanalysisStatus: reanalysis.overallStatus
+    });
+  }
+
+  /**
+   * Close an open flag without re-running the analysis
+   */
+  async dismissFlag(flagId: string, organizationId: string, userId: string, notes?: string): Promise<AnalysisReevaluationFlag | null> {
+    return this.resolveFlag(flagId, organizationId, userId, 'DISMISSED', { ...(notes && { notes }) });
+  }
+
+  private async resolveFlag(
+    flagId: string,
+    organizationId: string,
+    userId: string,
+    status: ReevaluationFlagStatus,
+    resolution: { reanalysisId?: string; reanalysisStatus?: HalalStatus; notes?: string }
+  ): Promise<AnalysisReevaluationFlag | null> {
+    const result = await this.db.query(
+      `UPDATE analysis_reevaluation_flags
+       SET status = $1, reanalysis_id = $2, reanalysis_status = $3, resolution_notes = $4,
+           resolved_by = $5, resolved_at = NOW()
+       WHERE id = $6 AND organization_id = $7 AND status = 'OPEN'
+       RETURNING *`,
+      [
+        status,
+        resolution.reanalysisId || null,
+        resolution.reanalysisStatus || null,
+        resolution.notes || null,
+        userId,
+        flagId,
+        organizationId
+      ]
+    );
+
+    return result.rows[0] ? this.mapFlagRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Lock a proposal for review and enforce the two-person rule
+   */
+  private async lockPendingProposal(client: PoolClient, proposalId: string, reviewerId: string): Promise<IngredientChangeProposal> {
+    const result = await this.db.queryWithClient(
+      client,
+      'SELECT * FROM ingredient_change_proposals WHERE id = $1 FOR UPDATE',
+      [proposalId]
+    );
+    const row = result.rows[0];
+
+    if (!row) {
+      throw reviewError(404, 'PROPOSAL_NOT_FOUND', 'Change proposal not found');
+    }
+
+    const proposal = this.mapProposalRow(row);
+    this.assertReviewable(proposal, reviewerId);
+    return proposal;
+  }
+
+  /**
+   * Flag every stored analysis that used the ingredient, matched by
+   * ingredient id or by any of its names, alternative names and translations
+   */
+  private async flagAffectedAnalyses(client: PoolClient, ingredient: any, proposalId: string): Promise<number> {
+    const names = [ingredient.name, ...(ingredient.alternative_names || [])]
+      .map((name: string) => name.toLowerCase());
+
+    const result = await this.db.queryWithClient(
+      client,
+      `INSERT INTO analysis_reevaluation_flags (
+        product_analysis_id, organization_id, ingredient_id, change_proposal_id,
+        previous_overall_status, previous_ingredient_status, new_ingredient_status
+      )
+      SELECT DISTINCT ON (pa.id) pa.id, pa.organization_id, $1, $2, pa.overall_status, ar.status, $3
+      FROM analysis_results ar
+      JOIN product_analyses pa ON pa.id = ar.product_analysis_id
+      WHERE ar.ingredient_id = $1
+         OR LOWER(ar.detected_name) = ANY($4)
+         OR LOWER(ar.detected_name) IN (
+           SELECT LOWER(name) FROM ingredient_translations WHERE ingredient_id = $1
+         )
+      ORDER BY pa.id, ar.ingredient_id NULLS LAST
+      ON CONFLICT (product_analysis_id, change_proposal_id) DO NOTHING`,
+      [ingredient.id, proposalId, ingredient.default_status, names]
+    );
+
+    return result.rowCount || 0;
+  }
+
+  private currentValues(row: any, changes: IngredientChangeSet): IngredientChangeSet {
+    const previous: Record<string, unknown> = {};
+    for (const field of Object.keys(changes) as (keyof IngredientChangeSet)[]) {
+      previous[field] = row[CHANGE_FIELDS[field]] ?? null;
+    }
+    return previous as IngredientChangeSet;
+  }
+
+  private snapshot(row: any): Record<string, unknown> {
+    const { search_vector: _searchVector, ...snapshot } = row;
+    return snapshot;
+  }
+
+  private isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+
+  private mapProposalRow(row: any): IngredientChangeProposal {
+    return {
+      id: row.id,
+      ingredientId: row.ingredient_id,
+      ...(row.ingredient_name && { ingredientName: row.ingredient_name }),
+      baseVersion: row.base_version,
+      changes: row.changes || {},
+      previousValues: row.previous_values || {},
+      rationale: row.rationale,
+      references: row.source_references || [],
+      status: row.status,
+      proposedBy: row.proposed_by,
+      ...(row.reviewed_by && { reviewedBy: row.reviewed_by }),
+      ...(row.review_notes && { reviewNotes: row.review_notes }),
+      ...(row.reviewed_at && { reviewedAt: row.reviewed_at }),
+      createdAt: row.created_at
+    };
+  }
+
+  private mapFlagRow(row: any): AnalysisReevaluationFlag {
+    return {
+      id: row.id,
+      productAnalysisId: row.product_analysis_id,
+      ...(row.product_name && { productName: row.product_name }),
+      organizationId: row.organization_id,
+      ingredientId: row.ingredient_id,
+      ...(row.ingredient_name && { ingredientName: row.ingredient_name }),
+      changeProposalId: row.change_proposal_id,
+      previousOverallStatus: row.previous_overall_status,
+      previousIngredientStatus: row.previous_ingredient_status,
+      newIngredientStatus: row.new_ingredient_status,
+      status: row.status,
+      ...(row.reanalysis_id && { reanalysisId: row.reanalysis_id }),
+      ...(row.reanalysis_status && {
+        reanalysisStatus: row.reanalysis_status,
+        verdictChanged: row.reanalysis_status !== row.previous_overall_status
+      }),
+      ...(row.resolved_by && { resolvedBy: row.resolved_by }),
+      ...(row.resolution_notes && { resolutionNotes: row.resolution_notes }),
+      ...(row.resolved_at && { resolvedAt: row.resolved_at }),
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * HalalCheck EU - LLM Provider Layer
+ *
+ * Vendor-neutral interface for the language model tasks used by ingredient
+ * analysis and OCR: ingredient list parsing, ingredient classification and
+ * vision text extraction. Providers are selected per organization.
+ */
+
+import { createHash } from 'crypto';
+import { DatabaseService } from './databaseService';
+import { OpenAIProvider } from './openaiProvider';
+import { OfflineProvider } from './offlineProvider';
+import { logger } from '@/utils/logger';
+import { HalalStatus, ParsedIngredient, ResolvedRegionalVariation, RiskLevel } from '@/types/halal';
+import { LLMProviderName } from '@/types/auth';
+
+export type { LLMProviderName };
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'offline'];
+
+export interface ClassificationContext {
+  language: string;
+  region: string;
+  certificationStandard: string;
+}
+
+export interface IngredientClassification {
+  status: HalalStatus;
+  riskLevel: RiskLevel;
+  confidence: number; // 0-1
+  reasoning: string;
+  requiresExpertReview: boolean;
+  warnings: string[];
+  suggestions: string[];
+  eNumbers: string[];
+  categories: string[];
+  regionalVariation?: ResolvedRegionalVariation; // Set when a regional ruling replaced the default status
+}
+
+export interface VisionExtractionRequest {
+  imageBase64: string;
+  mimeType: string;
+  prompt: string;
+  maxTokens: number;
+  language?: string;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+
+  /**
+   * Split a raw label text into individual, standardized ingredient names
+   */
+  parseIngredients(ingredientText: string, language: string): Promise<string[]>;
+
+  /**
+   * Parse a raw label text into a compound ingredient tree. Optional; when not
+   * implemented, entries from parseIngredients are expanded by the label parser.
+   */
+  parseIngredientTree?(ingredientText: string, language: string): Promise<ParsedIngredient[]>;
+
+  /**
+   * Classify a single ingredient for halal compliance
+   */
+  classifyIngredient(ingredient: string, context: ClassificationContext): Promise<IngredientClassification>;
+
+  /**
+   * Extract text from a label image. Returns the raw provider response,
+   * which is expected to follow the JSON shape requested in the prompt.
+   */
+  extractTextFromImage(request: VisionExtractionRequest): Promise<string>;
+
+  /**
+   * Parsing and classification prompts sent for a context; their hash is
+   * recorded in analysis provenance
+   */
+  getPrompts(context: ClassificationContext): string[];
+}
+
+/**
+ * SHA-256 over prompt texts, in order
+ */
+export function hashPrompts(...prompts: string[]): string {
+  const hash = createHash('sha256');
+  for (const prompt of prompts) {
+    hash.update(prompt).update('\0');
+  }
+  return hash.digest('hex');
+}
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Create a provider by name, defaulting to LLM_PROVIDER or OpenAI
+ */
+export function createLLMProvider(name?: LLMProviderName): LLMProvider {
+  const envProvider = process.env.LLM_PROVIDER;
+  const selected = name || (isLLMProviderName(envProvider) ? envProvider : 'openai');
+
+  switch (selected) {
+    case 'offline':
+      return new OfflineProvider();
+    case 'openai':
+    default:
+      return new OpenAIProvider();
+  }
+}
+
+/**
+ * Resolve the provider configured in the organization settings (settings.llmProvider)
+ */
+export async function getLLMProviderForOrganization(
+  organizationId: string,
+  db: DatabaseService = DatabaseService.getInstance()
+): Promise<LLMProvider> {
+  try {
+    const result = await db.query(
+      `SELECT settings->>'llmProvider' AS llm_provider FROM organizations WHERE id = $1`,
+      [organizationId]
+    );
+
+    const configured = result.rows[0]?.llm_provider;
+    if (isLLMProviderName(configured)) {
+      return createLLMProvider(configured);
+    }
+  } catch (error) {
+    logger.warn('Failed to resolve organization LLM provider, using default', {
+      organizationId,
+      error: (error as Error).message
+    });
+  }
+
+  return createLLMProvider();
+}
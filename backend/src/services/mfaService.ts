@@ -0,0 +1,345 @@
+/**
+ * HalalCheck EU - Multi-Factor Authentication Service
+ *
+ * RFC 6238 time-based one-time passwords with one-time backup codes.
+ * Secrets are stored encrypted and backup codes only as keyed hashes. A TOTP
+ * step is accepted once per user so an observed code cannot be replayed.
+ */
+
+import crypto from 'crypto';
+import { DatabaseService } from './databaseService';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/middleware/errorHandler';
+import { decryptSecret, deriveSecretKey, encryptSecret } from '@/utils/secretCipher';
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+export const BACKUP_CODE_COUNT = 10;
+
+// Steps accepted either side of the current one to absorb clock drift
+const TOTP_WINDOW = 1;
+const SECRET_BYTES = 20;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const BACKUP_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export type MfaMethod = 'totp' | 'backup_code';
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface MfaVerification {
+  method: MfaMethod;
+  remainingBackupCodes?: number;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  pendingEnrollment: boolean;
+  requiredByOrganization: boolean;
+  remainingBackupCodes: number;
+}
+
+interface MfaState {
+  email: string;
+  mfa_enabled: boolean;
+  mfa_secret: string | null;
+  mfa_backup_codes: string[] | null;
+  requires_mfa: boolean;
+}
+
+function mfaError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function totpStep(timeMs: number): number {
+  return Math.floor(timeMs / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * HOTP value (RFC 4226) for a counter
+ */
+export function generateHotp(secret: Buffer, counter: number, digits: number = TOTP_DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac('sha1', secret).update(message).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+  return binary.toString().padStart(digits, '0');
+}
+
+export function generateTotp(secret: string, timeMs: number = Date.now()): string {
+  return generateHotp(base32Decode(secret), totpStep(timeMs));
+}
+
+/**
+ * Matching time step for a code, or null when the code is not valid now
+ */
+export function verifyTotp(secret: string, code: string, timeMs: number = Date.now()): number | null {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+  const key = base32Decode(secret);
+  const current = totpStep(timeMs);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const candidate = Buffer.from(generateHotp(key, current + offset));
+    if (crypto.timingSafeEqual(candidate, Buffer.from(code))) {
+      return current + offset;
+    }
+  }
+  return null;
+}
+
+export function provisioningUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export function normalizeBackupCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+export class MfaService {
+  private db: DatabaseService;
+  private key: Buffer;
+  private issuer: string;
+
+  constructor(db?: DatabaseService) {
+    this.db = db || new DatabaseService();
+    // Prefer a dedicated key so rotating the JWT secret doesn't invalidate enrolled authenticators
+    const passphrase = process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET;
+    if (!passphrase) {
+      // Refuse to start rather than encrypt authenticator seeds with a key derived from nothing
+      throw new Error('MFA_ENCRYPTION_KEY or JWT_SECRET must be set to encrypt MFA secrets');
+    }
+    this.key = deriveSecretKey(passphrase);
+    this.issuer = process.env.MFA_ISSUER || 'HalalCheck EU';
+  }
+
+  /**
+   * Start enrollment: store a new pending secret and return it for the authenticator app
+   */
+  async beginEnrollment(userId: string): Promise<MfaEnrollment> {
+    const state = await this.loadState(userId);
+    if (state.mfa_enabled) {
+      throw mfaError(409, 'MFA_ALREADY_ENABLED', 'Multi-factor authentication is already enabled');
+    }
+
+    const secret = base32Encode(crypto.randomBytes(SECRET_BYTES));
+    await this.db.query(
+      'UPDATE users SET mfa_secret = $2, mfa_backup_codes = NULL, mfa_last_used_step = NULL, updated_at = NOW() WHERE id = $1',
+      [userId, encryptSecret(secret, this.key)]
+    );
+
+    return { secret, otpauthUrl: provisioningUri(secret, state.email, this.issuer) };
+  }
+
+  /**
+   * Finish enrollment with a code from the authenticator; returns the backup codes once
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const state = await this.loadState(userId);
+    if (state.mfa_enabled) {
+      throw mfaError(409, 'MFA_ALREADY_ENABLED', 'Multi-factor authentication is already enabled');
+    }
+    if (!state.mfa_secret) {
+      throw mfaError(400, 'MFA_NOT_PENDING', 'Start MFA setup before confirming it');
+    }
+
+    const step = verifyTotp(decryptSecret(state.mfa_secret, this.key), code);
+    if (step === null) {
+      throw mfaError(400, 'INVALID_MFA_CODE', 'Invalid MFA code');
+    }
+
+    const backupCodes = this.generateBackupCodes();
+    await this.db.query(
+      `UPDATE users
+       SET mfa_enabled = TRUE, mfa_backup_codes = $2, mfa_last_used_step = $3, updated_at = NOW()
+       WHERE id = $1`,
+      [userId, backupCodes.map(backupCode => this.hashBackupCode(backupCode)), step]
+    );
+
+    logger.info('MFA enabled', { userId });
+    return backupCodes;
+  }
+
+  /**
+   * Check a TOTP or backup code. Backup codes and TOTP steps are consumed atomically.
+   */
+  async verifyCode(userId: string, code: string): Promise<MfaVerification | null> {
+    const state = await this.loadState(userId);
+    if (!state.mfa_enabled || !state.mfa_secret) {
+      return null;
+    }
+
+    const trimmed = code.trim();
+    const step = verifyTotp(decryptSecret(state.mfa_secret, this.key), trimmed);
+    if (step !== null) {
+      const result = await this.db.query(
+        `UPDATE users SET mfa_last_used_step = $2
+         WHERE id = $1 AND (mfa_last_used_step IS NULL OR mfa_last_used_step < $2)
+         RETURNING id`,
+        [userId, step]
+      );
+      if (result.rowCount === 0) {
+        logger.warn('Rejected replayed MFA code', { userId });
+        return null;
+      }
+      return { method: 'totp' };
+    }
+
+    const hash = this.hashBackupCode(trimmed);
+    const result = await this.db.query<{ remaining: number }>(
+      `UPDATE users SET mfa_backup_codes = array_remove(mfa_backup_codes, $2), updated_at = NOW()
+       WHERE id = $1 AND $2 = ANY(mfa_backup_codes)
+       RETURNING COALESCE(cardinality(mfa_backup_codes), 0) AS remaining`,
+      [userId, hash]
+    );
+    if (result.rowCount === 0) {
+      return null;
+    }
+
+    const remainingBackupCodes = Number(result.rows[0]!.remaining);
+    logger.warn('MFA backup code used', { userId, remainingBackupCodes });
+    return { method: 'backup_code', remainingBackupCodes };
+  }
+
+  /**
+   * Replace all backup codes after verifying a current code
+   */
+  async regenerateBackupCodes(userId: string, code: string): Promise<string[]> {
+    if (!(await this.verifyCode(userId, code))) {
+      throw mfaError(400, 'INVALID_MFA_CODE', 'Invalid MFA code');
+    }
+
+    const backupCodes = this.generateBackupCodes();
+    await this.db.query(
+      'UPDATE users SET mfa_backup_codes = $2, updated_at = NOW() WHERE id = $1',
+      [userId, backupCodes.map(backupCode => this.hashBackupCode(backupCode))]
+    );
+    return backupCodes;
+  }
+
+  /**
+   * Turn MFA off; not allowed while the organization enforces it
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    const state = await this.loadState(userId);
+    if (state.requires_mfa) {
+      throw mfaError(403, 'MFA_REQUIRED_BY_ORGANIZATION', 'Your organization requires multi-factor authentication');
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw mfaError(400, 'INVALID_MFA_CODE', 'Invalid MFA code');
+    }
+
+    await this.clear(userId);
+    logger.info('MFA disabled', { userId });
+  }
+
+  /**
+   * Remove a user's second factor so they can enroll again, e.g. after losing their device
+   */
+  async reset(userId: string): Promise<void> {
+    await this.clear(userId);
+    logger.warn('MFA reset', { userId });
+  }
+
+  async getStatus(userId: string): Promise<MfaStatus> {
+    const state = await this.loadState(userId);
+    return {
+      enabled: state.mfa_enabled,
+      pendingEnrollment: !state.mfa_enabled && Boolean(state.mfa_secret),
+      requiredByOrganization: state.requires_mfa,
+      remainingBackupCodes: state.mfa_enabled ? (state.mfa_backup_codes || []).length : 0
+    };
+  }
+
+  /**
+   * Whether the user must enroll before doing anything else
+   */
+  async isEnrollmentRequired(userId: string): Promise<boolean> {
+    const state = await this.loadState(userId);
+    return state.requires_mfa && !state.mfa_enabled;
+  }
+
+  hashBackupCode(code: string): string {
+    return crypto.createHmac('sha256', this.key).update(normalizeBackupCode(code)).digest('hex');
+  }
+
+  private generateBackupCodes(): string[] {
+    return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const chars = Array.from(crypto.randomBytes(10), byte => BACKUP_CODE_ALPHABET[byte % BACKUP_CODE_ALPHABET.length]);
+      return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+    });
+  }
+
+  private async clear(userId: string): Promise<void> {
+    await this.db.query(
+      `UPDATE users
+       SET mfa_enabled = FALSE, mfa_secret = NULL, mfa_backup_codes = NULL, mfa_last_used_step = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [userId]
+    );
+  }
+
+  private async loadState(userId: string): Promise<MfaState> {
+    const result = await this.db.query<MfaState>(
+      `SELECT u.email, u.mfa_enabled, u.mfa_secret, u.mfa_backup_codes, COALESCE(o.requires_mfa, FALSE) AS requires_mfa
+       FROM users u
+       LEFT JOIN organizations o ON o.id = u.organization_id
+       WHERE u.id = $1`,
+      [userId]
+    );
+    const state = result.rows[0];
+    if (!state) {
+      throw mfaError(404, 'USER_NOT_FOUND', 'User not found');
+    }
+    return state;
+  }
+}
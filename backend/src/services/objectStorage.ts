@@ -0,0 +1,61 @@
+/**
+ * HalalCheck EU - Object Storage Layer
+ *
+ * Backend-neutral storage for generated files such as reports. The
+ * filesystem backend keeps objects under STORAGE_DIR; the S3 backend works
+ * with AWS S3 and S3-compatible stores (MinIO, Ceph, R2). The backend is
+ * selected with STORAGE_BACKEND.
+ */
+
+import { FilesystemStorage } from './filesystemStorage';
+import { S3Storage } from './s3Storage';
+
+export type StorageBackendName = 'filesystem' | 's3';
+
+export const STORAGE_BACKENDS: StorageBackendName[] = ['filesystem', 's3'];
+
+export interface ObjectStorage {
+  readonly name: StorageBackendName;
+
+  /**
+   * Store an object, replacing any object with the same key
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Object contents, or null when the key does not exist
+   */
+  get(key: string): Promise<Buffer | null>;
+
+  /**
+   * Remove an object; removing a missing key is not an error
+   */
+  delete(key: string): Promise<void>;
+}
+
+// Keys are relative paths of safe segments, e.g. reports/<org>/<id>.pdf
+const KEY_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]*(\/[A-Za-z0-9_-][A-Za-z0-9._-]*)*$/;
+
+export function isValidObjectKey(key: string): boolean {
+  return key.length <= 500 && KEY_PATTERN.test(key);
+}
+
+export function isStorageBackendName(value: unknown): value is StorageBackendName {
+  return typeof value === 'string' && (STORAGE_BACKENDS as string[]).includes(value);
+}
+
+/**
+ * Create a storage backend by name, defaulting to STORAGE_BACKEND or the filesystem
+ */
+export function createObjectStorage(name?: StorageBackendName): ObjectStorage {
+  const envBackend = process.env.STORAGE_BACKEND;
+  const selected = name || (isStorageBackendName(envBackend) ? envBackend : 'filesystem');
+
+  switch (selected) {
+    case 's3':
+      return new S3Storage();
+    case 'filesystem':
+    default:
+      return new FilesystemStorage();
+  }
+}
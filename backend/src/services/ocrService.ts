@@ -5,7 +5,7 @@
  * Supports multiple image formats and languages
  */
 
-import OpenAI from 'openai';
+import { LLMProvider, createLLMProvider, getLLMProviderForOrganization } from './llmProvider';
 import { logger } from '@/utils/logger';
 import multer from 'multer';
 import path from 'path';
@@ -28,13 +28,16 @@ export interface ImageUploadResult {
 }
 
 export class OCRService {
-  private openai: OpenAI;
+  private provider?: LLMProvider;
   private uploadDir: string;
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
+  /**
+   * @param provider Fixed LLM provider; when omitted the organization's configured provider is used
+   */
+  constructor(provider?: LLMProvider) {
+    if (provider) {
+      this.provider = provider;
+    }
     this.uploadDir = process.env.UPLOAD_DIR || './uploads';
     this.ensureUploadDirectory();
   }
@@ -75,9 +78,13 @@ export class OCRService {
   }
 
   /**
-   * Extract text from uploaded image using OpenAI Vision API
+   * Extract text from uploaded image using the LLM provider's vision OCR
    */
-  async extractTextFromImage(imagePath: string, language: string = 'auto'): Promise<OCRResult> {
+  async extractTextFromImage(
+    imagePath: string,
+    language: string = 'auto',
+    organizationId?: string
+  ): Promise<OCRResult> {
     const startTime = Date.now();
 
     try {
@@ -91,36 +98,16 @@ export class OCRService {
       const base64Image = imageBuffer.toString('base64');
       const mimeType = this.getMimeTypeFromPath(imagePath);
 
-      // Use OpenAI Vision API for OCR
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-vision-preview',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: this.createOCRPrompt(language)
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: `data:${mimeType};base64,${base64Image}`,
-                  detail: 'high'
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 1500,
-        temperature: 0.1
+      // Use the provider's vision OCR
+      const provider = await this.resolveProvider(organizationId);
+      const extractedContent = await provider.extractTextFromImage({
+        imageBase64: base64Image,
+        mimeType,
+        prompt: this.createOCRPrompt(language),
+        maxTokens: 1500,
+        ...(language !== 'auto' && { language })
       });
 
-      const extractedContent = response.choices[0]?.message?.content;
-      if (!extractedContent) {
-        throw new Error('No text extracted from image');
-      }
-
       // Parse the response to extract text and confidence
       const result = this.parseOCRResponse(extractedContent);
       
@@ -153,10 +140,14 @@ export class OCRService {
   /**
    * Process ingredient label image with enhanced extraction
    */
-  async processIngredientLabel(imagePath: string, language: string = 'auto'): Promise<OCRResult> {
+  async processIngredientLabel(
+    imagePath: string,
+    language: string = 'auto',
+    organizationId?: string
+  ): Promise<OCRResult> {
     try {
       // First attempt: Standard OCR
-      const ocrResult = await this.extractTextFromImage(imagePath, language);
+      const ocrResult = await this.extractTextFromImage(imagePath, language, organizationId);
 
       // If confidence is low, try enhanced processing
       if (ocrResult.confidence < 0.7) {
@@ -164,7 +155,7 @@ export class OCRService {
           initialConfidence: ocrResult.confidence
         });
 
-        const enhancedResult = await this.enhancedIngredientExtraction(imagePath, language);
+        const enhancedResult = await this.enhancedIngredientExtraction(imagePath, language, organizationId);
         if (enhancedResult.confidence > ocrResult.confidence) {
           return enhancedResult;
         }
@@ -184,7 +175,11 @@ export class OCRService {
   /**
    * Enhanced ingredient extraction with specialized prompting
    */
-  private async enhancedIngredientExtraction(imagePath: string, language: string): Promise<OCRResult> {
+  private async enhancedIngredientExtraction(
+    imagePath: string,
+    language: string,
+    organizationId?: string
+  ): Promise<OCRResult> {
     const startTime = Date.now();
 
     try {
@@ -192,35 +187,15 @@ export class OCRService {
       const base64Image = imageBuffer.toString('base64');
       const mimeType = this.getMimeTypeFromPath(imagePath);
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-vision-preview',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: this.createEnhancedIngredientPrompt(language)
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: `data:${mimeType};base64,${base64Image}`,
-                  detail: 'high'
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 2000,
-        temperature: 0.1
+      const provider = await this.resolveProvider(organizationId);
+      const extractedContent = await provider.extractTextFromImage({
+        imageBase64: base64Image,
+        mimeType,
+        prompt: this.createEnhancedIngredientPrompt(language),
+        maxTokens: 2000,
+        ...(language !== 'auto' && { language })
       });
 
-      const extractedContent = response.choices[0]?.message?.content;
-      if (!extractedContent) {
-        throw new Error('Enhanced extraction failed');
-      }
-
       const result = this.parseOCRResponse(extractedContent);
 
       return {
@@ -342,7 +317,19 @@ Return JSON format:
   }
 
   /**
-   * Parse OCR response from OpenAI
+   * Resolve the fixed provider or the organization's configured provider
+   */
+  private async resolveProvider(organizationId?: string): Promise<LLMProvider> {
+    if (this.provider) {
+      return this.provider;
+    }
+    return organizationId
+      ? await getLLMProviderForOrganization(organizationId)
+      : createLLMProvider();
+  }
+
+  /**
+   * Parse OCR response from the LLM provider
    */
   private parseOCRResponse(response: string): {
     text: string;
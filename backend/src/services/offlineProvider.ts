@@ -0,0 +1,308 @@
+/**
+ * HalalCheck EU - Offline Provider
+ *
+ * Deterministic, rule-based LLM provider for air-gapped and test environments.
+ * Parsing and classification are driven purely by the expert-verified
+ * E_NUMBERS_COMPLETE and CORE_INGREDIENTS data; vision OCR uses a local
+ * Tesseract worker. The same input always produces the same output.
+ */
+
+import { createWorker } from 'tesseract.js';
+import { logger } from '@/utils/logger';
+import { Ingredient, HalalStatus, ParsedIngredient, RiskLevel } from '@/types/halal';
+import { CORE_INGREDIENTS } from '@/data/ingredients/core-ingredients';
+import { E_NUMBERS_COMPLETE } from '@/data/ingredients/e-numbers-complete';
+import {
+  LLMProvider,
+  LLMProviderName,
+  ClassificationContext,
+  IngredientClassification,
+  VisionExtractionRequest
+} from './llmProvider';
+import { resolveRegionalVariation } from './regionalVariationService';
+import { IngredientLabelParser, LABEL_PREFIX } from './ingredientLabelParser';
+import { IngredientSynonymIndex } from './ingredientSynonymIndex';
+
+type MatchType = 'E_NUMBER' | 'EXACT' | 'ALIAS' | 'PARTIAL';
+
+interface KnowledgeBaseMatch {
+  ingredient: Ingredient;
+  matchType: MatchType;
+  confidence: number;
+}
+
+const MATCH_CONFIDENCE: Record<MatchType, number> = {
+  E_NUMBER: 0.95,
+  EXACT: 0.9,
+  ALIAS: 0.85,
+  PARTIAL: 0.6
+};
+
+const E_NUMBER_PATTERN = /\bE\s?-?(\d{3,4})([a-z])?\b/i;
+const MIN_PARTIAL_LENGTH = 5;
+const MIN_SYNONYM_CONFIDENCE = 0.7;
+
+const TESSERACT_LANGUAGES: Record<string, string> = {
+  en: 'eng',
+  nl: 'nld',
+  de: 'deu',
+  fr: 'fra',
+  ar: 'ara',
+  tr: 'tur'
+};
+
+export class OfflineProvider implements LLMProvider {
+  public readonly name: LLMProviderName = 'offline';
+  public readonly model = 'halalcheck-rules-v1';
+  private readonly knowledgeBase: Ingredient[];
+  private readonly labelParser: IngredientLabelParser;
+  private readonly synonymIndex: IngredientSynonymIndex;
+
+  constructor() {
+    // Core ingredients carry richer, reviewed data and take precedence
+    this.knowledgeBase = [...CORE_INGREDIENTS, ...E_NUMBERS_COMPLETE];
+    this.labelParser = new IngredientLabelParser();
+    this.synonymIndex = new IngredientSynonymIndex(this.knowledgeBase);
+  }
+
+  /**
+   * Split label text on top-level separators and standardize each entry
+   */
+  async parseIngredients(ingredientText: string, language: string): Promise<string[]> {
+    const body = ingredientText.replace(LABEL_PREFIX, '');
+
+    return this.splitTopLevel(body)
+      .map(token => this.standardizeName(token, language))
+      .filter(token => token.length > 0);
+  }
+
+  /**
+   * Parse label text into a compound ingredient tree with standardized names
+   */
+  async parseIngredientTree(ingredientText: string, language: string): Promise<ParsedIngredient[]> {
+    return this.standardizeTree(this.labelParser.parse(ingredientText), language);
+  }
+
+  /**
+   * Classify an ingredient from the local knowledge base
+   */
+  async classifyIngredient(ingredient: string, context: ClassificationContext): Promise<IngredientClassification> {
+    const match = this.findIngredient(ingredient, context.language);
+
+    if (!match) {
+      return {
+        status: HalalStatus.UNCERTAIN,
+        riskLevel: RiskLevel.MEDIUM,
+        confidence: 0.3,
+        reasoning: `"${ingredient}" is not in the offline ingredient knowledge base. Manual review required.`,
+        requiresExpertReview: true,
+        warnings: ['Ingredient not found in offline knowledge base'],
+        suggestions: ['Consult halal certification expert'],
+        eNumbers: [],
+        categories: []
+      };
+    }
+
+    const { ingredient: record, matchType, confidence } = match;
+    const rulings = record.islamicRulings || [];
+    const variation = resolveRegionalVariation(
+      record.regionalVariations || [],
+      context.region,
+      context.certificationStandard
+    );
+
+    const reasoning = [
+      record.description,
+      variation ? `${variation.region} (${variation.standard}): ${variation.reasoning}` : undefined,
+      rulings.length > 0 ? `Rulings: ${rulings.join('; ')}` : undefined
+    ].filter(Boolean).join('. ');
+
+    const warnings: string[] = [];
+    if (record.requiresExpertReview && record.expertReviewReason) {
+      warnings.push(record.expertReviewReason);
+    }
+    if (record.crossContaminationRisk) {
+      warnings.push(record.crossContaminationNotes || 'Cross-contamination risk');
+    }
+    if (record.requiresCertificate) {
+      warnings.push('Halal certificate required from supplier');
+    }
+    if (matchType === 'PARTIAL') {
+      warnings.push(`Partial name match with "${record.name}" - verify identity`);
+    }
+
+    const suggestions = (record.sources || [])
+      .filter(source => source.isHalal && source.certificationRequired)
+      .map(source => `Use ${source.name} source with halal certification`);
+
+    return {
+      status: variation ? variation.status : record.defaultStatus,
+      riskLevel: record.riskLevel,
+      confidence,
+      reasoning,
+      requiresExpertReview: record.requiresExpertReview || matchType === 'PARTIAL',
+      warnings,
+      suggestions,
+      eNumbers: record.eNumber ? [record.eNumber] : [],
+      categories: record.category ? [record.category.toLowerCase()] : [],
+      ...(variation && { regionalVariation: variation })
+    };
+  }
+
+  /**
+   * Extract label text with a local Tesseract worker.
+   * Traineddata is loaded from TESSERACT_LANG_PATH so no network access is needed.
+   */
+  async extractTextFromImage(request: VisionExtractionRequest): Promise<string> {
+    const language = TESSERACT_LANGUAGES[request.language || 'en'] || 'eng';
+    const langPath = process.env.TESSERACT_LANG_PATH;
+    const worker = await createWorker(language, 1, langPath ? { langPath } : {});
+
+    try {
+      const { data } = await worker.recognize(Buffer.from(request.imageBase64, 'base64'));
+
+      logger.debug('Offline OCR extraction completed', {
+        language,
+        confidence: data.confidence,
+        textLength: data.text.length
+      });
+
+      return JSON.stringify({
+        extractedText: data.text.trim(),
+        confidence: Math.round(data.confidence) / 100,
+        detectedLanguage: request.language || 'en'
+      });
+    } finally {
+      await worker.terminate();
+    }
+  }
+
+  /**
+   * Rule-based; no prompts are sent. The model name versions the rules.
+   */
+  getPrompts(_context: ClassificationContext): string[] {
+    return [];
+  }
+
+  /**
+   * Look up an ingredient by E-number, name, multilingual synonym and finally partial name
+   */
+  private findIngredient(name: string, language?: string): KnowledgeBaseMatch | null {
+    const eNumber = this.extractENumber(name);
+    if (eNumber) {
+      const ingredient = this.knowledgeBase.find(ing => ing.eNumber?.toLowerCase() === eNumber.toLowerCase());
+      if (ingredient) {
+        return { ingredient, matchType: 'E_NUMBER', confidence: MATCH_CONFIDENCE.E_NUMBER };
+      }
+    }
+
+    const normalized = this.normalize(name);
+    if (!normalized) {
+      return null;
+    }
+
+    const exact = this.knowledgeBase.find(ing => this.nameKeys(ing.name).includes(normalized));
+    if (exact) {
+      return { ingredient: exact, matchType: 'EXACT', confidence: MATCH_CONFIDENCE.EXACT };
+    }
+
+    const synonym = this.synonymIndex.lookup(name, language);
+    if (synonym?.ingredient && synonym.confidence >= MIN_SYNONYM_CONFIDENCE) {
+      return {
+        ingredient: synonym.ingredient,
+        matchType: 'ALIAS',
+        confidence: Math.min(MATCH_CONFIDENCE.ALIAS, synonym.confidence)
+      };
+    }
+
+    if (normalized.length >= MIN_PARTIAL_LENGTH) {
+      const partial = this.knowledgeBase.find(ing =>
+        [...this.nameKeys(ing.name), ...this.aliasKeys(ing)].some(key =>
+          key.length >= MIN_PARTIAL_LENGTH && (key.includes(normalized) || normalized.includes(key))
+        )
+      );
+      if (partial) {
+        return { ingredient: partial, matchType: 'PARTIAL', confidence: MATCH_CONFIDENCE.PARTIAL };
+      }
+    }
+
+    return null;
+  }
+
+  private splitTopLevel(text: string): string[] {
+    const tokens: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of text) {
+      if (char === '(' || char === '[') depth++;
+      if ((char === ')' || char === ']') && depth > 0) depth--;
+
+      if ((char === ',' || char === ';') && depth === 0) {
+        tokens.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    tokens.push(current);
+
+    return tokens;
+  }
+
+  private standardizeTree(nodes: ParsedIngredient[], language: string): ParsedIngredient[] {
+    return nodes.map(node => ({
+      ...node,
+      name: node.name ? this.standardizeName(node.name, language) : node.name,
+      children: this.standardizeTree(node.children, language)
+    }));
+  }
+
+  private standardizeName(token: string, language?: string): string {
+    // "emulsifier (E471)" -> "E471"; compound entries keep their full text
+    const eNumber = /[,;]/.test(token) ? null : this.extractENumber(token);
+    if (eNumber) {
+      return eNumber;
+    }
+
+    const cleaned = token
+      .replace(/\d+(?:[.,]\d+)?\s*%/g, '')
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s.:*-]+|[\s.:*]+$/g, '')
+      .trim();
+
+    // Use the standard English name when the label term is a known non-English synonym
+    const synonym = this.synonymIndex.lookup(cleaned, language);
+    if (synonym?.ingredient && synonym.language !== 'en' && synonym.confidence >= MIN_SYNONYM_CONFIDENCE) {
+      return synonym.ingredient.name;
+    }
+
+    return cleaned;
+  }
+
+  private extractENumber(text: string): string | null {
+    const match = text.match(E_NUMBER_PATTERN);
+    return match ? `E${match[1]}${(match[2] || '').toLowerCase()}` : null;
+  }
+
+  private nameKeys(name: string): string[] {
+    const keys = [this.normalize(name)];
+    const withoutParens = this.normalize(name.replace(/\([^)]*\)/g, ''));
+    if (withoutParens && !keys.includes(withoutParens)) {
+      keys.push(withoutParens);
+    }
+    return keys;
+  }
+
+  private aliasKeys(ingredient: Ingredient): string[] {
+    const aliases = [
+      ...(ingredient.alternativeNames || []),
+      ...Object.values(ingredient.translations || {}).map(translation => translation.name)
+    ];
+    return aliases.flatMap(alias => this.nameKeys(alias));
+  }
+
+  private normalize(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+}
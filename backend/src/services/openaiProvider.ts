@@ -0,0 +1,202 @@
+/**
+ * HalalCheck EU - OpenAI Provider
+ *
+ * LLM provider backed by the OpenAI chat completions API (GPT-4 and vision models)
+ */
+
+import OpenAI from 'openai';
+import { logger } from '@/utils/logger';
+import { HalalStatus, RiskLevel } from '@/types/halal';
+import {
+  LLMProvider,
+  LLMProviderName,
+  ClassificationContext,
+  IngredientClassification,
+  VisionExtractionRequest
+} from './llmProvider';
+
+export class OpenAIProvider implements LLMProvider {
+  public readonly name: LLMProviderName = 'openai';
+  public readonly model: string;
+  private readonly visionModel: string;
+  private openai: OpenAI;
+
+  constructor(openai?: OpenAI) {
+    this.openai = openai || new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY
+    });
+    this.model = process.env.OPENAI_MODEL || 'gpt-4';
+    this.visionModel = process.env.OPENAI_VISION_MODEL || 'gpt-4-vision-preview';
+  }
+
+  /**
+   * Parse ingredient list using GPT-4
+   */
+  async parseIngredients(ingredientText: string, language: string): Promise<string[]> {
+    const systemPrompt = this.parsePrompt(language);
+
+    const response = await this.openai.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `Parse these ingredients: ${ingredientText}` }
+      ],
+      temperature: 0.1,
+      max_tokens: 1000
+    });
+
+    const parsedText = response.choices[0]?.message?.content?.trim();
+    if (!parsedText) {
+      throw new Error('No ingredients parsed from OpenAI response');
+    }
+
+    return parsedText
+      .split('\n')
+      .map(ing => ing.trim())
+      .filter(ing => ing.length > 0 && !ing.match(/^\d+\.?\s*$/)); // Remove numbering
+  }
+
+  /**
+   * Classify a single ingredient using GPT-4
+   */
+  async classifyIngredient(ingredient: string, context: ClassificationContext): Promise<IngredientClassification> {
+    const systemPrompt = this.classificationPrompt(context);
+
+    const response = await this.openai.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `Analyze this ingredient for halal compliance: ${ingredient}` }
+      ],
+      temperature: 0.1,
+      max_tokens: 800
+    });
+
+    const analysisText = response.choices[0]?.message?.content?.trim();
+    if (!analysisText) {
+      throw new Error('No analysis returned from OpenAI');
+    }
+
+    const analysis = JSON.parse(analysisText);
+
+    return {
+      status: analysis.status as HalalStatus,
+      riskLevel: analysis.riskLevel as RiskLevel,
+      confidence: analysis.confidence || 0.5,
+      reasoning: analysis.reasoning || 'AI analysis completed',
+      requiresExpertReview: analysis.requiresExpertReview || false,
+      warnings: analysis.warnings || [],
+      suggestions: analysis.suggestions || [],
+      eNumbers: analysis.eNumbers || [],
+      categories: analysis.categories || []
+    };
+  }
+
+  /**
+   * Extract label text using the OpenAI Vision API
+   */
+  async extractTextFromImage(request: VisionExtractionRequest): Promise<string> {
+    const response = await this.openai.chat.completions.create({
+      model: this.visionModel,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: request.prompt
+            },
+            {
+              type: 'image_url',
+              image_url: {
+                url: `data:${request.mimeType};base64,${request.imageBase64}`,
+                detail: 'high'
+              }
+            }
+          ]
+        }
+      ],
+      max_tokens: request.maxTokens,
+      temperature: 0.1
+    });
+
+    const extractedContent = response.choices[0]?.message?.content;
+    if (!extractedContent) {
+      throw new Error('No text extracted from image');
+    }
+
+    logger.debug('OpenAI vision extraction completed', {
+      model: this.visionModel,
+      contentLength: extractedContent.length
+    });
+
+    return extractedContent;
+  }
+
+  /**
+   * Parsing and classification prompts for a context
+   */
+  getPrompts(context: ClassificationContext): string[] {
+    return [this.parsePrompt(context.language), this.classificationPrompt(context)];
+  }
+
+  private parsePrompt(language: string): string {
+    return `You are an expert ingredient parser for halal food certification. Your task is to extract and standardize ingredient names from product labels.
+
+INSTRUCTIONS:
+1. Parse the ingredient list and extract individual ingredient names
+2. Standardize ingredient names (e.g., "E471" not "emulsifier E471")
+3. Keep each compound ingredient on one line with its sub-ingredients in brackets, e.g. "chocolate 20% (sugar, cocoa butter, E322)"
+4. Keep percentages; remove other quantity indicators and non-ingredient text
+5. Return ONLY ingredient names, one per line
+6. Use standard English names regardless of input language
+7. If you see E-numbers, keep them as "E123" format
+
+INPUT LANGUAGE: ${language}
+REGION CONTEXT: Focus on ingredients commonly found in European/Middle Eastern products
+
+Return ingredients separated by newlines, nothing else.`;
+  }
+
+  private classificationPrompt(context: ClassificationContext): string {
+    return `You are a world-class halal food certification expert with deep knowledge of Islamic dietary laws and food science.
+
+CERTIFICATION STANDARD: ${context.certificationStandard}
+REGION: ${context.region}
+LANGUAGE: ${context.language}
+
+Your task: Analyze ingredients for halal compliance with absolute precision.
+
+HALAL STATUS DEFINITIONS:
+- HALAL: Completely permissible under Islamic law
+- HARAM: Absolutely forbidden under Islamic law
+- MASHBOOH: Doubtful/questionable, avoid due to uncertainty
+- UNCERTAIN: Cannot determine without more information
+
+RISK LEVELS:
+- LOW: No halal concerns
+- MEDIUM: Minor concerns or sourcing dependent
+- HIGH: Major concerns or likely problematic
+
+CRITICAL RULES:
+1. When in doubt, choose MASHBOOH or UNCERTAIN - never guess
+2. Consider source, processing methods, cross-contamination
+3. E-numbers: Many are synthetic and halal, but verify each
+4. Animal-derived ingredients: Assume haram unless certified halal
+5. Alcohol/wine-based ingredients: Always haram
+6. Be extremely cautious with gelatin, enzymes, emulsifiers
+
+Respond in JSON format:
+{
+  "status": "HALAL|HARAM|MASHBOOH|UNCERTAIN",
+  "riskLevel": "LOW|MEDIUM|HIGH",
+  "confidence": 0.95,
+  "reasoning": "Detailed Islamic ruling explanation",
+  "requiresExpertReview": false,
+  "warnings": ["warning1", "warning2"],
+  "suggestions": ["suggestion1", "suggestion2"],
+  "eNumbers": ["E123"],
+  "categories": ["emulsifier", "preservative"]
+}`;
+  }
+}
@@ -0,0 +1,686 @@
+/**
+ * HalalCheck EU - Pipeline Document Service
+ *
+ * Supporting documents of pipeline applications. Each organization keeps a
+ * checklist of the documents an application needs (supplier halal
+ * certificates, specifications, flowcharts, ...). Uploaded files go to object
+ * storage and wait for the agent system, which claims them, parses them with
+ * the document processing agent and reports what it extracted. The file is
+ * then matched to a checklist item and the expiry date of a certificate found
+ * in it is tracked, so expired and soon-expiring supplier certificates show
+ * up before they hold up a certification.
+ */
+
+import path from 'path';
+import crypto from 'crypto';
+import { DatabaseService } from './databaseService';
+import { PipelineService } from './pipelineService';
+import { ObjectStorage, createObjectStorage } from './objectStorage';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/middleware/errorHandler';
+import {
+  ApplicationChecklist,
+  ChecklistItemState,
+  ChecklistItemStatus,
+  DOCUMENT_CATEGORIES,
+  DocumentCategory,
+  DocumentChecklist,
+  DocumentChecklistItem,
+  DocumentExtractionResult,
+  ExpiringDocument,
+  ExtractedDocumentData,
+  PipelineDocument,
+  UpdatePipelineDocumentRequest
+} from '@/types/pipeline';
+
+export const MAX_DOCUMENT_SIZE = 20 * 1024 * 1024; // 20MB
+
+export const DOCUMENT_CONTENT_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/tiff',
+  'text/plain',
+  'text/csv',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ITEM_KEY_PATTERN = /^[a-z0-9][a-z0-9-]{0,99}$/;
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})/;
+const MAX_CHECKLIST_ITEMS = 30;
+const MAX_TITLE_LENGTH = 255;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_FILE_NAME_LENGTH = 255;
+const MAX_EXTRACTION_BYTES = 100 * 1024;
+const MAX_CLAIM_BATCH = 20;
+const MAX_PROCESSING_ATTEMPTS = 3;
+const PROCESSING_TIMEOUT_SECONDS = 15 * 60; // A claim older than this is given to the next agent
+const EXPIRY_WARNING_DAYS = 30;
+const MAX_EXPIRY_WINDOW_DAYS = 365;
+
+// Applies until an organization saves its own checklist
+export const DEFAULT_CHECKLIST: DocumentChecklistItem[] = [
+  {
+    key: 'supplier-halal-certificates',
+    title: 'Supplier halal certificates',
+    description: 'A valid halal certificate from each supplier of animal-derived or high-risk ingredients',
+    category: 'supplier-certificate',
+    required: true,
+    tracksExpiry: true
+  },
+  {
+    key: 'product-specifications',
+    title: 'Product and ingredient specifications',
+    description: 'Specification or technical data sheet of the product and each of its ingredients',
+    category: 'specification',
+    required: true,
+    tracksExpiry: false
+  },
+  {
+    key: 'production-flowchart',
+    title: 'Production flowchart',
+    description: 'Process flow from raw materials to packaging, including cleaning between production runs',
+    category: 'flowchart',
+    required: true,
+    tracksExpiry: false
+  }
+];
+
+// File names that point at a category when the file itself did not
+const CATEGORY_KEYWORDS: Record<DocumentCategory, RegExp | null> = {
+  'supplier-certificate': /halal|certif/i,
+  specification: /spec|data[\s_-]?sheet|\btds\b/i,
+  flowchart: /flow|process/i,
+  other: null
+};
+
+function documentError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+function isText(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.length <= maxLength;
+}
+
+/**
+ * The YYYY-MM-DD part of a date string, or null
+ */
+function toDateOnly(value: unknown): string | null {
+  if (value instanceof Date) {
+    // pg parses DATE columns as local midnight
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+  const match = typeof value === 'string' ? DATE_PATTERN.exec(value) : null;
+  return match && !Number.isNaN(Date.parse(match[1]!)) ? match[1]! : null;
+}
+
+function today(): string {
+  return toDateOnly(new Date())!;
+}
+
+function addDays(date: string, days: number): string {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+export class PipelineDocumentService {
+  private db: DatabaseService;
+  private storage: ObjectStorage;
+  private pipelineService: PipelineService;
+
+  constructor(db?: DatabaseService, storage?: ObjectStorage, pipelineService?: PipelineService) {
+    this.db = db || new DatabaseService();
+    this.storage = storage || createObjectStorage();
+    this.pipelineService = pipelineService || new PipelineService(this.db);
+  }
+
+  async getChecklist(organizationId: string): Promise<DocumentChecklist> {
+    const result = await this.db.query(
+      'SELECT * FROM document_checklists WHERE organization_id = $1',
+      [organizationId]
+    );
+    return result.rows[0] ? this.mapChecklistRow(result.rows[0]) : { items: DEFAULT_CHECKLIST, version: 0 };
+  }
+
+  /**
+   * Replace the checklist saved as the given version (0 while the built-in
+   * checklist applies). Documents matched to removed items become unmatched.
+   */
+  async updateChecklist(
+    organizationId: string,
+    userId: string,
+    items: unknown,
+    version: unknown
+  ): Promise<DocumentChecklist> {
+    if (!Number.isInteger(version) || (version as number) < 0) {
+      throw documentError(400, 'VALIDATION_ERROR', 'version is required');
+    }
+    if (!Array.isArray(items) || items.length === 0 || items.length > MAX_CHECKLIST_ITEMS) {
+      throw documentError(400, 'VALIDATION_ERROR', `items must be a list of 1 to ${MAX_CHECKLIST_ITEMS} checklist items`);
+    }
+
+    const cleaned: DocumentChecklistItem[] = [];
+    for (const item of items) {
+      const errors: string[] = [];
+      if (!item || !ITEM_KEY_PATTERN.test(item.key)) {
+        errors.push('key must be lowercase letters, digits and dashes');
+      }
+      if (!isText(item?.title, MAX_TITLE_LENGTH) || !item.title.trim()) {
+        errors.push(`title is required and must be at most ${MAX_TITLE_LENGTH} characters`);
+      }
+      if (item?.description !== undefined && !isText(item.description, MAX_DESCRIPTION_LENGTH)) {
+        errors.push(`description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+      }
+      if (!DOCUMENT_CATEGORIES.includes(item?.category)) {
+        errors.push(`category must be one of ${DOCUMENT_CATEGORIES.join(', ')}`);
+      }
+      if (errors.length > 0) {
+        throw documentError(400, 'VALIDATION_ERROR', `Checklist item ${cleaned.length + 1}: ${errors.join('; ')}`);
+      }
+      if (cleaned.some(existing => existing.key === item.key)) {
+        throw documentError(400, 'VALIDATION_ERROR', `Duplicate checklist item key: ${item.key}`);
+      }
+      cleaned.push({
+        key: item.key,
+        title: item.title.trim(),
+        description: (item.description || '').trim(),
+        category: item.category,
+        required: item.required !== false,
+        tracksExpiry: item.tracksExpiry === true
+      });
+    }
+
+    const checklist = await this.db.transaction(async client => {
+      const current = await this.db.queryWithClient(client,
+        'SELECT version FROM document_checklists WHERE organization_id = $1 FOR UPDATE',
+        [organizationId]
+      );
+      if ((current.rows[0]?.version ?? 0) !== version) {
+        throw documentError(409, 'VERSION_CONFLICT', 'The document checklist was changed by someone else; reload it and try again');
+      }
+
+      // Nothing is locked before the first save; the version condition makes
+      // the second of two concurrent first saves a conflict
+      const result = await this.db.queryWithClient(client,
+        `INSERT INTO document_checklists (organization_id, items, updated_by)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (organization_id) DO UPDATE
+         SET items = EXCLUDED.items, updated_by = EXCLUDED.updated_by,
+             version = document_checklists.version + 1
+         WHERE document_checklists.version = $4::integer
+         RETURNING *`,
+        [organizationId, JSON.stringify(cleaned), userId, version]
+      );
+      if (!result.rows[0]) {
+        throw documentError(409, 'VERSION_CONFLICT', 'The document checklist was changed by someone else; reload it and try again');
+      }
+
+      await this.db.queryWithClient(client,
+        `UPDATE pipeline_documents SET checklist_item = NULL, matched_by = NULL
+         WHERE organization_id = $1 AND checklist_item IS NOT NULL AND NOT (checklist_item = ANY($2::text[]))`,
+        [organizationId, cleaned.map(item => item.key)]
+      );
+      return this.mapChecklistRow(result.rows[0]);
+    });
+
+    logger.info('Document checklist updated', { organizationId, items: checklist.items.length });
+    return checklist;
+  }
+
+  /**
+   * Store a file for an application and queue it for processing. A checklist
+   * item chosen at upload is kept; otherwise the file is matched once parsed.
+   */
+  async uploadDocument(
+    organizationId: string,
+    userId: string,
+    applicationId: string,
+    file: { originalName: string; contentType: string; buffer: Buffer },
+    checklistItem?: string
+  ): Promise<PipelineDocument> {
+    const fileName = path.basename(file.originalName || '').trim();
+    if (!fileName || fileName.length > MAX_FILE_NAME_LENGTH) {
+      throw documentError(400, 'VALIDATION_ERROR', `File name is required and must be at most ${MAX_FILE_NAME_LENGTH} characters`);
+    }
+    if (!DOCUMENT_CONTENT_TYPES.includes(file.contentType)) {
+      throw documentError(400, 'UNSUPPORTED_FILE_TYPE', 'Upload a PDF, image, text or spreadsheet file');
+    }
+    if (file.buffer.length === 0 || file.buffer.length > MAX_DOCUMENT_SIZE) {
+      throw documentError(400, 'VALIDATION_ERROR', `Files must be between 1 byte and ${MAX_DOCUMENT_SIZE / 1024 / 1024}MB`);
+    }
+
+    await this.pipelineService.getApplication(organizationId, applicationId);
+    if (checklistItem !== undefined) {
+      const checklist = await this.getChecklist(organizationId);
+      if (!checklist.items.some(item => item.key === checklistItem)) {
+        throw documentError(400, 'VALIDATION_ERROR', `Unknown checklist item: ${checklistItem}`);
+      }
+    }
+
+    const documentId = crypto.randomUUID();
+    const extension = path.extname(fileName).toLowerCase().replace(/[^a-z0-9.]/g, '').slice(0, 10);
+    const storageKey = `pipeline-documents/${organizationId}/${documentId}${extension}`;
+    await this.storage.put(storageKey, file.buffer, file.contentType);
+
+    let document: PipelineDocument;
+    try {
+      const result = await this.db.query(
+        `INSERT INTO pipeline_documents (
+           id, organization_id, application_id, checklist_item, matched_by,
+           file_name, content_type, file_size, storage_key, uploaded_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING *`,
+        [
+          documentId,
+          organizationId,
+          applicationId,
+          checklistItem || null,
+          checklistItem ? 'upload' : null,
+          fileName,
+          file.contentType,
+          file.buffer.length,
+          storageKey,
+          userId
+        ]
+      );
+      document = this.mapDocumentRow(result.rows[0]);
+    } catch (error) {
+      await this.storage.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+
+    await this.pipelineService.recordDocumentName(organizationId, userId, applicationId, fileName, 'added');
+    this.pipelineService.publish(organizationId, { type: 'document-saved', userId, document });
+    logger.info('Pipeline document uploaded', { documentId, applicationId, organizationId });
+    return document;
+  }
+
+  async listDocuments(organizationId: string, applicationId: string): Promise<PipelineDocument[]> {
+    await this.pipelineService.getApplication(organizationId, applicationId);
+    const result = await this.db.query(
+      `SELECT * FROM pipeline_documents
+       WHERE organization_id = $1 AND application_id = $2
+       ORDER BY created_at ASC`,
+      [organizationId, applicationId]
+    );
+    return result.rows.map(row => this.mapDocumentRow(row));
+  }
+
+  async getDocument(organizationId: string, documentId: string): Promise<PipelineDocument> {
+    if (!UUID_PATTERN.test(documentId)) {
+      throw documentError(404, 'DOCUMENT_NOT_FOUND', 'Document not found');
+    }
+    const result = await this.db.query(
+      'SELECT * FROM pipeline_documents WHERE id = $1 AND organization_id = $2',
+      [documentId, organizationId]
+    );
+    if (!result.rows[0]) {
+      throw documentError(404, 'DOCUMENT_NOT_FOUND', 'Document not found');
+    }
+    return this.mapDocumentRow(result.rows[0]);
+  }
+
+  async getDocumentContent(organizationId: string, documentId: string): Promise<{ document: PipelineDocument; content: Buffer }> {
+    const result = await this.db.query(
+      'SELECT * FROM pipeline_documents WHERE id = $1 AND organization_id = $2',
+      [UUID_PATTERN.test(documentId) ? documentId : null, organizationId]
+    );
+    const row = result.rows[0];
+    const content = row ? await this.storage.get(row.storage_key) : null;
+    if (!row || !content) {
+      throw documentError(404, 'DOCUMENT_NOT_FOUND', 'Document not found');
+    }
+    return { document: this.mapDocumentRow(row), content };
+  }
+
+  /**
+   * The application's checklist with the documents matched to each item
+   */
+  async getApplicationChecklist(organizationId: string, applicationId: string): Promise<ApplicationChecklist> {
+    const documents = await this.listDocuments(organizationId, applicationId);
+    const checklist = await this.getChecklist(organizationId);
+
+    const items = checklist.items.map(item => this.itemStatus(item, documents.filter(doc => doc.checklistItem === item.key)));
+    return {
+      applicationId,
+      complete: items.every(status => !status.item.required || status.state === 'complete' || status.state === 'expiring'),
+      items,
+      unmatched: documents.filter(doc => !checklist.items.some(item => item.key === doc.checklistItem))
+    };
+  }
+
+  /**
+   * Correct a document's checklist item or certificate details by hand
+   */
+  async updateDocument(
+    organizationId: string,
+    userId: string,
+    documentId: string,
+    request: UpdatePipelineDocumentRequest
+  ): Promise<PipelineDocument> {
+    const errors: string[] = [];
+    if (request.expiryDate !== undefined && request.expiryDate !== null && !toDateOnly(request.expiryDate)) {
+      errors.push('expiryDate must be a date');
+    }
+    if (request.certificateNumber !== undefined && request.certificateNumber !== null && !isText(request.certificateNumber, 100)) {
+      errors.push('certificateNumber must be at most 100 characters');
+    }
+    if (request.certificateIssuer !== undefined && request.certificateIssuer !== null && !isText(request.certificateIssuer, 255)) {
+      errors.push('certificateIssuer must be at most 255 characters');
+    }
+    if (request.checklistItem !== undefined && request.checklistItem !== null) {
+      const checklist = await this.getChecklist(organizationId);
+      if (!checklist.items.some(item => item.key === request.checklistItem)) {
+        errors.push(`Unknown checklist item: ${request.checklistItem}`);
+      }
+    }
+    if (errors.length > 0) {
+      throw documentError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    await this.getDocument(organizationId, documentId);
+    const sets: string[] = [];
+    const params: unknown[] = [documentId, organizationId];
+    const assign = (column: string, value: unknown) => {
+      params.push(value);
+      sets.push(`${column} = $${params.length}`);
+    };
+    if (request.checklistItem !== undefined) {
+      assign('checklist_item', request.checklistItem);
+      assign('matched_by', request.checklistItem === null ? null : 'manual');
+    }
+    if (request.expiryDate !== undefined) {
+      assign('expiry_date', request.expiryDate === null ? null : toDateOnly(request.expiryDate));
+    }
+    if (request.certificateNumber !== undefined) {
+      assign('certificate_number', request.certificateNumber);
+    }
+    if (request.certificateIssuer !== undefined) {
+      assign('certificate_issuer', request.certificateIssuer);
+    }
+    if (sets.length === 0) {
+      throw documentError(400, 'VALIDATION_ERROR', 'Nothing to update');
+    }
+
+    const result = await this.db.query(
+      `UPDATE pipeline_documents SET ${sets.join(', ')}
+       WHERE id = $1 AND organization_id = $2
+       RETURNING *`,
+      params
+    );
+    const document = this.mapDocumentRow(result.rows[0]);
+    this.pipelineService.publish(organizationId, { type: 'document-saved', userId, document });
+    return document;
+  }
+
+  async deleteDocument(organizationId: string, userId: string, documentId: string): Promise<void> {
+    const document = await this.getDocument(organizationId, documentId);
+    const result = await this.db.query(
+      'DELETE FROM pipeline_documents WHERE id = $1 AND organization_id = $2 RETURNING storage_key',
+      [documentId, organizationId]
+    );
+    await this.storage.delete(result.rows[0].storage_key);
+
+    const remaining = await this.listDocuments(organizationId, document.applicationId);
+    if (!remaining.some(doc => doc.fileName === document.fileName)) {
+      await this.pipelineService.recordDocumentName(organizationId, userId, document.applicationId, document.fileName, 'removed');
+    }
+    this.pipelineService.publish(organizationId, {
+      type: 'document-deleted',
+      userId,
+      applicationId: document.applicationId,
+      documentId
+    });
+    logger.info('Pipeline document deleted', { documentId, organizationId });
+  }
+
+  /**
+   * Claim documents waiting to be parsed. Claims left unanswered past the
+   * timeout are handed out again until the attempts run out.
+   */
+  async claimPendingDocuments(organizationId: string, limit: number = 5): Promise<PipelineDocument[]> {
+    const batch = Math.min(Math.max(Math.floor(limit) || 1, 1), MAX_CLAIM_BATCH);
+
+    return this.db.transaction(async client => {
+      await this.db.queryWithClient(client,
+        `UPDATE pipeline_documents
+         SET processing_status = 'failed', processing_error = COALESCE(processing_error, 'Processing timed out')
+         WHERE organization_id = $1 AND processing_status = 'processing' AND processing_attempts >= $2
+           AND processing_started_at < NOW() - make_interval(secs => $3)`,
+        [organizationId, MAX_PROCESSING_ATTEMPTS, PROCESSING_TIMEOUT_SECONDS]
+      );
+
+      const result = await this.db.queryWithClient(client,
+        `UPDATE pipeline_documents
+         SET processing_status = 'processing', processing_attempts = processing_attempts + 1,
+             processing_started_at = NOW()
+         WHERE id IN (
+           SELECT id FROM pipeline_documents
+           WHERE organization_id = $1 AND processing_attempts < $3 AND (
+             processing_status = 'pending' OR
+             (processing_status = 'processing' AND processing_started_at < NOW() - make_interval(secs => $4))
+           )
+           ORDER BY created_at ASC
+           LIMIT $2
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [organizationId, batch, MAX_PROCESSING_ATTEMPTS, PROCESSING_TIMEOUT_SECONDS]
+      );
+      return result.rows.map(row => this.mapDocumentRow(row));
+    });
+  }
+
+  /**
+   * Record what the agent extracted from a claimed document, match it to a
+   * checklist item unless someone already did, and take the expiry date of
+   * the certificate found in it. A failed attempt is retried until the
+   * attempts run out.
+   */
+  async recordExtraction(
+    organizationId: string,
+    documentId: string,
+    extraction: DocumentExtractionResult
+  ): Promise<PipelineDocument> {
+    if (!extraction || typeof extraction.success !== 'boolean') {
+      throw documentError(400, 'VALIDATION_ERROR', 'success is required');
+    }
+    const extractedData = extraction.extractedData || {};
+    if (typeof extractedData !== 'object' || JSON.stringify(extractedData).length > MAX_EXTRACTION_BYTES) {
+      throw documentError(400, 'VALIDATION_ERROR', `extractedData must be an object of at most ${MAX_EXTRACTION_BYTES / 1024}KB`);
+    }
+
+    const document = await this.getDocument(organizationId, documentId);
+    if (document.processingStatus !== 'processing') {
+      throw documentError(409, 'DOCUMENT_NOT_CLAIMED', 'Document is not being processed');
+    }
+
+    let result;
+    if (!extraction.success) {
+      const error = isText(extraction.error, 2000) ? extraction.error : 'Processing failed';
+      result = await this.db.query(
+        `UPDATE pipeline_documents
+         SET processing_status = $3, processing_error = $4
+         WHERE id = $1 AND organization_id = $2
+         RETURNING *`,
+        [documentId, organizationId, document.processingAttempts >= MAX_PROCESSING_ATTEMPTS ? 'failed' : 'pending', error]
+      );
+    } else {
+      const certificate = this.pickCertificate(extractedData);
+      const checklist = await this.getChecklist(organizationId);
+      const match = document.checklistItem ? undefined : this.matchChecklistItem(checklist.items, document.fileName, extractedData);
+
+      result = await this.db.query(
+        `UPDATE pipeline_documents
+         SET processing_status = 'processed', processing_error = NULL, extracted_data = $3,
+             certificate_number = COALESCE(certificate_number, $4),
+             certificate_issuer = COALESCE(certificate_issuer, $5),
+             expiry_date = COALESCE(expiry_date, $6::date),
+             checklist_item = COALESCE(checklist_item, $7),
+             matched_by = CASE WHEN checklist_item IS NULL AND $7::text IS NOT NULL THEN 'extraction' ELSE matched_by END
+         WHERE id = $1 AND organization_id = $2
+         RETURNING *`,
+        [
+          documentId,
+          organizationId,
+          JSON.stringify(extractedData),
+          certificate?.certificateNumber || null,
+          certificate?.issuer || null,
+          certificate?.expiryDate || null,
+          match || null
+        ]
+      );
+    }
+
+    const updated = this.mapDocumentRow(result.rows[0]);
+    this.pipelineService.publish(organizationId, { type: 'document-saved', document: updated });
+    logger.info('Pipeline document processed', {
+      documentId,
+      organizationId,
+      status: updated.processingStatus,
+      checklistItem: updated.checklistItem,
+      expiryDate: updated.expiryDate
+    });
+    return updated;
+  }
+
+  /**
+   * Documents with an expiry date within the given number of days, expired
+   * ones included, soonest first
+   */
+  async listExpiringDocuments(organizationId: string, withinDays: number = EXPIRY_WARNING_DAYS): Promise<ExpiringDocument[]> {
+    const days = Math.min(Math.max(Math.floor(withinDays) || 0, 0), MAX_EXPIRY_WINDOW_DAYS);
+    const result = await this.db.query(
+      `SELECT d.*, a.product_name, a.company, a.client_name, a.status AS application_status,
+              (d.expiry_date - CURRENT_DATE) AS days_remaining
+       FROM pipeline_documents d
+       JOIN pipeline_applications a ON a.id = d.application_id
+       WHERE d.organization_id = $1 AND d.expiry_date IS NOT NULL
+         AND d.expiry_date <= CURRENT_DATE + $2::int
+       ORDER BY d.expiry_date ASC, d.created_at ASC`,
+      [organizationId, days]
+    );
+    return result.rows.map(row => ({
+      ...this.mapDocumentRow(row),
+      productName: row.product_name,
+      company: row.company,
+      clientName: row.client_name,
+      applicationStatus: row.application_status,
+      daysRemaining: Number(row.days_remaining)
+    }));
+  }
+
+  private itemStatus(item: DocumentChecklistItem, documents: PipelineDocument[]): ChecklistItemStatus {
+    const expiryDates = documents
+      .map(doc => doc.expiryDate)
+      .filter((date): date is string => !!date)
+      .sort();
+    const expiryDate = expiryDates[0];
+    const processing = documents.every(doc => doc.processingStatus === 'pending' || doc.processingStatus === 'processing');
+
+    let state: ChecklistItemState;
+    if (documents.length === 0) {
+      state = 'missing';
+    } else if (!item.tracksExpiry) {
+      state = processing ? 'processing' : 'complete';
+    } else if (!expiryDate) {
+      state = processing ? 'processing' : 'expiry-unknown';
+    } else if (expiryDate < today()) {
+      state = 'expired';
+    } else if (expiryDate <= addDays(today(), EXPIRY_WARNING_DAYS)) {
+      state = 'expiring';
+    } else {
+      state = 'complete';
+    }
+
+    return { item, state, ...(expiryDate && { expiryDate }), documents };
+  }
+
+  /**
+   * The checklist item a parsed file belongs to: certificates found in it
+   * point at a supplier certificate item, otherwise the file name is
+   * compared with the items' categories and titles
+   */
+  private matchChecklistItem(
+    items: DocumentChecklistItem[],
+    fileName: string,
+    extractedData: ExtractedDocumentData
+  ): string | undefined {
+    if (extractedData.certificates && extractedData.certificates.length > 0) {
+      const certificateItem = items.find(item => item.category === 'supplier-certificate');
+      if (certificateItem) {
+        return certificateItem.key;
+      }
+    }
+
+    const byCategory = items.find(item => CATEGORY_KEYWORDS[item.category]?.test(fileName));
+    if (byCategory) {
+      return byCategory.key;
+    }
+
+    const name = fileName.toLowerCase();
+    return items.find(item =>
+      item.title.toLowerCase().split(/[^a-z0-9]+/).some(word => word.length >= 4 && name.includes(word))
+    )?.key;
+  }
+
+  /**
+   * The certificate whose expiry is tracked: the one expiring first
+   */
+  private pickCertificate(extractedData: ExtractedDocumentData): {
+    certificateNumber?: string;
+    issuer?: string;
+    expiryDate?: string;
+  } | undefined {
+    const certificates = (extractedData.certificates || [])
+      .filter(certificate => certificate && typeof certificate === 'object')
+      .map(certificate => ({
+        ...(isText(certificate.certificateNumber, 100) && { certificateNumber: certificate.certificateNumber }),
+        ...(isText(certificate.issuer, 255) && { issuer: certificate.issuer }),
+        ...(toDateOnly(certificate.validUntil) && { expiryDate: toDateOnly(certificate.validUntil)! })
+      }));
+    const withExpiry = certificates
+      .filter(certificate => certificate.expiryDate)
+      .sort((a, b) => a.expiryDate!.localeCompare(b.expiryDate!));
+    return withExpiry[0] || certificates[0];
+  }
+
+  private mapChecklistRow(row: any): DocumentChecklist {
+    return {
+      items: row.items || [],
+      version: row.version,
+      ...(row.updated_by && { updatedBy: row.updated_by }),
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapDocumentRow(row: any): PipelineDocument {
+    const expiryDate = toDateOnly(row.expiry_date);
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      applicationId: row.application_id,
+      ...(row.checklist_item && { checklistItem: row.checklist_item }),
+      ...(row.matched_by && { matchedBy: row.matched_by }),
+      fileName: row.file_name,
+      contentType: row.content_type,
+      fileSize: Number(row.file_size),
+      processingStatus: row.processing_status,
+      processingAttempts: row.processing_attempts,
+      ...(row.processing_error && { processingError: row.processing_error }),
+      ...(row.extracted_data && { extractedData: row.extracted_data }),
+      ...(row.certificate_number && { certificateNumber: row.certificate_number }),
+      ...(row.certificate_issuer && { certificateIssuer: row.certificate_issuer }),
+      ...(expiryDate && { expiryDate }),
+      ...(row.uploaded_by && { uploadedBy: row.uploaded_by }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
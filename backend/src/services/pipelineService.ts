@@ -0,0 +1,724 @@
+/**
+ * HalalCheck EU - Pipeline Service
+ *
+ * Applications pipeline shared by an organization's reviewers. Every change
+ * increments the record's version and has to name the version it was based
+ * on, so a reviewer working from a stale copy gets a conflict instead of
+ * silently overwriting a colleague's change. Moving an application into the
+ * organization type's final stage issues its certificate (a pre-certification
+ * report for manufacturers) in the same transaction. Committed changes are
+ * published to the organization's subscribers, which the pipeline socket
+ * pushes to connected members.
+ */
+
+import { EventEmitter } from 'events';
+import { PoolClient } from 'pg';
+import { DatabaseService } from './databaseService';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/middleware/errorHandler';
+import {
+  CreatePipelineApplicationRequest,
+  PIPELINE_CERTIFICATE_STATUSES,
+  PIPELINE_ORGANIZATION_TYPES,
+  PIPELINE_PRIORITIES,
+  PipelineApplication,
+  PipelineApplicationFilter,
+  PipelineApplicationUpdate,
+  PipelineCertificate,
+  PipelineCertificateType,
+  PipelineColumn,
+  PipelineColumnConfig,
+  PipelineEvent,
+  PipelineOrganizationType,
+  UpdatePipelineApplicationRequest,
+  UpdatePipelineCertificateRequest
+} from '@/types/pipeline';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const COLUMN_ID_PATTERN = /^custom-[A-Za-z0-9_-]{1,90}$/;
+const MAX_NAME_LENGTH = 255;
+const MAX_PHONE_LENGTH = 50;
+const MAX_STATUS_LENGTH = 100;
+const MAX_NOTES_LENGTH = 10000;
+const MAX_DOCUMENTS = 100;
+const MAX_COLUMNS = 20;
+const MAX_COLUMN_TITLE_LENGTH = 100;
+const DEFAULT_LIST_LIMIT = 500;
+const MAX_LIST_LIMIT = 1000;
+const CERTIFICATE_VALIDITY_DAYS = 365;
+
+// Where applications of each organization type end up, and what they are issued there
+const FINAL_STAGES: Record<PipelineOrganizationType, { stage: string; prefix: string; certificateType: PipelineCertificateType }> = {
+  'certification-body': { stage: 'certified', prefix: 'HC', certificateType: 'standard' },
+  'food-manufacturer': { stage: 'certification-ready', prefix: 'PCR', certificateType: 'premium' }
+};
+
+// Where applications of a removed custom column go
+const FALLBACK_STAGE = 'new';
+
+// Shared by every service instance so the pipeline socket sees changes made through the API
+const pipelineEvents = new EventEmitter();
+pipelineEvents.setMaxListeners(0);
+
+const APPLICATION_FIELDS: Record<string, string> = {
+  clientName: 'client_name',
+  company: 'company',
+  productName: 'product_name',
+  email: 'email',
+  phone: 'phone',
+  status: 'status',
+  priority: 'priority',
+  documents: 'documents',
+  analysisResult: 'analysis_result',
+  notes: 'notes'
+};
+
+const CERTIFICATE_FIELDS: Record<string, string> = {
+  status: 'status',
+  expiryDate: 'expiry_date',
+  notes: 'notes',
+  pdfUrl: 'pdf_url'
+};
+
+function pipelineError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+function isText(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.length <= maxLength;
+}
+
+function isName(value: unknown, maxLength = MAX_NAME_LENGTH): value is string {
+  return isText(value, maxLength) && value.trim().length > 0;
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+function isVersion(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+export class PipelineService {
+  private db: DatabaseService;
+
+  constructor(db?: DatabaseService) {
+    this.db = db || new DatabaseService();
+  }
+
+  async listApplications(organizationId: string, filter: PipelineApplicationFilter = {}): Promise<PipelineApplication[]> {
+    const limit = Math.min(Math.max(filter.limit || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    const offset = Math.max(filter.offset || 0, 0);
+
+    const conditions = ['organization_id = $1'];
+    const params: unknown[] = [organizationId];
+    if (filter.organizationType) {
+      params.push(filter.organizationType);
+      conditions.push(`organization_type = $${params.length}`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    params.push(limit, offset);
+
+    const result = await this.db.query(
+      `SELECT * FROM pipeline_applications
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY created_at ASC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+    return result.rows.map(row => this.mapApplicationRow(row));
+  }
+
+  async getApplication(organizationId: string, applicationId: string): Promise<PipelineApplication> {
+    if (!UUID_PATTERN.test(applicationId)) {
+      throw pipelineError(404, 'APPLICATION_NOT_FOUND', 'Application not found');
+    }
+    const result = await this.db.query(
+      'SELECT * FROM pipeline_applications WHERE id = $1 AND organization_id = $2',
+      [applicationId, organizationId]
+    );
+    if (!result.rows[0]) {
+      throw pipelineError(404, 'APPLICATION_NOT_FOUND', 'Application not found');
+    }
+    return this.mapApplicationRow(result.rows[0]);
+  }
+
+  /**
+   * Add an application. Clients may bring their own ID so the record they
+   * show optimistically keeps it; creating the same ID again returns the
+   * stored application.
+   */
+  async createApplication(
+    organizationId: string,
+    userId: string,
+    request: CreatePipelineApplicationRequest
+  ): Promise<PipelineApplication> {
+    const errors = this.validateApplicationFields(request);
+    for (const field of ['clientName', 'company', 'productName'] as const) {
+      if (!isName(request[field])) {
+        errors.push(`${field} is required and must be at most ${MAX_NAME_LENGTH} characters`);
+      }
+    }
+    if (request.id !== undefined && (typeof request.id !== 'string' || !UUID_PATTERN.test(request.id))) {
+      errors.push('id must be a UUID');
+    }
+    if (request.organizationType !== undefined && !PIPELINE_ORGANIZATION_TYPES.includes(request.organizationType)) {
+      errors.push(`organizationType must be one of ${PIPELINE_ORGANIZATION_TYPES.join(', ')}`);
+    }
+    if (request.submittedDate !== undefined && !isDate(request.submittedDate)) {
+      errors.push('submittedDate must be a date');
+    }
+    if (errors.length > 0) {
+      throw pipelineError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const result = await this.db.query(
+      `INSERT INTO pipeline_applications (
+         id, organization_id, organization_type, client_name, company, product_name, email, phone,
+         submitted_date, status, priority, documents, analysis_result, notes, created_by, updated_by
+       ) VALUES (
+         COALESCE($1::uuid, uuid_generate_v4()), $2, $3, $4, $5, $6, $7, $8,
+         COALESCE($9::timestamptz, NOW()), $10, $11, $12, $13, $14, $15, $15
+       )
+       ON CONFLICT (id) DO NOTHING
+       RETURNING *`,
+      [
+        request.id || null,
+        organizationId,
+        request.organizationType || 'certification-body',
+        request.clientName.trim(),
+        request.company.trim(),
+        request.productName.trim(),
+        request.email || '',
+        request.phone || '',
+        request.submittedDate || null,
+        request.status || FALLBACK_STAGE,
+        request.priority || 'normal',
+        request.documents || [],
+        request.analysisResult === undefined ? null : JSON.stringify(request.analysisResult),
+        request.notes || '',
+        userId
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      // Retried create; IDs of other organizations are not revealed
+      return this.getApplication(organizationId, request.id!);
+    }
+
+    const application = this.mapApplicationRow(result.rows[0]);
+    logger.info('Pipeline application created', { applicationId: application.id, organizationId });
+    this.publish(organizationId, { type: 'application-saved', userId, application, changes: [] });
+    return application;
+  }
+
+  /**
+   * Apply changes made to the given version of an application. Reaching the
+   * final stage issues the application's certificate.
+   */
+  async updateApplication(
+    organizationId: string,
+    userId: string,
+    applicationId: string,
+    request: UpdatePipelineApplicationRequest
+  ): Promise<PipelineApplicationUpdate> {
+    const errors = this.validateApplicationFields(request);
+    for (const field of ['clientName', 'company', 'productName'] as const) {
+      if (request[field] !== undefined && !isName(request[field])) {
+        errors.push(`${field} must not be empty and at most ${MAX_NAME_LENGTH} characters`);
+      }
+    }
+    if (!isVersion(request.version)) {
+      errors.push('version is required');
+    }
+    if (errors.length > 0) {
+      throw pipelineError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const { update, changes } = await this.db.transaction(async client => {
+      const current = await this.lockApplication(client, organizationId, applicationId);
+      if (current.version !== request.version) {
+        throw pipelineError(409, 'VERSION_CONFLICT', 'Application was changed by someone else; reload it and try again');
+      }
+
+      const sets: string[] = [];
+      const params: unknown[] = [applicationId, organizationId, userId];
+      for (const [field, column] of Object.entries(APPLICATION_FIELDS)) {
+        const value = request[field as keyof UpdatePipelineApplicationRequest];
+        if (value === undefined) {
+          continue;
+        }
+        params.push(field === 'analysisResult' ? JSON.stringify(value) : value);
+        sets.push(`${column} = $${params.length}`);
+      }
+
+      const result = await this.db.queryWithClient(client,
+        `UPDATE pipeline_applications
+         SET ${[...sets, 'version = version + 1', 'updated_by = $3'].join(', ')}
+         WHERE id = $1 AND organization_id = $2
+         RETURNING *`,
+        params
+      );
+      const application = this.mapApplicationRow(result.rows[0]);
+
+      const final = FINAL_STAGES[application.organizationType];
+      const changes = Object.keys(APPLICATION_FIELDS).filter(field =>
+        JSON.stringify(current[field as keyof PipelineApplication]) !== JSON.stringify(application[field as keyof PipelineApplication])
+      );
+      if (current.status !== final.stage && application.status === final.stage) {
+        const certificate = await this.ensureCertificate(client, application, userId);
+        return { update: { application, certificate }, changes };
+      }
+      return { update: { application }, changes };
+    });
+
+    this.publish(organizationId, { type: 'application-saved', userId, application: update.application, changes });
+    if (update.certificate) {
+      this.publish(organizationId, { type: 'certificate-saved', userId, certificate: update.certificate });
+    }
+    return update;
+  }
+
+  /**
+   * Delete an application and its certificate. With a version, the delete
+   * is refused when the application changed since.
+   */
+  async deleteApplication(organizationId: string, userId: string, applicationId: string, version?: number): Promise<void> {
+    if (version !== undefined && !isVersion(version)) {
+      throw pipelineError(400, 'VALIDATION_ERROR', 'version must be a positive whole number');
+    }
+
+    await this.db.transaction(async client => {
+      const current = await this.lockApplication(client, organizationId, applicationId);
+      if (version !== undefined && current.version !== version) {
+        throw pipelineError(409, 'VERSION_CONFLICT', 'Application was changed by someone else; reload it and try again');
+      }
+      await this.db.queryWithClient(client,
+        'DELETE FROM pipeline_applications WHERE id = $1 AND organization_id = $2',
+        [applicationId, organizationId]
+      );
+    });
+    logger.info('Pipeline application deleted', { applicationId, organizationId });
+    this.publish(organizationId, { type: 'application-deleted', userId, applicationId });
+  }
+
+  /**
+   * Add a file name to the application's document list when a file is
+   * uploaded, or remove it when the last file of that name is deleted
+   */
+  async recordDocumentName(
+    organizationId: string,
+    userId: string,
+    applicationId: string,
+    fileName: string,
+    change: 'added' | 'removed'
+  ): Promise<PipelineApplication> {
+    const result = await this.db.query(
+      `UPDATE pipeline_applications
+       SET documents = ${change === 'added' ? 'array_append(documents, $3)' : 'array_remove(documents, $3)'},
+           version = version + 1, updated_by = $4
+       WHERE id = $1 AND organization_id = $2
+       RETURNING *`,
+      [applicationId, organizationId, fileName, userId]
+    );
+    if (!result.rows[0]) {
+      throw pipelineError(404, 'APPLICATION_NOT_FOUND', 'Application not found');
+    }
+
+    const application = this.mapApplicationRow(result.rows[0]);
+    this.publish(organizationId, { type: 'application-saved', userId, application, changes: ['documents'] });
+    return application;
+  }
+
+  /**
+   * Issue the certificate of an application; an application that already has
+   * one returns it
+   */
+  async issueCertificate(
+    organizationId: string,
+    userId: string,
+    applicationId: string,
+    certificateId?: string
+  ): Promise<PipelineCertificate> {
+    if (certificateId !== undefined && (typeof certificateId !== 'string' || !UUID_PATTERN.test(certificateId))) {
+      throw pipelineError(400, 'VALIDATION_ERROR', 'id must be a UUID');
+    }
+
+    const certificate = await this.db.transaction(async client => {
+      const application = await this.lockApplication(client, organizationId, applicationId);
+      return this.ensureCertificate(client, application, userId, certificateId);
+    });
+    this.publish(organizationId, { type: 'certificate-saved', userId, certificate });
+    return certificate;
+  }
+
+  async listCertificates(organizationId: string): Promise<PipelineCertificate[]> {
+    const result = await this.db.query(
+      `SELECT * FROM pipeline_certificates
+       WHERE organization_id = $1
+       ORDER BY created_at ASC
+       LIMIT $2`,
+      [organizationId, MAX_LIST_LIMIT]
+    );
+    return result.rows.map(row => this.mapCertificateRow(row));
+  }
+
+  async getCertificate(organizationId: string, certificateId: string): Promise<PipelineCertificate> {
+    if (!UUID_PATTERN.test(certificateId)) {
+      throw pipelineError(404, 'CERTIFICATE_NOT_FOUND', 'Certificate not found');
+    }
+    const result = await this.db.query(
+      'SELECT * FROM pipeline_certificates WHERE id = $1 AND organization_id = $2',
+      [certificateId, organizationId]
+    );
+    if (!result.rows[0]) {
+      throw pipelineError(404, 'CERTIFICATE_NOT_FOUND', 'Certificate not found');
+    }
+    return this.mapCertificateRow(result.rows[0]);
+  }
+
+  async updateCertificate(
+    organizationId: string,
+    userId: string,
+    certificateId: string,
+    request: UpdatePipelineCertificateRequest
+  ): Promise<PipelineCertificate> {
+    const errors: string[] = [];
+    if (!isVersion(request.version)) {
+      errors.push('version is required');
+    }
+    if (request.status !== undefined && !PIPELINE_CERTIFICATE_STATUSES.includes(request.status)) {
+      errors.push(`status must be one of ${PIPELINE_CERTIFICATE_STATUSES.join(', ')}`);
+    }
+    if (request.expiryDate !== undefined && !isDate(request.expiryDate)) {
+      errors.push('expiryDate must be a date');
+    }
+    if (request.notes !== undefined && !isText(request.notes, MAX_NOTES_LENGTH)) {
+      errors.push(`notes must be at most ${MAX_NOTES_LENGTH} characters`);
+    }
+    if (request.pdfUrl !== undefined && !isText(request.pdfUrl, 500)) {
+      errors.push('pdfUrl must be at most 500 characters');
+    }
+    if (errors.length > 0) {
+      throw pipelineError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const current = await this.getCertificate(organizationId, certificateId);
+    const sets: string[] = [];
+    const params: unknown[] = [certificateId, organizationId, userId, request.version];
+    for (const [field, column] of Object.entries(CERTIFICATE_FIELDS)) {
+      const value = request[field as keyof UpdatePipelineCertificateRequest];
+      if (value !== undefined) {
+        params.push(value);
+        sets.push(`${column} = $${params.length}`);
+      }
+    }
+
+    const result = await this.db.query(
+      `UPDATE pipeline_certificates
+       SET ${[...sets, 'version = version + 1', 'updated_by = $3'].join(', ')}
+       WHERE id = $1 AND organization_id = $2 AND version = $4
+       RETURNING *`,
+      params
+    );
+    if (result.rows.length === 0) {
+      throw pipelineError(409, 'VERSION_CONFLICT', 'Certificate was changed by someone else; reload it and try again');
+    }
+
+    const certificate = this.mapCertificateRow(result.rows[0]);
+    if (certificate.status !== current.status) {
+      logger.info('Pipeline certificate status changed', {
+        certificateId,
+        from: current.status,
+        to: certificate.status,
+        organizationId
+      });
+    }
+    this.publish(organizationId, { type: 'certificate-saved', userId, certificate });
+    return certificate;
+  }
+
+  async deleteCertificate(organizationId: string, userId: string, certificateId: string): Promise<void> {
+    const certificate = await this.getCertificate(organizationId, certificateId);
+    await this.db.query(
+      'DELETE FROM pipeline_certificates WHERE id = $1 AND organization_id = $2',
+      [certificate.id, organizationId]
+    );
+    logger.info('Pipeline certificate deleted', { certificateId, organizationId });
+    this.publish(organizationId, { type: 'certificate-deleted', userId, certificateId });
+  }
+
+  async getColumns(organizationId: string): Promise<PipelineColumnConfig> {
+    const result = await this.db.query(
+      'SELECT * FROM pipeline_column_configs WHERE organization_id = $1',
+      [organizationId]
+    );
+    return result.rows[0] ? this.mapColumnRow(result.rows[0]) : { columns: [], version: 0 };
+  }
+
+  /**
+   * Replace the custom columns saved as the given version (0 before the
+   * first save). Applications in removed columns move back to the first
+   * stage.
+   */
+  async updateColumns(
+    organizationId: string,
+    userId: string,
+    columns: unknown,
+    version: unknown
+  ): Promise<PipelineColumnConfig> {
+    if (!Number.isInteger(version) || (version as number) < 0) {
+      throw pipelineError(400, 'VALIDATION_ERROR', 'version is required');
+    }
+    if (!Array.isArray(columns) || columns.length > MAX_COLUMNS) {
+      throw pipelineError(400, 'VALIDATION_ERROR', `columns must be a list of at most ${MAX_COLUMNS} columns`);
+    }
+    const cleaned: PipelineColumn[] = [];
+    for (const column of columns) {
+      if (!column || !COLUMN_ID_PATTERN.test(column.id) || !isName(column.title, MAX_COLUMN_TITLE_LENGTH)) {
+        throw pipelineError(400, 'VALIDATION_ERROR',
+          `Each column needs an id starting with "custom-" and a title of at most ${MAX_COLUMN_TITLE_LENGTH} characters`);
+      }
+      if (cleaned.some(existing => existing.id === column.id)) {
+        throw pipelineError(400, 'VALIDATION_ERROR', `Duplicate column id: ${column.id}`);
+      }
+      cleaned.push({ id: column.id, title: column.title.trim() });
+    }
+
+    const config = await this.db.transaction(async client => {
+      const currentResult = await this.db.queryWithClient(client,
+        'SELECT * FROM pipeline_column_configs WHERE organization_id = $1 FOR UPDATE',
+        [organizationId]
+      );
+      const current = currentResult.rows[0] ? this.mapColumnRow(currentResult.rows[0]) : { columns: [], version: 0 };
+      if (current.version !== version) {
+        throw pipelineError(409, 'VERSION_CONFLICT', 'Pipeline columns were changed by someone else; reload them and try again');
+      }
+
+      // FOR UPDATE locks nothing before the first save, so the write itself
+      // re-checks the version: of two concurrent first saves, one inserts and
+      // the other finds a row whose version no longer matches
+      const result = await this.db.queryWithClient(client,
+        `INSERT INTO pipeline_column_configs (organization_id, columns, updated_by)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (organization_id) DO UPDATE
+         SET columns = EXCLUDED.columns, updated_by = EXCLUDED.updated_by,
+             version = pipeline_column_configs.version + 1
+         WHERE pipeline_column_configs.version = $4::integer
+         RETURNING *`,
+        [organizationId, JSON.stringify(cleaned), userId, version]
+      );
+      if (!result.rows[0]) {
+        throw pipelineError(409, 'VERSION_CONFLICT', 'Pipeline columns were changed by someone else; reload them and try again');
+      }
+
+      const removed = current.columns
+        .map(column => column.id)
+        .filter(id => !cleaned.some(column => column.id === id));
+      if (removed.length > 0) {
+        await this.db.queryWithClient(client,
+          `UPDATE pipeline_applications
+           SET status = $3, version = version + 1, updated_by = $4
+           WHERE organization_id = $1 AND status = ANY($2::text[])`,
+          [organizationId, removed, FALLBACK_STAGE, userId]
+        );
+      }
+      return this.mapColumnRow(result.rows[0]);
+    });
+
+    logger.info('Pipeline columns updated', { organizationId, columns: config.columns.length });
+    this.publish(organizationId, { type: 'columns-saved', userId, columns: config });
+    return config;
+  }
+
+  /**
+   * Listen for committed changes to an organization's pipeline; returns the
+   * unsubscribe function
+   */
+  subscribe(organizationId: string, listener: (event: PipelineEvent) => void): () => void {
+    pipelineEvents.on(`organization:${organizationId}`, listener);
+    return () => {
+      pipelineEvents.off(`organization:${organizationId}`, listener);
+    };
+  }
+
+  /**
+   * Tell the organization's subscribers about a change, e.g. members' presence
+   */
+  publish(organizationId: string, event: PipelineEvent): void {
+    pipelineEvents.emit(`organization:${organizationId}`, event);
+  }
+
+  private validateApplicationFields(request: Partial<CreatePipelineApplicationRequest>): string[] {
+    const errors: string[] = [];
+    if (request.email !== undefined && !isText(request.email, MAX_NAME_LENGTH)) {
+      errors.push(`email must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (request.phone !== undefined && !isText(request.phone, MAX_PHONE_LENGTH)) {
+      errors.push(`phone must be at most ${MAX_PHONE_LENGTH} characters`);
+    }
+    if (request.status !== undefined && !isName(request.status, MAX_STATUS_LENGTH)) {
+      errors.push(`status must be a stage ID of at most ${MAX_STATUS_LENGTH} characters`);
+    }
+    if (request.priority !== undefined && !PIPELINE_PRIORITIES.includes(request.priority)) {
+      errors.push(`priority must be one of ${PIPELINE_PRIORITIES.join(', ')}`);
+    }
+    if (request.documents !== undefined && (
+      !Array.isArray(request.documents) ||
+      request.documents.length > MAX_DOCUMENTS ||
+      !request.documents.every(document => isName(document))
+    )) {
+      errors.push(`documents must be a list of at most ${MAX_DOCUMENTS} file names`);
+    }
+    if (request.notes !== undefined && !isText(request.notes, MAX_NOTES_LENGTH)) {
+      errors.push(`notes must be at most ${MAX_NOTES_LENGTH} characters`);
+    }
+    return errors;
+  }
+
+  private async lockApplication(client: PoolClient, organizationId: string, applicationId: string): Promise<PipelineApplication> {
+    if (!UUID_PATTERN.test(applicationId)) {
+      throw pipelineError(404, 'APPLICATION_NOT_FOUND', 'Application not found');
+    }
+    const result = await this.db.queryWithClient(client,
+      'SELECT * FROM pipeline_applications WHERE id = $1 AND organization_id = $2 FOR UPDATE',
+      [applicationId, organizationId]
+    );
+    if (!result.rows[0]) {
+      throw pipelineError(404, 'APPLICATION_NOT_FOUND', 'Application not found');
+    }
+    return this.mapApplicationRow(result.rows[0]);
+  }
+
+  /**
+   * The application's certificate, issued if it has none yet. Certificate
+   * numbers count up per organization, prefix and year; the advisory lock
+   * keeps concurrent issues from picking the same number.
+   */
+  private async ensureCertificate(
+    client: PoolClient,
+    application: PipelineApplication,
+    userId: string,
+    certificateId?: string
+  ): Promise<PipelineCertificate> {
+    const existing = await this.db.queryWithClient(client,
+      'SELECT * FROM pipeline_certificates WHERE application_id = $1',
+      [application.id]
+    );
+    if (existing.rows[0]) {
+      return this.mapCertificateRow(existing.rows[0]);
+    }
+
+    const final = FINAL_STAGES[application.organizationType];
+    const numberPrefix = `${final.prefix}-${new Date().getFullYear()}-`;
+
+    await this.db.queryWithClient(client,
+      'SELECT pg_advisory_xact_lock(hashtext($1))',
+      [`pipeline-certificates:${application.organizationId}`]
+    );
+    const sequence = await this.db.queryWithClient(client,
+      `SELECT COALESCE(MAX(SUBSTRING(certificate_number FROM '([0-9]+)$')::int), 0) + 1 AS next
+       FROM pipeline_certificates
+       WHERE organization_id = $1 AND certificate_number LIKE $2`,
+      [application.organizationId, `${numberPrefix}%`]
+    );
+    const certificateNumber = `${numberPrefix}${String(sequence.rows[0].next).padStart(3, '0')}`;
+
+    const result = await this.db.queryWithClient(client,
+      `INSERT INTO pipeline_certificates (
+         id, organization_id, application_id, certificate_number, client_name, company, product_name,
+         email, phone, expiry_date, certificate_type, analysis_result, notes, created_by, updated_by
+       ) VALUES (
+         COALESCE($1::uuid, uuid_generate_v4()), $2, $3, $4, $5, $6, $7, $8, $9,
+         NOW() + make_interval(days => $10), $11, $12, $13, $14, $14
+       )
+       RETURNING *`,
+      [
+        certificateId || null,
+        application.organizationId,
+        application.id,
+        certificateNumber,
+        application.clientName,
+        application.company,
+        application.productName,
+        application.email,
+        application.phone,
+        CERTIFICATE_VALIDITY_DAYS,
+        final.certificateType,
+        JSON.stringify(application.analysisResult || {}),
+        `Issued from application ${application.id}`,
+        userId
+      ]
+    );
+
+    const certificate = this.mapCertificateRow(result.rows[0]);
+    logger.info('Pipeline certificate issued', {
+      certificateId: certificate.id,
+      certificateNumber,
+      applicationId: application.id,
+      organizationId: application.organizationId
+    });
+    return certificate;
+  }
+
+  private mapApplicationRow(row: any): PipelineApplication {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      organizationType: row.organization_type,
+      clientName: row.client_name,
+      company: row.company,
+      productName: row.product_name,
+      email: row.email,
+      phone: row.phone,
+      submittedDate: row.submitted_date,
+      status: row.status,
+      priority: row.priority,
+      documents: row.documents || [],
+      ...(row.analysis_result !== null && row.analysis_result !== undefined && { analysisResult: row.analysis_result }),
+      notes: row.notes,
+      version: row.version,
+      ...(row.created_by && { createdBy: row.created_by }),
+      ...(row.updated_by && { updatedBy: row.updated_by }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapCertificateRow(row: any): PipelineCertificate {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      ...(row.application_id && { applicationId: row.application_id }),
+      certificateNumber: row.certificate_number,
+      clientName: row.client_name,
+      company: row.company,
+      productName: row.product_name,
+      email: row.email,
+      phone: row.phone,
+      issuedDate: row.issued_date,
+      expiryDate: row.expiry_date,
+      status: row.status,
+      certificateType: row.certificate_type,
+      analysisResult: row.analysis_result || {},
+      notes: row.notes,
+      ...(row.pdf_url && { pdfUrl: row.pdf_url }),
+      version: row.version,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapColumnRow(row: any): PipelineColumnConfig {
+    return {
+      columns: row.columns || [],
+      version: row.version,
+      ...(row.updated_by && { updatedBy: row.updated_by }),
+      updatedAt: row.updated_at
+    };
+  }
+}
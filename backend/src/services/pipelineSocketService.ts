@@ -0,0 +1,303 @@
+/**
+ * HalalCheck EU - Pipeline Socket Service
+ *
+ * WebSocket channel pushing committed pipeline changes (application moves,
+ * note edits, added documents, certificates, columns) to every connected
+ * member of the organization, and which members have an application open.
+ * Browsers cannot set headers on a WebSocket, so a connection authenticates
+ * with its first message, { type: 'auth', token }. Once the server answers
+ * { type: 'ready' } clients send { type: 'open' | 'close', applicationId } as
+ * the application's details are shown and hidden. A connection closes when
+ * its token expires, and when the member is deactivated or loses access to
+ * the pipeline. Members and presence are kept in this process, like the
+ * analysis job event streams.
+ */
+
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import jwt from 'jsonwebtoken';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { PipelineService } from './pipelineService';
+import { AuthService } from './authService';
+import { MfaService } from './mfaService';
+import { logger } from '@/utils/logger';
+import { PERMISSIONS, User } from '@/types/auth';
+import { PipelineEvent, PipelineViewer } from '@/types/pipeline';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const AUTH_TIMEOUT_MS = 10000;
+const HEARTBEAT_INTERVAL_MS = 30000;
+const MAX_MESSAGE_BYTES = 8192;
+const MAX_OPEN_APPLICATIONS = 20;
+
+// Close codes in the range reserved for applications
+const CLOSE_UNAUTHORIZED = 4001;
+const CLOSE_FORBIDDEN = 4003;
+const CLOSE_AUTH_TIMEOUT = 4008;
+
+interface Member {
+  socket: WebSocket;
+  user: User;
+  token: string;
+  expiry: NodeJS.Timeout | null;
+  openApplications: Set<string>;
+  alive: boolean;
+  unsubscribe: () => void;
+}
+
+export class PipelineSocketService {
+  private pipelineService: PipelineService;
+  private authService: AuthService;
+  private mfaService: MfaService;
+  private server: WebSocketServer | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private members = new Map<string, Set<Member>>(); // By organization
+  private memberBySocket = new WeakMap<WebSocket, Member>();
+
+  constructor(pipelineService?: PipelineService, authService?: AuthService, mfaService?: MfaService) {
+    this.pipelineService = pipelineService || new PipelineService();
+    this.authService = authService || new AuthService();
+    this.mfaService = mfaService || new MfaService();
+  }
+
+  /**
+   * Accept WebSocket upgrades for the given path on the HTTP server
+   */
+  attach(httpServer: Server, path: string): void {
+    if (this.server) {
+      return;
+    }
+
+    const server = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+    this.server = server;
+
+    httpServer.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const pathname = (request.url || '').split('?')[0];
+      if (pathname !== path || this.server !== server) {
+        socket.destroy();
+        return;
+      }
+      server.handleUpgrade(request, socket, head, webSocket => this.handleConnection(webSocket));
+    });
+
+    // Drop connections that stopped answering pings, e.g. after a network change,
+    // and members whose access was revoked since they joined
+    this.heartbeat = setInterval(() => {
+      for (const socket of server.clients) {
+        const member = this.memberBySocket.get(socket);
+        if (member && !member.alive) {
+          socket.terminate();
+          continue;
+        }
+        if (member) {
+          member.alive = false;
+          this.reverify(member);
+        }
+        socket.ping();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+
+    logger.info('Pipeline socket accepting connections', { path });
+  }
+
+  /**
+   * Disconnect every member and stop accepting connections
+   */
+  async close(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+
+    for (const socket of server.clients) {
+      socket.close(1001, 'Server shutting down');
+    }
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Who has the application open, one entry per user
+   */
+  viewersOf(organizationId: string, applicationId: string): PipelineViewer[] {
+    const viewers = new Map<string, PipelineViewer>();
+    for (const member of this.members.get(organizationId) || []) {
+      if (member.openApplications.has(applicationId)) {
+        viewers.set(member.user.id, {
+          userId: member.user.id,
+          name: `${member.user.firstName} ${member.user.lastName}`.trim()
+        });
+      }
+    }
+    return [...viewers.values()];
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const timeout = setTimeout(() => socket.close(CLOSE_AUTH_TIMEOUT, 'Authentication timed out'), AUTH_TIMEOUT_MS);
+    timeout.unref();
+
+    socket.once('message', data => {
+      clearTimeout(timeout);
+      this.authenticate(socket, data).catch(error => {
+        logger.error('Pipeline socket authentication failed', { error: (error as Error).message });
+        socket.close(CLOSE_UNAUTHORIZED, 'Authentication failed');
+      });
+    });
+    socket.on('close', () => clearTimeout(timeout));
+    socket.on('error', error => {
+      logger.warn('Pipeline socket error', { error: error.message });
+    });
+  }
+
+  private async authenticate(socket: WebSocket, data: RawData): Promise<void> {
+    const message = this.parse(data);
+    if (message?.type !== 'auth' || typeof message.token !== 'string') {
+      socket.close(CLOSE_UNAUTHORIZED, 'Authentication required');
+      return;
+    }
+
+    let user: User;
+    try {
+      user = await this.authService.verifyToken(message.token);
+    } catch {
+      socket.close(CLOSE_UNAUTHORIZED, 'Invalid or expired token');
+      return;
+    }
+    if (!await this.hasAccess(user)) {
+      socket.close(CLOSE_FORBIDDEN, 'Missing required permission');
+      return;
+    }
+    if (socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const expiresIn = this.expiresIn(message.token);
+    const member: Member = {
+      socket,
+      user,
+      token: message.token,
+      expiry: expiresIn === null
+        ? null
+        : setTimeout(() => socket.close(CLOSE_UNAUTHORIZED, 'Token expired'), Math.max(0, expiresIn)),
+      openApplications: new Set(),
+      alive: true,
+      unsubscribe: this.pipelineService.subscribe(user.organizationId, event => this.send(member, event))
+    };
+    const members = this.members.get(user.organizationId) || new Set<Member>();
+    members.add(member);
+    this.members.set(user.organizationId, members);
+    this.memberBySocket.set(socket, member);
+
+    socket.on('pong', () => {
+      member.alive = true;
+    });
+    socket.on('message', raw => this.handleMessage(member, raw));
+    socket.on('close', () => this.leave(member));
+
+    socket.send(JSON.stringify({ type: 'ready', userId: user.id, presence: this.presence(user.organizationId) }));
+    logger.debug('Pipeline socket member joined', { userId: user.id, organizationId: user.organizationId });
+  }
+
+  private handleMessage(member: Member, data: RawData): void {
+    const message = this.parse(data);
+    const applicationId = message?.applicationId;
+    if (typeof applicationId !== 'string' || !UUID_PATTERN.test(applicationId)) {
+      return;
+    }
+
+    if (message?.type === 'open' && !member.openApplications.has(applicationId)) {
+      if (member.openApplications.size >= MAX_OPEN_APPLICATIONS) {
+        return;
+      }
+      member.openApplications.add(applicationId);
+      this.publishPresence(member.user.organizationId, applicationId);
+    } else if (message?.type === 'close' && member.openApplications.delete(applicationId)) {
+      this.publishPresence(member.user.organizationId, applicationId);
+    }
+  }
+
+  /**
+   * Close the connection when the member is no longer active or allowed to see the pipeline
+   */
+  private async reverify(member: Member): Promise<void> {
+    let allowed = false;
+    try {
+      const user = await this.authService.verifyToken(member.token);
+      allowed = user.organizationId === member.user.organizationId && await this.hasAccess(user);
+    } catch {
+      // Revoked token or inactive user
+    }
+    if (!allowed) {
+      member.socket.close(CLOSE_FORBIDDEN, 'Access revoked');
+    }
+  }
+
+  private async hasAccess(user: User): Promise<boolean> {
+    return user.permissions.includes(PERMISSIONS.VIEW_PIPELINE) && !await this.mfaService.isEnrollmentRequired(user.id);
+  }
+
+  /**
+   * Milliseconds until the token expires, or null when it does not carry an expiry
+   */
+  private expiresIn(token: string): number | null {
+    const payload = jwt.decode(token);
+    return payload && typeof payload === 'object' && typeof payload.exp === 'number'
+      ? payload.exp * 1000 - Date.now()
+      : null;
+  }
+
+  private leave(member: Member): void {
+    if (member.expiry) {
+      clearTimeout(member.expiry);
+    }
+    member.unsubscribe();
+    const members = this.members.get(member.user.organizationId);
+    members?.delete(member);
+    if (members?.size === 0) {
+      this.members.delete(member.user.organizationId);
+    }
+    for (const applicationId of member.openApplications) {
+      this.publishPresence(member.user.organizationId, applicationId);
+    }
+  }
+
+  private publishPresence(organizationId: string, applicationId: string): void {
+    this.pipelineService.publish(organizationId, {
+      type: 'presence',
+      applicationId,
+      viewers: this.viewersOf(organizationId, applicationId)
+    });
+  }
+
+  private presence(organizationId: string): PipelineEvent[] {
+    const applicationIds = new Set<string>();
+    for (const member of this.members.get(organizationId) || []) {
+      member.openApplications.forEach(id => applicationIds.add(id));
+    }
+    return [...applicationIds].map(applicationId => ({
+      type: 'presence',
+      applicationId,
+      viewers: this.viewersOf(organizationId, applicationId)
+    }));
+  }
+
+  private send(member: Member, event: PipelineEvent): void {
+    if (member.socket.readyState === WebSocket.OPEN) {
+      member.socket.send(JSON.stringify(event));
+    }
+  }
+
+  private parse(data: RawData): Record<string, unknown> | null {
+    try {
+      const message = JSON.parse(data.toString());
+      return message && typeof message === 'object' ? message : null;
+    } catch {
+      return null;
+    }
+  }
+}
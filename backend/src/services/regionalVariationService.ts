@@ -0,0 +1,155 @@
+/**
+ * HalalCheck EU - Regional Variation Service
+ *
+ * Resolves the regional ruling that applies to an ingredient for the
+ * requested region and certification standard. Local certifiers (e.g. HQC
+ * in the Netherlands) can differ from the EU-wide position, so lookups
+ * follow the chain country -> EU -> ingredient default.
+ */
+
+import { DatabaseService } from './databaseService';
+import { logger } from '@/utils/logger';
+import {
+  HalalStatus,
+  IngredientAnalysis,
+  RegionalVariation,
+  ResolvedRegionalVariation,
+  RiskLevel,
+  VariationRegion
+} from '@/types/halal';
+
+// Country names and ISO codes accepted in analysis requests
+const REGION_ALIASES: Record<string, VariationRegion> = {
+  EU: 'EU',
+  EUROPE: 'EU',
+  NL: 'NETHERLANDS',
+  NETHERLANDS: 'NETHERLANDS',
+  HOLLAND: 'NETHERLANDS',
+  BE: 'BELGIUM',
+  BELGIUM: 'BELGIUM',
+  FR: 'FRANCE',
+  FRANCE: 'FRANCE',
+  DE: 'GERMANY',
+  GERMANY: 'GERMANY',
+  UK: 'UK',
+  GB: 'UK',
+  'UNITED KINGDOM': 'UK'
+};
+
+/**
+ * Normalize a request region ('NL', 'Netherlands', 'NETHERLANDS', ...) to a variation region
+ */
+export function normalizeRegion(region?: string): VariationRegion | undefined {
+  if (!region) {
+    return undefined;
+  }
+  return REGION_ALIASES[region.trim().toUpperCase()];
+}
+
+/**
+ * Regions to try, most specific first. Unknown regions fall back to EU only.
+ */
+export function getRegionFallbackChain(region?: string): VariationRegion[] {
+  const normalized = normalizeRegion(region);
+  return normalized && normalized !== 'EU' ? [normalized, 'EU'] : ['EU'];
+}
+
+/**
+ * Pick the variation for a region and standard from an ingredient's variations.
+ * Only variations issued under the requested standard are considered; returns
+ * null when the ingredient default applies.
+ */
+export function resolveRegionalVariation(
+  variations: RegionalVariation[],
+  region: string | undefined,
+  standard: string
+): ResolvedRegionalVariation | null {
+  for (const candidate of getRegionFallbackChain(region)) {
+    const variation = variations.find(v => v.region === candidate && v.standard === standard);
+    if (variation) {
+      return { ...variation, matchedOn: candidate === 'EU' ? 'EU' : 'COUNTRY' };
+    }
+  }
+  return null;
+}
+
+export class RegionalVariationService {
+  private db: DatabaseService;
+
+  constructor(db?: DatabaseService) {
+    this.db = db || new DatabaseService();
+  }
+
+  /**
+   * Load the variations recorded for an ingredient and resolve the applicable one
+   */
+  async resolveForIngredient(
+    ingredientId: string,
+    region: string | undefined,
+    standard: string
+  ): Promise<ResolvedRegionalVariation | null> {
+    try {
+      const result = await this.db.query(
+        `SELECT region, status, certification_standard, reasoning, last_reviewed, reviewed_by
+         FROM ingredient_regional_variations
+         WHERE ingredient_id = $1 AND certification_standard = $2 AND region = ANY($3)`,
+        [ingredientId, standard, getRegionFallbackChain(region)]
+      );
+
+      const variations: RegionalVariation[] = result.rows.map(row => ({
+        region: row.region,
+        status: row.status as HalalStatus,
+        standard: row.certification_standard,
+        reasoning: row.reasoning,
+        lastReviewed: row.last_reviewed,
+        reviewedBy: row.reviewed_by
+      }));
+
+      return resolveRegionalVariation(variations, region, standard);
+    } catch (error) {
+      logger.warn('Regional variation lookup failed', {
+        ingredientId,
+        region,
+        standard,
+        error: (error as Error).message
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Replace the default verdict with the regional ruling and record who reviewed it
+   */
+  applyVariation(analysis: IngredientAnalysis, variation: ResolvedRegionalVariation | null): IngredientAnalysis {
+    if (!variation) {
+      return analysis;
+    }
+
+    const warnings = [...analysis.warnings];
+    if (variation.status !== analysis.status) {
+      warnings.push(`${variation.region} ${variation.standard} ruling applied: ${variation.status} (default: ${analysis.status})`);
+    }
+
+    return {
+      ...analysis,
+      status: variation.status,
+      riskLevel: this.riskLevelForStatus(variation.status, analysis.riskLevel),
+      reasoning: `${analysis.reasoning} ${variation.region} (${variation.standard}): ${variation.reasoning}`.trim(),
+      requiresExpertReview: analysis.requiresExpertReview || variation.status === HalalStatus.REQUIRES_REVIEW,
+      warnings,
+      regionalVariation: variation
+    };
+  }
+
+  private riskLevelForStatus(status: HalalStatus, current: RiskLevel): RiskLevel {
+    switch (status) {
+      case HalalStatus.HARAM:
+        return RiskLevel.VERY_HIGH;
+      case HalalStatus.MASHBOOH:
+      case HalalStatus.REQUIRES_REVIEW:
+        return [RiskLevel.VERY_LOW, RiskLevel.LOW].includes(current) ? RiskLevel.MEDIUM : current;
+      default:
+        return current;
+    }
+  }
+}
@@ -0,0 +1,579 @@
+/**
+ * HalalCheck EU - Report Renderer
+ *
+ * Renders report documents to PDF (pdfkit) and Excel (exceljs). Layout,
+ * fonts and colours depend only on the document, so the same analysis and
+ * branding produce the same file for every client. Fonts are configured
+ * through REPORT_FONT, REPORT_BOLD_FONT and REPORT_ARABIC_FONT, falling back
+ * to common system fonts.
+ */
+
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import { Workbook, Worksheet, Row } from 'exceljs';
+import { AppError } from '@/middleware/errorHandler';
+import { HalalStatus } from '@/types/halal';
+import { ReportBlock, ReportDocument, ReportField } from '@/types/reports';
+import { TextDirection, containsRTL, paragraphDirection, visualRuns } from '@/utils/bidiText';
+
+type FontFace = 'regular' | 'bold' | 'arabic' | 'arabicBold';
+type TextWeight = 'regular' | 'bold';
+
+export interface ReportRendererConfig {
+  fonts?: Partial<Record<FontFace, string>>;
+}
+
+const FONT_CANDIDATES: Record<FontFace, string[]> = {
+  regular: [
+    '/usr/share/fonts/truetype/liberation/LiberationSans-Regular.ttf',
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+    '/Library/Fonts/Arial.ttf',
+    'C:\\Windows\\Fonts\\arial.ttf'
+  ],
+  bold: [
+    '/usr/share/fonts/truetype/liberation/LiberationSans-Bold.ttf',
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf',
+    '/Library/Fonts/Arial Bold.ttf',
+    'C:\\Windows\\Fonts\\arialbd.ttf'
+  ],
+  arabic: [
+    '/usr/share/fonts/truetype/noto/NotoNaskhArabic-Regular.ttf',
+    '/usr/share/fonts/truetype/noto/NotoSansArabic-Regular.ttf',
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+    'C:\\Windows\\Fonts\\arial.ttf'
+  ],
+  arabicBold: [
+    '/usr/share/fonts/truetype/noto/NotoNaskhArabic-Bold.ttf',
+    '/usr/share/fonts/truetype/noto/NotoSansArabic-Bold.ttf',
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf',
+    'C:\\Windows\\Fonts\\arialbd.ttf'
+  ]
+};
+
+// Used when no TrueType Latin font is available
+const STANDARD_FONTS: Partial<Record<FontFace, string>> = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold'
+};
+
+const FONT_ENV: Record<FontFace, string> = {
+  regular: 'REPORT_FONT',
+  bold: 'REPORT_BOLD_FONT',
+  arabic: 'REPORT_ARABIC_FONT',
+  arabicBold: 'REPORT_ARABIC_BOLD_FONT'
+};
+
+const PAGE_MARGIN = 50;
+const HEADER_HEIGHT = 40;
+const FOOTER_HEIGHT = 30;
+const LINE_GAP = 1.3;
+const LABEL_WIDTH = 150;
+
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#64748b';
+const RULE_COLOR = '#e2e8f0';
+const TABLE_HEADER_FILL = '#f8fafc';
+const STATUS_COLORS: Partial<Record<HalalStatus, string>> = {
+  [HalalStatus.HALAL]: '#059669',
+  [HalalStatus.HARAM]: '#dc2626'
+};
+const DEFAULT_STATUS_COLOR = '#d97706';
+
+const MAX_SHEET_NAME_LENGTH = 31;
+
+function statusColor(status: string): string {
+  return STATUS_COLORS[status as HalalStatus] || DEFAULT_STATUS_COLOR;
+}
+
+function renderError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+export class ReportRenderer {
+  private fonts: Partial<Record<FontFace, string>>;
+
+  constructor(config: ReportRendererConfig = {}) {
+    this.fonts = {};
+    for (const face of Object.keys(FONT_CANDIDATES) as FontFace[]) {
+      const font = config.fonts?.[face]
+        || process.env[FONT_ENV[face]]
+        || FONT_CANDIDATES[face].find(candidate => fs.existsSync(candidate));
+      if (font) {
+        this.fonts[face] = font;
+      }
+    }
+    // Fall back to the regular weight rather than failing on bold text
+    for (const [face, fallback] of [['bold', 'regular'], ['arabicBold', 'arabic']] as const) {
+      const font = this.fonts[face] || this.fonts[fallback];
+      if (font) {
+        this.fonts[face] = font;
+      }
+    }
+  }
+
+  async renderPDF(document: ReportDocument): Promise<{ buffer: Buffer; pages: number }> {
+    if (!this.fonts.arabic && containsRTL(JSON.stringify(document))) {
+      throw renderError(500, 'REPORT_FONT_UNAVAILABLE', `Report text requires a TrueType font with Arabic glyphs; set ${FONT_ENV.arabic}`);
+    }
+
+    const doc = new PDFDocument({
+      size: 'A4',
+      bufferPages: true,
+      margins: {
+        top: PAGE_MARGIN + HEADER_HEIGHT,
+        bottom: PAGE_MARGIN + FOOTER_HEIGHT,
+        left: PAGE_MARGIN,
+        right: PAGE_MARGIN
+      },
+      info: {
+        Title: document.metadata.title,
+        Author: document.branding.companyName,
+        Subject: document.productName,
+        Producer: 'HalalCheck EU Reporting Service',
+        CreationDate: document.metadata.generatedAt
+      }
+    });
+    for (const face of Object.keys(FONT_ENV) as FontFace[]) {
+      const font = this.fonts[face] || STANDARD_FONTS[face];
+      if (font) {
+        doc.registerFont(face, font);
+      }
+    }
+
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const layout = new PdfReportLayout(doc, document);
+    layout.drawBody();
+    const pages = layout.drawPageFrames();
+    doc.end();
+
+    return { buffer: await finished, pages };
+  }
+
+  /**
+   * Workbook with a summary sheet followed by one sheet per ingredient
+   */
+  async renderExcel(document: ReportDocument): Promise<Buffer> {
+    const { branding, labels, metadata } = document;
+    const workbook = new Workbook();
+    workbook.creator = branding.companyName;
+    workbook.title = metadata.title;
+    workbook.created = metadata.generatedAt;
+    workbook.modified = metadata.generatedAt;
+
+    const sheetNames = new Set<string>();
+    const summary = workbook.addWorksheet(uniqueSheetName(labels.summary, sheetNames), {
+      properties: { tabColor: { argb: argb(branding.primaryColor) } }
+    });
+    summary.columns = [{ width: 32 }, { width: 24 }, { width: 18 }, { width: 18 }, { width: 18 }, { width: 40 }];
+
+    const title = summary.addRow([metadata.title]);
+    title.font = { bold: true, size: 16, color: { argb: argb(branding.primaryColor) } };
+    title.height = 24;
+    summary.addRow([document.productName]).font = { bold: true, size: 13 };
+    const status = summary.addRow([document.overallStatus]);
+    status.font = { bold: true, color: { argb: argb(statusColor(document.overallStatus)) } };
+    for (const [label, value] of metadataRows(document)) {
+      addFieldRow(summary, { label, value });
+    }
+
+    if (branding.logo) {
+      const imageId = workbook.addImage({ buffer: branding.logo.data, extension: branding.logo.extension });
+      summary.addImage(imageId, { tl: { col: 4, row: 0 }, ext: { width: 160, height: 48 } });
+    }
+
+    for (const section of document.sections) {
+      addSectionRow(summary, section.title, branding.primaryColor);
+      for (const block of section.blocks) {
+        addBlockRows(summary, block);
+      }
+    }
+
+    addSectionRow(summary, document.disclaimers.title, branding.primaryColor);
+    for (const item of document.disclaimers.items) {
+      const row = summary.addRow([item]);
+      summary.mergeCells(row.number, 1, row.number, 6);
+      row.alignment = { wrapText: true, vertical: 'top' };
+      row.font = { size: 9, color: { argb: argb(MUTED_COLOR) } };
+    }
+
+    document.ingredients.forEach((ingredient, index) => {
+      const sheet = workbook.addWorksheet(uniqueSheetName(`${index + 1}. ${ingredient.name}`, sheetNames), {
+        properties: { tabColor: { argb: argb(statusColor(ingredient.status)) } }
+      });
+      sheet.columns = [{ width: 24 }, { width: 90 }];
+      const heading = sheet.addRow([ingredient.name]);
+      heading.font = { bold: true, size: 14, color: { argb: argb(branding.primaryColor) } };
+      for (const field of ingredient.fields) {
+        addFieldRow(sheet, field);
+      }
+    });
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+}
+
+/**
+ * Cursor-based A4 layout of one PDF report
+ */
+class PdfReportLayout {
+  private readonly left = PAGE_MARGIN;
+  private readonly width: number;
+
+  constructor(private readonly doc: PDFKit.PDFDocument, private readonly document: ReportDocument) {
+    this.width = doc.page.width - PAGE_MARGIN * 2;
+  }
+
+  drawBody(): void {
+    const { branding, metadata } = this.document;
+
+    this.paragraph(metadata.title, this.left, this.width, { face: 'bold', size: 20, color: branding.primaryColor });
+    this.doc.y += 4;
+    this.paragraph(this.document.productName, this.left, this.width, { face: 'bold', size: 14, color: TEXT_COLOR });
+    this.doc.y += 6;
+    this.statusBadge(this.document.overallStatus);
+    for (const [label, value] of metadataRows(this.document)) {
+      this.paragraph(`${label}: ${value}`, this.left, this.width, { face: 'regular', size: 8.5, color: MUTED_COLOR });
+    }
+    this.doc.y += 10;
+
+    for (const section of this.document.sections) {
+      this.sectionTitle(section.title);
+      for (const block of section.blocks) {
+        this.block(block);
+      }
+      this.doc.y += 8;
+    }
+
+    this.sectionTitle(this.document.disclaimers.title);
+    this.list(this.document.disclaimers.items, 8.5, MUTED_COLOR);
+  }
+
+  /**
+   * Branded header and paged footer on every page; returns the page count
+   */
+  drawPageFrames(): number {
+    const { branding, labels, metadata } = this.document;
+    const range = this.doc.bufferedPageRange();
+
+    for (let index = range.start; index < range.start + range.count; index++) {
+      this.doc.switchToPage(index);
+      // Frames sit in the margins; lift the bottom margin so pdfkit doesn't add a page
+      const bottomMargin = this.doc.page.margins.bottom;
+      this.doc.page.margins.bottom = 0;
+
+      const headerWidth = branding.logo ? this.width - 110 : this.width;
+      this.doc.y = PAGE_MARGIN;
+      this.paragraph(branding.companyName, this.left, headerWidth, { face: 'bold', size: 10, color: branding.primaryColor });
+      if (branding.logo) {
+        this.doc.image(branding.logo.data, this.left + this.width - 100, PAGE_MARGIN - 6, { fit: [100, 32], align: 'right' });
+      }
+      this.rule(PAGE_MARGIN + HEADER_HEIGHT - 12, branding.primaryColor, 1.5);
+
+      const footerY = this.doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT + 10;
+      this.rule(footerY, RULE_COLOR, 0.75);
+      this.doc.y = footerY + 6;
+      this.paragraph(`${metadata.title} · ${labels.reportId}: ${metadata.id}`, this.left, this.width - 90, { face: 'regular', size: 7.5, color: MUTED_COLOR });
+      this.doc.font('regular').fontSize(7.5).fillColor(MUTED_COLOR)
+        .text(`${labels.page} ${index - range.start + 1} ${labels.of} ${range.count}`, this.left + this.width - 90, footerY + 6, {
+          width: 90,
+          align: 'right',
+          lineBreak: false
+        });
+
+      this.doc.page.margins.bottom = bottomMargin;
+    }
+
+    return range.count;
+  }
+
+  private block(block: ReportBlock): void {
+    switch (block.kind) {
+      case 'fields':
+        block.fields.forEach(field => this.field(field));
+        break;
+      case 'list':
+        this.list(block.items, 9.5, TEXT_COLOR);
+        break;
+      case 'table':
+        this.table(block.columns, block.rows, block.statusColumn);
+        break;
+    }
+    this.doc.y += 4;
+  }
+
+  private field(field: ReportField): void {
+    const valueX = this.left + LABEL_WIDTH + 10;
+    const valueWidth = this.width - LABEL_WIDTH - 10;
+    const height = Math.max(
+      this.heightOf(field.label, LABEL_WIDTH, 'bold', 9),
+      this.heightOf(field.value || '-', valueWidth, field.status ? 'bold' : 'regular', 9.5)
+    );
+    this.ensureSpace(height + 4);
+
+    const top = this.doc.y;
+    this.paragraph(field.label, this.left, LABEL_WIDTH, { face: 'bold', size: 9, color: MUTED_COLOR });
+    this.doc.y = top;
+    this.paragraph(field.value || '-', valueX, valueWidth, {
+      face: field.status ? 'bold' : 'regular',
+      size: 9.5,
+      color: field.status ? statusColor(field.status) : TEXT_COLOR
+    });
+    this.doc.y = top + height + 4;
+  }
+
+  private list(items: string[], size: number, color: string): void {
+    for (const item of items) {
+      this.ensureSpace(this.heightOf(item, this.width - 12, 'regular', size) + 3);
+      const top = this.doc.y;
+      this.doc.font('regular').fontSize(size).fillColor(color).text('•', this.left, top, { lineBreak: false });
+      this.doc.y = top;
+      this.paragraph(item, this.left + 12, this.width - 12, { face: 'regular', size, color });
+      this.doc.y += 3;
+    }
+  }
+
+  private table(columns: string[], rows: string[][], statusColumn?: number): void {
+    const widths = columnWidths(columns, rows, this.width);
+    const padding = 4;
+    const rowHeight = (cells: string[], face: TextWeight) => Math.max(
+      ...cells.map((cell, index) => this.heightOf(cell || '-', (widths[index] || 0) - padding * 2, face, 8.5))
+    ) + padding * 2;
+
+    const drawRow = (cells: string[], header: boolean) => {
+      const face: TextWeight = header ? 'bold' : 'regular';
+      const height = rowHeight(cells, face);
+      const top = this.doc.y;
+      if (header) {
+        this.doc.rect(this.left, top, this.width, height).fill(TABLE_HEADER_FILL);
+      }
+      let x = this.left;
+      cells.forEach((cell, index) => {
+        const width = widths[index] || 0;
+        this.doc.y = top + padding;
+        this.paragraph(cell || '-', x + padding, width - padding * 2, {
+          face: !header && index === statusColumn ? 'bold' : face,
+          size: 8.5,
+          color: !header && index === statusColumn ? statusColor(cell) : TEXT_COLOR
+        });
+        x += width;
+      });
+      this.rule(top + height, RULE_COLOR, 0.5);
+      this.doc.y = top + height;
+    };
+
+    this.ensureSpace(rowHeight(columns, 'bold') + rowHeight(rows[0] || columns, 'regular'));
+    drawRow(columns, true);
+    for (const row of rows) {
+      if (!this.fits(rowHeight(row, 'regular'))) {
+        this.doc.addPage();
+        drawRow(columns, true);
+      }
+      drawRow(row, false);
+    }
+  }
+
+  private sectionTitle(title: string): void {
+    this.ensureSpace(60);
+    this.paragraph(title, this.left, this.width, { face: 'bold', size: 13, color: this.document.branding.primaryColor });
+    this.rule(this.doc.y + 2, this.document.branding.secondaryColor, 0.75);
+    this.doc.y += 8;
+  }
+
+  private statusBadge(status: string): void {
+    this.doc.font('bold').fontSize(11);
+    const width = this.doc.widthOfString(status) + 20;
+    const top = this.doc.y;
+    this.doc.roundedRect(this.left, top, width, 20, 4).fill(statusColor(status));
+    this.doc.fillColor('#FFFFFF').text(status, this.left + 10, top + 5, { lineBreak: false });
+    this.doc.y = top + 28;
+  }
+
+  private rule(y: number, color: string, lineWidth: number): void {
+    this.doc.save()
+      .moveTo(this.left, y)
+      .lineTo(this.left + this.width, y)
+      .lineWidth(lineWidth)
+      .strokeColor(color)
+      .stroke()
+      .restore();
+  }
+
+  private ensureSpace(height: number): void {
+    if (!this.fits(height)) {
+      this.doc.addPage();
+    }
+  }
+
+  private fits(height: number): boolean {
+    return this.doc.y + height <= this.doc.page.height - this.doc.page.margins.bottom;
+  }
+
+  /**
+   * Wrapped text at the cursor. Paragraphs with Arabic are laid out here in
+   * visual order; everything else is left to pdfkit.
+   */
+  private paragraph(text: string, x: number, width: number, style: { face: TextWeight; size: number; color: string }): void {
+    if (!containsRTL(text)) {
+      this.doc.font(style.face).fontSize(style.size).fillColor(style.color).text(text, x, this.doc.y, { width });
+      return;
+    }
+
+    const base = paragraphDirection(text);
+    const bold = style.face === 'bold';
+    let y = this.doc.y;
+    for (const line of this.wrapBidi(text, width, base, bold, style.size)) {
+      const runs = visualRuns(line, base).map(run => ({
+        ...run,
+        face: faceFor(run.direction, bold),
+        width: this.measure(run.text, faceFor(run.direction, bold), style.size)
+      }));
+      const lineWidth = runs.reduce((sum, run) => sum + run.width, 0);
+      let runX = base === 'rtl' ? x + width - lineWidth : x;
+      for (const run of runs) {
+        this.doc.font(run.face).fontSize(style.size).fillColor(style.color).text(run.text, runX, y, {
+          lineBreak: false,
+          ...(run.direction === 'rtl' && { features: ['rlig', 'calt'] })
+        });
+        runX += run.width;
+      }
+      y += style.size * LINE_GAP;
+    }
+    this.doc.y = y;
+  }
+
+  private heightOf(text: string, width: number, face: TextWeight, size: number): number {
+    if (!containsRTL(text)) {
+      return this.doc.font(face).fontSize(size).heightOfString(text, { width });
+    }
+    return this.wrapBidi(text, width, paragraphDirection(text), face === 'bold', size).length * size * LINE_GAP;
+  }
+
+  private wrapBidi(text: string, width: number, base: TextDirection, bold: boolean, size: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.lineWidth(candidate, base, bold, size) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  private lineWidth(line: string, base: TextDirection, bold: boolean, size: number): number {
+    return visualRuns(line, base)
+      .reduce((sum, run) => sum + this.measure(run.text, faceFor(run.direction, bold), size), 0);
+  }
+
+  private measure(text: string, face: FontFace, size: number): number {
+    return this.doc.font(face).fontSize(size).widthOfString(text);
+  }
+}
+
+function faceFor(direction: TextDirection, bold: boolean): FontFace {
+  if (direction === 'rtl') return bold ? 'arabicBold' : 'arabic';
+  return bold ? 'bold' : 'regular';
+}
+
+function metadataRows(document: ReportDocument): Array<[string, string]> {
+  const { labels, metadata } = document;
+  return [
+    [labels.generatedAt, `${metadata.generatedAt.toISOString().replace('T', ' ').slice(0, 16)} UTC`],
+    [labels.generatedBy, metadata.generatedBy],
+    [labels.organization, metadata.organization],
+    [labels.reportId, metadata.id]
+  ];
+}
+
+/**
+ * Widths proportional to each column's longest cell, within 1:4
+ */
+function columnWidths(columns: string[], rows: string[][], total: number): number[] {
+  const weights = columns.map((column, index) => {
+    const longest = Math.max(column.length, ...rows.map(row => (row[index] || '').length));
+    return Math.min(4, Math.max(1, longest / 12));
+  });
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  return weights.map(weight => (weight / sum) * total);
+}
+
+function argb(hex: string): string {
+  return `FF${hex.replace('#', '').toUpperCase()}`;
+}
+
+function uniqueSheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').trim() || 'Sheet';
+  let candidate = base.slice(0, MAX_SHEET_NAME_LENGTH);
+  for (let suffix = 2; used.has(candidate.toLowerCase()); suffix++) {
+    const tail = ` (${suffix})`;
+    candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - tail.length) + tail;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function addSectionRow(sheet: Worksheet, title: string, color: string): void {
+  sheet.addRow([]);
+  const row = sheet.addRow([title]);
+  sheet.mergeCells(row.number, 1, row.number, 6);
+  row.font = { bold: true, size: 12, color: { argb: 'FFFFFFFF' } };
+  row.getCell(1).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: argb(color) } };
+}
+
+function addFieldRow(sheet: Worksheet, field: ReportField): Row {
+  const row = sheet.addRow([field.label, field.value]);
+  if (sheet.columnCount > 2) {
+    sheet.mergeCells(row.number, 2, row.number, sheet.columnCount);
+  }
+  row.getCell(1).font = { bold: true, color: { argb: argb(MUTED_COLOR) } };
+  row.getCell(2).alignment = { wrapText: true, vertical: 'top' };
+  row.getCell(1).alignment = { vertical: 'top' };
+  if (field.status) {
+    row.getCell(2).font = { bold: true, color: { argb: argb(statusColor(field.status)) } };
+  }
+  return row;
+}
+
+function addBlockRows(sheet: Worksheet, block: ReportBlock): void {
+  switch (block.kind) {
+    case 'fields':
+      block.fields.forEach(field => addFieldRow(sheet, field));
+      break;
+    case 'list':
+      for (const item of block.items) {
+        const row = sheet.addRow([`• ${item}`]);
+        sheet.mergeCells(row.number, 1, row.number, 6);
+        row.alignment = { wrapText: true, vertical: 'top' };
+      }
+      break;
+    case 'table': {
+      const header = sheet.addRow(block.columns);
+      header.font = { bold: true };
+      header.eachCell(cell => {
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: argb(TABLE_HEADER_FILL) } };
+        cell.border = { bottom: { style: 'thin', color: { argb: argb(RULE_COLOR) } } };
+      });
+      for (const cells of block.rows) {
+        const row = sheet.addRow(cells);
+        row.alignment = { wrapText: true, vertical: 'top' };
+        if (block.statusColumn !== undefined) {
+          const cell = row.getCell(block.statusColumn + 1);
+          cell.font = { bold: true, color: { argb: argb(statusColor(String(cell.value))) } };
+        }
+      }
+      break;
+    }
+  }
+}
@@ -1,342 +1,866 @@
 /**
  * HalalCheck EU - Professional Reporting Service
- * 
+ *
  * CRITICAL: These reports are used for official halal certification decisions.
  * Legal disclaimers and religious sensitivity are mandatory.
- * 
+ *
  * Features:
  * - Professional PDF generation
+ * - Excel workbooks with a sheet per ingredient
  * - Multi-language support
  * - Legal disclaimers
  * - Certification-ready formats
  * - White-label branding
  * - Audit trail compliance
+ * - Files signed with the organization's key (see SigningKeyService)
  */
 
-import { ProductAnalysis, CertificationReport, HalalStatus } from '@/types/halal';
+import crypto from 'crypto';
+import dns from 'dns';
+import { ProductAnalysis, IngredientAnalysis, HalalStatus, RiskLevel } from '@/types/halal';
 import { User, Organization } from '@/types/auth';
+import {
+  ReportType,
+  ReportFormat,
+  ReportBranding,
+  ReportRequest,
+  ReportMetadata,
+  ReportDocument,
+  ReportField,
+  ReportIngredient,
+  ReportLabels,
+  ReportSection,
+  RenderedReport,
+  ResolvedReportBranding,
+  StoredReport,
+  ReportDownload,
+  ReportDownloadLink
+} from '@/types/reports';
+import { AppError } from '@/middleware/errorHandler';
 import { logger } from '@/utils/logger';
 import { DatabaseService } from '@/services/databaseService';
+import { SigningKeyService } from '@/services/signingKeyService';
+import { SIGNATURE_ALGORITHM } from '@/types/signing';
+import { ReportRenderer } from '@/services/reportRenderer';
+import { ObjectStorage, createObjectStorage } from '@/services/objectStorage';
+import { isPrivateAddress } from '@/services/webhookService';
 
-export enum ReportType {
-  EXECUTIVE_SUMMARY = 'EXECUTIVE_SUMMARY',
-  DETAILED_ANALYSIS = 'DETAILED_ANALYSIS',
-  CERTIFICATION_READY = 'CERTIFICATION_READY',
-  COMPLIANCE_DASHBOARD = 'COMPLIANCE_DASHBOARD'
+const DEFAULT_PRIMARY_COLOR = '#059669';
+const DEFAULT_SECONDARY_COLOR = '#64748b';
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const MAX_COMPANY_NAME_LENGTH = 120;
+const MAX_LOGO_BYTES = 1024 * 1024;
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+
+const DEFAULT_LINK_TTL_HOURS = 24;
+const MAX_LINK_TTL_HOURS = 7 * 24;
+const DEFAULT_RETENTION_DAYS = 90;
+const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 200;
+const HOUR_MS = 60 * 60 * 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  [ReportFormat.PDF]: 'application/pdf',
+  [ReportFormat.EXCEL]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [ReportFormat.JSON]: 'application/json'
+};
+
+const FILE_EXTENSIONS: Record<ReportFormat, string> = {
+  [ReportFormat.PDF]: 'pdf',
+  [ReportFormat.EXCEL]: 'xlsx',
+  [ReportFormat.JSON]: 'json'
+};
+
+type Translations = ReturnType<ReportingService['getTranslations']>;
+
+interface ReportContext {
+  analysis: ProductAnalysis;
+  translations: Translations;
+  metadata: ReportMetadata;
 }
 
-export enum ReportFormat {
-  PDF = 'PDF',
-  EXCEL = 'EXCEL',
-  JSON = 'JSON'
+function reportError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
 }
 
-export interface ReportRequest {
-  analysisId: string;
-  type: ReportType;
-  format: ReportFormat;
-  language: string;
-  includeBranding?: boolean;
-  customBranding?: {
-    logoUrl?: string;
-    companyName?: string;
-    colors?: {
-      primary: string;
-      secondary: string;
-    };
-  };
-  userId: string;
-  organizationId: string;
+function formatDate(value: Date | string | undefined): string {
+  if (!value) {
+    return '-';
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? '-' : date.toISOString().slice(0, 10);
+}
+
+function formatConfidence(confidence: number | string): string {
+  return `${Math.round(Number(confidence) * 100)}%`;
+}
+
+function percentage(count: number, total: number): string {
+  return total > 0 ? `${Math.round((count / total) * 100)}%` : '0%';
+}
+
+function retentionDays(): number {
+  const days = parseInt(process.env.REPORT_RETENTION_DAYS || '', 10);
+  return days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+function signingSecret(): string {
+  const secret = process.env.REPORT_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw reportError(500, 'SIGNING_NOT_CONFIGURED', 'REPORT_SIGNING_SECRET is not configured');
+  }
+  return secret;
+}
+
+/**
+ * HMAC over the report, its organization and the link expiry (unix seconds)
+ */
+export function signReportDownload(reportId: string, organizationId: string, expires: number, secret: string = signingSecret()): string {
+  return crypto.createHmac('sha256', secret)
+    .update(`${reportId}:${organizationId}:${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Response body, or null once it is known to exceed the limit; the download is
+ * cancelled there instead of buffering whatever the remote host sends
+ */
+async function readBodyUpTo(response: Response, limit: number): Promise<Buffer | null> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > limit) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks, received);
+    }
+    received += value.length;
+    if (received > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
 }
 
-export interface ReportMetadata {
-  id: string;
-  title: string;
-  generatedAt: Date;
-  generatedBy: string;
-  organization: string;
-  language: string;
-  version: string;
-  pages?: number;
-  fileSize?: number;
+function reportStorageKey(organizationId: string, reportId: string, format: ReportFormat): string {
+  return `reports/${organizationId}/${reportId}.${FILE_EXTENSIONS[format]}`;
+}
+
+function mapStoredReport(row: any): StoredReport {
+  return {
+    id: row.id,
+    analysisId: row.product_analysis_id,
+    organizationId: row.organization_id,
+    type: row.type,
+    format: row.format,
+    language: row.language,
+    fileName: row.file_name,
+    contentType: row.content_type,
+    fileSize: row.file_size_bytes,
+    downloadCount: row.download_count,
+    generatedAt: row.generated_at,
+    expiresAt: row.expires_at,
+    ...(row.document_signature && {
+      signature: {
+        algorithm: SIGNATURE_ALGORITHM,
+        keyId: row.signing_key_id,
+        hash: row.document_hash,
+        signature: row.document_signature,
+        signedAt: row.generated_at
+      }
+    })
+  };
 }
 
 export class ReportingService {
   private db: DatabaseService;
+  private renderer: ReportRenderer;
+  private storage: ObjectStorage;
+  private signingKeys: SigningKeyService;
+  private retentionTimer: NodeJS.Timeout | undefined;
+
+  constructor(db?: DatabaseService, renderer?: ReportRenderer, storage?: ObjectStorage, signingKeys?: SigningKeyService) {
+    this.db = db || new DatabaseService();
+    this.renderer = renderer || new ReportRenderer();
+    this.storage = storage || createObjectStorage();
+    this.signingKeys = signingKeys || new SigningKeyService(this.db);
+  }
+
+  /**
+   * Problems with a report request body, empty when it can be generated
+   */
+  validateReportRequest(body: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+
+    if (!Object.values(ReportType).includes(body.type as ReportType)) {
+      errors.push(`type must be one of: ${Object.values(ReportType).join(', ')}`);
+    }
+    if (!Object.values(ReportFormat).includes(body.format as ReportFormat)) {
+      errors.push(`format must be one of: ${Object.values(ReportFormat).join(', ')}`);
+    }
+    if (body.language !== undefined && (typeof body.language !== 'string' || !/^[a-z]{2}$/.test(body.language))) {
+      errors.push('language must be a two-letter language code');
+    }
+    if (body.linkExpiresInHours !== undefined && !this.isValidLinkTtl(body.linkExpiresInHours)) {
+      errors.push(`linkExpiresInHours must be between 1 and ${MAX_LINK_TTL_HOURS}`);
+    }
+
+    const branding = body.customBranding as ReportBranding | undefined;
+    if (branding !== undefined) {
+      if (!branding || typeof branding !== 'object') {
+        errors.push('customBranding must be an object');
+        return errors;
+      }
+      if (branding.companyName !== undefined &&
+        (typeof branding.companyName !== 'string' || branding.companyName.length > MAX_COMPANY_NAME_LENGTH)) {
+        errors.push(`customBranding.companyName must be a string of at most ${MAX_COMPANY_NAME_LENGTH} characters`);
+      }
+      if (branding.colors !== undefined &&
+        (!HEX_COLOR_PATTERN.test(String(branding.colors?.primary)) || !HEX_COLOR_PATTERN.test(String(branding.colors?.secondary)))) {
+        errors.push('customBranding.colors.primary and secondary must be hex colours like #059669');
+      }
+      if (branding.logoUrl !== undefined &&
+        (typeof branding.logoUrl !== 'string' || !/^(https:|data:image\/(png|jpeg);base64,)/.test(branding.logoUrl))) {
+        errors.push('customBranding.logoUrl must be an https URL or a PNG/JPEG data URL');
+      }
+    }
 
-  constructor() {
-    this.db = new DatabaseService();
+    return errors;
   }
 
   /**
-   * Generate professional report
+   * Generate professional report, sign and store it, and return a signed download link
    */
-  async generateReport(request: ReportRequest): Promise<{ 
-    reportId: string; 
-    downloadUrl: string; 
-    metadata: ReportMetadata 
+  async generateReport(request: ReportRequest, linkTtlHours?: number): Promise<{
+    report: StoredReport;
+    download: ReportDownloadLink;
+    metadata: ReportMetadata
   }> {
+    const rendered = await this.renderReport(request);
+    const reportId = rendered.metadata.id;
+    const storageKey = reportStorageKey(request.organizationId, reportId, request.format);
+    const signature = await this.signingKeys.signDocument(request.organizationId, rendered.buffer);
+
+    await this.storage.put(storageKey, rendered.buffer, rendered.contentType);
+
+    const branding = request.includeBranding && request.customBranding ? {
+      ...request.customBranding,
+      // Embedded logos are not kept with the report record
+      ...(request.customBranding.logoUrl?.startsWith('data:') && { logoUrl: 'embedded' })
+    } : null;
+
+    try {
+      const result = await this.db.query(`
+        INSERT INTO reports (
+          id, product_analysis_id, type, format, language,
+          file_path, file_name, content_type, file_size_bytes,
+          includes_branding, custom_branding,
+          generated_by, organization_id, expires_at,
+          document_hash, document_signature, signing_key_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW() + make_interval(days => $14), $15, $16, $17)
+        RETURNING *
+      `, [
+        reportId,
+        request.analysisId,
+        request.type,
+        request.format,
+        request.language,
+        storageKey,
+        rendered.fileName,
+        rendered.contentType,
+        rendered.buffer.length,
+        !!branding,
+        branding ? JSON.stringify(branding) : null,
+        request.userId,
+        request.organizationId,
+        retentionDays(),
+        signature.hash,
+        signature.signature,
+        signature.keyId
+      ]);
+
+      const report = mapStoredReport(result.rows[0]);
+      return {
+        report,
+        download: this.signDownloadLink(report, linkTtlHours),
+        metadata: rendered.metadata
+      };
+    } catch (error) {
+      await this.storage.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * New signed link for a stored report of the organization
+   */
+  async createDownloadLink(reportId: string, organizationId: string, ttlHours?: number): Promise<ReportDownloadLink> {
+    const report = await this.getStoredReport(reportId);
+    if (!report || report.organizationId !== organizationId) {
+      throw reportError(404, 'REPORT_NOT_FOUND', 'Report not found');
+    }
+    if (new Date(report.expiresAt).getTime() <= Date.now()) {
+      throw reportError(410, 'REPORT_EXPIRED', 'Report has passed its retention period');
+    }
+    return this.signDownloadLink(report, ttlHours);
+  }
+
+  /**
+   * Resolve a signed download link to the report file
+   */
+  async getDownload(reportId: string, expires: unknown, signature: unknown): Promise<ReportDownload> {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || typeof signature !== 'string' || !signature) {
+      throw reportError(403, 'INVALID_SIGNATURE', 'Download link is invalid');
+    }
+
+    // The signature binds the link to the report's organization
+    const report = await this.getStoredReport(reportId);
+    const expected = report ? Buffer.from(signReportDownload(report.id, report.organizationId, expiresAt)) : null;
+    const provided = Buffer.from(signature);
+    if (!report || !expected || expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+      throw reportError(403, 'INVALID_SIGNATURE', 'Download link is invalid');
+    }
+    if (expiresAt * 1000 <= Date.now() || new Date(report.expiresAt).getTime() <= Date.now()) {
+      throw reportError(410, 'LINK_EXPIRED', 'Download link has expired');
+    }
+
+    const buffer = await this.storage.get(reportStorageKey(report.organizationId, report.id, report.format));
+    if (!buffer) {
+      throw reportError(410, 'REPORT_EXPIRED', 'Report file is no longer available');
+    }
+
+    await this.db.query(`
+      UPDATE reports SET download_count = download_count + 1, last_downloaded_at = NOW()
+      WHERE id = $1
+    `, [report.id]);
+
+    return { report: { ...report, downloadCount: report.downloadCount + 1 }, buffer };
+  }
+
+  /**
+   * Delete reports past their retention period, files first
+   */
+  async purgeExpiredReports(): Promise<number> {
+    let purged = 0;
+
+    for (;;) {
+      const expired = await this.db.query(`
+        SELECT id, file_path FROM reports
+        WHERE expires_at <= NOW()
+        ORDER BY expires_at
+        LIMIT $1
+      `, [PURGE_BATCH_SIZE]);
+      if (expired.rows.length === 0) {
+        break;
+      }
+
+      const removed: string[] = [];
+      for (const row of expired.rows) {
+        try {
+          if (row.file_path) {
+            await this.storage.delete(row.file_path);
+          }
+          removed.push(row.id);
+        } catch (error) {
+          logger.error('Failed to delete expired report file', { reportId: row.id, error: (error as Error).message });
+        }
+      }
+      if (removed.length === 0) {
+        break;
+      }
+
+      await this.db.query('DELETE FROM reports WHERE id = ANY($1)', [removed]);
+      purged += removed.length;
+      if (removed.length < expired.rows.length) {
+        break;
+      }
+    }
+
+    if (purged > 0) {
+      logger.info('Purged expired reports', { count: purged });
+    }
+    return purged;
+  }
+
+  startRetentionSweep(): void {
+    if (this.retentionTimer) {
+      return;
+    }
+    const sweep = () => {
+      this.purgeExpiredReports().catch(error => {
+        logger.error('Report retention sweep failed', { error: (error as Error).message });
+      });
+    };
+    this.retentionTimer = setInterval(sweep, RETENTION_SWEEP_INTERVAL_MS);
+    this.retentionTimer.unref();
+    sweep();
+  }
+
+  stopRetentionSweep(): void {
+    if (this.retentionTimer) {
+      clearInterval(this.retentionTimer);
+      this.retentionTimer = undefined;
+    }
+  }
+
+  /**
+   * Build the report and render it in the requested format
+   */
+  async renderReport(request: ReportRequest): Promise<RenderedReport> {
     try {
-      logger.info('Starting report generation', { 
+      logger.info('Starting report generation', {
         analysisId: request.analysisId,
         type: request.type,
         format: request.format,
-        userId: request.userId 
+        userId: request.userId
       });
 
       // Get analysis data
       const analysis = await this.db.getProductAnalysis(request.analysisId);
-      if (!analysis) {
-        throw new Error('Analysis not found');
+      if (!analysis || analysis.organizationId !== request.organizationId) {
+        throw reportError(404, 'ANALYSIS_NOT_FOUND', 'Analysis not found');
       }
 
       // Get user and organization
       const user = await this.db.findUserById(request.userId);
       const organization = await this.db.findOrganizationById(request.organizationId);
-      
+
       if (!user || !organization) {
-        throw new Error('User or organization not found');
+        throw reportError(404, 'NOT_FOUND', 'User or organization not found');
       }
 
-      // Generate report content based on type
-      const reportContent = await this.generateReportContent(
-        analysis, 
-        request.type, 
-        request.language,
-        user,
-        organization
-      );
+      const branding = await this.resolveBranding(organization, request.includeBranding ? request.customBranding : undefined);
+      const document = this.buildReportDocument(analysis, request.type, request.language, user, organization, branding);
 
-      // Apply branding if requested
-      if (request.includeBranding && request.customBranding) {
-        reportContent.branding = request.customBranding;
+      let buffer: Buffer;
+      switch (request.format) {
+        case ReportFormat.PDF: {
+          const pdf = await this.renderer.renderPDF(document);
+          document.metadata.pages = pdf.pages;
+          buffer = pdf.buffer;
+          break;
+        }
+        case ReportFormat.EXCEL:
+          buffer = await this.renderer.renderExcel(document);
+          break;
+        case ReportFormat.JSON: {
+          // Branding is described, not embedded
+          const { logo, ...brandingFields } = document.branding;
+          buffer = Buffer.from(JSON.stringify({ ...document, branding: { ...brandingFields, hasLogo: !!logo } }, null, 2));
+          break;
+        }
+        default:
+          throw reportError(400, 'VALIDATION_ERROR', `Unsupported format: ${request.format}`);
       }
+      document.metadata.fileSize = buffer.length;
 
-      // Generate file based on format
-      const fileData = await this.generateReportFile(reportContent, request.format);
-
-      // Store report in database
-      const reportId = await this.storeReport({
-        analysisId: request.analysisId,
-        userId: request.userId,
-        organizationId: request.organizationId,
-        type: request.type,
-        format: request.format,
-        language: request.language,
-        fileData,
-        metadata: reportContent.metadata
-      });
-
-      // Generate download URL (would integrate with S3 or similar)
-      const downloadUrl = await this.generateSecureDownloadUrl(reportId);
-
-      logger.info('Report generated successfully', { 
-        reportId,
+      logger.info('Report generated successfully', {
+        reportId: document.metadata.id,
         analysisId: request.analysisId,
-        type: request.type 
+        type: request.type
       });
 
+      const slug = analysis.productName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'analysis';
       return {
-        reportId,
-        downloadUrl,
-        metadata: reportContent.metadata
+        buffer,
+        contentType: CONTENT_TYPES[request.format],
+        fileName: `halalcheck-${request.type.toLowerCase().replace(/_/g, '-')}-${slug}.${FILE_EXTENSIONS[request.format]}`,
+        metadata: document.metadata
       };
 
     } catch (error) {
-      logger.error('Report generation failed', { 
-        error: error.message,
+      logger.error('Report generation failed', {
+        error: (error as Error).message,
         analysisId: request.analysisId,
-        type: request.type 
+        type: request.type
       });
       throw error;
     }
   }
 
   /**
-   * Generate report content structure
+   * Format-neutral report content
    */
-  private async generateReportContent(
+  private buildReportDocument(
     analysis: ProductAnalysis,
     type: ReportType,
     language: string,
     user: User,
-    organization: Organization
-  ): Promise<any> {
-    
-    const disclaimers = this.getDisclaimers(language);
+    organization: Organization,
+    branding: ResolvedReportBranding
+  ): ReportDocument {
     const translations = this.getTranslations(language);
+    const disclaimers = this.getDisclaimers(language);
 
-    const baseContent = {
-      metadata: {
-        id: crypto.randomUUID(),
-        title: this.getReportTitle(type, language),
-        generatedAt: new Date(),
-        generatedBy: `${user.firstName} ${user.lastName}`,
-        organization: organization.name,
-        language,
-        version: '1.0'
-      },
-      analysis,
-      disclaimers,
-      translations
+    const metadata: ReportMetadata = {
+      id: crypto.randomUUID(),
+      title: this.getReportTitle(type, language),
+      generatedAt: new Date(),
+      generatedBy: `${user.firstName} ${user.lastName}`,
+      organization: organization.name,
+      language,
+      version: '1.0'
     };
+    const context: ReportContext = { analysis, translations, metadata };
 
+    let sections: ReportSection[];
     switch (type) {
       case ReportType.EXECUTIVE_SUMMARY:
-        return this.generateExecutiveSummary(baseContent);
-      
+        sections = this.generateExecutiveSummary(context);
+        break;
       case ReportType.DETAILED_ANALYSIS:
-        return this.generateDetailedAnalysis(baseContent);
-      
+        sections = this.generateDetailedAnalysis(context);
+        break;
       case ReportType.CERTIFICATION_READY:
-        return this.generateCertificationReport(baseContent);
-      
+        sections = this.generateCertificationReport(context);
+        break;
       case ReportType.COMPLIANCE_DASHBOARD:
-        return this.generateComplianceDashboard(baseContent);
-      
+        sections = this.generateComplianceDashboard(context);
+        break;
       default:
-        throw new Error(`Unsupported report type: ${type}`);
+        throw reportError(400, 'VALIDATION_ERROR', `Unsupported report type: ${type}`);
     }
+
+    const certification = type === ReportType.CERTIFICATION_READY;
+    const labels: ReportLabels = {
+      summary: translations.summary,
+      generatedAt: translations.generatedAt,
+      generatedBy: translations.generatedBy,
+      organization: translations.organization,
+      reportId: translations.reportId,
+      page: translations.page,
+      of: translations.of
+    };
+
+    return {
+      metadata,
+      type,
+      productName: analysis.productName,
+      overallStatus: analysis.overallStatus,
+      branding,
+      sections,
+      ingredients: analysis.ingredients.map(ingredient => this.ingredientDetail(ingredient, translations)),
+      disclaimers: {
+        title: certification ? translations.certification_disclaimers : translations.legalDisclaimers,
+        items: [...(certification ? disclaimers.certification : disclaimers.general), ...disclaimers.liability]
+      },
+      labels
+    };
   }
 
   /**
    * Generate Executive Summary Report
    */
-  private generateExecutiveSummary(baseContent: any): any {
-    const { analysis, disclaimers, translations } = baseContent;
-
-    return {
-      ...baseContent,
-      sections: [
-        {
-          title: translations.executiveSummary,
-          content: {
-            productName: analysis.productName,
-            overallStatus: analysis.overallStatus,
-            overallRiskLevel: analysis.overallRiskLevel,
-            summary: analysis.summary,
-            keyFindings: [
-              ...(analysis.haram_ingredients.length > 0 ? 
-                [`${analysis.haram_ingredients.length} ${translations.haramIngredientsFound}`] : []),
-              ...(analysis.mashbooh_ingredients.length > 0 ? 
-                [`${analysis.mashbooh_ingredients.length} ${translations.mashboohIngredientsFound}`] : []),
-              ...(analysis.requires_expert_review.length > 0 ? 
-                [`${analysis.requires_expert_review.length} ${translations.ingredientsRequireReview}`] : [])
-            ],
-            recommendations: analysis.recommendations
-          }
-        },
-        {
-          title: translations.legalDisclaimers,
-          content: disclaimers
-        }
-      ]
-    };
+  private generateExecutiveSummary({ analysis, translations }: ReportContext): ReportSection[] {
+    return [
+      {
+        title: translations.executiveSummary,
+        blocks: [
+          { kind: 'fields', fields: this.overviewFields(analysis, translations) },
+          { kind: 'list', items: this.keyFindings(analysis, translations) }
+        ]
+      },
+      {
+        title: translations.recommendations,
+        blocks: [{ kind: 'list', items: analysis.recommendations }]
+      }
+    ];
   }
 
   /**
    * Generate Detailed Analysis Report
    */
-  private generateDetailedAnalysis(baseContent: any): any {
-    const { analysis, disclaimers, translations } = baseContent;
-
-    return {
-      ...baseContent,
-      sections: [
-        {
-          title: translations.productOverview,
-          content: {
-            productName: analysis.productName,
-            analyzedAt: analysis.analyzedAt,
-            analyzedBy: analysis.analyzedBy,
-            processingTime: `${analysis.processingTimeMs}ms`,
-            overallStatus: analysis.overallStatus
-          }
-        },
-        {
-          title: translations.ingredientAnalysis,
-          content: {
-            totalIngredients: analysis.summary.total_ingredients,
-            ingredients: analysis.ingredients.map(ing => ({
-              name: ing.detectedName,
-              status: ing.status,
-              confidence: ing.confidence,
-              riskLevel: ing.riskLevel,
-              reasoning: ing.reasoning,
-              warnings: ing.warnings,
-              suggestions: ing.suggestions,
-              requiresExpertReview: ing.requiresExpertReview
+  private generateDetailedAnalysis({ analysis, translations }: ReportContext): ReportSection[] {
+    return [
+      {
+        title: translations.productOverview,
+        blocks: [{
+          kind: 'fields',
+          fields: [
+            ...this.overviewFields(analysis, translations),
+            { label: translations.processingTime, value: `${analysis.processingTimeMs}ms` }
+          ]
+        }]
+      },
+      {
+        title: translations.ingredientAnalysis,
+        blocks: [
+          this.ingredientTable(analysis.ingredients, translations),
+          {
+            kind: 'fields',
+            fields: analysis.ingredients.map(ingredient => ({
+              label: ingredient.detectedName,
+              value: ingredient.reasoning
             }))
           }
-        },
-        {
-          title: translations.criticalFindings,
-          content: {
-            haramIngredients: analysis.haram_ingredients,
-            mashboohIngredients: analysis.mashbooh_ingredients,
-            requiresReview: analysis.requires_expert_review
-          }
-        },
-        {
-          title: translations.recommendations,
-          content: analysis.recommendations
-        },
-        {
-          title: translations.legalDisclaimers,
-          content: disclaimers
-        }
-      ]
-    };
+        ]
+      },
+      {
+        title: translations.criticalFindings,
+        blocks: [{
+          kind: 'fields',
+          fields: [
+            { label: translations.haramIngredients, value: this.names(analysis.haram_ingredients) },
+            { label: translations.mashboohIngredients, value: this.names(analysis.mashbooh_ingredients) },
+            { label: translations.requiresReview, value: this.names(analysis.requires_expert_review) }
+          ]
+        }]
+      },
+      {
+        title: translations.recommendations,
+        blocks: [{ kind: 'list', items: analysis.recommendations }]
+      }
+    ];
   }
 
   /**
    * Generate Certification-Ready Report
    */
-  private generateCertificationReport(baseContent: any): any {
-    const { analysis, disclaimers, translations } = baseContent;
+  private generateCertificationReport({ analysis, translations, metadata }: ReportContext): ReportSection[] {
+    return [
+      {
+        title: translations.certificationHeader,
+        blocks: [{
+          kind: 'fields',
+          fields: [
+            { label: translations.productName, value: analysis.productName },
+            { label: translations.certificationStatus, value: analysis.overallStatus, status: analysis.overallStatus },
+            { label: translations.assessmentDate, value: formatDate(metadata.generatedAt) },
+            { label: translations.certificationStandard, value: analysis.certificationStandard || '-' },
+            { label: translations.referenceNumber, value: `HCHECK-${metadata.id.slice(0, 8).toUpperCase()}` }
+          ]
+        }]
+      },
+      {
+        title: translations.complianceVerification,
+        blocks: [{
+          kind: 'fields',
+          fields: [
+            { label: translations.totalIngredients, value: String(analysis.summary.total_ingredients) },
+            { label: translations.halalIngredients, value: String(analysis.summary.halal_count) },
+            { label: translations.haramIngredients, value: String(analysis.summary.haram_count) },
+            { label: translations.mashboohIngredients, value: String(analysis.summary.mashbooh_count) },
+            { label: translations.uncertainIngredients, value: String(analysis.summary.uncertain_count ?? 0) },
+            { label: translations.expertReviewRequired, value: analysis.expertReviewRequired ? translations.yes : translations.no }
+          ]
+        }]
+      },
+      {
+        title: translations.ingredientBreakdown,
+        blocks: [this.ingredientTable(analysis.ingredients, translations)]
+      }
+    ];
+  }
+
+  /**
+   * Generate Compliance Dashboard Report
+   */
+  private generateComplianceDashboard({ analysis, translations }: ReportContext): ReportSection[] {
+    const total = analysis.ingredients.length;
+    const count = <T>(values: T[], value: T) => values.filter(entry => entry === value).length;
+    const statuses = analysis.ingredients.map(ingredient => ingredient.status);
+    const risks = analysis.ingredients.map(ingredient => ingredient.riskLevel);
+
+    const sections: ReportSection[] = [
+      {
+        title: translations.complianceOverview,
+        blocks: [{ kind: 'fields', fields: this.overviewFields(analysis, translations) }]
+      },
+      {
+        title: translations.statusDistribution,
+        blocks: [{
+          kind: 'table',
+          columns: [translations.status, translations.ingredients, translations.share],
+          rows: Object.values(HalalStatus)
+            .filter(status => count(statuses, status) > 0)
+            .map(status => [status, String(count(statuses, status)), percentage(count(statuses, status), total)]),
+          statusColumn: 0
+        }]
+      },
+      {
+        title: translations.riskDistribution,
+        blocks: [{
+          kind: 'table',
+          columns: [translations.riskLevel, translations.ingredients, translations.share],
+          rows: Object.values(RiskLevel)
+            .filter(risk => count(risks, risk) > 0)
+            .map(risk => [risk, String(count(risks, risk)), percentage(count(risks, risk), total)])
+        }]
+      }
+    ];
+
+    if (analysis.standardVerdicts && analysis.standardVerdicts.length > 0) {
+      sections.push({
+        title: translations.standardVerdicts,
+        blocks: [{
+          kind: 'table',
+          columns: [translations.certificationStandard, translations.status, translations.passes],
+          rows: analysis.standardVerdicts.map(verdict => [
+            verdict.standard,
+            verdict.overallStatus,
+            verdict.passes ? translations.yes : translations.no
+          ]),
+          statusColumn: 1
+        }]
+      });
+    }
+
+    sections.push({
+      title: translations.reviewQueue,
+      blocks: [{
+        kind: 'list',
+        items: analysis.requires_expert_review.length > 0
+          ? analysis.requires_expert_review.map(ingredient => `${ingredient.detectedName} (${ingredient.status})`)
+          : [translations.noReviewRequired]
+      }]
+    });
+
+    return sections;
+  }
+
+  private overviewFields(analysis: ProductAnalysis, translations: Translations): ReportField[] {
+    return [
+      { label: translations.productName, value: analysis.productName },
+      { label: translations.overallStatus, value: analysis.overallStatus, status: analysis.overallStatus },
+      { label: translations.riskLevel, value: analysis.overallRiskLevel },
+      { label: translations.certificationStandard, value: analysis.certificationStandard || '-' },
+      { label: translations.analyzedAt, value: formatDate(analysis.analyzedAt) },
+      { label: translations.totalIngredients, value: String(analysis.summary.total_ingredients) }
+    ];
+  }
+
+  private keyFindings(analysis: ProductAnalysis, translations: Translations): string[] {
+    const findings = [
+      ...(analysis.haram_ingredients.length > 0 ?
+        [`${analysis.haram_ingredients.length} ${translations.haramIngredientsFound}`] : []),
+      ...(analysis.mashbooh_ingredients.length > 0 ?
+        [`${analysis.mashbooh_ingredients.length} ${translations.mashboohIngredientsFound}`] : []),
+      ...(analysis.requires_expert_review.length > 0 ?
+        [`${analysis.requires_expert_review.length} ${translations.ingredientsRequireReview}`] : [])
+    ];
+    return findings.length > 0 ? findings : [translations.noCriticalFindings];
+  }
 
+  private ingredientTable(ingredients: IngredientAnalysis[], translations: Translations): ReportSection['blocks'][number] {
     return {
-      ...baseContent,
-      sections: [
-        {
-          title: translations.certificationHeader,
-          content: {
-            productName: analysis.productName,
-            certificationStatus: analysis.overallStatus,
-            certificationDate: new Date(),
-            validUntil: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year
-            certificationStandard: 'HFCE EU Standard',
-            certificateNumber: `HCHECK-${Date.now()}`
-          }
-        },
-        {
-          title: translations.complianceVerification,
-          content: {
-            totalIngredients: analysis.summary.total_ingredients,
-            halalIngredients: analysis.summary.halal_count,
-            haramIngredients: analysis.summary.haram_count,
-            mashboohIngredients: analysis.summary.mashbooh_count,
-            unknownIngredients: analysis.summary.unknown_count,
-            expertReviewCompleted: analysis.expertReviewRequired
-          }
-        },
-        {
-          title: translations.ingredientBreakdown,
-          content: analysis.ingredients
-        },
-        {
-          title: translations.certification_disclaimers,
-          content: disclaimers.certification
-        }
-      ]
+      kind: 'table',
+      columns: [translations.ingredient, translations.status, translations.riskLevel, translations.confidence, translations.expertReview],
+      rows: ingredients.map(ingredient => [
+        ingredient.detectedName,
+        ingredient.status,
+        ingredient.riskLevel,
+        formatConfidence(ingredient.confidence),
+        ingredient.requiresExpertReview ? translations.yes : translations.no
+      ]),
+      statusColumn: 1
+    };
+  }
+
+  private ingredientDetail(ingredient: IngredientAnalysis, translations: Translations): ReportIngredient {
+    const fields: ReportField[] = [
+      { label: translations.ingredient, value: ingredient.detectedName },
+      ...(ingredient.standardName ? [{ label: translations.standardName, value: ingredient.standardName }] : []),
+      ...(ingredient.path && ingredient.path.length > 1 ? [{ label: translations.containedIn, value: ingredient.path.slice(0, -1).join(' > ') }] : []),
+      { label: translations.status, value: ingredient.status, status: ingredient.status },
+      { label: translations.riskLevel, value: ingredient.riskLevel },
+      { label: translations.confidence, value: formatConfidence(ingredient.confidence) },
+      { label: translations.expertReview, value: ingredient.requiresExpertReview ? translations.yes : translations.no },
+      ...(ingredient.eNumbers?.length ? [{ label: translations.eNumbers, value: ingredient.eNumbers.join(', ') }] : []),
+      { label: translations.reasoning, value: ingredient.reasoning || '-' },
+      { label: translations.warnings, value: (ingredient.warnings || []).join('\n') || '-' },
+      { label: translations.suggestions, value: (ingredient.suggestions || []).join('\n') || '-' },
+      ...(ingredient.consensus ? [{
+        label: translations.scholarlyConsensus,
+        value: [
+          ingredient.consensus.consensusLevel,
+          ...ingredient.consensus.madhabRulings.map(ruling => `${ruling.madhab}: ${ruling.ruling}`),
+          ingredient.consensus.recommendedApproach
+        ].join('\n')
+      }] : [])
+    ];
+
+    return {
+      name: ingredient.detectedName,
+      status: ingredient.status,
+      riskLevel: ingredient.riskLevel,
+      fields
+    };
+  }
+
+  private names(ingredients: IngredientAnalysis[]): string {
+    return ingredients.map(ingredient => ingredient.detectedName).join(', ') || '-';
+  }
+
+  /**
+   * Organization defaults, overridden by the request's custom branding
+   */
+  private async resolveBranding(organization: Organization, custom?: ReportBranding): Promise<ResolvedReportBranding> {
+    const logo = custom?.logoUrl ? await this.loadLogo(custom.logoUrl) : undefined;
+    return {
+      companyName: custom?.companyName?.trim() || organization.name,
+      primaryColor: custom?.colors?.primary || DEFAULT_PRIMARY_COLOR,
+      secondaryColor: custom?.colors?.secondary || DEFAULT_SECONDARY_COLOR,
+      ...(logo && { logo })
     };
   }
 
   /**
-   * Get legal disclaimers by language
+   * PNG or JPEG logo from a data URL or a public HTTPS URL
+   */
+  private async loadLogo(logoUrl: string): Promise<NonNullable<ResolvedReportBranding['logo']>> {
+    let data: Buffer;
+    if (logoUrl.startsWith('data:')) {
+      data = Buffer.from(logoUrl.slice(logoUrl.indexOf(',') + 1), 'base64');
+    } else {
+      const url = new URL(logoUrl);
+      const addresses = await dns.promises.lookup(url.hostname, { all: true }).catch(() => []);
+      if (url.protocol !== 'https:' || addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+        throw reportError(400, 'INVALID_BRANDING', 'customBranding.logoUrl must point to a public host');
+      }
+
+      const response = await fetch(url, { redirect: 'error', signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS) })
+        .catch(() => null);
+      if (!response || !response.ok) {
+        throw reportError(400, 'INVALID_BRANDING', 'customBranding.logoUrl could not be downloaded');
+      }
+      const downloaded = await readBodyUpTo(response, MAX_LOGO_BYTES).catch(() => {
+        throw reportError(400, 'INVALID_BRANDING', 'customBranding.logoUrl could not be downloaded');
+      });
+      if (!downloaded) {
+        throw reportError(400, 'INVALID_BRANDING', 'Logo must be at most 1 MB');
+      }
+      data = downloaded;
+    }
+
+    if (data.length > MAX_LOGO_BYTES) {
+      throw reportError(400, 'INVALID_BRANDING', 'Logo must be at most 1 MB');
+    }
+    if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+      return { data, extension: 'png' };
+    }
+    if (data[0] === 0xff && data[1] === 0xd8) {
+      return { data, extension: 'jpeg' };
+    }
+    throw reportError(400, 'INVALID_BRANDING', 'Logo must be a PNG or JPEG image');
+  }
+
+  /**
+   * Get legal disclaimers by language; categories without a translation fall back to English
    */
-  private getDisclaimers(language: string): any {
-    const disclaimers = {
+  private getDisclaimers(language: string): { general: string[]; certification: string[]; liability: string[] } {
+    const disclaimers: Record<string, { general: string[]; certification?: string[]; liability?: string[] }> = {
       en: {
         general: [
           "This analysis is provided as a preliminary assessment tool only.",
@@ -408,29 +932,83 @@ export class ReportingService {
       }
     };
 
-    return disclaimers[language] || disclaimers.en;
+    const english = disclaimers.en!;
+    const localized = disclaimers[language] || english;
+    return {
+      general: localized.general,
+      certification: localized.certification || english.certification!,
+      liability: localized.liability || english.liability!
+    };
   }
 
   /**
-   * Get translations by language
+   * Get translations by language; missing labels fall back to English
    */
-  private getTranslations(language: string): any {
-    const translations = {
-      en: {
-        executiveSummary: 'Executive Summary',
-        productOverview: 'Product Overview',
-        ingredientAnalysis: 'Ingredient Analysis',
-        criticalFindings: 'Critical Findings',
-        recommendations: 'Recommendations',
-        legalDisclaimers: 'Legal Disclaimers',
-        certificationHeader: 'Halal Certification Report',
-        complianceVerification: 'Compliance Verification',
-        ingredientBreakdown: 'Detailed Ingredient Breakdown',
-        certification_disclaimers: 'Certification Disclaimers',
-        haramIngredientsFound: 'haram ingredients identified',
-        mashboohIngredientsFound: 'doubtful (mashbooh) ingredients found',
-        ingredientsRequireReview: 'ingredients require expert review'
-      },
+  private getTranslations(language: string) {
+    const en = {
+      executiveSummary: 'Executive Summary',
+      productOverview: 'Product Overview',
+      ingredientAnalysis: 'Ingredient Analysis',
+      criticalFindings: 'Critical Findings',
+      recommendations: 'Recommendations',
+      legalDisclaimers: 'Legal Disclaimers',
+      certificationHeader: 'Halal Certification Report',
+      complianceVerification: 'Compliance Verification',
+      ingredientBreakdown: 'Detailed Ingredient Breakdown',
+      certification_disclaimers: 'Certification Disclaimers',
+      complianceOverview: 'Compliance Overview',
+      statusDistribution: 'Status Distribution',
+      riskDistribution: 'Risk Distribution',
+      standardVerdicts: 'Certification Standards',
+      reviewQueue: 'Expert Review Queue',
+      haramIngredientsFound: 'haram ingredients identified',
+      mashboohIngredientsFound: 'doubtful (mashbooh) ingredients found',
+      ingredientsRequireReview: 'ingredients require expert review',
+      noCriticalFindings: 'No haram, doubtful or review-pending ingredients were identified',
+      noReviewRequired: 'No ingredients require expert review',
+      summary: 'Summary',
+      productName: 'Product',
+      overallStatus: 'Overall status',
+      certificationStatus: 'Assessment status',
+      riskLevel: 'Risk level',
+      certificationStandard: 'Certification standard',
+      analyzedAt: 'Analyzed on',
+      assessmentDate: 'Assessment date',
+      referenceNumber: 'Reference number',
+      processingTime: 'Processing time',
+      totalIngredients: 'Total ingredients',
+      halalIngredients: 'Halal ingredients',
+      haramIngredients: 'Haram ingredients',
+      mashboohIngredients: 'Mashbooh ingredients',
+      uncertainIngredients: 'Uncertain ingredients',
+      requiresReview: 'Requires expert review',
+      expertReviewRequired: 'Expert review required',
+      ingredient: 'Ingredient',
+      ingredients: 'Ingredients',
+      standardName: 'Standard name',
+      containedIn: 'Contained in',
+      status: 'Status',
+      confidence: 'Confidence',
+      expertReview: 'Expert review',
+      eNumbers: 'E-numbers',
+      reasoning: 'Reasoning',
+      warnings: 'Warnings',
+      suggestions: 'Suggestions',
+      scholarlyConsensus: 'Scholarly consensus',
+      share: 'Share',
+      passes: 'Passes',
+      yes: 'Yes',
+      no: 'No',
+      generatedAt: 'Generated',
+      generatedBy: 'Generated by',
+      organization: 'Organization',
+      reportId: 'Report ID',
+      page: 'Page',
+      of: 'of'
+    };
+
+    const translations: Record<string, Partial<typeof en>> = {
+      en,
       nl: {
         executiveSummary: 'Managementsamenvatting',
         productOverview: 'Productoverzicht',
@@ -440,18 +1018,37 @@ export class ReportingService {
         legalDisclaimers: 'Juridische Disclaimers',
         haramIngredientsFound: 'haram ingrediënten geïdentificeerd',
         mashboohIngredientsFound: 'twijfelachtige (mashbooh) ingrediënten gevonden',
-        ingredientsRequireReview: 'ingrediënten vereisen expertbeoordeling'
+        ingredientsRequireReview: 'ingrediënten vereisen expertbeoordeling',
+        summary: 'Samenvatting',
+        productName: 'Product',
+        overallStatus: 'Algemene status',
+        riskLevel: 'Risiconiveau',
+        ingredient: 'Ingrediënt',
+        ingredients: 'Ingrediënten',
+        status: 'Status',
+        confidence: 'Betrouwbaarheid',
+        reasoning: 'Onderbouwing',
+        warnings: 'Waarschuwingen',
+        suggestions: 'Suggesties',
+        yes: 'Ja',
+        no: 'Nee',
+        generatedAt: 'Gegenereerd',
+        generatedBy: 'Gegenereerd door',
+        organization: 'Organisatie',
+        reportId: 'Rapport-ID',
+        page: 'Pagina',
+        of: 'van'
       }
     };
 
-    return translations[language] || translations.en;
+    return { ...en, ...translations[language] };
   }
 
   /**
    * Get report title by type and language
    */
   private getReportTitle(type: ReportType, language: string): string {
-    const titles = {
+    const titles: Record<string, Record<ReportType, string>> = {
       en: {
         [ReportType.EXECUTIVE_SUMMARY]: 'Halal Compliance - Executive Summary',
         [ReportType.DETAILED_ANALYSIS]: 'Detailed Halal Ingredient Analysis',
@@ -466,58 +1063,35 @@ export class ReportingService {
       }
     };
 
-    return titles[language]?.[type] || titles.en[type];
-  }
-
-  /**
-   * Generate report file based on format
-   */
-  private async generateReportFile(content: any, format: ReportFormat): Promise<Buffer> {
-    switch (format) {
-      case ReportFormat.PDF:
-        return this.generatePDF(content);
-      case ReportFormat.EXCEL:
-        return this.generateExcel(content);
-      case ReportFormat.JSON:
-        return Buffer.from(JSON.stringify(content, null, 2));
-      default:
-        throw new Error(`Unsupported format: ${format}`);
-    }
+    return (titles[language] || titles.en!)[type];
   }
 
   /**
-   * Generate PDF using a library like puppeteer or jsPDF
+   * Link lifetime in whole hours, at most a week
    */
-  private async generatePDF(content: any): Promise<Buffer> {
-    // This would integrate with a PDF generation library
-    // For now, return placeholder
-    return Buffer.from('PDF content placeholder');
+  isValidLinkTtl(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_LINK_TTL_HOURS;
   }
 
-  /**
-   * Generate Excel file
-   */
-  private async generateExcel(content: any): Promise<Buffer> {
-    // This would integrate with a library like exceljs
-    // For now, return placeholder
-    return Buffer.from('Excel content placeholder');
-  }
+  private signDownloadLink(report: StoredReport, ttlHours?: number): ReportDownloadLink {
+    const hours = this.isValidLinkTtl(ttlHours) ? ttlHours : DEFAULT_LINK_TTL_HOURS;
+    // A link never outlives the stored file
+    const expiresAt = new Date(Math.min(Date.now() + hours * HOUR_MS, new Date(report.expiresAt).getTime()));
+    const expires = Math.floor(expiresAt.getTime() / 1000);
+    const signature = signReportDownload(report.id, report.organizationId, expires);
+    const baseUrl = (process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || '3000'}`).replace(/\/+$/, '');
 
-  /**
-   * Store report in database
-   */
-  private async storeReport(reportData: any): Promise<string> {
-    // Store report metadata and file reference in database
-    const reportId = crypto.randomUUID();
-    await this.db.storeReport(reportId, reportData);
-    return reportId;
+    return {
+      url: `${baseUrl}/api/reports/${report.id}/download?expires=${expires}&signature=${signature}`,
+      expiresAt: new Date(expires * 1000)
+    };
   }
 
-  /**
-   * Generate secure download URL
-   */
-  private async generateSecureDownloadUrl(reportId: string): Promise<string> {
-    // Generate signed URL for secure download (integrate with S3 or similar)
-    return `https://api.halalcheck.eu/reports/${reportId}/download?token=${crypto.randomUUID()}`;
+  private async getStoredReport(reportId: string): Promise<StoredReport | null> {
+    if (!UUID_PATTERN.test(reportId)) {
+      return null;
+    }
+    const result = await this.db.query('SELECT * FROM reports WHERE id = $1', [reportId]);
+    return result.rows[0] ? mapStoredReport(result.rows[0]) : null;
   }
-}
\ No newline at end of file
+}
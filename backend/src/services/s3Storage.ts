@@ -0,0 +1,137 @@
+/**
+ * HalalCheck EU - S3 Object Storage
+ *
+ * Stores objects in an S3 bucket using Signature Version 4 over plain HTTPS,
+ * so any S3-compatible store works without a vendor SDK. Configured with
+ * S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY; set
+ * S3_ENDPOINT and S3_FORCE_PATH_STYLE=true for stores such as MinIO.
+ */
+
+import crypto from 'crypto';
+import { ObjectStorage, StorageBackendName, isValidObjectKey } from './objectStorage';
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+function sha256Hex(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+export class S3Storage implements ObjectStorage {
+  readonly name: StorageBackendName = 's3';
+  private config: S3StorageConfig;
+
+  constructor(config?: S3StorageConfig) {
+    this.config = config || {
+      bucket: process.env.S3_BUCKET || '',
+      region: process.env.S3_REGION || 'eu-central-1',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      ...(process.env.S3_ENDPOINT && { endpoint: process.env.S3_ENDPOINT }),
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true'
+    };
+
+    if (!this.config.bucket || !this.config.accessKeyId || !this.config.secretAccessKey) {
+      throw new Error('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.send('PUT', key, data, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} failed with status ${response.status}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.send('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 GET ${key} failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE ${key} failed with status ${response.status}`);
+    }
+  }
+
+  private objectUrl(key: string): URL {
+    const endpoint = new URL(this.config.endpoint || `https://s3.${this.config.region}.amazonaws.com`);
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+
+    if (this.config.forcePathStyle) {
+      return new URL(`${endpoint.origin}/${this.config.bucket}/${encodedKey}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}/${encodedKey}`);
+  }
+
+  /**
+   * Request signed with AWS Signature Version 4
+   */
+  private async send(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    if (!isValidObjectKey(key)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+
+    const url = this.objectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body || '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(contentType && { 'content-type': contentType })
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...signedHeaders.map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region)
+    );
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    // fetch derives the Host header from the URL
+    const { host: _host, ...requestHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, ` +
+          `SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+      },
+      ...(body && { body }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+  }
+}
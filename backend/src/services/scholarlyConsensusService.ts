@@ -0,0 +1,209 @@
+/**
+ * HalalCheck EU - Scholarly Consensus Service
+ *
+ * Madhab-specific rulings and scholarly consensus on ingredient permissibility,
+ * so the analysis pipeline can follow the school an organization serves. The
+ * rulings live in data/scholarly/madhab-rulings.json, which the
+ * islamic-analysis agent reads as well.
+ */
+
+import { DatabaseService } from './databaseService';
+import { logger } from '@/utils/logger';
+import {
+  ConsensusAnalysis,
+  HalalStatus,
+  IngredientAnalysis,
+  Madhab,
+  MADHABS,
+  MadhabRuling,
+  RiskLevel
+} from '@/types/halal';
+import madhabRulingData from '@/data/scholarly/madhab-rulings.json';
+
+const MADHAB_RULINGS = madhabRulingData.rulings as Record<string, MadhabRuling[]>;
+
+// Checked in order; the first category whose keywords match wins
+const CATEGORY_KEYWORDS: Record<string, string[]> = madhabRulingData.categoryKeywords;
+
+export function isMadhab(value: unknown): value is Madhab {
+  return typeof value === 'string' && (MADHABS as string[]).includes(value);
+}
+
+/**
+ * Resolve the madhab configured in the organization settings (settings.madhab)
+ */
+export async function getMadhabForOrganization(
+  organizationId: string,
+  db: DatabaseService = DatabaseService.getInstance()
+): Promise<Madhab | undefined> {
+  try {
+    const result = await db.query(
+      `SELECT settings->>'madhab' AS madhab FROM organizations WHERE id = $1`,
+      [organizationId]
+    );
+
+    const configured = result.rows[0]?.madhab;
+    return isMadhab(configured) ? configured : undefined;
+  } catch (error) {
+    logger.warn('Failed to resolve organization madhab', {
+      organizationId,
+      error: (error as Error).message
+    });
+    return undefined;
+  }
+}
+
+export class ScholarlyConsensusService {
+  private madhabRulings: Map<string, MadhabRuling[]>;
+
+  constructor() {
+    this.madhabRulings = new Map(Object.entries(MADHAB_RULINGS));
+  }
+
+  /**
+   * Scholarly consensus across the four madhabs for an ingredient
+   */
+  async getConsensusAnalysis(ingredient: string): Promise<ConsensusAnalysis> {
+    const rulings = this.findRulings(ingredient);
+
+    if (!rulings || rulings.length === 0) {
+      return {
+        ingredient,
+        consensusLevel: 'unclear',
+        madhabRulings: [],
+        recommendedApproach: 'Consult qualified Islamic scholars for this specific ingredient.',
+        alternativeOpinions: ['Seek contemporary fatwa from recognized Islamic authorities']
+      };
+    }
+
+    const consensusLevel = this.determineConsensusLevel(rulings);
+
+    return {
+      ingredient,
+      consensusLevel,
+      madhabRulings: rulings,
+      recommendedApproach: this.generateRecommendedApproach(rulings, consensusLevel),
+      alternativeOpinions: rulings.map(ruling => `${ruling.madhab} school: ${ruling.ruling} - ${ruling.reasoning}`)
+    };
+  }
+
+  /**
+   * Ruling of a single school for an ingredient, if one is recorded
+   */
+  async getMadhabRuling(ingredient: string, madhab: Madhab): Promise<MadhabRuling | null> {
+    const rulings = this.findRulings(ingredient);
+    return rulings?.find(ruling => ruling.madhab === madhab) || null;
+  }
+
+  /**
+   * Attach the consensus to an ingredient analysis and, when a madhab is
+   * given, make the ingredient status follow that school's ruling
+   */
+  async applyMadhab(analysis: IngredientAnalysis, madhab?: Madhab): Promise<IngredientAnalysis> {
+    const consensus = await this.getConsensusAnalysis(analysis.standardName || analysis.detectedName);
+    const ruling = madhab ? consensus.madhabRulings.find(r => r.madhab === madhab) : undefined;
+
+    if (!ruling) {
+      return { ...analysis, consensus };
+    }
+
+    const status = HalalStatus[ruling.ruling];
+    const warnings = [...analysis.warnings];
+    if (status !== analysis.status) {
+      warnings.push(`${madhab} ruling applied: ${status} (general assessment: ${analysis.status})`);
+    }
+    const schoolsDiffer = consensus.consensusLevel !== 'unanimous';
+    if (schoolsDiffer) {
+      warnings.push('Schools differ on this ingredient');
+    }
+
+    logger.debug('Madhab ruling applied', {
+      ingredient: analysis.detectedName,
+      madhab,
+      previousStatus: analysis.status,
+      status
+    });
+
+    return {
+      ...analysis,
+      status,
+      riskLevel: this.riskLevelForRuling(status, analysis.riskLevel),
+      reasoning: `${analysis.reasoning} ${madhab} school: ${ruling.reasoning}`.trim(),
+      requiresExpertReview: analysis.requiresExpertReview || schoolsDiffer,
+      warnings,
+      consensus
+    };
+  }
+
+  private riskLevelForRuling(status: HalalStatus, current: RiskLevel): RiskLevel {
+    switch (status) {
+      case HalalStatus.HARAM:
+        return RiskLevel.VERY_HIGH;
+      case HalalStatus.MASHBOOH:
+        return [RiskLevel.VERY_LOW, RiskLevel.LOW].includes(current) ? RiskLevel.MEDIUM : current;
+      default:
+        return current;
+    }
+  }
+
+  private findRulings(ingredient: string): MadhabRuling[] | undefined {
+    const normalizedIngredient = ingredient.toLowerCase();
+    const direct = this.madhabRulings.get(normalizedIngredient);
+    if (direct) {
+      return direct;
+    }
+
+    const category = Object.entries(CATEGORY_KEYWORDS).find(([, keywords]) =>
+      keywords.some(keyword => normalizedIngredient.includes(keyword))
+    );
+    return category ? this.madhabRulings.get(category[0]) : undefined;
+  }
+
+  private determineConsensusLevel(rulings: MadhabRuling[]): ConsensusAnalysis['consensusLevel'] {
+    if (rulings.length < 2) return 'unclear';
+
+    const counts = this.countRulings(rulings);
+    const values = Object.values(counts);
+
+    // Unanimous if all rulings are the same
+    if (values.some(count => count === rulings.length)) {
+      return 'unanimous';
+    }
+
+    // Majority if more than half agree
+    const majorityThreshold = Math.ceil(rulings.length / 2);
+    if (values.some(count => count >= majorityThreshold)) {
+      return 'majority';
+    }
+
+    return 'divided';
+  }
+
+  private generateRecommendedApproach(
+    rulings: MadhabRuling[],
+    consensusLevel: ConsensusAnalysis['consensusLevel']
+  ): string {
+    switch (consensusLevel) {
+      case 'unanimous':
+        return `All major schools agree this is ${rulings[0]?.ruling}. Follow the unanimous scholarly opinion.`;
+      case 'majority':
+        return `Majority of scholars consider this ${this.getMajorityRuling(rulings)}. Follow the majority opinion while respecting minority views.`;
+      case 'divided':
+        return 'Scholarly opinion is divided. Follow the most cautious approach or consult your local imam.';
+      default:
+        return 'Insufficient scholarly consensus available. Seek guidance from qualified contemporary scholars.';
+    }
+  }
+
+  private getMajorityRuling(rulings: MadhabRuling[]): string {
+    return Object.entries(this.countRulings(rulings))
+      .sort(([, a], [, b]) => b - a)[0]?.[0] || 'UNCERTAIN';
+  }
+
+  private countRulings(rulings: MadhabRuling[]): Record<string, number> {
+    return rulings.reduce((acc, ruling) => {
+      acc[ruling.ruling] = (acc[ruling.ruling] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+  }
+}
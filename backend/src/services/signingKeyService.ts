@@ -0,0 +1,236 @@
+/**
+ * HalalCheck EU - Signing Key Service
+ *
+ * Per-organization Ed25519 key pairs for signing issued certificates and
+ * reports. A key is created the first time an organization signs something;
+ * rotation retires it and starts a new one. Private keys are stored
+ * encrypted, and every key that has signed a document stays in the
+ * organization's public key set (JWKS) so earlier documents keep verifying.
+ */
+
+import crypto from 'crypto';
+import { DatabaseService } from './databaseService';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/middleware/errorHandler';
+import { decryptSecret, deriveSecretKey, encryptSecret } from '@/utils/secretCipher';
+import {
+  DocumentSignature,
+  SIGNATURE_ALGORITHM,
+  SigningJsonWebKey,
+  SigningJsonWebKeySet,
+  SigningKey
+} from '@/types/signing';
+
+const DOCUMENT_HASH_PATTERN = /^[a-f0-9]{64}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function signingError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+/**
+ * SHA-256 of a document, hex encoded; this is what gets signed
+ */
+export function hashDocument(document: Buffer): string {
+  return crypto.createHash('sha256').update(document).digest('hex');
+}
+
+export function isValidDocumentHash(value: unknown): value is string {
+  return typeof value === 'string' && DOCUMENT_HASH_PATTERN.test(value);
+}
+
+export class SigningKeyService {
+  private db: DatabaseService;
+  private key: Buffer;
+
+  constructor(db?: DatabaseService) {
+    this.db = db || new DatabaseService();
+    const passphrase = process.env.SIGNING_KEY_ENCRYPTION_KEY || process.env.JWT_SECRET;
+    if (!passphrase) {
+      // Private keys encrypted with a key derived from nothing would be readable by anyone with the database
+      throw new Error('SIGNING_KEY_ENCRYPTION_KEY or JWT_SECRET must be set to encrypt signing keys');
+    }
+    this.key = deriveSecretKey(passphrase);
+  }
+
+  /**
+   * Sign a document digest with the organization's active key
+   */
+  async signHash(organizationId: string, hash: string): Promise<DocumentSignature> {
+    if (!isValidDocumentHash(hash)) {
+      throw signingError(400, 'VALIDATION_ERROR', 'Document hash must be a lowercase hex SHA-256 digest');
+    }
+
+    const row = await this.getActiveKeyRow(organizationId);
+    const privateKey = crypto.createPrivateKey(decryptSecret(row.private_key, this.key));
+
+    return {
+      algorithm: SIGNATURE_ALGORITHM,
+      keyId: row.id,
+      hash,
+      signature: crypto.sign(null, Buffer.from(hash, 'hex'), privateKey).toString('base64url'),
+      signedAt: new Date()
+    };
+  }
+
+  async signDocument(organizationId: string, document: Buffer): Promise<DocumentSignature> {
+    return this.signHash(organizationId, hashDocument(document));
+  }
+
+  /**
+   * Check a signature against the organization's published key it names
+   */
+  async verifySignature(organizationId: string, signature: Pick<DocumentSignature, 'keyId' | 'hash' | 'signature'>): Promise<boolean> {
+    if (!isValidDocumentHash(signature.hash)) {
+      return false;
+    }
+
+    const result = await this.db.query(
+      'SELECT * FROM signing_keys WHERE id = $1 AND organization_id = $2',
+      [signature.keyId, organizationId]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return false;
+    }
+
+    try {
+      return crypto.verify(
+        null,
+        Buffer.from(signature.hash, 'hex'),
+        crypto.createPublicKey(row.public_key),
+        Buffer.from(signature.signature, 'base64url')
+      );
+    } catch (error) {
+      logger.warn('Signature could not be checked', { keyId: signature.keyId, error: (error as Error).message });
+      return false;
+    }
+  }
+
+  /**
+   * Retire the active key and start signing with a new one
+   */
+  async rotateKey(organizationId: string): Promise<SigningKey> {
+    const { publicKey, privateKey } = this.generateKeyPair();
+
+    const row = await this.db.transaction(async (client) => {
+      await this.db.queryWithClient(
+        client,
+        `UPDATE signing_keys SET status = 'RETIRED', retired_at = NOW()
+         WHERE organization_id = $1 AND status = 'ACTIVE'`,
+        [organizationId]
+      );
+      const result = await this.db.queryWithClient(
+        client,
+        `INSERT INTO signing_keys (id, organization_id, algorithm, public_key, private_key)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [this.generateKeyId(), organizationId, SIGNATURE_ALGORITHM, publicKey, encryptSecret(privateKey, this.key)]
+      );
+      return result.rows[0];
+    });
+
+    logger.info('Signing key rotated', { organizationId, keyId: row.id });
+    return this.mapKeyRow(row);
+  }
+
+  async listKeys(organizationId: string): Promise<SigningKey[]> {
+    const result = await this.db.query(
+      'SELECT * FROM signing_keys WHERE organization_id = $1 ORDER BY created_at DESC',
+      [organizationId]
+    );
+    return result.rows.map(row => this.mapKeyRow(row));
+  }
+
+  /**
+   * Public key set of an organization, active key first
+   */
+  async getJwks(organizationId: string): Promise<SigningJsonWebKeySet> {
+    if (!UUID_PATTERN.test(organizationId)) {
+      throw signingError(404, 'SIGNING_KEYS_NOT_FOUND', 'No signing keys are published for this organization');
+    }
+
+    const keys = await this.listKeys(organizationId);
+    return {
+      keys: keys
+        .sort((a, b) => Number(b.status === 'ACTIVE') - Number(a.status === 'ACTIVE'))
+        .map(key => this.toJwk(key))
+    };
+  }
+
+  /**
+   * Where the organization's key set is published
+   */
+  jwksUrl(organizationId: string): string {
+    const baseUrl = (process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || '3000'}`).replace(/\/+$/, '');
+    return `${baseUrl}/api/signing-keys/${organizationId}/jwks.json`;
+  }
+
+  /**
+   * The organization's active key row, created on first use
+   */
+  private async getActiveKeyRow(organizationId: string): Promise<any> {
+    const existing = await this.db.query(
+      `SELECT * FROM signing_keys WHERE organization_id = $1 AND status = 'ACTIVE'`,
+      [organizationId]
+    );
+    if (existing.rows[0]) {
+      return existing.rows[0];
+    }
+
+    const { publicKey, privateKey } = this.generateKeyPair();
+    // Concurrent first signings race on the one-active-key index; the loser reads the winner's key
+    const created = await this.db.query(
+      `INSERT INTO signing_keys (id, organization_id, algorithm, public_key, private_key)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (organization_id) WHERE status = 'ACTIVE' DO NOTHING
+       RETURNING *`,
+      [this.generateKeyId(), organizationId, SIGNATURE_ALGORITHM, publicKey, encryptSecret(privateKey, this.key)]
+    );
+    if (created.rows[0]) {
+      logger.info('Signing key created', { organizationId, keyId: created.rows[0].id });
+      return created.rows[0];
+    }
+
+    const winner = await this.db.query(
+      `SELECT * FROM signing_keys WHERE organization_id = $1 AND status = 'ACTIVE'`,
+      [organizationId]
+    );
+    return winner.rows[0];
+  }
+
+  private generateKeyPair(): { publicKey: string; privateKey: string } {
+    return crypto.generateKeyPairSync('ed25519', {
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    });
+  }
+
+  private generateKeyId(): string {
+    return `key_${crypto.randomBytes(12).toString('hex')}`;
+  }
+
+  private toJwk(key: SigningKey): SigningJsonWebKey {
+    const { x } = crypto.createPublicKey(key.publicKey).export({ format: 'jwk' });
+    return {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: x as string,
+      kid: key.id,
+      alg: SIGNATURE_ALGORITHM,
+      use: 'sig'
+    };
+  }
+
+  private mapKeyRow(row: any): SigningKey {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      algorithm: row.algorithm,
+      publicKey: row.public_key,
+      status: row.status,
+      createdAt: row.created_at,
+      ...(row.retired_at && { retiredAt: row.retired_at })
+    };
+  }
+}
@@ -0,0 +1,853 @@
+/**
+ * HalalCheck EU - Supplier Service
+ *
+ * The organization's supplier registry: who supplies each raw material and
+ * the supplier's halal certificates (issuer, number, validity, scope and the
+ * materials they cover). Materials link to the ingredient knowledge base, so
+ * an analyzed ingredient can be traced to the registered materials it may
+ * come from. When every active supplier of such a material holds a valid
+ * certificate covering it, the ingredient's doubtful status is resolved by
+ * that evidence instead of staying MASHBOOH.
+ */
+
+import { PoolClient } from 'pg';
+import { DatabaseService } from './databaseService';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/middleware/errorHandler';
+import { HalalStatus, IngredientAnalysis, RiskLevel, SupplierEvidence } from '@/types/halal';
+import {
+  CreateSupplierRequest,
+  SUPPLIER_CERTIFICATE_STATUSES,
+  Supplier,
+  SupplierCertificate,
+  SupplierCertificateRequest,
+  SupplierCertificateValidity,
+  SupplierIngredientOption,
+  SupplierMaterial,
+  SupplierMaterialLookup,
+  SupplierMaterialRequest,
+  UpdateSupplierRequest
+} from '@/types/suppliers';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_NAME_LENGTH = 255;
+const MAX_COUNTRY_LENGTH = 100;
+const MAX_CODE_LENGTH = 100;
+const MAX_NOTES_LENGTH = 10000;
+const MAX_SCOPE_LENGTH = 5000;
+const MAX_CERTIFICATE_MATERIALS = 500;
+const MAX_SEARCH_LENGTH = 100;
+const MAX_SEARCH_RESULTS = 20;
+
+// Statuses a supplier certificate can resolve; a certificate never overrides HARAM
+const CERTIFIABLE_STATUSES: HalalStatus[] = [HalalStatus.MASHBOOH, HalalStatus.UNCERTAIN, HalalStatus.REQUIRES_REVIEW];
+
+const SUPPLIER_FIELDS: Record<string, string> = {
+  name: 'name',
+  country: 'country',
+  contactName: 'contact_name',
+  contactEmail: 'contact_email',
+  notes: 'notes',
+  active: 'active'
+};
+
+function supplierError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+function isText(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.length <= maxLength;
+}
+
+function isName(value: unknown, maxLength = MAX_NAME_LENGTH): value is string {
+  return isText(value, maxLength) && value.trim().length > 0;
+}
+
+function isVersion(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+/**
+ * The YYYY-MM-DD part of a date string, or null
+ */
+function toDateOnly(value: unknown): string | null {
+  if (value instanceof Date) {
+    // pg parses DATE columns as local midnight
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+  const match = typeof value === 'string' ? DATE_PATTERN.exec(value) : null;
+  return match && !Number.isNaN(Date.parse(match[1]!)) ? match[1]! : null;
+}
+
+function today(): string {
+  return toDateOnly(new Date())!;
+}
+
+/**
+ * Certificates whose issuer the export market's authority does not accept
+ */
+function unrecognizedIssuerWarnings(entries: SupplierEvidence[]): string[] {
+  return entries.flatMap(entry => entry.issuerRecognition && !entry.issuerRecognition.recognized
+    ? [`${entry.issuer}, issuer of ${entry.supplierName}'s certificate ${entry.certificateNumber}, is not recognized by ${entry.issuerRecognition.authority} for export to ${entry.issuerRecognition.market}`]
+    : []);
+}
+
+export class SupplierService {
+  private db: DatabaseService;
+
+  constructor(db?: DatabaseService) {
+    this.db = db || new DatabaseService();
+  }
+
+  async listSuppliers(organizationId: string): Promise<Supplier[]> {
+    const result = await this.db.query(
+      'SELECT * FROM suppliers WHERE organization_id = $1 ORDER BY LOWER(name) ASC',
+      [organizationId]
+    );
+    return this.withDetails(organizationId, result.rows);
+  }
+
+  async getSupplier(organizationId: string, supplierId: string): Promise<Supplier> {
+    if (!UUID_PATTERN.test(supplierId)) {
+      throw supplierError(404, 'SUPPLIER_NOT_FOUND', 'Supplier not found');
+    }
+    const result = await this.db.query(
+      'SELECT * FROM suppliers WHERE id = $1 AND organization_id = $2',
+      [supplierId, organizationId]
+    );
+    if (!result.rows[0]) {
+      throw supplierError(404, 'SUPPLIER_NOT_FOUND', 'Supplier not found');
+    }
+    const [supplier] = await this.withDetails(organizationId, result.rows);
+    return supplier!;
+  }
+
+  async createSupplier(organizationId: string, userId: string, request: CreateSupplierRequest): Promise<Supplier> {
+    const errors = this.validateSupplierFields(request);
+    if (!isName(request.name)) {
+      errors.push(`name is required and must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (errors.length > 0) {
+      throw supplierError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const result = await this.db.query(
+      `INSERT INTO suppliers (
+         organization_id, name, country, contact_name, contact_email, notes, active, created_by, updated_by
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)
+       RETURNING *`,
+      [
+        organizationId,
+        request.name.trim(),
+        request.country || '',
+        request.contactName || '',
+        request.contactEmail || '',
+        request.notes || '',
+        request.active ?? true,
+        userId
+      ]
+    );
+
+    const supplier = this.mapSupplierRow(result.rows[0], [], []);
+    logger.info('Supplier created', { supplierId: supplier.id, organizationId });
+    return supplier;
+  }
+
+  /**
+   * Apply changes made to the given version of a supplier
+   */
+  async updateSupplier(
+    organizationId: string,
+    userId: string,
+    supplierId: string,
+    request: UpdateSupplierRequest
+  ): Promise<Supplier> {
+    const errors = this.validateSupplierFields(request);
+    if (request.name !== undefined && !isName(request.name)) {
+      errors.push(`name must not be empty and at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (!isVersion(request.version)) {
+      errors.push('version is required');
+    }
+    if (errors.length > 0) {
+      throw supplierError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    await this.db.transaction(async client => {
+      const current = await this.lockSupplier(client, organizationId, supplierId);
+      if (current.version !== request.version) {
+        throw supplierError(409, 'VERSION_CONFLICT', 'Supplier was changed by someone else; reload it and try again');
+      }
+
+      const sets: string[] = [];
+      const params: unknown[] = [supplierId, organizationId, userId];
+      for (const [field, column] of Object.entries(SUPPLIER_FIELDS)) {
+        const value = request[field as keyof CreateSupplierRequest];
+        if (value === undefined) {
+          continue;
+        }
+        params.push(field === 'name' ? (value as string).trim() : value);
+        sets.push(`${column} = $${params.length}`);
+      }
+
+      await this.db.queryWithClient(client,
+        `UPDATE suppliers
+         SET ${[...sets, 'version = version + 1', 'updated_by = $3'].join(', ')}
+         WHERE id = $1 AND organization_id = $2`,
+        params
+      );
+    });
+
+    return this.getSupplier(organizationId, supplierId);
+  }
+
+  /**
+   * Delete a supplier with its materials and certificates. With a version,
+   * the delete is refused when the supplier changed since.
+   */
+  async deleteSupplier(organizationId: string, supplierId: string, version?: number): Promise<void> {
+    if (version !== undefined && !isVersion(version)) {
+      throw supplierError(400, 'VALIDATION_ERROR', 'version must be a positive whole number');
+    }
+
+    await this.db.transaction(async client => {
+      const current = await this.lockSupplier(client, organizationId, supplierId);
+      if (version !== undefined && current.version !== version) {
+        throw supplierError(409, 'VERSION_CONFLICT', 'Supplier was changed by someone else; reload it and try again');
+      }
+      await this.db.queryWithClient(client,
+        'DELETE FROM suppliers WHERE id = $1 AND organization_id = $2',
+        [supplierId, organizationId]
+      );
+    });
+    logger.info('Supplier deleted', { supplierId, organizationId });
+  }
+
+  async addMaterial(organizationId: string, supplierId: string, request: SupplierMaterialRequest): Promise<SupplierMaterial> {
+    const errors = this.validateMaterialFields(request);
+    if (!isName(request.name)) {
+      errors.push(`name is required and must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (errors.length > 0) {
+      throw supplierError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    await this.getSupplier(organizationId, supplierId);
+    await this.assertIngredientExists(request.ingredientId);
+
+    const result = await this.db.query(
+      `INSERT INTO supplier_materials (organization_id, supplier_id, name, product_code, ingredient_id)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [organizationId, supplierId, request.name.trim(), request.productCode || null, request.ingredientId || null]
+    );
+    return this.getMaterial(organizationId, supplierId, result.rows[0].id);
+  }
+
+  async updateMaterial(
+    organizationId: string,
+    supplierId: string,
+    materialId: string,
+    request: Partial<SupplierMaterialRequest>
+  ): Promise<SupplierMaterial> {
+    const errors = this.validateMaterialFields(request);
+    if (request.name !== undefined && !isName(request.name)) {
+      errors.push(`name must not be empty and at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (errors.length > 0) {
+      throw supplierError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    await this.getMaterial(organizationId, supplierId, materialId);
+    await this.assertIngredientExists(request.ingredientId);
+
+    const sets: string[] = [];
+    const params: unknown[] = [materialId, supplierId, organizationId];
+    const assign = (column: string, value: unknown) => {
+      params.push(value);
+      sets.push(`${column} = $${params.length}`);
+    };
+    if (request.name !== undefined) {
+      assign('name', request.name.trim());
+    }
+    if (request.productCode !== undefined) {
+      assign('product_code', request.productCode || null);
+    }
+    if (request.ingredientId !== undefined) {
+      assign('ingredient_id', request.ingredientId);
+    }
+    if (sets.length === 0) {
+      throw supplierError(400, 'VALIDATION_ERROR', 'Nothing to update');
+    }
+
+    await this.db.query(
+      `UPDATE supplier_materials SET ${sets.join(', ')}
+       WHERE id = $1 AND supplier_id = $2 AND organization_id = $3`,
+      params
+    );
+    return this.getMaterial(organizationId, supplierId, materialId);
+  }
+
+  /**
+   * Remove a material; certificates of the supplier no longer list it
+   */
+  async removeMaterial(organizationId: string, supplierId: string, materialId: string): Promise<void> {
+    await this.getMaterial(organizationId, supplierId, materialId);
+    await this.db.transaction(async client => {
+      await this.db.queryWithClient(client,
+        `UPDATE supplier_certificates SET material_ids = array_remove(material_ids, $1::uuid)
+         WHERE supplier_id = $2 AND organization_id = $3 AND $1::uuid = ANY(material_ids)`,
+        [materialId, supplierId, organizationId]
+      );
+      await this.db.queryWithClient(client,
+        'DELETE FROM supplier_materials WHERE id = $1 AND supplier_id = $2 AND organization_id = $3',
+        [materialId, supplierId, organizationId]
+      );
+    });
+  }
+
+  async addCertificate(
+    organizationId: string,
+    userId: string,
+    supplierId: string,
+    request: SupplierCertificateRequest
+  ): Promise<SupplierCertificate> {
+    const errors = this.validateCertificateFields(request);
+    if (!isName(request.issuer)) {
+      errors.push(`issuer is required and must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (!isName(request.certificateNumber, MAX_CODE_LENGTH)) {
+      errors.push(`certificateNumber is required and must be at most ${MAX_CODE_LENGTH} characters`);
+    }
+    if (!toDateOnly(request.validUntil)) {
+      errors.push('validUntil is required and must be a date');
+    }
+    if (errors.length > 0) {
+      throw supplierError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const supplier = await this.getSupplier(organizationId, supplierId);
+    this.assertSupplierMaterials(supplier, request.materialIds);
+    await this.assertDocumentExists(organizationId, request.documentId);
+    await this.assertCertificationBodyExists(request.certificationBodyId);
+
+    const result = await this.db.query(
+      `INSERT INTO supplier_certificates (
+         organization_id, supplier_id, issuer, certificate_number, valid_from, valid_until,
+         scope, material_ids, status, document_id, created_by, certification_body_id
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING *`,
+      [
+        organizationId,
+        supplierId,
+        request.issuer.trim(),
+        request.certificateNumber.trim(),
+        request.validFrom ? toDateOnly(request.validFrom) : null,
+        toDateOnly(request.validUntil),
+        request.scope || '',
+        [...new Set(request.materialIds || [])],
+        request.status || 'active',
+        request.documentId || null,
+        userId,
+        request.certificationBodyId || null
+      ]
+    );
+
+    const certificate = this.mapCertificateRow(result.rows[0]);
+    logger.info('Supplier certificate added', { certificateId: certificate.id, supplierId, organizationId });
+    return certificate;
+  }
+
+  async updateCertificate(
+    organizationId: string,
+    supplierId: string,
+    certificateId: string,
+    request: Partial<SupplierCertificateRequest>
+  ): Promise<SupplierCertificate> {
+    const errors = this.validateCertificateFields(request);
+    if (request.issuer !== undefined && !isName(request.issuer)) {
+      errors.push(`issuer must not be empty and at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (request.certificateNumber !== undefined && !isName(request.certificateNumber, MAX_CODE_LENGTH)) {
+      errors.push(`certificateNumber must not be empty and at most ${MAX_CODE_LENGTH} characters`);
+    }
+    if (request.validUntil !== undefined && !toDateOnly(request.validUntil)) {
+      errors.push('validUntil must be a date');
+    }
+    if (errors.length > 0) {
+      throw supplierError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const supplier = await this.getSupplier(organizationId, supplierId);
+    const current = supplier.certificates.find(certificate => certificate.id === certificateId);
+    if (!current) {
+      throw supplierError(404, 'CERTIFICATE_NOT_FOUND', 'Supplier certificate not found');
+    }
+    this.assertSupplierMaterials(supplier, request.materialIds);
+    await this.assertDocumentExists(organizationId, request.documentId);
+    await this.assertCertificationBodyExists(request.certificationBodyId);
+
+    const validFrom = request.validFrom === undefined ? current.validFrom : toDateOnly(request.validFrom);
+    const validUntil = request.validUntil === undefined ? current.validUntil : toDateOnly(request.validUntil)!;
+    if (validFrom && validFrom > validUntil) {
+      throw supplierError(400, 'VALIDATION_ERROR', 'validFrom must not be after validUntil');
+    }
+
+    const sets: string[] = [];
+    const params: unknown[] = [certificateId, supplierId, organizationId];
+    const assign = (column: string, value: unknown) => {
+      params.push(value);
+      sets.push(`${column} = $${params.length}`);
+    };
+    if (request.issuer !== undefined) {
+      assign('issuer', request.issuer.trim());
+    }
+    if (request.certificateNumber !== undefined) {
+      assign('certificate_number', request.certificateNumber.trim());
+    }
+    if (request.validFrom !== undefined) {
+      assign('valid_from', validFrom || null);
+    }
+    if (request.validUntil !== undefined) {
+      assign('valid_until', validUntil);
+    }
+    if (request.scope !== undefined) {
+      assign('scope', request.scope);
+    }
+    if (request.materialIds !== undefined) {
+      assign('material_ids', [...new Set(request.materialIds)]);
+    }
+    if (request.status !== undefined) {
+      assign('status', request.status);
+    }
+    if (request.documentId !== undefined) {
+      assign('document_id', request.documentId);
+    }
+    if (request.certificationBodyId !== undefined) {
+      assign('certification_body_id', request.certificationBodyId);
+    }
+    if (sets.length === 0) {
+      throw supplierError(400, 'VALIDATION_ERROR', 'Nothing to update');
+    }
+
+    const result = await this.db.query(
+      `UPDATE supplier_certificates SET ${sets.join(', ')}
+       WHERE id = $1 AND supplier_id = $2 AND organization_id = $3
+       RETURNING *`,
+      params
+    );
+    return this.mapCertificateRow(result.rows[0]);
+  }
+
+  async removeCertificate(organizationId: string, supplierId: string, certificateId: string): Promise<void> {
+    const result = UUID_PATTERN.test(certificateId) && UUID_PATTERN.test(supplierId)
+      ? await this.db.query(
+        'DELETE FROM supplier_certificates WHERE id = $1 AND supplier_id = $2 AND organization_id = $3 RETURNING id',
+        [certificateId, supplierId, organizationId]
+      )
+      : { rows: [] };
+    if (!result.rows[0]) {
+      throw supplierError(404, 'CERTIFICATE_NOT_FOUND', 'Supplier certificate not found');
+    }
+  }
+
+  /**
+   * Knowledge-base ingredients a material can be linked to, matched by name,
+   * E-number or alternative name
+   */
+  async searchIngredients(search: string): Promise<SupplierIngredientOption[]> {
+    const term = typeof search === 'string' ? search.trim() : '';
+    if (!term || term.length > MAX_SEARCH_LENGTH) {
+      throw supplierError(400, 'VALIDATION_ERROR', `search must be 1 to ${MAX_SEARCH_LENGTH} characters`);
+    }
+
+    const pattern = `%${term.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+    const result = await this.db.query(
+      `SELECT id, name, e_number, category, default_status
+       FROM ingredients
+       WHERE name ILIKE $1
+          OR e_number ILIKE $1
+          OR EXISTS (SELECT 1 FROM unnest(alternative_names) AS alternative WHERE alternative ILIKE $1)
+       ORDER BY (LOWER(name) = LOWER($2)) DESC, LENGTH(name) ASC
+       LIMIT $3`,
+      [pattern, term, MAX_SEARCH_RESULTS]
+    );
+    return result.rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      ...(row.e_number && { eNumber: row.e_number }),
+      category: row.category,
+      status: row.default_status
+    }));
+  }
+
+  /**
+   * Certificates backing each analyzed ingredient, by node ID. An ingredient
+   * resolves to the registered materials linked to its knowledge-base match
+   * or named like it. It only counts as certified when every active supplier
+   * of those materials holds a certificate valid on the given date that
+   * covers the material: the product may contain any of their deliveries.
+   */
+  async findEvidence(
+    organizationId: string,
+    lookups: SupplierMaterialLookup[],
+    asOf: string = today()
+  ): Promise<Map<string, SupplierEvidence[]>> {
+    const evidence = new Map<string, SupplierEvidence[]>();
+    if (lookups.length === 0) {
+      return evidence;
+    }
+
+    const ingredientIds = [...new Set(lookups.flatMap(lookup => lookup.ingredientId ? [lookup.ingredientId] : []))];
+    const names = [...new Set(lookups.flatMap(lookup => lookup.names.map(name => name.trim().toLowerCase())))];
+    const result = await this.db.query(
+      `SELECT m.id AS material_id, m.name AS material_name, m.ingredient_id,
+              s.id AS supplier_id, s.name AS supplier_name,
+              c.id AS certificate_id, c.certificate_number, c.issuer, c.certification_body_id, c.valid_until
+       FROM supplier_materials m
+       JOIN suppliers s ON s.id = m.supplier_id AND s.active
+       LEFT JOIN LATERAL (
+         SELECT id, certificate_number, issuer, certification_body_id, valid_until
+         FROM supplier_certificates
+         WHERE supplier_id = m.supplier_id
+           AND m.id = ANY(material_ids)
+           AND status = 'active'
+           AND (valid_from IS NULL OR valid_from <= $4::date)
+           AND valid_until >= $4::date
+         ORDER BY valid_until DESC
+         LIMIT 1
+       ) c ON TRUE
+       WHERE m.organization_id = $1
+         AND (m.ingredient_id = ANY($2::uuid[]) OR LOWER(m.name) = ANY($3::text[]))`,
+      [organizationId, ingredientIds, names, asOf]
+    );
+
+    for (const lookup of lookups) {
+      const lookupNames = lookup.names.map(name => name.trim().toLowerCase());
+      const materials = result.rows.filter(row =>
+        (lookup.ingredientId && row.ingredient_id === lookup.ingredientId) ||
+        lookupNames.includes(String(row.material_name).trim().toLowerCase())
+      );
+      if (materials.length === 0 || materials.some(row => !row.certificate_id)) {
+        continue;
+      }
+      evidence.set(lookup.nodeId, materials.map(row => ({
+        supplierId: row.supplier_id,
+        supplierName: row.supplier_name,
+        materialId: row.material_id,
+        materialName: row.material_name,
+        certificateId: row.certificate_id,
+        certificateNumber: row.certificate_number,
+        issuer: row.issuer,
+        ...(row.certification_body_id && { certificationBodyId: row.certification_body_id }),
+        validUntil: toDateOnly(row.valid_until)!
+      })));
+    }
+    return evidence;
+  }
+
+  /**
+   * Resolve doubtful ingredients backed by supplier certificates. A
+   * certificate registered for a compound covers its sub-ingredients too.
+   * HARAM verdicts are kept; the conflicting certificate is flagged instead.
+   * Certificates from issuers the export market does not recognize still
+   * count, with a warning.
+   */
+  applyEvidence(ingredients: IngredientAnalysis[], evidence: Map<string, SupplierEvidence[]>): IngredientAnalysis[] {
+    if (evidence.size === 0) {
+      return ingredients;
+    }
+
+    return ingredients.map(ingredient => {
+      const entries = this.evidenceFor(ingredient, evidence);
+      if (!entries) {
+        return ingredient;
+      }
+
+      if (ingredient.status === HalalStatus.HARAM) {
+        return {
+          ...ingredient,
+          warnings: [
+            ...ingredient.warnings,
+            ...entries.map(entry => `${entry.supplierName} holds halal certificate ${entry.certificateNumber} for ${entry.materialName}, but the ingredient is classified HARAM; check the certificate's scope`)
+          ]
+        };
+      }
+      if (!CERTIFIABLE_STATUSES.includes(ingredient.status)) {
+        return ingredient;
+      }
+
+      const certificates = entries
+        .map(entry => `${entry.supplierName} (${entry.issuer} certificate ${entry.certificateNumber}, valid until ${entry.validUntil})`)
+        .join('; ');
+      return {
+        ...ingredient,
+        status: HalalStatus.HALAL,
+        riskLevel: RiskLevel.LOW,
+        requiresExpertReview: false,
+        reasoning: `Certified by supplier: ${certificates}. Without the certificate: ${ingredient.status} - ${ingredient.reasoning}`,
+        warnings: [...ingredient.warnings, ...unrecognizedIssuerWarnings(entries)],
+        supplierEvidence: entries
+      };
+    });
+  }
+
+  /**
+   * The ingredient's own evidence, or that of the nearest compound containing it
+   */
+  private evidenceFor(ingredient: IngredientAnalysis, evidence: Map<string, SupplierEvidence[]>): SupplierEvidence[] | null {
+    if (!ingredient.nodeId) {
+      return null;
+    }
+    const own = evidence.get(ingredient.nodeId);
+    if (own) {
+      return own;
+    }
+
+    const positions = ingredient.nodeId.split('.');
+    for (let depth = positions.length - 1; depth > 0; depth--) {
+      const compound = evidence.get(positions.slice(0, depth).join('.'));
+      if (compound) {
+        const compoundName = ingredient.path?.[depth - 1];
+        return compound.map(entry => ({ ...entry, ...(compoundName && { coveredBy: compoundName }) }));
+      }
+    }
+    return null;
+  }
+
+  private async getMaterial(organizationId: string, supplierId: string, materialId: string): Promise<SupplierMaterial> {
+    if (!UUID_PATTERN.test(materialId) || !UUID_PATTERN.test(supplierId)) {
+      throw supplierError(404, 'MATERIAL_NOT_FOUND', 'Material not found');
+    }
+    const result = await this.db.query(
+      `SELECT m.*, i.name AS ingredient_name
+       FROM supplier_materials m
+       LEFT JOIN ingredients i ON i.id = m.ingredient_id
+       WHERE m.id = $1 AND m.supplier_id = $2 AND m.organization_id = $3`,
+      [materialId, supplierId, organizationId]
+    );
+    if (!result.rows[0]) {
+      throw supplierError(404, 'MATERIAL_NOT_FOUND', 'Material not found');
+    }
+    return this.mapMaterialRow(result.rows[0]);
+  }
+
+  /**
+   * Suppliers with their materials and certificates
+   */
+  private async withDetails(organizationId: string, rows: any[]): Promise<Supplier[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+    const supplierIds = rows.map(row => row.id);
+    const materials = await this.db.query(
+      `SELECT m.*, i.name AS ingredient_name
+       FROM supplier_materials m
+       LEFT JOIN ingredients i ON i.id = m.ingredient_id
+       WHERE m.organization_id = $1 AND m.supplier_id = ANY($2::uuid[])
+       ORDER BY LOWER(m.name) ASC`,
+      [organizationId, supplierIds]
+    );
+    const certificates = await this.db.query(
+      `SELECT * FROM supplier_certificates
+       WHERE organization_id = $1 AND supplier_id = ANY($2::uuid[])
+       ORDER BY valid_until DESC`,
+      [organizationId, supplierIds]
+    );
+
+    return rows.map(row => this.mapSupplierRow(
+      row,
+      materials.rows.filter(material => material.supplier_id === row.id).map(material => this.mapMaterialRow(material)),
+      certificates.rows.filter(certificate => certificate.supplier_id === row.id).map(certificate => this.mapCertificateRow(certificate))
+    ));
+  }
+
+  private async lockSupplier(client: PoolClient, organizationId: string, supplierId: string): Promise<{ version: number }> {
+    if (!UUID_PATTERN.test(supplierId)) {
+      throw supplierError(404, 'SUPPLIER_NOT_FOUND', 'Supplier not found');
+    }
+    const result = await this.db.queryWithClient(client,
+      'SELECT version FROM suppliers WHERE id = $1 AND organization_id = $2 FOR UPDATE',
+      [supplierId, organizationId]
+    );
+    if (!result.rows[0]) {
+      throw supplierError(404, 'SUPPLIER_NOT_FOUND', 'Supplier not found');
+    }
+    return result.rows[0];
+  }
+
+  private async assertIngredientExists(ingredientId: string | null | undefined): Promise<void> {
+    if (!ingredientId) {
+      return;
+    }
+    const result = await this.db.query('SELECT id FROM ingredients WHERE id = $1', [ingredientId]);
+    if (!result.rows[0]) {
+      throw supplierError(400, 'VALIDATION_ERROR', `Unknown knowledge-base ingredient: ${ingredientId}`);
+    }
+  }
+
+  private async assertDocumentExists(organizationId: string, documentId: string | null | undefined): Promise<void> {
+    if (!documentId) {
+      return;
+    }
+    const result = await this.db.query(
+      'SELECT id FROM pipeline_documents WHERE id = $1 AND organization_id = $2',
+      [documentId, organizationId]
+    );
+    if (!result.rows[0]) {
+      throw supplierError(400, 'VALIDATION_ERROR', `Unknown document: ${documentId}`);
+    }
+  }
+
+  private async assertCertificationBodyExists(certificationBodyId: string | null | undefined): Promise<void> {
+    if (!certificationBodyId) {
+      return;
+    }
+    const result = await this.db.query('SELECT id FROM certification_bodies WHERE id = $1', [certificationBodyId]);
+    if (!result.rows[0]) {
+      throw supplierError(400, 'VALIDATION_ERROR', `Unknown certification body: ${certificationBodyId}`);
+    }
+  }
+
+  private assertSupplierMaterials(supplier: Supplier, materialIds: string[] | undefined): void {
+    const unknown = (materialIds || []).filter(id => !supplier.materials.some(material => material.id === id));
+    if (unknown.length > 0) {
+      throw supplierError(400, 'VALIDATION_ERROR', `Materials not registered for ${supplier.name}: ${unknown.join(', ')}`);
+    }
+  }
+
+  private validateSupplierFields(request: Partial<CreateSupplierRequest>): string[] {
+    const errors: string[] = [];
+    if (request.country !== undefined && !isText(request.country, MAX_COUNTRY_LENGTH)) {
+      errors.push(`country must be at most ${MAX_COUNTRY_LENGTH} characters`);
+    }
+    if (request.contactName !== undefined && !isText(request.contactName, MAX_NAME_LENGTH)) {
+      errors.push(`contactName must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (request.contactEmail !== undefined && (
+      !isText(request.contactEmail, MAX_NAME_LENGTH) ||
+      (request.contactEmail !== '' && !EMAIL_PATTERN.test(request.contactEmail))
+    )) {
+      errors.push('contactEmail must be an email address');
+    }
+    if (request.notes !== undefined && !isText(request.notes, MAX_NOTES_LENGTH)) {
+      errors.push(`notes must be at most ${MAX_NOTES_LENGTH} characters`);
+    }
+    if (request.active !== undefined && typeof request.active !== 'boolean') {
+      errors.push('active must be true or false');
+    }
+    return errors;
+  }
+
+  private validateMaterialFields(request: Partial<SupplierMaterialRequest>): string[] {
+    const errors: string[] = [];
+    if (request.productCode !== undefined && !isText(request.productCode, MAX_CODE_LENGTH)) {
+      errors.push(`productCode must be at most ${MAX_CODE_LENGTH} characters`);
+    }
+    if (request.ingredientId !== undefined && request.ingredientId !== null && (
+      typeof request.ingredientId !== 'string' || !UUID_PATTERN.test(request.ingredientId)
+    )) {
+      errors.push('ingredientId must be a knowledge-base ingredient ID');
+    }
+    return errors;
+  }
+
+  private validateCertificateFields(request: Partial<SupplierCertificateRequest>): string[] {
+    const errors: string[] = [];
+    if (request.validFrom !== undefined && request.validFrom !== null && !toDateOnly(request.validFrom)) {
+      errors.push('validFrom must be a date');
+    }
+    if (request.validFrom && request.validUntil && toDateOnly(request.validFrom)! > (toDateOnly(request.validUntil) || '')) {
+      errors.push('validFrom must not be after validUntil');
+    }
+    if (request.scope !== undefined && !isText(request.scope, MAX_SCOPE_LENGTH)) {
+      errors.push(`scope must be at most ${MAX_SCOPE_LENGTH} characters`);
+    }
+    if (request.materialIds !== undefined && (
+      !Array.isArray(request.materialIds) ||
+      request.materialIds.length > MAX_CERTIFICATE_MATERIALS ||
+      !request.materialIds.every(id => typeof id === 'string' && UUID_PATTERN.test(id))
+    )) {
+      errors.push(`materialIds must be a list of at most ${MAX_CERTIFICATE_MATERIALS} material IDs`);
+    }
+    if (request.status !== undefined && !SUPPLIER_CERTIFICATE_STATUSES.includes(request.status)) {
+      errors.push(`status must be one of ${SUPPLIER_CERTIFICATE_STATUSES.join(', ')}`);
+    }
+    if (request.documentId !== undefined && request.documentId !== null && (
+      typeof request.documentId !== 'string' || !UUID_PATTERN.test(request.documentId)
+    )) {
+      errors.push('documentId must be a document ID');
+    }
+    if (request.certificationBodyId !== undefined && request.certificationBodyId !== null && (
+      typeof request.certificationBodyId !== 'string' || !UUID_PATTERN.test(request.certificationBodyId)
+    )) {
+      errors.push('certificationBodyId must be a certification body ID');
+    }
+    return errors;
+  }
+
+  private mapSupplierRow(row: any, materials: SupplierMaterial[], certificates: SupplierCertificate[]): Supplier {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      name: row.name,
+      country: row.country,
+      contactName: row.contact_name,
+      contactEmail: row.contact_email,
+      notes: row.notes,
+      active: row.active,
+      materials,
+      certificates,
+      version: row.version,
+      ...(row.created_by && { createdBy: row.created_by }),
+      ...(row.updated_by && { updatedBy: row.updated_by }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapMaterialRow(row: any): SupplierMaterial {
+    return {
+      id: row.id,
+      supplierId: row.supplier_id,
+      name: row.name,
+      ...(row.product_code && { productCode: row.product_code }),
+      ...(row.ingredient_id && { ingredientId: row.ingredient_id }),
+      ...(row.ingredient_name && { ingredientName: row.ingredient_name }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapCertificateRow(row: any): SupplierCertificate {
+    const validFrom = toDateOnly(row.valid_from);
+    const validUntil = toDateOnly(row.valid_until)!;
+    const date = today();
+    const validity: SupplierCertificateValidity = row.status !== 'active'
+      ? row.status
+      : validUntil < date ? 'expired'
+        : validFrom && validFrom > date ? 'not-yet-valid'
+          : 'valid';
+
+    return {
+      id: row.id,
+      supplierId: row.supplier_id,
+      issuer: row.issuer,
+      ...(row.certification_body_id && { certificationBodyId: row.certification_body_id }),
+      certificateNumber: row.certificate_number,
+      ...(validFrom && { validFrom }),
+      validUntil,
+      scope: row.scope,
+      materialIds: row.material_ids || [],
+      status: row.status,
+      validity,
+      ...(row.document_id && { documentId: row.document_id }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
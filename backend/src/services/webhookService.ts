@@ -0,0 +1,758 @@
+/**
+ * HalalCheck EU - Webhook Service
+ *
+ * Organization-registered HTTPS endpoints for platform events. Publishing an
+ * event queues one delivery per subscribed endpoint in Postgres; the
+ * in-process worker posts it with an HMAC-SHA256 signature, retries failures
+ * with exponential backoff and moves deliveries that keep failing to the
+ * dead-letter list, from where they can be replayed. Every attempt is logged.
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { EventEmitter } from 'events';
+import { DatabaseService } from './databaseService';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/middleware/errorHandler';
+import { decryptSecret, deriveSecretKey, encryptSecret } from '@/utils/secretCipher';
+import { ProductAnalysis } from '@/types/halal';
+import {
+  WEBHOOK_EVENT_TYPES,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventType
+} from '@/types/webhooks';
+
+export interface WebhookEndpointInput {
+  url?: string;
+  description?: string;
+  eventTypes?: string[];
+  isActive?: boolean;
+}
+
+export interface CreatedWebhookEndpoint {
+  endpoint: WebhookEndpoint;
+  secret: string; // Only returned when created or rotated
+}
+
+export interface WebhookRequest {
+  url: string;
+  body: string;
+  headers: Record<string, string>;
+}
+
+export interface WebhookResponse {
+  statusCode: number;
+  body: string;
+}
+
+export type WebhookSender = (request: WebhookRequest) => Promise<WebhookResponse>;
+
+export const MAX_DELIVERY_ATTEMPTS = 10;
+export const MAX_ENDPOINTS_PER_ORGANIZATION = 20;
+export const SIGNATURE_HEADER = 'X-HalalCheck-Signature';
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+const POLL_INTERVAL_MS = 5000;
+const DEFAULT_CONCURRENCY = 4;
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+// Shared by every service instance so publishing from a request wakes the worker
+const webhookEvents = new EventEmitter();
+webhookEvents.setMaxListeners(0);
+
+function webhookError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+// Development only: allows http:// and private hosts such as localhost
+function insecureUrlsAllowed(): boolean {
+  return process.env.WEBHOOK_ALLOW_INSECURE_URLS === 'true';
+}
+
+/**
+ * Delay before the next attempt of a delivery that failed `attempt` times
+ */
+export function webhookRetryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`.
+ * Receivers recompute the HMAC with their secret and reject stale timestamps.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Event data describing an analysis verdict, shared by every analysis event
+ */
+export function analysisEventData(analysis: ProductAnalysis): Record<string, unknown> {
+  return {
+    analysisId: analysis.id,
+    productName: analysis.productName,
+    overallStatus: analysis.overallStatus,
+    overallRiskLevel: analysis.overallRiskLevel,
+    certificationStandard: analysis.certificationStandard,
+    ...(analysis.madhab && { madhab: analysis.madhab }),
+    totalIngredients: analysis.summary.total_ingredients,
+    haramCount: analysis.summary.haram_count,
+    mashboohCount: analysis.summary.mashbooh_count,
+    expertReviewRequired: analysis.expertReviewRequired
+  };
+}
+
+/**
+ * Loopback, private, link-local, shared, multicast and reserved ranges.
+ * BlockList also matches IPv4-mapped IPv6 addresses (::ffff:7f00:1) against
+ * the IPv4 ranges, whichever form they are written in
+ */
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    return PRIVATE_ADDRESSES.check(address, 'ipv4');
+  }
+  if (net.isIPv6(address)) {
+    return PRIVATE_ADDRESSES.check(address, 'ipv6');
+  }
+  return false;
+}
+
+/**
+ * Problem with an endpoint URL, or null when it can be used
+ */
+export function validateWebhookUrl(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return 'url is required';
+  }
+  if (value.length > 2000) {
+    return 'url is too long (max 2,000 characters)';
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'url must be a valid absolute URL';
+  }
+
+  if (insecureUrlsAllowed()) {
+    return url.protocol === 'https:' || url.protocol === 'http:' ? null : 'url must use https';
+  }
+  if (url.protocol !== 'https:') {
+    return 'url must use https';
+  }
+  if (url.username || url.password) {
+    return 'url must not contain credentials';
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname)) {
+    return 'url must point to a public host';
+  }
+  return null;
+}
+
+/**
+ * Resolve like the default lookup but refuse private addresses, so a public
+ * hostname cannot be pointed at internal services after registration
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked) {
+      callback(new Error(`Refusing to deliver to private address ${blocked.address}`), '', 0);
+      return;
+    }
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+      return;
+    }
+    const first = addresses[0]!;
+    callback(null, first.address, first.family);
+  });
+};
+
+/**
+ * POST the body without following redirects
+ */
+export const sendWebhookRequest: WebhookSender = ({ url, body, headers }) => {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const client = target.protocol === 'http:' ? http : https;
+
+    const request = client.request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      timeout: REQUEST_TIMEOUT_MS,
+      ...(!insecureUrlsAllowed() && { lookup: publicOnlyLookup })
+    }, response => {
+      let responseBody = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        if (responseBody.length < MAX_RESPONSE_BODY_LENGTH) {
+          responseBody += chunk;
+        }
+      });
+      response.on('end', () => resolve({
+        statusCode: response.statusCode || 0,
+        body: responseBody.slice(0, MAX_RESPONSE_BODY_LENGTH)
+      }));
+      response.on('error', reject);
+    });
+
+    request.on('timeout', () => request.destroy(new Error(`Timed out after ${REQUEST_TIMEOUT_MS}ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+};
+
+export class WebhookService {
+  private db: DatabaseService;
+  private send: WebhookSender;
+  private key: Buffer;
+  private concurrency: number;
+  private running = new Set<Promise<void>>();
+  private timer: NodeJS.Timeout | undefined;
+  private filling = false;
+  private wake = () => this.fill();
+
+  constructor(db?: DatabaseService, send: WebhookSender = sendWebhookRequest) {
+    this.db = db || new DatabaseService();
+    this.send = send;
+    const passphrase = process.env.WEBHOOK_ENCRYPTION_KEY || process.env.JWT_SECRET;
+    if (!passphrase) {
+      throw new Error('WEBHOOK_ENCRYPTION_KEY or JWT_SECRET must be set to encrypt webhook secrets');
+    }
+    this.key = deriveSecretKey(passphrase);
+    this.concurrency = Math.max(1, parseInt(process.env.WEBHOOK_CONCURRENCY || '', 10) || DEFAULT_CONCURRENCY);
+  }
+
+  /**
+   * Validate an endpoint registration or update; returns a list of problems
+   */
+  validateEndpoint(input: WebhookEndpointInput, partial = false): string[] {
+    const errors: string[] = [];
+
+    if (!partial || input.url !== undefined) {
+      const urlError = validateWebhookUrl(input.url);
+      if (urlError) {
+        errors.push(urlError);
+      }
+    }
+
+    if (!partial || input.eventTypes !== undefined) {
+      const types = WEBHOOK_EVENT_TYPES as readonly string[];
+      if (!Array.isArray(input.eventTypes) || input.eventTypes.length === 0) {
+        errors.push('eventTypes must be a non-empty array');
+      } else {
+        const unknown = input.eventTypes.filter(type => typeof type !== 'string' || !types.includes(type));
+        if (unknown.length > 0) {
+          errors.push(`Unknown event types: ${unknown.join(', ')}. Supported: ${types.join(', ')}`);
+        }
+      }
+    }
+
+    if (input.description !== undefined && (typeof input.description !== 'string' || input.description.length > 255)) {
+      errors.push('description must be a string of at most 255 characters');
+    }
+    if (input.isActive !== undefined && typeof input.isActive !== 'boolean') {
+      errors.push('isActive must be a boolean');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Register an endpoint and return its signing secret once
+   */
+  async createEndpoint(organizationId: string, userId: string, input: WebhookEndpointInput): Promise<CreatedWebhookEndpoint> {
+    const errors = this.validateEndpoint(input);
+    if (errors.length > 0) {
+      throw webhookError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const count = await this.db.query(
+      'SELECT COUNT(*)::int AS count FROM webhook_endpoints WHERE organization_id = $1',
+      [organizationId]
+    );
+    if ((count.rows[0]?.count || 0) >= MAX_ENDPOINTS_PER_ORGANIZATION) {
+      throw webhookError(409, 'WEBHOOK_LIMIT_REACHED', `An organization can register at most ${MAX_ENDPOINTS_PER_ORGANIZATION} webhook endpoints`);
+    }
+
+    const secret = this.generateSecret();
+    const result = await this.db.query(
+      `INSERT INTO webhook_endpoints (organization_id, url, description, event_types, secret, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [organizationId, input.url, input.description || null, [...new Set(input.eventTypes)], encryptSecret(secret, this.key), userId]
+    );
+
+    const endpoint = this.mapEndpointRow(result.rows[0]);
+    logger.info('Webhook endpoint registered', { endpointId: endpoint.id, organizationId, eventTypes: endpoint.eventTypes });
+    return { endpoint, secret };
+  }
+
+  async listEndpoints(organizationId: string): Promise<WebhookEndpoint[]> {
+    const result = await this.db.query(
+      'SELECT * FROM webhook_endpoints WHERE organization_id = $1 ORDER BY created_at',
+      [organizationId]
+    );
+    return result.rows.map(row => this.mapEndpointRow(row));
+  }
+
+  async getEndpoint(organizationId: string, endpointId: string): Promise<WebhookEndpoint> {
+    return this.mapEndpointRow(await this.getEndpointRow(organizationId, endpointId));
+  }
+
+  /**
+   * Change URL, subscribed events, description or pause/resume an endpoint.
+   * Deliveries queued for a paused endpoint wait until it is resumed.
+   */
+  async updateEndpoint(organizationId: string, endpointId: string, input: WebhookEndpointInput): Promise<WebhookEndpoint> {
+    const errors = this.validateEndpoint(input, true);
+    if (errors.length > 0) {
+      throw webhookError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const result = await this.db.query(
+      `UPDATE webhook_endpoints
+       SET url = COALESCE($3, url),
+           description = COALESCE($4, description),
+           event_types = COALESCE($5, event_types),
+           is_active = COALESCE($6, is_active)
+       WHERE id = $1 AND organization_id = $2
+       RETURNING *`,
+      [
+        endpointId,
+        organizationId,
+        input.url ?? null,
+        input.description ?? null,
+        input.eventTypes ? [...new Set(input.eventTypes)] : null,
+        input.isActive ?? null
+      ]
+    );
+    if (!result.rows[0]) {
+      throw webhookError(404, 'WEBHOOK_NOT_FOUND', 'Webhook endpoint not found');
+    }
+
+    if (input.isActive) {
+      webhookEvents.emit('enqueued');
+    }
+    return this.mapEndpointRow(result.rows[0]);
+  }
+
+  /**
+   * Remove an endpoint together with its queued deliveries and log
+   */
+  async deleteEndpoint(organizationId: string, endpointId: string): Promise<void> {
+    const result = await this.db.query(
+      'DELETE FROM webhook_endpoints WHERE id = $1 AND organization_id = $2',
+      [endpointId, organizationId]
+    );
+    if (!result.rowCount) {
+      throw webhookError(404, 'WEBHOOK_NOT_FOUND', 'Webhook endpoint not found');
+    }
+  }
+
+  /**
+   * Replace the signing secret; deliveries from now on use the new one
+   */
+  async rotateSecret(organizationId: string, endpointId: string): Promise<CreatedWebhookEndpoint> {
+    const secret = this.generateSecret();
+    const result = await this.db.query(
+      'UPDATE webhook_endpoints SET secret = $3 WHERE id = $1 AND organization_id = $2 RETURNING *',
+      [endpointId, organizationId, encryptSecret(secret, this.key)]
+    );
+    if (!result.rows[0]) {
+      throw webhookError(404, 'WEBHOOK_NOT_FOUND', 'Webhook endpoint not found');
+    }
+    return { endpoint: this.mapEndpointRow(result.rows[0]), secret };
+  }
+
+  /**
+   * Queue an event for every active endpoint of the organization subscribed
+   * to its type. Never throws: a webhook problem must not fail the action
+   * that produced the event. Returns the number of deliveries queued.
+   */
+  async publish(organizationId: string, type: WebhookEventType, data: Record<string, unknown>): Promise<number> {
+    const event: WebhookEvent = {
+      id: crypto.randomUUID(),
+      type,
+      organizationId,
+      createdAt: new Date().toISOString(),
+      data
+    };
+
+    try {
+      const result = await this.db.query(
+        `INSERT INTO webhook_deliveries (endpoint_id, organization_id, event_id, event_type, payload)
+         SELECT id, organization_id, $2::uuid, $3::text, $4::jsonb
+         FROM webhook_endpoints
+         WHERE organization_id = $1 AND is_active = TRUE AND $3::text = ANY(event_types)`,
+        [organizationId, event.id, type, JSON.stringify(event)]
+      );
+
+      const queued = result.rowCount || 0;
+      if (queued > 0) {
+        logger.debug('Webhook event queued', { eventId: event.id, type, organizationId, deliveries: queued });
+        webhookEvents.emit('enqueued');
+      }
+      return queued;
+    } catch (error) {
+      logger.error('Failed to queue webhook event', { type, organizationId, error: (error as Error).message });
+      return 0;
+    }
+  }
+
+  /**
+   * Delivery log of an endpoint, newest first. Filter by DEAD for the dead-letter list.
+   */
+  async listDeliveries(
+    organizationId: string,
+    endpointId: string,
+    options: { status?: WebhookDeliveryStatus; limit?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    await this.getEndpointRow(organizationId, endpointId);
+
+    const result = await this.db.query(
+      `SELECT * FROM webhook_deliveries
+       WHERE endpoint_id = $1 AND ($2::text IS NULL OR status = $2)
+       ORDER BY created_at DESC
+       LIMIT $3`,
+      [endpointId, options.status || null, Math.min(Math.max(options.limit || 50, 1), 200)]
+    );
+    return result.rows.map(row => this.mapDeliveryRow(row));
+  }
+
+  /**
+   * A delivery with its payload and every attempt
+   */
+  async getDelivery(organizationId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const row = await this.getDeliveryRow(organizationId, deliveryId);
+    const attempts = await this.db.query(
+      'SELECT * FROM webhook_delivery_attempts WHERE delivery_id = $1 ORDER BY attempt',
+      [deliveryId]
+    );
+
+    return {
+      ...this.mapDeliveryRow(row),
+      payload: row.payload,
+      attemptLog: attempts.rows.map(attempt => this.mapAttemptRow(attempt))
+    };
+  }
+
+  /**
+   * Send a delivery's event again as a new delivery with a fresh retry budget
+   */
+  async replayDelivery(organizationId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const original = await this.getDeliveryRow(organizationId, deliveryId);
+    if (original.status === 'PENDING' || original.status === 'DELIVERING') {
+      throw webhookError(409, 'DELIVERY_IN_PROGRESS', 'Delivery is still being attempted');
+    }
+
+    const result = await this.db.query(
+      `INSERT INTO webhook_deliveries (endpoint_id, organization_id, event_id, event_type, payload, replay_of_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [original.endpoint_id, organizationId, original.event_id, original.event_type, JSON.stringify(original.payload), original.id]
+    );
+
+    webhookEvents.emit('enqueued');
+    return this.mapDeliveryRow(result.rows[0]);
+  }
+
+  /**
+   * Replay every dead-lettered delivery of an endpoint; returns how many were requeued
+   */
+  async replayDeadLetters(organizationId: string, endpointId: string): Promise<number> {
+    await this.getEndpointRow(organizationId, endpointId);
+
+    const result = await this.db.query(
+      `INSERT INTO webhook_deliveries (endpoint_id, organization_id, event_id, event_type, payload, replay_of_id)
+       SELECT d.endpoint_id, d.organization_id, d.event_id, d.event_type, d.payload, d.id
+       FROM webhook_deliveries d
+       WHERE d.endpoint_id = $1 AND d.status = 'DEAD'
+         AND NOT EXISTS (SELECT 1 FROM webhook_deliveries r WHERE r.replay_of_id = d.id)`,
+      [endpointId]
+    );
+
+    const requeued = result.rowCount || 0;
+    if (requeued > 0) {
+      webhookEvents.emit('enqueued');
+    }
+    return requeued;
+  }
+
+  /**
+   * Requeue deliveries a crashed process left in flight, then poll for work.
+   * Assumes one worker per database.
+   */
+  async startWorker(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    const recovered = await this.db.query(`
+      UPDATE webhook_deliveries SET status = 'PENDING', next_attempt_at = NOW()
+      WHERE status = 'DELIVERING'
+    `);
+    if (recovered.rowCount) {
+      logger.warn('Requeued interrupted webhook deliveries', { count: recovered.rowCount });
+    }
+
+    this.timer = setInterval(this.wake, POLL_INTERVAL_MS);
+    this.timer.unref();
+    webhookEvents.on('enqueued', this.wake);
+
+    logger.info('Webhook delivery worker started', { concurrency: this.concurrency });
+    this.fill();
+  }
+
+  /**
+   * Stop claiming new deliveries and wait for in-flight ones to finish
+   */
+  async stopWorker(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    webhookEvents.off('enqueued', this.wake);
+    await Promise.allSettled([...this.running]);
+  }
+
+  /**
+   * Claim and attempt the next due delivery; false when there is none
+   */
+  async runNextDelivery(): Promise<boolean> {
+    const claimed = await this.claimNextDelivery();
+    if (!claimed) {
+      return false;
+    }
+    await this.attemptDelivery(claimed);
+    return true;
+  }
+
+  private fill(): void {
+    if (this.filling || !this.timer) {
+      return;
+    }
+    this.filling = true;
+
+    this.claimUntilFull()
+      .catch(error => logger.error('Webhook worker failed to claim deliveries', { error: (error as Error).message }))
+      .finally(() => {
+        this.filling = false;
+      });
+  }
+
+  private async claimUntilFull(): Promise<void> {
+    while (this.timer && this.running.size < this.concurrency) {
+      const claimed = await this.claimNextDelivery();
+      if (!claimed) {
+        return;
+      }
+
+      const run: Promise<void> = this.attemptDelivery(claimed).finally(() => {
+        this.running.delete(run);
+        this.fill();
+      });
+      this.running.add(run);
+    }
+  }
+
+  private async claimNextDelivery(): Promise<any | null> {
+    const result = await this.db.query(`
+      UPDATE webhook_deliveries d
+      SET status = 'DELIVERING', attempts = d.attempts + 1
+      FROM webhook_endpoints e
+      WHERE e.id = d.endpoint_id AND d.id = (
+        SELECT pending.id
+        FROM webhook_deliveries pending
+        JOIN webhook_endpoints endpoint ON endpoint.id = pending.endpoint_id
+        WHERE pending.status = 'PENDING' AND pending.next_attempt_at <= NOW() AND endpoint.is_active = TRUE
+        ORDER BY pending.next_attempt_at
+        LIMIT 1
+        FOR UPDATE OF pending SKIP LOCKED
+      )
+      RETURNING d.*, e.url, e.secret
+    `);
+    return result.rows[0] || null;
+  }
+
+  private async attemptDelivery(row: any): Promise<void> {
+    const body = JSON.stringify(row.payload);
+    const startedAt = Date.now();
+    let statusCode: number | undefined;
+    let responseBody: string | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await this.send({
+        url: row.url,
+        body,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'HalalCheck-Webhooks/1.0',
+          'X-HalalCheck-Event': row.event_type,
+          'X-HalalCheck-Event-Id': row.event_id,
+          'X-HalalCheck-Delivery': row.id,
+          [SIGNATURE_HEADER]: signWebhookPayload(decryptSecret(row.secret, this.key), body)
+        }
+      });
+      statusCode = response.statusCode;
+      responseBody = response.body;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Endpoint responded with HTTP ${statusCode}`;
+      }
+    } catch (sendError) {
+      error = (sendError as Error).message;
+    }
+
+    const durationMs = Date.now() - startedAt;
+    const succeeded = !error;
+    const dead = !succeeded && row.attempts >= MAX_DELIVERY_ATTEMPTS;
+
+    try {
+      await this.db.query(
+        `INSERT INTO webhook_delivery_attempts (delivery_id, attempt, status_code, error, response_body, duration_ms)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [row.id, row.attempts, statusCode ?? null, error ?? null, responseBody ?? null, durationMs]
+      );
+
+      await this.db.query(
+        `UPDATE webhook_deliveries
+         SET status = $2, last_status_code = $3, last_error = $4,
+             next_attempt_at = NOW() + ($5 * INTERVAL '1 millisecond'),
+             delivered_at = CASE WHEN $2 = 'SUCCEEDED' THEN NOW() ELSE NULL END,
+             dead_at = CASE WHEN $2 = 'DEAD' THEN NOW() ELSE NULL END
+         WHERE id = $1`,
+        [
+          row.id,
+          succeeded ? 'SUCCEEDED' : dead ? 'DEAD' : 'PENDING',
+          statusCode ?? null,
+          error ?? null,
+          succeeded || dead ? 0 : webhookRetryDelayMs(row.attempts)
+        ]
+      );
+    } catch (updateError) {
+      // The delivery stays DELIVERING and is requeued on the next worker start
+      logger.error('Failed to record webhook delivery attempt', {
+        deliveryId: row.id,
+        error: (updateError as Error).message
+      });
+      return;
+    }
+
+    if (dead) {
+      logger.warn('Webhook delivery moved to dead-letter list', {
+        deliveryId: row.id,
+        endpointId: row.endpoint_id,
+        eventType: row.event_type,
+        attempts: row.attempts,
+        error
+      });
+    } else if (!succeeded) {
+      logger.info('Webhook delivery failed, will retry', {
+        deliveryId: row.id,
+        attempt: row.attempts,
+        error
+      });
+    }
+  }
+
+  private async getEndpointRow(organizationId: string, endpointId: string): Promise<any> {
+    const result = await this.db.query(
+      'SELECT * FROM webhook_endpoints WHERE id = $1 AND organization_id = $2',
+      [endpointId, organizationId]
+    );
+    if (!result.rows[0]) {
+      throw webhookError(404, 'WEBHOOK_NOT_FOUND', 'Webhook endpoint not found');
+    }
+    return result.rows[0];
+  }
+
+  private async getDeliveryRow(organizationId: string, deliveryId: string): Promise<any> {
+    const result = await this.db.query(
+      'SELECT * FROM webhook_deliveries WHERE id = $1 AND organization_id = $2',
+      [deliveryId, organizationId]
+    );
+    if (!result.rows[0]) {
+      throw webhookError(404, 'DELIVERY_NOT_FOUND', 'Webhook delivery not found');
+    }
+    return result.rows[0];
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+  }
+
+  private mapEndpointRow(row: any): WebhookEndpoint {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      url: row.url,
+      ...(row.description && { description: row.description }),
+      eventTypes: row.event_types || [],
+      isActive: row.is_active,
+      ...(row.created_by && { createdBy: row.created_by }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapDeliveryRow(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      endpointId: row.endpoint_id,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      status: row.status,
+      attempts: row.attempts,
+      ...(row.status === 'PENDING' && { nextAttemptAt: row.next_attempt_at }),
+      ...(row.last_status_code !== null && row.last_status_code !== undefined && { lastStatusCode: row.last_status_code }),
+      ...(row.last_error && { lastError: row.last_error }),
+      ...(row.replay_of_id && { replayOfId: row.replay_of_id }),
+      createdAt: row.created_at,
+      ...(row.delivered_at && { deliveredAt: row.delivered_at }),
+      ...(row.dead_at && { deadAt: row.dead_at })
+    };
+  }
+
+  private mapAttemptRow(row: any): WebhookDeliveryAttempt {
+    return {
+      attempt: row.attempt,
+      ...(row.status_code !== null && row.status_code !== undefined && { statusCode: row.status_code }),
+      ...(row.error && { error: row.error }),
+      ...(row.response_body && { responseBody: row.response_body }),
+      durationMs: row.duration_ms,
+      attemptedAt: row.attempted_at
+    };
+  }
+}
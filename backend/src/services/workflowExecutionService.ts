@@ -0,0 +1,334 @@
+/**
+ * HalalCheck EU - Workflow Execution Service
+ *
+ * Durable state for the agent orchestrator's workflow executions. The agent
+ * process running an execution holds it under a lease and checkpoints the
+ * step outputs, errors and retry counters after every step. Executions whose
+ * lease lapses (the process stopped mid-way) and executions queued for a
+ * retry are claimed by the next agent process that asks for work. Users can
+ * list and inspect executions, cancel them and retry failed ones from a step.
+ */
+
+import { DatabaseService } from './databaseService';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/middleware/errorHandler';
+import {
+  CreateWorkflowExecutionRequest,
+  WORKFLOW_EXECUTION_STATUSES,
+  WorkflowCheckpoint,
+  WorkflowExecution,
+  WorkflowExecutionFilter,
+  WorkflowExecutionStatus
+} from '@/types/workflows';
+
+// Orchestrator-issued IDs, e.g. exec_1700000000000_k3j9x2a1b
+const EXECUTION_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const MAX_NAME_LENGTH = 100;
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+const MAX_CLAIM_LIMIT = 20;
+// Agent processes renew leases well within this; a lapsed lease means the process is gone
+export const WORKFLOW_LEASE_SECONDS = 300;
+
+const CHECKPOINT_STATUSES: WorkflowCheckpoint['status'][] = ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED'];
+
+function workflowError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+function isName(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_NAME_LENGTH;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function isValidExecutionId(value: unknown): value is string {
+  return typeof value === 'string' && EXECUTION_ID_PATTERN.test(value);
+}
+
+export function isWorkflowExecutionStatus(value: unknown): value is WorkflowExecutionStatus {
+  return WORKFLOW_EXECUTION_STATUSES.includes(value as WorkflowExecutionStatus);
+}
+
+export class WorkflowExecutionService {
+  private db: DatabaseService;
+
+  constructor(db?: DatabaseService) {
+    this.db = db || new DatabaseService();
+  }
+
+  /**
+   * Record an execution the calling agent process has started
+   */
+  async createExecution(organizationId: string, userId: string, request: CreateWorkflowExecutionRequest): Promise<WorkflowExecution> {
+    const errors: string[] = [];
+    if (!isValidExecutionId(request.id)) {
+      errors.push('id must be 8-64 letters, digits, underscores or hyphens');
+    }
+    for (const field of ['workflowId', 'workerId', 'currentStep'] as const) {
+      if (!isName(request[field])) {
+        errors.push(`${field} is required and must be at most ${MAX_NAME_LENGTH} characters`);
+      }
+    }
+    if (request.data !== undefined && !isPlainObject(request.data)) {
+      errors.push('data must be an object');
+    }
+    if (errors.length > 0) {
+      throw workflowError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const result = await this.db.query(
+      `INSERT INTO workflow_executions (
+         id, organization_id, workflow_id, status, current_step, data,
+         worker_id, lease_expires_at, created_by
+       ) VALUES ($1, $2, $3, 'RUNNING', $4, $5, $6, NOW() + make_interval(secs => $7), $8)
+       ON CONFLICT (id) DO NOTHING
+       RETURNING *`,
+      [
+        request.id,
+        organizationId,
+        request.workflowId,
+        request.currentStep,
+        JSON.stringify(request.data || {}),
+        request.workerId,
+        WORKFLOW_LEASE_SECONDS,
+        userId
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      throw workflowError(409, 'EXECUTION_EXISTS', 'A workflow execution with this ID already exists');
+    }
+
+    logger.info('Workflow execution started', { executionId: request.id, workflowId: request.workflowId, organizationId });
+    return this.mapExecutionRow(result.rows[0]);
+  }
+
+  /**
+   * Save progress from the agent process holding the execution. Fails with
+   * 409 once the execution was cancelled or taken over, which tells the
+   * process to stop working on it.
+   */
+  async checkpoint(organizationId: string, executionId: string, checkpoint: WorkflowCheckpoint): Promise<WorkflowExecution> {
+    const errors: string[] = [];
+    if (!isName(checkpoint.workerId) || !isName(checkpoint.currentStep)) {
+      errors.push('workerId and currentStep are required');
+    }
+    if (!CHECKPOINT_STATUSES.includes(checkpoint.status)) {
+      errors.push(`status must be one of: ${CHECKPOINT_STATUSES.join(', ')}`);
+    }
+    if (!Number.isInteger(checkpoint.currentStepIndex) || checkpoint.currentStepIndex < 0) {
+      errors.push('currentStepIndex must be a non-negative integer');
+    }
+    if (typeof checkpoint.progress !== 'number' || checkpoint.progress < 0 || checkpoint.progress > 100) {
+      errors.push('progress must be between 0 and 100');
+    }
+    if (!isPlainObject(checkpoint.results) || !isPlainObject(checkpoint.retryCount) || !Array.isArray(checkpoint.errors)) {
+      errors.push('results and retryCount must be objects and errors an array');
+    }
+    if (errors.length > 0) {
+      throw workflowError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const running = checkpoint.status === 'RUNNING';
+    const finished = checkpoint.status === 'COMPLETED' || checkpoint.status === 'FAILED';
+    const result = await this.db.query(
+      `UPDATE workflow_executions
+       SET status = $4, current_step = $5, current_step_index = $6, progress = $7,
+           results = $8, errors = $9, retry_count = $10,
+           worker_id = CASE WHEN $11 THEN worker_id END,
+           lease_expires_at = CASE WHEN $11 THEN NOW() + make_interval(secs => $12) END,
+           ended_at = CASE WHEN $13 THEN NOW() END
+       WHERE id = $1 AND organization_id = $2 AND worker_id = $3 AND status = 'RUNNING'
+       RETURNING *`,
+      [
+        executionId,
+        organizationId,
+        checkpoint.workerId,
+        checkpoint.status,
+        checkpoint.currentStep,
+        checkpoint.currentStepIndex,
+        Math.round(checkpoint.progress),
+        JSON.stringify(checkpoint.results),
+        JSON.stringify(checkpoint.errors),
+        JSON.stringify(checkpoint.retryCount),
+        running,
+        WORKFLOW_LEASE_SECONDS,
+        finished
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      const execution = await this.getExecution(organizationId, executionId);
+      throw workflowError(409, 'EXECUTION_NOT_HELD', `Workflow execution is ${execution.status.toLowerCase()} and not held by this worker`);
+    }
+
+    return this.mapExecutionRow(result.rows[0]);
+  }
+
+  /**
+   * Hand the calling agent process executions to run: retries queued by users
+   * and running executions whose process stopped renewing its lease
+   */
+  async claimExecutions(organizationId: string, workerId: unknown, limit: unknown): Promise<WorkflowExecution[]> {
+    if (!isName(workerId)) {
+      throw workflowError(400, 'VALIDATION_ERROR', 'workerId is required');
+    }
+    const claimLimit = Math.min(Math.max(Number(limit) || 1, 1), MAX_CLAIM_LIMIT);
+
+    const result = await this.db.query(
+      `UPDATE workflow_executions
+       SET status = 'RUNNING', worker_id = $2, lease_expires_at = NOW() + make_interval(secs => $3)
+       WHERE id IN (
+         SELECT id FROM workflow_executions
+         WHERE organization_id = $1
+           AND (status = 'PENDING' OR (status = 'RUNNING' AND lease_expires_at < NOW()))
+         ORDER BY created_at
+         LIMIT $4
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [organizationId, workerId, WORKFLOW_LEASE_SECONDS, claimLimit]
+    );
+
+    const executions = result.rows.map(row => this.mapExecutionRow(row));
+    if (executions.length > 0) {
+      logger.info('Workflow executions claimed', { organizationId, workerId, executionIds: executions.map(e => e.id) });
+    }
+    return executions;
+  }
+
+  /**
+   * Extend the leases the agent process still holds; returns their IDs, so
+   * executions missing from the answer were cancelled or taken over
+   */
+  async renewLeases(organizationId: string, workerId: unknown, executionIds: unknown): Promise<string[]> {
+    if (!isName(workerId) || !Array.isArray(executionIds) || !executionIds.every(isValidExecutionId)) {
+      throw workflowError(400, 'VALIDATION_ERROR', 'workerId and a list of executionIds are required');
+    }
+    if (executionIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.db.query(
+      `UPDATE workflow_executions
+       SET lease_expires_at = NOW() + make_interval(secs => $3)
+       WHERE organization_id = $1 AND worker_id = $2 AND status = 'RUNNING' AND id = ANY($4)
+       RETURNING id`,
+      [organizationId, workerId, WORKFLOW_LEASE_SECONDS, executionIds]
+    );
+    return result.rows.map(row => row.id);
+  }
+
+  async listExecutions(organizationId: string, filter: WorkflowExecutionFilter = {}): Promise<WorkflowExecution[]> {
+    const limit = Math.min(Math.max(filter.limit || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    const offset = Math.max(filter.offset || 0, 0);
+
+    const conditions = ['organization_id = $1'];
+    const params: unknown[] = [organizationId];
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (filter.workflowId) {
+      params.push(filter.workflowId);
+      conditions.push(`workflow_id = $${params.length}`);
+    }
+    params.push(limit, offset);
+
+    const result = await this.db.query(
+      `SELECT * FROM workflow_executions
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY created_at DESC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+    return result.rows.map(row => this.mapExecutionRow(row));
+  }
+
+  async getExecution(organizationId: string, executionId: string): Promise<WorkflowExecution> {
+    const row = isValidExecutionId(executionId) ? await this.findExecutionRow(executionId) : null;
+    if (!row || row.organization_id !== organizationId) {
+      throw workflowError(404, 'EXECUTION_NOT_FOUND', 'Workflow execution not found');
+    }
+    return this.mapExecutionRow(row);
+  }
+
+  /**
+   * Stop a pending or running execution; the process running it stops at its next checkpoint
+   */
+  async cancelExecution(organizationId: string, userId: string, executionId: string): Promise<WorkflowExecution> {
+    const execution = await this.getExecution(organizationId, executionId);
+
+    const result = await this.db.query(
+      `UPDATE workflow_executions
+       SET status = 'CANCELLED', worker_id = NULL, lease_expires_at = NULL, ended_at = NOW(), cancelled_by = $3
+       WHERE id = $1 AND organization_id = $2 AND status IN ('PENDING', 'RUNNING')
+       RETURNING *`,
+      [executionId, organizationId, userId]
+    );
+    if (result.rows.length === 0) {
+      throw workflowError(409, 'INVALID_STATUS_TRANSITION', `Cannot cancel a ${execution.status.toLowerCase()} workflow execution`);
+    }
+
+    logger.info('Workflow execution cancelled', { executionId, organizationId });
+    return this.mapExecutionRow(result.rows[0]);
+  }
+
+  /**
+   * Queue a failed execution to run again from a step (by default the one
+   * that failed). Earlier step outputs are kept; the step's retry counter
+   * starts over.
+   */
+  async retryExecution(organizationId: string, executionId: string, stepId?: unknown): Promise<WorkflowExecution> {
+    const execution = await this.getExecution(organizationId, executionId);
+    if (stepId !== undefined && !isName(stepId)) {
+      throw workflowError(400, 'VALIDATION_ERROR', `stepId must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    const step = stepId === undefined ? execution.currentStep : stepId;
+
+    const result = await this.db.query(
+      `UPDATE workflow_executions
+       SET status = 'PENDING', current_step = $3, retry_count = retry_count - $3::text,
+           worker_id = NULL, lease_expires_at = NULL, ended_at = NULL
+       WHERE id = $1 AND organization_id = $2 AND status = 'FAILED'
+       RETURNING *`,
+      [executionId, organizationId, step]
+    );
+    if (result.rows.length === 0) {
+      throw workflowError(409, 'INVALID_STATUS_TRANSITION', `Only failed workflow executions can be retried; this one is ${execution.status.toLowerCase()}`);
+    }
+
+    logger.info('Workflow execution queued for retry', { executionId, organizationId, step });
+    return this.mapExecutionRow(result.rows[0]);
+  }
+
+  private async findExecutionRow(executionId: string): Promise<any | null> {
+    const result = await this.db.query('SELECT * FROM workflow_executions WHERE id = $1', [executionId]);
+    return result.rows[0] || null;
+  }
+
+  private mapExecutionRow(row: any): WorkflowExecution {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      workflowId: row.workflow_id,
+      status: row.status,
+      currentStep: row.current_step,
+      currentStepIndex: row.current_step_index,
+      progress: row.progress,
+      data: row.data || {},
+      results: row.results || {},
+      errors: row.errors || [],
+      retryCount: row.retry_count || {},
+      ...(row.worker_id && { workerId: row.worker_id }),
+      ...(row.lease_expires_at && { leaseExpiresAt: row.lease_expires_at }),
+      startedAt: row.started_at,
+      ...(row.ended_at && { endedAt: row.ended_at }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -0,0 +1,523 @@
+/**
+ * HalalCheck EU - Workflow Task Service
+ *
+ * Task inbox for the human stages of organization workflows. The workflow
+ * agent opens a task when a workflow enters a manual or approval stage; users
+ * holding one of the stage's assignee roles claim it, comment on it and
+ * approve or reject it. The agent picks up decisions and advances the
+ * workflow, then acknowledges them. Tasks still open after the stage's
+ * estimated duration escalate to the organization's administrators, once per
+ * further period they stay open.
+ */
+
+import { DatabaseService } from './databaseService';
+import { EmailService } from './emailService';
+import { WebhookService } from './webhookService';
+import { logger } from '@/utils/logger';
+import { AppError } from '@/middleware/errorHandler';
+import { UserRole } from '@/types/auth';
+import {
+  CreateWorkflowTaskRequest,
+  WorkflowTask,
+  WorkflowTaskActor,
+  WorkflowTaskComment,
+  WorkflowTaskFilter
+} from '@/types/workflows';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_NAME_LENGTH = 100;
+const MAX_INSTANCE_ID_LENGTH = 200;
+const MAX_TITLE_LENGTH = 255;
+const MAX_TEXT_LENGTH = 5000;
+const MAX_ASSIGNEE_ROLES = 20;
+const MAX_DURATION_HOURS = 24 * 365;
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+const MAX_PENDING_DECISIONS = 50;
+const ESCALATION_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+// Supervisors see escalated tasks in their inbox and may decide any open task
+const SUPERVISOR_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.ADMIN];
+
+function taskError(statusCode: number, code: string, message: string): AppError {
+  return Object.assign(new Error(message), { statusCode, code, isOperational: true });
+}
+
+function isName(value: unknown, maxLength = MAX_NAME_LENGTH): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+}
+
+function optionalText(value: unknown, field: string, maxLength = MAX_TEXT_LENGTH): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.length > maxLength) {
+    throw taskError(400, 'VALIDATION_ERROR', `${field} must be text of at most ${maxLength} characters`);
+  }
+  return value.trim() || undefined;
+}
+
+export class WorkflowTaskService {
+  private db: DatabaseService;
+  private emailService: EmailService;
+  private webhooks: WebhookService;
+  private escalationTimer: NodeJS.Timeout | undefined;
+
+  constructor(db?: DatabaseService, emailService?: EmailService, webhooks?: WebhookService) {
+    this.db = db || new DatabaseService();
+    this.emailService = emailService || new EmailService();
+    this.webhooks = webhooks || new WebhookService(this.db);
+  }
+
+  /**
+   * Open a task for a stage the workflow entered. Repeated requests for a
+   * stage that still has an open task return that task.
+   */
+  async createTask(organizationId: string, userId: string, request: CreateWorkflowTaskRequest): Promise<WorkflowTask> {
+    const errors: string[] = [];
+    if (!isName(request.workflowInstanceId, MAX_INSTANCE_ID_LENGTH)) {
+      errors.push(`workflowInstanceId is required and must be at most ${MAX_INSTANCE_ID_LENGTH} characters`);
+    }
+    for (const field of ['workflowId', 'stageId'] as const) {
+      if (!isName(request[field])) {
+        errors.push(`${field} is required and must be at most ${MAX_NAME_LENGTH} characters`);
+      }
+    }
+    if (request.type !== 'MANUAL' && request.type !== 'APPROVAL') {
+      errors.push('type must be MANUAL or APPROVAL');
+    }
+    if (!isName(request.title, MAX_TITLE_LENGTH)) {
+      errors.push(`title is required and must be at most ${MAX_TITLE_LENGTH} characters`);
+    }
+    if (request.description !== undefined && (typeof request.description !== 'string' || request.description.length > MAX_TEXT_LENGTH)) {
+      errors.push(`description must be at most ${MAX_TEXT_LENGTH} characters`);
+    }
+    if (request.data !== undefined && (!request.data || typeof request.data !== 'object' || Array.isArray(request.data))) {
+      errors.push('data must be an object');
+    }
+    const roles = request.assigneeRoles || [];
+    if (!Array.isArray(roles) || roles.length > MAX_ASSIGNEE_ROLES || !roles.every(role => isName(role))) {
+      errors.push(`assigneeRoles must be a list of at most ${MAX_ASSIGNEE_ROLES} role names`);
+    }
+    for (const field of ['approveStage', 'rejectStage'] as const) {
+      if (request[field] !== undefined && !isName(request[field])) {
+        errors.push(`${field} must be at most ${MAX_NAME_LENGTH} characters`);
+      }
+    }
+    if (request.durationHours !== undefined &&
+        (!Number.isInteger(request.durationHours) || request.durationHours < 1 || request.durationHours > MAX_DURATION_HOURS)) {
+      errors.push(`durationHours must be a whole number between 1 and ${MAX_DURATION_HOURS}`);
+    }
+    if (errors.length > 0) {
+      throw taskError(400, 'VALIDATION_ERROR', errors.join('; '));
+    }
+
+    const result = await this.db.query(
+      `INSERT INTO workflow_tasks (
+         organization_id, workflow_instance_id, workflow_id, stage_id, type, title, description, data,
+         assignee_roles, approve_stage, reject_stage, duration_hours, due_at, created_by
+       ) VALUES (
+         $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12,
+         CASE WHEN $12::int IS NULL THEN NULL ELSE NOW() + make_interval(hours => $12::int) END, $13
+       )
+       ON CONFLICT (organization_id, workflow_instance_id, stage_id) WHERE status IN ('OPEN', 'CLAIMED') DO NOTHING
+       RETURNING *`,
+      [
+        organizationId,
+        request.workflowInstanceId,
+        request.workflowId,
+        request.stageId,
+        request.type,
+        request.title.trim(),
+        request.description || null,
+        JSON.stringify(request.data || {}),
+        roles,
+        request.approveStage || null,
+        request.rejectStage || null,
+        request.durationHours ?? null,
+        userId
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      const existing = await this.db.query(
+        `SELECT * FROM workflow_tasks
+         WHERE organization_id = $1 AND workflow_instance_id = $2 AND stage_id = $3 AND status IN ('OPEN', 'CLAIMED')`,
+        [organizationId, request.workflowInstanceId, request.stageId]
+      );
+      if (!existing.rows[0]) {
+        throw taskError(409, 'TASK_CONFLICT', 'The open task for this stage changed in the meantime; try again');
+      }
+      return this.mapTaskRow(existing.rows[0]);
+    }
+
+    const task = this.mapTaskRow(result.rows[0]);
+    logger.info('Workflow task opened', { taskId: task.id, stageId: task.stageId, organizationId });
+    return task;
+  }
+
+  /**
+   * The user's inbox (open tasks routed to their workflow roles and tasks they
+   * claimed), or every task of the organization
+   */
+  async listTasks(organizationId: string, actor: WorkflowTaskActor, filter: WorkflowTaskFilter = {}): Promise<WorkflowTask[]> {
+    const limit = Math.min(Math.max(filter.limit || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    const offset = Math.max(filter.offset || 0, 0);
+
+    const conditions = ['organization_id = $1'];
+    const params: unknown[] = [organizationId];
+    if (filter.scope !== 'all') {
+      const roles = await this.getWorkflowRoles(actor.id);
+      params.push(actor.id, roles, SUPERVISOR_ROLES.includes(actor.role));
+      conditions.push(`(claimed_by = $2 OR (status = 'OPEN' AND (
+        cardinality(assignee_roles) = 0 OR assignee_roles && $3::text[] OR (escalation_level > 0 AND $4::boolean)
+      )))`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`status = $${params.length}`);
+    } else if (filter.scope !== 'all') {
+      conditions.push(`status IN ('OPEN', 'CLAIMED')`);
+    }
+    params.push(limit, offset);
+
+    const result = await this.db.query(
+      `SELECT * FROM workflow_tasks
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY escalation_level DESC, due_at ASC NULLS LAST, created_at ASC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+    return result.rows.map(row => this.mapTaskRow(row));
+  }
+
+  /**
+   * Task with its comments, oldest first
+   */
+  async getTask(organizationId: string, taskId: string): Promise<WorkflowTask> {
+    const task = await this.findTask(organizationId, taskId);
+
+    const comments = await this.db.query(
+      `SELECT c.*, u.first_name, u.last_name
+       FROM workflow_task_comments c
+       LEFT JOIN users u ON u.id = c.user_id
+       WHERE c.task_id = $1
+       ORDER BY c.created_at ASC`,
+      [task.id]
+    );
+    return { ...task, comments: comments.rows.map(row => this.mapCommentRow(row)) };
+  }
+
+  async claimTask(organizationId: string, actor: WorkflowTaskActor, taskId: string): Promise<WorkflowTask> {
+    const task = await this.findTask(organizationId, taskId);
+    if (task.status === 'CLAIMED' && task.claimedBy === actor.id) {
+      return task;
+    }
+    if (task.status === 'CLAIMED') {
+      throw taskError(409, 'TASK_ALREADY_CLAIMED', 'Task is already claimed by another user');
+    }
+    if (task.status !== 'OPEN') {
+      throw taskError(409, 'INVALID_STATUS_TRANSITION', `Cannot claim a ${task.status.toLowerCase()} task`);
+    }
+    await this.assertAssigned(task, actor);
+
+    const result = await this.db.query(
+      `UPDATE workflow_tasks
+       SET status = 'CLAIMED', claimed_by = $3, claimed_at = NOW()
+       WHERE id = $1 AND organization_id = $2 AND status = 'OPEN'
+       RETURNING *`,
+      [task.id, organizationId, actor.id]
+    );
+    if (result.rows.length === 0) {
+      throw taskError(409, 'TASK_ALREADY_CLAIMED', 'Task is already claimed by another user');
+    }
+
+    logger.info('Workflow task claimed', { taskId: task.id, userId: actor.id, organizationId });
+    return this.mapTaskRow(result.rows[0]);
+  }
+
+  async addComment(organizationId: string, actor: WorkflowTaskActor, taskId: string, body: unknown): Promise<WorkflowTaskComment> {
+    const text = optionalText(body, 'body');
+    if (!text) {
+      throw taskError(400, 'VALIDATION_ERROR', 'body is required');
+    }
+    const task = await this.findTask(organizationId, taskId);
+    await this.assertAssigned(task, actor);
+
+    const result = await this.db.query(
+      `INSERT INTO workflow_task_comments (task_id, user_id, body)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [task.id, actor.id, text]
+    );
+    return this.mapCommentRow(result.rows[0]);
+  }
+
+  /**
+   * Approve or reject a task the user claimed (supervisors may decide any
+   * open task). Rejections need a reason, and only stages with a rejection
+   * path can be rejected.
+   */
+  async decideTask(
+    organizationId: string,
+    actor: WorkflowTaskActor,
+    taskId: string,
+    decision: unknown,
+    reason: unknown
+  ): Promise<WorkflowTask> {
+    if (decision !== 'APPROVED' && decision !== 'REJECTED') {
+      throw taskError(400, 'VALIDATION_ERROR', 'decision must be APPROVED or REJECTED');
+    }
+    const text = optionalText(reason, 'reason');
+    if (decision === 'REJECTED' && !text) {
+      throw taskError(400, 'VALIDATION_ERROR', 'A reason is required to reject a task');
+    }
+
+    const task = await this.findTask(organizationId, taskId);
+    if (task.status !== 'OPEN' && task.status !== 'CLAIMED') {
+      throw taskError(409, 'INVALID_STATUS_TRANSITION', `Task is already ${task.status.toLowerCase()}`);
+    }
+    if (task.claimedBy !== actor.id && !SUPERVISOR_ROLES.includes(actor.role)) {
+      throw taskError(409, 'TASK_NOT_CLAIMED', 'Claim the task before deciding it');
+    }
+    if (decision === 'REJECTED' && !task.rejectStage) {
+      throw taskError(409, 'REJECTION_NOT_AVAILABLE', 'This stage has no rejection path');
+    }
+
+    const result = await this.db.query(
+      `UPDATE workflow_tasks
+       SET status = $3, decided_by = $4, decided_at = NOW(), decision_reason = $5,
+           claimed_by = COALESCE(claimed_by, $4), claimed_at = COALESCE(claimed_at, NOW())
+       WHERE id = $1 AND organization_id = $2 AND status IN ('OPEN', 'CLAIMED')
+       RETURNING *`,
+      [task.id, organizationId, decision, actor.id, text || null]
+    );
+    if (result.rows.length === 0) {
+      throw taskError(409, 'INVALID_STATUS_TRANSITION', 'Task was decided or cancelled in the meantime');
+    }
+
+    const decided = this.mapTaskRow(result.rows[0]);
+    logger.info('Workflow task decided', { taskId: decided.id, decision, userId: actor.id, organizationId });
+
+    await this.webhooks.publish(organizationId, 'workflow-task-decided', {
+      taskId: decided.id,
+      workflowInstanceId: decided.workflowInstanceId,
+      workflowId: decided.workflowId,
+      stageId: decided.stageId,
+      decision,
+      reason: decided.decisionReason || null,
+      nextStage: (decision === 'APPROVED' ? decided.approveStage : decided.rejectStage) || null
+    });
+    return decided;
+  }
+
+  /**
+   * Decisions the workflow agent has not applied yet, oldest first
+   */
+  async listPendingDecisions(organizationId: string): Promise<WorkflowTask[]> {
+    const result = await this.db.query(
+      `SELECT * FROM workflow_tasks
+       WHERE organization_id = $1 AND status IN ('APPROVED', 'REJECTED')
+         AND decision_applied_at IS NULL AND decision_error IS NULL
+       ORDER BY decided_at ASC
+       LIMIT $2`,
+      [organizationId, MAX_PENDING_DECISIONS]
+    );
+    return result.rows.map(row => this.mapTaskRow(row));
+  }
+
+  /**
+   * Record that the agent advanced the workflow, or why it could not
+   */
+  async acknowledgeDecision(organizationId: string, taskId: string, error?: unknown): Promise<WorkflowTask> {
+    const failure = optionalText(error, 'error');
+    const task = await this.findTask(organizationId, taskId);
+
+    const result = await this.db.query(
+      `UPDATE workflow_tasks
+       SET decision_applied_at = CASE WHEN $3::text IS NULL THEN NOW() END, decision_error = $3
+       WHERE id = $1 AND organization_id = $2 AND status IN ('APPROVED', 'REJECTED')
+         AND decision_applied_at IS NULL AND decision_error IS NULL
+       RETURNING *`,
+      [task.id, organizationId, failure || null]
+    );
+    if (result.rows.length === 0) {
+      throw taskError(409, 'DECISION_NOT_PENDING', 'Task has no decision waiting to be applied');
+    }
+
+    if (failure) {
+      logger.warn('Workflow task decision could not be applied', { taskId: task.id, organizationId, error: failure });
+    }
+    return this.mapTaskRow(result.rows[0]);
+  }
+
+  /**
+   * Close the open tasks of a workflow instance that was cancelled or moved on
+   */
+  async cancelInstanceTasks(organizationId: string, workflowInstanceId: unknown): Promise<number> {
+    if (!isName(workflowInstanceId, MAX_INSTANCE_ID_LENGTH)) {
+      throw taskError(400, 'VALIDATION_ERROR', 'workflowInstanceId is required');
+    }
+
+    const result = await this.db.query(
+      `UPDATE workflow_tasks SET status = 'CANCELLED'
+       WHERE organization_id = $1 AND workflow_instance_id = $2 AND status IN ('OPEN', 'CLAIMED')`,
+      [organizationId, workflowInstanceId]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Escalate tasks past their due time and move their due time one stage
+   * duration ahead. The update claims each escalation, so concurrent sweeps
+   * notify once.
+   */
+  async escalateOverdueTasks(): Promise<number> {
+    const result = await this.db.query(
+      `UPDATE workflow_tasks
+       SET escalation_level = escalation_level + 1, escalated_at = NOW(),
+           due_at = due_at + make_interval(hours => duration_hours)
+       WHERE status IN ('OPEN', 'CLAIMED') AND due_at < NOW()
+       RETURNING *`
+    );
+    if (result.rows.length === 0) {
+      return 0;
+    }
+
+    const byOrganization = new Map<string, WorkflowTask[]>();
+    for (const row of result.rows) {
+      const task = this.mapTaskRow(row);
+      byOrganization.set(task.organizationId, [...(byOrganization.get(task.organizationId) || []), task]);
+    }
+
+    for (const [organizationId, tasks] of byOrganization) {
+      await this.notifyEscalation(organizationId, tasks);
+    }
+
+    logger.info('Escalated overdue workflow tasks', { tasks: result.rows.length });
+    return result.rows.length;
+  }
+
+  startEscalations(): void {
+    if (this.escalationTimer) {
+      return;
+    }
+    const sweep = () => {
+      this.escalateOverdueTasks().catch(error => {
+        logger.error('Workflow task escalation sweep failed', { error: (error as Error).message });
+      });
+    };
+    this.escalationTimer = setInterval(sweep, ESCALATION_SWEEP_INTERVAL_MS);
+    this.escalationTimer.unref();
+    sweep();
+  }
+
+  stopEscalations(): void {
+    if (this.escalationTimer) {
+      clearInterval(this.escalationTimer);
+      this.escalationTimer = undefined;
+    }
+  }
+
+  /**
+   * Email the organization's administrators and the users holding the tasks
+   */
+  private async notifyEscalation(organizationId: string, tasks: WorkflowTask[]): Promise<void> {
+    for (const task of tasks) {
+      await this.webhooks.publish(organizationId, 'workflow-task-escalated', {
+        taskId: task.id,
+        workflowInstanceId: task.workflowInstanceId,
+        workflowId: task.workflowId,
+        stageId: task.stageId,
+        escalationLevel: task.escalationLevel,
+        claimedBy: task.claimedBy || null
+      });
+    }
+
+    const holders = tasks.map(task => task.claimedBy).filter((id): id is string => !!id);
+    const recipients = await this.db.query(
+      `SELECT id, email FROM users
+       WHERE organization_id = $1 AND status = 'ACTIVE' AND (role = 'ADMIN' OR id = ANY($2::uuid[]))`,
+      [organizationId, holders]
+    );
+    if (recipients.rows.length === 0) {
+      logger.warn('No recipients for workflow task escalation', { organizationId, tasks: tasks.length });
+      return;
+    }
+
+    const results = await Promise.allSettled(recipients.rows.map(recipient =>
+      this.emailService.sendWorkflowTaskEscalation(recipient.email, tasks)
+    ));
+    if (results.every(outcome => outcome.status === 'rejected')) {
+      logger.error('Failed to send workflow task escalation', { organizationId, tasks: tasks.length });
+    }
+  }
+
+  private async assertAssigned(task: WorkflowTask, actor: WorkflowTaskActor): Promise<void> {
+    if (SUPERVISOR_ROLES.includes(actor.role) || task.claimedBy === actor.id || task.assigneeRoles.length === 0) {
+      return;
+    }
+    const roles = await this.getWorkflowRoles(actor.id);
+    if (!task.assigneeRoles.some(role => roles.includes(role))) {
+      throw taskError(403, 'TASK_NOT_ASSIGNED', `Task is assigned to ${task.assigneeRoles.join(', ')}`);
+    }
+  }
+
+  private async getWorkflowRoles(userId: string): Promise<string[]> {
+    const result = await this.db.query('SELECT workflow_roles FROM users WHERE id = $1', [userId]);
+    return result.rows[0]?.workflow_roles || [];
+  }
+
+  private async findTask(organizationId: string, taskId: string): Promise<WorkflowTask> {
+    const result = UUID_PATTERN.test(taskId)
+      ? await this.db.query('SELECT * FROM workflow_tasks WHERE id = $1 AND organization_id = $2', [taskId, organizationId])
+      : { rows: [] };
+    if (!result.rows[0]) {
+      throw taskError(404, 'TASK_NOT_FOUND', 'Workflow task not found');
+    }
+    return this.mapTaskRow(result.rows[0]);
+  }
+
+  private mapTaskRow(row: any): WorkflowTask {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      workflowInstanceId: row.workflow_instance_id,
+      workflowId: row.workflow_id,
+      stageId: row.stage_id,
+      type: row.type,
+      title: row.title,
+      ...(row.description && { description: row.description }),
+      data: row.data || {},
+      assigneeRoles: row.assignee_roles || [],
+      ...(row.approve_stage && { approveStage: row.approve_stage }),
+      ...(row.reject_stage && { rejectStage: row.reject_stage }),
+      status: row.status,
+      ...(row.claimed_by && { claimedBy: row.claimed_by }),
+      ...(row.claimed_at && { claimedAt: row.claimed_at }),
+      ...(row.decided_by && { decidedBy: row.decided_by }),
+      ...(row.decided_at && { decidedAt: row.decided_at }),
+      ...(row.decision_reason && { decisionReason: row.decision_reason }),
+      ...(row.decision_applied_at && { decisionAppliedAt: row.decision_applied_at }),
+      ...(row.decision_error && { decisionError: row.decision_error }),
+      ...(row.duration_hours && { durationHours: row.duration_hours }),
+      ...(row.due_at && { dueAt: row.due_at }),
+      escalationLevel: row.escalation_level || 0,
+      ...(row.escalated_at && { escalatedAt: row.escalated_at }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapCommentRow(row: any): WorkflowTaskComment {
+    const authorName = [row.first_name, row.last_name].filter(Boolean).join(' ');
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      ...(row.user_id && { userId: row.user_id }),
+      ...(authorName && { authorName }),
+      body: row.body,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -4,6 +4,8 @@
  * Enterprise-grade security for halal certification platform
  */
 
+import { Madhab } from './halal';
+
 export enum UserRole {
   SUPER_ADMIN = 'SUPER_ADMIN',
   ADMIN = 'ADMIN',
@@ -73,12 +75,23 @@ export interface Organization {
   allowedDomains?: string[];
   ipWhitelist?: string[];
   
+  // Organization preferences (JSONB)
+  settings?: OrganizationSettings;
+  
   // Metadata
   createdAt: Date;
   updatedAt: Date;
   createdBy: string;
 }
 
+export type LLMProviderName = 'openai' | 'offline';
+
+export interface OrganizationSettings {
+  llmProvider?: LLMProviderName;
+  madhab?: Madhab;
+  [key: string]: unknown;
+}
+
 export interface User {
   id: string;
   email: string;
@@ -102,10 +115,12 @@ export interface User {
   mfaEnabled: boolean;
   mfaSecret?: string;
   mfaBackupCodes?: string[];
+  mfaLastUsedStep?: number;
   
   // Authorization
   role: UserRole;
   permissions: string[];
+  workflowRoles?: string[]; // Workflow stage roles the user handles tasks for
   organizationId: string;
   organization?: Organization;
   
@@ -212,12 +227,17 @@ export interface JWTPayload {
 export interface ApiKey {
   id: string;
   userId: string;
+  organizationId: string;
   name: string;
+  keyPrefix: string;
   keyHash: string;
   permissions: string[];
   lastUsed?: Date;
-  expiresAt?: Date;
+  lastUsedIp?: string;
+  expiresAt: Date;
   isActive: boolean;
+  revokedAt?: Date;
+  rotatedFromId?: string;
   createdAt: Date;
 }
 
@@ -240,6 +260,15 @@ export const PERMISSIONS = {
   ANALYZE_INGREDIENTS: 'analyze:ingredients',
   VIEW_ANALYSIS_HISTORY: 'view:analysis_history',
   EXPORT_REPORTS: 'export:reports',
+
+  // Certification
+  MANAGE_CERTIFICATES: 'manage:certificates',
+  MANAGE_WORKFLOWS: 'manage:workflows',
+  HANDLE_WORKFLOW_TASKS: 'handle:workflow_tasks',
+  VIEW_PIPELINE: 'view:pipeline',
+  MANAGE_PIPELINE: 'manage:pipeline',
+  VIEW_SUPPLIERS: 'view:suppliers',
+  MANAGE_SUPPLIERS: 'manage:suppliers',
   
   // Organization management
   MANAGE_USERS: 'manage:users',
@@ -251,6 +280,7 @@ export const PERMISSIONS = {
   MANAGE_ALL_ORGANIZATIONS: 'admin:manage_organizations',
   VIEW_SYSTEM_STATS: 'admin:view_stats',
   MANAGE_INGREDIENTS_DB: 'admin:manage_ingredients',
+  MANAGE_CERTIFICATION_BODIES: 'admin:manage_certification_bodies',
   
   // API access
   API_ACCESS: 'api:access',
@@ -269,25 +299,49 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
     PERMISSIONS.MANAGE_ORGANIZATION,
     PERMISSIONS.VIEW_BILLING,
     PERMISSIONS.API_ACCESS,
-    PERMISSIONS.WEBHOOK_MANAGE
+    PERMISSIONS.WEBHOOK_MANAGE,
+    PERMISSIONS.MANAGE_CERTIFICATES,
+    PERMISSIONS.MANAGE_WORKFLOWS,
+    PERMISSIONS.HANDLE_WORKFLOW_TASKS,
+    PERMISSIONS.VIEW_PIPELINE,
+    PERMISSIONS.MANAGE_PIPELINE,
+    PERMISSIONS.VIEW_SUPPLIERS,
+    PERMISSIONS.MANAGE_SUPPLIERS
   ],
   [UserRole.CERTIFIER]: [
     PERMISSIONS.ANALYZE_INGREDIENTS,
     PERMISSIONS.VIEW_ANALYSIS_HISTORY,
     PERMISSIONS.EXPORT_REPORTS,
+    PERMISSIONS.MANAGE_CERTIFICATES,
+    PERMISSIONS.MANAGE_WORKFLOWS,
+    PERMISSIONS.HANDLE_WORKFLOW_TASKS,
+    PERMISSIONS.VIEW_PIPELINE,
+    PERMISSIONS.MANAGE_PIPELINE,
+    PERMISSIONS.VIEW_SUPPLIERS,
+    PERMISSIONS.MANAGE_SUPPLIERS,
     PERMISSIONS.VIEW_USERS
   ],
   [UserRole.ANALYST]: [
     PERMISSIONS.ANALYZE_INGREDIENTS,
     PERMISSIONS.VIEW_ANALYSIS_HISTORY,
-    PERMISSIONS.EXPORT_REPORTS
+    PERMISSIONS.EXPORT_REPORTS,
+    PERMISSIONS.HANDLE_WORKFLOW_TASKS,
+    PERMISSIONS.VIEW_PIPELINE,
+    PERMISSIONS.MANAGE_PIPELINE,
+    PERMISSIONS.VIEW_SUPPLIERS
   ],
   [UserRole.MANUFACTURER]: [
     PERMISSIONS.ANALYZE_INGREDIENTS,
     PERMISSIONS.VIEW_ANALYSIS_HISTORY,
-    PERMISSIONS.EXPORT_REPORTS
+    PERMISSIONS.EXPORT_REPORTS,
+    PERMISSIONS.VIEW_PIPELINE,
+    PERMISSIONS.MANAGE_PIPELINE,
+    PERMISSIONS.VIEW_SUPPLIERS,
+    PERMISSIONS.MANAGE_SUPPLIERS
   ],
   [UserRole.VIEWER]: [
-    PERMISSIONS.VIEW_ANALYSIS_HISTORY
+    PERMISSIONS.VIEW_ANALYSIS_HISTORY,
+    PERMISSIONS.VIEW_PIPELINE,
+    PERMISSIONS.VIEW_SUPPLIERS
   ]
 };
\ No newline at end of file
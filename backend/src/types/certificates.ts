@@ -0,0 +1,112 @@
+/**
+ * HalalCheck EU - Certificate Types
+ *
+ * Certificates issued by the agent system are registered here so that the QR
+ * code printed on a certificate or on packaging can be checked by anyone.
+ * Public verification only reveals the certificate's standing and scope.
+ */
+
+import { DocumentSignature, DocumentVerification } from './signing';
+
+export const CERTIFICATE_TYPES = ['halal', 'organic', 'kosher', 'quality'] as const;
+
+export type CertificateType = typeof CERTIFICATE_TYPES[number];
+
+// Stored standing; expiry is derived from valid_until when verifying
+export type CertificateStatus = 'ACTIVE' | 'SUSPENDED' | 'REVOKED';
+
+export type CertificateVerificationStatus = 'VALID' | 'EXPIRED' | 'SUSPENDED' | 'REVOKED';
+
+export type CertificateAction = 'ISSUED' | 'SUSPENDED' | 'REINSTATED' | 'REVOKED' | 'RENEWED' | 'SCOPE_AMENDED';
+
+// Days before valid_until at which the organization is reminded of expiry
+export const CERTIFICATE_EXPIRY_REMINDER_DAYS = [90, 30, 7] as const;
+
+export interface Certificate {
+  id: string;
+  certificateNumber: string;
+  organizationId: string;
+  type: CertificateType;
+  clientId: string;
+  productName: string;
+  standard: string;
+  scope: string;
+  issuingAuthority: string;
+  validFrom: Date;
+  validUntil: Date;
+  status: CertificateStatus;
+  statusReason?: string;
+  statusChangedAt?: Date;
+  renewalCount: number;
+  issuedAt: Date;
+  data: Record<string, unknown>; // Rendered certificate fields, never exposed publicly
+  signature?: DocumentSignature; // Of the issued PDF
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RegisterCertificateRequest {
+  id: string;
+  certificateNumber: string;
+  type: CertificateType;
+  clientId: string;
+  productName: string;
+  standard: string;
+  scope: string;
+  issuingAuthority: string;
+  validFrom: string | Date;
+  validUntil: string | Date;
+  issuedAt?: string | Date;
+  data?: Record<string, unknown>;
+}
+
+export interface RenewCertificateRequest {
+  validUntil: string | Date;
+  validFrom?: string | Date; // Defaults to the current expiry, or now if already expired
+  certificateNumber?: string;
+  reason?: string;
+}
+
+/**
+ * One entry of a certificate's lifecycle history. Renewals keep the same
+ * certificate (and QR code), so the history covers every validity period.
+ */
+export interface CertificateEvent {
+  id: string;
+  certificateId: string;
+  action: CertificateAction;
+  fromStatus?: CertificateStatus;
+  toStatus: CertificateStatus;
+  reason?: string;
+  details: Record<string, unknown>;
+  performedBy?: string;
+  createdAt: Date;
+}
+
+/**
+ * Public verification result: enough to tell whether a certificate covers a
+ * product, nothing about the certified client
+ */
+export interface CertificateVerification {
+  certificateId: string;
+  certificateNumber: string;
+  status: CertificateVerificationStatus;
+  valid: boolean;
+  type: CertificateType;
+  productName: string;
+  standard: string;
+  scope: string;
+  issuingAuthority: string;
+  validFrom: Date;
+  validUntil: Date;
+  signature?: DocumentSignature & { jwksUrl: string };
+  checkedAt: Date;
+}
+
+/**
+ * Verification of a presented certificate PDF: the certificate's standing
+ * plus whether the file is the one that was signed
+ */
+export interface CertificateDocumentVerification extends CertificateVerification {
+  document: DocumentVerification;
+}
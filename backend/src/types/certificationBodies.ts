@@ -0,0 +1,101 @@
+/**
+ * HalalCheck EU - Certification Body Directory Types
+ *
+ * Halal certification bodies (the issuers of supplier and product
+ * certificates) and the recognition matrix: which importing-country
+ * authorities accept certificates from which bodies. A product exported to
+ * Malaysia needs ingredients certified by bodies JAKIM recognizes, one
+ * exported to the Gulf by bodies the GCC Accreditation Center recognizes.
+ */
+
+export const CERTIFICATION_BODY_STATUSES = ['active', 'suspended', 'withdrawn'] as const;
+
+export type CertificationBodyStatus = typeof CERTIFICATION_BODY_STATUSES[number];
+
+export const RECOGNITION_STATUSES = ['recognized', 'suspended'] as const;
+
+export type RecognitionStatus = typeof RECOGNITION_STATUSES[number];
+
+export interface RecognitionAuthority {
+  code: string;
+  name: string;
+  market: string; // Export market whose imports the authority controls
+  standards: string[]; // Certification standards whose analyses target this market by default
+}
+
+export const RECOGNITION_AUTHORITIES: RecognitionAuthority[] = [
+  { code: 'JAKIM', name: 'JAKIM (Department of Islamic Development Malaysia)', market: 'Malaysia', standards: ['JAKIM'] },
+  { code: 'BPJPH', name: 'BPJPH (Halal Product Assurance Organizing Agency)', market: 'Indonesia', standards: ['MUI'] },
+  { code: 'GAC', name: 'GCC Accreditation Center', market: 'Gulf Cooperation Council', standards: ['GSO_993'] },
+  { code: 'MOIAT', name: 'UAE Ministry of Industry and Advanced Technology', market: 'United Arab Emirates', standards: [] },
+  { code: 'SFDA', name: 'Saudi Food and Drug Authority', market: 'Saudi Arabia', standards: [] },
+  { code: 'MUIS', name: 'Majlis Ugama Islam Singapura', market: 'Singapore', standards: [] }
+];
+
+export interface CertificationBodyRecognition {
+  authority: string; // RecognitionAuthority code
+  status: RecognitionStatus;
+  validUntil?: string; // YYYY-MM-DD; recognition lapses after this date
+  reference: string; // Listing or decree the recognition was published in
+  current: boolean; // Recognized today: status, validity and the body's own status
+  updatedAt: Date;
+}
+
+export interface CertificationBody {
+  id: string;
+  name: string;
+  aliases: string[]; // Other names the body's certificates are issued under
+  country: string;
+  standards: string[]; // Standards the body certifies against
+  accreditation: string; // E.g. accreditation body and scheme, "DAkkS ISO/IEC 17065"
+  logoUrl?: string;
+  website?: string;
+  status: CertificationBodyStatus;
+  recognitions: CertificationBodyRecognition[];
+  version: number;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RecognitionRequest {
+  authority: string;
+  status?: RecognitionStatus;
+  validUntil?: string | null;
+  reference?: string;
+}
+
+export interface CreateCertificationBodyRequest {
+  name: string;
+  aliases?: string[];
+  country?: string;
+  standards?: string[];
+  accreditation?: string;
+  logoUrl?: string | null;
+  website?: string | null;
+  status?: CertificationBodyStatus;
+  recognitions?: RecognitionRequest[]; // Replaces the body's recognitions when given
+}
+
+export interface UpdateCertificationBodyRequest extends Partial<CreateCertificationBodyRequest> {
+  version: number; // The version the changes are based on
+}
+
+export type CertificationBodyImportFormat = 'csv' | 'json';
+
+export interface CertificationBodyImportResult {
+  created: number;
+  updated: number;
+  bodies: CertificationBody[];
+}
+
+/**
+ * Whether an authority recognizes the issuer of a certificate, as checked
+ * for the analysis' export market
+ */
+export interface IssuerRecognition {
+  authority: string;
+  market: string;
+  recognized: boolean;
+  certificationBodyId?: string; // Directory entry the issuer was matched to
+}
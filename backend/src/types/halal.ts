@@ -5,6 +5,8 @@
  * Any changes must be reviewed by Islamic scholars and certified halal experts.
  */
 
+import { IssuerRecognition } from './certificationBodies';
+
 export enum HalalStatus {
   HALAL = 'HALAL',
   HARAM = 'HARAM',
@@ -36,7 +38,8 @@ export enum CertificationStandard {
   HQC = 'HQC', // Netherlands
   HIC = 'HIC', // Netherlands
   ISWA = 'ISWA', // UK
-  CUSTOM = 'CUSTOM'
+  GSO_993 = 'GSO_993', // Gulf Cooperation Council
+  CUSTOM = 'CUSTOM' // Defined by a certification body
 }
 
 export enum RiskLevel {
@@ -47,6 +50,36 @@ export enum RiskLevel {
   VERY_HIGH = 'VERY_HIGH' // 70%+
 }
 
+export type Madhab = 'Hanafi' | 'Maliki' | 'Shafi' | 'Hanbali';
+
+export const MADHABS: Madhab[] = ['Hanafi', 'Maliki', 'Shafi', 'Hanbali'];
+
+export interface IslamicReference {
+  source: 'Quran' | 'Hadith' | 'Scholarly_Consensus' | 'Contemporary_Fatwa';
+  reference: string;
+  arabic?: string;
+  transliteration?: string;
+  translation: string;
+  school?: Madhab | 'General';
+}
+
+export interface MadhabRuling {
+  madhab: Madhab;
+  ruling: 'HALAL' | 'HARAM' | 'MASHBOOH';
+  confidence: number; // 0-100
+  reasoning: string;
+  references: IslamicReference[];
+  scholars?: string[];
+}
+
+export interface ConsensusAnalysis {
+  ingredient: string;
+  consensusLevel: 'unanimous' | 'majority' | 'divided' | 'unclear';
+  madhabRulings: MadhabRuling[];
+  recommendedApproach: string;
+  alternativeOpinions?: string[];
+}
+
 export interface IngredientSource {
   name: string;
   type: 'ANIMAL' | 'PLANT' | 'SYNTHETIC' | 'MINERAL' | 'MICROBIAL';
@@ -65,6 +98,12 @@ export interface RegionalVariation {
   reviewedBy: string;
 }
 
+export type VariationRegion = RegionalVariation['region'];
+
+export interface ResolvedRegionalVariation extends RegionalVariation {
+  matchedOn: 'COUNTRY' | 'EU'; // Step of the country -> EU fallback chain that matched
+}
+
 export interface Ingredient {
   id: string;
   name: string;
@@ -139,10 +178,51 @@ export interface AnalysisRequest {
   language: string;
   region: string;
   certificationStandard: string;
+  customRuleSetId?: string; // Required when certificationStandard is CUSTOM
+  compareStandards?: string[]; // Additional standards to report verdicts for
+  exportMarket?: string; // Recognition authority of the export market; defaults from certificationStandard
+  madhab?: Madhab; // Falls back to the organization's madhab setting
   userId: string;
   organizationId: string;
 }
 
+export interface IngredientMatch {
+  ingredient: Ingredient;
+  matchedTerm: string;
+  language?: string;
+  confidence: number; // 0-1
+}
+
+export interface ParsedIngredient {
+  name: string;
+  percentage?: number;
+  functionalClass?: string; // Declared class such as 'emulsifier' in "emulsifier (E471)"
+  children: ParsedIngredient[];
+}
+
+export interface IngredientTaint {
+  path: string[]; // Names from this ingredient down to the offending sub-ingredient
+  status: HalalStatus;
+}
+
+/**
+ * A registered supplier's halal certificate covering the raw material an
+ * ingredient resolved to
+ */
+export interface SupplierEvidence {
+  supplierId: string;
+  supplierName: string;
+  materialId: string;
+  materialName: string;
+  certificateId: string;
+  certificateNumber: string;
+  issuer: string;
+  certificationBodyId?: string; // Directory entry the certificate was issued by
+  validUntil: string; // YYYY-MM-DD
+  coveredBy?: string; // Compound the certificate was registered for, when this is one of its sub-ingredients
+  issuerRecognition?: IssuerRecognition; // Whether the export market's authority accepts the issuer
+}
+
 export interface IngredientAnalysis {
   detectedName: string;
   standardName: string;
@@ -156,6 +236,19 @@ export interface IngredientAnalysis {
   source: 'database' | 'ai' | 'fallback';
   eNumbers: string[];
   categories: string[];
+  consensus?: ConsensusAnalysis; // Scholarly positions across the four madhabs
+  appliedRules?: AppliedStandardRule[]; // Certification-standard rules that changed or flagged this result
+  regionalVariation?: ResolvedRegionalVariation; // Regional ruling that replaced the ingredient's default status
+
+  // Position in the compound ingredient tree, e.g. '2.1' is the first sub-ingredient of the second ingredient
+  nodeId?: string;
+  parentId?: string;
+  path?: string[]; // Names from the top-level ingredient down to this one
+  percentage?: number;
+  functionalClass?: string;
+  taintedBy?: IngredientTaint[]; // Sub-ingredients that worsened this compound's status
+  synonymMatch?: { term: string; language: string; confidence: number }; // Label term resolved to standardName
+  supplierEvidence?: SupplierEvidence[]; // Supplier certificates that resolved a doubtful status, one per registered supplier
 }
 
 export interface ProductAnalysis {
@@ -165,6 +258,8 @@ export interface ProductAnalysis {
   language: string;
   region: string;
   certificationStandard: string;
+  customRuleSetId?: string;
+  madhab?: Madhab; // School the verdict follows; unset means no madhab preference
   
   // Overall assessment
   overallStatus: HalalStatus;
@@ -191,6 +286,12 @@ export interface ProductAnalysis {
   recommendations: string[];
   expertReviewRequired: boolean;
   
+  // Verdicts under other certification standards (when requested)
+  standardVerdicts?: StandardVerdict[];
+  
+  // Inputs that produced the verdict, pinned for replay
+  provenance?: AnalysisProvenance;
+  
   // Metadata
   userId: string;
   organizationId: string;
@@ -221,6 +322,273 @@ export interface CertificationReport {
   createdAt: Date;
 }
 
+/**
+ * Certification-standard rules
+ *
+ * A rule fires when every condition that is set matches. Within a single
+ * condition any listed value matches; for keywordGroups each group must match.
+ * Keywords match at the start of a word in the ingredient name, E-numbers or categories,
+ * or in the names of the compounds it is a sub-ingredient of; at least one
+ * keyword group has to match the ingredient itself.
+ */
+export interface StandardRuleCondition {
+  eNumbers?: string[];
+  keywordGroups?: string[][];
+  excludeKeywords?: string[]; // Rule does not fire when any of these match
+  categories?: string[];
+  statuses?: HalalStatus[];
+  abovePercentage?: number; // Rule fires only when the ingredient's declared percentage exceeds this
+}
+
+export interface StandardRuleOutcome {
+  status?: HalalStatus;
+  riskLevel?: RiskLevel;
+  requiresExpertReview?: boolean;
+  warning?: string;
+  suggestion?: string;
+}
+
+export interface StandardRule {
+  id: string;
+  description: string;
+  reference?: string; // Clause or fatwa the rule is based on
+  when: StandardRuleCondition;
+  then: StandardRuleOutcome;
+}
+
+export interface CertificationRuleSet {
+  id?: string; // Set for custom rule sets stored per organization
+  standard: string;
+  name: string;
+  version: string;
+  extends?: string; // Built-in standard whose rules run first
+  rules: StandardRule[];
+}
+
+export interface AppliedStandardRule {
+  ruleId: string;
+  standard: string;
+  description: string;
+  reference?: string;
+  previousStatus: HalalStatus;
+  resultingStatus: HalalStatus;
+}
+
+export interface StandardVerdict {
+  standard: string;
+  overallStatus: HalalStatus;
+  passes: boolean;
+  firedRules: AppliedStandardRule[];
+}
+
+/**
+ * Knowledge-base change review
+ *
+ * A classification change proposed by one scholar takes effect only after a
+ * second reviewer approves it. Each approval creates a new ingredient version
+ * and flags stored analyses that used the ingredient.
+ */
+export enum ChangeProposalStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED'
+}
+
+export interface IngredientChangeSet {
+  defaultStatus?: HalalStatus;
+  riskLevel?: RiskLevel;
+  requiresExpertReview?: boolean;
+  expertReviewReason?: string;
+  description?: string;
+  alternativeNames?: string[];
+  requiresCertificate?: boolean;
+  certificateTypes?: string[];
+  islamicRulings?: string[];
+  sourcesReferences?: string[];
+}
+
+export interface IngredientChangeProposal {
+  id: string;
+  ingredientId: string;
+  ingredientName?: string;
+  baseVersion: number;
+  changes: IngredientChangeSet;
+  previousValues: IngredientChangeSet;
+  rationale: string;
+  references: string[];
+  status: ChangeProposalStatus;
+  proposedBy: string;
+  reviewedBy?: string;
+  reviewNotes?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+}
+
+export interface IngredientVersion {
+  ingredientId: string;
+  version: number;
+  snapshot: Record<string, unknown>;
+  changeProposalId?: string;
+  approvedBy?: string;
+  createdAt: Date;
+}
+
+export type ReevaluationFlagStatus = 'OPEN' | 'REANALYZED' | 'DISMISSED';
+
+export interface AnalysisReevaluationFlag {
+  id: string;
+  productAnalysisId: string;
+  productName?: string;
+  organizationId: string;
+  ingredientId: string;
+  ingredientName?: string;
+  changeProposalId: string;
+  previousOverallStatus: HalalStatus;
+  previousIngredientStatus: HalalStatus;
+  newIngredientStatus: HalalStatus;
+  status: ReevaluationFlagStatus;
+  reanalysisId?: string;
+  reanalysisStatus?: HalalStatus;
+  verdictChanged?: boolean; // Set once re-analyzed
+  resolvedBy?: string;
+  resolutionNotes?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Analysis provenance
+ *
+ * Manifest of everything that produced a verdict: the parsed ingredient
+ * tree, the knowledge-base version of each matched ingredient, the provider,
+ * model and prompt hash, and the rule sets and regional rulings applied.
+ * Replaying the manifest reproduces the stored verdict.
+ */
+export const PROVENANCE_MANIFEST_VERSION = 1;
+
+export interface KnowledgeBasePin {
+  ingredientId: string;
+  version: number;
+  lookupName: string; // Name the ingredient was found under (canonical name for synonym matches)
+  synonymMatch?: { term: string; language: string; confidence: number };
+}
+
+export interface PinnedIngredient {
+  name: string;
+  nodeId: string;
+  parentId?: string;
+  path: string[];
+  percentage?: number;
+  functionalClass?: string;
+  hasChildren: boolean;
+  source: IngredientAnalysis['source'];
+  knowledgeBase?: KnowledgeBasePin; // Set for database matches
+  regionalVariation?: ResolvedRegionalVariation;
+  classification?: IngredientAnalysis; // Provider or fallback result, kept as-is since it cannot be re-derived
+  supplierEvidence?: SupplierEvidence[]; // Supplier certificates valid at analysis time
+}
+
+export interface AnalysisProvenance {
+  manifestVersion: number;
+  provider: {
+    name: string;
+    model: string;
+    promptHash: string; // SHA-256 of the prompts sent for this analysis context
+  };
+  ingredients: PinnedIngredient[];
+  ruleSet?: CertificationRuleSet;
+  comparisonRuleSets: CertificationRuleSet[];
+  exportMarket?: string; // Authority supplier certificate issuers were checked against
+  createdAt: Date;
+}
+
+export interface IngredientVerdictChange {
+  nodeId: string;
+  name: string;
+  field: 'status' | 'riskLevel' | 'requiresExpertReview' | 'source' | 'knowledgeBaseVersion';
+  before: unknown;
+  after: unknown;
+}
+
+export interface AnalysisDiff {
+  changed: boolean;
+  overallStatus?: { before: HalalStatus; after: HalalStatus };
+  overallRiskLevel?: { before: RiskLevel; after: RiskLevel };
+  expertReviewRequired?: { before: boolean; after: boolean };
+  standardVerdicts: { standard: string; before?: HalalStatus; after?: HalalStatus }[];
+  ingredients: IngredientVerdictChange[];
+}
+
+/**
+ * Background analysis jobs
+ *
+ * Bulk uploads are queued as a job with one item per product or label image.
+ * Items are processed by the in-process worker with retries, and progress is
+ * streamed to the dashboard while the job runs.
+ */
+export type AnalysisJobType = 'INGREDIENT_ANALYSIS' | 'LABEL_OCR';
+
+export type AnalysisJobStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export type AnalysisJobItemStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface AnalysisJobOptions {
+  language?: string;
+  region?: string;
+  certificationStandard?: string;
+  customRuleSetId?: string;
+  compareStandards?: string[];
+  madhab?: Madhab;
+  exportMarket?: string;
+}
+
+export interface ProductAnalysisJobInput {
+  productName: string;
+  ingredientText: string;
+}
+
+export interface LabelOcrJobInput {
+  filePath: string;
+  filename: string;
+  originalName: string;
+}
+
+export interface AnalysisJobItem {
+  id: string;
+  jobId: string;
+  index: number;
+  label: string; // Product name or original file name
+  status: AnalysisJobItemStatus;
+  attempts: number;
+  result?: Record<string, unknown>;
+  error?: string;
+  productAnalysisId?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export interface AnalysisJob {
+  id: string;
+  organizationId: string;
+  userId: string;
+  type: AnalysisJobType;
+  status: AnalysisJobStatus;
+  options: AnalysisJobOptions;
+  totalItems: number;
+  completedItems: number;
+  failedItems: number;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  items?: AnalysisJobItem[];
+}
+
+export interface AnalysisJobEvent {
+  type: 'item' | 'job';
+  job: AnalysisJob;
+  item?: AnalysisJobItem;
+}
+
 // Validation schemas using Zod will be in separate file
 export interface ValidationError {
   field: string;
@@ -6,6 +6,14 @@
 
 export * from './auth'
 export * from './halal'
+export * from './webhooks'
+export * from './reports'
+export * from './certificates'
+export * from './signing'
+export * from './workflows'
+export * from './pipeline'
+export * from './suppliers'
+export * from './certificationBodies'
 
 // Additional subscription plan details interface
 export interface SubscriptionPlanDetails {
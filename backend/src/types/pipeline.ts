@@ -0,0 +1,266 @@
+/**
+ * HalalCheck EU - Pipeline Types
+ *
+ * The applications pipeline an organization's reviewers share: applications
+ * moving through the organization type's stages and custom columns, their
+ * supporting documents checked against the organization's checklist, and the
+ * certificates issued when an application reaches the final stage. Records
+ * carry a version; updates name the version they were based on and are
+ * refused when someone else changed the record in the meantime.
+ */
+
+export const PIPELINE_ORGANIZATION_TYPES = ['certification-body', 'food-manufacturer'] as const;
+
+export type PipelineOrganizationType = typeof PIPELINE_ORGANIZATION_TYPES[number];
+
+export const PIPELINE_PRIORITIES = ['high', 'normal', 'low'] as const;
+
+export type PipelinePriority = typeof PIPELINE_PRIORITIES[number];
+
+export const PIPELINE_CERTIFICATE_STATUSES = ['active', 'expired', 'suspended', 'revoked', 'pending'] as const;
+
+export type PipelineCertificateStatus = typeof PIPELINE_CERTIFICATE_STATUSES[number];
+
+export const PIPELINE_CERTIFICATE_TYPES = ['standard', 'premium', 'export'] as const;
+
+export type PipelineCertificateType = typeof PIPELINE_CERTIFICATE_TYPES[number];
+
+export interface PipelineApplication {
+  id: string;
+  organizationId: string;
+  organizationType: PipelineOrganizationType;
+  clientName: string;
+  company: string;
+  productName: string;
+  email: string;
+  phone: string;
+  submittedDate: Date;
+  status: string; // Pipeline stage ID
+  priority: PipelinePriority;
+  documents: string[];
+  analysisResult?: unknown;
+  notes: string;
+  version: number;
+  createdBy?: string;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePipelineApplicationRequest {
+  id?: string; // Client-generated UUID
+  organizationType?: PipelineOrganizationType;
+  clientName: string;
+  company: string;
+  productName: string;
+  email?: string;
+  phone?: string;
+  submittedDate?: string;
+  status?: string;
+  priority?: PipelinePriority;
+  documents?: string[];
+  analysisResult?: unknown;
+  notes?: string;
+}
+
+export interface UpdatePipelineApplicationRequest {
+  version: number; // The version the changes are based on
+  clientName?: string;
+  company?: string;
+  productName?: string;
+  email?: string;
+  phone?: string;
+  status?: string;
+  priority?: PipelinePriority;
+  documents?: string[];
+  analysisResult?: unknown;
+  notes?: string;
+}
+
+export interface PipelineApplicationUpdate {
+  application: PipelineApplication;
+  certificate?: PipelineCertificate; // Issued because the application reached the final stage
+}
+
+export interface PipelineCertificate {
+  id: string;
+  organizationId: string;
+  applicationId?: string;
+  certificateNumber: string;
+  clientName: string;
+  company: string;
+  productName: string;
+  email: string;
+  phone: string;
+  issuedDate: Date;
+  expiryDate: Date;
+  status: PipelineCertificateStatus;
+  certificateType: PipelineCertificateType;
+  analysisResult: unknown;
+  notes: string;
+  pdfUrl?: string;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UpdatePipelineCertificateRequest {
+  version: number;
+  status?: PipelineCertificateStatus;
+  expiryDate?: string;
+  notes?: string;
+  pdfUrl?: string;
+}
+
+export interface PipelineColumn {
+  id: string;
+  title: string;
+}
+
+export interface PipelineColumnConfig {
+  columns: PipelineColumn[];
+  version: number; // 0 until the organization saves columns
+  updatedBy?: string;
+  updatedAt?: Date;
+}
+
+export interface PipelineApplicationFilter {
+  organizationType?: PipelineOrganizationType;
+  status?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const PIPELINE_EVENT_TYPES = [
+  'application-saved',
+  'application-deleted',
+  'document-saved',
+  'document-deleted',
+  'certificate-saved',
+  'certificate-deleted',
+  'columns-saved',
+  'presence'
+] as const;
+
+export type PipelineEventType = typeof PIPELINE_EVENT_TYPES[number];
+
+export interface PipelineViewer {
+  userId: string;
+  name: string;
+}
+
+/**
+ * Pushed to the organization's connected members after a change is committed
+ */
+export interface PipelineEvent {
+  type: PipelineEventType;
+  userId?: string; // Who made the change
+  application?: PipelineApplication;
+  changes?: string[]; // Application fields the change touched, e.g. status, notes, documents
+  applicationId?: string;
+  document?: PipelineDocument;
+  documentId?: string;
+  certificate?: PipelineCertificate;
+  certificateId?: string;
+  columns?: PipelineColumnConfig;
+  viewers?: PipelineViewer[]; // Members who have the application open (presence)
+}
+
+export const DOCUMENT_CATEGORIES = ['supplier-certificate', 'specification', 'flowchart', 'other'] as const;
+
+export type DocumentCategory = typeof DOCUMENT_CATEGORIES[number];
+
+export interface DocumentChecklistItem {
+  key: string; // Stable ID documents are matched to, e.g. supplier-halal-certificates
+  title: string;
+  description: string;
+  category: DocumentCategory;
+  required: boolean;
+  tracksExpiry: boolean; // Expiry dates of matched documents are tracked
+}
+
+export interface DocumentChecklist {
+  items: DocumentChecklistItem[];
+  version: number; // 0 while the built-in checklist applies
+  updatedBy?: string;
+  updatedAt?: Date;
+}
+
+export const DOCUMENT_PROCESSING_STATUSES = ['pending', 'processing', 'processed', 'failed'] as const;
+
+export type DocumentProcessingStatus = typeof DOCUMENT_PROCESSING_STATUSES[number];
+
+export type DocumentMatch = 'upload' | 'extraction' | 'manual';
+
+export interface PipelineDocument {
+  id: string;
+  organizationId: string;
+  applicationId: string;
+  checklistItem?: string;
+  matchedBy?: DocumentMatch;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  processingStatus: DocumentProcessingStatus;
+  processingAttempts: number;
+  processingError?: string;
+  extractedData?: ExtractedDocumentData;
+  certificateNumber?: string;
+  certificateIssuer?: string;
+  expiryDate?: string; // YYYY-MM-DD
+  uploadedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * What the document processing agent extracted from a file
+ */
+export interface ExtractedDocumentData {
+  ingredients?: string[];
+  certificates?: Array<{
+    type: string;
+    issuer: string;
+    validUntil?: string;
+    certificateNumber?: string;
+  }>;
+  metadata?: Record<string, unknown>;
+}
+
+export interface DocumentExtractionResult {
+  success: boolean;
+  extractedData?: ExtractedDocumentData;
+  confidence?: number;
+  error?: string;
+}
+
+export interface UpdatePipelineDocumentRequest {
+  checklistItem?: string | null;
+  expiryDate?: string | null;
+  certificateNumber?: string | null;
+  certificateIssuer?: string | null;
+}
+
+export type ChecklistItemState = 'missing' | 'processing' | 'complete' | 'expiry-unknown' | 'expiring' | 'expired';
+
+export interface ChecklistItemStatus {
+  item: DocumentChecklistItem;
+  state: ChecklistItemState;
+  expiryDate?: string; // Earliest expiry among the item's documents
+  documents: PipelineDocument[];
+}
+
+export interface ApplicationChecklist {
+  applicationId: string;
+  complete: boolean; // Every required item has a document that has not expired
+  items: ChecklistItemStatus[];
+  unmatched: PipelineDocument[]; // Documents not matched to an item of the checklist
+}
+
+export interface ExpiringDocument extends PipelineDocument {
+  productName: string;
+  company: string;
+  clientName: string;
+  applicationStatus: string;
+  daysRemaining: number; // Negative once expired
+}
@@ -0,0 +1,146 @@
+/**
+ * HalalCheck EU - Report Types
+ *
+ * Reports are built once as a format-neutral document (sections of fields,
+ * lists and tables) and then rendered to PDF, Excel or JSON on the server,
+ * so every client receives the same output for the same analysis.
+ */
+
+import { HalalStatus, RiskLevel } from './halal';
+import { DocumentSignature } from './signing';
+
+export enum ReportType {
+  EXECUTIVE_SUMMARY = 'EXECUTIVE_SUMMARY',
+  DETAILED_ANALYSIS = 'DETAILED_ANALYSIS',
+  CERTIFICATION_READY = 'CERTIFICATION_READY',
+  COMPLIANCE_DASHBOARD = 'COMPLIANCE_DASHBOARD'
+}
+
+export enum ReportFormat {
+  PDF = 'PDF',
+  EXCEL = 'EXCEL',
+  JSON = 'JSON'
+}
+
+export interface ReportBranding {
+  logoUrl?: string; // data: URL or public HTTPS URL of a PNG or JPEG
+  companyName?: string;
+  colors?: {
+    primary: string; // #RRGGBB
+    secondary: string;
+  };
+}
+
+export interface ReportRequest {
+  analysisId: string;
+  type: ReportType;
+  format: ReportFormat;
+  language: string;
+  includeBranding?: boolean;
+  customBranding?: ReportBranding;
+  userId: string;
+  organizationId: string;
+}
+
+export interface ReportMetadata {
+  id: string;
+  title: string;
+  generatedAt: Date;
+  generatedBy: string;
+  organization: string;
+  language: string;
+  version: string;
+  pages?: number;
+  fileSize?: number;
+}
+
+export interface ReportField {
+  label: string;
+  value: string;
+  status?: HalalStatus; // Renders the value in the status colour
+}
+
+export type ReportBlock =
+  | { kind: 'fields'; fields: ReportField[] }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'table'; columns: string[]; rows: string[][]; statusColumn?: number };
+
+export interface ReportSection {
+  title: string;
+  blocks: ReportBlock[];
+}
+
+export interface ReportIngredient {
+  name: string;
+  status: HalalStatus;
+  riskLevel: RiskLevel;
+  fields: ReportField[]; // Reasoning, warnings, suggestions and other detail rows
+}
+
+/**
+ * Branding after defaults are applied and the logo is loaded
+ */
+export interface ResolvedReportBranding {
+  companyName: string;
+  primaryColor: string;
+  secondaryColor: string;
+  logo?: { data: Buffer; extension: 'png' | 'jpeg' };
+}
+
+export interface ReportDocument {
+  metadata: ReportMetadata;
+  type: ReportType;
+  productName: string;
+  overallStatus: HalalStatus;
+  branding: ResolvedReportBranding;
+  sections: ReportSection[];
+  ingredients: ReportIngredient[];
+  disclaimers: { title: string; items: string[] };
+  labels: ReportLabels;
+}
+
+export interface ReportLabels {
+  summary: string;
+  generatedAt: string;
+  generatedBy: string;
+  organization: string;
+  reportId: string;
+  page: string;
+  of: string;
+}
+
+export interface RenderedReport {
+  buffer: Buffer;
+  contentType: string;
+  fileName: string;
+  metadata: ReportMetadata;
+}
+
+/**
+ * A generated report kept in object storage until its retention ends
+ */
+export interface StoredReport {
+  id: string;
+  analysisId: string;
+  organizationId: string;
+  type: ReportType;
+  format: ReportFormat;
+  language: string;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  downloadCount: number;
+  generatedAt: Date;
+  expiresAt: Date; // Retention end; the file and its links stop working after this
+  signature?: DocumentSignature; // Of the stored file, verifiable against the organization's JWKS
+}
+
+export interface ReportDownloadLink {
+  url: string;
+  expiresAt: Date;
+}
+
+export interface ReportDownload {
+  report: StoredReport;
+  buffer: Buffer;
+}
@@ -0,0 +1,62 @@
+/**
+ * HalalCheck EU - Document Signing Types
+ *
+ * Certificates and reports are signed with the issuing organization's own
+ * Ed25519 key. The signature covers the SHA-256 digest of the document bytes,
+ * so anyone holding the document and the organization's published key set
+ * can check that it has not been altered.
+ */
+
+export const SIGNATURE_ALGORITHM = 'EdDSA';
+
+export type SignatureAlgorithm = typeof SIGNATURE_ALGORITHM;
+
+// Retired keys no longer sign but stay published so older documents verify
+export type SigningKeyStatus = 'ACTIVE' | 'RETIRED';
+
+export interface SigningKey {
+  id: string; // Key ID ("kid") referenced by signatures
+  organizationId: string;
+  algorithm: SignatureAlgorithm;
+  publicKey: string; // SPKI PEM
+  status: SigningKeyStatus;
+  createdAt: Date;
+  retiredAt?: Date;
+}
+
+export interface DocumentSignature {
+  algorithm: SignatureAlgorithm;
+  keyId: string;
+  hash: string; // SHA-256 of the document, hex
+  signature: string; // Ed25519 signature of the raw digest, base64url
+  signedAt: Date;
+}
+
+/**
+ * Public key in JSON Web Key form (RFC 8037 OKP key)
+ */
+export interface SigningJsonWebKey {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  x: string;
+  kid: string;
+  alg: SignatureAlgorithm;
+  use: 'sig';
+}
+
+export interface SigningJsonWebKeySet {
+  keys: SigningJsonWebKey[];
+}
+
+/**
+ * Result of checking a presented document against a stored signature
+ */
+export interface DocumentVerification {
+  signed: boolean;
+  hash: string; // SHA-256 of the presented document
+  hashMatches: boolean; // Same bytes as the signed document
+  signatureValid: boolean; // Stored signature checks out against the published key
+  keyId?: string;
+  signedAt?: Date;
+  jwksUrl?: string;
+}
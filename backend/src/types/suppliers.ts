@@ -0,0 +1,113 @@
+/**
+ * HalalCheck EU - Supplier Registry Types
+ *
+ * The suppliers an organization buys raw materials from, the materials each
+ * one supplies (linked to the ingredient knowledge base where possible) and
+ * the supplier's halal certificates with the materials they cover. Suppliers
+ * carry a version; updates name the version they were based on and are
+ * refused when someone else changed the supplier in the meantime.
+ */
+
+export const SUPPLIER_CERTIFICATE_STATUSES = ['active', 'suspended', 'withdrawn'] as const;
+
+export type SupplierCertificateStatus = typeof SUPPLIER_CERTIFICATE_STATUSES[number];
+
+// Derived from the status and validity dates
+export type SupplierCertificateValidity = 'valid' | 'not-yet-valid' | 'expired' | 'suspended' | 'withdrawn';
+
+export interface SupplierMaterial {
+  id: string;
+  supplierId: string;
+  name: string;
+  productCode?: string; // The supplier's article number
+  ingredientId?: string; // Knowledge-base ingredient the material is
+  ingredientName?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SupplierCertificate {
+  id: string;
+  supplierId: string;
+  issuer: string;
+  certificationBodyId?: string; // Directory entry of the issuer
+  certificateNumber: string;
+  validFrom?: string; // YYYY-MM-DD
+  validUntil: string; // YYYY-MM-DD
+  scope: string; // As printed on the certificate
+  materialIds: string[]; // Registered materials the certificate covers
+  status: SupplierCertificateStatus;
+  validity: SupplierCertificateValidity;
+  documentId?: string; // Pipeline document the certificate was uploaded as
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Supplier {
+  id: string;
+  organizationId: string;
+  name: string;
+  country: string;
+  contactName: string;
+  contactEmail: string;
+  notes: string;
+  active: boolean; // Materials of inactive suppliers are not used as evidence
+  materials: SupplierMaterial[];
+  certificates: SupplierCertificate[];
+  version: number;
+  createdBy?: string;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSupplierRequest {
+  name: string;
+  country?: string;
+  contactName?: string;
+  contactEmail?: string;
+  notes?: string;
+  active?: boolean;
+}
+
+export interface UpdateSupplierRequest extends Partial<CreateSupplierRequest> {
+  version: number; // The version the changes are based on
+}
+
+export interface SupplierMaterialRequest {
+  name: string;
+  productCode?: string;
+  ingredientId?: string | null;
+}
+
+export interface SupplierCertificateRequest {
+  issuer: string;
+  certificationBodyId?: string | null;
+  certificateNumber: string;
+  validFrom?: string | null;
+  validUntil: string;
+  scope?: string;
+  materialIds?: string[];
+  status?: SupplierCertificateStatus;
+  documentId?: string | null;
+}
+
+/**
+ * Knowledge-base ingredient a material can be linked to
+ */
+export interface SupplierIngredientOption {
+  id: string;
+  name: string;
+  eNumber?: string;
+  category: string;
+  status: string; // Default halal status
+}
+
+/**
+ * An analyzed ingredient to find registered materials for
+ */
+export interface SupplierMaterialLookup {
+  nodeId: string;
+  names: string[]; // Label and standard names
+  ingredientId?: string; // Knowledge-base match
+}
@@ -0,0 +1,84 @@
+/**
+ * HalalCheck EU - Webhook Types
+ *
+ * Outbound webhooks let an organization receive platform events on its own
+ * HTTPS endpoints. Each event is queued as one delivery per subscribed
+ * endpoint, signed with the endpoint's secret and retried with backoff until
+ * it succeeds or is moved to the dead-letter list.
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  // Emitted by the API
+  'islamic-analysis-completed',
+  'halal-status-changed',
+  'analysis-job-completed',
+  'workflow-task-decided',
+  'workflow-task-escalated',
+  // Forwarded from the agent system
+  'document-processing-completed',
+  'workflow-updated',
+  'certificate-generated'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+// Event types the agent system may publish through the ingestion endpoint
+export const AGENT_WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'islamic-analysis-completed',
+  'document-processing-completed',
+  'workflow-updated',
+  'certificate-generated'
+];
+
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERING' | 'SUCCEEDED' | 'DEAD';
+
+export interface WebhookEndpoint {
+  id: string;
+  organizationId: string;
+  url: string;
+  description?: string;
+  eventTypes: WebhookEventType[];
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Body posted to the endpoint. The event ID stays the same across retries
+ * and replays so receivers can deduplicate.
+ */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  organizationId: string;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDeliveryAttempt {
+  attempt: number;
+  statusCode?: number;
+  error?: string;
+  responseBody?: string;
+  durationMs: number;
+  attemptedAt: Date;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastStatusCode?: number;
+  lastError?: string;
+  replayOfId?: string;
+  createdAt: Date;
+  deliveredAt?: Date;
+  deadAt?: Date;
+  payload?: WebhookEvent;
+  attemptLog?: WebhookDeliveryAttempt[];
+}
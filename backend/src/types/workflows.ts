@@ -0,0 +1,147 @@
+/**
+ * HalalCheck EU - Workflow Types
+ *
+ * Executions of the agent system's orchestrated workflows. The orchestrator
+ * checkpoints each execution here after every step, holding it under a lease;
+ * executions whose process stops are picked up again by the next agent
+ * process that claims work for the organization.
+ */
+
+export const WORKFLOW_EXECUTION_STATUSES = ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED'] as const;
+
+export type WorkflowExecutionStatus = typeof WORKFLOW_EXECUTION_STATUSES[number];
+
+export interface WorkflowStepError {
+  step: string;
+  error: string;
+  timestamp: Date;
+}
+
+export interface WorkflowExecution {
+  id: string;
+  organizationId: string;
+  workflowId: string;
+  status: WorkflowExecutionStatus;
+  currentStep: string;
+  currentStepIndex: number;
+  progress: number; // 0-100
+  data: Record<string, unknown>;
+  results: Record<string, unknown>; // Step outputs by step ID
+  errors: WorkflowStepError[];
+  retryCount: Record<string, number>;
+  workerId?: string;
+  leaseExpiresAt?: Date;
+  startedAt: Date;
+  endedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWorkflowExecutionRequest {
+  id: string;
+  workflowId: string;
+  workerId: string;
+  currentStep: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Progress reported by the agent process holding an execution. PENDING
+ * releases the execution for another process to resume.
+ */
+export interface WorkflowCheckpoint {
+  workerId: string;
+  status: Exclude<WorkflowExecutionStatus, 'CANCELLED'>;
+  currentStep: string;
+  currentStepIndex: number;
+  progress: number;
+  results: Record<string, unknown>;
+  errors: WorkflowStepError[];
+  retryCount: Record<string, number>;
+}
+
+export interface WorkflowExecutionFilter {
+  status?: WorkflowExecutionStatus;
+  workflowId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Human tasks of the organization workflow agent. A task is opened when a
+ * workflow enters a manual or approval stage and is visible to users holding
+ * one of the stage's assignee roles; the decision is picked up by the agent,
+ * which advances the workflow.
+ */
+export const WORKFLOW_TASK_STATUSES = ['OPEN', 'CLAIMED', 'APPROVED', 'REJECTED', 'CANCELLED'] as const;
+
+export type WorkflowTaskStatus = typeof WORKFLOW_TASK_STATUSES[number];
+
+export type WorkflowTaskType = 'MANUAL' | 'APPROVAL';
+
+export type WorkflowTaskDecision = 'APPROVED' | 'REJECTED';
+
+export interface WorkflowTask {
+  id: string;
+  organizationId: string;
+  workflowInstanceId: string;
+  workflowId: string;
+  stageId: string;
+  type: WorkflowTaskType;
+  title: string;
+  description?: string;
+  data: Record<string, unknown>;
+  assigneeRoles: string[];
+  approveStage?: string;
+  rejectStage?: string;
+  status: WorkflowTaskStatus;
+  claimedBy?: string;
+  claimedAt?: Date;
+  decidedBy?: string;
+  decidedAt?: Date;
+  decisionReason?: string;
+  decisionAppliedAt?: Date;
+  decisionError?: string;
+  durationHours?: number;
+  dueAt?: Date;
+  escalationLevel: number;
+  escalatedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  comments?: WorkflowTaskComment[];
+}
+
+export interface WorkflowTaskComment {
+  id: string;
+  taskId: string;
+  userId?: string;
+  authorName?: string;
+  body: string;
+  createdAt: Date;
+}
+
+export interface CreateWorkflowTaskRequest {
+  workflowInstanceId: string;
+  workflowId: string;
+  stageId: string;
+  type: WorkflowTaskType;
+  title: string;
+  description?: string;
+  data?: Record<string, unknown>;
+  assigneeRoles?: string[];
+  approveStage?: string;
+  rejectStage?: string;
+  durationHours?: number; // The stage's estimated duration; overdue tasks escalate
+}
+
+export interface WorkflowTaskFilter {
+  status?: WorkflowTaskStatus;
+  scope?: 'inbox' | 'all'; // inbox: tasks routed to or claimed by the user
+  limit?: number;
+  offset?: number;
+}
+
+export interface WorkflowTaskActor {
+  id: string;
+  role: string;
+}
@@ -0,0 +1,104 @@
+/**
+ * HalalCheck EU - Bidirectional Text
+ *
+ * Minimal bidi support for rendered documents: splits a line into runs of
+ * right-to-left (Arabic) and left-to-right text and returns them in visual
+ * order. Glyph shaping and the ordering inside an RTL run are left to the
+ * font engine, which lays out Arabic runs right-to-left.
+ */
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface TextRun {
+  text: string;
+  direction: TextDirection;
+}
+
+type CharClass = 'R' | 'L' | 'N';
+
+// Arabic, Arabic Supplement, Arabic Extended-A and presentation forms; Hebrew
+const RTL_PATTERN = /[\u0590-\u05FF\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const STRONG_LTR_PATTERN = /[\p{L}\p{N}]/u;
+const OPENING_BRACKETS = '([{';
+const CLOSING_BRACKETS = ')]}';
+
+export function containsRTL(text: string): boolean {
+  return RTL_PATTERN.test(text);
+}
+
+/**
+ * Base direction of a paragraph: that of its first strong character
+ */
+export function paragraphDirection(text: string): TextDirection {
+  for (const char of text) {
+    const charClass = classify(char);
+    if (charClass !== 'N') {
+      return charClass === 'R' ? 'rtl' : 'ltr';
+    }
+  }
+  return 'ltr';
+}
+
+/**
+ * Runs of one line in left-to-right visual order. Neutral characters between
+ * runs of the same direction join them; otherwise they take the base direction.
+ * Paired brackets take the direction of the text they enclose.
+ */
+export function visualRuns(line: string, base: TextDirection): TextRun[] {
+  const chars = Array.from(line);
+  const classes = chars.map(classify);
+  const resolved: CharClass[] = classes.map((charClass, index) => {
+    if (charClass !== 'N') {
+      return charClass;
+    }
+    const before = nearestStrong(classes, index, -1);
+    const after = nearestStrong(classes, index, 1);
+    if (before && before === after) {
+      return before;
+    }
+    return base === 'rtl' ? 'R' : 'L';
+  });
+
+  const open: number[] = [];
+  chars.forEach((char, index) => {
+    if (OPENING_BRACKETS.includes(char)) {
+      open.push(index);
+    } else if (CLOSING_BRACKETS.includes(char) && open.length > 0) {
+      const start = open.pop()!;
+      const enclosed = new Set(classes.slice(start + 1, index).filter(charClass => charClass !== 'N'));
+      if (enclosed.size === 1) {
+        const [direction] = Array.from(enclosed);
+        resolved[start] = direction!;
+        resolved[index] = direction!;
+      }
+    }
+  });
+
+  const runs: TextRun[] = [];
+  chars.forEach((char, index) => {
+    const direction: TextDirection = resolved[index] === 'R' ? 'rtl' : 'ltr';
+    const last = runs[runs.length - 1];
+    if (last && last.direction === direction) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, direction });
+    }
+  });
+
+  return base === 'rtl' ? runs.reverse() : runs;
+}
+
+function classify(char: string): CharClass {
+  if (RTL_PATTERN.test(char)) return 'R';
+  if (STRONG_LTR_PATTERN.test(char)) return 'L';
+  return 'N';
+}
+
+function nearestStrong(classes: CharClass[], from: number, step: 1 | -1): CharClass | undefined {
+  for (let index = from + step; index >= 0 && index < classes.length; index += step) {
+    if (classes[index] !== 'N') {
+      return classes[index];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,32 @@
+/**
+ * HalalCheck EU - Secret Encryption
+ *
+ * AES-256-GCM for secrets the server must read back (authenticator seeds,
+ * webhook signing secrets). Values are stored as iv.tag.ciphertext in base64.
+ */
+
+import crypto from 'crypto';
+
+/**
+ * 256-bit key from a configured passphrase
+ */
+export function deriveSecretKey(passphrase: string): Buffer {
+  return crypto.createHash('sha256').update(passphrase).digest();
+}
+
+export function encryptSecret(secret: string, key: Buffer): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+}
+
+export function decryptSecret(stored: string, key: Buffer): string {
+  const [iv, tag, ciphertext] = stored.split('.').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error('Stored secret is invalid');
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
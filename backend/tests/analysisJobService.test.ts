@@ -0,0 +1,181 @@
+/**
+ * HalalCheck EU - Analysis Job Tests
+ *
+ * Unit tests for bulk analysis job validation, retries and progress events
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import {
+  AnalysisJobService,
+  JobItemProcessor,
+  MAX_ITEM_ATTEMPTS,
+  retryDelayMs
+} from '../src/services/analysisJobService'
+import { DatabaseService } from '../src/services/databaseService'
+import { databaseDouble, queryResult } from './helpers/database'
+import { AnalysisJobEvent } from '../src/types/halal'
+
+interface RecordedQuery {
+  sql: string
+  params: any[]
+}
+
+const jobRow = {
+  id: 'job-1',
+  organization_id: 'org-1',
+  user_id: 'user-1',
+  type: 'INGREDIENT_ANALYSIS',
+  status: 'RUNNING',
+  options: { language: 'en' },
+  total_items: 2,
+  completed_items: 0,
+  failed_items: 0,
+  created_at: new Date()
+}
+
+function itemRow(attempts: number) {
+  return {
+    id: 'item-1',
+    job_id: 'job-1',
+    item_index: 0,
+    label: 'Gummies',
+    input: { productName: 'Gummies', ingredientText: 'sugar, gelatin' },
+    status: 'RUNNING',
+    attempts
+  }
+}
+
+/**
+ * Database double that answers the worker's claim, item update and job recount queries
+ */
+function fakeDatabase(claimed: any | null, queries: RecordedQuery[]): DatabaseService {
+  return databaseDouble((sql, params) => {
+    queries.push({ sql, params })
+
+    if (sql.includes("SET status = 'RUNNING'")) {
+      return queryResult(claimed ? [claimed] : [])
+    }
+    if (sql.includes('UPDATE analysis_jobs j')) {
+      return queryResult([jobRow])
+    }
+    if (sql.includes('UPDATE analysis_job_items')) {
+      const failed = sql.includes('error = $3')
+      return queryResult([{ ...claimed, status: failed ? params[1] : 'COMPLETED', error: failed ? params[2] : null }])
+    }
+    return queryResult([])
+  })
+}
+
+function processor(process: JobItemProcessor['process']): Partial<Record<'INGREDIENT_ANALYSIS', JobItemProcessor>> {
+  return { INGREDIENT_ANALYSIS: { process } }
+}
+
+function itemUpdate(queries: RecordedQuery[]): RecordedQuery | undefined {
+  return queries.find(query => query.sql.includes('UPDATE analysis_job_items') && !query.sql.includes("SET status = 'RUNNING'"))
+}
+
+describe('AnalysisJobService', () => {
+  let queries: RecordedQuery[]
+
+  beforeEach(() => {
+    queries = []
+  })
+
+  describe('validateAnalysisJob', () => {
+    const service = new AnalysisJobService({} as DatabaseService)
+
+    it('should accept products with ingredient lists', () => {
+      const errors = service.validateAnalysisJob(
+        [{ productName: 'Gummies', ingredientText: 'sugar, gelatin' }],
+        { certificationStandard: 'JAKIM', compareStandards: ['MUI'], madhab: 'Hanafi' }
+      )
+
+      expect(errors).toEqual([])
+    })
+
+    it('should report each invalid item and option', () => {
+      const errors = service.validateAnalysisJob(
+        [{ productName: 'Gummies', ingredientText: ' ' }, { ingredientText: 'sugar' }],
+        { certificationStandard: 'CUSTOM', madhab: 'Other' as any }
+      )
+
+      expect(errors).toEqual([
+        'items[0].ingredientText is required',
+        'items[1].productName is required',
+        'madhab must be one of: Hanafi, Maliki, Shafi, Hanbali',
+        'customRuleSetId is required for the CUSTOM standard'
+      ])
+    })
+
+    it('should require at least one item', () => {
+      expect(service.validateAnalysisJob([], {})).toEqual(['items must be a non-empty array'])
+    })
+  })
+
+  describe('retryDelayMs', () => {
+    it('should back off exponentially', () => {
+      expect([1, 2, 3].map(retryDelayMs)).toEqual([2000, 4000, 8000])
+    })
+  })
+
+  describe('runNextItem', () => {
+    it('should return false when no item is due', async () => {
+      const service = new AnalysisJobService(fakeDatabase(null, queries))
+
+      await expect(service.runNextItem()).resolves.toBe(false)
+    })
+
+    it('should store the result and publish progress', async () => {
+      const service = new AnalysisJobService(
+        fakeDatabase(itemRow(1), queries),
+        processor(async input => ({ result: { productName: input.productName }, productAnalysisId: 'analysis-1' }))
+      )
+      const events: AnalysisJobEvent[] = []
+      const unsubscribe = service.subscribe('job-1', event => events.push(event))
+
+      await expect(service.runNextItem()).resolves.toBe(true)
+      unsubscribe()
+
+      expect(itemUpdate(queries)?.params).toEqual(['item-1', JSON.stringify({ productName: 'Gummies' }), 'analysis-1'])
+      expect(events.map(event => [event.type, event.item?.status])).toEqual([
+        ['item', 'RUNNING'],
+        ['item', 'COMPLETED']
+      ])
+    })
+
+    it('should retry transient failures with backoff', async () => {
+      const service = new AnalysisJobService(
+        fakeDatabase(itemRow(1), queries),
+        processor(async () => { throw new Error('Provider timeout') })
+      )
+
+      await service.runNextItem()
+
+      expect(itemUpdate(queries)?.params).toEqual(['item-1', 'PENDING', 'Provider timeout', retryDelayMs(1)])
+    })
+
+    it('should fail the item once attempts are exhausted', async () => {
+      const service = new AnalysisJobService(
+        fakeDatabase(itemRow(MAX_ITEM_ATTEMPTS), queries),
+        processor(async () => { throw new Error('Provider timeout') })
+      )
+
+      await service.runNextItem()
+
+      expect(itemUpdate(queries)?.params[1]).toBe('FAILED')
+    })
+
+    it('should not retry client errors', async () => {
+      const service = new AnalysisJobService(
+        fakeDatabase(itemRow(1), queries),
+        processor(async () => {
+          throw Object.assign(new Error('Custom rule set not found'), { statusCode: 404, code: 'NOT_FOUND', isOperational: true })
+        })
+      )
+
+      await service.runNextItem()
+
+      expect(itemUpdate(queries)?.params[1]).toBe('FAILED')
+    })
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * HalalCheck EU - Analysis Provenance Tests
+ *
+ * Unit tests for prompt hashing and replay diffs
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import OpenAI from 'openai'
+import { diffAnalyses } from '../src/services/analysisDiff'
+import { hashPrompts } from '../src/services/llmProvider'
+import { OpenAIProvider } from '../src/services/openaiProvider'
+import {
+  HalalStatus,
+  IngredientAnalysis,
+  PinnedIngredient,
+  ProductAnalysis,
+  PROVENANCE_MANIFEST_VERSION,
+  RiskLevel
+} from '../src/types/halal'
+
+function ingredient(nodeId: string, name: string, status: HalalStatus, riskLevel = RiskLevel.LOW): IngredientAnalysis {
+  return {
+    detectedName: name,
+    standardName: name,
+    status,
+    riskLevel,
+    confidence: 1,
+    reasoning: '',
+    requiresExpertReview: false,
+    warnings: [],
+    suggestions: [],
+    source: 'database',
+    eNumbers: [],
+    categories: [],
+    nodeId,
+    path: [name]
+  }
+}
+
+function pin(nodeId: string, name: string, version: number): PinnedIngredient {
+  return {
+    name,
+    nodeId,
+    path: [name],
+    hasChildren: false,
+    source: 'database',
+    knowledgeBase: { ingredientId: `id-${name}`, version, lookupName: name }
+  }
+}
+
+function analysis(ingredients: IngredientAnalysis[], pins: PinnedIngredient[], overrides: Partial<ProductAnalysis> = {}): ProductAnalysis {
+  return {
+    id: 'analysis-1',
+    productName: 'Gummies',
+    ingredientText: 'sugar, gelatin',
+    language: 'en',
+    region: 'EU',
+    certificationStandard: 'HFCE',
+    overallStatus: HalalStatus.HALAL,
+    overallRiskLevel: RiskLevel.LOW,
+    ingredients,
+    summary: { total_ingredients: ingredients.length, halal_count: 0, haram_count: 0, mashbooh_count: 0, uncertain_count: 0 },
+    haram_ingredients: [],
+    mashbooh_ingredients: [],
+    requires_expert_review: [],
+    recommendations: [],
+    expertReviewRequired: false,
+    provenance: {
+      manifestVersion: PROVENANCE_MANIFEST_VERSION,
+      provider: { name: 'offline', model: 'halalcheck-rules-v1', promptHash: hashPrompts() },
+      ingredients: pins,
+      comparisonRuleSets: [],
+      createdAt: new Date()
+    },
+    userId: 'user-1',
+    organizationId: 'org-1',
+    analyzedAt: new Date(),
+    processingTimeMs: 0,
+    ...overrides
+  }
+}
+
+describe('Analysis provenance', () => {
+  describe('hashPrompts', () => {
+    it('should be stable and sensitive to prompt changes', () => {
+      expect(hashPrompts('a', 'b')).toBe(hashPrompts('a', 'b'))
+      expect(hashPrompts('a', 'b')).not.toBe(hashPrompts('ab'))
+      expect(hashPrompts('a')).toMatch(/^[0-9a-f]{64}$/)
+    })
+
+    it('should change with the classification context', () => {
+      // Prompts are built locally; the client is never called
+      const provider = new OpenAIProvider({} as OpenAI)
+      const context = { language: 'en', region: 'EU', certificationStandard: 'HFCE' }
+
+      expect(hashPrompts(...provider.getPrompts(context))).toBe(hashPrompts(...provider.getPrompts({ ...context })))
+      expect(hashPrompts(...provider.getPrompts(context)))
+        .not.toBe(hashPrompts(...provider.getPrompts({ ...context, certificationStandard: 'JAKIM' })))
+    })
+  })
+
+  describe('diffAnalyses', () => {
+    it('should report no changes for identical replays', () => {
+      const before = analysis([ingredient('1', 'sugar', HalalStatus.HALAL)], [pin('1', 'sugar', 1)])
+      const after = analysis([ingredient('1', 'sugar', HalalStatus.HALAL)], [pin('1', 'sugar', 1)])
+
+      expect(diffAnalyses(before, after)).toEqual({ changed: false, standardVerdicts: [], ingredients: [] })
+    })
+
+    it('should report verdict and knowledge-base version changes per ingredient', () => {
+      const before = analysis(
+        [ingredient('1', 'sugar', HalalStatus.HALAL), ingredient('2', 'gelatin', HalalStatus.MASHBOOH, RiskLevel.MEDIUM)],
+        [pin('1', 'sugar', 1), pin('2', 'gelatin', 3)],
+        { overallStatus: HalalStatus.MASHBOOH, overallRiskLevel: RiskLevel.MEDIUM }
+      )
+      const after = analysis(
+        [ingredient('1', 'sugar', HalalStatus.HALAL), ingredient('2', 'gelatin', HalalStatus.HARAM, RiskLevel.VERY_HIGH)],
+        [pin('1', 'sugar', 1), pin('2', 'gelatin', 4)],
+        { overallStatus: HalalStatus.HARAM, overallRiskLevel: RiskLevel.HIGH }
+      )
+
+      const diff = diffAnalyses(before, after)
+
+      expect(diff.changed).toBe(true)
+      expect(diff.overallStatus).toEqual({ before: HalalStatus.MASHBOOH, after: HalalStatus.HARAM })
+      expect(diff.ingredients).toEqual([
+        { nodeId: '2', name: 'gelatin', field: 'status', before: HalalStatus.MASHBOOH, after: HalalStatus.HARAM },
+        { nodeId: '2', name: 'gelatin', field: 'riskLevel', before: RiskLevel.MEDIUM, after: RiskLevel.VERY_HIGH },
+        { nodeId: '2', name: 'gelatin', field: 'knowledgeBaseVersion', before: 3, after: 4 }
+      ])
+    })
+
+    it('should report standard verdicts that changed or disappeared', () => {
+      const verdict = (standard: string, overallStatus: HalalStatus) => ({ standard, overallStatus, passes: false, firedRules: [] })
+      const before = analysis([], [], { standardVerdicts: [verdict('JAKIM', HalalStatus.HALAL), verdict('MUI', HalalStatus.HALAL)] })
+      const after = analysis([], [], { standardVerdicts: [verdict('JAKIM', HalalStatus.MASHBOOH)] })
+
+      expect(diffAnalyses(before, after).standardVerdicts).toEqual([
+        { standard: 'JAKIM', before: HalalStatus.HALAL, after: HalalStatus.MASHBOOH },
+        { standard: 'MUI', before: HalalStatus.HALAL }
+      ])
+    })
+  })
+})
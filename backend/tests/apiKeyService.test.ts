@@ -0,0 +1,197 @@
+/**
+ * HalalCheck EU - API Key Tests
+ *
+ * Unit tests for key scoping, hashing at rest, rotation and authentication
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { ApiKeyService, API_KEY_PREFIX, hashApiKey } from '../src/services/apiKeyService'
+import { DatabaseService } from '../src/services/databaseService'
+import { databaseDouble, queryResult } from './helpers/database'
+import { PERMISSIONS, ROLE_PERMISSIONS, User, UserRole, UserStatus } from '../src/types/auth'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface KeyRow {
+  id: string
+  user_id: string
+  organization_id: string
+  name: string
+  key_prefix: string
+  key_hash: string
+  permissions: string[]
+  last_used: Date | null
+  last_used_ip: string | null
+  expires_at: Date
+  is_active: boolean
+  revoked_at: Date | null
+  rotated_from_id: string | null
+  created_at: Date
+}
+
+/**
+ * Database double holding api_keys rows and a set of users
+ */
+function fakeDatabase(keys: KeyRow[], users: Record<string, Partial<User>>): DatabaseService {
+  return databaseDouble((sql, params) => {
+    if (sql.startsWith('INSERT INTO api_keys')) {
+      const row: KeyRow = {
+        id: `key-${keys.length + 1}`,
+        user_id: params[0],
+        organization_id: params[1],
+        name: params[2],
+        key_prefix: params[3],
+        key_hash: params[4],
+        permissions: params[5],
+        last_used: null,
+        last_used_ip: null,
+        expires_at: new Date(Date.now() + Number(params[6]) * DAY_MS),
+        is_active: true,
+        revoked_at: null,
+        rotated_from_id: params[7],
+        created_at: new Date()
+      }
+      keys.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('WHERE key_hash = $1')) {
+      return queryResult(keys.filter(key => key.key_hash === params[0]))
+    }
+    if (sql.includes('SELECT * FROM api_keys WHERE id = $1')) {
+      const rows = keys.filter(key => key.id === params[0] && key.organization_id === params[1])
+      return queryResult(rows)
+    }
+    if (sql.includes('revoked_at = NOW()')) {
+      const row = keys.find(key => key.id === params[0] && !key.revoked_at)
+      if (!row) {
+        return queryResult([])
+      }
+      Object.assign(row, { is_active: false, revoked_at: new Date() })
+      return queryResult([row])
+    }
+    if (sql.includes('LEAST(expires_at')) {
+      const row = keys.find(key => key.id === params[0])!
+      const graceEnd = new Date(Date.now() + Number(params[1]) * 60 * 60 * 1000)
+      row.expires_at = graceEnd < row.expires_at ? graceEnd : row.expires_at
+      return queryResult([], 1)
+    }
+    if (sql.includes('last_used = NOW()')) {
+      const row = keys.find(key => key.id === params[0])!
+      Object.assign(row, { last_used: new Date(), last_used_ip: params[1] })
+      return queryResult([], 1)
+    }
+    return queryResult([])
+  }, {
+    findUserById: async (id: string) => users[id] || null,
+    findOrganizationById: async (id: string) => ({ id, name: 'Halal Foods BV' })
+  })
+}
+
+describe('ApiKeyService', () => {
+  let keys: KeyRow[]
+  let admin: User
+  let analyst: User
+  let service: ApiKeyService
+
+  beforeEach(() => {
+    keys = []
+    admin = {
+      id: 'admin-1',
+      status: UserStatus.ACTIVE,
+      role: UserRole.ADMIN,
+      permissions: ROLE_PERMISSIONS[UserRole.ADMIN]
+    } as User
+    analyst = {
+      id: 'analyst-1',
+      status: UserStatus.ACTIVE,
+      role: UserRole.ANALYST,
+      permissions: ROLE_PERMISSIONS[UserRole.ANALYST]
+    } as User
+    service = new ApiKeyService(fakeDatabase(keys, { 'admin-1': admin, 'analyst-1': analyst }))
+  })
+
+  it('should only grant known permissions the creator holds', () => {
+    expect(service.validateScopes([PERMISSIONS.ANALYZE_INGREDIENTS], analyst)).toEqual([])
+    expect(service.validateScopes([PERMISSIONS.MANAGE_USERS], analyst)).toHaveLength(1)
+    expect(service.validateScopes(['analyze:everything'], admin)).toEqual(['Unknown permission: analyze:everything'])
+    expect(service.validateScopes([], admin)).toEqual(['At least one permission is required'])
+  })
+
+  it('should store only a hash and return the full key once', async () => {
+    const { apiKey, key } = await service.createKey('org-1', admin, {
+      name: 'ERP integration',
+      permissions: [PERMISSIONS.ANALYZE_INGREDIENTS]
+    })
+
+    expect(key.startsWith(`${apiKey.keyPrefix}_`)).toBe(true)
+    expect(apiKey.keyPrefix.startsWith(API_KEY_PREFIX)).toBe(true)
+    expect(keys[0]!.key_hash).toBe(hashApiKey(key))
+    expect(JSON.stringify(keys[0])).not.toContain(key)
+    expect(apiKey).not.toHaveProperty('keyHash')
+    expect(apiKey.expiresAt.getTime()).toBeGreaterThan(Date.now() + 89 * DAY_MS)
+  })
+
+  it('should reject an expiry beyond the maximum', async () => {
+    await expect(service.createKey('org-1', admin, {
+      name: 'ERP integration',
+      permissions: [PERMISSIONS.ANALYZE_INGREDIENTS],
+      expiresInDays: 1000
+    })).rejects.toMatchObject({ code: 'VALIDATION_ERROR', statusCode: 400 })
+  })
+
+  it('should authenticate as the creator limited to the key scopes', async () => {
+    const { key } = await service.createKey('org-1', admin, {
+      name: 'ERP integration',
+      permissions: [PERMISSIONS.ANALYZE_INGREDIENTS]
+    })
+
+    const authentication = await service.authenticate(key, '203.0.113.7')
+
+    expect(authentication?.user.id).toBe('admin-1')
+    expect(authentication?.user.permissions).toEqual([PERMISSIONS.ANALYZE_INGREDIENTS])
+    expect(authentication?.user.organization).toMatchObject({ id: 'org-1' })
+    expect(keys[0]!.last_used_ip).toBe('203.0.113.7')
+    await expect(service.authenticate(`${key}x`)).resolves.toBeNull()
+  })
+
+  it('should drop scopes the creator no longer has', async () => {
+    const { key } = await service.createKey('org-1', admin, {
+      name: 'Reporting',
+      permissions: [PERMISSIONS.ANALYZE_INGREDIENTS, PERMISSIONS.MANAGE_USERS]
+    })
+    admin.permissions = [PERMISSIONS.ANALYZE_INGREDIENTS]
+
+    const authentication = await service.authenticate(key)
+
+    expect(authentication?.user.permissions).toEqual([PERMISSIONS.ANALYZE_INGREDIENTS])
+  })
+
+  it('should keep the old key valid only for the rotation grace period', async () => {
+    const original = await service.createKey('org-1', admin, {
+      name: 'ERP integration',
+      permissions: [PERMISSIONS.ANALYZE_INGREDIENTS]
+    })
+
+    const rotated = await service.rotateKey('org-1', original.apiKey.id, admin, { gracePeriodHours: 0 })
+
+    expect(rotated.key).not.toBe(original.key)
+    expect(rotated.apiKey.rotatedFromId).toBe(original.apiKey.id)
+    expect(rotated.apiKey.permissions).toEqual([PERMISSIONS.ANALYZE_INGREDIENTS])
+    await expect(service.authenticate(original.key)).resolves.toBeNull()
+    await expect(service.authenticate(rotated.key)).resolves.not.toBeNull()
+  })
+
+  it('should stop accepting a revoked key', async () => {
+    const { apiKey, key } = await service.createKey('org-1', admin, {
+      name: 'ERP integration',
+      permissions: [PERMISSIONS.ANALYZE_INGREDIENTS]
+    })
+
+    const revoked = await service.revokeKey('org-1', apiKey.id)
+
+    expect(revoked.isActive).toBe(false)
+    await expect(service.authenticate(key)).resolves.toBeNull()
+    await expect(service.revokeKey('org-1', apiKey.id)).rejects.toMatchObject({ code: 'API_KEY_REVOKED' })
+    await expect(service.revokeKey('org-2', apiKey.id)).rejects.toMatchObject({ code: 'API_KEY_NOT_FOUND' })
+  })
+})
@@ -0,0 +1,362 @@
+/**
+ * HalalCheck EU - Certificate Registry Tests
+ *
+ * Unit tests for certificate registration, lifecycle actions, expiry
+ * reminders, document signing and the public verification status
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { CertificateService } from '../src/services/certificateService'
+import { DatabaseService } from '../src/services/databaseService'
+import { databaseDouble, queryResult } from './helpers/database'
+import { EmailService } from '../src/services/emailService'
+import { hashDocument } from '../src/services/signingKeyService'
+import { Certificate, RegisterCertificateRequest } from '../src/types/certificates'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface Store {
+  certificates: any[]
+  events: any[]
+  reminders: any[]
+  users: any[]
+  keys: any[]
+}
+
+/**
+ * Database double keeping certificates, their history and reminders in memory
+ */
+function fakeDatabase(store: Store): DatabaseService {
+  const { certificates } = store
+  return databaseDouble((sql, params) => {
+    if (sql.includes('INSERT INTO certificate_events')) {
+      store.events.push({
+        id: `event-${store.events.length + 1}`,
+        certificate_id: params[0],
+        action: params[1],
+        from_status: params[2],
+        to_status: params[3],
+        reason: params[4],
+        details: JSON.parse(params[5]),
+        performed_by: params[6],
+        created_at: new Date()
+      })
+      return queryResult([], 1)
+    }
+    if (sql.includes('SELECT * FROM certificate_events')) {
+      const rows = store.events.filter(row => row.certificate_id === params[0])
+      return queryResult(rows)
+    }
+    if (sql.includes('FOR UPDATE')) {
+      const rows = certificates.filter(row => row.id === params[0] && row.organization_id === params[1])
+      return queryResult(rows)
+    }
+    if (sql.includes('INSERT INTO signing_keys')) {
+      const row = { id: params[0], organization_id: params[1], public_key: params[3], private_key: params[4], status: 'ACTIVE' }
+      store.keys.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('FROM signing_keys')) {
+      const rows = store.keys.filter(row => row.organization_id === (params[1] ?? params[0]) && (params[1] === undefined || row.id === params[0]))
+      return queryResult(rows)
+    }
+    if (/^UPDATE certificates\s+SET/.test(sql)) {
+      const row = certificates.find(candidate => candidate.id === params[0])
+      const names = [...sql.matchAll(/(\w+) = \$(\d+)/g)]
+      names.forEach(([, name, index]) => { row[name!] = params[Number(index) - 1] })
+      return queryResult([row])
+    }
+    if (sql.includes('AS days_before')) {
+      const now = Date.now()
+      const rows = certificates
+        .filter(row => row.status === 'ACTIVE' && row.valid_until.getTime() > now && row.valid_until.getTime() <= now + params[0] * DAY_MS)
+        .map(row => ({ ...row, days_before: [7, 30, 90].find(days => row.valid_until.getTime() <= now + days * DAY_MS) }))
+        .filter(row => !store.reminders.some(reminder =>
+          reminder.certificate_id === row.id && reminder.valid_until === row.valid_until && reminder.days_before === row.days_before
+        ))
+      return queryResult(rows)
+    }
+    if (sql.includes('INSERT INTO certificate_expiry_reminders')) {
+      const rows = (params[0] as string[]).map((id, index) => ({
+        certificate_id: id, valid_until: params[1][index], days_before: params[2][index]
+      }))
+      store.reminders.push(...rows)
+      return queryResult(rows)
+    }
+    if (sql.includes('DELETE FROM certificate_expiry_reminders')) {
+      store.reminders = store.reminders.filter(reminder => !(params[0] as string[]).includes(reminder.certificate_id))
+      return queryResult([])
+    }
+    if (sql.includes('SELECT email FROM users')) {
+      const rows = store.users.filter(user => user.organization_id === params[0])
+      return queryResult(rows)
+    }
+    if (sql.includes('INSERT INTO certificates')) {
+      if (certificates.some(row => row.id === params[0])) {
+        return queryResult([])
+      }
+      const row = {
+        id: params[0],
+        certificate_number: params[1],
+        organization_id: params[2],
+        type: params[3],
+        client_id: params[4],
+        product_name: params[5],
+        standard: params[6],
+        scope: params[7],
+        issuing_authority: params[8],
+        valid_from: params[9],
+        valid_until: params[10],
+        issued_at: params[11] || new Date(),
+        data: JSON.parse(params[12]),
+        status: 'ACTIVE',
+        created_by: params[13],
+        created_at: new Date(),
+        updated_at: new Date()
+      }
+      certificates.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('SELECT * FROM certificates WHERE id = $1')) {
+      const rows = certificates.filter(row => row.id === params[0])
+      return queryResult(rows)
+    }
+    return undefined
+  })
+}
+
+/**
+ * Email double recording reminders instead of sending them
+ */
+class RecordingEmailService extends EmailService {
+  reminders: Array<{ email: string; daysBefore: number; certificates: Certificate[] }> = []
+  failing = false
+
+  override async sendCertificateExpiryReminder(email: string, daysBefore: number, certificates: Certificate[]) {
+    if (this.failing) {
+      throw new Error('Email sending failed')
+    }
+    this.reminders.push({ email, daysBefore, certificates })
+  }
+}
+
+function registration(overrides: Partial<RegisterCertificateRequest> = {}): RegisterCertificateRequest {
+  return {
+    id: 'cert_5d1c0f3e9a7b42c8',
+    certificateNumber: 'HAL-2026-100001',
+    type: 'halal',
+    clientId: 'client-42',
+    productName: 'Gummy Bears',
+    standard: 'GSO 993:2015',
+    scope: 'Confectionery produced at the Rotterdam plant',
+    issuingAuthority: 'Halal Certification Europe',
+    validFrom: new Date(Date.now() - DAY_MS),
+    validUntil: new Date(Date.now() + 365 * DAY_MS),
+    data: { signatories: [{ name: 'Dr. Yusuf Demir' }] },
+    ...overrides
+  }
+}
+
+describe('CertificateService', () => {
+  let store: Store
+  let certificates: any[]
+  let email: RecordingEmailService
+  let service: CertificateService
+
+  beforeEach(() => {
+    store = { certificates: [], events: [], reminders: [], users: [], keys: [] }
+    certificates = store.certificates
+    email = new RecordingEmailService()
+    service = new CertificateService(fakeDatabase(store), email)
+  })
+
+  it('should verify a registered certificate without exposing client details', async () => {
+    await service.registerCertificate('org-1', 'user-1', registration())
+
+    const verification = await service.verifyCertificate('cert_5d1c0f3e9a7b42c8')
+
+    expect(verification).toMatchObject({
+      certificateNumber: 'HAL-2026-100001',
+      status: 'VALID',
+      valid: true,
+      scope: 'Confectionery produced at the Rotterdam plant',
+      issuingAuthority: 'Halal Certification Europe'
+    })
+    expect(verification).not.toHaveProperty('clientId')
+    expect(verification).not.toHaveProperty('organizationId')
+    expect(verification).not.toHaveProperty('data')
+  })
+
+  it('should report expired, suspended and revoked certificates as not valid', async () => {
+    await service.registerCertificate('org-1', 'user-1', registration({
+      validFrom: new Date(Date.now() - 400 * DAY_MS),
+      validUntil: new Date(Date.now() - DAY_MS)
+    }))
+    expect(await service.verifyCertificate('cert_5d1c0f3e9a7b42c8')).toMatchObject({ status: 'EXPIRED', valid: false })
+
+    // Revocation takes precedence over expiry
+    certificates[0].status = 'REVOKED'
+    expect(await service.verifyCertificate('cert_5d1c0f3e9a7b42c8')).toMatchObject({ status: 'REVOKED', valid: false })
+
+    certificates[0].status = 'SUSPENDED'
+    certificates[0].valid_until = new Date(Date.now() + DAY_MS)
+    expect(await service.verifyCertificate('cert_5d1c0f3e9a7b42c8')).toMatchObject({ status: 'SUSPENDED', valid: false })
+  })
+
+  it('should not find unknown or malformed certificate IDs', async () => {
+    await expect(service.verifyCertificate('cert_unknown_0000'))
+      .rejects.toMatchObject({ statusCode: 404, code: 'CERTIFICATE_NOT_FOUND' })
+    await expect(service.verifyCertificate("x' OR 1=1 --"))
+      .rejects.toMatchObject({ statusCode: 404, code: 'CERTIFICATE_NOT_FOUND' })
+  })
+
+  it('should only return full records to the issuing organization', async () => {
+    await service.registerCertificate('org-1', 'user-1', registration())
+
+    const certificate = await service.getCertificate('org-1', 'cert_5d1c0f3e9a7b42c8')
+    expect(certificate.clientId).toBe('client-42')
+    await expect(service.getCertificate('org-2', 'cert_5d1c0f3e9a7b42c8'))
+      .rejects.toMatchObject({ statusCode: 404 })
+  })
+
+  it('should reject invalid and duplicate registrations', async () => {
+    await expect(service.registerCertificate('org-1', 'user-1', registration({
+      type: 'gold' as RegisterCertificateRequest['type'],
+      validUntil: new Date(Date.now() - 2 * DAY_MS)
+    }))).rejects.toMatchObject({ statusCode: 400, code: 'VALIDATION_ERROR' })
+
+    await service.registerCertificate('org-1', 'user-1', registration())
+    await expect(service.registerCertificate('org-2', 'user-2', registration()))
+      .rejects.toMatchObject({ statusCode: 409, code: 'CERTIFICATE_EXISTS' })
+  })
+
+  describe('lifecycle', () => {
+    const id = 'cert_5d1c0f3e9a7b42c8'
+
+    beforeEach(async () => {
+      await service.registerCertificate('org-1', 'user-1', registration())
+    })
+
+    it('should suspend, reinstate and revoke with the reasons kept in the history', async () => {
+      await expect(service.suspendCertificate('org-1', 'user-2', id, ''))
+        .rejects.toMatchObject({ statusCode: 400, code: 'VALIDATION_ERROR' })
+
+      const suspended = await service.suspendCertificate('org-1', 'user-2', id, 'Audit found unapproved supplier')
+      expect(suspended).toMatchObject({ status: 'SUSPENDED', statusReason: 'Audit found unapproved supplier' })
+      expect((await service.verifyCertificate(id)).status).toBe('SUSPENDED')
+
+      expect((await service.reinstateCertificate('org-1', 'user-2', id)).status).toBe('ACTIVE')
+      expect((await service.revokeCertificate('org-1', 'user-2', id, 'Pork gelatin detected')).status).toBe('REVOKED')
+
+      const history = await service.getCertificateHistory('org-1', id)
+      expect(history.map(event => event.action)).toEqual(['ISSUED', 'SUSPENDED', 'REINSTATED', 'REVOKED'])
+      expect(history[3]).toMatchObject({ fromStatus: 'ACTIVE', toStatus: 'REVOKED', reason: 'Pork gelatin detected', performedBy: 'user-2' })
+    })
+
+    it('should not allow leaving the revoked state', async () => {
+      await service.revokeCertificate('org-1', 'user-1', id, 'Fraud')
+
+      await expect(service.reinstateCertificate('org-1', 'user-1', id))
+        .rejects.toMatchObject({ statusCode: 409, code: 'INVALID_STATUS_TRANSITION' })
+      await expect(service.renewCertificate('org-1', 'user-1', id, { validUntil: new Date(Date.now() + 800 * DAY_MS) }))
+        .rejects.toMatchObject({ statusCode: 409, code: 'INVALID_STATUS_TRANSITION' })
+    })
+
+    it('should renew into a new period from the current expiry and keep the previous period in the history', async () => {
+      const previousUntil = certificates[0].valid_until
+      const validUntil = new Date(previousUntil.getTime() + 365 * DAY_MS)
+
+      const renewed = await service.renewCertificate('org-1', 'user-1', id, { validUntil, certificateNumber: 'HAL-2027-100001' })
+
+      expect(renewed).toMatchObject({ id, validFrom: previousUntil, validUntil, certificateNumber: 'HAL-2027-100001', renewalCount: 1 })
+      const renewal = (await service.getCertificateHistory('org-1', id))[1]!
+      expect(renewal.details).toMatchObject({ previousValidUntil: previousUntil.toISOString(), previousCertificateNumber: 'HAL-2026-100001' })
+
+      await expect(service.renewCertificate('org-1', 'user-1', id, { validUntil: new Date(Date.now() + DAY_MS) }))
+        .rejects.toMatchObject({ statusCode: 400 })
+    })
+
+    it('should amend the scope and only act on the organization\'s own certificates', async () => {
+      const amended = await service.amendScope('org-1', 'user-1', id, 'Confectionery and bakery at the Rotterdam plant', 'New line')
+      expect(amended.scope).toBe('Confectionery and bakery at the Rotterdam plant')
+      expect((await service.getCertificateHistory('org-1', id))[1]!.details)
+        .toEqual({ previousScope: 'Confectionery produced at the Rotterdam plant', scope: 'Confectionery and bakery at the Rotterdam plant' })
+
+      await expect(service.suspendCertificate('org-2', 'user-9', id, 'Not mine'))
+        .rejects.toMatchObject({ statusCode: 404 })
+    })
+  })
+
+  describe('expiry reminders', () => {
+    beforeEach(() => {
+      store.users.push({ organization_id: 'org-1', email: 'certifier@example.eu' })
+    })
+
+    it('should remind once per threshold and start again after renewal', async () => {
+      await service.registerCertificate('org-1', 'user-1', registration({ validUntil: new Date(Date.now() + 20 * DAY_MS) }))
+      await service.registerCertificate('org-1', 'user-1', registration({
+        id: 'cert_a8b7c6d5e4f3a2b1',
+        validUntil: new Date(Date.now() + 200 * DAY_MS)
+      }))
+
+      expect(await service.sendExpiryReminders()).toBe(1)
+      expect(email.reminders).toHaveLength(1)
+      expect(email.reminders[0]).toMatchObject({ email: 'certifier@example.eu', daysBefore: 30 })
+      expect(email.reminders[0]!.certificates.map(certificate => certificate.id)).toEqual(['cert_5d1c0f3e9a7b42c8'])
+
+      expect(await service.sendExpiryReminders()).toBe(0)
+
+      // Five days later the 7-day threshold is due
+      certificates[0].valid_until = new Date(Date.now() + 5 * DAY_MS)
+      expect(await service.sendExpiryReminders()).toBe(1)
+      expect(email.reminders[1]!.daysBefore).toBe(7)
+    })
+
+    it('should release the claim when the email could not be sent', async () => {
+      await service.registerCertificate('org-1', 'user-1', registration({ validUntil: new Date(Date.now() + 60 * DAY_MS) }))
+      email.failing = true
+
+      expect(await service.sendExpiryReminders()).toBe(0)
+      expect(store.reminders).toHaveLength(0)
+
+      email.failing = false
+      expect(await service.sendExpiryReminders()).toBe(1)
+      expect(email.reminders[0]!.daysBefore).toBe(90)
+    })
+  })
+
+  describe('document signing', () => {
+    const id = 'cert_5d1c0f3e9a7b42c8'
+    const pdf = Buffer.from('%PDF-1.7 Gummy Bears halal certificate')
+
+    beforeEach(async () => {
+      await service.registerCertificate('org-1', 'user-1', registration())
+    })
+
+    it('should check a presented PDF against the stored signature', async () => {
+      const signed = await service.signCertificateDocument('org-1', id, hashDocument(pdf))
+      expect(signed.signature).toMatchObject({ algorithm: 'EdDSA', hash: hashDocument(pdf), keyId: store.keys[0].id })
+
+      const genuine = await service.verifyCertificateDocument(id, pdf)
+      expect(genuine).toMatchObject({ status: 'VALID', document: { signed: true, hashMatches: true, signatureValid: true } })
+      expect(genuine.document.jwksUrl).toContain('/api/signing-keys/org-1/jwks.json')
+      expect((await service.verifyCertificate(id)).signature).toMatchObject({ hash: hashDocument(pdf) })
+
+      const altered = await service.verifyCertificateDocument(id, Buffer.from('%PDF-1.7 Gummy Bears halal certificate, valid until 2099'))
+      expect(altered.document).toMatchObject({ signed: true, hashMatches: false, signatureValid: true })
+    })
+
+    it('should report unsigned certificates and refuse to sign revoked or foreign ones', async () => {
+      expect((await service.verifyCertificateDocument(id, pdf)).document).toMatchObject({ signed: false, hashMatches: false })
+
+      await expect(service.signCertificateDocument('org-1', id, 'abc'))
+        .rejects.toMatchObject({ statusCode: 400 })
+      await expect(service.signCertificateDocument('org-2', id, hashDocument(pdf)))
+        .rejects.toMatchObject({ statusCode: 404 })
+
+      await service.revokeCertificate('org-1', 'user-1', id, 'Fraud')
+      await expect(service.signCertificateDocument('org-1', id, hashDocument(pdf)))
+        .rejects.toMatchObject({ statusCode: 409, code: 'CERTIFICATE_REVOKED' })
+    })
+  })
+})
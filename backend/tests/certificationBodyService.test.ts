@@ -0,0 +1,206 @@
+/**
+ * HalalCheck EU - Certification Body Directory Tests
+ *
+ * Unit tests for the certification-body directory: CSV and JSON imports,
+ * the recognition matrix and checking supplier certificate issuers against
+ * an export market's authority
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { CertificationBodyService, authorityForStandard } from '../src/services/certificationBodyService'
+import { DatabaseService } from '../src/services/databaseService'
+import { databaseDouble, queryResult, assignments, dateIn, uuidSequence } from './helpers/database'
+import { SupplierEvidence } from '../src/types/halal'
+
+const USER_ID = '00000000-0000-4000-8000-00000000000a'
+
+interface Store {
+  bodies: any[]
+  recognitions: any[]
+}
+
+const uuid = uuidSequence('bbbbbbbb')
+
+/**
+ * Database double keeping the directory in memory
+ */
+function fakeDatabase(store: Store): DatabaseService {
+  return databaseDouble((sql, params) => {
+    if (sql.includes('FROM certification_bodies WHERE LOWER(name) = LOWER($1)')) {
+      const rows = store.bodies.filter(row => row.name.toLowerCase() === params[0].toLowerCase() && row.id !== params[1])
+      return queryResult(rows)
+    }
+    if (sql.includes('INSERT INTO certification_bodies')) {
+      const row = {
+        id: uuid(),
+        name: params[0],
+        aliases: params[1],
+        country: params[2],
+        standards: params[3],
+        accreditation: params[4],
+        logo_url: params[5],
+        website: params[6],
+        status: params[7],
+        version: 1,
+        updated_by: params[8],
+        created_at: new Date(),
+        updated_at: new Date()
+      }
+      store.bodies.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('UPDATE certification_bodies')) {
+      const rows = store.bodies.filter(row => row.id === params[0])
+      rows.forEach(row => {
+        Object.assign(row, assignments(sql, params))
+        row.version += 1
+      })
+      return queryResult(rows)
+    }
+    if (sql.includes('SELECT version FROM certification_bodies')) {
+      const rows = store.bodies.filter(row => row.id === params[0])
+      return queryResult(rows)
+    }
+    if (sql.includes('SELECT * FROM certification_bodies WHERE id = $1')) {
+      const rows = store.bodies.filter(row => row.id === params[0])
+      return queryResult(rows)
+    }
+    if (sql.includes('SELECT * FROM certification_bodies')) {
+      const rows = [...store.bodies].sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()))
+      return queryResult(rows)
+    }
+    if (sql.includes('DELETE FROM certification_body_recognitions')) {
+      store.recognitions = store.recognitions.filter(row =>
+        row.certification_body_id !== params[0] || !params[1].includes(row.authority)
+      )
+      return queryResult([])
+    }
+    if (sql.includes('INSERT INTO certification_body_recognitions')) {
+      const row = {
+        certification_body_id: params[0],
+        authority: params[1],
+        status: params[2],
+        valid_until: params[3],
+        reference: params[4],
+        updated_at: new Date()
+      }
+      store.recognitions.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('FROM certification_body_recognitions')) {
+      const rows = store.recognitions
+        .filter(row => params[0].includes(row.certification_body_id))
+        .sort((a, b) => a.authority.localeCompare(b.authority))
+      return queryResult(rows)
+    }
+    return undefined
+  })
+}
+
+function certificate(issuer: string): SupplierEvidence {
+  return {
+    supplierId: 's-1',
+    supplierName: 'Acme Lipids',
+    materialId: 'm-1',
+    materialName: 'Sunflower lecithin',
+    certificateId: 'c-1',
+    certificateNumber: 'CERT-1',
+    issuer,
+    validUntil: '2030-01-31'
+  }
+}
+
+describe('CertificationBodyService', () => {
+  let store: Store
+  let service: CertificationBodyService
+
+  beforeEach(() => {
+    store = { bodies: [], recognitions: [] }
+    service = new CertificationBodyService(fakeDatabase(store))
+  })
+
+  describe('importBodies', () => {
+    it('should import CSV with quoted fields, lists and recognition cells', async () => {
+      const csv = [
+        'name,aliases,country,standards,accreditation,status,JAKIM,GAC',
+        '"Halal Certification Europe","HCE|HCE B.V.",Netherlands,GSO 993:2015|MS 1500:2019,"RvA, ISO/IEC 17065",active,recognized,' + dateIn(-1),
+        'Halal Food Authority,HFA,UK,HFA Standard,,active,suspended,'
+      ].join('\r\n')
+
+      const result = await service.importBodies(USER_ID, 'csv', csv)
+
+      expect(result).toMatchObject({ created: 2, updated: 0 })
+      const [hce, hfa] = result.bodies
+      expect(hce).toMatchObject({
+        name: 'Halal Certification Europe',
+        aliases: ['HCE', 'HCE B.V.'],
+        standards: ['GSO 993:2015', 'MS 1500:2019'],
+        accreditation: 'RvA, ISO/IEC 17065'
+      })
+      expect(hce!.recognitions.map(({ authority, status, current }) => ({ authority, status, current }))).toEqual([
+        { authority: 'GAC', status: 'recognized', current: false },
+        { authority: 'JAKIM', status: 'recognized', current: true }
+      ])
+      expect(hfa!.recognitions).toEqual([expect.objectContaining({ authority: 'JAKIM', status: 'suspended', current: false })])
+    })
+
+    it('should update bodies already in the directory and keep recognitions of authorities not imported', async () => {
+      await service.importBodies(USER_ID, 'csv', 'name,country,JAKIM,MUIS\nHalal Certification Europe,Netherlands,recognized,recognized')
+
+      const result = await service.importBodies(USER_ID, 'json', JSON.stringify({
+        bodies: [{ name: 'halal certification europe', accreditation: 'RvA' }]
+      }))
+      const csvResult = await service.importBodies(USER_ID, 'csv', 'name,MUIS\nHalal Certification Europe,')
+
+      expect(result).toMatchObject({ created: 0, updated: 1 })
+      expect(csvResult.bodies[0]).toMatchObject({
+        accreditation: 'RvA',
+        recognitions: [expect.objectContaining({ authority: 'JAKIM', current: true })]
+      })
+      expect(store.bodies).toHaveLength(1)
+    })
+
+    it('should reject the whole import when a row is invalid', async () => {
+      await expect(service.importBodies(USER_ID, 'csv', 'name,JAKIM\nHCE,recognized\nHFA,yes'))
+        .rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining('Row 2: recognition status must be one of') })
+      await expect(service.importBodies(USER_ID, 'csv', 'name,rating\nHCE,5'))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Unknown CSV columns: rating' })
+
+      expect(store.bodies).toHaveLength(0)
+    })
+  })
+
+  describe('checkIssuers', () => {
+    beforeEach(async () => {
+      await service.importBodies(USER_ID, 'json', JSON.stringify([
+        { name: 'Halal Certification Europe', aliases: ['HCE'], recognitions: [{ authority: 'JAKIM' }] },
+        { name: 'Suspended Certifier', status: 'suspended', recognitions: [{ authority: 'JAKIM' }] }
+      ]))
+    })
+
+    it('should record whether the export market recognizes each certificate issuer', async () => {
+      const checked = await service.checkIssuers(new Map([
+        ['1', [certificate('hce')]],
+        ['2', [certificate('Suspended Certifier'), certificate('Unknown Certifier')]]
+      ]), 'JAKIM')
+
+      expect(checked.get('1')![0]!.issuerRecognition).toEqual({
+        authority: 'JAKIM',
+        market: 'Malaysia',
+        recognized: true,
+        certificationBodyId: store.bodies[0].id
+      })
+      expect(checked.get('2')!.map(entry => entry.issuerRecognition!.recognized)).toEqual([false, false])
+      expect(checked.get('2')![1]!.issuerRecognition!.certificationBodyId).toBeUndefined()
+    })
+
+    it('should check issuers against the market of the certification standard', async () => {
+      const authority = authorityForStandard('GSO_993')
+      const checked = await service.checkIssuers(new Map([['1', [certificate('HCE')]]]), authority!.code)
+
+      expect(authority!.code).toBe('GAC')
+      expect(authorityForStandard('HFCE')).toBeUndefined()
+      expect(checked.get('1')![0]!.issuerRecognition).toMatchObject({ authority: 'GAC', recognized: false })
+    })
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * HalalCheck EU - Certification Rule Engine Tests
+ *
+ * Unit tests for standard-specific rule sets
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { CertificationRuleEngine } from '../src/services/certificationRuleEngine'
+import { IngredientLabelParser } from '../src/services/ingredientLabelParser'
+import { getBuiltInRuleSet } from '../src/data/standards/certification-rules'
+import { CertificationStandard, CertificationRuleSet, HalalStatus, RiskLevel, IngredientAnalysis } from '../src/types'
+
+describe('CertificationRuleEngine', () => {
+  let engine: CertificationRuleEngine
+
+  const ingredient = (name: string, status: HalalStatus, eNumbers: string[] = []): IngredientAnalysis => ({
+    detectedName: name,
+    standardName: name,
+    status,
+    riskLevel: RiskLevel.MEDIUM,
+    confidence: 0.9,
+    reasoning: 'General assessment.',
+    requiresExpertReview: false,
+    warnings: [],
+    suggestions: [],
+    source: 'ai',
+    eNumbers,
+    categories: []
+  })
+
+  const ruleSet = (standard: CertificationStandard): CertificationRuleSet => getBuiltInRuleSet(standard)!
+
+  // Every node of a parsed label, analyzed as halal before the rule set runs
+  const labelIngredients = (label: string): IngredientAnalysis[] => {
+    const parser = new IngredientLabelParser()
+    return parser.flatten(parser.parse(label)).map(({ name, hasChildren, ...node }) => ({
+      ...ingredient(name, HalalStatus.HALAL),
+      ...node
+    }))
+  }
+
+  const statusesOf = (results: IngredientAnalysis[]) => results.map(result => [result.detectedName, result.status])
+
+  // Rule set outcome for a single ingredient
+  const applyOne = (analysis: IngredientAnalysis, rules: CertificationRuleSet): IngredientAnalysis => {
+    const results = engine.applyRuleSet([analysis], rules)
+    expect(results).toHaveLength(1)
+    return results[0]!
+  }
+
+  beforeEach(() => {
+    engine = new CertificationRuleEngine()
+  })
+
+  describe('applyRuleSet', () => {
+    it('should accept E120 under JAKIM and reject it under GSO 993', () => {
+      const carmine = ingredient('Cochineal/Carmine', HalalStatus.MASHBOOH, ['E120'])
+
+      const jakim = applyOne(carmine, ruleSet(CertificationStandard.JAKIM))
+      const gso = applyOne(carmine, ruleSet(CertificationStandard.GSO_993))
+
+      expect(jakim.status).toBe(HalalStatus.HALAL)
+      expect(gso.status).toBe(HalalStatus.HARAM)
+      expect(gso.appliedRules).toEqual([
+        expect.objectContaining({
+          ruleId: 'gso-insect-colourant',
+          standard: CertificationStandard.GSO_993,
+          previousStatus: HalalStatus.MASHBOOH,
+          resultingStatus: HalalStatus.HARAM
+        })
+      ])
+    })
+
+    it('should require every keyword group to match', () => {
+      const flavouring = applyOne(
+        ingredient('natural flavouring (in ethanol)', HalalStatus.HALAL),
+        ruleSet(CertificationStandard.JAKIM)
+      )
+      const plainFlavouring = applyOne(
+        ingredient('natural flavouring', HalalStatus.HALAL),
+        ruleSet(CertificationStandard.JAKIM)
+      )
+
+      expect(flavouring.status).toBe(HalalStatus.MASHBOOH)
+      expect(flavouring.requiresExpertReview).toBe(true)
+      expect(plainFlavouring.appliedRules).toBeUndefined()
+    })
+
+    it('should match keywords across the compounds of a parsed label', () => {
+      const label = labelIngredients('Sugar, natural flavouring (alcohol, vanilla extract), cocoa butter')
+
+      expect(statusesOf(engine.applyRuleSet(label, ruleSet(CertificationStandard.JAKIM)))).toEqual([
+        ['Sugar', HalalStatus.HALAL],
+        ['natural flavouring', HalalStatus.HALAL],
+        ['alcohol', HalalStatus.MASHBOOH],
+        ['vanilla extract', HalalStatus.HALAL],
+        ['cocoa butter', HalalStatus.HALAL]
+      ])
+
+      for (const standard of [CertificationStandard.MUI, CertificationStandard.HFCE]) {
+        const alcohol = engine.applyRuleSet(label, ruleSet(standard))[2]!
+        expect(alcohol.status).toBe(HalalStatus.MASHBOOH)
+        expect(alcohol.requiresExpertReview).toBe(true)
+      }
+      expect(engine.applyRuleSet(label, ruleSet(CertificationStandard.GSO_993))[2]!.status).toBe(HalalStatus.HARAM)
+    })
+
+    it('should compare the declared percentage with the standard threshold', () => {
+      const withinLimit = engine.applyRuleSet(labelIngredients('Natural flavouring (alcohol 0.3%)'), ruleSet(CertificationStandard.JAKIM))
+      const overLimit = engine.applyRuleSet(labelIngredients('Natural flavouring (alcohol 2%)'), ruleSet(CertificationStandard.JAKIM))
+
+      expect(withinLimit[1]!.status).toBe(HalalStatus.MASHBOOH)
+      expect(overLimit[1]!.status).toBe(HalalStatus.HARAM)
+      expect(overLimit[1]!.appliedRules?.map(rule => rule.ruleId))
+        .toEqual(['jakim-alcohol-in-flavouring', 'jakim-alcohol-over-limit'])
+    })
+
+    it('should honour excluded keywords', () => {
+      const vinegar = applyOne(
+        ingredient('wine vinegar', HalalStatus.HALAL),
+        ruleSet(CertificationStandard.HFCE)
+      )
+
+      expect(vinegar.status).toBe(HalalStatus.HALAL)
+    })
+
+    it('should run inherited rules before custom rules', () => {
+      const custom: CertificationRuleSet = {
+        standard: CertificationStandard.CUSTOM,
+        name: 'Certifier rules',
+        version: '1',
+        extends: CertificationStandard.JAKIM,
+        rules: [{
+          id: 'custom-no-carmine',
+          description: 'Carmine not accepted by this certifier',
+          when: { eNumbers: ['E120'] },
+          then: { status: HalalStatus.HARAM }
+        }]
+      }
+
+      const result = applyOne(ingredient('carmine', HalalStatus.MASHBOOH, ['E120']), custom)
+
+      expect(result.status).toBe(HalalStatus.HARAM)
+      expect(result.appliedRules?.map(rule => rule.ruleId)).toEqual(['jakim-insect-colourant', 'custom-no-carmine'])
+    })
+  })
+
+  describe('validateRuleSet', () => {
+    it('should accept a valid rule set', () => {
+      const errors = engine.validateRuleSet({
+        name: 'Certifier rules',
+        extends: CertificationStandard.HFCE,
+        rules: [{
+          id: 'r1',
+          description: 'Shellac not accepted',
+          when: { keywordGroups: [['shellac', 'e904']] },
+          then: { status: HalalStatus.HARAM }
+        }]
+      })
+
+      expect(errors).toEqual([])
+    })
+
+    it('should report invalid rules', () => {
+      const errors = engine.validateRuleSet({
+        name: 'Broken',
+        extends: 'UNKNOWN',
+        rules: [{ id: 'r1', description: '', when: {}, then: { status: 'MAYBE' as HalalStatus } }]
+      })
+
+      expect(errors.length).toBeGreaterThanOrEqual(4)
+    })
+  })
+})
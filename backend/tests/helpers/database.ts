@@ -0,0 +1,82 @@
+/**
+ * HalalCheck EU - Database Test Helpers
+ *
+ * In-memory stand-in for the DatabaseService used by service unit tests,
+ * plus the small fixtures those tests share. Each test answers the SQL its
+ * service issues; any other query fails the test so new statements do not
+ * go unnoticed. Route-level behaviour against PostgreSQL is covered by the
+ * integration tests.
+ */
+
+import { DatabaseService } from '../../src/services/databaseService'
+
+export interface QueryRows {
+  rows: any[]
+  rowCount: number
+}
+
+/**
+ * Answers one query, or returns undefined when it does not recognise it
+ */
+export type QueryHandler = (sql: string, params: any[]) => QueryRows | undefined | Promise<QueryRows | undefined>
+
+/**
+ * Database double routing every query, inside or outside a transaction, to
+ * the handler. Other DatabaseService methods the service calls, such as
+ * findUserById, are passed in as methods.
+ */
+export function databaseDouble(handler: QueryHandler, methods: Record<string, unknown> = {}): DatabaseService {
+  const query = async (sql: string, params: any[] = []) => {
+    const answer = await handler(sql, params)
+    if (!answer) {
+      throw new Error(`Unexpected query: ${sql}`)
+    }
+    return answer
+  }
+
+  return {
+    query,
+    queryWithClient: async (_client: unknown, sql: string, params: any[] = []) => query(sql, params),
+    transaction: async (callback: (client: unknown) => Promise<unknown>) => callback({}),
+    ...methods
+  } as unknown as DatabaseService
+}
+
+/**
+ * Result holding the given rows; rowCount defaults to their number
+ */
+export function queryResult(rows: any[], rowCount = rows.length): QueryRows {
+  return { rows, rowCount }
+}
+
+/**
+ * Columns assigned by "column = $n" in an UPDATE's SET clause
+ */
+export function assignments(sql: string, params: any[]): Record<string, any> {
+  const setClause = sql.slice(sql.indexOf('SET'), sql.indexOf('WHERE'))
+  const values: Record<string, any> = {}
+  for (const match of setClause.matchAll(/(\w+) = \$(\d+)/g)) {
+    values[match[1]!] = params[Number(match[2]) - 1]
+  }
+  return values
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) the given number of days from today
+ */
+export function dateIn(days: number): string {
+  const date = new Date()
+  date.setDate(date.getDate() + days)
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * Generator of distinct, predictable UUIDs for rows the double inserts
+ */
+export function uuidSequence(prefix: string): () => string {
+  let sequence = 0
+  return () => {
+    sequence += 1
+    return `${prefix}-0000-4000-8000-${String(sequence).padStart(12, '0')}`
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * HalalCheck EU - Integration Test Helpers
+ *
+ * Seeds organizations and active users straight into the test database and
+ * signs access tokens for them, so route tests need not go through
+ * registration and email verification
+ */
+
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+import { pool } from '../../src/database/connection'
+import { OrganizationType, ROLE_PERMISSIONS, UserRole } from '../../src/types'
+
+export interface TestUser {
+  id: string
+  email: string
+  organizationId: string
+  token: string
+}
+
+/**
+ * Create an organization on an active plan that does not require MFA
+ */
+export async function createTestOrganization(name: string, type = OrganizationType.CERTIFICATION_BODY): Promise<string> {
+  const result = await pool.query(`
+    INSERT INTO organizations (
+      name, type, country, subscription_plan, subscription_status,
+      subscription_end_date, billing_email, monthly_analysis_limit
+    ) VALUES ($1, $2, 'NL', 'PROFESSIONAL', 'ACTIVE', NOW() + INTERVAL '30 days', $3, 500)
+    RETURNING id
+  `, [name, type, `billing-${crypto.randomUUID()}@example.com`])
+
+  return result.rows[0].id
+}
+
+/**
+ * Create an active, verified user and sign an access token for them.
+ * Permissions default to those of the role.
+ */
+export async function createTestUser(
+  organizationId: string,
+  role: UserRole,
+  permissions: string[] = ROLE_PERMISSIONS[role]
+): Promise<TestUser> {
+  const email = `${role.toLowerCase()}-${crypto.randomUUID()}@example.com`
+  const result = await pool.query(`
+    INSERT INTO users (
+      email, username, first_name, last_name, password_hash, salt,
+      email_verified, role, permissions, organization_id, status
+    ) VALUES ($1, $1, 'Test', $2, 'not-a-hash', 'not-a-salt', TRUE, $3, $4, $5, 'ACTIVE')
+    RETURNING id
+  `, [email, role, role, permissions, organizationId])
+
+  const id = result.rows[0].id
+  const token = jwt.sign({
+    sub: id,
+    email,
+    role,
+    organizationId,
+    permissions,
+    jti: crypto.randomUUID()
+  }, process.env.JWT_SECRET!, { algorithm: 'HS256', expiresIn: '1h' })
+
+  return { id, email, organizationId, token }
+}
+
+// Tables referencing organizations without ON DELETE CASCADE, children first
+const UNCASCADED_TABLES = ['reports', 'analysis_reevaluation_flags', 'analysis_jobs', 'product_analyses', 'audit_logs']
+
+/**
+ * Remove organizations created by a test together with everything they own
+ */
+export async function removeTestOrganizations(organizationIds: string[]): Promise<void> {
+  for (const table of UNCASCADED_TABLES) {
+    await pool.query(`DELETE FROM ${table} WHERE organization_id = ANY($1::uuid[])`, [organizationIds])
+  }
+  await pool.query('DELETE FROM organizations WHERE id = ANY($1::uuid[])', [organizationIds])
+}
+
+export function bearer(user: TestUser): string {
+  return `Bearer ${user.token}`
+}
@@ -0,0 +1,95 @@
+/**
+ * HalalCheck EU - Ingredient Label Parser Tests
+ *
+ * Unit tests for the compound ingredient label grammar
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { IngredientLabelParser } from '../src/services/ingredientLabelParser'
+
+describe('IngredientLabelParser', () => {
+  let parser: IngredientLabelParser
+
+  beforeEach(() => {
+    parser = new IngredientLabelParser()
+  })
+
+  describe('parse', () => {
+    it('should build a tree of compound ingredients', () => {
+      const tree = parser.parse('chocolate (sugar, cocoa butter, emulsifier (E471), flavouring), milk')
+
+      expect(tree).toEqual([
+        {
+          name: 'chocolate',
+          children: [
+            { name: 'sugar', children: [] },
+            { name: 'cocoa butter', children: [] },
+            { name: 'E471', functionalClass: 'emulsifier', children: [] },
+            { name: 'flavouring', children: [] }
+          ]
+        },
+        { name: 'milk', children: [] }
+      ])
+    })
+
+    it('should read percentages before and inside brackets', () => {
+      const tree = parser.parse('Ingredients: sugar 45%, cocoa butter (12,5%), hazelnuts 13 %.')
+
+      expect(tree).toEqual([
+        { name: 'sugar', percentage: 45, children: [] },
+        { name: 'cocoa butter', percentage: 12.5, children: [] },
+        { name: 'hazelnuts', percentage: 13, children: [] }
+      ])
+    })
+
+    it('should split functional classes into classified ingredients', () => {
+      const tree = parser.parse('emulsifiers (E 471, soya lecithin), colour: e-120')
+
+      expect(tree).toEqual([
+        { name: 'E471', functionalClass: 'emulsifiers', children: [] },
+        { name: 'soya lecithin', functionalClass: 'emulsifiers', children: [] },
+        { name: 'E120', functionalClass: 'colour', children: [] }
+      ])
+    })
+
+    it('should not cap long ingredient lists', () => {
+      const text = Array.from({ length: 80 }, (_, index) => `ingredient ${index}`).join(', ')
+
+      expect(parser.parse(text)).toHaveLength(80)
+    })
+
+    it('should tolerate unbalanced brackets', () => {
+      const tree = parser.parse('biscuit (wheat flour, sugar, salt')
+
+      expect(tree).toHaveLength(1)
+      expect(tree[0]?.children.map(child => child.name)).toEqual(['wheat flour', 'sugar', 'salt'])
+    })
+
+    it('should keep brackets beyond the maximum depth in the name', () => {
+      const shallow = new IngredientLabelParser({ maxDepth: 2 })
+      const tree = shallow.parse('filling (caramel (sugar, butter))')
+
+      expect(tree[0]?.children).toEqual([{ name: 'caramel (sugar, butter)', children: [] }])
+    })
+
+    it('should be deterministic', () => {
+      const text = 'Zutaten: Schokolade 30% (Zucker, Kakaobutter), Schweinegelatine'
+
+      expect(parser.parse(text)).toEqual(parser.parse(text))
+    })
+  })
+
+  describe('flatten', () => {
+    it('should number nodes in label order with paths', () => {
+      const nodes = parser.flatten(parser.parse('water, chocolate (sugar, filling (gelatin))'))
+
+      expect(nodes.map(node => [node.nodeId, node.parentId, node.path.join(' > ')])).toEqual([
+        ['1', undefined, 'water'],
+        ['2', undefined, 'chocolate'],
+        ['2.1', '2', 'chocolate > sugar'],
+        ['2.2', '2', 'chocolate > filling'],
+        ['2.2.1', '2.2', 'chocolate > filling > gelatin']
+      ])
+    })
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * HalalCheck EU - Ingredient Synonym Index Tests
+ *
+ * Unit tests for multilingual label term resolution
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { IngredientSynonymIndex, foldText } from '../src/services/ingredientSynonymIndex'
+import { CORE_INGREDIENTS, getIngredientByName } from '../src/data/ingredients/core-ingredients'
+import { E_NUMBERS_COMPLETE } from '../src/data/ingredients/e-numbers-complete'
+
+describe('IngredientSynonymIndex', () => {
+  let index: IngredientSynonymIndex
+
+  beforeEach(() => {
+    index = new IngredientSynonymIndex([...CORE_INGREDIENTS, ...E_NUMBERS_COMPLETE])
+  })
+
+  describe('foldText', () => {
+    it('should fold accents and Arabic letter variants', () => {
+      expect(foldText('Gélatine de Bœuf')).toBe('gelatine de boeuf')
+      expect(foldText('Schweineschmalz Fettsäuren')).toBe('schweineschmalz fettsauren')
+      expect(foldText('إيثانول')).toBe('ايثانول')
+    })
+  })
+
+  describe('lookup', () => {
+    it.each([
+      ['varkensgelatine', 'nl', 'Pork Gelatin'],
+      ['Schweineschmalz', 'de', 'Lard'],
+      ['gélatine de porc', 'fr', 'Pork Gelatin'],
+      ['جيلاتين', 'ar', 'Gelatin'],
+      ['domuz jelatini', 'tr', 'Pork Gelatin']
+    ])('should resolve %s (%s) to %s', (term, language, canonicalName) => {
+      const match = index.lookup(term, language)
+
+      expect(match?.canonicalName).toBe(canonicalName)
+      expect(match?.confidence).toBeGreaterThanOrEqual(0.85)
+    })
+
+    it('should score exact terms above normalized ones', () => {
+      const exact = index.lookup('Varkensgelatine', 'nl')
+      const normalized = index.lookup('GELATINE DE PORCS', 'fr')
+
+      expect(exact?.matchType).toBe('EXACT')
+      expect(exact?.confidence).toBe(1)
+      expect(normalized?.matchType).toBe('NORMALIZED')
+      expect(normalized?.confidence).toBeLessThan(1)
+    })
+
+    it('should match Dutch and German compounds written apart', () => {
+      const match = index.lookup('Rinder-Gelatine', 'de')
+
+      expect(match?.canonicalName).toBe('Beef Gelatin')
+      expect(match?.matchType).toBe('COMPOUND')
+    })
+
+    it('should stem plurals', () => {
+      expect(index.lookup('mono- en diglyceriden van vetzuren', 'nl')?.eNumber).toBe('E471')
+      expect(index.lookup('yağ asitlerinin mono ve digliseritleri', 'tr')?.eNumber).toBe('E471')
+    })
+
+    it('should give partial matches a lower confidence', () => {
+      const match = index.lookup('halal certified rundergelatine', 'nl')
+
+      expect(match?.canonicalName).toBe('Beef Gelatin')
+      expect(match?.matchType).toBe('PARTIAL')
+      expect(match?.confidence).toBeLessThan(0.85)
+    })
+
+    it('should link matches to knowledge base ingredients', () => {
+      expect(index.lookup('Karminsäure', 'de')?.ingredient?.eNumber).toBe('E120')
+      expect(index.lookup('Schweineschmalz', 'de')?.ingredient).toBeUndefined()
+    })
+
+    it('should return null for unknown terms', () => {
+      expect(index.lookup('zzyzx', 'en')).toBeNull()
+    })
+  })
+
+  describe('getIngredientByName', () => {
+    it('should resolve non-English label terms', () => {
+      expect(getIngredientByName('varkensgelatine', 'nl')?.name).toBe('Pork Gelatin')
+      expect(getIngredientByName('domuz jelatini')?.name).toBe('Pork Gelatin')
+    })
+  })
+})
@@ -12,16 +12,27 @@ import { HalalStatus, RiskLevel, UserRole } from '../../src/types'
 import fs from 'fs'
 import path from 'path'
 
-// Mock OpenAI for consistent testing
-jest.mock('openai', () => ({
-  OpenAI: jest.fn().mockImplementation(() => ({
+// Analyses run on the deterministic offline provider unless a test opts into OpenAI
+process.env.LLM_PROVIDER = 'offline'
+
+// Mock OpenAI for tests that switch their organization to the OpenAI provider
+jest.mock('openai', () => {
+  const OpenAI = jest.fn().mockImplementation(() => ({
     chat: {
       completions: {
         create: jest.fn()
       }
     }
   }))
-}))
+  return { __esModule: true, default: OpenAI, OpenAI }
+})
+
+const useProvider = async (organizationId: string, llmProvider: 'openai' | 'offline') => {
+  await pool.query(
+    'UPDATE organizations SET settings = $1 WHERE id = $2',
+    [JSON.stringify({ llmProvider }), organizationId]
+  )
+}
 
 describe('Analysis Integration', () => {
   let app: HalalCheckApp
@@ -48,9 +59,9 @@ describe('Analysis Integration', () => {
 
     // Create test organization
     const orgResult = await pool.query(`
-      INSERT INTO organizations (name, type, country, subscription_plan, subscription_status, monthly_analysis_limit)
-      VALUES ($1, $2, $3, $4, $5, $6) RETURNING id
-    `, ['Analysis Integration Test Org', 'FOOD_MANUFACTURER', 'Netherlands', 'PROFESSIONAL', 'ACTIVE', 500])
+      INSERT INTO organizations (name, type, country, subscription_plan, subscription_status, monthly_analysis_limit, settings)
+      VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id
+    `, ['Analysis Integration Test Org', 'FOOD_MANUFACTURER', 'Netherlands', 'PROFESSIONAL', 'ACTIVE', 500, JSON.stringify({ llmProvider: 'offline' })])
 
     organizationId = orgResult.rows[0].id
 
@@ -99,36 +110,6 @@ describe('Analysis Integration', () => {
       'UPDATE users SET role = $1, organization_id = $2 WHERE id = $3',
       [UserRole.ADMIN, organizationId, adminRegister.body.data.user.id]
     )
-
-    // Setup default OpenAI mock response
-    mockOpenAI.mockImplementation(() => ({
-      chat: {
-        completions: {
-          create: jest.fn().mockResolvedValue({
-            choices: [{
-              message: {
-                content: JSON.stringify({
-                  ingredients: [
-                    {
-                      name: 'water',
-                      confidence: 0.99,
-                      original_text: 'water'
-                    },
-                    {
-                      name: 'sugar',
-                      confidence: 0.95,
-                      original_text: 'sugar'
-                    }
-                  ],
-                  language_detected: 'en',
-                  processing_notes: 'Successfully parsed ingredient list'
-                })
-              }
-            }]
-          })
-        }
-      }
-    }))
   })
 
   afterEach(async () => {
@@ -162,7 +143,7 @@ describe('Analysis Integration', () => {
       expect(createResponse.body.success).toBe(true)
       expect(createResponse.body.data).toHaveProperty('id')
       expect(createResponse.body.data.productName).toBe(analysisData.productName)
-      expect(createResponse.body.data.ingredients).toHaveLength(2) // water, sugar
+      expect(createResponse.body.data.ingredients).toHaveLength(4) // water, sugar, salt, natural vanilla flavor
       expect(createResponse.body.data).toHaveProperty('overallStatus')
       expect(createResponse.body.data).toHaveProperty('summary')
 
@@ -225,6 +206,8 @@ describe('Analysis Integration', () => {
     })
 
     it('should handle image analysis workflow', async () => {
+      await useProvider(organizationId, 'openai')
+
       // Mock image analysis responses
       const mockCreate = jest.fn()
         .mockResolvedValueOnce({
@@ -571,6 +554,8 @@ describe('Analysis Integration', () => {
     })
 
     it('should handle OpenAI API failures gracefully', async () => {
+      await useProvider(organizationId, 'openai')
+
       // Mock OpenAI to throw error
       const mockCreate = jest.fn().mockRejectedValue(new Error('OpenAI API Error'))
 
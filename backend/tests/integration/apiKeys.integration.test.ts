@@ -0,0 +1,135 @@
+/**
+ * HalalCheck EU - API Key Integration Tests
+ *
+ * End-to-end tests for issuing, using, rotating and revoking organization
+ * API keys against the database
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import request from 'supertest'
+import { HalalCheckApp } from '../../src/app'
+import { PERMISSIONS, UserRole } from '../../src/types'
+import { TestUser, bearer, createTestOrganization, createTestUser, removeTestOrganizations } from '../helpers/integration'
+
+describe('API Key Integration', () => {
+  let server: any
+  let admin: TestUser
+  let otherOrganizationAdmin: TestUser
+  const organizationIds: string[] = []
+
+  beforeAll(async () => {
+    server = new HalalCheckApp().getApp()
+
+    const organizationId = await createTestOrganization('API Key Integration Certifiers')
+    const otherOrganizationId = await createTestOrganization('API Key Integration Rival')
+    organizationIds.push(organizationId, otherOrganizationId)
+
+    admin = await createTestUser(organizationId, UserRole.ADMIN)
+    otherOrganizationAdmin = await createTestUser(otherOrganizationId, UserRole.ADMIN)
+  })
+
+  afterAll(async () => {
+    await removeTestOrganizations(organizationIds)
+  })
+
+  const createKey = async (permissions: string[]) => {
+    const response = await request(server)
+      .post('/api/api-keys')
+      .set('Authorization', bearer(admin))
+      .send({ name: 'ERP integration', permissions })
+      .expect(201)
+
+    return response.body.data
+  }
+
+  it('should authenticate requests with a key limited to its scopes', async () => {
+    const { key, apiKey } = await createKey([PERMISSIONS.VIEW_SUPPLIERS])
+
+    expect(apiKey.keyPrefix).toBe(key.slice(0, apiKey.keyPrefix.length))
+
+    await request(server)
+      .get('/api/suppliers')
+      .set('X-API-Key', key)
+      .expect(200)
+
+    await request(server)
+      .post('/api/suppliers')
+      .set('X-API-Key', key)
+      .send({ name: 'Out of scope supplier' })
+      .expect(403)
+  })
+
+  it('should hold keys to their scopes on analysis and report routes', async () => {
+    const { key } = await createKey([PERMISSIONS.VIEW_SUPPLIERS])
+
+    await request(server).get('/api/analysis/history').set('X-API-Key', key).expect(403)
+    await request(server).get('/api/analysis/dashboard/stats').set('X-API-Key', key).expect(403)
+    await request(server).delete('/api/analysis/analysis-1').set('X-API-Key', key).expect(403)
+    await request(server).get('/api/reports/summary').set('X-API-Key', key).expect(403)
+    await request(server).get('/api/reports/export/csv').set('X-API-Key', key).expect(403)
+    await request(server).get('/api/jobs').set('X-API-Key', key).expect(403)
+    await request(server).get('/api/jobs/job-1').set('X-API-Key', key).expect(403)
+    await request(server).post('/api/jobs/job-1/cancel').set('X-API-Key', key).expect(403)
+    await request(server).post('/api/upload/ingredient-labels/batch').set('X-API-Key', key).expect(403)
+
+    const { key: historyKey } = await createKey([PERMISSIONS.VIEW_ANALYSIS_HISTORY])
+
+    await request(server).get('/api/reports/export/csv').set('X-API-Key', historyKey).expect(403)
+    await request(server).get('/api/jobs').set('X-API-Key', historyKey).expect(200)
+    await request(server)
+      .post('/api/jobs')
+      .set('X-API-Key', historyKey)
+      .send({ items: [{ productName: 'Gummy bears', ingredientText: 'Glucose syrup, sugar, gelatin' }] })
+      .expect(403)
+  })
+
+  it('should not let API keys manage API keys', async () => {
+    const { key } = await createKey([PERMISSIONS.API_ACCESS])
+
+    await request(server)
+      .get('/api/api-keys')
+      .set('X-API-Key', key)
+      .expect(403)
+  })
+
+  it('should reject revoked keys and keep keys scoped to their organization', async () => {
+    const { key, apiKey } = await createKey([PERMISSIONS.VIEW_SUPPLIERS])
+
+    await request(server)
+      .delete(`/api/api-keys/${apiKey.id}`)
+      .set('Authorization', bearer(otherOrganizationAdmin))
+      .expect(404)
+
+    await request(server)
+      .delete(`/api/api-keys/${apiKey.id}`)
+      .set('Authorization', bearer(admin))
+      .expect(200)
+
+    await request(server)
+      .get('/api/suppliers')
+      .set('X-API-Key', key)
+      .expect(401)
+
+    const listed = await request(server)
+      .get('/api/api-keys')
+      .set('Authorization', bearer(otherOrganizationAdmin))
+      .expect(200)
+
+    expect(listed.body.data.apiKeys).toHaveLength(0)
+  })
+
+  it('should keep the replaced key working after rotation', async () => {
+    const { key, apiKey } = await createKey([PERMISSIONS.VIEW_SUPPLIERS])
+
+    const rotated = await request(server)
+      .post(`/api/api-keys/${apiKey.id}/rotate`)
+      .set('Authorization', bearer(admin))
+      .send({ gracePeriodHours: 1 })
+      .expect(201)
+
+    expect(rotated.body.data.key).not.toBe(key)
+
+    await request(server).get('/api/suppliers').set('X-API-Key', key).expect(200)
+    await request(server).get('/api/suppliers').set('X-API-Key', rotated.body.data.key).expect(200)
+  })
+})
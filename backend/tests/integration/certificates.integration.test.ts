@@ -0,0 +1,148 @@
+/**
+ * HalalCheck EU - Certificate Integration Tests
+ *
+ * End-to-end tests for the certificate registry, public verification,
+ * lifecycle changes and document signing against the database
+ */
+
+import crypto from 'crypto'
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import request from 'supertest'
+import { HalalCheckApp } from '../../src/app'
+import { pool } from '../../src/database/connection'
+import { UserRole } from '../../src/types'
+import { TestUser, bearer, createTestOrganization, createTestUser, removeTestOrganizations } from '../helpers/integration'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('Certificate Integration', () => {
+  let server: any
+  let certifier: TestUser
+  let admin: TestUser
+  let otherOrganizationCertifier: TestUser
+  const organizationIds: string[] = []
+  const certificateIds: string[] = []
+
+  beforeAll(async () => {
+    server = new HalalCheckApp().getApp()
+
+    const organizationId = await createTestOrganization('Certificate Integration Certifiers')
+    const otherOrganizationId = await createTestOrganization('Certificate Integration Rival')
+    organizationIds.push(organizationId, otherOrganizationId)
+
+    certifier = await createTestUser(organizationId, UserRole.CERTIFIER)
+    admin = await createTestUser(organizationId, UserRole.ADMIN)
+    otherOrganizationCertifier = await createTestUser(otherOrganizationId, UserRole.CERTIFIER)
+  })
+
+  afterAll(async () => {
+    await pool.query('DELETE FROM certificates WHERE id = ANY($1)', [certificateIds])
+    await removeTestOrganizations(organizationIds)
+  })
+
+  const registerCertificate = async () => {
+    const id = `cert_${crypto.randomBytes(8).toString('hex')}`
+    certificateIds.push(id)
+
+    await request(server)
+      .post('/api/certificates')
+      .set('Authorization', bearer(certifier))
+      .send({
+        id,
+        certificateNumber: `HAL-2031-${crypto.randomInt(100000, 999999)}`,
+        type: 'halal',
+        clientId: 'client-42',
+        productName: 'Gummy Bears',
+        standard: 'GSO 993:2015',
+        scope: 'Confectionery produced at the Rotterdam plant',
+        issuingAuthority: 'Certificate Integration Certifiers',
+        validFrom: new Date(Date.now() - DAY_MS).toISOString(),
+        validUntil: new Date(Date.now() + 365 * DAY_MS).toISOString()
+      })
+      .expect(201)
+
+    return id
+  }
+
+  it('should verify registered certificates publicly and keep full records to the issuer', async () => {
+    const id = await registerCertificate()
+
+    const verification = await request(server)
+      .get(`/api/certificates/verify/${id}`)
+      .expect(200)
+
+    expect(verification.body.data).toMatchObject({ certificateId: id, status: 'VALID', valid: true })
+    expect(verification.body.data).not.toHaveProperty('clientId')
+
+    const own = await request(server)
+      .get(`/api/certificates/${id}`)
+      .set('Authorization', bearer(certifier))
+      .expect(200)
+
+    expect(own.body.data.certificate.clientId).toBe('client-42')
+
+    await request(server)
+      .get(`/api/certificates/${id}`)
+      .set('Authorization', bearer(otherOrganizationCertifier))
+      .expect(404)
+
+    await request(server)
+      .post(`/api/certificates/${id}/suspend`)
+      .set('Authorization', bearer(otherOrganizationCertifier))
+      .send({ reason: 'Not ours' })
+      .expect(404)
+  })
+
+  it('should record suspension and reinstatement in the history', async () => {
+    const id = await registerCertificate()
+
+    await request(server)
+      .post(`/api/certificates/${id}/suspend`)
+      .set('Authorization', bearer(certifier))
+      .send({ reason: 'Audit findings pending' })
+      .expect(200)
+
+    const suspended = await request(server).get(`/api/certificates/verify/${id}`).expect(200)
+    expect(suspended.body.data).toMatchObject({ status: 'SUSPENDED', valid: false })
+
+    await request(server)
+      .post(`/api/certificates/${id}/reinstate`)
+      .set('Authorization', bearer(certifier))
+      .send({ reason: 'Findings closed' })
+      .expect(200)
+
+    const history = await request(server)
+      .get(`/api/certificates/${id}/history`)
+      .set('Authorization', bearer(certifier))
+      .expect(200)
+
+    expect(history.body.data.events.map((event: any) => event.action)).toEqual(['ISSUED', 'SUSPENDED', 'REINSTATED'])
+  })
+
+  it('should sign issued documents with a key published in the organization JWKS', async () => {
+    const id = await registerCertificate()
+    const documentHash = crypto.createHash('sha256').update('certificate pdf').digest('hex')
+
+    const signed = await request(server)
+      .post(`/api/certificates/${id}/signature`)
+      .set('Authorization', bearer(certifier))
+      .send({ documentHash })
+      .expect(200)
+
+    const { signature } = signed.body.data.certificate
+    expect(signature.hash).toBe(documentHash)
+
+    const jwks = await request(server)
+      .get(`/api/signing-keys/${certifier.organizationId}/jwks.json`)
+      .expect(200)
+
+    expect(jwks.body.keys.map((key: any) => key.kid)).toContain(signature.keyId)
+
+    const keys = await request(server)
+      .get('/api/signing-keys')
+      .set('Authorization', bearer(admin))
+      .expect(200)
+
+    expect(keys.body.data.signingKeys).toHaveLength(1)
+  })
+})
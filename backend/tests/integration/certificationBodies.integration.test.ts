@@ -0,0 +1,94 @@
+/**
+ * HalalCheck EU - Certification Body Directory Integration Tests
+ *
+ * End-to-end tests for maintaining the certification-body directory and
+ * its recognition matrix against the database
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import request from 'supertest'
+import { HalalCheckApp } from '../../src/app'
+import { pool } from '../../src/database/connection'
+import { UserRole } from '../../src/types'
+import { TestUser, bearer, createTestOrganization, createTestUser, removeTestOrganizations } from '../helpers/integration'
+
+describe('Certification Body Directory Integration', () => {
+  let server: any
+  let superAdmin: TestUser
+  let certifier: TestUser
+  const organizationIds: string[] = []
+
+  beforeAll(async () => {
+    server = new HalalCheckApp().getApp()
+
+    const organizationId = await createTestOrganization('Directory Integration Certifiers')
+    organizationIds.push(organizationId)
+
+    superAdmin = await createTestUser(organizationId, UserRole.SUPER_ADMIN)
+    certifier = await createTestUser(organizationId, UserRole.CERTIFIER)
+  })
+
+  afterAll(async () => {
+    await pool.query('DELETE FROM certification_bodies WHERE name LIKE \'Directory Integration%\'')
+    await removeTestOrganizations(organizationIds)
+  })
+
+  it('should import bodies from CSV and list their current recognitions', async () => {
+    const content = [
+      'name,aliases,country,standards,JAKIM,GAC',
+      'Directory Integration Halal Institute,DIHI,NL,JAKIM|GSO_993,2099-12-31,suspended'
+    ].join('\n')
+
+    const imported = await request(server)
+      .post('/api/certification-bodies/import')
+      .set('Authorization', bearer(superAdmin))
+      .send({ format: 'csv', content })
+      .expect(200)
+
+    expect(imported.body.data.created).toBe(1)
+
+    const listed = await request(server)
+      .get('/api/certification-bodies')
+      .query({ search: 'Directory Integration', authority: 'JAKIM' })
+      .set('Authorization', bearer(certifier))
+      .expect(200)
+
+    expect(listed.body.data.bodies).toHaveLength(1)
+    const [body] = listed.body.data.bodies
+    expect(body.aliases).toEqual(['DIHI'])
+    expect(body.recognitions.find((recognition: any) => recognition.authority === 'JAKIM').current).toBe(true)
+    expect(body.recognitions.find((recognition: any) => recognition.authority === 'GAC').current).toBe(false)
+  })
+
+  it('should reject updates based on a stale version', async () => {
+    const created = await request(server)
+      .post('/api/certification-bodies')
+      .set('Authorization', bearer(superAdmin))
+      .send({ name: 'Directory Integration Halal Board', country: 'DE' })
+      .expect(201)
+
+    const bodyId = created.body.data.id
+
+    await request(server)
+      .patch(`/api/certification-bodies/${bodyId}`)
+      .set('Authorization', bearer(superAdmin))
+      .send({ version: 1, accreditation: 'DAkkS ISO/IEC 17065' })
+      .expect(200)
+
+    const stale = await request(server)
+      .patch(`/api/certification-bodies/${bodyId}`)
+      .set('Authorization', bearer(superAdmin))
+      .send({ version: 1, accreditation: 'None' })
+      .expect(409)
+
+    expect(stale.body.error).toBe('VERSION_CONFLICT')
+  })
+
+  it('should leave directory maintenance to platform administrators', async () => {
+    await request(server)
+      .post('/api/certification-bodies')
+      .set('Authorization', bearer(certifier))
+      .send({ name: 'Directory Integration Unauthorized Body' })
+      .expect(403)
+  })
+})
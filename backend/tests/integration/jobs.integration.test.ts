@@ -0,0 +1,110 @@
+/**
+ * HalalCheck EU - Analysis Job Integration Tests
+ *
+ * End-to-end tests for queueing, inspecting and cancelling bulk analysis
+ * jobs against the database, including organization scoping
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import request from 'supertest'
+import { HalalCheckApp } from '../../src/app'
+import { UserRole } from '../../src/types'
+import { TestUser, bearer, createTestOrganization, createTestUser, removeTestOrganizations } from '../helpers/integration'
+
+describe('Analysis Job Integration', () => {
+  let server: any
+  let analyst: TestUser
+  let otherOrganizationAnalyst: TestUser
+  const organizationIds: string[] = []
+
+  beforeAll(async () => {
+    server = new HalalCheckApp().getApp()
+
+    const organizationId = await createTestOrganization('Job Integration Certifiers')
+    const otherOrganizationId = await createTestOrganization('Job Integration Rival')
+    organizationIds.push(organizationId, otherOrganizationId)
+
+    analyst = await createTestUser(organizationId, UserRole.ANALYST)
+    otherOrganizationAnalyst = await createTestUser(otherOrganizationId, UserRole.ANALYST)
+  })
+
+  afterAll(async () => {
+    await removeTestOrganizations(organizationIds)
+  })
+
+  it('should queue one item per product and keep the job to its organization', async () => {
+    const queued = await request(server)
+      .post('/api/jobs')
+      .set('Authorization', bearer(analyst))
+      .send({
+        items: [
+          { productName: 'Chocolate spread', ingredientText: 'Sugar, palm oil, hazelnuts, cocoa, lecithin (E322)' },
+          { productName: 'Gummy bears', ingredientText: 'Glucose syrup, sugar, gelatin, citric acid' }
+        ],
+        certificationStandard: 'HFCE'
+      })
+      .expect(202)
+
+    const jobId = queued.body.data.job.id
+    expect(queued.body.data.job).toMatchObject({ status: 'QUEUED', totalItems: 2 })
+
+    const job = await request(server)
+      .get(`/api/jobs/${jobId}`)
+      .set('Authorization', bearer(analyst))
+      .expect(200)
+
+    expect(job.body.data.job.items.map((item: any) => [item.label, item.status]))
+      .toEqual([['Chocolate spread', 'PENDING'], ['Gummy bears', 'PENDING']])
+
+    await request(server)
+      .get(`/api/jobs/${jobId}`)
+      .set('Authorization', bearer(otherOrganizationAnalyst))
+      .expect(404)
+
+    const other = await request(server)
+      .get('/api/jobs')
+      .set('Authorization', bearer(otherOrganizationAnalyst))
+      .expect(200)
+
+    expect(other.body.data.jobs).toHaveLength(0)
+  })
+
+  it('should cancel pending items once', async () => {
+    const queued = await request(server)
+      .post('/api/jobs')
+      .set('Authorization', bearer(analyst))
+      .send({ items: [{ productName: 'Marshmallows', ingredientText: 'Sugar, glucose syrup, gelatin' }] })
+      .expect(202)
+
+    const jobId = queued.body.data.job.id
+
+    await request(server)
+      .post(`/api/jobs/${jobId}/cancel`)
+      .set('Authorization', bearer(otherOrganizationAnalyst))
+      .expect(404)
+
+    const cancelled = await request(server)
+      .post(`/api/jobs/${jobId}/cancel`)
+      .set('Authorization', bearer(analyst))
+      .expect(200)
+
+    expect(cancelled.body.data.job.status).toBe('CANCELLED')
+
+    const again = await request(server)
+      .post(`/api/jobs/${jobId}/cancel`)
+      .set('Authorization', bearer(analyst))
+      .expect(409)
+
+    expect(again.body.error).toBe('JOB_NOT_ACTIVE')
+  })
+
+  it('should reject jobs without products', async () => {
+    const response = await request(server)
+      .post('/api/jobs')
+      .set('Authorization', bearer(analyst))
+      .send({ items: [] })
+      .expect(400)
+
+    expect(response.body.error).toBe('VALIDATION_ERROR')
+  })
+})
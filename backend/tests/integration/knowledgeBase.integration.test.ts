@@ -0,0 +1,59 @@
+/**
+ * HalalCheck EU - Knowledge Base Integration Tests
+ *
+ * End-to-end tests for who may propose and review ingredient classification
+ * changes, which apply to every organization
+ */
+
+import { describe, it, beforeAll, afterAll } from '@jest/globals'
+import request from 'supertest'
+import { HalalCheckApp } from '../../src/app'
+import { UserRole } from '../../src/types'
+import { TestUser, bearer, createTestOrganization, createTestUser, removeTestOrganizations } from '../helpers/integration'
+
+describe('Knowledge Base Integration', () => {
+  let server: any
+  let certifier: TestUser
+  let superAdmin: TestUser
+  const organizationIds: string[] = []
+
+  beforeAll(async () => {
+    server = new HalalCheckApp().getApp()
+
+    const organizationId = await createTestOrganization('Knowledge Base Integration Certifiers')
+    organizationIds.push(organizationId)
+
+    // Certification body sign-ups get the certifier role and its permissions
+    certifier = await createTestUser(organizationId, UserRole.CERTIFIER)
+    superAdmin = await createTestUser(organizationId, UserRole.SUPER_ADMIN)
+  })
+
+  afterAll(async () => {
+    await removeTestOrganizations(organizationIds)
+  })
+
+  it('should not let a self-registered certifier propose or review classification changes', async () => {
+    await request(server)
+      .get('/api/knowledge-base/proposals')
+      .set('Authorization', bearer(certifier))
+      .expect(403)
+
+    await request(server)
+      .post('/api/knowledge-base/ingredients/ingredient-1/proposals')
+      .set('Authorization', bearer(certifier))
+      .send({ changes: { defaultStatus: 'HARAM' }, rationale: 'Source confirmed as porcine' })
+      .expect(403)
+
+    await request(server)
+      .post('/api/knowledge-base/proposals/proposal-1/approve')
+      .set('Authorization', bearer(certifier))
+      .expect(403)
+  })
+
+  it('should let platform reviewers list proposals', async () => {
+    await request(server)
+      .get('/api/knowledge-base/proposals')
+      .set('Authorization', bearer(superAdmin))
+      .expect(200)
+  })
+})
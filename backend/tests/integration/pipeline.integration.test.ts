@@ -0,0 +1,165 @@
+/**
+ * HalalCheck EU - Certification Pipeline Integration Tests
+ *
+ * End-to-end tests for pipeline applications, custom columns and the
+ * document checklist against the database, including organization scoping
+ * and optimistic locking
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import request from 'supertest'
+import { HalalCheckApp } from '../../src/app'
+import { UserRole } from '../../src/types'
+import { TestUser, bearer, createTestOrganization, createTestUser, removeTestOrganizations } from '../helpers/integration'
+
+describe('Certification Pipeline Integration', () => {
+  let server: any
+  let certifier: TestUser
+  let analyst: TestUser
+  let otherOrganizationCertifier: TestUser
+  const organizationIds: string[] = []
+
+  beforeAll(async () => {
+    server = new HalalCheckApp().getApp()
+
+    const organizationId = await createTestOrganization('Pipeline Integration Certifiers')
+    const otherOrganizationId = await createTestOrganization('Pipeline Integration Rival')
+    organizationIds.push(organizationId, otherOrganizationId)
+
+    certifier = await createTestUser(organizationId, UserRole.CERTIFIER)
+    analyst = await createTestUser(organizationId, UserRole.ANALYST)
+    otherOrganizationCertifier = await createTestUser(otherOrganizationId, UserRole.CERTIFIER)
+  })
+
+  afterAll(async () => {
+    await removeTestOrganizations(organizationIds)
+  })
+
+  const createApplication = async (status = 'new') => {
+    const response = await request(server)
+      .post('/api/pipeline/applications')
+      .set('Authorization', bearer(certifier))
+      .send({ clientName: 'Fatima Yilmaz', company: 'Delights BV', productName: 'Turkish Delight', status })
+      .expect(201)
+
+    return response.body.data.application
+  }
+
+  it('should keep applications scoped to their organization', async () => {
+    const application = await createApplication()
+
+    const own = await request(server)
+      .get('/api/pipeline/applications')
+      .set('Authorization', bearer(analyst))
+      .expect(200)
+
+    expect(own.body.data.applications.map((a: any) => a.id)).toContain(application.id)
+
+    const other = await request(server)
+      .get('/api/pipeline/applications')
+      .set('Authorization', bearer(otherOrganizationCertifier))
+      .expect(200)
+
+    expect(other.body.data.applications).toHaveLength(0)
+
+    await request(server)
+      .patch(`/api/pipeline/applications/${application.id}`)
+      .set('Authorization', bearer(otherOrganizationCertifier))
+      .send({ version: 1, notes: 'Not ours' })
+      .expect(404)
+  })
+
+  it('should reject application updates based on a stale version', async () => {
+    const application = await createApplication()
+
+    const updated = await request(server)
+      .patch(`/api/pipeline/applications/${application.id}`)
+      .set('Authorization', bearer(analyst))
+      .send({ version: application.version, status: 'reviewing' })
+      .expect(200)
+
+    expect(updated.body.data.application.version).toBe(application.version + 1)
+
+    const stale = await request(server)
+      .patch(`/api/pipeline/applications/${application.id}`)
+      .set('Authorization', bearer(certifier))
+      .send({ version: application.version, notes: 'Overwrites the review' })
+      .expect(409)
+
+    expect(stale.body.error).toBe('VERSION_CONFLICT')
+  })
+
+  it('should move applications out of removed columns', async () => {
+    const saved = await request(server)
+      .put('/api/pipeline/columns')
+      .set('Authorization', bearer(certifier))
+      .send({ version: 0, columns: [{ id: 'custom-lab', title: 'Lab testing' }] })
+      .expect(200)
+
+    expect(saved.body.data.version).toBe(1)
+
+    await request(server)
+      .put('/api/pipeline/columns')
+      .set('Authorization', bearer(certifier))
+      .send({ version: 0, columns: [] })
+      .expect(409)
+
+    const application = await createApplication('custom-lab')
+
+    await request(server)
+      .put('/api/pipeline/columns')
+      .set('Authorization', bearer(certifier))
+      .send({ version: 1, columns: [] })
+      .expect(200)
+
+    const moved = await request(server)
+      .get(`/api/pipeline/applications/${application.id}`)
+      .set('Authorization', bearer(certifier))
+      .expect(200)
+
+    expect(moved.body.data.application.status).toBe('new')
+
+    const otherColumns = await request(server)
+      .get('/api/pipeline/columns')
+      .set('Authorization', bearer(otherOrganizationCertifier))
+      .expect(200)
+
+    expect(otherColumns.body.data).toMatchObject({ columns: [], version: 0 })
+  })
+
+  it('should track each application against the organization checklist', async () => {
+    const builtIn = await request(server)
+      .get('/api/pipeline/checklist')
+      .set('Authorization', bearer(certifier))
+      .expect(200)
+
+    expect(builtIn.body.data.version).toBe(0)
+
+    await request(server)
+      .put('/api/pipeline/checklist')
+      .set('Authorization', bearer(certifier))
+      .send({
+        version: 0,
+        items: [{ key: 'supplier-halal-certificates', title: 'Supplier halal certificates', category: 'supplier-certificate', tracksExpiry: true }]
+      })
+      .expect(200)
+
+    const application = await createApplication()
+
+    const checklist = await request(server)
+      .get(`/api/pipeline/applications/${application.id}/checklist`)
+      .set('Authorization', bearer(analyst))
+      .expect(200)
+
+    expect(checklist.body.data).toMatchObject({ applicationId: application.id, complete: false, unmatched: [] })
+    expect(checklist.body.data.items.map((status: any) => [status.item.key, status.state]))
+      .toEqual([['supplier-halal-certificates', 'missing']])
+
+    const otherChecklist = await request(server)
+      .get('/api/pipeline/checklist')
+      .set('Authorization', bearer(otherOrganizationCertifier))
+      .expect(200)
+
+    expect(otherChecklist.body.data.version).toBe(0)
+  })
+})
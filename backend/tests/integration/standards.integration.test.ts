@@ -0,0 +1,96 @@
+/**
+ * HalalCheck EU - Certification Standards Integration Tests
+ *
+ * End-to-end tests for maintaining organization rule sets against the
+ * database, including organization scoping and sharing
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import request from 'supertest'
+import { HalalCheckApp } from '../../src/app'
+import { HalalStatus, UserRole } from '../../src/types'
+import { TestUser, bearer, createTestOrganization, createTestUser, removeTestOrganizations } from '../helpers/integration'
+
+const NO_CARMINE = [{
+  id: 'custom-no-carmine',
+  description: 'Carmine not accepted by this certifier',
+  when: { eNumbers: ['E120'] },
+  then: { status: HalalStatus.HARAM }
+}]
+
+describe('Certification Standards Integration', () => {
+  let server: any
+  let certifier: TestUser
+  let analyst: TestUser
+  let otherOrganizationCertifier: TestUser
+  const organizationIds: string[] = []
+
+  beforeAll(async () => {
+    server = new HalalCheckApp().getApp()
+
+    const organizationId = await createTestOrganization('Standards Integration Certifiers')
+    const otherOrganizationId = await createTestOrganization('Standards Integration Rival')
+    organizationIds.push(organizationId, otherOrganizationId)
+
+    certifier = await createTestUser(organizationId, UserRole.CERTIFIER)
+    analyst = await createTestUser(organizationId, UserRole.ANALYST)
+    otherOrganizationCertifier = await createTestUser(otherOrganizationId, UserRole.CERTIFIER)
+  })
+
+  afterAll(async () => {
+    await removeTestOrganizations(organizationIds)
+  })
+
+  it('should keep unshared rule sets to their organization', async () => {
+    const created = await request(server)
+      .post('/api/standards/custom')
+      .set('Authorization', bearer(certifier))
+      .send({ name: 'Standards Integration Strict', extends: 'HFCE', rules: NO_CARMINE })
+      .expect(201)
+
+    const ruleSetId = created.body.data.ruleSet.id
+
+    const own = await request(server)
+      .get('/api/standards/custom')
+      .set('Authorization', bearer(analyst))
+      .expect(200)
+
+    expect(own.body.data.ruleSets.map((ruleSet: any) => ruleSet.id)).toContain(ruleSetId)
+
+    const other = await request(server)
+      .get('/api/standards/custom')
+      .set('Authorization', bearer(otherOrganizationCertifier))
+      .expect(200)
+
+    expect(other.body.data.ruleSets.map((ruleSet: any) => ruleSet.id)).not.toContain(ruleSetId)
+
+    await request(server)
+      .put(`/api/standards/custom/${ruleSetId}`)
+      .set('Authorization', bearer(otherOrganizationCertifier))
+      .send({ name: 'Not ours', rules: NO_CARMINE })
+      .expect(404)
+
+    await request(server)
+      .delete(`/api/standards/custom/${ruleSetId}`)
+      .set('Authorization', bearer(certifier))
+      .expect(200)
+  })
+
+  it('should reject invalid rules', async () => {
+    const response = await request(server)
+      .post('/api/standards/custom')
+      .set('Authorization', bearer(certifier))
+      .send({ name: 'Standards Integration Invalid', rules: [{ id: 'r1', description: '', when: {}, then: {} }] })
+      .expect(400)
+
+    expect(response.body.error).toBe('VALIDATION_ERROR')
+  })
+
+  it('should leave rule set maintenance to certifiers and administrators', async () => {
+    await request(server)
+      .post('/api/standards/custom')
+      .set('Authorization', bearer(analyst))
+      .send({ name: 'Standards Integration Unauthorized', rules: NO_CARMINE })
+      .expect(403)
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * HalalCheck EU - Supplier Registry Integration Tests
+ *
+ * End-to-end tests for suppliers, their materials and certificates against
+ * the database, including organization scoping and optimistic locking
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import request from 'supertest'
+import { HalalCheckApp } from '../../src/app'
+import { OrganizationType, UserRole } from '../../src/types'
+import { TestUser, bearer, createTestOrganization, createTestUser, removeTestOrganizations } from '../helpers/integration'
+
+describe('Supplier Registry Integration', () => {
+  let server: any
+  let manufacturer: TestUser
+  let analyst: TestUser
+  let otherOrganizationUser: TestUser
+  const organizationIds: string[] = []
+
+  beforeAll(async () => {
+    server = new HalalCheckApp().getApp()
+
+    const organizationId = await createTestOrganization('Supplier Integration Foods', OrganizationType.FOOD_MANUFACTURER)
+    const otherOrganizationId = await createTestOrganization('Supplier Integration Rival', OrganizationType.FOOD_MANUFACTURER)
+    organizationIds.push(organizationId, otherOrganizationId)
+
+    manufacturer = await createTestUser(organizationId, UserRole.MANUFACTURER)
+    analyst = await createTestUser(organizationId, UserRole.ANALYST)
+    otherOrganizationUser = await createTestUser(otherOrganizationId, UserRole.MANUFACTURER)
+  })
+
+  afterAll(async () => {
+    await removeTestOrganizations(organizationIds)
+  })
+
+  it('should register a supplier with a material and certificate visible only to its organization', async () => {
+    const supplier = await request(server)
+      .post('/api/suppliers')
+      .set('Authorization', bearer(manufacturer))
+      .send({ name: 'Lecithin Trading BV', country: 'NL', contactEmail: 'sales@lecithin.example.com' })
+      .expect(201)
+
+    const supplierId = supplier.body.data.id
+
+    const material = await request(server)
+      .post(`/api/suppliers/${supplierId}/materials`)
+      .set('Authorization', bearer(manufacturer))
+      .send({ name: 'Sunflower lecithin', productCode: 'SL-100' })
+      .expect(201)
+
+    await request(server)
+      .post(`/api/suppliers/${supplierId}/certificates`)
+      .set('Authorization', bearer(manufacturer))
+      .send({
+        issuer: 'Halal Quality Control',
+        certificateNumber: 'HQC-2031',
+        validUntil: '2099-12-31',
+        materialIds: [material.body.data.id]
+      })
+      .expect(201)
+
+    const own = await request(server)
+      .get('/api/suppliers')
+      .set('Authorization', bearer(analyst))
+      .expect(200)
+
+    expect(own.body.data.suppliers).toHaveLength(1)
+    expect(own.body.data.suppliers[0].materials).toHaveLength(1)
+    expect(own.body.data.suppliers[0].certificates).toHaveLength(1)
+
+    const other = await request(server)
+      .get('/api/suppliers')
+      .set('Authorization', bearer(otherOrganizationUser))
+      .expect(200)
+
+    expect(other.body.data.suppliers).toHaveLength(0)
+
+    await request(server)
+      .get(`/api/suppliers/${supplierId}`)
+      .set('Authorization', bearer(otherOrganizationUser))
+      .expect(404)
+  })
+
+  it('should reject updates based on a stale version', async () => {
+    const supplier = await request(server)
+      .post('/api/suppliers')
+      .set('Authorization', bearer(manufacturer))
+      .send({ name: 'Gelatin Imports GmbH', country: 'DE' })
+      .expect(201)
+
+    const supplierId = supplier.body.data.id
+
+    const updated = await request(server)
+      .patch(`/api/suppliers/${supplierId}`)
+      .set('Authorization', bearer(manufacturer))
+      .send({ version: 1, notes: 'Bovine gelatin only' })
+      .expect(200)
+
+    expect(updated.body.data.version).toBe(2)
+
+    const stale = await request(server)
+      .patch(`/api/suppliers/${supplierId}`)
+      .set('Authorization', bearer(manufacturer))
+      .send({ version: 1, notes: 'Porcine gelatin' })
+      .expect(409)
+
+    expect(stale.body.error).toBe('VERSION_CONFLICT')
+  })
+
+  it('should require the supplier management permission to make changes', async () => {
+    await request(server)
+      .post('/api/suppliers')
+      .set('Authorization', bearer(analyst))
+      .send({ name: 'Unauthorized Supplier' })
+      .expect(403)
+  })
+})
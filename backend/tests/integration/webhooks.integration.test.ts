@@ -0,0 +1,91 @@
+/**
+ * HalalCheck EU - Webhook Integration Tests
+ *
+ * End-to-end tests for registering endpoints and queueing deliveries for
+ * published events against the database
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import request from 'supertest'
+import { HalalCheckApp } from '../../src/app'
+import { UserRole } from '../../src/types'
+import { TestUser, bearer, createTestOrganization, createTestUser, removeTestOrganizations } from '../helpers/integration'
+
+describe('Webhook Integration', () => {
+  let server: any
+  let admin: TestUser
+  let otherOrganizationAdmin: TestUser
+  let analyst: TestUser
+  const organizationIds: string[] = []
+
+  beforeAll(async () => {
+    server = new HalalCheckApp().getApp()
+
+    const organizationId = await createTestOrganization('Webhook Integration Certifiers')
+    const otherOrganizationId = await createTestOrganization('Webhook Integration Rival')
+    organizationIds.push(organizationId, otherOrganizationId)
+
+    admin = await createTestUser(organizationId, UserRole.ADMIN)
+    analyst = await createTestUser(organizationId, UserRole.ANALYST)
+    otherOrganizationAdmin = await createTestUser(otherOrganizationId, UserRole.ADMIN)
+  })
+
+  afterAll(async () => {
+    await removeTestOrganizations(organizationIds)
+  })
+
+  it('should queue deliveries only for subscribed endpoints of the publishing organization', async () => {
+    const subscribed = await request(server)
+      .post('/api/webhooks')
+      .set('Authorization', bearer(admin))
+      .send({ url: 'https://erp.example.com/halalcheck', eventTypes: ['certificate-generated'] })
+      .expect(201)
+
+    expect(subscribed.body.data.secret).toBeTruthy()
+    const endpointId = subscribed.body.data.endpoint.id
+
+    await request(server)
+      .post('/api/webhooks')
+      .set('Authorization', bearer(otherOrganizationAdmin))
+      .send({ url: 'https://rival.example.com/hooks', eventTypes: ['certificate-generated'] })
+      .expect(201)
+
+    const published = await request(server)
+      .post('/api/webhooks/events')
+      .set('Authorization', bearer(admin))
+      .send({ type: 'certificate-generated', data: { certificateId: 'HC-2031-0001' } })
+      .expect(202)
+
+    expect(published.body.data.queued).toBe(1)
+
+    const deliveries = await request(server)
+      .get(`/api/webhooks/${endpointId}/deliveries`)
+      .set('Authorization', bearer(admin))
+      .expect(200)
+
+    expect(deliveries.body.data.deliveries).toHaveLength(1)
+    expect(deliveries.body.data.deliveries[0]).toMatchObject({ eventType: 'certificate-generated', status: 'PENDING' })
+
+    await request(server)
+      .get(`/api/webhooks/${endpointId}/deliveries`)
+      .set('Authorization', bearer(otherOrganizationAdmin))
+      .expect(404)
+  })
+
+  it('should refuse endpoints on private hosts', async () => {
+    const response = await request(server)
+      .post('/api/webhooks')
+      .set('Authorization', bearer(admin))
+      .send({ url: 'https://10.0.0.5/hooks', eventTypes: ['certificate-generated'] })
+      .expect(400)
+
+    expect(response.body.error).toBe('VALIDATION_ERROR')
+  })
+
+  it('should require the webhook permission', async () => {
+    await request(server)
+      .get('/api/webhooks')
+      .set('Authorization', bearer(analyst))
+      .expect(403)
+  })
+})
@@ -0,0 +1,191 @@
+/**
+ * HalalCheck EU - Workflow Integration Tests
+ *
+ * End-to-end tests for human workflow tasks and persisted orchestrator
+ * executions against the database, including organization scoping
+ */
+
+import crypto from 'crypto'
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import request from 'supertest'
+import { HalalCheckApp } from '../../src/app'
+import { UserRole } from '../../src/types'
+import { TestUser, bearer, createTestOrganization, createTestUser, removeTestOrganizations } from '../helpers/integration'
+
+describe('Workflow Integration', () => {
+  let server: any
+  let admin: TestUser
+  let certifier: TestUser
+  let scholar: TestUser
+  let otherOrganizationCertifier: TestUser
+  const organizationIds: string[] = []
+
+  beforeAll(async () => {
+    server = new HalalCheckApp().getApp()
+
+    const organizationId = await createTestOrganization('Workflow Integration Certifiers')
+    const otherOrganizationId = await createTestOrganization('Workflow Integration Rival')
+    organizationIds.push(organizationId, otherOrganizationId)
+
+    admin = await createTestUser(organizationId, UserRole.ADMIN)
+    certifier = await createTestUser(organizationId, UserRole.CERTIFIER)
+    scholar = await createTestUser(organizationId, UserRole.ANALYST)
+    otherOrganizationCertifier = await createTestUser(otherOrganizationId, UserRole.CERTIFIER)
+
+    await request(server)
+      .put(`/api/users/${scholar.id}/workflow-roles`)
+      .set('Authorization', bearer(admin))
+      .send({ workflowRoles: ['islamic-scholar'] })
+      .expect(200)
+  })
+
+  afterAll(async () => {
+    await removeTestOrganizations(organizationIds)
+  })
+
+  const openTask = async (stageId: string) => {
+    const response = await request(server)
+      .post('/api/workflow-tasks')
+      .set('Authorization', bearer(certifier))
+      .send({
+        workflowInstanceId: `wf_${crypto.randomBytes(6).toString('hex')}`,
+        workflowId: 'halal-certification',
+        stageId,
+        type: 'APPROVAL',
+        title: 'Analysis Review: Chocolate spread',
+        assigneeRoles: ['islamic-scholar'],
+        approveStage: 'facility-inspection',
+        rejectStage: 'request-additional-docs',
+        durationHours: 8
+      })
+      .expect(201)
+
+    return response.body.data.task
+  }
+
+  it('should route tasks to holders of the assignee role and hand the decision back', async () => {
+    const task = await openTask('analysis-review')
+
+    const inbox = await request(server)
+      .get('/api/workflow-tasks')
+      .set('Authorization', bearer(scholar))
+      .expect(200)
+
+    expect(inbox.body.data.tasks.map((t: any) => t.id)).toEqual([task.id])
+
+    await request(server)
+      .post(`/api/workflow-tasks/${task.id}/claim`)
+      .set('Authorization', bearer(scholar))
+      .expect(200)
+
+    await request(server)
+      .post(`/api/workflow-tasks/${task.id}/comments`)
+      .set('Authorization', bearer(scholar))
+      .send({ body: 'E471 source confirmed as plant-based' })
+      .expect(201)
+
+    const decided = await request(server)
+      .post(`/api/workflow-tasks/${task.id}/decision`)
+      .set('Authorization', bearer(scholar))
+      .send({ decision: 'APPROVED', reason: 'All ingredients verified' })
+      .expect(200)
+
+    expect(decided.body.data.task).toMatchObject({ status: 'APPROVED', decidedBy: scholar.id })
+
+    const pending = await request(server)
+      .get('/api/workflow-tasks/decisions')
+      .set('Authorization', bearer(certifier))
+      .expect(200)
+
+    expect(pending.body.data.tasks.map((t: any) => t.id)).toEqual([task.id])
+
+    await request(server)
+      .post(`/api/workflow-tasks/${task.id}/decision/ack`)
+      .set('Authorization', bearer(certifier))
+      .send({})
+      .expect(200)
+
+    const acknowledged = await request(server)
+      .get('/api/workflow-tasks/decisions')
+      .set('Authorization', bearer(certifier))
+      .expect(200)
+
+    expect(acknowledged.body.data.tasks).toHaveLength(0)
+  })
+
+  it('should keep tasks scoped to their organization', async () => {
+    const task = await openTask('final-review')
+
+    await request(server)
+      .get(`/api/workflow-tasks/${task.id}`)
+      .set('Authorization', bearer(otherOrganizationCertifier))
+      .expect(404)
+
+    await request(server)
+      .post(`/api/workflow-tasks/${task.id}/claim`)
+      .set('Authorization', bearer(otherOrganizationCertifier))
+      .expect(404)
+  })
+
+  it('should leave opening tasks to workflow managers', async () => {
+    await request(server)
+      .post('/api/workflow-tasks')
+      .set('Authorization', bearer(scholar))
+      .send({ workflowInstanceId: 'wf_unauthorized', workflowId: 'halal-certification', stageId: 'analysis-review', type: 'MANUAL', title: 'Unauthorized' })
+      .expect(403)
+  })
+
+  it('should let another worker resume an execution released by its worker', async () => {
+    const id = `exec_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`
+
+    await request(server)
+      .post('/api/workflow-executions')
+      .set('Authorization', bearer(certifier))
+      .send({ id, workflowId: 'halal-analysis', workerId: 'agents-a', currentStep: 'process-document', data: { productName: 'Chocolate spread' } })
+      .expect(201)
+
+    const checkpointed = await request(server)
+      .put(`/api/workflow-executions/${id}/checkpoint`)
+      .set('Authorization', bearer(certifier))
+      .send({
+        workerId: 'agents-a',
+        status: 'PENDING',
+        currentStep: 'analyze-ingredients',
+        currentStepIndex: 1,
+        progress: 50,
+        results: { 'process-document': { ingredients: ['sugar', 'gelatin'] } },
+        errors: [],
+        retryCount: {}
+      })
+      .expect(200)
+
+    expect(checkpointed.body.data.execution).toMatchObject({ status: 'PENDING', progress: 50 })
+
+    const otherClaim = await request(server)
+      .post('/api/workflow-executions/claim')
+      .set('Authorization', bearer(otherOrganizationCertifier))
+      .send({ workerId: 'agents-rival', limit: 10 })
+      .expect(200)
+
+    expect(otherClaim.body.data.executions).toHaveLength(0)
+
+    const claimed = await request(server)
+      .post('/api/workflow-executions/claim')
+      .set('Authorization', bearer(certifier))
+      .send({ workerId: 'agents-b', limit: 10 })
+      .expect(200)
+
+    expect(claimed.body.data.executions).toHaveLength(1)
+    expect(claimed.body.data.executions[0]).toMatchObject({
+      id,
+      status: 'RUNNING',
+      workerId: 'agents-b',
+      results: { 'process-document': { ingredients: ['sugar', 'gelatin'] } }
+    })
+
+    await request(server)
+      .get(`/api/workflow-executions/${id}`)
+      .set('Authorization', bearer(otherOrganizationCertifier))
+      .expect(404)
+  })
+})
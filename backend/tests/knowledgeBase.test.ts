@@ -0,0 +1,89 @@
+/**
+ * HalalCheck EU - Knowledge Base Tests
+ *
+ * Unit tests for reviewed ingredient classification changes
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { KnowledgeBaseService } from '../src/services/knowledgeBaseService'
+import { DatabaseService } from '../src/services/databaseService'
+import { ChangeProposalStatus, HalalStatus, IngredientChangeProposal, RiskLevel } from '../src/types/halal'
+
+describe('KnowledgeBaseService', () => {
+  let service: KnowledgeBaseService
+
+  const proposal: IngredientChangeProposal = {
+    id: 'proposal-1',
+    ingredientId: 'ingredient-1',
+    baseVersion: 3,
+    changes: { defaultStatus: HalalStatus.HARAM },
+    previousValues: { defaultStatus: HalalStatus.MASHBOOH },
+    rationale: 'Source confirmed as porcine',
+    references: [],
+    status: ChangeProposalStatus.PENDING,
+    proposedBy: 'scholar-1',
+    createdAt: new Date()
+  }
+
+  beforeEach(() => {
+    service = new KnowledgeBaseService({} as DatabaseService)
+  })
+
+  describe('validateProposal', () => {
+    it('should accept classification changes with a rationale', () => {
+      const errors = service.validateProposal({
+        changes: { defaultStatus: HalalStatus.HARAM, riskLevel: RiskLevel.VERY_HIGH, islamicRulings: ['Fatwa 2024/12'] },
+        rationale: 'Supplier audit found porcine origin'
+      })
+
+      expect(errors).toEqual([])
+    })
+
+    it('should require a rationale and at least one change', () => {
+      const errors = service.validateProposal({ changes: {}, rationale: ' ' })
+
+      expect(errors).toContain('rationale is required')
+      expect(errors).toContain('changes needs at least one field')
+    })
+
+    it('should reject fields outside the reviewed set and invalid values', () => {
+      const errors = service.validateProposal({
+        changes: { name: 'Gelatine', defaultStatus: HalalStatus.UNCERTAIN, requiresCertificate: 'yes' } as any,
+        rationale: 'Rename'
+      })
+
+      expect(errors).toHaveLength(3)
+      expect(errors[0]).toMatch(/^name cannot be changed/)
+      expect(errors[1]).toMatch(/^defaultStatus must be one of/)
+      expect(errors[2]).toBe('requiresCertificate must be a boolean')
+    })
+  })
+
+  describe('assertReviewable', () => {
+    it('should allow a second scholar to review', () => {
+      expect(() => service.assertReviewable(proposal, 'scholar-2')).not.toThrow()
+    })
+
+    it('should not let the proposer approve their own change', () => {
+      expect(() => service.assertReviewable(proposal, 'scholar-1')).toThrow(
+        expect.objectContaining({ statusCode: 403, code: 'SELF_REVIEW_NOT_ALLOWED' })
+      )
+    })
+
+    it('should not review a proposal twice', () => {
+      const approved = { ...proposal, status: ChangeProposalStatus.APPROVED }
+
+      expect(() => service.assertReviewable(approved, 'scholar-2')).toThrow(
+        expect.objectContaining({ statusCode: 409, code: 'PROPOSAL_NOT_PENDING' })
+      )
+    })
+  })
+
+  describe('affectsVerdicts', () => {
+    it('should only flag analyses for changes that can alter a verdict', () => {
+      expect(service.affectsVerdicts({ defaultStatus: HalalStatus.HARAM })).toBe(true)
+      expect(service.affectsVerdicts({ alternativeNames: ['porcine gelatine'] })).toBe(true)
+      expect(service.affectsVerdicts({ description: 'Updated wording', sourcesReferences: ['HFCE 2024'] })).toBe(false)
+    })
+  })
+})
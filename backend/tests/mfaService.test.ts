@@ -0,0 +1,172 @@
+/**
+ * HalalCheck EU - MFA Tests
+ *
+ * Unit tests for TOTP generation, enrollment, replay protection and backup codes
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import {
+  MfaService,
+  BACKUP_CODE_COUNT,
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  provisioningUri,
+  totpStep,
+  verifyTotp
+} from '../src/services/mfaService'
+import { DatabaseService } from '../src/services/databaseService'
+import { databaseDouble, queryResult } from './helpers/database'
+
+// RFC 6238 test secret ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+interface UserRow {
+  email: string
+  mfa_enabled: boolean
+  mfa_secret: string | null
+  mfa_backup_codes: string[] | null
+  mfa_last_used_step: number | null
+  requires_mfa: boolean
+}
+
+/**
+ * Database double holding a single user row and applying the service's updates
+ */
+function fakeDatabase(row: UserRow): DatabaseService {
+  return databaseDouble((sql, params) => {
+    if (sql.startsWith('SELECT')) {
+      return queryResult([{ ...row }])
+    }
+    if (sql.includes('mfa_last_used_step = $2') && sql.includes('mfa_last_used_step <')) {
+      if (row.mfa_last_used_step !== null && row.mfa_last_used_step >= params[1]) {
+        return queryResult([])
+      }
+      row.mfa_last_used_step = params[1]
+      return queryResult([{ id: params[0] }])
+    }
+    if (sql.includes('array_remove')) {
+      const codes = row.mfa_backup_codes || []
+      if (!codes.includes(params[1])) {
+        return queryResult([])
+      }
+      row.mfa_backup_codes = codes.filter(code => code !== params[1])
+      return queryResult([{ remaining: row.mfa_backup_codes.length }])
+    }
+    if (sql.includes('mfa_enabled = TRUE')) {
+      Object.assign(row, { mfa_enabled: true, mfa_backup_codes: params[1], mfa_last_used_step: params[2] })
+    } else if (sql.includes('mfa_enabled = FALSE')) {
+      Object.assign(row, { mfa_enabled: false, mfa_secret: null, mfa_backup_codes: null, mfa_last_used_step: null })
+    } else if (sql.includes('mfa_secret = $2')) {
+      Object.assign(row, { mfa_secret: params[1], mfa_backup_codes: null, mfa_last_used_step: null })
+    } else if (sql.includes('mfa_backup_codes = $2')) {
+      row.mfa_backup_codes = params[1]
+    }
+    return queryResult([], 1)
+  })
+}
+
+describe('TOTP', () => {
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082')
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804')
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924')
+  })
+
+  it('should round-trip base32 secrets', () => {
+    const secret = Buffer.from('halal-check-secret!')
+    expect(base32Decode(base32Encode(secret))).toEqual(secret)
+  })
+
+  it('should accept codes from the adjacent step only', () => {
+    const now = 1111111109 * 1000
+    const previous = generateTotp(RFC_SECRET, now - 30 * 1000)
+    const stale = generateTotp(RFC_SECRET, now - 90 * 1000)
+
+    expect(verifyTotp(RFC_SECRET, previous, now)).toBe(totpStep(now) - 1)
+    expect(verifyTotp(RFC_SECRET, stale, now)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull()
+  })
+
+  it('should build an authenticator provisioning URI', () => {
+    expect(provisioningUri('ABC', 'certifier@example.com', 'HalalCheck EU')).toBe(
+      'otpauth://totp/HalalCheck%20EU%3Acertifier%40example.com?secret=ABC&issuer=HalalCheck+EU&algorithm=SHA1&digits=6&period=30'
+    )
+  })
+})
+
+describe('MfaService', () => {
+  let row: UserRow
+  let service: MfaService
+
+  beforeEach(() => {
+    row = {
+      email: 'certifier@example.com',
+      mfa_enabled: false,
+      mfa_secret: null,
+      mfa_backup_codes: null,
+      mfa_last_used_step: null,
+      requires_mfa: true
+    }
+    service = new MfaService(fakeDatabase(row))
+  })
+
+  async function enroll(): Promise<{ secret: string; backupCodes: string[] }> {
+    const { secret } = await service.beginEnrollment('user-1')
+    const backupCodes = await service.confirmEnrollment('user-1', generateTotp(secret, Date.now() - 30 * 1000))
+    return { secret, backupCodes }
+  }
+
+  it('should store the secret encrypted until enrollment is confirmed', async () => {
+    const { secret, otpauthUrl } = await service.beginEnrollment('user-1')
+
+    expect(row.mfa_secret).not.toContain(secret)
+    expect(otpauthUrl).toContain(`secret=${secret}`)
+    await expect(service.isEnrollmentRequired('user-1')).resolves.toBe(true)
+    await expect(service.confirmEnrollment('user-1', '000000')).rejects.toMatchObject({ code: 'INVALID_MFA_CODE' })
+  })
+
+  it('should enable MFA with hashed one-time backup codes', async () => {
+    const { backupCodes } = await enroll()
+
+    expect(row.mfa_enabled).toBe(true)
+    expect(backupCodes).toHaveLength(BACKUP_CODE_COUNT)
+    expect(row.mfa_backup_codes).not.toContain(backupCodes[0])
+    await expect(service.isEnrollmentRequired('user-1')).resolves.toBe(false)
+
+    await expect(service.verifyCode('user-1', backupCodes[0]!.toLowerCase())).resolves.toEqual({
+      method: 'backup_code',
+      remainingBackupCodes: BACKUP_CODE_COUNT - 1
+    })
+    await expect(service.verifyCode('user-1', backupCodes[0]!)).resolves.toBeNull()
+  })
+
+  it('should reject a TOTP code that was already used', async () => {
+    const { secret } = await enroll()
+    const code = generateTotp(secret)
+
+    await expect(service.verifyCode('user-1', code)).resolves.toEqual({ method: 'totp' })
+    await expect(service.verifyCode('user-1', code)).resolves.toBeNull()
+  })
+
+  it('should not disable MFA the organization requires', async () => {
+    const { backupCodes } = await enroll()
+
+    await expect(service.disable('user-1', backupCodes[1]!)).rejects.toMatchObject({
+      code: 'MFA_REQUIRED_BY_ORGANIZATION'
+    })
+    expect(row.mfa_enabled).toBe(true)
+  })
+
+  it('should refuse to start without a key to encrypt secrets with', () => {
+    const environment = { ...process.env }
+    delete process.env.MFA_ENCRYPTION_KEY
+    delete process.env.JWT_SECRET
+
+    try {
+      expect(() => new MfaService(fakeDatabase(row))).toThrow('MFA_ENCRYPTION_KEY or JWT_SECRET must be set')
+    } finally {
+      process.env = environment
+    }
+  })
+})
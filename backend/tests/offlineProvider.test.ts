@@ -0,0 +1,104 @@
+/**
+ * HalalCheck EU - Offline Provider Tests
+ *
+ * Unit tests for the deterministic rule-based LLM provider
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { OfflineProvider } from '../src/services/offlineProvider'
+import { createLLMProvider } from '../src/services/llmProvider'
+import { HalalStatus, RiskLevel } from '../src/types'
+
+describe('OfflineProvider', () => {
+  let provider: OfflineProvider
+
+  const context = {
+    language: 'en',
+    region: 'EU',
+    certificationStandard: 'HFCE'
+  }
+
+  beforeEach(() => {
+    provider = new OfflineProvider()
+  })
+
+  describe('parseIngredients', () => {
+    it('should split label text and drop the label prefix', async () => {
+      const ingredients = await provider.parseIngredients('Ingredients: water, sugar 12%, salt.', 'en')
+
+      expect(ingredients).toEqual(['water', 'sugar', 'salt'])
+    })
+
+    it('should standardize E-numbers', async () => {
+      const ingredients = await provider.parseIngredients('flour, emulsifier (E 471), colour: e-120', 'en')
+
+      expect(ingredients).toEqual(['flour', 'E471', 'E120'])
+    })
+
+    it('should not split inside parentheses', async () => {
+      const ingredients = await provider.parseIngredients('chocolate (cocoa mass, sugar), milk', 'en')
+
+      expect(ingredients).toEqual(['chocolate (cocoa mass, sugar)', 'milk'])
+    })
+
+    it('should be deterministic', async () => {
+      const text = 'Zutaten: Wasser, Zucker, Schweinegelatine, E471'
+      const first = await provider.parseIngredients(text, 'de')
+      const second = await provider.parseIngredients(text, 'de')
+
+      expect(first).toEqual(second)
+    })
+  })
+
+  describe('parseIngredientTree', () => {
+    it('should keep sub-ingredients and percentages with standardized names', async () => {
+      const tree = await provider.parseIngredientTree('Ingrediënten: snoep 40% (suiker, varkensgelatine, E 120)', 'nl')
+
+      expect(tree).toHaveLength(1)
+      expect(tree[0]?.percentage).toBe(40)
+      expect(tree[0]?.children.map(child => child.name)).toEqual(['suiker', 'Pork Gelatin', 'E120'])
+    })
+  })
+
+  describe('classifyIngredient', () => {
+    it('should classify pork gelatin as haram', async () => {
+      const result = await provider.classifyIngredient('Pork Gelatin', context)
+
+      expect(result.status).toBe(HalalStatus.HARAM)
+      expect(result.riskLevel).toBe(RiskLevel.VERY_HIGH)
+      expect(result.confidence).toBeGreaterThanOrEqual(0.85)
+    })
+
+    it('should classify translated ingredient names', async () => {
+      const parsed = await provider.parseIngredients('varkensgelatine', 'nl')
+      expect(parsed).toHaveLength(1)
+      const result = await provider.classifyIngredient(parsed[0]!, context)
+
+      expect(result.status).toBe(HalalStatus.HARAM)
+    })
+
+    it('should classify ingredients by E-number', async () => {
+      const result = await provider.classifyIngredient('E120', context)
+
+      expect(result.eNumbers).toContain('E120')
+      expect(result.confidence).toBe(0.95)
+    })
+
+    it('should mark unknown ingredients as uncertain', async () => {
+      const result = await provider.classifyIngredient('zyxwvutsrq', context)
+
+      expect(result.status).toBe(HalalStatus.UNCERTAIN)
+      expect(result.requiresExpertReview).toBe(true)
+      expect(result.confidence).toBe(0.3)
+    })
+  })
+
+  describe('createLLMProvider', () => {
+    it('should create the offline provider by name', () => {
+      const created = createLLMProvider('offline')
+
+      expect(created.name).toBe('offline')
+      expect(created.model).toBe('halalcheck-rules-v1')
+    })
+  })
+})
@@ -0,0 +1,289 @@
+/**
+ * HalalCheck EU - Pipeline Document Tests
+ *
+ * Unit tests for application documents: uploads queued for processing,
+ * matching extracted certificates to the checklist, expiry tracking and the
+ * organization's checklist
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { PipelineDocumentService } from '../src/services/pipelineDocumentService'
+import { PipelineService } from '../src/services/pipelineService'
+import { DatabaseService } from '../src/services/databaseService'
+import { databaseDouble, queryResult, assignments, dateIn } from './helpers/database'
+import { ObjectStorage } from '../src/services/objectStorage'
+import { PipelineEvent } from '../src/types/pipeline'
+
+const ORGANIZATION_ID = '6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f'
+const APPLICATION_ID = '11111111-2222-4333-8444-555555555555'
+const REVIEWER_ID = '00000000-0000-4000-8000-00000000000b'
+
+interface Store {
+  documents: any[]
+  checklists: any[]
+  objects: Map<string, Buffer>
+  documentNames: string[]
+  events: PipelineEvent[]
+}
+
+/**
+ * Database double keeping documents and checklists in memory
+ */
+function fakeDatabase(store: Store): DatabaseService {
+  return databaseDouble((sql, params) => {
+    const byId = () => store.documents.filter(row => row.id === params[0] && row.organization_id === params[1])
+
+    if (sql.includes('FROM document_checklists')) {
+      const rows = store.checklists.filter(row => row.organization_id === params[0])
+      return queryResult(rows)
+    }
+    if (sql.includes('INSERT INTO document_checklists')) {
+      let row = store.checklists.find(existing => existing.organization_id === params[0])
+      if (row && row.version !== params[3]) {
+        return queryResult([])
+      }
+      if (row) {
+        Object.assign(row, { items: JSON.parse(params[1]), updated_by: params[2], version: row.version + 1 })
+      } else {
+        row = { organization_id: params[0], items: JSON.parse(params[1]), updated_by: params[2], version: 1, updated_at: new Date() }
+        store.checklists.push(row)
+      }
+      return queryResult([row])
+    }
+    if (sql.includes('SET checklist_item = NULL, matched_by = NULL')) {
+      const rows = store.documents.filter(row => row.checklist_item && !params[1].includes(row.checklist_item))
+      rows.forEach(row => Object.assign(row, { checklist_item: null, matched_by: null }))
+      return queryResult([], rows.length)
+    }
+    if (sql.includes('INSERT INTO pipeline_documents')) {
+      const row = {
+        id: params[0],
+        organization_id: params[1],
+        application_id: params[2],
+        checklist_item: params[3],
+        matched_by: params[4],
+        file_name: params[5],
+        content_type: params[6],
+        file_size: params[7],
+        storage_key: params[8],
+        uploaded_by: params[9],
+        processing_status: 'pending',
+        processing_attempts: 0,
+        processing_error: null,
+        extracted_data: null,
+        certificate_number: null,
+        certificate_issuer: null,
+        expiry_date: null,
+        created_at: new Date(),
+        updated_at: new Date()
+      }
+      store.documents.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('SELECT * FROM pipeline_documents WHERE id = $1')) {
+      const rows = byId()
+      return queryResult(rows)
+    }
+    if (sql.includes('FROM pipeline_documents') && sql.includes('application_id = $2')) {
+      const rows = store.documents.filter(row => row.organization_id === params[0] && row.application_id === params[1])
+      return queryResult(rows)
+    }
+    if (sql.includes('DELETE FROM pipeline_documents')) {
+      const rows = byId()
+      store.documents = store.documents.filter(row => !rows.includes(row))
+      return queryResult(rows)
+    }
+    if (sql.includes("processing_status = 'failed', processing_error = COALESCE")) {
+      return queryResult([])
+    }
+    if (sql.includes("SET processing_status = 'processing'")) {
+      const rows = store.documents
+        .filter(row => row.organization_id === params[0] && row.processing_status === 'pending' && row.processing_attempts < params[2])
+        .slice(0, params[1])
+      rows.forEach(row => Object.assign(row, { processing_status: 'processing', processing_attempts: row.processing_attempts + 1 }))
+      return queryResult(rows)
+    }
+    if (sql.includes("SET processing_status = 'processed'")) {
+      const rows = byId()
+      rows.forEach(row => Object.assign(row, {
+        processing_status: 'processed',
+        processing_error: null,
+        extracted_data: JSON.parse(params[2]),
+        certificate_number: row.certificate_number ?? params[3],
+        certificate_issuer: row.certificate_issuer ?? params[4],
+        expiry_date: row.expiry_date ?? params[5],
+        matched_by: !row.checklist_item && params[6] ? 'extraction' : row.matched_by,
+        checklist_item: row.checklist_item ?? params[6]
+      }))
+      return queryResult(rows)
+    }
+    if (sql.includes('SET processing_status = $3')) {
+      const rows = byId()
+      rows.forEach(row => Object.assign(row, { processing_status: params[2], processing_error: params[3] }))
+      return queryResult(rows)
+    }
+    if (sql.includes('UPDATE pipeline_documents SET')) {
+      const rows = byId()
+      rows.forEach(row => Object.assign(row, assignments(sql, params)))
+      return queryResult(rows)
+    }
+    return undefined
+  })
+}
+
+function fakeStorage(store: Store): ObjectStorage {
+  return {
+    name: 'filesystem',
+    put: async (key: string, data: Buffer) => {
+      store.objects.set(key, data)
+    },
+    get: async (key: string) => store.objects.get(key) || null,
+    delete: async (key: string) => {
+      store.objects.delete(key)
+    }
+  }
+}
+
+function fakePipeline(store: Store): PipelineService {
+  return {
+    getApplication: async (_organizationId: string, applicationId: string) => {
+      if (applicationId !== APPLICATION_ID) {
+        throw Object.assign(new Error('Application not found'), { statusCode: 404, code: 'APPLICATION_NOT_FOUND', isOperational: true })
+      }
+      return { id: APPLICATION_ID }
+    },
+    recordDocumentName: async (_organizationId: string, _userId: string, _applicationId: string, fileName: string, change: string) => {
+      store.documentNames = change === 'added'
+        ? [...store.documentNames, fileName]
+        : store.documentNames.filter(name => name !== fileName)
+    },
+    publish: (_organizationId: string, event: PipelineEvent) => {
+      store.events.push(event)
+    }
+  } as unknown as PipelineService
+}
+
+describe('PipelineDocumentService', () => {
+  let store: Store
+  let service: PipelineDocumentService
+
+  beforeEach(() => {
+    store = { documents: [], checklists: [], objects: new Map(), documentNames: [], events: [] }
+    service = new PipelineDocumentService(fakeDatabase(store), fakeStorage(store), fakePipeline(store))
+  })
+
+  function upload(originalName: string, contentType = 'application/pdf', checklistItem?: string) {
+    return service.uploadDocument(ORGANIZATION_ID, REVIEWER_ID, APPLICATION_ID, {
+      originalName,
+      contentType,
+      buffer: Buffer.from('%PDF-1.4 test')
+    }, checklistItem)
+  }
+
+  it('stores uploads and queues them for processing', async () => {
+    const document = await upload('../../supplier cert.pdf')
+
+    expect(document).toMatchObject({ fileName: 'supplier cert.pdf', processingStatus: 'pending', processingAttempts: 0 })
+    expect(store.objects.get(`pipeline-documents/${ORGANIZATION_ID}/${document.id}.pdf`)?.toString()).toBe('%PDF-1.4 test')
+    expect(store.documentNames).toEqual(['supplier cert.pdf'])
+    expect(store.events).toEqual([expect.objectContaining({ type: 'document-saved', document })])
+
+    await expect(upload('script.js', 'application/javascript')).rejects.toMatchObject({ statusCode: 400, code: 'UNSUPPORTED_FILE_TYPE' })
+    await expect(upload('notes.txt', 'text/plain', 'unknown-item')).rejects.toMatchObject({ statusCode: 400 })
+    expect(store.documents).toHaveLength(1)
+  })
+
+  it('matches extracted certificates to the checklist and tracks the earliest expiry', async () => {
+    const certificate = await upload('scan-0042.pdf')
+    const specification = await upload('Product_Spec_v2.pdf')
+
+    const claimed = await service.claimPendingDocuments(ORGANIZATION_ID, 10)
+    expect(claimed.map(doc => doc.id)).toEqual([certificate.id, specification.id])
+    expect(await service.claimPendingDocuments(ORGANIZATION_ID, 10)).toEqual([])
+
+    const processed = await service.recordExtraction(ORGANIZATION_ID, certificate.id, {
+      success: true,
+      extractedData: {
+        certificates: [
+          { type: 'Halal', issuer: 'HFCE', validUntil: dateIn(200), certificateNumber: 'HC-2' },
+          { type: 'Halal', issuer: 'HMC', validUntil: `${dateIn(20)}T00:00:00.000Z`, certificateNumber: 'HC-1' }
+        ]
+      }
+    })
+    expect(processed).toMatchObject({
+      processingStatus: 'processed',
+      checklistItem: 'supplier-halal-certificates',
+      matchedBy: 'extraction',
+      certificateNumber: 'HC-1',
+      certificateIssuer: 'HMC',
+      expiryDate: dateIn(20)
+    })
+
+    await service.recordExtraction(ORGANIZATION_ID, specification.id, { success: true, extractedData: { ingredients: ['sugar'] } })
+
+    const checklist = await service.getApplicationChecklist(ORGANIZATION_ID, APPLICATION_ID)
+    expect(checklist.items.map(status => [status.item.key, status.state])).toEqual([
+      ['supplier-halal-certificates', 'expiring'],
+      ['product-specifications', 'complete'],
+      ['production-flowchart', 'missing']
+    ])
+    expect(checklist.complete).toBe(false)
+    expect(checklist.unmatched).toEqual([])
+  })
+
+  it('keeps a reviewer-entered expiry date and reports expired documents', async () => {
+    const document = await upload('halal-certificate.pdf', 'application/pdf', 'supplier-halal-certificates')
+    await service.updateDocument(ORGANIZATION_ID, REVIEWER_ID, document.id, { expiryDate: dateIn(-3) })
+
+    await service.claimPendingDocuments(ORGANIZATION_ID)
+    const processed = await service.recordExtraction(ORGANIZATION_ID, document.id, {
+      success: true,
+      extractedData: { certificates: [{ type: 'Halal', issuer: 'HFCE', validUntil: dateIn(300) }] }
+    })
+    expect(processed).toMatchObject({ expiryDate: dateIn(-3), checklistItem: 'supplier-halal-certificates', matchedBy: 'upload' })
+
+    const checklist = await service.getApplicationChecklist(ORGANIZATION_ID, APPLICATION_ID)
+    expect(checklist.items[0]).toMatchObject({ state: 'expired', expiryDate: dateIn(-3) })
+  })
+
+  it('retries failed processing until the attempts run out', async () => {
+    const document = await upload('photo.png', 'image/png')
+
+    for (const status of ['pending', 'pending', 'failed']) {
+      const [claimed] = await service.claimPendingDocuments(ORGANIZATION_ID)
+      expect(claimed?.id).toBe(document.id)
+      const result = await service.recordExtraction(ORGANIZATION_ID, document.id, { success: false, error: 'No text found' })
+      expect(result).toMatchObject({ processingStatus: status, processingError: 'No text found' })
+    }
+
+    expect(await service.claimPendingDocuments(ORGANIZATION_ID)).toEqual([])
+    await expect(service.recordExtraction(ORGANIZATION_ID, document.id, { success: true }))
+      .rejects.toMatchObject({ statusCode: 409, code: 'DOCUMENT_NOT_CLAIMED' })
+  })
+
+  it('saves the checklist with its version and unmatches documents of removed items', async () => {
+    const document = await upload('flow.pdf', 'application/pdf', 'production-flowchart')
+    const { items } = await service.getChecklist(ORGANIZATION_ID)
+
+    const saved = await service.updateChecklist(ORGANIZATION_ID, REVIEWER_ID, items.slice(0, 2), 0)
+    expect(saved.version).toBe(1)
+    expect((await service.getDocument(ORGANIZATION_ID, document.id)).checklistItem).toBeUndefined()
+
+    await expect(service.updateChecklist(ORGANIZATION_ID, REVIEWER_ID, items, 0))
+      .rejects.toMatchObject({ statusCode: 409, code: 'VERSION_CONFLICT' })
+    await expect(service.updateChecklist(ORGANIZATION_ID, REVIEWER_ID, [items[0], items[0]], 1))
+      .rejects.toMatchObject({ statusCode: 400 })
+  })
+
+  it('lets only one of two concurrent first checklist saves through', async () => {
+    const { items } = await service.getChecklist(ORGANIZATION_ID)
+
+    const results = await Promise.allSettled([
+      service.updateChecklist(ORGANIZATION_ID, REVIEWER_ID, items.slice(0, 1), 0),
+      service.updateChecklist(ORGANIZATION_ID, REVIEWER_ID, items.slice(0, 2), 0)
+    ])
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected'])
+    expect(store.checklists[0].version).toBe(1)
+  })
+})
@@ -0,0 +1,305 @@
+/**
+ * HalalCheck EU - Pipeline Tests
+ *
+ * Unit tests for the shared applications pipeline: version conflicts,
+ * certificates issued on reaching the final stage and custom columns
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import crypto from 'crypto'
+import { PipelineService } from '../src/services/pipelineService'
+import { DatabaseService } from '../src/services/databaseService'
+import { databaseDouble, queryResult, assignments } from './helpers/database'
+import { CreatePipelineApplicationRequest, PipelineEvent } from '../src/types/pipeline'
+
+const ORGANIZATION_ID = '6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f'
+const REVIEWER_ID = '00000000-0000-4000-8000-00000000000b'
+const COLLEAGUE_ID = '00000000-0000-4000-8000-00000000000c'
+
+interface Store {
+  applications: any[]
+  certificates: any[]
+  columns: any[]
+}
+
+/**
+ * Database double keeping applications, certificates and column configs in memory
+ */
+function fakeDatabase(store: Store): DatabaseService {
+  return databaseDouble((sql, params) => {
+    if (sql.includes('INSERT INTO pipeline_applications')) {
+      const id = params[0] || crypto.randomUUID()
+      if (store.applications.some(row => row.id === id)) {
+        return queryResult([])
+      }
+      const row = {
+        id,
+        organization_id: params[1],
+        organization_type: params[2],
+        client_name: params[3],
+        company: params[4],
+        product_name: params[5],
+        email: params[6],
+        phone: params[7],
+        submitted_date: params[8] ? new Date(params[8]) : new Date(),
+        status: params[9],
+        priority: params[10],
+        documents: params[11],
+        analysis_result: params[12] === null ? null : JSON.parse(params[12]),
+        notes: params[13],
+        version: 1,
+        created_by: params[14],
+        updated_by: params[14],
+        created_at: new Date(),
+        updated_at: new Date()
+      }
+      store.applications.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('FROM pipeline_applications WHERE id = $1 AND organization_id = $2')) {
+      const rows = store.applications.filter(row => row.id === params[0] && row.organization_id === params[1])
+      return queryResult(rows)
+    }
+    if (sql.includes('UPDATE pipeline_applications') && sql.includes('status = ANY')) {
+      const rows = store.applications.filter(row => row.organization_id === params[0] && params[1].includes(row.status))
+      rows.forEach(row => Object.assign(row, { status: params[2], version: row.version + 1, updated_by: params[3] }))
+      return queryResult([], rows.length)
+    }
+    if (sql.includes('UPDATE pipeline_applications')) {
+      const row = store.applications.find(app => app.id === params[0] && app.organization_id === params[1])
+      const values = assignments(sql, params)
+      if (typeof values.analysis_result === 'string') {
+        values.analysis_result = JSON.parse(values.analysis_result)
+      }
+      Object.assign(row, values, { version: row.version + 1 })
+      return queryResult([row])
+    }
+    if (sql.includes('DELETE FROM pipeline_applications')) {
+      store.applications = store.applications.filter(row => row.id !== params[0])
+      store.certificates = store.certificates.filter(row => row.application_id !== params[0])
+      return queryResult([], 1)
+    }
+    if (sql.includes('pg_advisory_xact_lock')) {
+      return queryResult([], 1)
+    }
+    if (sql.includes('WHERE application_id = $1')) {
+      const rows = store.certificates.filter(row => row.application_id === params[0])
+      return queryResult(rows)
+    }
+    if (sql.includes('AS next')) {
+      const prefix = params[1].replace('%', '')
+      const numbers = store.certificates
+        .filter(row => row.organization_id === params[0] && row.certificate_number.startsWith(prefix))
+        .map(row => Number(row.certificate_number.slice(prefix.length)))
+      return queryResult([{ next: Math.max(0, ...numbers) + 1 }])
+    }
+    if (sql.includes('INSERT INTO pipeline_certificates')) {
+      const row = {
+        id: params[0] || crypto.randomUUID(),
+        organization_id: params[1],
+        application_id: params[2],
+        certificate_number: params[3],
+        client_name: params[4],
+        company: params[5],
+        product_name: params[6],
+        email: params[7],
+        phone: params[8],
+        issued_date: new Date(),
+        expiry_date: new Date(Date.now() + params[9] * 86400000),
+        status: 'active',
+        certificate_type: params[10],
+        analysis_result: JSON.parse(params[11]),
+        notes: params[12],
+        version: 1,
+        created_at: new Date(),
+        updated_at: new Date()
+      }
+      store.certificates.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('UPDATE pipeline_certificates')) {
+      const row = store.certificates.find(cert => cert.id === params[0] && cert.organization_id === params[1] &&
+        cert.version === params[3])
+      if (!row) {
+        return queryResult([])
+      }
+      Object.assign(row, assignments(sql, params), { version: row.version + 1 })
+      return queryResult([row])
+    }
+    if (sql.includes('FROM pipeline_certificates WHERE id = $1 AND organization_id = $2')) {
+      const rows = store.certificates.filter(row => row.id === params[0] && row.organization_id === params[1])
+      return queryResult(rows)
+    }
+    if (sql.includes('FROM pipeline_column_configs')) {
+      const rows = store.columns.filter(row => row.organization_id === params[0])
+      return queryResult(rows)
+    }
+    if (sql.includes('INSERT INTO pipeline_column_configs')) {
+      let row = store.columns.find(config => config.organization_id === params[0])
+      if (row && row.version !== params[3]) {
+        return queryResult([])
+      }
+      if (row) {
+        Object.assign(row, { columns: JSON.parse(params[1]), updated_by: params[2], version: row.version + 1 })
+      } else {
+        row = { organization_id: params[0], columns: JSON.parse(params[1]), updated_by: params[2], version: 1, updated_at: new Date() }
+        store.columns.push(row)
+      }
+      return queryResult([row])
+    }
+    return undefined
+  })
+}
+
+function application(overrides: Partial<CreatePipelineApplicationRequest> = {}): CreatePipelineApplicationRequest {
+  return {
+    id: crypto.randomUUID(),
+    clientName: 'Ahmed Hassan',
+    company: 'Middle East Foods Ltd',
+    productName: 'Halal Beef Sausages',
+    email: 'ahmed@mefoods.com',
+    status: 'new',
+    priority: 'high',
+    documents: ['ingredient_list.pdf'],
+    notes: 'Rush order for Eid production',
+    ...overrides
+  }
+}
+
+describe('PipelineService', () => {
+  let store: Store
+  let service: PipelineService
+
+  beforeEach(() => {
+    store = { applications: [], certificates: [], columns: [] }
+    service = new PipelineService(fakeDatabase(store))
+  })
+
+  it('keeps client IDs and returns the stored application for a repeated create', async () => {
+    const request = application()
+    const created = await service.createApplication(ORGANIZATION_ID, REVIEWER_ID, request)
+    const repeated = await service.createApplication(ORGANIZATION_ID, REVIEWER_ID, { ...request, notes: 'Changed' })
+
+    expect(created.id).toBe(request.id)
+    expect(created.version).toBe(1)
+    expect(repeated.notes).toBe('Rush order for Eid production')
+    expect(store.applications).toHaveLength(1)
+  })
+
+  it('refuses changes based on a stale version', async () => {
+    const created = await service.createApplication(ORGANIZATION_ID, REVIEWER_ID, application())
+
+    const { application: moved } = await service.updateApplication(ORGANIZATION_ID, COLLEAGUE_ID, created.id, {
+      version: created.version,
+      status: 'reviewing'
+    })
+    expect(moved.version).toBe(2)
+
+    await expect(service.updateApplication(ORGANIZATION_ID, REVIEWER_ID, created.id, {
+      version: created.version,
+      notes: 'Supplier certificates received'
+    })).rejects.toMatchObject({ statusCode: 409, code: 'VERSION_CONFLICT' })
+    expect(store.applications[0].notes).toBe('Rush order for Eid production')
+    expect(store.applications[0].status).toBe('reviewing')
+  })
+
+  it('issues one numbered certificate when an application reaches the final stage', async () => {
+    const year = new Date().getFullYear()
+    const first = await service.createApplication(ORGANIZATION_ID, REVIEWER_ID, application())
+    const second = await service.createApplication(ORGANIZATION_ID, REVIEWER_ID, application({ productName: 'Baklava Mix' }))
+
+    const firstUpdate = await service.updateApplication(ORGANIZATION_ID, REVIEWER_ID, first.id, { version: 1, status: 'certified' })
+    const secondUpdate = await service.updateApplication(ORGANIZATION_ID, REVIEWER_ID, second.id, { version: 1, status: 'certified' })
+
+    expect(firstUpdate.certificate).toMatchObject({
+      applicationId: first.id,
+      certificateNumber: `HC-${year}-001`,
+      certificateType: 'standard',
+      status: 'active'
+    })
+    expect(secondUpdate.certificate?.certificateNumber).toBe(`HC-${year}-002`)
+
+    // Moving out of the final stage and back keeps the certificate issued before
+    await service.updateApplication(ORGANIZATION_ID, REVIEWER_ID, first.id, { version: 2, status: 'approved' })
+    const again = await service.updateApplication(ORGANIZATION_ID, REVIEWER_ID, first.id, { version: 3, status: 'certified' })
+    expect(again.certificate?.id).toBe(firstUpdate.certificate?.id)
+    expect(store.certificates).toHaveLength(2)
+
+    const notes = await service.updateApplication(ORGANIZATION_ID, REVIEWER_ID, second.id, { version: 2, notes: 'Archived' })
+    expect(notes.certificate).toBeUndefined()
+  })
+
+  it('publishes committed changes with the fields they touched', async () => {
+    const events: PipelineEvent[] = []
+    const unsubscribe = service.subscribe(ORGANIZATION_ID, event => events.push(event))
+    const created = await service.createApplication(ORGANIZATION_ID, REVIEWER_ID, application())
+
+    await service.updateApplication(ORGANIZATION_ID, COLLEAGUE_ID, created.id, {
+      version: 1,
+      status: 'reviewing',
+      notes: 'Rush order for Eid production',
+      documents: ['ingredient_list.pdf', 'supplier_certificate.pdf']
+    })
+    await expect(service.updateApplication(ORGANIZATION_ID, REVIEWER_ID, created.id, { version: 1, notes: 'Stale' }))
+      .rejects.toMatchObject({ statusCode: 409 })
+    unsubscribe()
+    await service.updateApplication(ORGANIZATION_ID, REVIEWER_ID, created.id, { version: 2, notes: 'Unheard' })
+
+    expect(events).toHaveLength(2)
+    expect(events[1]).toMatchObject({
+      type: 'application-saved',
+      userId: COLLEAGUE_ID,
+      application: { id: created.id, status: 'reviewing', version: 2 },
+      changes: ['status', 'documents']
+    })
+  })
+
+  it('issues pre-certification reports for manufacturers', async () => {
+    const created = await service.createApplication(ORGANIZATION_ID, REVIEWER_ID, application({
+      organizationType: 'food-manufacturer',
+      status: 'recipe'
+    }))
+
+    const update = await service.updateApplication(ORGANIZATION_ID, REVIEWER_ID, created.id, {
+      version: 1,
+      status: 'certification-ready'
+    })
+
+    expect(update.certificate?.certificateNumber).toMatch(/^PCR-\d{4}-001$/)
+    expect(update.certificate?.certificateType).toBe('premium')
+  })
+
+  it('versions custom columns and moves applications out of removed ones', async () => {
+    const created = await service.createApplication(ORGANIZATION_ID, REVIEWER_ID, application())
+    expect(await service.getColumns(ORGANIZATION_ID)).toEqual({ columns: [], version: 0 })
+
+    const saved = await service.updateColumns(ORGANIZATION_ID, REVIEWER_ID, [
+      { id: 'custom-1700000000000', title: 'Waiting on supplier' }
+    ], 0)
+    expect(saved.version).toBe(1)
+
+    await service.updateApplication(ORGANIZATION_ID, REVIEWER_ID, created.id, { version: 1, status: 'custom-1700000000000' })
+
+    await expect(service.updateColumns(ORGANIZATION_ID, COLLEAGUE_ID, [], 0))
+      .rejects.toMatchObject({ statusCode: 409, code: 'VERSION_CONFLICT' })
+    await expect(service.updateColumns(ORGANIZATION_ID, COLLEAGUE_ID, [{ id: 'new', title: 'New' }], 1))
+      .rejects.toMatchObject({ statusCode: 400 })
+
+    const cleared = await service.updateColumns(ORGANIZATION_ID, COLLEAGUE_ID, [], 1)
+    expect(cleared.columns).toEqual([])
+    expect(store.applications[0].status).toBe('new')
+    expect(store.applications[0].version).toBe(3)
+  })
+
+  it('lets only one of two concurrent first column saves through', async () => {
+    const results = await Promise.allSettled([
+      service.updateColumns(ORGANIZATION_ID, REVIEWER_ID, [{ id: 'custom-lab', title: 'Lab testing' }], 0),
+      service.updateColumns(ORGANIZATION_ID, COLLEAGUE_ID, [{ id: 'custom-audit', title: 'Audit' }], 0)
+    ])
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected'])
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({ reason: { code: 'VERSION_CONFLICT' } })
+    expect(store.columns).toHaveLength(1)
+    expect(store.columns[0].version).toBe(1)
+  })
+})
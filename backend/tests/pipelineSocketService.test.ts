@@ -0,0 +1,196 @@
+/**
+ * HalalCheck EU - Pipeline Socket Tests
+ *
+ * Unit tests for the pipeline WebSocket: authentication with the first
+ * message, organization-scoped change pushes and presence
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import http from 'http'
+import { AddressInfo } from 'net'
+import jwt from 'jsonwebtoken'
+import { WebSocket } from 'ws'
+import { PipelineSocketService } from '../src/services/pipelineSocketService'
+import { PipelineService } from '../src/services/pipelineService'
+import { AuthService } from '../src/services/authService'
+import { MfaService } from '../src/services/mfaService'
+import { DatabaseService } from '../src/services/databaseService'
+import { PERMISSIONS, User } from '../src/types/auth'
+
+const ORGANIZATION_ID = '6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f'
+const OTHER_ORGANIZATION_ID = '7a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d'
+const APPLICATION_ID = '11111111-2222-4333-8444-555555555555'
+const PATH = '/api/pipeline/live'
+
+function user(id: string, firstName: string, organizationId = ORGANIZATION_ID, permissions = [PERMISSIONS.VIEW_PIPELINE]): User {
+  return { id, firstName, lastName: 'Reviewer', organizationId, permissions } as unknown as User
+}
+
+// Signed token that expires a second after the test suite loads
+const EXPIRING_TOKEN = jwt.sign({ exp: Math.floor(Date.now() / 1000) + 1 }, 'test-secret')
+
+const USERS: Record<string, User> = {
+  'token-amina': user('00000000-0000-4000-8000-00000000000a', 'Amina'),
+  'token-bilal': user('00000000-0000-4000-8000-00000000000b', 'Bilal'),
+  'token-other': user('00000000-0000-4000-8000-00000000000c', 'Other', OTHER_ORGANIZATION_ID),
+  'token-none': user('00000000-0000-4000-8000-00000000000d', 'None', ORGANIZATION_ID, []),
+  [EXPIRING_TOKEN]: user('00000000-0000-4000-8000-00000000000e', 'Expiring')
+}
+
+const authService = {
+  verifyToken: async (token: string) => {
+    const found = USERS[token]
+    if (!found) {
+      throw new Error('Invalid or expired token')
+    }
+    return found
+  }
+} as unknown as AuthService
+
+const mfaService = {
+  isEnrollmentRequired: async () => false
+} as unknown as MfaService
+
+/**
+ * Client that collects the server's messages and waits for the next matching one
+ */
+interface Client {
+  socket: WebSocket
+  next: (predicate?: (message: any) => boolean) => Promise<any>
+  closed: Promise<number>
+}
+
+function connect(port: number, token: string | null): Promise<Client> {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}${PATH}`)
+  const received: any[] = []
+  const waiting: Array<{ predicate: (message: any) => boolean; resolve: (message: any) => void }> = []
+
+  socket.on('message', data => {
+    const message = JSON.parse(data.toString())
+    const waiter = waiting.find(entry => entry.predicate(message))
+    if (waiter) {
+      waiting.splice(waiting.indexOf(waiter), 1)
+      waiter.resolve(message)
+    } else {
+      received.push(message)
+    }
+  })
+
+  const closed = new Promise<number>(resolve => socket.on('close', code => resolve(code)))
+  const next = (predicate: (message: any) => boolean = () => true) => {
+    const index = received.findIndex(predicate)
+    if (index >= 0) {
+      return Promise.resolve(received.splice(index, 1)[0])
+    }
+    return new Promise(resolve => waiting.push({ predicate, resolve }))
+  }
+
+  return new Promise((resolve, reject) => {
+    socket.on('error', reject)
+    socket.on('open', () => {
+      if (token !== null) {
+        socket.send(JSON.stringify({ type: 'auth', token }))
+      }
+      resolve({ socket, next, closed })
+    })
+  })
+}
+
+describe('PipelineSocketService', () => {
+  let server: http.Server
+  let pipelineService: PipelineService
+  let pipelineSocket: PipelineSocketService
+  let port: number
+  let clients: Client[]
+
+  beforeEach(async () => {
+    server = http.createServer()
+    pipelineService = new PipelineService({} as DatabaseService)
+    pipelineSocket = new PipelineSocketService(pipelineService, authService, mfaService)
+    pipelineSocket.attach(server, PATH)
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()))
+    port = (server.address() as AddressInfo).port
+    clients = []
+  })
+
+  afterEach(async () => {
+    clients.forEach(client => client.socket.terminate())
+    await pipelineSocket.close()
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  async function join(token: string): Promise<Client> {
+    const client = await connect(port, token)
+    clients.push(client)
+    await client.next(message => message.type === 'ready')
+    return client
+  }
+
+  it('closes connections that do not authenticate', async () => {
+    const invalid = await connect(port, 'token-unknown')
+    const forbidden = await connect(port, 'token-none')
+    clients.push(invalid, forbidden)
+
+    expect(await invalid.closed).toBe(4001)
+    expect(await forbidden.closed).toBe(4003)
+  })
+
+  it('closes the connection when its token expires', async () => {
+    const expiring = await join(EXPIRING_TOKEN)
+
+    expect(await expiring.closed).toBe(4001)
+  })
+
+  it('pushes committed changes to members of the same organization only', async () => {
+    const amina = await join('token-amina')
+    const bilal = await join('token-bilal')
+    const other = await join('token-other')
+
+    pipelineService.publish(ORGANIZATION_ID, {
+      type: 'application-saved',
+      userId: USERS['token-amina']!.id,
+      application: { id: APPLICATION_ID, status: 'reviewing', version: 2 } as any,
+      changes: ['status']
+    })
+    pipelineService.publish(OTHER_ORGANIZATION_ID, { type: 'application-deleted', applicationId: APPLICATION_ID })
+
+    for (const client of [amina, bilal]) {
+      expect(await client.next()).toMatchObject({
+        type: 'application-saved',
+        application: { id: APPLICATION_ID, status: 'reviewing', version: 2 },
+        changes: ['status']
+      })
+    }
+    expect(await other.next()).toMatchObject({ type: 'application-deleted' })
+  })
+
+  it('tells members who has an application open', async () => {
+    const amina = await join('token-amina')
+    const bilal = await join('token-bilal')
+
+    amina.socket.send(JSON.stringify({ type: 'open', applicationId: APPLICATION_ID }))
+    expect(await bilal.next(message => message.type === 'presence')).toEqual({
+      type: 'presence',
+      applicationId: APPLICATION_ID,
+      viewers: [{ userId: USERS['token-amina']!.id, name: 'Amina Reviewer' }]
+    })
+
+    // Members joining later get the current presence with their ready message
+    const late = await connect(port, 'token-bilal')
+    clients.push(late)
+    expect((await late.next(message => message.type === 'ready')).presence).toEqual([{
+      type: 'presence',
+      applicationId: APPLICATION_ID,
+      viewers: [{ userId: USERS['token-amina']!.id, name: 'Amina Reviewer' }]
+    }])
+
+    // Disconnecting closes everything the member had open
+    amina.socket.close()
+    expect(await bilal.next(message => message.type === 'presence')).toEqual({
+      type: 'presence',
+      applicationId: APPLICATION_ID,
+      viewers: []
+    })
+    expect(pipelineSocket.viewersOf(ORGANIZATION_ID, APPLICATION_ID)).toEqual([])
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * HalalCheck EU - Regional Variation Tests
+ *
+ * Unit tests for country -> EU -> default variation resolution
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import {
+  RegionalVariationService,
+  getRegionFallbackChain,
+  resolveRegionalVariation
+} from '../src/services/regionalVariationService'
+import { OfflineProvider } from '../src/services/offlineProvider'
+import { CertificationStandard, HalalStatus, IngredientAnalysis, RegionalVariation, RiskLevel } from '../src/types'
+
+describe('Regional variation resolution', () => {
+  const variation = (
+    region: RegionalVariation['region'],
+    standard: CertificationStandard,
+    status: HalalStatus
+  ): RegionalVariation => ({
+    region,
+    standard,
+    status,
+    reasoning: `${region} ${standard} position`,
+    lastReviewed: new Date('2024-01-10'),
+    reviewedBy: `${region} reviewer`
+  })
+
+  const variations = [
+    variation('EU', CertificationStandard.HFCE, HalalStatus.MASHBOOH),
+    variation('NETHERLANDS', CertificationStandard.HFCE, HalalStatus.HARAM),
+    variation('BELGIUM', CertificationStandard.HQC, HalalStatus.HALAL)
+  ]
+
+  describe('getRegionFallbackChain', () => {
+    it('should accept country codes and names', () => {
+      expect(getRegionFallbackChain('NL')).toEqual(['NETHERLANDS', 'EU'])
+      expect(getRegionFallbackChain('Belgium')).toEqual(['BELGIUM', 'EU'])
+      expect(getRegionFallbackChain('GB')).toEqual(['UK', 'EU'])
+    })
+
+    it('should fall back to EU for EU-wide and unknown regions', () => {
+      expect(getRegionFallbackChain('EU')).toEqual(['EU'])
+      expect(getRegionFallbackChain('MY')).toEqual(['EU'])
+      expect(getRegionFallbackChain(undefined)).toEqual(['EU'])
+    })
+  })
+
+  describe('resolveRegionalVariation', () => {
+    it('should prefer the country variation', () => {
+      const resolved = resolveRegionalVariation(variations, 'NL', CertificationStandard.HFCE)
+
+      expect(resolved?.region).toBe('NETHERLANDS')
+      expect(resolved?.status).toBe(HalalStatus.HARAM)
+      expect(resolved?.matchedOn).toBe('COUNTRY')
+      expect(resolved?.reviewedBy).toBe('NETHERLANDS reviewer')
+    })
+
+    it('should fall back to the EU variation', () => {
+      const resolved = resolveRegionalVariation(variations, 'BE', CertificationStandard.HFCE)
+
+      expect(resolved?.region).toBe('EU')
+      expect(resolved?.matchedOn).toBe('EU')
+    })
+
+    it('should return null when no variation exists for the standard', () => {
+      expect(resolveRegionalVariation(variations, 'NL', CertificationStandard.JAKIM)).toBeNull()
+    })
+  })
+
+  describe('applyVariation', () => {
+    let service: RegionalVariationService
+
+    const analysis: IngredientAnalysis = {
+      detectedName: 'ethanol',
+      standardName: 'Ethanol',
+      status: HalalStatus.HALAL,
+      riskLevel: RiskLevel.LOW,
+      confidence: 0.9,
+      reasoning: 'Default assessment.',
+      requiresExpertReview: false,
+      warnings: [],
+      suggestions: [],
+      source: 'database',
+      eNumbers: [],
+      categories: []
+    }
+
+    beforeEach(() => {
+      service = new RegionalVariationService({} as any)
+    })
+
+    it('should replace the default verdict and keep the reviewer', () => {
+      const resolved = resolveRegionalVariation(variations, 'NL', CertificationStandard.HFCE)
+      const result = service.applyVariation(analysis, resolved)
+
+      expect(result.status).toBe(HalalStatus.HARAM)
+      expect(result.riskLevel).toBe(RiskLevel.VERY_HIGH)
+      expect(result.reasoning).toContain('NETHERLANDS HFCE position')
+      expect(result.regionalVariation?.reviewedBy).toBe('NETHERLANDS reviewer')
+      expect(result.warnings).toHaveLength(1)
+    })
+
+    it('should leave the default verdict when nothing resolved', () => {
+      expect(service.applyVariation(analysis, null)).toBe(analysis)
+    })
+  })
+
+  describe('OfflineProvider', () => {
+    it('should use the local certifier ruling for Dutch HQC requests', async () => {
+      const provider = new OfflineProvider()
+      const result = await provider.classifyIngredient('Ethanol', {
+        language: 'nl',
+        region: 'NL',
+        certificationStandard: CertificationStandard.HQC
+      })
+
+      expect(result.regionalVariation?.region).toBe('NETHERLANDS')
+      expect(result.regionalVariation?.reviewedBy).toBe('Imam Abdullah van der Berg, HQC')
+    })
+  })
+})
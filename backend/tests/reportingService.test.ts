@@ -0,0 +1,365 @@
+/**
+ * HalalCheck EU - Reporting Tests
+ *
+ * Unit tests for server-side report rendering: report types, branding,
+ * disclaimers, the PDF and Excel outputs, and stored, signed reports with
+ * signed download links
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals'
+import dns from 'dns'
+import { Workbook } from 'exceljs'
+import os from 'os'
+import path from 'path'
+import { promises as fs } from 'fs'
+import { ReportingService, signReportDownload } from '../src/services/reportingService'
+import { ReportRenderer } from '../src/services/reportRenderer'
+import { DatabaseService } from '../src/services/databaseService'
+import { databaseDouble, queryResult } from './helpers/database'
+import { ObjectStorage } from '../src/services/objectStorage'
+import { FilesystemStorage } from '../src/services/filesystemStorage'
+import { SigningKeyService, hashDocument } from '../src/services/signingKeyService'
+import { HalalStatus, IngredientAnalysis, ProductAnalysis, RiskLevel } from '../src/types/halal'
+import { ReportDocument, ReportFormat, ReportRequest, ReportType } from '../src/types/reports'
+
+function ingredient(name: string, status: HalalStatus, reasoning: string): IngredientAnalysis {
+  return {
+    detectedName: name,
+    standardName: name,
+    status,
+    riskLevel: status === HalalStatus.HALAL ? RiskLevel.VERY_LOW : RiskLevel.HIGH,
+    confidence: 0.9,
+    reasoning,
+    requiresExpertReview: status === HalalStatus.MASHBOOH,
+    warnings: [],
+    suggestions: [],
+    source: 'database',
+    eNumbers: [],
+    categories: []
+  }
+}
+
+function analysis(): ProductAnalysis {
+  const ingredients = [
+    ingredient('Sugar', HalalStatus.HALAL, 'Plant-derived sweetener'),
+    ingredient('Gelatin', HalalStatus.MASHBOOH, 'Source animal and slaughter method unknown')
+  ]
+  return {
+    id: 'analysis-1',
+    productName: 'Gummy Bears',
+    ingredientText: 'sugar, gelatin',
+    language: 'en',
+    region: 'EU',
+    certificationStandard: 'HFCE',
+    overallStatus: HalalStatus.MASHBOOH,
+    overallRiskLevel: RiskLevel.HIGH,
+    ingredients,
+    summary: { total_ingredients: 2, halal_count: 1, haram_count: 0, mashbooh_count: 1, uncertain_count: 0 },
+    haram_ingredients: [],
+    mashbooh_ingredients: [ingredients[1]!],
+    requires_expert_review: [ingredients[1]!],
+    recommendations: ['Request a halal certificate for the gelatin supplier'],
+    expertReviewRequired: true,
+    userId: 'user-1',
+    organizationId: 'org-1',
+    analyzedAt: new Date('2026-03-01T10:00:00Z'),
+    processingTimeMs: 120
+  }
+}
+
+process.env.REPORT_SIGNING_SECRET = 'test-report-signing-secret'
+
+/**
+ * Database double keeping report and signing key rows in memory
+ */
+function fakeDatabase(reports: any[] = [], keys: any[] = []): DatabaseService {
+  return databaseDouble((sql, params) => {
+    if (sql.includes('INSERT INTO reports')) {
+      const row = {
+        id: params[0], product_analysis_id: params[1], type: params[2], format: params[3], language: params[4],
+        file_path: params[5], file_name: params[6], content_type: params[7], file_size_bytes: params[8],
+        organization_id: params[12], download_count: 0, generated_at: new Date(),
+        expires_at: new Date(Date.now() + params[13] * 24 * 60 * 60 * 1000),
+        document_hash: params[14], document_signature: params[15], signing_key_id: params[16]
+      }
+      reports.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('INSERT INTO signing_keys')) {
+      const row = { id: params[0], organization_id: params[1], public_key: params[3], private_key: params[4], status: 'ACTIVE' }
+      keys.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('FROM signing_keys')) {
+      return queryResult(keys.filter(row => row.organization_id === params[0] || (row.id === params[0] && row.organization_id === params[1])))
+    }
+    if (sql.includes('SELECT * FROM reports WHERE id')) {
+      return queryResult(reports.filter(row => row.id === params[0]))
+    }
+    if (sql.includes('UPDATE reports SET download_count')) {
+      reports.filter(row => row.id === params[0]).forEach(row => { row.download_count += 1 })
+      return queryResult([])
+    }
+    if (sql.includes('WHERE expires_at <= NOW()')) {
+      return queryResult(reports.filter(row => row.expires_at.getTime() <= Date.now()).slice(0, params[0]))
+    }
+    if (sql.includes('DELETE FROM reports')) {
+      const removed = params[0] as string[]
+      reports.splice(0, reports.length, ...reports.filter(row => !removed.includes(row.id)))
+      return queryResult([])
+    }
+    return undefined
+  }, {
+    getProductAnalysis: async (id: string) => id === 'analysis-1' ? analysis() : null,
+    findUserById: async () => ({ id: 'user-1', firstName: 'Amina', lastName: 'Yilmaz' }),
+    findOrganizationById: async () => ({ id: 'org-1', name: 'Amsterdam Halal Foods' })
+  })
+}
+
+/**
+ * Object storage double keeping objects in memory
+ */
+class MemoryStorage implements ObjectStorage {
+  readonly name = 'filesystem' as const
+  objects = new Map<string, Buffer>()
+
+  async put(key: string, data: Buffer) {
+    this.objects.set(key, data)
+  }
+
+  async get(key: string) {
+    return this.objects.get(key) || null
+  }
+
+  async delete(key: string) {
+    this.objects.delete(key)
+  }
+}
+
+/**
+ * Renderer that records the document it was asked to draw
+ */
+class RecordingRenderer extends ReportRenderer {
+  documents: ReportDocument[] = []
+
+  override async renderPDF(document: ReportDocument) {
+    this.documents.push(document)
+    return super.renderPDF(document)
+  }
+
+  override async renderExcel(document: ReportDocument) {
+    this.documents.push(document)
+    return super.renderExcel(document)
+  }
+}
+
+function request(overrides: Partial<ReportRequest> = {}): ReportRequest {
+  return {
+    analysisId: 'analysis-1',
+    type: ReportType.DETAILED_ANALYSIS,
+    format: ReportFormat.PDF,
+    language: 'en',
+    userId: 'user-1',
+    organizationId: 'org-1',
+    ...overrides
+  }
+}
+
+describe('ReportingService', () => {
+  let renderer: RecordingRenderer
+  let storage: MemoryStorage
+  let reports: any[]
+  let keys: any[]
+  let service: ReportingService
+
+  beforeEach(() => {
+    renderer = new RecordingRenderer()
+    storage = new MemoryStorage()
+    reports = []
+    keys = []
+    service = new ReportingService(fakeDatabase(reports, keys), renderer, storage)
+  })
+
+  it('should render a PDF carrying the legal disclaimers', async () => {
+    const report = await service.renderReport(request())
+
+    expect(report.contentType).toBe('application/pdf')
+    expect(report.buffer.subarray(0, 5).toString()).toBe('%PDF-')
+    expect(report.fileName).toBe('halalcheck-detailed-analysis-gummy-bears.pdf')
+    expect(report.metadata.pages).toBeGreaterThanOrEqual(1)
+
+    const document = renderer.documents[0]!
+    expect(document.disclaimers.items).toContain('This analysis is provided as a preliminary assessment tool only.')
+    expect(document.disclaimers.items).toContain('HalalCheck EU disclaims all liability for decisions made based on this analysis.')
+  })
+
+  it('should use certification disclaimers for certification-ready reports', async () => {
+    await service.renderReport(request({ type: ReportType.CERTIFICATION_READY, language: 'nl' }))
+
+    const document = renderer.documents[0]!
+    expect(document.disclaimers.title).toBe('Certification Disclaimers')
+    // Dutch has no certification disclaimers, so English is used
+    expect(document.disclaimers.items).toContain('Official halal certification requires review by certified Islamic scholars.')
+  })
+
+  it('should build sections for every report type', async () => {
+    for (const type of Object.values(ReportType)) {
+      await service.renderReport(request({ type }))
+    }
+
+    const titles = renderer.documents.map(document => document.sections.map(section => section.title))
+    expect(titles[0]).toContain('Executive Summary')
+    expect(titles[1]).toContain('Ingredient Analysis')
+    expect(titles[2]).toContain('Compliance Verification')
+    expect(titles[3]).toEqual(expect.arrayContaining(['Status Distribution', 'Expert Review Queue']))
+  })
+
+  it('should write a summary sheet and one sheet per ingredient with its reasoning', async () => {
+    const report = await service.renderReport(request({ format: ReportFormat.EXCEL }))
+
+    const workbook = new Workbook()
+    await workbook.xlsx.load(report.buffer)
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual(['Summary', '1. Sugar', '2. Gelatin'])
+
+    const gelatin = workbook.getWorksheet('2. Gelatin')!
+    const values = gelatin.getSheetValues().flat().map(String)
+    expect(values).toContain('Source animal and slaughter method unknown')
+  })
+
+  it('should apply custom branding only when requested', async () => {
+    const customBranding = { companyName: 'Crescent Labs', colors: { primary: '#1d4ed8', secondary: '#93c5fd' } }
+
+    await service.renderReport(request({ includeBranding: true, customBranding }))
+    await service.renderReport(request({ customBranding }))
+
+    expect(renderer.documents[0]!.branding).toEqual({ companyName: 'Crescent Labs', primaryColor: '#1d4ed8', secondaryColor: '#93c5fd' })
+    expect(renderer.documents[1]!.branding.companyName).toBe('Amsterdam Halal Foods')
+  })
+
+  it('should stop downloading a logo once it exceeds 1 MB', async () => {
+    const lookup = jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as any)
+    let sent = 0
+    let cancelled = false
+    // Endless body without a Content-Length, as a hostile host would send
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += 64 * 1024
+        controller.enqueue(new Uint8Array(64 * 1024))
+      },
+      cancel() {
+        cancelled = true
+      }
+    })
+    const download = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(body))
+
+    try {
+      await expect(service.renderReport(request({ includeBranding: true, customBranding: { logoUrl: 'https://example.com/logo.png' } })))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_BRANDING', message: 'Logo must be at most 1 MB' })
+      expect(cancelled).toBe(true)
+      expect(sent).toBeLessThanOrEqual(2 * 1024 * 1024)
+    } finally {
+      lookup.mockRestore()
+      download.mockRestore()
+    }
+  })
+
+  it('should not render analyses of another organization', async () => {
+    await expect(service.renderReport(request({ organizationId: 'org-2' })))
+      .rejects.toMatchObject({ statusCode: 404, code: 'ANALYSIS_NOT_FOUND' })
+  })
+
+  it('should validate report requests', () => {
+    expect(service.validateReportRequest({ type: 'DETAILED_ANALYSIS', format: 'EXCEL' })).toEqual([])
+    expect(service.validateReportRequest({
+      type: 'SALES',
+      format: 'PDF',
+      customBranding: { colors: { primary: 'red', secondary: '#ffffff' }, logoUrl: 'http://example.com/logo.png' }
+    })).toHaveLength(3)
+  })
+
+  describe('stored reports', () => {
+    function linkParams(url: string) {
+      const params = new URL(url).searchParams
+      return { expires: params.get('expires'), signature: params.get('signature') }
+    }
+
+    it('should store the file and return a signed link that downloads it', async () => {
+      const { report, download } = await service.generateReport(request(), 2)
+
+      expect(storage.objects.get(`reports/org-1/${report.id}.pdf`)?.subarray(0, 5).toString()).toBe('%PDF-')
+      expect(download.url).toContain(`/api/reports/${report.id}/download?expires=`)
+      expect(download.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 2 * 60 * 60 * 1000)
+
+      const { expires, signature } = linkParams(download.url)
+      const result = await service.getDownload(report.id, expires, signature)
+      expect(result.buffer.subarray(0, 5).toString()).toBe('%PDF-')
+      expect(result.report.fileName).toBe('halalcheck-detailed-analysis-gummy-bears.pdf')
+      expect(reports[0].download_count).toBe(1)
+    })
+
+    it('should sign the stored file with the organization\'s key', async () => {
+      const { report } = await service.generateReport(request())
+      const stored = storage.objects.get(`reports/org-1/${report.id}.pdf`)!
+
+      expect(report.signature).toMatchObject({ algorithm: 'EdDSA', hash: hashDocument(stored) })
+      const signingKeys = new SigningKeyService(fakeDatabase(reports, keys))
+      expect(await signingKeys.verifySignature('org-1', report.signature!)).toBe(true)
+    })
+
+    it('should reject tampered, foreign and expired links', async () => {
+      const { report, download } = await service.generateReport(request())
+      const { expires, signature } = linkParams(download.url)
+
+      await expect(service.getDownload(report.id, Number(expires) + 3600, signature))
+        .rejects.toMatchObject({ statusCode: 403, code: 'INVALID_SIGNATURE' })
+
+      // A link signed for another organization does not open this report
+      const foreign = signReportDownload(report.id, 'org-2', Number(expires))
+      await expect(service.getDownload(report.id, expires, foreign))
+        .rejects.toMatchObject({ statusCode: 403, code: 'INVALID_SIGNATURE' })
+
+      const past = Math.floor(Date.now() / 1000) - 60
+      await expect(service.getDownload(report.id, past, signReportDownload(report.id, 'org-1', past)))
+        .rejects.toMatchObject({ statusCode: 410, code: 'LINK_EXPIRED' })
+    })
+
+    it('should only issue new links to the owning organization', async () => {
+      const { report } = await service.generateReport(request())
+
+      await expect(service.createDownloadLink(report.id, 'org-2'))
+        .rejects.toMatchObject({ statusCode: 404, code: 'REPORT_NOT_FOUND' })
+      const link = await service.createDownloadLink(report.id, 'org-1', 1)
+      expect(link.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 60 * 60 * 1000)
+    })
+
+    it('should purge reports past their retention period', async () => {
+      const { report: kept } = await service.generateReport(request())
+      const { report: expired } = await service.generateReport(request({ format: ReportFormat.EXCEL }))
+      reports.find(row => row.id === expired.id).expires_at = new Date(Date.now() - 1000)
+
+      expect(await service.purgeExpiredReports()).toBe(1)
+      expect(reports.map(row => row.id)).toEqual([kept.id])
+      expect([...storage.objects.keys()]).toEqual([`reports/org-1/${kept.id}.pdf`])
+    })
+  })
+})
+
+describe('FilesystemStorage', () => {
+  it('should store, read and delete objects under its root', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'halalcheck-storage-'))
+    const storage = new FilesystemStorage(root)
+
+    try {
+      await storage.put('reports/org-1/report.pdf', Buffer.from('report'), 'application/pdf')
+      expect((await storage.get('reports/org-1/report.pdf'))?.toString()).toBe('report')
+
+      await storage.delete('reports/org-1/report.pdf')
+      await storage.delete('reports/org-1/report.pdf')
+      expect(await storage.get('reports/org-1/report.pdf')).toBeNull()
+
+      await expect(storage.get('../outside.pdf')).rejects.toThrow('Invalid object key')
+    } finally {
+      await fs.rm(root, { recursive: true, force: true })
+    }
+  })
+})
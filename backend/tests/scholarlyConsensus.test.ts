@@ -0,0 +1,81 @@
+/**
+ * HalalCheck EU - Scholarly Consensus Tests
+ *
+ * Unit tests for madhab-aware ingredient rulings
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { ScholarlyConsensusService } from '../src/services/scholarlyConsensusService'
+import { HalalStatus, RiskLevel, IngredientAnalysis } from '../src/types'
+
+describe('ScholarlyConsensusService', () => {
+  let service: ScholarlyConsensusService
+
+  const baseAnalysis = (name: string, status: HalalStatus): IngredientAnalysis => ({
+    detectedName: name,
+    standardName: name,
+    status,
+    riskLevel: RiskLevel.MEDIUM,
+    confidence: 0.9,
+    reasoning: 'General assessment.',
+    requiresExpertReview: false,
+    warnings: [],
+    suggestions: [],
+    source: 'ai',
+    eNumbers: [],
+    categories: []
+  })
+
+  beforeEach(() => {
+    service = new ScholarlyConsensusService()
+  })
+
+  describe('getConsensusAnalysis', () => {
+    it('should report differing opinions for insect-derived ingredients', async () => {
+      const consensus = await service.getConsensusAnalysis('Cochineal/Carmine')
+
+      expect(consensus.consensusLevel).toBe('majority')
+      expect(consensus.madhabRulings).toHaveLength(4)
+      expect(consensus.alternativeOpinions).toHaveLength(4)
+    })
+
+    it('should report unanimous prohibition for pork derivatives', async () => {
+      const consensus = await service.getConsensusAnalysis('Pork Gelatin')
+
+      expect(consensus.consensusLevel).toBe('unanimous')
+      expect(consensus.madhabRulings.every(r => r.ruling === 'HARAM')).toBe(true)
+    })
+
+    it('should return unclear consensus for unknown ingredients', async () => {
+      const consensus = await service.getConsensusAnalysis('water')
+
+      expect(consensus.consensusLevel).toBe('unclear')
+      expect(consensus.madhabRulings).toHaveLength(0)
+    })
+  })
+
+  describe('applyMadhab', () => {
+    it('should follow the selected school ruling', async () => {
+      const shafi = await service.applyMadhab(baseAnalysis('Cochineal/Carmine', HalalStatus.MASHBOOH), 'Shafi')
+      const hanafi = await service.applyMadhab(baseAnalysis('Cochineal/Carmine', HalalStatus.MASHBOOH), 'Hanafi')
+
+      expect(shafi.status).toBe(HalalStatus.HALAL)
+      expect(hanafi.status).toBe(HalalStatus.HARAM)
+      expect(hanafi.riskLevel).toBe(RiskLevel.VERY_HIGH)
+      expect(hanafi.requiresExpertReview).toBe(true)
+    })
+
+    it('should never relax pork to a lesser status', async () => {
+      const result = await service.applyMadhab(baseAnalysis('pork meat', HalalStatus.HARAM), 'Hanafi')
+
+      expect(result.status).toBe(HalalStatus.HARAM)
+    })
+
+    it('should keep the general status when no madhab is selected', async () => {
+      const result = await service.applyMadhab(baseAnalysis('Cochineal/Carmine', HalalStatus.MASHBOOH))
+
+      expect(result.status).toBe(HalalStatus.MASHBOOH)
+      expect(result.consensus?.consensusLevel).toBe('majority')
+    })
+  })
+})
@@ -36,9 +36,9 @@ beforeAll(async () => {
 afterAll(async () => {
   // Clean up test data
   try {
-    await pool.query('DELETE FROM product_analyses WHERE product_name LIKE %Test%')
-    await pool.query('DELETE FROM users WHERE email LIKE %test%')
-    await pool.query('DELETE FROM organizations WHERE name LIKE %Test%')
+    await pool.query('DELETE FROM product_analyses WHERE product_name LIKE \'%Test%\'')
+    await pool.query('DELETE FROM users WHERE email LIKE \'%test%\'')
+    await pool.query('DELETE FROM organizations WHERE name LIKE \'%Test%\'')
     await pool.end()
     console.log('✅ Test database cleaned up')
   } catch (error) {
@@ -0,0 +1,134 @@
+/**
+ * HalalCheck EU - Signing Key Tests
+ *
+ * Unit tests for per-organization document signing keys: signing, verifying
+ * against the published key set and rotation
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import crypto from 'crypto'
+import { SigningKeyService, hashDocument } from '../src/services/signingKeyService'
+import { DatabaseService } from '../src/services/databaseService'
+import { databaseDouble, queryResult } from './helpers/database'
+
+const ORGANIZATION_ID = '6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f'
+
+process.env.SIGNING_KEY_ENCRYPTION_KEY = 'test-signing-key-encryption-key'
+
+/**
+ * Database double keeping signing key rows in memory
+ */
+function fakeDatabase(keys: any[]): DatabaseService {
+  return databaseDouble((sql, params) => {
+    if (sql.includes('INSERT INTO signing_keys')) {
+      if (sql.includes('ON CONFLICT') && keys.some(row => row.organization_id === params[1] && row.status === 'ACTIVE')) {
+        return queryResult([])
+      }
+      const row = {
+        id: params[0],
+        organization_id: params[1],
+        algorithm: params[2],
+        public_key: params[3],
+        private_key: params[4],
+        status: 'ACTIVE',
+        created_at: new Date(Date.now() + keys.length)
+      }
+      keys.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes("UPDATE signing_keys SET status = 'RETIRED'")) {
+      keys.filter(row => row.organization_id === params[0] && row.status === 'ACTIVE')
+        .forEach(row => Object.assign(row, { status: 'RETIRED', retired_at: new Date() }))
+      return queryResult([], 1)
+    }
+    if (sql.includes("WHERE organization_id = $1 AND status = 'ACTIVE'")) {
+      const rows = keys.filter(row => row.organization_id === params[0] && row.status === 'ACTIVE')
+      return queryResult(rows)
+    }
+    if (sql.includes('WHERE id = $1 AND organization_id = $2')) {
+      const rows = keys.filter(row => row.id === params[0] && row.organization_id === params[1])
+      return queryResult(rows)
+    }
+    if (sql.includes('SELECT * FROM signing_keys WHERE organization_id = $1')) {
+      const rows = keys.filter(row => row.organization_id === params[0])
+        .sort((a, b) => b.created_at.getTime() - a.created_at.getTime())
+      return queryResult(rows)
+    }
+    return undefined
+  })
+}
+
+describe('SigningKeyService', () => {
+  let keys: any[]
+  let service: SigningKeyService
+
+  beforeEach(() => {
+    keys = []
+    service = new SigningKeyService(fakeDatabase(keys))
+  })
+
+  it('should create a key on first use and sign with it afterwards', async () => {
+    const document = Buffer.from('%PDF-1.7 certificate')
+
+    const first = await service.signDocument(ORGANIZATION_ID, document)
+    const second = await service.signDocument(ORGANIZATION_ID, document)
+
+    expect(keys).toHaveLength(1)
+    expect(first).toMatchObject({ algorithm: 'EdDSA', keyId: keys[0].id, hash: hashDocument(document) })
+    expect(second.keyId).toBe(first.keyId)
+    // Private keys are only stored encrypted
+    expect(keys[0].private_key).not.toContain('PRIVATE KEY')
+  })
+
+  it('should verify genuine signatures and reject altered documents or foreign keys', async () => {
+    const signature = await service.signDocument(ORGANIZATION_ID, Buffer.from('original'))
+
+    expect(await service.verifySignature(ORGANIZATION_ID, signature)).toBe(true)
+    expect(await service.verifySignature(ORGANIZATION_ID, { ...signature, hash: hashDocument(Buffer.from('altered')) })).toBe(false)
+    expect(await service.verifySignature('00000000-0000-4000-8000-000000000000', signature)).toBe(false)
+    await expect(service.signHash(ORGANIZATION_ID, 'not-a-hash')).rejects.toMatchObject({ statusCode: 400 })
+  })
+
+  it('should publish keys that verify signatures without the service', async () => {
+    const document = Buffer.from('%PDF-1.7 report')
+    const signature = await service.signDocument(ORGANIZATION_ID, document)
+
+    const { keys: published } = await service.getJwks(ORGANIZATION_ID)
+    const jwk = published.find(key => key.kid === signature.keyId)!
+    const publicKey = crypto.createPublicKey({ key: { kty: jwk.kty, crv: jwk.crv, x: jwk.x }, format: 'jwk' })
+
+    expect(crypto.verify(
+      null,
+      crypto.createHash('sha256').update(document).digest(),
+      publicKey,
+      Buffer.from(signature.signature, 'base64url')
+    )).toBe(true)
+  })
+
+  it('should keep retired keys published after rotation so older signatures still verify', async () => {
+    const before = await service.signDocument(ORGANIZATION_ID, Buffer.from('issued last year'))
+
+    const rotated = await service.rotateKey(ORGANIZATION_ID)
+    const after = await service.signDocument(ORGANIZATION_ID, Buffer.from('issued today'))
+
+    expect(after.keyId).toBe(rotated.id)
+    expect(after.keyId).not.toBe(before.keyId)
+    expect(await service.verifySignature(ORGANIZATION_ID, before)).toBe(true)
+
+    const jwks = await service.getJwks(ORGANIZATION_ID)
+    expect(jwks.keys.map(key => key.kid)).toEqual([rotated.id, before.keyId])
+    expect((await service.listKeys(ORGANIZATION_ID)).map(key => key.status)).toEqual(['ACTIVE', 'RETIRED'])
+  })
+
+  it('should refuse to start without a key to encrypt private keys with', () => {
+    const environment = { ...process.env }
+    delete process.env.SIGNING_KEY_ENCRYPTION_KEY
+    delete process.env.JWT_SECRET
+
+    try {
+      expect(() => new SigningKeyService(fakeDatabase(keys))).toThrow('SIGNING_KEY_ENCRYPTION_KEY or JWT_SECRET must be set')
+    } finally {
+      process.env = environment
+    }
+  })
+})
@@ -0,0 +1,323 @@
+/**
+ * HalalCheck EU - Supplier Registry Tests
+ *
+ * Unit tests for the supplier registry: certificate-backed evidence for
+ * analyzed ingredients, resolving doubtful verdicts with it, and validation
+ * of suppliers and certificates
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { SupplierService } from '../src/services/supplierService'
+import { DatabaseService } from '../src/services/databaseService'
+import { databaseDouble, queryResult, assignments, dateIn, uuidSequence } from './helpers/database'
+import { HalalStatus, IngredientAnalysis, RiskLevel, SupplierEvidence } from '../src/types/halal'
+
+const ORGANIZATION_ID = '6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f'
+const USER_ID = '00000000-0000-4000-8000-00000000000b'
+const LECITHIN_ID = '22222222-3333-4444-8555-666666666666'
+
+interface Store {
+  suppliers: any[]
+  materials: any[]
+  certificates: any[]
+}
+
+const uuid = uuidSequence('aaaaaaaa')
+
+/**
+ * Database double keeping the registry in memory
+ */
+function fakeDatabase(store: Store): DatabaseService {
+  return databaseDouble((sql, params) => {
+    if (sql.includes('LEFT JOIN LATERAL')) {
+      const [, ingredientIds, names, asOf] = params
+      const rows = store.materials
+        .filter(material => material.organization_id === params[0])
+        .filter(material => ingredientIds.includes(material.ingredient_id) || names.includes(material.name.toLowerCase()))
+        .flatMap(material => {
+          const supplier = store.suppliers.find(row => row.id === material.supplier_id && row.active)
+          if (!supplier) {
+            return []
+          }
+          const certificate = store.certificates
+            .filter(row => row.supplier_id === material.supplier_id && row.material_ids.includes(material.id))
+            .filter(row => row.status === 'active' && (!row.valid_from || row.valid_from <= asOf) && row.valid_until >= asOf)
+            .sort((a, b) => b.valid_until.localeCompare(a.valid_until))[0]
+          return [{
+            material_id: material.id,
+            material_name: material.name,
+            ingredient_id: material.ingredient_id,
+            supplier_id: supplier.id,
+            supplier_name: supplier.name,
+            certificate_id: certificate?.id || null,
+            certificate_number: certificate?.certificate_number || null,
+            issuer: certificate?.issuer || null,
+            valid_until: certificate?.valid_until || null
+          }]
+        })
+      return queryResult(rows)
+    }
+    if (sql.includes('INSERT INTO suppliers')) {
+      const row = {
+        id: uuid(),
+        organization_id: params[0],
+        name: params[1],
+        country: params[2],
+        contact_name: params[3],
+        contact_email: params[4],
+        notes: params[5],
+        active: params[6],
+        version: 1,
+        created_by: params[7],
+        updated_by: params[7],
+        created_at: new Date(),
+        updated_at: new Date()
+      }
+      store.suppliers.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('FROM suppliers WHERE id = $1')) {
+      const rows = store.suppliers.filter(row => row.id === params[0] && row.organization_id === params[1])
+      return queryResult(rows)
+    }
+    if (sql.includes('UPDATE suppliers')) {
+      const rows = store.suppliers.filter(row => row.id === params[0] && row.organization_id === params[1])
+      rows.forEach(row => {
+        Object.assign(row, assignments(sql, params))
+        row.version += 1
+      })
+      return queryResult(rows)
+    }
+    if (sql.includes('FROM supplier_materials m') && sql.includes('ANY($2::uuid[])')) {
+      const rows = store.materials.filter(row => params[1].includes(row.supplier_id))
+      return queryResult(rows)
+    }
+    if (sql.includes('FROM supplier_materials m') && sql.includes('m.id = $1')) {
+      const rows = store.materials.filter(row => row.id === params[0] && row.supplier_id === params[1])
+      return queryResult(rows)
+    }
+    if (sql.includes('INSERT INTO supplier_materials')) {
+      const row = {
+        id: uuid(),
+        organization_id: params[0],
+        supplier_id: params[1],
+        name: params[2],
+        product_code: params[3],
+        ingredient_id: params[4],
+        created_at: new Date(),
+        updated_at: new Date()
+      }
+      store.materials.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('SELECT id FROM ingredients')) {
+      return queryResult(params[0] === LECITHIN_ID ? [{ id: LECITHIN_ID }] : [])
+    }
+    if (sql.includes('FROM supplier_certificates')) {
+      const rows = store.certificates.filter(row => params[1].includes(row.supplier_id))
+      return queryResult(rows)
+    }
+    if (sql.includes('INSERT INTO supplier_certificates')) {
+      const row = {
+        id: uuid(),
+        organization_id: params[0],
+        supplier_id: params[1],
+        issuer: params[2],
+        certificate_number: params[3],
+        valid_from: params[4],
+        valid_until: params[5],
+        scope: params[6],
+        material_ids: params[7],
+        status: params[8],
+        document_id: params[9],
+        created_at: new Date(),
+        updated_at: new Date()
+      }
+      store.certificates.push(row)
+      return queryResult([row])
+    }
+    return undefined
+  })
+}
+
+function ingredient(nodeId: string, name: string, status: HalalStatus, path: string[] = [name]): IngredientAnalysis {
+  return {
+    detectedName: name,
+    standardName: name,
+    status,
+    riskLevel: RiskLevel.MEDIUM,
+    confidence: 0.9,
+    reasoning: 'Source must be verified',
+    requiresExpertReview: true,
+    warnings: [],
+    suggestions: [],
+    source: 'database',
+    eNumbers: [],
+    categories: [],
+    nodeId,
+    ...(nodeId.includes('.') && { parentId: nodeId.slice(0, nodeId.lastIndexOf('.')) }),
+    path
+  }
+}
+
+describe('SupplierService', () => {
+  let store: Store
+  let service: SupplierService
+
+  beforeEach(() => {
+    store = { suppliers: [], materials: [], certificates: [] }
+    service = new SupplierService(fakeDatabase(store))
+  })
+
+  async function registerLecithin(supplierName: string, validUntil: string | null) {
+    const supplier = await service.createSupplier(ORGANIZATION_ID, USER_ID, { name: supplierName, country: 'NL' })
+    const material = await service.addMaterial(ORGANIZATION_ID, supplier.id, { name: 'Sunflower lecithin', ingredientId: LECITHIN_ID })
+    if (validUntil) {
+      await service.addCertificate(ORGANIZATION_ID, USER_ID, supplier.id, {
+        issuer: 'Halal Certification Europe',
+        certificateNumber: `HCE-${supplierName}`,
+        validUntil,
+        scope: 'Lecithins',
+        materialIds: [material.id]
+      })
+    }
+    return { supplier, material }
+  }
+
+  describe('findEvidence', () => {
+    it('should return the certificates of every supplier of the ingredient\'s material', async () => {
+      const { supplier, material } = await registerLecithin('Acme Lipids', dateIn(90))
+
+      const evidence = await service.findEvidence(ORGANIZATION_ID, [
+        { nodeId: '1', names: ['lecithin'], ingredientId: LECITHIN_ID },
+        { nodeId: '2', names: ['sugar'] }
+      ])
+
+      expect([...evidence.keys()]).toEqual(['1'])
+      expect(evidence.get('1')).toEqual([{
+        supplierId: supplier.id,
+        supplierName: 'Acme Lipids',
+        materialId: material.id,
+        materialName: 'Sunflower lecithin',
+        certificateId: store.certificates[0].id,
+        certificateNumber: 'HCE-Acme Lipids',
+        issuer: 'Halal Certification Europe',
+        validUntil: dateIn(90)
+      }])
+    })
+
+    it('should match registered materials by name when the ingredient has no knowledge-base link', async () => {
+      await registerLecithin('Acme Lipids', dateIn(90))
+
+      const evidence = await service.findEvidence(ORGANIZATION_ID, [{ nodeId: '3', names: ['Sunflower Lecithin'] }])
+
+      expect(evidence.get('3')).toHaveLength(1)
+    })
+
+    it('should not certify the ingredient while any active supplier lacks a valid certificate', async () => {
+      await registerLecithin('Acme Lipids', dateIn(90))
+      const { supplier } = await registerLecithin('Old Mill', dateIn(-1))
+      const lookup = [{ nodeId: '1', names: ['lecithin'], ingredientId: LECITHIN_ID }]
+
+      expect((await service.findEvidence(ORGANIZATION_ID, lookup)).has('1')).toBe(false)
+
+      await service.updateSupplier(ORGANIZATION_ID, USER_ID, supplier.id, { active: false, version: 1 })
+
+      expect((await service.findEvidence(ORGANIZATION_ID, lookup)).get('1')).toHaveLength(1)
+    })
+  })
+
+  describe('applyEvidence', () => {
+    const evidence: SupplierEvidence = {
+      supplierId: 's-1',
+      supplierName: 'Acme Lipids',
+      materialId: 'm-1',
+      materialName: 'Chocolate coating',
+      certificateId: 'c-1',
+      certificateNumber: 'HCE-1',
+      issuer: 'Halal Certification Europe',
+      validUntil: '2030-01-31'
+    }
+
+    it('should resolve doubtful ingredients and the sub-ingredients of certified compounds', () => {
+      const [compound, emulsifier, sugar] = service.applyEvidence([
+        ingredient('1', 'chocolate coating', HalalStatus.MASHBOOH),
+        ingredient('1.1', 'emulsifier', HalalStatus.MASHBOOH, ['chocolate coating', 'emulsifier']),
+        ingredient('2', 'sugar', HalalStatus.HALAL)
+      ], new Map([['1', [evidence]]]))
+
+      expect(compound).toMatchObject({
+        status: HalalStatus.HALAL,
+        riskLevel: RiskLevel.LOW,
+        requiresExpertReview: false,
+        supplierEvidence: [evidence]
+      })
+      expect(compound!.reasoning).toContain('Certified by supplier: Acme Lipids (Halal Certification Europe certificate HCE-1, valid until 2030-01-31)')
+      expect(emulsifier!.status).toBe(HalalStatus.HALAL)
+      expect(emulsifier!.supplierEvidence).toEqual([{ ...evidence, coveredBy: 'chocolate coating' }])
+      expect(sugar!.supplierEvidence).toBeUndefined()
+    })
+
+    it('should keep HARAM verdicts and flag the conflicting certificate', () => {
+      const [gelatin] = service.applyEvidence(
+        [ingredient('1', 'pork gelatin', HalalStatus.HARAM)],
+        new Map([['1', [evidence]]])
+      )
+
+      expect(gelatin!.status).toBe(HalalStatus.HARAM)
+      expect(gelatin!.supplierEvidence).toBeUndefined()
+      expect(gelatin!.warnings[0]).toContain('holds halal certificate HCE-1')
+    })
+
+    it('should warn when the export market does not recognize the certificate issuer', () => {
+      const unrecognized: SupplierEvidence = {
+        ...evidence,
+        issuerRecognition: { authority: 'JAKIM', market: 'Malaysia', recognized: false }
+      }
+
+      const [coating] = service.applyEvidence(
+        [ingredient('1', 'chocolate coating', HalalStatus.MASHBOOH)],
+        new Map([['1', [unrecognized]]])
+      )
+
+      expect(coating!.status).toBe(HalalStatus.HALAL)
+      expect(coating!.warnings).toEqual([
+        'Halal Certification Europe, issuer of Acme Lipids\'s certificate HCE-1, is not recognized by JAKIM for export to Malaysia'
+      ])
+    })
+  })
+
+  describe('validation', () => {
+    it('should refuse certificates for materials of another supplier or with reversed validity', async () => {
+      const { material } = await registerLecithin('Acme Lipids', null)
+      const other = await service.createSupplier(ORGANIZATION_ID, USER_ID, { name: 'Other' })
+
+      await expect(service.addCertificate(ORGANIZATION_ID, USER_ID, other.id, {
+        issuer: 'HFA',
+        certificateNumber: 'HFA-1',
+        validUntil: dateIn(30),
+        materialIds: [material.id]
+      })).rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining('not registered for Other') })
+
+      await expect(service.addCertificate(ORGANIZATION_ID, USER_ID, other.id, {
+        issuer: 'HFA',
+        certificateNumber: 'HFA-1',
+        validFrom: dateIn(10),
+        validUntil: dateIn(5)
+      })).rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining('validFrom must not be after validUntil') })
+    })
+
+    it('should refuse unknown knowledge-base ingredients and stale supplier versions', async () => {
+      const supplier = await service.createSupplier(ORGANIZATION_ID, USER_ID, { name: 'Acme Lipids' })
+
+      await expect(service.addMaterial(ORGANIZATION_ID, supplier.id, {
+        name: 'Gelatin',
+        ingredientId: '99999999-9999-4999-8999-999999999999'
+      })).rejects.toMatchObject({ statusCode: 400 })
+
+      await service.updateSupplier(ORGANIZATION_ID, USER_ID, supplier.id, { notes: 'Audited 2026', version: 1 })
+      await expect(service.updateSupplier(ORGANIZATION_ID, USER_ID, supplier.id, { notes: 'Stale', version: 1 }))
+        .rejects.toMatchObject({ statusCode: 409, code: 'VERSION_CONFLICT' })
+    })
+  })
+})
@@ -0,0 +1,239 @@
+/**
+ * HalalCheck EU - Workflow Execution Tests
+ *
+ * Unit tests for persisted orchestrator executions: checkpoints under a
+ * lease, resuming abandoned executions, cancellation and step retries
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { WorkflowExecutionService } from '../src/services/workflowExecutionService'
+import { DatabaseService } from '../src/services/databaseService'
+import { databaseDouble, queryResult } from './helpers/database'
+
+const ORGANIZATION_ID = '6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f'
+const USER_ID = '11111111-2222-4333-8444-555555555555'
+
+/**
+ * Database double keeping execution rows in memory; JSONB columns are
+ * parsed the way the pg driver returns them
+ */
+function fakeDatabase(rows: any[]): DatabaseService {
+  const leaseUntil = (seconds: number) => new Date(Date.now() + seconds * 1000)
+
+  return databaseDouble((sql, params) => {
+    if (sql.includes('INSERT INTO workflow_executions')) {
+      if (rows.some(row => row.id === params[0])) {
+        return queryResult([])
+      }
+      const row = {
+        id: params[0],
+        organization_id: params[1],
+        workflow_id: params[2],
+        status: 'RUNNING',
+        current_step: params[3],
+        current_step_index: 0,
+        progress: 0,
+        data: JSON.parse(params[4]),
+        results: {},
+        errors: [],
+        retry_count: {},
+        worker_id: params[5],
+        lease_expires_at: leaseUntil(params[6]),
+        created_by: params[7],
+        started_at: new Date(),
+        ended_at: null,
+        created_at: new Date(Date.now() + rows.length),
+        updated_at: new Date()
+      }
+      rows.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('SET status = $4')) {
+      const row = rows.find(r => r.id === params[0] && r.organization_id === params[1] &&
+        r.worker_id === params[2] && r.status === 'RUNNING')
+      if (!row) {
+        return queryResult([])
+      }
+      Object.assign(row, {
+        status: params[3],
+        current_step: params[4],
+        current_step_index: params[5],
+        progress: params[6],
+        results: JSON.parse(params[7]),
+        errors: JSON.parse(params[8]),
+        retry_count: JSON.parse(params[9]),
+        worker_id: params[10] ? row.worker_id : null,
+        lease_expires_at: params[10] ? leaseUntil(params[11]) : null,
+        ended_at: params[12] ? new Date() : null
+      })
+      return queryResult([row])
+    }
+    if (sql.includes('FOR UPDATE SKIP LOCKED')) {
+      const claimed = rows
+        .filter(r => r.organization_id === params[0] &&
+          (r.status === 'PENDING' || (r.status === 'RUNNING' && r.lease_expires_at < new Date())))
+        .slice(0, params[3])
+      claimed.forEach(r => Object.assign(r, { status: 'RUNNING', worker_id: params[1], lease_expires_at: leaseUntil(params[2]) }))
+      return queryResult(claimed)
+    }
+    if (sql.includes('id = ANY($4)')) {
+      const renewed = rows.filter(r => r.organization_id === params[0] && r.worker_id === params[1] &&
+        r.status === 'RUNNING' && params[3].includes(r.id))
+      renewed.forEach(r => { r.lease_expires_at = leaseUntil(params[2]) })
+      return queryResult(renewed.map(r => ({ id: r.id })))
+    }
+    if (sql.includes("SET status = 'CANCELLED'")) {
+      const row = rows.find(r => r.id === params[0] && r.organization_id === params[1] &&
+        ['PENDING', 'RUNNING'].includes(r.status))
+      if (!row) {
+        return queryResult([])
+      }
+      Object.assign(row, { status: 'CANCELLED', worker_id: null, lease_expires_at: null, ended_at: new Date(), cancelled_by: params[2] })
+      return queryResult([row])
+    }
+    if (sql.includes("SET status = 'PENDING'")) {
+      const row = rows.find(r => r.id === params[0] && r.organization_id === params[1] && r.status === 'FAILED')
+      if (!row) {
+        return queryResult([])
+      }
+      const { [params[2]]: _reset, ...retryCount } = row.retry_count
+      Object.assign(row, { status: 'PENDING', current_step: params[2], retry_count: retryCount, worker_id: null, lease_expires_at: null, ended_at: null })
+      return queryResult([row])
+    }
+    if (sql.includes('SELECT * FROM workflow_executions WHERE id = $1')) {
+      const found = rows.filter(r => r.id === params[0])
+      return queryResult(found)
+    }
+    if (sql.includes('SELECT * FROM workflow_executions')) {
+      let found = rows.filter(r => r.organization_id === params[0])
+      if (sql.includes('status = $2')) {
+        found = found.filter(r => r.status === params[1])
+      }
+      found = found.sort((a, b) => b.created_at.getTime() - a.created_at.getTime())
+      return queryResult(found)
+    }
+    return undefined
+  })
+}
+
+describe('WorkflowExecutionService', () => {
+  let rows: any[]
+  let service: WorkflowExecutionService
+
+  const start = (id = 'exec_1700000000000_abc', workerId = 'agents-a') =>
+    service.createExecution(ORGANIZATION_ID, USER_ID, {
+      id,
+      workflowId: 'halal-analysis',
+      workerId,
+      currentStep: 'process-document',
+      data: { productName: 'Chocolate spread' }
+    })
+
+  const checkpoint = (status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED', overrides: Record<string, unknown> = {}) =>
+    service.checkpoint(ORGANIZATION_ID, 'exec_1700000000000_abc', {
+      workerId: 'agents-a',
+      status,
+      currentStep: 'analyze-ingredients',
+      currentStepIndex: 1,
+      progress: 50,
+      results: { 'process-document': { ingredients: ['sugar', 'gelatin'] } },
+      errors: [],
+      retryCount: {},
+      ...overrides
+    })
+
+  beforeEach(() => {
+    rows = []
+    service = new WorkflowExecutionService(fakeDatabase(rows))
+  })
+
+  it('should persist step outputs and counters from the worker holding the execution', async () => {
+    await start()
+    await expect(start()).rejects.toMatchObject({ statusCode: 409, code: 'EXECUTION_EXISTS' })
+
+    const execution = await checkpoint('RUNNING', { retryCount: { 'analyze-ingredients': 1 } })
+
+    expect(execution).toMatchObject({
+      status: 'RUNNING',
+      currentStep: 'analyze-ingredients',
+      progress: 50,
+      results: { 'process-document': { ingredients: ['sugar', 'gelatin'] } },
+      retryCount: { 'analyze-ingredients': 1 },
+      workerId: 'agents-a'
+    })
+
+    await expect(service.checkpoint(ORGANIZATION_ID, 'exec_1700000000000_abc', {
+      workerId: 'agents-b',
+      status: 'RUNNING',
+      currentStep: 'analyze-ingredients',
+      currentStepIndex: 1,
+      progress: 60,
+      results: {},
+      errors: [],
+      retryCount: {}
+    })).rejects.toMatchObject({ statusCode: 409, code: 'EXECUTION_NOT_HELD' })
+  })
+
+  it('should let another worker resume executions whose lease lapsed or were released', async () => {
+    await start('exec_1700000000000_one')
+    await start('exec_1700000000000_two')
+    await start('exec_1700000000000_three')
+    rows[0].lease_expires_at = new Date(Date.now() - 1000)
+    await service.checkpoint(ORGANIZATION_ID, 'exec_1700000000000_two', {
+      workerId: 'agents-a',
+      status: 'PENDING',
+      currentStep: 'generate-report',
+      currentStepIndex: 2,
+      progress: 66,
+      results: {},
+      errors: [],
+      retryCount: {}
+    })
+
+    const claimed = await service.claimExecutions(ORGANIZATION_ID, 'agents-b', 10)
+
+    expect(claimed.map(e => e.id)).toEqual(['exec_1700000000000_one', 'exec_1700000000000_two'])
+    expect(claimed.every(e => e.workerId === 'agents-b' && e.status === 'RUNNING')).toBe(true)
+    // The original worker has lost them; only the third is still its own
+    expect(await service.renewLeases(ORGANIZATION_ID, 'agents-a', rows.map(r => r.id))).toEqual(['exec_1700000000000_three'])
+  })
+
+  it('should cancel running executions and stop the worker at its next checkpoint', async () => {
+    await start()
+
+    const cancelled = await service.cancelExecution(ORGANIZATION_ID, USER_ID, 'exec_1700000000000_abc')
+
+    expect(cancelled.status).toBe('CANCELLED')
+    expect(cancelled.endedAt).toBeDefined()
+    await expect(checkpoint('RUNNING')).rejects.toMatchObject({ code: 'EXECUTION_NOT_HELD' })
+    await expect(service.cancelExecution(ORGANIZATION_ID, USER_ID, 'exec_1700000000000_abc'))
+      .rejects.toMatchObject({ statusCode: 409, code: 'INVALID_STATUS_TRANSITION' })
+  })
+
+  it('should queue failed executions for retry from a step with its counter reset', async () => {
+    await start()
+    await expect(service.retryExecution(ORGANIZATION_ID, 'exec_1700000000000_abc'))
+      .rejects.toMatchObject({ statusCode: 409 })
+
+    await checkpoint('FAILED', {
+      errors: [{ step: 'analyze-ingredients', error: 'Model timeout', timestamp: new Date() }],
+      retryCount: { 'process-document': 1, 'analyze-ingredients': 3 }
+    })
+
+    const retried = await service.retryExecution(ORGANIZATION_ID, 'exec_1700000000000_abc')
+
+    expect(retried).toMatchObject({ status: 'PENDING', currentStep: 'analyze-ingredients', retryCount: { 'process-document': 1 } })
+    expect(retried.workerId).toBeUndefined()
+    expect(retried.endedAt).toBeUndefined()
+    expect((await service.claimExecutions(ORGANIZATION_ID, 'agents-b', 1))[0]!.id).toBe('exec_1700000000000_abc')
+  })
+
+  it('should keep executions of other organizations out of reach', async () => {
+    await start()
+
+    await expect(service.getExecution('00000000-0000-4000-8000-000000000000', 'exec_1700000000000_abc'))
+      .rejects.toMatchObject({ statusCode: 404, code: 'EXECUTION_NOT_FOUND' })
+    expect(await service.listExecutions('00000000-0000-4000-8000-000000000000')).toEqual([])
+    expect(await service.claimExecutions('00000000-0000-4000-8000-000000000000', 'agents-b', 5)).toEqual([])
+  })
+})
@@ -0,0 +1,284 @@
+/**
+ * HalalCheck EU - Workflow Task Tests
+ *
+ * Unit tests for the task inbox of manual and approval workflow stages:
+ * routing by workflow role, claiming, decisions and escalation of overdue tasks
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import crypto from 'crypto'
+import { WorkflowTaskService } from '../src/services/workflowTaskService'
+import { DatabaseService } from '../src/services/databaseService'
+import { databaseDouble, queryResult } from './helpers/database'
+import { EmailService } from '../src/services/emailService'
+import { WebhookService } from '../src/services/webhookService'
+import { CreateWorkflowTaskRequest, WorkflowTask } from '../src/types/workflows'
+
+const ORGANIZATION_ID = '6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f'
+const AGENT_USER = { id: '00000000-0000-4000-8000-00000000000a', role: 'CERTIFIER' }
+const REVIEWER = { id: '00000000-0000-4000-8000-00000000000b', role: 'ANALYST' }
+const SCHOLAR = { id: '00000000-0000-4000-8000-00000000000c', role: 'CERTIFIER' }
+const ADMIN = { id: '00000000-0000-4000-8000-00000000000d', role: 'ADMIN' }
+
+interface Store {
+  tasks: any[]
+  comments: any[]
+  users: any[]
+}
+
+/**
+ * Database double keeping tasks, comments and users in memory
+ */
+function fakeDatabase(store: Store): DatabaseService {
+  const open = (row: any) => ['OPEN', 'CLAIMED'].includes(row.status)
+  const find = (params: any[]) => store.tasks.find(row => row.id === params[0] && row.organization_id === params[1])
+
+  return databaseDouble((sql, params) => {
+    if (sql.includes('INSERT INTO workflow_tasks')) {
+      if (store.tasks.some(row => row.organization_id === params[0] && row.workflow_instance_id === params[1] &&
+          row.stage_id === params[3] && open(row))) {
+        return queryResult([])
+      }
+      const row = {
+        id: crypto.randomUUID(),
+        organization_id: params[0],
+        workflow_instance_id: params[1],
+        workflow_id: params[2],
+        stage_id: params[3],
+        type: params[4],
+        title: params[5],
+        description: params[6],
+        data: JSON.parse(params[7]),
+        assignee_roles: params[8],
+        approve_stage: params[9],
+        reject_stage: params[10],
+        duration_hours: params[11],
+        due_at: params[11] === null ? null : new Date(Date.now() + params[11] * 3600000),
+        status: 'OPEN',
+        escalation_level: 0,
+        created_by: params[12],
+        created_at: new Date(Date.now() + store.tasks.length),
+        updated_at: new Date()
+      }
+      store.tasks.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('SELECT workflow_roles FROM users')) {
+      const rows = store.users.filter(user => user.id === params[0])
+      return queryResult(rows)
+    }
+    if (sql.includes("SET status = 'CLAIMED'")) {
+      const row = find(params)
+      if (!row || row.status !== 'OPEN') {
+        return queryResult([])
+      }
+      Object.assign(row, { status: 'CLAIMED', claimed_by: params[2], claimed_at: new Date() })
+      return queryResult([row])
+    }
+    if (sql.includes('SET status = $3, decided_by = $4')) {
+      const row = find(params)
+      if (!row || !open(row)) {
+        return queryResult([])
+      }
+      Object.assign(row, {
+        status: params[2],
+        decided_by: params[3],
+        decided_at: new Date(),
+        decision_reason: params[4],
+        claimed_by: row.claimed_by || params[3]
+      })
+      return queryResult([row])
+    }
+    if (sql.includes('SET decision_applied_at')) {
+      const row = find(params)
+      if (!row || !['APPROVED', 'REJECTED'].includes(row.status) || row.decision_applied_at || row.decision_error) {
+        return queryResult([])
+      }
+      Object.assign(row, { decision_applied_at: params[2] ? null : new Date(), decision_error: params[2] })
+      return queryResult([row])
+    }
+    if (sql.includes('SET escalation_level = escalation_level + 1')) {
+      const rows = store.tasks.filter(row => open(row) && row.due_at && row.due_at < new Date())
+      rows.forEach(row => Object.assign(row, {
+        escalation_level: row.escalation_level + 1,
+        escalated_at: new Date(),
+        due_at: new Date(row.due_at.getTime() + row.duration_hours * 3600000)
+      }))
+      return queryResult(rows)
+    }
+    if (sql.includes("UPDATE workflow_tasks SET status = 'CANCELLED'")) {
+      const rows = store.tasks.filter(row => row.organization_id === params[0] && row.workflow_instance_id === params[1] && open(row))
+      rows.forEach(row => { row.status = 'CANCELLED' })
+      return queryResult([], rows.length)
+    }
+    if (sql.includes('INSERT INTO workflow_task_comments')) {
+      const row = { id: crypto.randomUUID(), task_id: params[0], user_id: params[1], body: params[2], created_at: new Date() }
+      store.comments.push(row)
+      return queryResult([row])
+    }
+    if (sql.includes('FROM workflow_task_comments')) {
+      const rows = store.comments.filter(row => row.task_id === params[0])
+      return queryResult(rows)
+    }
+    if (sql.includes('SELECT id, email FROM users')) {
+      const rows = store.users.filter(user => user.organization_id === params[0] &&
+        (user.role === 'ADMIN' || params[1].includes(user.id)))
+      return queryResult(rows)
+    }
+    if (sql.includes('decision_applied_at IS NULL AND decision_error IS NULL')) {
+      const rows = store.tasks.filter(row => row.organization_id === params[0] &&
+        ['APPROVED', 'REJECTED'].includes(row.status) && !row.decision_applied_at && !row.decision_error)
+      return queryResult(rows)
+    }
+    if (sql.includes('WHERE id = $1 AND organization_id = $2')) {
+      const row = find(params)
+      return queryResult(row ? [row] : [])
+    }
+    if (sql.includes('workflow_instance_id = $2 AND stage_id = $3')) {
+      const rows = store.tasks.filter(row => row.organization_id === params[0] && row.workflow_instance_id === params[1] &&
+        row.stage_id === params[2] && open(row))
+      return queryResult(rows)
+    }
+    if (sql.includes('SELECT * FROM workflow_tasks')) {
+      // Inbox: claimed by the user, or open and routed to one of their roles (or escalated, for supervisors)
+      const rows = store.tasks.filter(row => row.organization_id === params[0] && open(row) && (
+        row.claimed_by === params[1] || (row.status === 'OPEN' && (
+          row.assignee_roles.length === 0 ||
+          row.assignee_roles.some((role: string) => params[2].includes(role)) ||
+          (row.escalation_level > 0 && params[3])
+        ))
+      ))
+      return queryResult(rows)
+    }
+    return undefined
+  })
+}
+
+class RecordingEmailService extends EmailService {
+  escalations: Array<{ email: string; tasks: WorkflowTask[] }> = []
+
+  override async sendWorkflowTaskEscalation(email: string, tasks: WorkflowTask[]) {
+    this.escalations.push({ email, tasks })
+  }
+}
+
+function analysisReview(overrides: Partial<CreateWorkflowTaskRequest> = {}): CreateWorkflowTaskRequest {
+  return {
+    workflowInstanceId: 'certification-body-halal-certification-1700000000000',
+    workflowId: 'halal-certification',
+    stageId: 'analysis-review',
+    type: 'APPROVAL',
+    title: 'Analysis Review: Chocolate spread',
+    assigneeRoles: ['islamic-scholar', 'senior-reviewer'],
+    approveStage: 'facility-inspection',
+    rejectStage: 'request-additional-docs',
+    durationHours: 8,
+    ...overrides
+  }
+}
+
+describe('WorkflowTaskService', () => {
+  let store: Store
+  let email: RecordingEmailService
+  let events: Array<{ type: string; data: Record<string, unknown> }>
+  let service: WorkflowTaskService
+
+  beforeEach(() => {
+    store = {
+      tasks: [],
+      comments: [],
+      users: [
+        { ...REVIEWER, organization_id: ORGANIZATION_ID, email: 'reviewer@example.eu', workflow_roles: ['reviewer'] },
+        { ...SCHOLAR, organization_id: ORGANIZATION_ID, email: 'scholar@example.eu', workflow_roles: ['islamic-scholar'] },
+        { ...ADMIN, organization_id: ORGANIZATION_ID, email: 'admin@example.eu', workflow_roles: [] }
+      ]
+    }
+    email = new RecordingEmailService()
+    events = []
+    const webhooks = {
+      publish: async (_organizationId: string, type: string, data: Record<string, unknown>) => {
+        events.push({ type, data })
+        return 0
+      }
+    } as unknown as WebhookService
+    service = new WorkflowTaskService(fakeDatabase(store), email, webhooks)
+  })
+
+  it('should open one task per stage and route it to users holding an assignee role', async () => {
+    const task = await service.createTask(ORGANIZATION_ID, AGENT_USER.id, analysisReview())
+    const again = await service.createTask(ORGANIZATION_ID, AGENT_USER.id, analysisReview())
+
+    expect(again.id).toBe(task.id)
+    expect(task).toMatchObject({ status: 'OPEN', escalationLevel: 0 })
+    expect(task.dueAt!.getTime()).toBeGreaterThan(Date.now() + 7 * 3600000)
+
+    expect((await service.listTasks(ORGANIZATION_ID, SCHOLAR)).map(t => t.id)).toEqual([task.id])
+    expect(await service.listTasks(ORGANIZATION_ID, REVIEWER)).toEqual([])
+    await expect(service.claimTask(ORGANIZATION_ID, REVIEWER, task.id))
+      .rejects.toMatchObject({ statusCode: 403, code: 'TASK_NOT_ASSIGNED' })
+  })
+
+  it('should let the claimant comment and decide, and hand the decision to the agent', async () => {
+    const task = await service.createTask(ORGANIZATION_ID, AGENT_USER.id, analysisReview())
+
+    await expect(service.decideTask(ORGANIZATION_ID, SCHOLAR, task.id, 'APPROVED', undefined))
+      .rejects.toMatchObject({ statusCode: 409, code: 'TASK_NOT_CLAIMED' })
+
+    await service.claimTask(ORGANIZATION_ID, SCHOLAR, task.id)
+    await service.addComment(ORGANIZATION_ID, SCHOLAR, task.id, 'E471 source confirmed as plant-based')
+    await expect(service.decideTask(ORGANIZATION_ID, SCHOLAR, task.id, 'REJECTED', ''))
+      .rejects.toMatchObject({ statusCode: 400 })
+
+    const decided = await service.decideTask(ORGANIZATION_ID, SCHOLAR, task.id, 'REJECTED', 'Gelatin supplier certificate missing')
+
+    expect(decided).toMatchObject({ status: 'REJECTED', decidedBy: SCHOLAR.id, decisionReason: 'Gelatin supplier certificate missing' })
+    expect((await service.getTask(ORGANIZATION_ID, task.id)).comments).toHaveLength(1)
+    expect(events).toEqual([{
+      type: 'workflow-task-decided',
+      data: expect.objectContaining({ taskId: task.id, decision: 'REJECTED', nextStage: 'request-additional-docs' })
+    }])
+
+    expect((await service.listPendingDecisions(ORGANIZATION_ID)).map(t => t.id)).toEqual([task.id])
+    await service.acknowledgeDecision(ORGANIZATION_ID, task.id)
+    expect(await service.listPendingDecisions(ORGANIZATION_ID)).toEqual([])
+    await expect(service.acknowledgeDecision(ORGANIZATION_ID, task.id))
+      .rejects.toMatchObject({ statusCode: 409, code: 'DECISION_NOT_PENDING' })
+  })
+
+  it('should refuse rejections for stages without a rejection path', async () => {
+    const { rejectStage, ...withoutRejection } = analysisReview({ stageId: 'production-ready', assigneeRoles: [] })
+    const task = await service.createTask(ORGANIZATION_ID, AGENT_USER.id, withoutRejection)
+    await service.claimTask(ORGANIZATION_ID, REVIEWER, task.id)
+
+    await expect(service.decideTask(ORGANIZATION_ID, REVIEWER, task.id, 'REJECTED', 'Not ready'))
+      .rejects.toMatchObject({ statusCode: 409, code: 'REJECTION_NOT_AVAILABLE' })
+  })
+
+  it('should escalate overdue tasks to administrators and the claimant once per stage duration', async () => {
+    const task = await service.createTask(ORGANIZATION_ID, AGENT_USER.id, analysisReview())
+    await service.claimTask(ORGANIZATION_ID, SCHOLAR, task.id)
+    const { durationHours, ...withoutDuration } = analysisReview({ stageId: 'final-review' })
+    await service.createTask(ORGANIZATION_ID, AGENT_USER.id, withoutDuration)
+    store.tasks[0].due_at = new Date(Date.now() - 60000)
+
+    expect(await service.escalateOverdueTasks()).toBe(1)
+    expect(await service.escalateOverdueTasks()).toBe(0)
+
+    expect(store.tasks[0].escalation_level).toBe(1)
+    expect(email.escalations.map(e => e.email).sort()).toEqual(['admin@example.eu', 'scholar@example.eu'])
+    expect(events.map(e => e.type)).toEqual(['workflow-task-escalated'])
+
+    // Released back to the pool, the escalated task lands in the administrator's inbox
+    store.tasks[0].status = 'OPEN'
+    store.tasks[0].claimed_by = null
+    expect((await service.listTasks(ORGANIZATION_ID, ADMIN)).map(t => t.id)).toEqual([task.id])
+  })
+
+  it('should close the open tasks of a cancelled workflow instance', async () => {
+    const task = await service.createTask(ORGANIZATION_ID, AGENT_USER.id, analysisReview())
+
+    expect(await service.cancelInstanceTasks(ORGANIZATION_ID, task.workflowInstanceId)).toBe(1)
+    await expect(service.claimTask(ORGANIZATION_ID, SCHOLAR, task.id))
+      .rejects.toMatchObject({ statusCode: 409, code: 'INVALID_STATUS_TRANSITION' })
+  })
+})
@@ -2,7 +2,8 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
-import { dataManager, Application } from '@/lib/data-manager'
+import { dataManager, Application, PipelineColumn, PipelineViewer, SyncIssue } from '@/lib/data-manager'
+import { apiService, ApplicationChecklist, ChecklistItemState, PipelineDocumentRecord } from '@/lib/api'
 import { trackPipeline, trackPageView, trackFeatureUsage } from '@/lib/analytics-tracker'
 import { useOrganization, useOrganizationText } from '@/contexts/organization-context'
 
@@ -12,6 +13,7 @@ export default function ApplicationsPage() {
   
   const [applications, setApplications] = useState<Application[]>([])
   const [draggedApp, setDraggedApp] = useState<string | null>(null)
+  const [draggedVersion, setDraggedVersion] = useState<number | undefined>(undefined)
   const [selectedApp, setSelectedApp] = useState<Application | null>(null)
   const [showModal, setShowModal] = useState(false)
   const [showNewAppModal, setShowNewAppModal] = useState(false)
@@ -21,6 +23,8 @@ export default function ApplicationsPage() {
   const [showColumnManager, setShowColumnManager] = useState(false)
   const [editingColumnId, setEditingColumnId] = useState<string | null>(null)
   const [editingColumnTitle, setEditingColumnTitle] = useState('')
+  const [syncIssue, setSyncIssue] = useState<SyncIssue | null>(null)
+  const [, setPresenceTick] = useState(0)
 
   // Create status config from organization stages
   const statusConfig = stages.reduce((acc, stage) => {
@@ -40,20 +44,37 @@ export default function ApplicationsPage() {
     loadApplications()
     loadCustomColumns()
     
-    // Subscribe to data changes
+    // Subscribe to data changes, including colleagues' changes to the shared pipeline
     const unsubscribe = dataManager.subscribe(() => {
       loadApplications()
+      loadCustomColumns()
+      setSelectedApp(current => current ? dataManager.getApplicationById(current.id) || null : null)
     })
+    const unsubscribeSync = dataManager.subscribeToSyncIssues(setSyncIssue)
+    const unsubscribePresence = dataManager.subscribeToPresence(() => setPresenceTick(tick => tick + 1))
 
-    return unsubscribe
+    return () => {
+      unsubscribe()
+      unsubscribeSync()
+      unsubscribePresence()
+    }
   }, [])
 
+  // Let colleagues see which application is open here
+  useEffect(() => {
+    if (!selectedApp) return
+    const applicationId = selectedApp.id
+    dataManager.openApplication(applicationId)
+    return () => dataManager.closeApplication(applicationId)
+  }, [selectedApp?.id])
+
   const loadApplications = () => {
     setApplications(dataManager.getApplications())
   }
 
-  const handleDragStart = (appId: string) => {
-    setDraggedApp(appId)
+  const handleDragStart = (app: Application) => {
+    setDraggedApp(app.id)
+    setDraggedVersion(app.version)
   }
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -65,9 +86,20 @@ export default function ApplicationsPage() {
     if (draggedApp) {
       const app = applications.find(a => a.id === draggedApp)
       const oldStatus = app?.status
-      
-      dataManager.updateApplication(draggedApp, { status: newStatus })
       setDraggedApp(null)
+
+      // A colleague's change arrived mid-drag; keep it rather than moving over it
+      if (app?.version !== draggedVersion) {
+        setSyncIssue({
+          kind: 'conflict',
+          resource: 'application',
+          id: draggedApp,
+          message: 'A colleague changed this application while you were moving it; their version is shown'
+        })
+        return
+      }
+
+      dataManager.updateApplication(draggedApp, { status: newStatus })
       
       // Track pipeline stage change
       if (app && oldStatus !== newStatus) {
@@ -155,22 +187,14 @@ export default function ApplicationsPage() {
 
   // Custom columns management
   const loadCustomColumns = () => {
-    const saved = localStorage.getItem('pipeline-custom-columns')
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved)
-        setCustomColumns(parsed.map((col: any) => ({
-          ...col,
-          icon: <svg className="w-5 h-5 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" /></svg>
-        })))
-      } catch (e) {
-        console.error('Failed to load custom columns:', e)
-      }
-    }
+    setCustomColumns(dataManager.getCustomColumns().map(col => ({
+      ...col,
+      icon: <svg className="w-5 h-5 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" /></svg>
+    })))
   }
 
-  const saveCustomColumns = (columns: Array<{id: string, title: string}>) => {
-    localStorage.setItem('pipeline-custom-columns', JSON.stringify(columns.map(col => ({id: col.id, title: col.title}))))
+  const saveCustomColumns = (columns: PipelineColumn[]) => {
+    dataManager.saveCustomColumns(columns.map(col => ({ id: col.id, title: col.title })))
   }
 
   const addCustomColumn = () => {
@@ -196,13 +220,7 @@ export default function ApplicationsPage() {
       // Count applications that will be moved
       const affectedApps = applications.filter(app => app.status === columnId as any)
       
-      // Move all applications in this column to 'new' status
-      applications.forEach(app => {
-        if (app.status === columnId as any) {
-          dataManager.updateApplication(app.id, { status: 'new' })
-        }
-      })
-      
+      // Saving the columns moves applications in this column to 'new' status
       const updated = customColumns.filter(col => col.id !== columnId)
       setCustomColumns(updated)
       saveCustomColumns(updated)
@@ -302,6 +320,17 @@ export default function ApplicationsPage() {
       </div>
 
       <div className="max-w-7xl mx-auto px-6 py-8">
+        {syncIssue && (
+          <div className={`mb-6 flex items-center justify-between px-4 py-3 rounded-xl border text-sm ${
+            syncIssue.kind === 'conflict' ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-red-50 border-red-200 text-red-800'
+          }`}>
+            <span>{syncIssue.message}</span>
+            <button onClick={() => setSyncIssue(null)} className="ml-4 font-medium hover:underline">
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {/* Search and Filter */}
         <div className="mb-8 flex items-center space-x-4">
           <div className="flex-1">
@@ -404,7 +433,7 @@ export default function ApplicationsPage() {
                     key={app.id}
                     className="bg-white border border-slate-200 rounded-xl p-4 shadow-sm hover:shadow-md transition-all duration-200 cursor-move group"
                     draggable
-                    onDragStart={() => handleDragStart(app.id)}
+                    onDragStart={() => handleDragStart(app)}
                     onClick={() => openApplicationModal(app)}
                   >
                     <div className="flex items-start justify-between mb-3">
@@ -438,6 +467,8 @@ export default function ApplicationsPage() {
                       </div>
                     </div>
 
+                    <ViewerBadges viewers={dataManager.getViewers(app.id)} />
+
                     {/* Quick Actions (visible on hover) */}
                     <div className="mt-3 opacity-0 group-hover:opacity-100 transition-opacity">
                       <div className="flex items-center justify-between text-xs">
@@ -474,6 +505,7 @@ export default function ApplicationsPage() {
       {showModal && selectedApp && (
         <ApplicationModal 
           application={selectedApp}
+          viewers={dataManager.getViewers(selectedApp.id)}
           onClose={closeModal}
           onUpdate={updateApplicationNotes}
           onDelete={deleteApplication}
@@ -635,25 +667,74 @@ export default function ApplicationsPage() {
   )
 }
 
+// Colleagues who have an application open
+function ViewerBadges({ viewers }: { viewers: PipelineViewer[] }) {
+  if (viewers.length === 0) return null
+
+  const names = viewers.map(viewer => viewer.name)
+  return (
+    <div className="mt-3 flex items-center space-x-2 text-xs text-emerald-700" title={`Open by ${names.join(', ')}`}>
+      <div className="flex -space-x-1">
+        {viewers.slice(0, 3).map(viewer => (
+          <span
+            key={viewer.userId}
+            className="w-5 h-5 rounded-full bg-emerald-100 border border-white text-[10px] font-semibold flex items-center justify-center"
+          >
+            {viewer.name.split(' ').map(part => part[0]).join('').slice(0, 2).toUpperCase()}
+          </span>
+        ))}
+      </div>
+      <span>{viewers.length === 1 ? `${names[0]} is viewing` : `${viewers.length} colleagues viewing`}</span>
+    </div>
+  )
+}
+
 // Application Detail Modal Component
-function ApplicationModal({ application, onClose, onUpdate, onDelete }: {
+function ApplicationModal({ application, viewers, onClose, onUpdate, onDelete }: {
   application: Application
+  viewers: PipelineViewer[]
   onClose: () => void
   onUpdate: (notes: string) => void
   onDelete: (id: string) => void
 }) {
   const [notes, setNotes] = useState(application.notes)
+  // The notes the draft started from. A colleague's edit replaces an untouched
+  // draft; an edited one is only saved once the user picks which to keep.
+  const [baseNotes, setBaseNotes] = useState(application.notes)
+  const notesChangedByColleague = application.notes !== baseNotes
+
+  useEffect(() => {
+    if (notes === baseNotes) {
+      setNotes(application.notes)
+      setBaseNotes(application.notes)
+    }
+  }, [application.notes])
 
   const handleSave = () => {
+    if (notesChangedByColleague || notes === application.notes) return
+    setBaseNotes(notes)
     onUpdate(notes)
   }
 
+  const keepMyNotes = () => {
+    setBaseNotes(notes)
+    onUpdate(notes)
+  }
+
+  const takeTheirNotes = () => {
+    setNotes(application.notes)
+    setBaseNotes(application.notes)
+  }
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         <div className="p-6 border-b border-slate-200">
           <div className="flex items-center justify-between">
-            <h2 className="text-xl font-bold text-slate-900">{application.productName}</h2>
+            <div>
+              <h2 className="text-xl font-bold text-slate-900">{application.productName}</h2>
+              <ViewerBadges viewers={viewers} />
+            </div>
             <button
               onClick={onClose}
               className="w-8 h-8 bg-slate-100 hover:bg-slate-200 rounded-lg flex items-center justify-center transition-colors"
@@ -811,6 +892,8 @@ function ApplicationModal({ application, onClose, onUpdate, onDelete }: {
             </div>
           </div>
           
+          {dataManager.isShared() && <DocumentChecklistPanel applicationId={application.id} />}
+
           <div>
             <label className="text-sm font-medium text-slate-700">Notes</label>
             <textarea
@@ -821,6 +904,16 @@ function ApplicationModal({ application, onClose, onUpdate, onDelete }: {
               rows={3}
               placeholder="Add notes about this application..."
             />
+            {notesChangedByColleague && (
+              <div className="mt-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                <p>A colleague changed these notes while you were editing them:</p>
+                <p className="mt-1 whitespace-pre-wrap text-amber-900">{application.notes || '(empty)'}</p>
+                <div className="mt-2 flex space-x-3">
+                  <button onClick={takeTheirNotes} className="font-medium hover:underline">Use theirs</button>
+                  <button onClick={keepMyNotes} className="font-medium hover:underline">Keep mine</button>
+                </div>
+              </div>
+            )}
           </div>
           
           <div className="flex space-x-3">
@@ -840,6 +933,203 @@ function ApplicationModal({ application, onClose, onUpdate, onDelete }: {
   )
 }
 
+const checklistStateConfig: Record<ChecklistItemState, { label: string, color: string }> = {
+  'missing': { label: 'Missing', color: 'bg-slate-100 text-slate-600' },
+  'processing': { label: 'Processing', color: 'bg-blue-100 text-blue-700' },
+  'complete': { label: 'Complete', color: 'bg-green-100 text-green-700' },
+  'expiry-unknown': { label: 'Expiry unknown', color: 'bg-amber-100 text-amber-700' },
+  'expiring': { label: 'Expiring soon', color: 'bg-orange-100 text-orange-700' },
+  'expired': { label: 'Expired', color: 'bg-red-100 text-red-700' }
+}
+
+// Checklist of the documents an application needs. Uploads are parsed in the
+// background; certificates found in them are matched to an item and their
+// expiry dates filled in, which reviewers can correct.
+function DocumentChecklistPanel({ applicationId }: { applicationId: string }) {
+  const [checklist, setChecklist] = useState<ApplicationChecklist | null>(null)
+  const [uploadingItem, setUploadingItem] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = async () => {
+    try {
+      const response = await apiService.getApplicationChecklist(applicationId)
+      setChecklist(response.data)
+    } catch (loadError) {
+      console.error('Failed to load document checklist:', loadError)
+      setError('The document checklist could not be loaded')
+    }
+  }
+
+  useEffect(() => {
+    void load()
+    return dataManager.subscribeToDocuments(changedId => {
+      if (changedId === applicationId) void load()
+    })
+  }, [applicationId])
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setError(null)
+    try {
+      await action()
+      await load()
+    } catch (actionError) {
+      console.error(failure, actionError)
+      setError(failure)
+    }
+  }
+
+  const upload = async (file: File | undefined, checklistItem?: string) => {
+    if (!file) return
+    setUploadingItem(checklistItem || '')
+    await run(() => apiService.uploadPipelineDocument(applicationId, file, checklistItem), `${file.name} could not be uploaded`)
+    setUploadingItem(null)
+  }
+
+  const download = async (document: PipelineDocumentRecord) => {
+    await run(async () => {
+      const url = URL.createObjectURL(await apiService.downloadPipelineDocument(document.id))
+      const link = window.document.createElement('a')
+      link.href = url
+      link.download = document.fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    }, `${document.fileName} could not be downloaded`)
+  }
+
+  const renderDocument = (document: PipelineDocumentRecord, tracksExpiry: boolean) => (
+    <div key={document.id} className="flex items-center justify-between text-sm py-1">
+      <div className="min-w-0">
+        <button onClick={() => download(document)} className="text-blue-600 hover:text-blue-700 truncate">
+          {document.fileName}
+        </button>
+        {document.processingStatus === 'failed' && (
+          <p className="text-xs text-red-600">{document.processingError || 'Could not be processed'}</p>
+        )}
+        {(document.processingStatus === 'pending' || document.processingStatus === 'processing') && (
+          <p className="text-xs text-slate-500">Reading document...</p>
+        )}
+        {document.certificateNumber && (
+          <p className="text-xs text-slate-500">
+            {document.certificateNumber}{document.certificateIssuer ? ` • ${document.certificateIssuer}` : ''}
+          </p>
+        )}
+      </div>
+      <div className="flex items-center space-x-2 ml-2">
+        {tracksExpiry && (
+          <input
+            type="date"
+            value={document.expiryDate || ''}
+            onChange={(e) => run(
+              () => apiService.updatePipelineDocument(document.id, { expiryDate: e.target.value || null }),
+              'The expiry date could not be saved'
+            )}
+            className="text-xs border border-slate-200 rounded px-1 py-0.5"
+            title="Expiry date"
+          />
+        )}
+        <button
+          onClick={() => run(() => apiService.deletePipelineDocument(document.id), `${document.fileName} could not be deleted`)}
+          className="text-xs text-slate-500 hover:text-red-600"
+        >
+          Remove
+        </button>
+      </div>
+    </div>
+  )
+
+  if (!checklist) {
+    return error ? <div className="text-sm text-red-600">{error}</div> : null
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-slate-700">Document Checklist</label>
+        <span className={`text-xs px-2 py-1 rounded font-medium ${checklist.complete ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+          {checklist.complete ? 'Complete' : 'Incomplete'}
+        </span>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      <div className="mt-2 space-y-2">
+        {checklist.items.map(({ item, state, expiryDate, documents }) => (
+          <div key={item.key} className="p-3 bg-slate-50 rounded-xl border border-slate-200">
+            <div className="flex items-start justify-between">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-800">
+                  {item.title}{item.required ? '' : ' (optional)'}
+                </p>
+                {item.description && <p className="text-xs text-slate-500">{item.description}</p>}
+              </div>
+              <div className="flex items-center space-x-2 ml-2 shrink-0">
+                <span className={`text-xs px-2 py-1 rounded font-medium ${checklistStateConfig[state].color}`}>
+                  {checklistStateConfig[state].label}
+                  {expiryDate && (state === 'expiring' || state === 'expired') ? ` • ${new Date(`${expiryDate}T00:00:00`).toLocaleDateString()}` : ''}
+                </span>
+                <label className="text-xs text-emerald-600 hover:text-emerald-700 font-medium cursor-pointer">
+                  {uploadingItem === item.key ? 'Uploading...' : 'Upload'}
+                  <input
+                    type="file"
+                    className="hidden"
+                    accept=".pdf,.png,.jpg,.jpeg,.webp,.tif,.tiff,.txt,.csv,.xls,.xlsx"
+                    disabled={uploadingItem !== null}
+                    onChange={(e) => {
+                      void upload(e.target.files?.[0], item.key)
+                      e.target.value = ''
+                    }}
+                  />
+                </label>
+              </div>
+            </div>
+            {documents.length > 0 && (
+              <div className="mt-2 border-t border-slate-200 pt-2">
+                {documents.map(document => renderDocument(document, item.tracksExpiry))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {checklist.unmatched.length > 0 && (
+          <div className="p-3 bg-white rounded-xl border border-dashed border-slate-300">
+            <p className="text-sm font-medium text-slate-800">Not matched to the checklist</p>
+            {checklist.unmatched.map(document => (
+              <div key={document.id} className="flex items-center justify-between">
+                <div className="flex-1 min-w-0">{renderDocument(document, false)}</div>
+                <select
+                  value=""
+                  onChange={(e) => run(
+                    () => apiService.updatePipelineDocument(document.id, { checklistItem: e.target.value }),
+                    'The document could not be matched'
+                  )}
+                  className="ml-2 text-xs border border-slate-200 rounded px-1 py-0.5"
+                >
+                  <option value="" disabled>Match to...</option>
+                  {checklist.items.map(({ item }) => (
+                    <option key={item.key} value={item.key}>{item.title}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <label className="inline-block text-sm text-emerald-600 hover:text-emerald-700 font-medium cursor-pointer">
+          {uploadingItem === '' ? 'Uploading...' : '+ Upload other document'}
+          <input
+            type="file"
+            className="hidden"
+            accept=".pdf,.png,.jpg,.jpeg,.webp,.tif,.tiff,.txt,.csv,.xls,.xlsx"
+            disabled={uploadingItem !== null}
+            onChange={(e) => {
+              void upload(e.target.files?.[0])
+              e.target.value = ''
+            }}
+          />
+        </label>
+      </div>
+    </div>
+  )
+}
+
 // New Application Modal Component
 function NewApplicationModal({ onClose, onCreate }: {
   onClose: () => void
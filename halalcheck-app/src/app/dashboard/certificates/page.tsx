@@ -4,9 +4,10 @@ import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { dataManager, Certificate, Application } from '@/lib/data-manager'
 
-const statusConfig = {
+const statusConfig: Record<Certificate['status'], { color: string; label: string }> = {
   active: { color: 'bg-green-100 text-green-800 border-green-200', label: 'Active' },
   expired: { color: 'bg-red-100 text-red-800 border-red-200', label: 'Expired' },
+  suspended: { color: 'bg-orange-100 text-orange-800 border-orange-200', label: 'Suspended' },
   revoked: { color: 'bg-gray-100 text-gray-800 border-gray-200', label: 'Revoked' },
   pending: { color: 'bg-amber-100 text-amber-800 border-amber-200', label: 'Pending' }
 }
@@ -47,10 +48,15 @@ export default function CertificatesPage() {
     await new Promise(resolve => setTimeout(resolve, 2000))
     
     // Generate certificate
-    const certificate = dataManager.generateCertificateFromApplication(application)
-    
-    setIsGeneratingPDF(false)
-    alert(`Certificate ${certificate.certificateNumber} generated successfully!`)
+    try {
+      const certificate = await dataManager.generateCertificateFromApplication(application)
+      alert(`Certificate ${certificate.certificateNumber} generated successfully!`)
+    } catch (error) {
+      console.error('Certificate generation failed:', error)
+      alert('The certificate could not be generated. Please try again.')
+    } finally {
+      setIsGeneratingPDF(false)
+    }
   }
 
   const downloadPDF = async (cert: Certificate) => {
@@ -114,6 +120,7 @@ Notes: ${cert.notes}
     switch (status) {
       case 'active': return <svg className="w-4 h-4 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
       case 'expired': return <svg className="w-4 h-4 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+      case 'suspended': return <svg className="w-4 h-4 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
       case 'revoked': return <svg className="w-4 h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
       case 'pending': return <svg className="w-4 h-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
     }
@@ -248,6 +255,7 @@ Notes: ${cert.notes}
             <option value="all">All Status</option>
             <option value="active">Active</option>
             <option value="expired">Expired</option>
+            <option value="suspended">Suspended</option>
             <option value="revoked">Revoked</option>
             <option value="pending">Pending</option>
           </select>
@@ -0,0 +1,406 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { dataManager } from '@/lib/data-manager'
+import {
+  apiService,
+  CertificationBodyRecognitionRecord,
+  CertificationBodyRecord,
+  CertificationBodyStatus,
+  RecognitionAuthorityRecord,
+  RecognitionStatus
+} from '@/lib/api'
+
+const statusConfig: Record<CertificationBodyStatus, { label: string, color: string }> = {
+  'active': { label: 'Active', color: 'bg-green-100 text-green-700' },
+  'suspended': { label: 'Suspended', color: 'bg-orange-100 text-orange-700' },
+  'withdrawn': { label: 'Withdrawn', color: 'bg-slate-100 text-slate-600' }
+}
+
+const inputClass = 'px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500'
+
+const emptyBody = { name: '', aliases: '', country: '', standards: '', accreditation: '', website: '' }
+
+const splitList = (value: string) => value.split(',').map(entry => entry.trim()).filter(Boolean)
+
+// Badge of a recognition matrix cell. A recognition only counts while the
+// authority has not suspended it, it has not expired and the body is active.
+function recognitionBadge(body: CertificationBodyRecord, recognition?: CertificationBodyRecognitionRecord) {
+  if (!recognition) return { label: '—', color: 'text-slate-400' }
+  if (recognition.current) return { label: 'Recognized', color: 'bg-green-100 text-green-700' }
+  if (recognition.status === 'suspended') return { label: 'Suspended', color: 'bg-orange-100 text-orange-700' }
+  if (body.status !== 'active') return { label: `Body ${body.status}`, color: 'bg-slate-100 text-slate-600' }
+  return { label: 'Expired', color: 'bg-red-100 text-red-700' }
+}
+
+// Directory of halal certification bodies and the recognition matrix of
+// which export-market authorities accept their certificates. Supplier
+// certificates are checked against the authority of an analysis' export
+// market. The directory is maintained by platform administrators.
+export default function CertificationBodiesPage() {
+  const [authorities, setAuthorities] = useState<RecognitionAuthorityRecord[]>([])
+  const [bodies, setBodies] = useState<CertificationBodyRecord[]>([])
+  const [loaded, setLoaded] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [newBody, setNewBody] = useState(emptyBody)
+  const [recognition, setRecognition] = useState<{ bodyId: string, authority: string, status: RecognitionStatus, validUntil: string, reference: string }>({
+    bodyId: '', authority: '', status: 'recognized', validUntil: '', reference: ''
+  })
+  const [importFormat, setImportFormat] = useState<'csv' | 'json'>('csv')
+  const [importContent, setImportContent] = useState('')
+
+  const load = async (query = search) => {
+    try {
+      const response = await apiService.getCertificationBodies(query.trim() ? { search: query.trim() } : {})
+      setAuthorities(response.data.authorities)
+      setBodies(response.data.bodies)
+    } catch (loadError) {
+      console.error('Failed to load certification bodies:', loadError)
+      setError('The certification-body directory could not be loaded')
+    }
+    setLoaded(true)
+  }
+
+  useEffect(() => {
+    if (dataManager.isShared()) void load()
+  }, [])
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setError(null)
+    setNotice(null)
+    try {
+      await action()
+    } catch (actionError) {
+      console.error(failure, actionError)
+      setError(failure)
+    }
+    await load()
+  }
+
+  const addBody = async () => {
+    if (!newBody.name.trim()) return
+    await run(() => apiService.createCertificationBody({
+      name: newBody.name,
+      aliases: splitList(newBody.aliases),
+      country: newBody.country,
+      standards: splitList(newBody.standards),
+      accreditation: newBody.accreditation,
+      ...(newBody.website && { website: newBody.website })
+    }), `${newBody.name} could not be added`)
+    setNewBody(emptyBody)
+  }
+
+  const saveRecognition = async () => {
+    if (!recognition.bodyId || !recognition.authority) return
+    await run(() => apiService.setCertificationBodyRecognition(recognition.bodyId, recognition.authority, {
+      status: recognition.status,
+      validUntil: recognition.validUntil || null,
+      reference: recognition.reference
+    }), `The ${recognition.authority} recognition could not be saved`)
+    setRecognition({ ...recognition, validUntil: '', reference: '' })
+  }
+
+  const runImport = async () => {
+    if (!importContent.trim()) return
+    await run(async () => {
+      const response = await apiService.importCertificationBodies(importFormat, importContent)
+      setImportContent('')
+      setNotice(`Imported ${response.data.created} new and ${response.data.updated} updated certification bodies`)
+    }, 'The import was rejected; no certification bodies were changed')
+  }
+
+  const readImportFile = async (file: File) => {
+    setImportFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv')
+    setImportContent(await file.text())
+  }
+
+  if (!dataManager.isShared()) {
+    return (
+      <div className="bg-white rounded-2xl border border-slate-200 p-12 text-center">
+        <h1 className="text-lg font-semibold text-slate-900 mb-2">Certification Bodies</h1>
+        <p className="text-slate-600">
+          Sign in with your organization account to see which certification bodies export markets recognize.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-2xl border border-slate-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">Certification Bodies</h1>
+            <p className="text-slate-600 mt-1">
+              Supplier certificates from bodies the export market&apos;s authority does not recognize are flagged in analyses
+            </p>
+          </div>
+          <div className="bg-emerald-100 text-emerald-800 px-3 py-1 rounded-full text-sm font-medium">
+            {bodies.length} Bodies
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          <input
+            className={`${inputClass} flex-1`}
+            placeholder="Search by name or alias"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') void load() }}
+          />
+          <button
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50"
+            onClick={() => { void load() }}
+          >
+            Search
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+        {notice && <p className="text-sm text-green-700 mt-3">{notice}</p>}
+      </div>
+
+      {/* Recognition matrix */}
+      <div className="bg-white rounded-2xl border border-slate-200 p-6 overflow-x-auto">
+        <h2 className="text-lg font-semibold text-slate-900 mb-4">Recognition Matrix</h2>
+        {loaded && bodies.length === 0 ? (
+          <p className="text-sm text-slate-500">No certification bodies in the directory.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-600 border-b border-slate-200">
+                <th className="py-2 pr-4 font-medium">Certification body</th>
+                {authorities.map(authority => (
+                  <th key={authority.code} className="py-2 px-2 font-medium text-center" title={authority.name}>
+                    {authority.code}
+                    <span className="block text-xs font-normal text-slate-500">{authority.market}</span>
+                  </th>
+                ))}
+                <th className="py-2 pl-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {bodies.map(body => (
+                <tr key={body.id} className={body.status === 'active' ? '' : 'opacity-70'}>
+                  <td className="py-3 pr-4">
+                    <div className="flex items-center space-x-2">
+                      {body.logoUrl && <img src={body.logoUrl} alt="" className="w-6 h-6 object-contain" />}
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-900">
+                          {body.website ? <a href={body.website} target="_blank" rel="noreferrer" className="hover:underline">{body.name}</a> : body.name}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {[body.country, body.standards.join(', '), body.accreditation].filter(Boolean).join(' • ') || 'No details'}
+                        </p>
+                      </div>
+                      <span className={`text-xs px-2 py-1 rounded font-medium shrink-0 ${statusConfig[body.status].color}`}>
+                        {statusConfig[body.status].label}
+                      </span>
+                    </div>
+                  </td>
+                  {authorities.map(authority => {
+                    const entry = body.recognitions.find(candidate => candidate.authority === authority.code)
+                    const badge = recognitionBadge(body, entry)
+                    return (
+                      <td key={authority.code} className="py-3 px-2 text-center">
+                        <span
+                          className={`text-xs px-2 py-1 rounded font-medium ${badge.color}`}
+                          title={entry ? [entry.reference, entry.validUntil && `Until ${new Date(`${entry.validUntil}T00:00:00`).toLocaleDateString()}`].filter(Boolean).join(' • ') : undefined}
+                        >
+                          {badge.label}
+                        </span>
+                        {entry && (
+                          <button
+                            className="block mx-auto mt-1 text-xs text-red-600 hover:text-red-700"
+                            onClick={() => { void run(() => apiService.removeCertificationBodyRecognition(body.id, authority.code), `The ${authority.code} recognition could not be removed`) }}
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </td>
+                    )
+                  })}
+                  <td className="py-3 pl-2 text-right whitespace-nowrap">
+                    <select
+                      className="text-xs border border-slate-300 rounded px-2 py-1"
+                      value={body.status}
+                      onChange={(e) => {
+                        void run(
+                          () => apiService.updateCertificationBody(body.id, body.version, { status: e.target.value as CertificationBodyStatus }),
+                          `${body.name} could not be updated`
+                        )
+                      }}
+                    >
+                      <option value="active">Active</option>
+                      <option value="suspended">Suspended</option>
+                      <option value="withdrawn">Withdrawn</option>
+                    </select>
+                    <button
+                      className="ml-2 text-xs text-red-600 hover:text-red-700 font-medium"
+                      onClick={() => {
+                        if (window.confirm(`Remove ${body.name} from the directory?`)) {
+                          void run(() => apiService.deleteCertificationBody(body.id, body.version), `${body.name} could not be removed`)
+                        }
+                      }}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Administration */}
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-2xl border border-slate-200 p-6 space-y-2">
+          <h2 className="text-lg font-semibold text-slate-900 mb-2">Add Certification Body</h2>
+          <input
+            className={`${inputClass} w-full`}
+            placeholder="Name"
+            value={newBody.name}
+            onChange={(e) => setNewBody({ ...newBody, name: e.target.value })}
+          />
+          <input
+            className={`${inputClass} w-full`}
+            placeholder="Aliases, comma separated"
+            value={newBody.aliases}
+            onChange={(e) => setNewBody({ ...newBody, aliases: e.target.value })}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              className={inputClass}
+              placeholder="Country"
+              value={newBody.country}
+              onChange={(e) => setNewBody({ ...newBody, country: e.target.value })}
+            />
+            <input
+              className={inputClass}
+              placeholder="Accreditation"
+              value={newBody.accreditation}
+              onChange={(e) => setNewBody({ ...newBody, accreditation: e.target.value })}
+            />
+          </div>
+          <input
+            className={`${inputClass} w-full`}
+            placeholder="Standards, comma separated"
+            value={newBody.standards}
+            onChange={(e) => setNewBody({ ...newBody, standards: e.target.value })}
+          />
+          <input
+            className={`${inputClass} w-full`}
+            type="url"
+            placeholder="Website"
+            value={newBody.website}
+            onChange={(e) => setNewBody({ ...newBody, website: e.target.value })}
+          />
+          <button
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+            disabled={!newBody.name.trim()}
+            onClick={() => { void addBody() }}
+          >
+            Add Body
+          </button>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-200 p-6 space-y-2">
+          <h2 className="text-lg font-semibold text-slate-900 mb-2">Record Recognition</h2>
+          <select
+            className={`${inputClass} w-full`}
+            value={recognition.bodyId}
+            onChange={(e) => setRecognition({ ...recognition, bodyId: e.target.value })}
+          >
+            <option value="">Certification body</option>
+            {bodies.map(body => <option key={body.id} value={body.id}>{body.name}</option>)}
+          </select>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              className={inputClass}
+              value={recognition.authority}
+              onChange={(e) => setRecognition({ ...recognition, authority: e.target.value })}
+            >
+              <option value="">Authority</option>
+              {authorities.map(authority => <option key={authority.code} value={authority.code}>{authority.code} ({authority.market})</option>)}
+            </select>
+            <select
+              className={inputClass}
+              value={recognition.status}
+              onChange={(e) => setRecognition({ ...recognition, status: e.target.value as RecognitionStatus })}
+            >
+              <option value="recognized">Recognized</option>
+              <option value="suspended">Suspended</option>
+            </select>
+          </div>
+          <label className="block text-xs text-slate-600">
+            Recognized until
+            <input
+              className={`${inputClass} w-full mt-1`}
+              type="date"
+              value={recognition.validUntil}
+              onChange={(e) => setRecognition({ ...recognition, validUntil: e.target.value })}
+            />
+          </label>
+          <input
+            className={`${inputClass} w-full`}
+            placeholder="Reference, e.g. the authority's published list"
+            value={recognition.reference}
+            onChange={(e) => setRecognition({ ...recognition, reference: e.target.value })}
+          />
+          <button
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+            disabled={!recognition.bodyId || !recognition.authority}
+            onClick={() => { void saveRecognition() }}
+          >
+            Save Recognition
+          </button>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-200 p-6 space-y-2">
+          <h2 className="text-lg font-semibold text-slate-900 mb-2">Import</h2>
+          <p className="text-xs text-slate-500">
+            CSV columns: name, aliases, country, standards, accreditation, logoUrl, website, status and one column per
+            authority code (recognized, suspended or a recognized-until date). Separate list entries with |. Bodies are
+            matched by name; nothing is changed when a row is invalid.
+          </p>
+          <div className="flex items-center space-x-2">
+            <select
+              className={inputClass}
+              value={importFormat}
+              onChange={(e) => setImportFormat(e.target.value as 'csv' | 'json')}
+            >
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+            </select>
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="text-xs text-slate-600"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) void readImportFile(file)
+                e.target.value = ''
+              }}
+            />
+          </div>
+          <textarea
+            className={`${inputClass} w-full h-32 font-mono`}
+            placeholder={importFormat === 'csv' ? 'name,country,standards,JAKIM\nHalal Certification Europe,Netherlands,GSO 993:2015,recognized' : '[{ "name": "...", "recognitions": [{ "authority": "JAKIM" }] }]'}
+            value={importContent}
+            onChange={(e) => setImportContent(e.target.value)}
+          />
+          <button
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+            disabled={!importContent.trim()}
+            onClick={() => { void runImport() }}
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,10 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import { useOrganization, useOrganizationText } from '@/contexts/organization-context'
+import { dataManager } from '@/lib/data-manager'
+import { apiService, ExpiringPipelineDocument } from '@/lib/api'
 
 interface DocumentRecord {
   id: string
@@ -205,6 +208,8 @@ export default function DocumentsPage() {
         </div>
       </div>
 
+      {dataManager.isShared() && <ExpiringCertificates />}
+
       {/* Documents Grid */}
       <div className="grid gap-4">
         {filteredDocuments.length === 0 ? (
@@ -285,4 +290,96 @@ export default function DocumentsPage() {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+const EXPIRY_WINDOWS = [30, 60, 90, 180]
+
+// Supplier certificates and other tracked documents of pipeline applications
+// that expired or expire soon, soonest first
+function ExpiringCertificates() {
+  const [documents, setDocuments] = useState<ExpiringPipelineDocument[]>([])
+  const [withinDays, setWithinDays] = useState(60)
+  const [loaded, setLoaded] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await apiService.getExpiringPipelineDocuments(withinDays)
+        setDocuments(response.data.documents)
+        setError(null)
+      } catch (loadError) {
+        console.error('Failed to load expiring documents:', loadError)
+        setError('Expiring documents could not be loaded')
+      }
+      setLoaded(true)
+    }
+
+    void load()
+    return dataManager.subscribeToDocuments(() => { void load() })
+  }, [withinDays])
+
+  const expired = documents.filter(doc => doc.daysRemaining < 0)
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">Expiring Supplier Certificates</h2>
+          <p className="text-sm text-slate-600">
+            {expired.length > 0
+              ? `${expired.length} expired and ${documents.length - expired.length} expiring within ${withinDays} days`
+              : `${documents.length} expiring within ${withinDays} days`}
+          </p>
+        </div>
+        <select
+          className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          value={withinDays}
+          onChange={(e) => setWithinDays(Number(e.target.value))}
+        >
+          {EXPIRY_WINDOWS.map(days => (
+            <option key={days} value={days}>Next {days} days</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {loaded && !error && documents.length === 0 && (
+        <p className="text-sm text-slate-500">No certificates expire in this period.</p>
+      )}
+
+      <div className="divide-y divide-slate-100">
+        {documents.map(doc => (
+          <div key={doc.id} className="py-3 flex items-center justify-between">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-slate-900 truncate">{doc.fileName}</p>
+              <p className="text-xs text-slate-600">
+                {doc.productName} • {doc.company} • {doc.clientName}
+              </p>
+              {doc.certificateNumber && (
+                <p className="text-xs text-slate-500">
+                  {doc.certificateNumber}{doc.certificateIssuer ? ` • ${doc.certificateIssuer}` : ''}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center space-x-3 ml-4 shrink-0">
+              <span className={`text-xs px-2 py-1 rounded font-medium ${
+                doc.daysRemaining < 0 ? 'bg-red-100 text-red-700' : doc.daysRemaining <= 30 ? 'bg-orange-100 text-orange-700' : 'bg-amber-100 text-amber-700'
+              }`}>
+                {doc.daysRemaining < 0
+                  ? `Expired ${-doc.daysRemaining} days ago`
+                  : doc.daysRemaining === 0 ? 'Expires today' : `Expires in ${doc.daysRemaining} days`}
+              </span>
+              <span className="text-xs text-slate-500">
+                {doc.expiryDate && new Date(`${doc.expiryDate}T00:00:00`).toLocaleDateString()}
+              </span>
+              <Link href="/dashboard/applications" className="text-sm text-emerald-600 hover:text-emerald-700 font-medium">
+                View
+              </Link>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
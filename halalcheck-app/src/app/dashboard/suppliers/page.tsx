@@ -0,0 +1,486 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { dataManager } from '@/lib/data-manager'
+import {
+  apiService,
+  CertificationBodyRecord,
+  SupplierCertificateInput,
+  SupplierCertificateRecord,
+  SupplierIngredientOption,
+  SupplierRecord
+} from '@/lib/api'
+
+const validityConfig: Record<SupplierCertificateRecord['validity'], { label: string, color: string }> = {
+  'valid': { label: 'Valid', color: 'bg-green-100 text-green-700' },
+  'not-yet-valid': { label: 'Not yet valid', color: 'bg-blue-100 text-blue-700' },
+  'expired': { label: 'Expired', color: 'bg-red-100 text-red-700' },
+  'suspended': { label: 'Suspended', color: 'bg-orange-100 text-orange-700' },
+  'withdrawn': { label: 'Withdrawn', color: 'bg-slate-100 text-slate-600' }
+}
+
+const inputClass = 'px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500'
+
+// Suppliers of the organization's raw materials and their halal
+// certificates. An analyzed ingredient that resolves to a registered
+// material is certified by supplier when every active supplier of it holds a
+// valid certificate covering the material.
+export default function SuppliersPage() {
+  const [suppliers, setSuppliers] = useState<SupplierRecord[]>([])
+  const [certificationBodies, setCertificationBodies] = useState<CertificationBodyRecord[]>([])
+  const [loaded, setLoaded] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [newSupplier, setNewSupplier] = useState({ name: '', country: '', contactEmail: '' })
+
+  const load = async () => {
+    try {
+      const response = await apiService.getSuppliers()
+      setSuppliers(response.data.suppliers)
+    } catch (loadError) {
+      console.error('Failed to load suppliers:', loadError)
+      setError('Suppliers could not be loaded')
+    }
+    setLoaded(true)
+  }
+
+  const loadCertificationBodies = async () => {
+    try {
+      const response = await apiService.getCertificationBodies()
+      setCertificationBodies(response.data.bodies)
+    } catch (loadError) {
+      console.error('Failed to load certification bodies:', loadError)
+    }
+  }
+
+  useEffect(() => {
+    if (dataManager.isShared()) {
+      void load()
+      void loadCertificationBodies()
+    }
+  }, [])
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setError(null)
+    try {
+      await action()
+    } catch (actionError) {
+      console.error(failure, actionError)
+      setError(failure)
+    }
+    await load()
+  }
+
+  const addSupplier = async () => {
+    if (!newSupplier.name.trim()) return
+    await run(() => apiService.createSupplier(newSupplier), `${newSupplier.name} could not be added`)
+    setNewSupplier({ name: '', country: '', contactEmail: '' })
+  }
+
+  if (!dataManager.isShared()) {
+    return (
+      <div className="bg-white rounded-2xl border border-slate-200 p-12 text-center">
+        <h1 className="text-lg font-semibold text-slate-900 mb-2">Supplier Registry</h1>
+        <p className="text-slate-600">
+          Sign in with your organization account to register suppliers and their halal certificates.
+        </p>
+      </div>
+    )
+  }
+
+  const validCertificates = suppliers.reduce((count, supplier) =>
+    count + supplier.certificates.filter(certificate => certificate.validity === 'valid').length, 0)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-2xl border border-slate-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">Supplier Registry</h1>
+            <p className="text-slate-600 mt-1">
+              Ingredients supplied under a valid halal certificate are recorded as certified by supplier in analyses
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className="bg-emerald-100 text-emerald-800 px-3 py-1 rounded-full text-sm font-medium">
+              {suppliers.length} Suppliers
+            </div>
+            <div className="bg-green-100 text-green-800 px-3 py-1 rounded-full text-sm font-medium">
+              {validCertificates} Valid certificates
+            </div>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-4 gap-3">
+          <input
+            className={inputClass}
+            placeholder="Supplier name"
+            value={newSupplier.name}
+            onChange={(e) => setNewSupplier({ ...newSupplier, name: e.target.value })}
+          />
+          <input
+            className={inputClass}
+            placeholder="Country"
+            value={newSupplier.country}
+            onChange={(e) => setNewSupplier({ ...newSupplier, country: e.target.value })}
+          />
+          <input
+            className={inputClass}
+            type="email"
+            placeholder="Contact email"
+            value={newSupplier.contactEmail}
+            onChange={(e) => setNewSupplier({ ...newSupplier, contactEmail: e.target.value })}
+          />
+          <button
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+            disabled={!newSupplier.name.trim()}
+            onClick={() => { void addSupplier() }}
+          >
+            Add Supplier
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+      </div>
+
+      {loaded && suppliers.length === 0 && (
+        <div className="bg-white rounded-2xl border border-slate-200 p-12 text-center">
+          <h3 className="text-lg font-semibold text-slate-900 mb-2">No Suppliers Yet</h3>
+          <p className="text-slate-600">
+            Add the suppliers of your raw materials, the materials they provide and their halal certificates.
+          </p>
+        </div>
+      )}
+
+      {suppliers.map(supplier => (
+        <SupplierCard key={supplier.id} supplier={supplier} certificationBodies={certificationBodies} run={run} />
+      ))}
+    </div>
+  )
+}
+
+function SupplierCard({ supplier, certificationBodies, run }: {
+  supplier: SupplierRecord
+  certificationBodies: CertificationBodyRecord[]
+  run: (action: () => Promise<unknown>, failure: string) => Promise<void>
+}) {
+  const [material, setMaterial] = useState({ name: '', productCode: '' })
+  const [ingredientSearch, setIngredientSearch] = useState('')
+  const [ingredientOptions, setIngredientOptions] = useState<SupplierIngredientOption[]>([])
+  const [ingredient, setIngredient] = useState<SupplierIngredientOption | null>(null)
+  const [certificate, setCertificate] = useState<SupplierCertificateInput>({
+    issuer: '', certificateNumber: '', validFrom: '', validUntil: '', scope: '', materialIds: []
+  })
+
+  const searchIngredients = async () => {
+    if (!ingredientSearch.trim()) return
+    await run(async () => {
+      const response = await apiService.searchSupplierIngredients(ingredientSearch.trim())
+      setIngredientOptions(response.data.ingredients)
+    }, 'The knowledge base could not be searched')
+  }
+
+  const addMaterial = async () => {
+    if (!material.name.trim()) return
+    await run(() => apiService.addSupplierMaterial(supplier.id, {
+      name: material.name,
+      ...(material.productCode && { productCode: material.productCode }),
+      ...(ingredient && { ingredientId: ingredient.id })
+    }), `${material.name} could not be added`)
+    setMaterial({ name: '', productCode: '' })
+    setIngredient(null)
+    setIngredientOptions([])
+    setIngredientSearch('')
+  }
+
+  const addCertificate = async () => {
+    if (!certificate.issuer.trim() || !certificate.certificateNumber.trim() || !certificate.validUntil) return
+    await run(() => apiService.addSupplierCertificate(supplier.id, {
+      ...certificate,
+      validFrom: certificate.validFrom || null,
+      certificationBodyId: certificate.certificationBodyId || null
+    }), `Certificate ${certificate.certificateNumber} could not be added`)
+    setCertificate({ issuer: '', certificateNumber: '', validFrom: '', validUntil: '', scope: '', materialIds: [] })
+  }
+
+  const toggleCertificateMaterial = (materialId: string) => {
+    const materialIds = certificate.materialIds || []
+    setCertificate({
+      ...certificate,
+      materialIds: materialIds.includes(materialId)
+        ? materialIds.filter(id => id !== materialId)
+        : [...materialIds, materialId]
+    })
+  }
+
+  const selectCertificationBody = (bodyId: string) => {
+    const body = certificationBodies.find(candidate => candidate.id === bodyId)
+    setCertificate({
+      ...certificate,
+      certificationBodyId: body ? body.id : null,
+      ...(body && { issuer: body.name })
+    })
+  }
+
+  // Authorities currently recognizing the directory entry of a certificate's issuer
+  const recognizedBy = (bodyId?: string) => {
+    const body = certificationBodies.find(candidate => candidate.id === bodyId)
+    return body ? body.recognitions.filter(recognition => recognition.current).map(recognition => recognition.authority) : undefined
+  }
+
+  const materialName = (materialId: string) =>
+    supplier.materials.find(registered => registered.id === materialId)?.name || 'Removed material'
+
+  return (
+    <div className={`bg-white rounded-2xl border border-slate-200 p-6 ${supplier.active ? '' : 'opacity-70'}`}>
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">{supplier.name}</h2>
+          <p className="text-sm text-slate-600">
+            {[supplier.country, supplier.contactName, supplier.contactEmail].filter(Boolean).join(' • ') || 'No contact details'}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center space-x-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={supplier.active}
+              onChange={(e) => {
+                void run(
+                  () => apiService.updateSupplier(supplier.id, supplier.version, { active: e.target.checked }),
+                  `${supplier.name} could not be updated`
+                )
+              }}
+            />
+            <span>Active</span>
+          </label>
+          <button
+            className="text-sm text-red-600 hover:text-red-700 font-medium"
+            onClick={() => {
+              if (window.confirm(`Remove ${supplier.name} with its materials and certificates?`)) {
+                void run(() => apiService.deleteSupplier(supplier.id, supplier.version), `${supplier.name} could not be removed`)
+              }
+            }}
+          >
+            Remove
+          </button>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Materials */}
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900 mb-2">Materials</h3>
+          {supplier.materials.length === 0 && <p className="text-sm text-slate-500 mb-2">No materials registered.</p>}
+          <div className="divide-y divide-slate-100 mb-3">
+            {supplier.materials.map(registered => (
+              <div key={registered.id} className="py-2 flex items-center justify-between text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-slate-900 truncate">
+                    {registered.name}{registered.productCode ? ` (${registered.productCode})` : ''}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {registered.ingredientName ? `Knowledge base: ${registered.ingredientName}` : 'Matched by name'}
+                  </p>
+                </div>
+                <button
+                  className="text-xs text-red-600 hover:text-red-700 font-medium ml-3"
+                  onClick={() => { void run(() => apiService.removeSupplierMaterial(supplier.id, registered.id), `${registered.name} could not be removed`) }}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                className={inputClass}
+                placeholder="Material name"
+                value={material.name}
+                onChange={(e) => setMaterial({ ...material, name: e.target.value })}
+              />
+              <input
+                className={inputClass}
+                placeholder="Product code"
+                value={material.productCode}
+                onChange={(e) => setMaterial({ ...material, productCode: e.target.value })}
+              />
+            </div>
+            <div className="flex space-x-2">
+              <input
+                className={`${inputClass} flex-1`}
+                placeholder="Link to knowledge-base ingredient, e.g. E471"
+                value={ingredient ? ingredient.name : ingredientSearch}
+                onChange={(e) => {
+                  setIngredient(null)
+                  setIngredientSearch(e.target.value)
+                }}
+                onKeyDown={(e) => { if (e.key === 'Enter') void searchIngredients() }}
+              />
+              <button
+                className="px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50"
+                onClick={() => { void searchIngredients() }}
+              >
+                Search
+              </button>
+            </div>
+            {!ingredient && ingredientOptions.length > 0 && (
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+                {ingredientOptions.map(option => (
+                  <button
+                    key={option.id}
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50"
+                    onClick={() => {
+                      setIngredient(option)
+                      setIngredientOptions([])
+                    }}
+                  >
+                    {option.name}{option.eNumber ? ` (${option.eNumber})` : ''}
+                    <span className="text-xs text-slate-500 ml-2">{option.status}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            <button
+              className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+              disabled={!material.name.trim()}
+              onClick={() => { void addMaterial() }}
+            >
+              Add Material
+            </button>
+          </div>
+        </div>
+
+        {/* Certificates */}
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900 mb-2">Halal Certificates</h3>
+          {supplier.certificates.length === 0 && <p className="text-sm text-slate-500 mb-2">No certificates recorded.</p>}
+          <div className="divide-y divide-slate-100 mb-3">
+            {supplier.certificates.map(registered => (
+              <div key={registered.id} className="py-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-slate-900 truncate">
+                    {registered.certificateNumber} • {registered.issuer}
+                  </p>
+                  <span className={`text-xs px-2 py-1 rounded font-medium ml-3 shrink-0 ${validityConfig[registered.validity].color}`}>
+                    {validityConfig[registered.validity].label}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500">
+                  {registered.validFrom ? `${new Date(`${registered.validFrom}T00:00:00`).toLocaleDateString()} – ` : 'Until '}
+                  {new Date(`${registered.validUntil}T00:00:00`).toLocaleDateString()}
+                  {registered.scope ? ` • ${registered.scope}` : ''}
+                </p>
+                <p className="text-xs text-slate-500">
+                  Covers: {registered.materialIds.length > 0 ? registered.materialIds.map(materialName).join(', ') : 'no registered materials'}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {(() => {
+                    const authorities = recognizedBy(registered.certificationBodyId)
+                    if (!authorities) return 'Issuer not linked to the certification-body directory'
+                    return authorities.length > 0 ? `Issuer recognized by ${authorities.join(', ')}` : 'Issuer not recognized by any export-market authority'
+                  })()}
+                </p>
+                <div className="flex items-center space-x-3 mt-1">
+                  <select
+                    className="text-xs border border-slate-300 rounded px-2 py-1"
+                    value={registered.status}
+                    onChange={(e) => {
+                      void run(
+                        () => apiService.updateSupplierCertificate(supplier.id, registered.id, { status: e.target.value as SupplierCertificateRecord['status'] }),
+                        `Certificate ${registered.certificateNumber} could not be updated`
+                      )
+                    }}
+                  >
+                    <option value="active">Active</option>
+                    <option value="suspended">Suspended</option>
+                    <option value="withdrawn">Withdrawn</option>
+                  </select>
+                  <button
+                    className="text-xs text-red-600 hover:text-red-700 font-medium"
+                    onClick={() => { void run(() => apiService.removeSupplierCertificate(supplier.id, registered.id), `Certificate ${registered.certificateNumber} could not be removed`) }}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            {certificationBodies.length > 0 && (
+              <select
+                className={`${inputClass} w-full`}
+                value={certificate.certificationBodyId || ''}
+                onChange={(e) => selectCertificationBody(e.target.value)}
+              >
+                <option value="">Issuer not in the certification-body directory</option>
+                {certificationBodies.map(body => <option key={body.id} value={body.id}>{body.name}</option>)}
+              </select>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                className={inputClass}
+                placeholder="Issuer"
+                value={certificate.issuer}
+                onChange={(e) => setCertificate({ ...certificate, issuer: e.target.value })}
+              />
+              <input
+                className={inputClass}
+                placeholder="Certificate number"
+                value={certificate.certificateNumber}
+                onChange={(e) => setCertificate({ ...certificate, certificateNumber: e.target.value })}
+              />
+              <label className="text-xs text-slate-600">
+                Valid from
+                <input
+                  className={`${inputClass} w-full mt-1`}
+                  type="date"
+                  value={certificate.validFrom || ''}
+                  onChange={(e) => setCertificate({ ...certificate, validFrom: e.target.value })}
+                />
+              </label>
+              <label className="text-xs text-slate-600">
+                Valid until
+                <input
+                  className={`${inputClass} w-full mt-1`}
+                  type="date"
+                  value={certificate.validUntil}
+                  onChange={(e) => setCertificate({ ...certificate, validUntil: e.target.value })}
+                />
+              </label>
+            </div>
+            <input
+              className={`${inputClass} w-full`}
+              placeholder="Scope as printed on the certificate"
+              value={certificate.scope}
+              onChange={(e) => setCertificate({ ...certificate, scope: e.target.value })}
+            />
+            {supplier.materials.length > 0 && (
+              <div className="flex flex-wrap gap-3">
+                {supplier.materials.map(registered => (
+                  <label key={registered.id} className="flex items-center space-x-1 text-xs text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={(certificate.materialIds || []).includes(registered.id)}
+                      onChange={() => toggleCertificateMaterial(registered.id)}
+                    />
+                    <span>{registered.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <button
+              className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+              disabled={!certificate.issuer.trim() || !certificate.certificateNumber.trim() || !certificate.validUntil}
+              onClick={() => { void addCertificate() }}
+            >
+              Add Certificate
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
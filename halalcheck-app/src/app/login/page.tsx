@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
+import { MFA_SETUP_PATH } from '@/lib/api'
 // Removed Supabase imports for mock implementation
 
 export default function LoginPage() {
@@ -11,6 +12,8 @@ export default function LoginPage() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showPassword, setShowPassword] = useState(false)
+  const [mfaCode, setMfaCode] = useState('')
+  const [mfaRequired, setMfaRequired] = useState(false)
   
   const router = useRouter()
   const searchParams = useSearchParams()
@@ -35,7 +38,8 @@ export default function LoginPage() {
         },
         body: JSON.stringify({
           email,
-          password
+          password,
+          ...(mfaRequired && mfaCode && { mfaCode: mfaCode.trim() })
         })
       })
 
@@ -43,17 +47,27 @@ export default function LoginPage() {
 
       if (response.ok && data.success) {
         // Store authentication token if provided
-        if (data.accessToken) {
-          localStorage.setItem('auth-token', data.accessToken)
+        const accessToken = data.data?.tokens?.accessToken
+        if (accessToken) {
+          localStorage.setItem('auth-token', accessToken)
           localStorage.setItem('user-email', email)
           
           // Also set as cookie for middleware
-          document.cookie = `auth-token=${data.accessToken}; path=/; max-age=86400` // 24 hours
+          document.cookie = `auth-token=${accessToken}; path=/; max-age=86400` // 24 hours
         }
         
+        // Organizations that require MFA send unenrolled users to set it up first
+        if (data.data?.mfa?.enrollmentRequired) {
+          router.push(`${MFA_SETUP_PATH}?redirect=${encodeURIComponent(redirectTo)}`)
+          return
+        }
+
         // Success - redirect to dashboard
         router.push(redirectTo)
         router.refresh()
+      } else if (data.error === 'MFA_REQUIRED') {
+        // Password accepted; ask for the authenticator or backup code
+        setMfaRequired(true)
       } else {
         setError(data.message || 'Login failed. Please check your credentials.')
       }
@@ -166,6 +180,30 @@ export default function LoginPage() {
               </div>
             </div>
 
+            {mfaRequired && (
+              <div>
+                <label htmlFor="mfa-code" className="block text-sm font-medium text-gray-700 mb-2">
+                  Authentication code
+                </label>
+                <input
+                  id="mfa-code"
+                  name="mfa-code"
+                  type="text"
+                  inputMode="text"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  required
+                  value={mfaCode}
+                  onChange={(e) => setMfaCode(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors tracking-widest"
+                  placeholder="123456"
+                />
+                <p className="mt-2 text-xs text-gray-500">
+                  Enter the 6-digit code from your authenticator app, or one of your backup codes.
+                </p>
+              </div>
+            )}
+
             <div className="flex items-center justify-between">
               <div className="flex items-center">
                 <input
@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { ApiError, MfaSetup, apiService } from '@/lib/api'
+
+export default function MfaSetupPage() {
+  const [setup, setSetup] = useState<MfaSetup | null>(null)
+  const [code, setCode] = useState('')
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const setupStarted = useRef(false)
+
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const redirectTo = searchParams.get('redirect') || '/dashboard'
+
+  useEffect(() => {
+    if (!localStorage.getItem('auth-token')) {
+      router.replace(`/login?redirect=${encodeURIComponent(redirectTo)}`)
+      return
+    }
+
+    // Each setup call issues a fresh secret, so only request one per visit
+    if (setupStarted.current) {
+      return
+    }
+    setupStarted.current = true
+    apiService.beginMfaSetup()
+      .then(response => setSetup(response.data))
+      .catch(err => {
+        if (err instanceof ApiError && err.status === 401) {
+          router.replace(`/login?redirect=${encodeURIComponent(redirectTo)}`)
+        } else {
+          setError('Could not start MFA setup. Please try again.')
+        }
+      })
+  }, [router, redirectTo])
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await apiService.enableMfa(code.trim())
+      setBackupCodes(response.data.backupCodes)
+    } catch (err) {
+      setError(err instanceof ApiError && err.status === 400
+        ? 'That code did not match. Check the time on your device and try the current code.'
+        : 'Could not enable MFA. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleContinue = () => {
+    router.push(redirectTo)
+    router.refresh()
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 via-white to-blue-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {/* Header */}
+        <div className="text-center">
+          <Link href="/" className="inline-flex items-center space-x-3 mb-8">
+            <div className="w-12 h-12 bg-gradient-to-br from-green-500 to-green-700 rounded-xl flex items-center justify-center shadow-lg">
+              <span className="text-2xl">🕌</span>
+            </div>
+            <div className="text-2xl font-bold bg-gradient-to-r from-green-800 to-green-600 bg-clip-text text-transparent">
+              HalalCheck AI
+            </div>
+          </Link>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">
+            Set up two-factor authentication
+          </h2>
+          <p className="text-gray-600">
+            Your organization requires an authenticator app to sign in
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-8">
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {backupCodes ? (
+            <div className="space-y-6">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Save your backup codes</h3>
+                <p className="text-sm text-gray-600">
+                  Each code signs you in once if you lose your authenticator. They will not be shown again.
+                </p>
+              </div>
+              <ul className="grid grid-cols-2 gap-2 p-4 bg-gray-50 border border-gray-200 rounded-lg font-mono text-sm text-gray-900">
+                {backupCodes.map(backupCode => (
+                  <li key={backupCode}>{backupCode}</li>
+                ))}
+              </ul>
+              <button
+                type="button"
+                onClick={handleContinue}
+                className="w-full bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200"
+              >
+                I have saved my backup codes
+              </button>
+            </div>
+          ) : setup ? (
+            <form onSubmit={handleEnable} className="space-y-6">
+              <div>
+                <p className="text-sm text-gray-700 mb-2">
+                  Add this key to your authenticator app, or{' '}
+                  <a href={setup.otpauthUrl} className="text-green-600 hover:text-green-700 font-medium">
+                    open it in the app
+                  </a>{' '}
+                  on this device.
+                </p>
+                <code className="block p-4 bg-gray-50 border border-gray-200 rounded-lg font-mono text-sm text-gray-900 break-all tracking-widest">
+                  {setup.secret}
+                </code>
+              </div>
+
+              <div>
+                <label htmlFor="mfa-code" className="block text-sm font-medium text-gray-700 mb-2">
+                  Authentication code
+                </label>
+                <input
+                  id="mfa-code"
+                  name="mfa-code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  required
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors tracking-widest"
+                  placeholder="123456"
+                />
+                <p className="mt-2 text-xs text-gray-500">
+                  Enter the 6-digit code your authenticator app shows for HalalCheck.
+                </p>
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200"
+              >
+                {loading ? 'Verifying...' : 'Enable two-factor authentication'}
+              </button>
+            </form>
+          ) : !error && (
+            <p className="text-sm text-gray-600 text-center">Preparing your authenticator key...</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  apiService,
+  ApiError,
+  CertificateDocumentVerification,
+  CertificateVerification,
+  CertificateVerificationStatus
+} from '@/lib/api'
+
+const STATUS_STYLES: Record<CertificateVerificationStatus, { label: string; description: string; className: string }> = {
+  VALID: {
+    label: 'Valid',
+    description: 'This certificate is active and covers the scope below.',
+    className: 'bg-green-50 border-green-200 text-green-800'
+  },
+  EXPIRED: {
+    label: 'Expired',
+    description: 'This certificate has passed its validity period.',
+    className: 'bg-yellow-50 border-yellow-200 text-yellow-800'
+  },
+  SUSPENDED: {
+    label: 'Suspended',
+    description: 'This certificate is temporarily suspended by the issuing authority.',
+    className: 'bg-orange-50 border-orange-200 text-orange-800'
+  },
+  REVOKED: {
+    label: 'Revoked',
+    description: 'This certificate has been revoked and is no longer valid.',
+    className: 'bg-red-50 border-red-200 text-red-800'
+  }
+}
+
+export default function VerifyCertificatePage({ params }: { params: { certificateId: string } }) {
+  const [verification, setVerification] = useState<CertificateVerification | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [documentCheck, setDocumentCheck] = useState<CertificateDocumentVerification['document'] | null>(null)
+  const [documentError, setDocumentError] = useState<string | null>(null)
+  const [checkingDocument, setCheckingDocument] = useState(false)
+
+  useEffect(() => {
+    apiService.verifyCertificate(params.certificateId)
+      .then(response => setVerification(response.data))
+      .catch(err => {
+        if (err instanceof ApiError && err.status === 404) {
+          setError('No certificate is registered with this ID. The certificate may be counterfeit.')
+        } else if (err instanceof ApiError && err.status === 429) {
+          setError('Too many verification requests. Please try again in a minute.')
+        } else {
+          setError('The certificate could not be verified right now. Please try again later.')
+        }
+      })
+      .finally(() => setLoading(false))
+  }, [params.certificateId])
+
+  const checkDocument = async (file: File) => {
+    setCheckingDocument(true)
+    setDocumentCheck(null)
+    setDocumentError(null)
+    try {
+      const response = await apiService.verifyCertificateDocument(params.certificateId, file)
+      setDocumentCheck(response.data.document)
+    } catch (err) {
+      setDocumentError(err instanceof ApiError && err.status === 429
+        ? 'Too many verification requests. Please try again in a minute.'
+        : 'The document could not be checked right now. Please try again later.')
+    } finally {
+      setCheckingDocument(false)
+    }
+  }
+
+  const style = verification ? STATUS_STYLES[verification.status] : null
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 via-white to-blue-50">
+      <header className="bg-white/80 backdrop-blur-sm shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link href="/" className="text-2xl font-bold text-green-800">
+            HalalCheck AI
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">Certificate Verification</h1>
+
+        {loading && <p className="text-gray-600">Checking certificate…</p>}
+
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-6 text-red-800">{error}</div>
+        )}
+
+        {verification && style && (
+          <div className="space-y-6">
+            <div className={`rounded-lg border p-6 ${style.className}`}>
+              <p className="text-2xl font-semibold">{style.label}</p>
+              <p className="mt-1">{style.description}</p>
+            </div>
+
+            <dl className="rounded-lg border border-gray-200 bg-white p-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <dt className="text-sm text-gray-500">Certificate number</dt>
+                <dd className="font-medium text-gray-900">{verification.certificateNumber}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">Product</dt>
+                <dd className="font-medium text-gray-900">{verification.productName}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">Standard</dt>
+                <dd className="font-medium text-gray-900">{verification.standard}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">Issued by</dt>
+                <dd className="font-medium text-gray-900">{verification.issuingAuthority}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">Valid from</dt>
+                <dd className="font-medium text-gray-900">{new Date(verification.validFrom).toLocaleDateString()}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">Valid until</dt>
+                <dd className="font-medium text-gray-900">{new Date(verification.validUntil).toLocaleDateString()}</dd>
+              </div>
+              <div className="sm:col-span-2">
+                <dt className="text-sm text-gray-500">Scope</dt>
+                <dd className="font-medium text-gray-900 whitespace-pre-line">{verification.scope}</dd>
+              </div>
+            </dl>
+
+            {verification.signature && (
+              <div className="rounded-lg border border-gray-200 bg-white p-6 space-y-3">
+                <h2 className="text-lg font-semibold text-gray-900">Check a certificate PDF</h2>
+                <p className="text-sm text-gray-600">
+                  The issued PDF is digitally signed by the issuing organization. Select the copy you received
+                  to confirm it has not been altered.
+                </p>
+                <input
+                  type="file"
+                  accept="application/pdf"
+                  disabled={checkingDocument}
+                  onChange={event => {
+                    const file = event.target.files?.[0]
+                    if (file) checkDocument(file)
+                  }}
+                  className="block text-sm text-gray-700"
+                />
+                {checkingDocument && <p className="text-sm text-gray-600">Checking document…</p>}
+                {documentError && <p className="text-sm text-red-700">{documentError}</p>}
+                {documentCheck && (documentCheck.hashMatches && documentCheck.signatureValid ? (
+                  <p className="rounded border border-green-200 bg-green-50 p-3 text-sm text-green-800">
+                    This PDF is the signed original (key {documentCheck.keyId}).
+                  </p>
+                ) : (
+                  <p className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                    This PDF does not match the signed certificate. It may have been altered or replaced by a newer version.
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <p className="text-sm text-gray-500">
+              Checked {new Date(verification.checkedAt).toLocaleString()}. Retailers can query the same
+              result as JSON from <code>/api/certificates/verify/{verification.certificateId}</code>.
+            </p>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
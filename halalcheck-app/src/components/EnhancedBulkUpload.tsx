@@ -1,7 +1,9 @@
 'use client'
 
-import React, { useState, useCallback, useRef } from 'react'
+import React, { useState, useCallback, useRef, useEffect } from 'react'
 import { useDropzone } from 'react-dropzone'
+import * as XLSX from 'xlsx'
+import { ApiError, apiService, AnalysisJob, AnalysisJobEvent, AnalysisJobItem, BulkJobProduct } from '@/lib/api'
 
 interface UploadedFile {
   file: File
@@ -24,6 +26,35 @@ interface EnhancedBulkUploadProps {
   selectedClient?: any
 }
 
+// Spreadsheets are analyzed as a background job; other files are processed one by one
+const SPREADSHEET_EXTENSIONS = ['.csv', '.tsv', '.xlsx', '.xls']
+const ACTIVE_JOB_KEY = 'halalcheck_bulk_job'
+const STREAM_RETRY_MS = 3000
+
+const isSpreadsheet = (file: File) =>
+  SPREADSHEET_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))
+
+// Read products from the first sheet, using the first columns that look like
+// a product name and an ingredient list
+const readProducts = async (file: File): Promise<BulkJobProduct[]> => {
+  const workbook = XLSX.read(await file.arrayBuffer())
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) return []
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' })
+  const columns = Object.keys(rows[0] || {})
+  const ingredientColumn = columns.find(column => /ingredient/i.test(column))
+  const nameColumn = columns.find(column => /product|name/i.test(column) && column !== ingredientColumn)
+  if (!ingredientColumn) return []
+
+  return rows
+    .map((row, index) => ({
+      productName: String((nameColumn && row[nameColumn]) || `${file.name} row ${index + 2}`).trim(),
+      ingredientText: String(row[ingredientColumn]).trim()
+    }))
+    .filter(product => product.ingredientText.length > 0)
+}
+
 const EnhancedBulkUpload: React.FC<EnhancedBulkUploadProps> = ({
   onFilesProcessed,
   onError,
@@ -34,6 +65,10 @@ const EnhancedBulkUpload: React.FC<EnhancedBulkUploadProps> = ({
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
   const [isDragActive, setIsDragActive] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
+  const [job, setJob] = useState<AnalysisJob | null>(null)
+  const streamController = useRef<AbortController | null>(null)
+  const onFilesProcessedRef = useRef(onFilesProcessed)
+  onFilesProcessedRef.current = onFilesProcessed
 
   // Supported file types with comprehensive coverage
   const acceptedFileTypes = {
@@ -92,16 +127,127 @@ const EnhancedBulkUpload: React.FC<EnhancedBulkUploadProps> = ({
     ))
   }
 
+  const applyJobEvent = (event: AnalysisJobEvent) => {
+    if (!event.item) {
+      // Snapshot or job-level update
+      setJob(prev => event.job.items || !prev ? event.job : { ...event.job, items: prev.items })
+      return
+    }
+
+    const item = event.item
+    setJob(prev => ({
+      ...event.job,
+      items: (prev?.items || []).map(existing => existing.id === item.id ? item : existing)
+    }))
+  }
+
+  // Follow a job until it finishes. The server keeps working if the page is
+  // closed, so a reload (or a server restart) picks the stream up again.
+  const followJob = useCallback(async (jobId: string) => {
+    streamController.current?.abort()
+    const controller = new AbortController()
+    streamController.current = controller
+    localStorage.setItem(ACTIVE_JOB_KEY, jobId)
+
+    while (!controller.signal.aborted) {
+      try {
+        await apiService.streamAnalysisJob(jobId, applyJobEvent, controller.signal)
+        const { data } = await apiService.getAnalysisJob(jobId)
+        setJob(data.job)
+
+        if (['COMPLETED', 'FAILED', 'CANCELLED'].includes(data.job.status)) {
+          localStorage.removeItem(ACTIVE_JOB_KEY)
+          onFilesProcessedRef.current((data.job.items || [])
+            .filter(item => item.status === 'COMPLETED')
+            .map(item => item.result))
+          return
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return
+        if (error instanceof ApiError && error.status === 404) {
+          localStorage.removeItem(ACTIVE_JOB_KEY)
+          setJob(null)
+          return
+        }
+        console.error('Job progress stream interrupted:', error)
+      }
+
+      await new Promise(resolve => setTimeout(resolve, STREAM_RETRY_MS))
+    }
+  }, [])
+
+  // Reconnect to a job that was running when the page was closed
+  useEffect(() => {
+    const activeJobId = localStorage.getItem(ACTIVE_JOB_KEY)
+    if (activeJobId) {
+      followJob(activeJobId)
+    }
+    return () => streamController.current?.abort()
+  }, [followJob])
+
+  const cancelJob = async () => {
+    if (!job) return
+    try {
+      const { data } = await apiService.cancelAnalysisJob(job.id)
+      applyJobEvent({ type: 'job', job: data.job })
+    } catch (error) {
+      onError(`Failed to cancel job: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const resumeJob = async () => {
+    if (!job) return
+    try {
+      await apiService.resumeAnalysisJob(job.id)
+      followJob(job.id)
+    } catch (error) {
+      onError(`Failed to resume job: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const queueSpreadsheets = async (files: UploadedFile[]) => {
+    const products: BulkJobProduct[] = []
+
+    for (const uploadedFile of files) {
+      try {
+        const fileProducts = await readProducts(uploadedFile.file)
+        products.push(...fileProducts)
+        updateFileStatus(uploadedFile.id, {
+          status: fileProducts.length > 0 ? 'completed' : 'error',
+          progress: 100,
+          ...(fileProducts.length > 0
+            ? { previewData: { type: 'table' as const, content: fileProducts } }
+            : { error: 'No ingredient column found' })
+        })
+      } catch (error) {
+        updateFileStatus(uploadedFile.id, { status: 'error', error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    if (products.length === 0) return
+
+    const { data } = await apiService.createAnalysisJob(products, {
+      ...(selectedClient?.certificationStandard && { certificationStandard: selectedClient.certificationStandard })
+    })
+    setJob(data.job)
+    followJob(data.job.id)
+  }
+
   const processAllFiles = async () => {
     setIsProcessing(true)
     const results: any[] = []
 
     try {
+      await queueSpreadsheets(uploadedFiles.filter(f => f.status !== 'completed' && isSpreadsheet(f.file)))
+
       for (const uploadedFile of uploadedFiles) {
         if (uploadedFile.status === 'completed') {
           results.push(uploadedFile.result)
           continue
         }
+        if (isSpreadsheet(uploadedFile.file)) {
+          continue
+        }
 
         updateFileStatus(uploadedFile.id, { status: 'processing', progress: 0 })
 
@@ -130,7 +276,10 @@ const EnhancedBulkUpload: React.FC<EnhancedBulkUploadProps> = ({
         }
       }
 
-      onFilesProcessed(results)
+      // Spreadsheet results are reported when their job finishes
+      if (results.length > 0) {
+        onFilesProcessed(results)
+      }
 
     } catch (error: any) {
       onError(`Bulk processing failed: ${error.message}`)
@@ -240,6 +389,35 @@ const EnhancedBulkUpload: React.FC<EnhancedBulkUploadProps> = ({
     }
   }
 
+  const getItemStatusBadge = (status: AnalysisJobItem['status']) => {
+    switch (status) {
+      case 'PENDING':
+        return <span className="px-2 py-1 bg-yellow-100 text-yellow-800 text-xs rounded-full">Queued</span>
+      case 'RUNNING':
+        return <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">Analyzing</span>
+      case 'COMPLETED':
+        return <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">Completed</span>
+      case 'FAILED':
+        return <span className="px-2 py-1 bg-red-100 text-red-800 text-xs rounded-full">Failed</span>
+      case 'CANCELLED':
+        return <span className="px-2 py-1 bg-slate-100 text-slate-600 text-xs rounded-full">Cancelled</span>
+    }
+  }
+
+  const getJobStatusBadge = (status: AnalysisJob['status']) => {
+    switch (status) {
+      case 'QUEUED':
+      case 'RUNNING':
+        return <span className="px-3 py-1 bg-blue-100 text-blue-800 text-sm rounded-full font-medium">In progress</span>
+      case 'COMPLETED':
+        return <span className="px-3 py-1 bg-green-100 text-green-800 text-sm rounded-full font-medium">Completed</span>
+      case 'FAILED':
+        return <span className="px-3 py-1 bg-red-100 text-red-800 text-sm rounded-full font-medium">Failed</span>
+      case 'CANCELLED':
+        return <span className="px-3 py-1 bg-slate-100 text-slate-600 text-sm rounded-full font-medium">Cancelled</span>
+    }
+  }
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -455,6 +633,68 @@ const EnhancedBulkUpload: React.FC<EnhancedBulkUploadProps> = ({
         </div>
       )}
 
+      {/* Background Job Progress */}
+      {job && (
+        <div className="bg-white rounded-2xl shadow-lg border border-slate-200 overflow-hidden">
+          <div className="bg-gradient-to-r from-purple-50 to-indigo-50 px-6 py-4 border-b border-slate-200">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <h4 className="text-lg font-bold text-slate-800">Product Analysis</h4>
+                {getJobStatusBadge(job.status)}
+                <span className="text-sm text-slate-500">
+                  {job.completedItems + job.failedItems} / {job.totalItems} products
+                </span>
+              </div>
+              <div className="flex space-x-2">
+                {(job.status === 'QUEUED' || job.status === 'RUNNING') && (
+                  <button
+                    onClick={cancelJob}
+                    className="px-4 py-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors text-sm"
+                  >
+                    Cancel
+                  </button>
+                )}
+                {['COMPLETED', 'FAILED', 'CANCELLED'].includes(job.status) && job.completedItems < job.totalItems && (
+                  <button
+                    onClick={resumeJob}
+                    className="px-4 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 text-white rounded-lg hover:from-purple-700 hover:to-indigo-700 transition-all duration-200 font-medium text-sm"
+                  >
+                    Retry Remaining
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="mt-3 w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-purple-600 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${job.totalItems ? Math.round(((job.completedItems + job.failedItems) / job.totalItems) * 100) : 0}%` }}
+              ></div>
+            </div>
+          </div>
+
+          <div className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+            {(job.items || []).map(item => (
+              <div key={item.id} className="px-6 py-3 flex items-center justify-between">
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-slate-900 truncate">{item.label}</p>
+                  {item.error && (
+                    <p className="text-xs text-red-600 mt-1">
+                      {item.error}{item.status === 'PENDING' ? ` (retrying, attempt ${item.attempts})` : ''}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-3 ml-4">
+                  {item.result?.overallStatus && (
+                    <span className="text-xs font-semibold text-slate-700">{item.result.overallStatus}</span>
+                  )}
+                  {getItemStatusBadge(item.status)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Processing Progress */}
       {isProcessing && (
         <div className="bg-purple-50 border border-purple-200 rounded-xl p-6">
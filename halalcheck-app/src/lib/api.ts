@@ -3,6 +3,8 @@
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
 
+export const MFA_SETUP_PATH = '/mfa-setup';
+
 class ApiError extends Error {
   constructor(public status: number, message: string) {
     super(message);
@@ -37,6 +39,9 @@ class ApiService {
       const response = await fetch(url, config);
       
       if (!response.ok) {
+        if (response.status === 403) {
+          await this.redirectIfMfaEnrollmentRequired(response);
+        }
         throw new ApiError(response.status, `API Error: ${response.statusText}`);
       }
 
@@ -199,6 +204,7 @@ class ApiService {
     organizationType?: string;
     madhab?: string;
     strictnessLevel?: 'strict' | 'moderate' | 'lenient';
+    exportMarket?: string; // Recognition authority supplier certificate issuers are checked against
   }) {
     return this.request('/api/analysis/analyze', {
       method: 'POST',
@@ -225,9 +231,991 @@ class ApiService {
       headers: {},
     });
   }
+
+  // Background bulk analysis jobs - products are analyzed server-side and
+  // progress is streamed, so large spreadsheets don't hit request timeouts
+  async createAnalysisJob(products: BulkJobProduct[], options: Record<string, unknown> = {}) {
+    return this.request<{ success: boolean; data: { job: AnalysisJob; eventsUrl: string } }>('/api/jobs', {
+      method: 'POST',
+      body: JSON.stringify({ items: products, ...options }),
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+    });
+  }
+
+  async getAnalysisJob(jobId: string) {
+    return this.request<{ success: boolean; data: { job: AnalysisJob } }>(`/api/jobs/${jobId}`, {
+      headers: this.authHeaders(),
+    });
+  }
+
+  async cancelAnalysisJob(jobId: string) {
+    return this.request<{ success: boolean; data: { job: AnalysisJob } }>(`/api/jobs/${jobId}/cancel`, {
+      method: 'POST',
+      headers: this.authHeaders(),
+    });
+  }
+
+  async resumeAnalysisJob(jobId: string) {
+    return this.request<{ success: boolean; data: { job: AnalysisJob } }>(`/api/jobs/${jobId}/resume`, {
+      method: 'POST',
+      headers: this.authHeaders(),
+    });
+  }
+
+  // Read the job's Server-Sent Events stream until the job finishes or the
+  // signal aborts. fetch is used instead of EventSource to send the token.
+  async streamAnalysisJob(jobId: string, onEvent: (event: AnalysisJobEvent) => void, signal?: AbortSignal) {
+    const response = await fetch(`${this.baseUrl}/api/jobs/${jobId}/events`, {
+      headers: { Accept: 'text/event-stream', ...this.authHeaders() },
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new ApiError(response.status, `API Error: ${response.statusText}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const frames = buffer.split('\n\n');
+      buffer = frames.pop() || '';
+
+      for (const frame of frames) {
+        const data = frame.split('\n')
+          .filter(line => line.startsWith('data: '))
+          .map(line => line.slice(6))
+          .join('\n');
+        if (data) {
+          onEvent(JSON.parse(data));
+        }
+      }
+    }
+  }
+
+  // Reports are rendered and stored by the backend so every client gets the
+  // same PDF or Excel file; downloads go through short-lived signed links
+  async generateReport(analysisId: string, options: ReportOptions) {
+    return this.request<{ success: boolean; data: GeneratedReport }>(`/api/reports/analyses/${analysisId}`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+    });
+  }
+
+  async createReportLink(reportId: string, expiresInHours?: number) {
+    return this.request<{ success: boolean; data: ReportDownloadLink }>(`/api/reports/${reportId}/links`, {
+      method: 'POST',
+      body: JSON.stringify(expiresInHours === undefined ? {} : { expiresInHours }),
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+    });
+  }
+
+  async downloadReport(analysisId: string, options: ReportOptions) {
+    const { data } = await this.generateReport(analysisId, options);
+
+    // Signed links carry their own authorization
+    const response = await fetch(data.downloadUrl);
+    if (!response.ok) {
+      throw new ApiError(response.status, `API Error: ${response.statusText}`);
+    }
+
+    return { blob: await response.blob(), fileName: data.report.fileName };
+  }
+
+  // Public lookup behind certificate QR codes; no authentication
+  async verifyCertificate(certificateId: string) {
+    return this.request<{ success: boolean; data: CertificateVerification }>(
+      `/api/certificates/verify/${encodeURIComponent(certificateId)}`
+    );
+  }
+
+  // Check a certificate PDF someone was given against the issuer's signature
+  async verifyCertificateDocument(certificateId: string, file: Blob) {
+    return this.request<{ success: boolean; data: CertificateDocumentVerification }>(
+      `/api/certificates/verify/${encodeURIComponent(certificateId)}`,
+      {
+        method: 'POST',
+        body: file,
+        headers: { 'Content-Type': 'application/pdf' },
+      }
+    );
+  }
+
+  // Certificate lifecycle; every action is recorded in the certificate's history
+  async getCertificateHistory(certificateId: string) {
+    return this.request<{ success: boolean; data: { events: CertificateEvent[] } }>(
+      `/api/certificates/${encodeURIComponent(certificateId)}/history`,
+      { headers: this.authHeaders() }
+    );
+  }
+
+  async suspendCertificate(certificateId: string, reason: string) {
+    return this.certificateAction(certificateId, 'suspend', { reason });
+  }
+
+  async reinstateCertificate(certificateId: string, reason?: string) {
+    return this.certificateAction(certificateId, 'reinstate', reason === undefined ? {} : { reason });
+  }
+
+  async revokeCertificate(certificateId: string, reason: string) {
+    return this.certificateAction(certificateId, 'revoke', { reason });
+  }
+
+  async renewCertificate(certificateId: string, renewal: CertificateRenewal) {
+    return this.certificateAction(certificateId, 'renew', renewal);
+  }
+
+  async amendCertificateScope(certificateId: string, scope: string, reason?: string) {
+    return this.request<{ success: boolean; data: { certificate: RegisteredCertificate } }>(
+      `/api/certificates/${encodeURIComponent(certificateId)}/scope`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({ scope, ...(reason !== undefined && { reason }) }),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  private async certificateAction(certificateId: string, action: string, body: object) {
+    return this.request<{ success: boolean; data: { certificate: RegisteredCertificate } }>(
+      `/api/certificates/${encodeURIComponent(certificateId)}/${action}`,
+      {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  // Shared applications pipeline. Changes name the version they are based on
+  // and fail with 409 when a colleague changed the record first.
+  async getPipelineApplications() {
+    return this.request<{ success: boolean; data: { applications: PipelineApplicationRecord[] } }>(
+      '/api/pipeline/applications',
+      { headers: this.authHeaders() }
+    );
+  }
+
+  async getPipelineApplication(applicationId: string) {
+    return this.request<{ success: boolean; data: { application: PipelineApplicationRecord } }>(
+      `/api/pipeline/applications/${encodeURIComponent(applicationId)}`,
+      { headers: this.authHeaders() }
+    );
+  }
+
+  async createPipelineApplication(application: PipelineApplicationInput) {
+    return this.request<{ success: boolean; data: { application: PipelineApplicationRecord } }>(
+      '/api/pipeline/applications',
+      {
+        method: 'POST',
+        body: JSON.stringify(application),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async updatePipelineApplication(applicationId: string, version: number, changes: Partial<PipelineApplicationInput>) {
+    return this.request<{
+      success: boolean;
+      data: { application: PipelineApplicationRecord; certificate?: PipelineCertificateRecord };
+    }>(
+      `/api/pipeline/applications/${encodeURIComponent(applicationId)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ ...changes, version }),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async deletePipelineApplication(applicationId: string, version?: number) {
+    const query = version === undefined ? '' : `?version=${version}`;
+    return this.request<{ success: boolean }>(
+      `/api/pipeline/applications/${encodeURIComponent(applicationId)}${query}`,
+      { method: 'DELETE', headers: this.authHeaders() }
+    );
+  }
+
+  async issuePipelineCertificate(applicationId: string, certificateId?: string) {
+    return this.request<{ success: boolean; data: { certificate: PipelineCertificateRecord } }>(
+      `/api/pipeline/applications/${encodeURIComponent(applicationId)}/certificate`,
+      {
+        method: 'POST',
+        body: JSON.stringify(certificateId === undefined ? {} : { id: certificateId }),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async getPipelineCertificates() {
+    return this.request<{ success: boolean; data: { certificates: PipelineCertificateRecord[] } }>(
+      '/api/pipeline/certificates',
+      { headers: this.authHeaders() }
+    );
+  }
+
+  async getPipelineCertificate(certificateId: string) {
+    return this.request<{ success: boolean; data: { certificate: PipelineCertificateRecord } }>(
+      `/api/pipeline/certificates/${encodeURIComponent(certificateId)}`,
+      { headers: this.authHeaders() }
+    );
+  }
+
+  async updatePipelineCertificate(certificateId: string, version: number, changes: PipelineCertificateChanges) {
+    return this.request<{ success: boolean; data: { certificate: PipelineCertificateRecord } }>(
+      `/api/pipeline/certificates/${encodeURIComponent(certificateId)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ ...changes, version }),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async deletePipelineCertificate(certificateId: string) {
+    return this.request<{ success: boolean }>(
+      `/api/pipeline/certificates/${encodeURIComponent(certificateId)}`,
+      { method: 'DELETE', headers: this.authHeaders() }
+    );
+  }
+
+  async getPipelineColumns() {
+    return this.request<{ success: boolean; data: PipelineColumnConfig }>(
+      '/api/pipeline/columns',
+      { headers: this.authHeaders() }
+    );
+  }
+
+  async updatePipelineColumns(columns: PipelineColumn[], version: number) {
+    return this.request<{ success: boolean; data: PipelineColumnConfig }>(
+      '/api/pipeline/columns',
+      {
+        method: 'PUT',
+        body: JSON.stringify({ columns, version }),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  // Supporting documents of pipeline applications, checked against the
+  // organization's document checklist. Uploads are parsed in the background;
+  // certificates found in them are matched to the checklist and their expiry
+  // dates tracked.
+  async getDocumentChecklist() {
+    return this.request<{ success: boolean; data: DocumentChecklist }>(
+      '/api/pipeline/checklist',
+      { headers: this.authHeaders() }
+    );
+  }
+
+  async updateDocumentChecklist(items: DocumentChecklistItem[], version: number) {
+    return this.request<{ success: boolean; data: DocumentChecklist }>(
+      '/api/pipeline/checklist',
+      {
+        method: 'PUT',
+        body: JSON.stringify({ items, version }),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async getApplicationChecklist(applicationId: string) {
+    return this.request<{ success: boolean; data: ApplicationChecklist }>(
+      `/api/pipeline/applications/${encodeURIComponent(applicationId)}/checklist`,
+      { headers: this.authHeaders() }
+    );
+  }
+
+  async uploadPipelineDocument(applicationId: string, file: File, checklistItem?: string) {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (checklistItem) {
+      formData.append('checklistItem', checklistItem);
+    }
+
+    return this.request<{ success: boolean; data: PipelineDocumentRecord }>(
+      `/api/pipeline/applications/${encodeURIComponent(applicationId)}/documents`,
+      {
+        method: 'POST',
+        body: formData,
+        headers: this.authHeaders(), // No Content-Type; the browser sets the multipart boundary
+      }
+    );
+  }
+
+  async updatePipelineDocument(documentId: string, changes: PipelineDocumentChanges) {
+    return this.request<{ success: boolean; data: PipelineDocumentRecord }>(
+      `/api/pipeline/documents/${encodeURIComponent(documentId)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async deletePipelineDocument(documentId: string) {
+    return this.request<{ success: boolean }>(
+      `/api/pipeline/documents/${encodeURIComponent(documentId)}`,
+      { method: 'DELETE', headers: this.authHeaders() }
+    );
+  }
+
+  async downloadPipelineDocument(documentId: string) {
+    const response = await fetch(`${this.baseUrl}/api/pipeline/documents/${encodeURIComponent(documentId)}/content`, {
+      headers: this.authHeaders(),
+    });
+    if (!response.ok) {
+      throw new ApiError(response.status, `API Error: ${response.statusText}`);
+    }
+    return response.blob();
+  }
+
+  // Documents that expired or expire within the given number of days
+  async getExpiringPipelineDocuments(withinDays = 30) {
+    return this.request<{ success: boolean; data: { documents: ExpiringPipelineDocument[] } }>(
+      `/api/pipeline/documents/expiring?withinDays=${withinDays}`,
+      { headers: this.authHeaders() }
+    );
+  }
+
+  // Supplier registry: suppliers, the raw materials they provide and their
+  // halal certificates. Analyses resolve doubtful ingredients whose material
+  // every registered supplier holds a valid certificate for.
+  async getSuppliers() {
+    return this.request<{ success: boolean; data: { suppliers: SupplierRecord[] } }>(
+      '/api/suppliers',
+      { headers: this.authHeaders() }
+    );
+  }
+
+  async createSupplier(supplier: SupplierInput) {
+    return this.request<{ success: boolean; data: SupplierRecord }>(
+      '/api/suppliers',
+      {
+        method: 'POST',
+        body: JSON.stringify(supplier),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async updateSupplier(supplierId: string, version: number, changes: Partial<SupplierInput>) {
+    return this.request<{ success: boolean; data: SupplierRecord }>(
+      `/api/suppliers/${encodeURIComponent(supplierId)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ ...changes, version }),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async deleteSupplier(supplierId: string, version?: number) {
+    const query = version === undefined ? '' : `?version=${version}`;
+    return this.request<{ success: boolean }>(
+      `/api/suppliers/${encodeURIComponent(supplierId)}${query}`,
+      { method: 'DELETE', headers: this.authHeaders() }
+    );
+  }
+
+  async searchSupplierIngredients(search: string) {
+    return this.request<{ success: boolean; data: { ingredients: SupplierIngredientOption[] } }>(
+      `/api/suppliers/ingredients?search=${encodeURIComponent(search)}`,
+      { headers: this.authHeaders() }
+    );
+  }
+
+  async addSupplierMaterial(supplierId: string, material: SupplierMaterialInput) {
+    return this.request<{ success: boolean; data: SupplierMaterialRecord }>(
+      `/api/suppliers/${encodeURIComponent(supplierId)}/materials`,
+      {
+        method: 'POST',
+        body: JSON.stringify(material),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async removeSupplierMaterial(supplierId: string, materialId: string) {
+    return this.request<{ success: boolean }>(
+      `/api/suppliers/${encodeURIComponent(supplierId)}/materials/${encodeURIComponent(materialId)}`,
+      { method: 'DELETE', headers: this.authHeaders() }
+    );
+  }
+
+  async addSupplierCertificate(supplierId: string, certificate: SupplierCertificateInput) {
+    return this.request<{ success: boolean; data: SupplierCertificateRecord }>(
+      `/api/suppliers/${encodeURIComponent(supplierId)}/certificates`,
+      {
+        method: 'POST',
+        body: JSON.stringify(certificate),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async updateSupplierCertificate(supplierId: string, certificateId: string, changes: Partial<SupplierCertificateInput>) {
+    return this.request<{ success: boolean; data: SupplierCertificateRecord }>(
+      `/api/suppliers/${encodeURIComponent(supplierId)}/certificates/${encodeURIComponent(certificateId)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async removeSupplierCertificate(supplierId: string, certificateId: string) {
+    return this.request<{ success: boolean }>(
+      `/api/suppliers/${encodeURIComponent(supplierId)}/certificates/${encodeURIComponent(certificateId)}`,
+      { method: 'DELETE', headers: this.authHeaders() }
+    );
+  }
+
+  // Certification-body directory and the recognition matrix of which
+  // export-market authorities accept which bodies. Maintained by platform
+  // administrators; supplier certificate issuers are checked against it.
+  async getCertificationBodies(filters: { search?: string; authority?: string } = {}) {
+    const params = new URLSearchParams();
+    if (filters.search) params.set('search', filters.search);
+    if (filters.authority) params.set('authority', filters.authority);
+    const query = params.toString();
+    return this.request<{ success: boolean; data: { authorities: RecognitionAuthorityRecord[]; bodies: CertificationBodyRecord[] } }>(
+      `/api/certification-bodies${query ? `?${query}` : ''}`,
+      { headers: this.authHeaders() }
+    );
+  }
+
+  async createCertificationBody(body: CertificationBodyInput) {
+    return this.request<{ success: boolean; data: CertificationBodyRecord }>(
+      '/api/certification-bodies',
+      {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async updateCertificationBody(bodyId: string, version: number, changes: Partial<CertificationBodyInput>) {
+    return this.request<{ success: boolean; data: CertificationBodyRecord }>(
+      `/api/certification-bodies/${encodeURIComponent(bodyId)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ ...changes, version }),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async deleteCertificationBody(bodyId: string, version?: number) {
+    const query = version === undefined ? '' : `?version=${version}`;
+    return this.request<{ success: boolean }>(
+      `/api/certification-bodies/${encodeURIComponent(bodyId)}${query}`,
+      { method: 'DELETE', headers: this.authHeaders() }
+    );
+  }
+
+  async setCertificationBodyRecognition(bodyId: string, authority: string, recognition: Omit<RecognitionInput, 'authority'>) {
+    return this.request<{ success: boolean; data: CertificationBodyRecord }>(
+      `/api/certification-bodies/${encodeURIComponent(bodyId)}/recognitions/${encodeURIComponent(authority)}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(recognition),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  async removeCertificationBodyRecognition(bodyId: string, authority: string) {
+    return this.request<{ success: boolean; data: CertificationBodyRecord }>(
+      `/api/certification-bodies/${encodeURIComponent(bodyId)}/recognitions/${encodeURIComponent(authority)}`,
+      { method: 'DELETE', headers: this.authHeaders() }
+    );
+  }
+
+  async importCertificationBodies(format: 'csv' | 'json', content: string) {
+    return this.request<{ success: boolean; data: { created: number; updated: number; bodies: CertificationBodyRecord[] } }>(
+      '/api/certification-bodies/import',
+      {
+        method: 'POST',
+        body: JSON.stringify({ format, content }),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      }
+    );
+  }
+
+  // Live pipeline changes and presence. Browsers cannot set headers on a
+  // WebSocket, so the token is the first message.
+  openPipelineSocket(): WebSocket | null {
+    const token = typeof window !== 'undefined' ? localStorage.getItem('auth-token') : null;
+    if (!token) {
+      return null;
+    }
+
+    const socket = new WebSocket(`${this.baseUrl.replace(/^http/, 'ws')}/api/pipeline/live`);
+    socket.addEventListener('open', () => socket.send(JSON.stringify({ type: 'auth', token })));
+    return socket;
+  }
+
+  // MFA enrollment endpoints - usable before the organization's MFA requirement is met
+  async beginMfaSetup() {
+    return this.request<{ success: boolean; data: MfaSetup }>('/api/auth/mfa/setup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+    });
+  }
+
+  async enableMfa(code: string) {
+    return this.request<{ success: boolean; data: { backupCodes: string[] } }>('/api/auth/mfa/enable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+    });
+  }
+
+  // Users of organizations that require MFA are sent to enrollment before anything else works
+  private async redirectIfMfaEnrollmentRequired(response: Response) {
+    if (typeof window === 'undefined' || window.location.pathname === MFA_SETUP_PATH) {
+      return;
+    }
+    const body: { error?: string } | null = await response.clone().json().catch(() => null);
+    if (body?.error === 'MFA_ENROLLMENT_REQUIRED') {
+      window.location.assign(`${MFA_SETUP_PATH}?redirect=${encodeURIComponent(window.location.pathname)}`);
+    }
+  }
+
+  private authHeaders(): Record<string, string> {
+    const token = typeof window !== 'undefined' ? localStorage.getItem('auth-token') : null;
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+}
+
+export interface MfaSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export type AnalysisJobStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+export type AnalysisJobItemStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface BulkJobProduct {
+  productName: string;
+  ingredientText: string;
+}
+
+export interface AnalysisJobItem {
+  id: string;
+  index: number;
+  label: string;
+  status: AnalysisJobItemStatus;
+  attempts: number;
+  result?: Record<string, any>;
+  error?: string;
+  productAnalysisId?: string;
+}
+
+export interface AnalysisJob {
+  id: string;
+  type: 'INGREDIENT_ANALYSIS' | 'LABEL_OCR';
+  status: AnalysisJobStatus;
+  totalItems: number;
+  completedItems: number;
+  failedItems: number;
+  createdAt: string;
+  finishedAt?: string;
+  items?: AnalysisJobItem[];
+}
+
+// The first event of a stream is a snapshot with all items
+export interface AnalysisJobEvent {
+  type?: 'item' | 'job';
+  job: AnalysisJob;
+  item?: AnalysisJobItem;
 }
 
 // Transform backend response to frontend format
+export type ReportType = 'EXECUTIVE_SUMMARY' | 'DETAILED_ANALYSIS' | 'CERTIFICATION_READY' | 'COMPLIANCE_DASHBOARD';
+export type ReportFormat = 'PDF' | 'EXCEL' | 'JSON';
+
+export interface ReportOptions {
+  type: ReportType;
+  format: ReportFormat;
+  language?: string;
+  customBranding?: {
+    logoUrl?: string;
+    companyName?: string;
+    colors?: { primary: string; secondary: string };
+  };
+  linkExpiresInHours?: number;
+}
+
+export interface StoredReport {
+  id: string;
+  analysisId: string;
+  type: ReportType;
+  format: ReportFormat;
+  language: string;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  downloadCount: number;
+  generatedAt: string;
+  expiresAt: string;
+}
+
+export interface ReportDownloadLink {
+  downloadUrl: string;
+  downloadExpiresAt: string;
+}
+
+export interface GeneratedReport extends ReportDownloadLink {
+  report: StoredReport;
+  metadata: Record<string, any>;
+}
+
+export type CertificateVerificationStatus = 'VALID' | 'EXPIRED' | 'SUSPENDED' | 'REVOKED';
+
+export interface CertificateVerification {
+  certificateId: string;
+  certificateNumber: string;
+  status: CertificateVerificationStatus;
+  valid: boolean;
+  type: string;
+  productName: string;
+  standard: string;
+  scope: string;
+  issuingAuthority: string;
+  validFrom: string;
+  validUntil: string;
+  signature?: DocumentSignature & { jwksUrl: string };
+  checkedAt: string;
+}
+
+export interface DocumentSignature {
+  algorithm: 'EdDSA';
+  keyId: string;
+  hash: string;
+  signature: string;
+  signedAt: string;
+}
+
+export interface CertificateDocumentVerification extends CertificateVerification {
+  document: {
+    signed: boolean;
+    hash: string;
+    hashMatches: boolean;
+    signatureValid: boolean;
+    keyId?: string;
+    signedAt?: string;
+    jwksUrl?: string;
+  };
+}
+
+export type CertificateStatus = 'ACTIVE' | 'SUSPENDED' | 'REVOKED';
+
+export interface RegisteredCertificate {
+  id: string;
+  certificateNumber: string;
+  type: string;
+  clientId: string;
+  productName: string;
+  standard: string;
+  scope: string;
+  issuingAuthority: string;
+  validFrom: string;
+  validUntil: string;
+  status: CertificateStatus;
+  statusReason?: string;
+  statusChangedAt?: string;
+  renewalCount: number;
+  issuedAt: string;
+  signature?: DocumentSignature;
+}
+
+export interface CertificateRenewal {
+  validUntil: string;
+  validFrom?: string;
+  certificateNumber?: string;
+  reason?: string;
+}
+
+export interface CertificateEvent {
+  id: string;
+  certificateId: string;
+  action: 'ISSUED' | 'SUSPENDED' | 'REINSTATED' | 'REVOKED' | 'RENEWED' | 'SCOPE_AMENDED';
+  fromStatus?: CertificateStatus;
+  toStatus: CertificateStatus;
+  reason?: string;
+  details: Record<string, any>;
+  performedBy?: string;
+  createdAt: string;
+}
+
+export interface PipelineApplicationInput {
+  id?: string;
+  organizationType?: 'certification-body' | 'food-manufacturer';
+  clientName: string;
+  company: string;
+  productName: string;
+  email?: string;
+  phone?: string;
+  submittedDate?: string;
+  status?: string;
+  priority?: 'high' | 'normal' | 'low';
+  documents?: string[];
+  analysisResult?: any;
+  notes?: string;
+}
+
+export interface PipelineApplicationRecord extends Required<Omit<PipelineApplicationInput, 'analysisResult'>> {
+  analysisResult?: any;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PipelineCertificateRecord {
+  id: string;
+  applicationId?: string;
+  certificateNumber: string;
+  clientName: string;
+  company: string;
+  productName: string;
+  email: string;
+  phone: string;
+  issuedDate: string;
+  expiryDate: string;
+  status: 'active' | 'expired' | 'suspended' | 'revoked' | 'pending';
+  certificateType: 'standard' | 'premium' | 'export';
+  analysisResult: any;
+  notes: string;
+  pdfUrl?: string;
+  version: number;
+  createdAt: string;
+}
+
+export interface PipelineCertificateChanges {
+  status?: PipelineCertificateRecord['status'];
+  expiryDate?: string;
+  notes?: string;
+  pdfUrl?: string;
+}
+
+export interface PipelineColumn {
+  id: string;
+  title: string;
+}
+
+export interface PipelineColumnConfig {
+  columns: PipelineColumn[];
+  version: number;
+}
+
+export interface DocumentChecklistItem {
+  key: string;
+  title: string;
+  description: string;
+  category: 'supplier-certificate' | 'specification' | 'flowchart' | 'other';
+  required: boolean;
+  tracksExpiry: boolean;
+}
+
+export interface DocumentChecklist {
+  items: DocumentChecklistItem[];
+  version: number; // 0 while the built-in checklist applies
+}
+
+export interface PipelineDocumentRecord {
+  id: string;
+  applicationId: string;
+  checklistItem?: string;
+  matchedBy?: 'upload' | 'extraction' | 'manual';
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  processingStatus: 'pending' | 'processing' | 'processed' | 'failed';
+  processingError?: string;
+  certificateNumber?: string;
+  certificateIssuer?: string;
+  expiryDate?: string; // YYYY-MM-DD
+  createdAt: string;
+}
+
+export interface PipelineDocumentChanges {
+  checklistItem?: string | null;
+  expiryDate?: string | null;
+  certificateNumber?: string | null;
+  certificateIssuer?: string | null;
+}
+
+export type ChecklistItemState = 'missing' | 'processing' | 'complete' | 'expiry-unknown' | 'expiring' | 'expired';
+
+export interface ApplicationChecklist {
+  applicationId: string;
+  complete: boolean;
+  items: Array<{
+    item: DocumentChecklistItem;
+    state: ChecklistItemState;
+    expiryDate?: string;
+    documents: PipelineDocumentRecord[];
+  }>;
+  unmatched: PipelineDocumentRecord[];
+}
+
+export interface ExpiringPipelineDocument extends PipelineDocumentRecord {
+  productName: string;
+  company: string;
+  clientName: string;
+  applicationStatus: string;
+  daysRemaining: number; // Negative once expired
+}
+
+export interface SupplierInput {
+  name: string;
+  country?: string;
+  contactName?: string;
+  contactEmail?: string;
+  notes?: string;
+  active?: boolean;
+}
+
+export interface SupplierMaterialInput {
+  name: string;
+  productCode?: string;
+  ingredientId?: string | null; // Knowledge-base ingredient
+}
+
+export interface SupplierMaterialRecord extends SupplierMaterialInput {
+  id: string;
+  supplierId: string;
+  ingredientName?: string;
+}
+
+export type SupplierCertificateStatus = 'active' | 'suspended' | 'withdrawn';
+
+export interface SupplierCertificateInput {
+  issuer: string;
+  certificateNumber: string;
+  validFrom?: string | null; // YYYY-MM-DD
+  validUntil: string; // YYYY-MM-DD
+  scope?: string;
+  materialIds?: string[];
+  status?: SupplierCertificateStatus;
+  documentId?: string | null; // Pipeline document the certificate was uploaded as
+  certificationBodyId?: string | null; // Directory entry of the issuer
+}
+
+export interface SupplierCertificateRecord extends Required<Pick<SupplierCertificateInput, 'issuer' | 'certificateNumber' | 'validUntil' | 'scope' | 'materialIds' | 'status'>> {
+  id: string;
+  supplierId: string;
+  validFrom?: string;
+  validity: 'valid' | 'not-yet-valid' | 'expired' | 'suspended' | 'withdrawn';
+  documentId?: string;
+  certificationBodyId?: string;
+}
+
+export interface SupplierRecord extends Required<SupplierInput> {
+  id: string;
+  materials: SupplierMaterialRecord[];
+  certificates: SupplierCertificateRecord[];
+  version: number;
+  updatedAt: string;
+}
+
+export interface SupplierIngredientOption {
+  id: string;
+  name: string;
+  eNumber?: string;
+  category: string;
+  status: string;
+}
+
+export type CertificationBodyStatus = 'active' | 'suspended' | 'withdrawn';
+export type RecognitionStatus = 'recognized' | 'suspended';
+
+export interface RecognitionAuthorityRecord {
+  code: string;
+  name: string;
+  market: string;
+  standards: string[]; // Certification standards whose export market this authority governs
+}
+
+export interface RecognitionInput {
+  authority: string;
+  status?: RecognitionStatus;
+  validUntil?: string | null; // YYYY-MM-DD
+  reference?: string;
+}
+
+export interface CertificationBodyRecognitionRecord {
+  authority: string;
+  status: RecognitionStatus;
+  validUntil?: string;
+  reference: string;
+  current: boolean; // Recognized, not expired and the body is active
+  updatedAt: string;
+}
+
+export interface CertificationBodyInput {
+  name: string;
+  aliases?: string[];
+  country?: string;
+  standards?: string[];
+  accreditation?: string;
+  logoUrl?: string | null;
+  website?: string | null;
+  status?: CertificationBodyStatus;
+  recognitions?: RecognitionInput[];
+}
+
+export interface CertificationBodyRecord {
+  id: string;
+  name: string;
+  aliases: string[];
+  country: string;
+  standards: string[];
+  accreditation: string;
+  logoUrl?: string;
+  website?: string;
+  status: CertificationBodyStatus;
+  recognitions: CertificationBodyRecognitionRecord[];
+  version: number;
+  updatedAt: string;
+}
+
+export interface PipelineViewer {
+  userId: string;
+  name: string;
+}
+
+// Pushed over the pipeline socket; 'ready' answers authentication with the
+// signed-in user and who has which application open
+export interface PipelineLiveEvent {
+  type: 'ready' | 'application-saved' | 'application-deleted' | 'document-saved' | 'document-deleted'
+    | 'certificate-saved' | 'certificate-deleted' | 'columns-saved' | 'presence';
+  userId?: string;
+  application?: PipelineApplicationRecord;
+  changes?: string[];
+  applicationId?: string;
+  document?: PipelineDocumentRecord;
+  documentId?: string;
+  certificate?: PipelineCertificateRecord;
+  certificateId?: string;
+  columns?: PipelineColumnConfig;
+  viewers?: PipelineViewer[];
+  presence?: PipelineLiveEvent[];
+}
+
 export function transformAnalysisResult(backendResult: any): any {
   // Handle new agent-based response format
   if (backendResult.overallStatus || backendResult.confidenceScore) {
@@ -1,7 +1,40 @@
 // Centralized Data Management System for HalalCheck AI
 // Handles all data synchronization between Applications, Certificates, and Analytics
+//
+// Signed-in users share their organization's pipeline through the API: changes
+// show up immediately and are saved in the background, one at a time per
+// record. A change a colleague beat us to is replaced by their version and
+// reported to sync listeners; a change that fails to save is rolled back.
+// Colleagues' changes and who has which application open arrive over the
+// pipeline socket; while it is down the pipeline is polled instead.
+// Without a session (demo pages) records stay in this browser.
 
 import { OrganizationType, getPipelineStages, getOrganizationConfig } from './organization-context'
+import {
+  apiService,
+  ApiError,
+  PipelineApplicationInput,
+  PipelineApplicationRecord,
+  PipelineCertificateRecord,
+  PipelineColumn,
+  PipelineLiveEvent,
+  PipelineViewer
+} from './api'
+
+export type { PipelineColumn, PipelineViewer } from './api'
+
+const REFRESH_INTERVAL_MS = 30000
+const LIVE_RETRY_MIN_MS = 2000
+const LIVE_RETRY_MAX_MS = 60000
+// The server refused the session; reconnecting will not help
+const LIVE_REFUSED_CODES = [4001, 4003]
+const COLUMNS_QUEUE_KEY = 'pipeline-columns'
+const CUSTOM_COLUMNS_KEY = 'pipeline-custom-columns'
+
+// Application fields the pipeline API accepts in an update
+const APPLICATION_CHANGE_FIELDS = [
+  'clientName', 'company', 'productName', 'email', 'phone', 'status', 'priority', 'documents', 'analysisResult', 'notes'
+] as const
 
 // Generic status type that works for all organization types
 export type ApplicationStatus = string
@@ -20,6 +53,7 @@ export interface Application {
   analysisResult?: any
   notes: string
   organizationType?: OrganizationType // Track which organization type created this
+  version?: number // Server version of shared records
   createdAt: string
   updatedAt: string
 }
@@ -35,14 +69,65 @@ export interface Certificate {
   phone: string
   issuedDate: string
   expiryDate: string
-  status: 'active' | 'expired' | 'revoked' | 'pending'
+  status: 'active' | 'expired' | 'suspended' | 'revoked' | 'pending'
   analysisResult: any
   certificateType: 'standard' | 'premium' | 'export'
   notes: string
   pdfUrl?: string
+  version?: number // Server version of shared records
   createdAt: string
 }
 
+export interface SyncIssue {
+  kind: 'conflict' | 'error'
+  resource: 'pipeline' | 'application' | 'certificate' | 'columns'
+  id?: string
+  message: string
+}
+
+function toApplication(record: PipelineApplicationRecord): Application {
+  return {
+    id: record.id,
+    clientName: record.clientName,
+    company: record.company,
+    productName: record.productName,
+    email: record.email,
+    phone: record.phone,
+    submittedDate: record.submittedDate,
+    status: record.status,
+    priority: record.priority,
+    documents: record.documents,
+    analysisResult: record.analysisResult,
+    notes: record.notes,
+    organizationType: record.organizationType,
+    version: record.version,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt
+  }
+}
+
+function toCertificate(record: PipelineCertificateRecord): Certificate {
+  return {
+    id: record.id,
+    certificateNumber: record.certificateNumber,
+    applicationId: record.applicationId || '',
+    clientName: record.clientName,
+    company: record.company,
+    productName: record.productName,
+    email: record.email,
+    phone: record.phone,
+    issuedDate: record.issuedDate,
+    expiryDate: record.expiryDate,
+    status: record.status,
+    analysisResult: record.analysisResult,
+    certificateType: record.certificateType,
+    notes: record.notes,
+    pdfUrl: record.pdfUrl,
+    version: record.version,
+    createdAt: record.createdAt
+  }
+}
+
 export interface AnalyticsData {
   totalApplications: number
   certificatesIssued: number
@@ -79,8 +164,26 @@ class DataManager {
   private static instance: DataManager
   private applications: Application[] = []
   private certificates: Certificate[] = []
+  private customColumns: PipelineColumn[] = []
+  private columnsVersion = 0
   private listeners: Array<() => void> = []
+  private syncListeners: Array<(issue: SyncIssue) => void> = []
   private currentOrganizationType: OrganizationType = 'certification-body'
+  private shared = false
+  private authToken: string | null = null
+  private refreshTimer: ReturnType<typeof setInterval> | null = null
+  private liveRetryTimer: ReturnType<typeof setTimeout> | null = null
+  private writeQueues = new Map<string, Promise<void>>()
+  private pendingWrites = 0
+  private live: WebSocket | null = null
+  private liveReady = false
+  private liveConnectedBefore = false
+  private liveRetryMs = LIVE_RETRY_MIN_MS
+  private userId: string | null = null
+  private viewers = new Map<string, PipelineViewer[]>()
+  private openApplicationIds = new Set<string>()
+  private presenceListeners: Array<() => void> = []
+  private documentListeners: Array<(applicationId: string) => void> = []
 
   static getInstance(): DataManager {
     if (!DataManager.instance) {
@@ -90,12 +193,64 @@ class DataManager {
   }
 
   constructor() {
-    this.loadData()
+    this.start()
+  }
+
+  // Signed-in users get the organization's shared pipeline, everyone else the local one
+  private start() {
+    this.authToken = localStorage.getItem('auth-token')
+    this.shared = !!this.authToken
+    if (this.shared) {
+      void this.refresh()
+      this.connectLive()
+      this.refreshTimer = setInterval(() => {
+        if (!this.liveReady) void this.refresh()
+      }, REFRESH_INTERVAL_MS)
+    } else {
+      this.loadData()
+    }
+  }
+
+  // Stop polling and close the pipeline socket
+  dispose() {
+    if (this.refreshTimer) clearInterval(this.refreshTimer)
+    if (this.liveRetryTimer) clearTimeout(this.liveRetryTimer)
+    this.refreshTimer = null
+    this.liveRetryTimer = null
+
+    const socket = this.live
+    this.live = null
+    this.liveReady = false
+    this.liveConnectedBefore = false
+    this.liveRetryMs = LIVE_RETRY_MIN_MS
+    socket?.close()
+  }
+
+  // Start over when the user signed in, out or into another organization
+  // since the pipeline was loaded
+  reload() {
+    if (localStorage.getItem('auth-token') === this.authToken) return
+
+    this.dispose()
+    this.applications = []
+    this.certificates = []
+    this.customColumns = []
+    this.columnsVersion = 0
+    this.userId = null
+    this.viewers.clear()
+    this.start()
+    this.notify()
+    this.notifyPresence()
+  }
+
+  isShared(): boolean {
+    return this.shared
   }
 
   // Set organization type context
   setOrganizationType(type: OrganizationType) {
     this.currentOrganizationType = type
+    this.reload()
     this.notify() // Notify listeners of context change
   }
 
@@ -115,6 +270,265 @@ class DataManager {
     this.listeners.forEach(listener => listener())
   }
 
+  // Conflicts and failed saves of shared records
+  subscribeToSyncIssues(listener: (issue: SyncIssue) => void) {
+    this.syncListeners.push(listener)
+    return () => {
+      this.syncListeners = this.syncListeners.filter(l => l !== listener)
+    }
+  }
+
+  private reportIssue(issue: SyncIssue) {
+    this.syncListeners.forEach(listener => listener(issue))
+  }
+
+  // Colleagues opening and closing applications
+  subscribeToPresence(listener: () => void) {
+    this.presenceListeners.push(listener)
+    return () => {
+      this.presenceListeners = this.presenceListeners.filter(l => l !== listener)
+    }
+  }
+
+  private notifyPresence() {
+    this.presenceListeners.forEach(listener => listener())
+  }
+
+  // Documents uploaded, matched or processed for an application
+  subscribeToDocuments(listener: (applicationId: string) => void) {
+    this.documentListeners.push(listener)
+    return () => {
+      this.documentListeners = this.documentListeners.filter(l => l !== listener)
+    }
+  }
+
+  // Colleagues who have the application open
+  getViewers(applicationId: string): PipelineViewer[] {
+    return (this.viewers.get(applicationId) || []).filter(viewer => viewer.userId !== this.userId)
+  }
+
+  // Let colleagues see this user has the application open
+  openApplication(applicationId: string) {
+    this.openApplicationIds.add(applicationId)
+    this.sendLive({ type: 'open', applicationId })
+  }
+
+  closeApplication(applicationId: string) {
+    if (this.openApplicationIds.delete(applicationId)) {
+      this.sendLive({ type: 'close', applicationId })
+    }
+  }
+
+  private sendLive(message: { type: 'open' | 'close'; applicationId: string }) {
+    if (this.live && this.liveReady) {
+      this.live.send(JSON.stringify(message))
+    }
+  }
+
+  private connectLive() {
+    const socket = apiService.openPipelineSocket()
+    if (!socket) return
+
+    this.live = socket
+    // Sockets closed by dispose() are ignored
+    socket.addEventListener('message', event => {
+      if (this.live === socket) this.handleLiveEvent(JSON.parse(event.data))
+    })
+    socket.addEventListener('close', event => {
+      if (this.live !== socket) return
+
+      this.live = null
+      this.liveReady = false
+      this.viewers.clear()
+      this.notifyPresence()
+      if (LIVE_REFUSED_CODES.includes(event.code)) return
+
+      this.liveRetryTimer = setTimeout(() => this.connectLive(), this.liveRetryMs)
+      this.liveRetryMs = Math.min(this.liveRetryMs * 2, LIVE_RETRY_MAX_MS)
+    })
+  }
+
+  // Records with queued writes are left alone: the write's outcome decides
+  // them, and taking a colleague's version first would let a change based on
+  // the older one through without a conflict.
+  private handleLiveEvent(event: PipelineLiveEvent) {
+    switch (event.type) {
+      case 'ready':
+        this.liveReady = true
+        this.liveRetryMs = LIVE_RETRY_MIN_MS
+        this.userId = event.userId || null
+        this.viewers.clear()
+        for (const entry of event.presence || []) {
+          if (entry.applicationId) this.viewers.set(entry.applicationId, entry.viewers || [])
+        }
+        this.openApplicationIds.forEach(applicationId => this.sendLive({ type: 'open', applicationId }))
+        this.notifyPresence()
+        // Catch up on what was missed while disconnected
+        if (this.liveConnectedBefore) void this.refresh()
+        this.liveConnectedBefore = true
+        return
+
+      case 'application-saved': {
+        const record = event.application
+        if (!record || this.writeQueues.has(record.id)) return
+        const local = this.getApplicationById(record.id)
+        if (local && (local.version || 0) >= record.version) return
+        this.replaceApplication(record.id, toApplication(record))
+        break
+      }
+
+      case 'application-deleted': {
+        const id = event.applicationId
+        if (!id || this.writeQueues.has(id)) return
+        this.replaceApplication(id, undefined)
+        this.certificates = this.certificates.filter(cert => cert.applicationId !== id)
+        break
+      }
+
+      case 'document-saved':
+      case 'document-deleted': {
+        const applicationId = event.document?.applicationId || event.applicationId
+        if (applicationId) this.documentListeners.forEach(listener => listener(applicationId))
+        return
+      }
+
+      case 'certificate-saved': {
+        const record = event.certificate
+        if (!record || this.writeQueues.has(record.id)) return
+        const local = this.getCertificateById(record.id)
+        if (local && (local.version || 0) >= record.version) return
+        this.replaceCertificate(record.id, toCertificate(record))
+        break
+      }
+
+      case 'certificate-deleted':
+        if (!event.certificateId || this.writeQueues.has(event.certificateId)) return
+        this.replaceCertificate(event.certificateId, undefined)
+        break
+
+      case 'columns-saved':
+        if (!event.columns || this.writeQueues.has(COLUMNS_QUEUE_KEY) || event.columns.version <= this.columnsVersion) return
+        this.customColumns = event.columns.columns
+        this.columnsVersion = event.columns.version
+        // Applications in removed columns were moved as well
+        void this.refresh()
+        break
+
+      case 'presence':
+        if (!event.applicationId) return
+        if (event.viewers && event.viewers.length > 0) {
+          this.viewers.set(event.applicationId, event.viewers)
+        } else {
+          this.viewers.delete(event.applicationId)
+        }
+        this.notifyPresence()
+        return
+    }
+    this.notify()
+  }
+
+  // Reload the shared pipeline. Skipped while changes are being saved, since
+  // the server state would briefly undo them; the next refresh catches up.
+  async refresh(): Promise<void> {
+    if (!this.shared) return
+
+    try {
+      const [applications, certificates, columns] = await Promise.all([
+        apiService.getPipelineApplications(),
+        apiService.getPipelineCertificates(),
+        apiService.getPipelineColumns()
+      ])
+      if (this.pendingWrites > 0) return
+
+      this.applications = applications.data.applications.map(toApplication)
+      this.certificates = certificates.data.certificates.map(toCertificate)
+      this.customColumns = columns.data.columns
+      this.columnsVersion = columns.data.version
+      this.notify()
+    } catch {
+      this.reportIssue({ kind: 'error', resource: 'pipeline', message: 'The shared pipeline could not be loaded' })
+    }
+  }
+
+  // Save a change already applied locally. Writes to the same record run in
+  // order so each one is based on the version the previous one produced.
+  private persist<T>(
+    key: string,
+    issue: Pick<SyncIssue, 'resource' | 'id'>,
+    request: () => Promise<T>,
+    onSaved: (result: T) => void,
+    rollback: () => void,
+    reload: () => Promise<void>
+  ): Promise<void> {
+    this.pendingWrites++
+    const write = async () => {
+      try {
+        onSaved(await request())
+      } catch (error) {
+        if (error instanceof ApiError && (error.status === 409 || error.status === 404)) {
+          await reload().catch(rollback)
+          this.reportIssue({ ...issue, kind: 'conflict', message: 'A colleague changed this first; their version is shown' })
+        } else {
+          rollback()
+          this.reportIssue({ ...issue, kind: 'error', message: 'The change could not be saved and was undone' })
+        }
+      } finally {
+        this.pendingWrites--
+        this.notify()
+      }
+    }
+
+    const next = (this.writeQueues.get(key) || Promise.resolve()).then(write)
+    this.writeQueues.set(key, next)
+    void next.then(() => {
+      if (this.writeQueues.get(key) === next) this.writeQueues.delete(key)
+    })
+    return next
+  }
+
+  private replaceApplication(id: string, application: Application | undefined) {
+    const index = this.applications.findIndex(app => app.id === id)
+    if (!application) {
+      if (index !== -1) this.applications.splice(index, 1)
+    } else if (index === -1) {
+      this.applications.push(application)
+    } else {
+      this.applications[index] = application
+    }
+  }
+
+  private replaceCertificate(id: string, certificate: Certificate | undefined) {
+    const index = this.certificates.findIndex(cert => cert.id === id)
+    if (!certificate) {
+      if (index !== -1) this.certificates.splice(index, 1)
+    } else if (index === -1) {
+      this.certificates.push(certificate)
+    } else {
+      this.certificates[index] = certificate
+    }
+  }
+
+  // Take the server's copy of a record, or drop it when it was deleted
+  private async reloadApplication(id: string) {
+    try {
+      const { data } = await apiService.getPipelineApplication(id)
+      this.replaceApplication(id, toApplication(data.application))
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === 404)) throw error
+      this.replaceApplication(id, undefined)
+    }
+  }
+
+  private async reloadCertificate(id: string) {
+    try {
+      const { data } = await apiService.getPipelineCertificate(id)
+      this.replaceCertificate(id, toCertificate(data.certificate))
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === 404)) throw error
+      this.replaceCertificate(id, undefined)
+    }
+  }
+
   private loadData() {
     // Load applications
     const storedApps = localStorage.getItem('halalcheck_applications')
@@ -135,6 +549,15 @@ class DataManager {
     if (storedCerts) {
       this.certificates = JSON.parse(storedCerts)
     }
+
+    const storedColumns = localStorage.getItem(CUSTOM_COLUMNS_KEY)
+    if (storedColumns) {
+      try {
+        this.customColumns = JSON.parse(storedColumns)
+      } catch (e) {
+        console.error('Failed to load custom columns:', e)
+      }
+    }
   }
 
   private saveData() {
@@ -249,10 +672,34 @@ class DataManager {
     }
     
     this.applications.push(newApplication)
-    this.saveData()
+    if (!this.shared) {
+      this.saveData()
+      return newApplication
+    }
+
+    this.notify()
+    const input: PipelineApplicationInput = {
+      ...applicationData,
+      id: newApplication.id,
+      organizationType: this.currentOrganizationType === 'food-manufacturer' ? 'food-manufacturer' : 'certification-body'
+    }
+    void this.persist(
+      newApplication.id,
+      { resource: 'application', id: newApplication.id },
+      () => apiService.createPipelineApplication(input),
+      ({ data }) => this.patchApplication(newApplication.id, { version: data.application.version }),
+      () => this.replaceApplication(newApplication.id, undefined),
+      () => this.reloadApplication(newApplication.id)
+    )
     return newApplication
   }
 
+  // Merge server bookkeeping into a local record without touching queued changes
+  private patchApplication(id: string, fields: Partial<Application>) {
+    const app = this.applications.find(app => app.id === id)
+    if (app) Object.assign(app, fields)
+  }
+
   updateApplication(id: string, updates: Partial<Application>): Application | null {
     const index = this.applications.findIndex(app => app.id === id)
     if (index === -1) return null
@@ -267,16 +714,51 @@ class DataManager {
       updatedAt: new Date().toISOString()
     }
 
+    if (this.shared) {
+      // The server issues the certificate when the final stage is reached
+      this.notify()
+      this.saveApplicationChanges(app, updates)
+      return this.applications[index]
+    }
+
     // Auto-generate certificate based on organization type final status
     const shouldGenerateCertificate = this.shouldGenerateCertificate(oldStatus, updates.status, orgType)
     if (shouldGenerateCertificate) {
-      this.generateCertificateFromApplication(this.applications[index])
+      this.certificates.push(this.buildCertificate(this.applications[index]))
     }
 
     this.saveData()
     return this.applications[index]
   }
 
+  private saveApplicationChanges(before: Application, updates: Partial<Application>) {
+    const changes: Partial<PipelineApplicationInput> = {}
+    for (const field of APPLICATION_CHANGE_FIELDS) {
+      if (updates[field] !== undefined) {
+        Object.assign(changes, { [field]: updates[field] })
+      }
+    }
+    if (Object.keys(changes).length === 0) return
+
+    void this.persist(
+      before.id,
+      { resource: 'application', id: before.id },
+      // Read the version when the write runs, after earlier writes bumped it
+      () => apiService.updatePipelineApplication(before.id, this.getApplicationById(before.id)?.version || 0, changes),
+      ({ data }) => {
+        this.patchApplication(before.id, { version: data.application.version })
+        if (data.certificate) {
+          this.replaceCertificate(data.certificate.id, toCertificate(data.certificate))
+        }
+      },
+      () => {
+        // Unless the application itself failed to save and is gone
+        if (this.getApplicationById(before.id)) this.replaceApplication(before.id, before)
+      },
+      () => this.reloadApplication(before.id)
+    )
+  }
+
   // Determine if certificate should be generated based on organization type
   private shouldGenerateCertificate(oldStatus: string, newStatus: string | undefined, orgType: OrganizationType): boolean {
     if (!newStatus || oldStatus === newStatus) return false
@@ -302,6 +784,28 @@ class DataManager {
     const index = this.applications.findIndex(app => app.id === id)
     if (index === -1) return false
 
+    if (this.shared) {
+      // The server deletes the certificate along with the application
+      const application = this.applications[index]
+      const certificate = this.certificates.find(cert => cert.applicationId === id)
+      this.replaceApplication(id, undefined)
+      if (certificate) this.replaceCertificate(certificate.id, undefined)
+      this.notify()
+
+      void this.persist(
+        id,
+        { resource: 'application', id },
+        () => apiService.deletePipelineApplication(id, application.version),
+        () => {},
+        () => {
+          this.replaceApplication(id, application)
+          if (certificate) this.replaceCertificate(certificate.id, certificate)
+        },
+        () => this.reloadApplication(id)
+      )
+      return true
+    }
+
     // Also delete associated certificate if exists
     const associatedCert = this.certificates.find(cert => cert.applicationId === id)
     if (associatedCert) {
@@ -322,7 +826,23 @@ class DataManager {
     return this.certificates.find(cert => cert.id === id)
   }
 
-  generateCertificateFromApplication(application: Application): Certificate {
+  // Shared certificates are numbered by the server, so this waits for it
+  async generateCertificateFromApplication(application: Application): Promise<Certificate> {
+    if (this.shared) {
+      const { data } = await apiService.issuePipelineCertificate(application.id)
+      const certificate = toCertificate(data.certificate)
+      this.replaceCertificate(certificate.id, certificate)
+      this.notify()
+      return certificate
+    }
+
+    const certificate = this.buildCertificate(application)
+    this.certificates.push(certificate)
+    this.saveData()
+    return certificate
+  }
+
+  private buildCertificate(application: Application): Certificate {
     const orgType = application.organizationType || this.currentOrganizationType
     const config = getOrganizationConfig(orgType)
     
@@ -349,8 +869,6 @@ class DataManager {
       createdAt: new Date().toISOString()
     }
 
-    this.certificates.push(certificate)
-    this.saveData()
     return certificate
   }
 
@@ -374,12 +892,36 @@ class DataManager {
     const index = this.certificates.findIndex(cert => cert.id === id)
     if (index === -1) return null
 
+    const before = this.certificates[index]
     this.certificates[index] = {
-      ...this.certificates[index],
+      ...before,
       ...updates
     }
 
-    this.saveData()
+    if (!this.shared) {
+      this.saveData()
+      return this.certificates[index]
+    }
+
+    this.notify()
+    const { status, expiryDate, notes, pdfUrl } = updates
+    const changes = {
+      ...(status !== undefined && { status }),
+      ...(expiryDate !== undefined && { expiryDate }),
+      ...(notes !== undefined && { notes }),
+      ...(pdfUrl !== undefined && { pdfUrl })
+    }
+    void this.persist(
+      id,
+      { resource: 'certificate', id },
+      () => apiService.updatePipelineCertificate(id, this.getCertificateById(id)?.version || 0, changes),
+      ({ data }) => {
+        const cert = this.certificates.find(cert => cert.id === id)
+        if (cert) cert.version = data.certificate.version
+      },
+      () => this.replaceCertificate(id, before),
+      () => this.reloadCertificate(id)
+    )
     return this.certificates[index]
   }
 
@@ -387,11 +929,71 @@ class DataManager {
     const index = this.certificates.findIndex(cert => cert.id === id)
     if (index === -1) return false
 
+    const certificate = this.certificates[index]
     this.certificates.splice(index, 1)
-    this.saveData()
+    if (!this.shared) {
+      this.saveData()
+      return true
+    }
+
+    this.notify()
+    void this.persist(
+      id,
+      { resource: 'certificate', id },
+      () => apiService.deletePipelineCertificate(id),
+      () => {},
+      () => this.replaceCertificate(id, certificate),
+      () => this.reloadCertificate(id)
+    )
     return true
   }
 
+  // Custom pipeline columns, shown after the organization type's stages
+  getCustomColumns(): PipelineColumn[] {
+    return [...this.customColumns]
+  }
+
+  // Applications in removed columns move back to 'new'
+  saveCustomColumns(columns: PipelineColumn[]) {
+    const before = this.customColumns
+    const removed = before.filter(col => !columns.some(c => c.id === col.id)).map(col => col.id)
+    this.customColumns = columns.map(col => ({ id: col.id, title: col.title }))
+
+    if (!this.shared) {
+      this.applications.forEach(app => {
+        if (removed.includes(app.status)) {
+          app.status = 'new'
+          app.updatedAt = new Date().toISOString()
+        }
+      })
+      localStorage.setItem(CUSTOM_COLUMNS_KEY, JSON.stringify(this.customColumns))
+      this.saveData()
+      return
+    }
+
+    const columnsToSave = this.customColumns
+    this.notify()
+    void this.persist(
+      COLUMNS_QUEUE_KEY,
+      { resource: 'columns' },
+      () => apiService.updatePipelineColumns(columnsToSave, this.columnsVersion),
+      ({ data }) => {
+        this.columnsVersion = data.version
+      },
+      () => {
+        this.customColumns = before
+      },
+      async () => {
+        const { data } = await apiService.getPipelineColumns()
+        this.customColumns = data.columns
+        this.columnsVersion = data.version
+      }
+    ).then(() => {
+      // Pick up the applications the server moved out of removed columns
+      if (removed.length > 0) void this.refresh()
+    })
+  }
+
   // Get applications filtered by organization type
   getApplicationsByOrganizationType(orgType?: OrganizationType): Application[] {
     const targetType = orgType || this.currentOrganizationType
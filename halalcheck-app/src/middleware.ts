@@ -73,6 +73,8 @@ export async function middleware(request: NextRequest) {
     '/pricing',
     '/demo',
     '/contact',
+    '/verify', // Certificate QR codes
+    '/mfa-setup', // Authorized by the backend token issued at login
     '/dashboard', // Temporarily allow dashboard access for testing
     '/_next',
     '/favicon.ico',